@@ -3,6 +3,8 @@
 // Strategy: Network-first with cache fallback for static assets
 
 const CACHE_NAME = 'ham-prep-v1';
+// Figures downloaded for offline study (see src/lib/offlineStore.ts)
+const OFFLINE_FIGURE_CACHE = 'ham-prep-offline-figures';
 
 // Static assets to pre-cache on install
 const STATIC_ASSETS = [
@@ -55,7 +57,7 @@ self.addEventListener('activate', (event) => {
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames
-          .filter((name) => name !== CACHE_NAME)
+          .filter((name) => name !== CACHE_NAME && name !== OFFLINE_FIGURE_CACHE)
           .map((name) => caches.delete(name))
       );
     })
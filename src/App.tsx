@@ -12,6 +12,7 @@ import { AccessibilityProvider } from "@/hooks/useAccessibility";
 import { useWindowControlsOverlay } from "@/hooks/useWindowControlsOverlay";
 import { ThemeProvider } from "next-themes";
 import { PWAInstallBanner } from "@/components/PWAInstallBanner";
+import { QUESTION_OF_THE_DAY_PATH, getEmbedTheme, isEmbedPath } from "@/lib/questionOfTheDay";
 
 // Lazy load pages for code splitting
 const Index = lazy(() => import("./pages/Index"));
@@ -21,6 +22,7 @@ const Admin = lazy(() => import("./pages/Admin"));
 const OAuthConsent = lazy(() => import("./pages/OAuthConsent"));
 const QuestionPage = lazy(() => import("./pages/QuestionPage"));
 const QuestionRedirect = lazy(() => import("./pages/QuestionRedirect"));
+const EmbedQuestionOfTheDay = lazy(() => import("./pages/EmbedQuestionOfTheDay"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 const queryClient = new QueryClient();
@@ -43,7 +45,8 @@ const AppContent = () => {
     <>
       <Toaster />
       <Sonner />
-      <PWAInstallBanner />
+      {/* Embeds live in other sites' iframes; no install prompt there */}
+      {!isEmbedPath(window.location.pathname) && <PWAInstallBanner />}
       <BrowserRouter>
         <Suspense fallback={<PageLoader />}>
           <Routes>
@@ -55,6 +58,7 @@ const AppContent = () => {
             <Route path="/questions/:id" element={<QuestionPage />} />
             {/* Short URL alias for question links - redirects to canonical URL */}
             <Route path="/q/:id" element={<QuestionRedirect />} />
+            <Route path={QUESTION_OF_THE_DAY_PATH} element={<EmbedQuestionOfTheDay />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -65,7 +69,12 @@ const AppContent = () => {
 };
 
 const App = () => (
-  <ThemeProvider attribute="class" defaultTheme="system" enableSystem={true}>
+  <ThemeProvider
+    attribute="class"
+    defaultTheme="system"
+    enableSystem={true}
+    forcedTheme={getEmbedTheme(window.location)}
+  >
     <AccessibilityProvider>
       <QueryClientProvider client={queryClient}>
         <AuthProvider>
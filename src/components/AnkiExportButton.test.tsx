@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { AnkiExportButton } from './AnkiExportButton';
+
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+  },
+}));
+
+import { toast } from 'sonner';
+
+const questions = [
+  {
+    id: 'q1',
+    displayName: 'T1A01',
+    question: 'Which agency regulates amateur radio?',
+    options: { A: 'FEMA', B: 'FCC', C: 'ITU', D: 'ARRL' },
+    correctAnswer: 'B' as const,
+    subelement: 'T1',
+    group: 'T1A',
+    explanation: 'The FCC regulates amateur radio.',
+    figureUrl: null,
+  },
+];
+
+describe('AnkiExportButton', () => {
+  let blobs: Blob[];
+  let downloads: string[];
+  let clickSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    blobs = [];
+    downloads = [];
+    URL.createObjectURL = vi.fn((blob: Blob) => {
+      blobs.push(blob);
+      return 'blob:export';
+    });
+    URL.revokeObjectURL = vi.fn();
+    clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+      downloads.push(this.download);
+    });
+  });
+
+  afterEach(() => {
+    clickSpy.mockRestore();
+  });
+
+  it('downloads an Anki deck with bookmark notes', async () => {
+    const user = userEvent.setup();
+    render(
+      <AnkiExportButton
+        questions={questions}
+        deckName="Bookmarks"
+        setTag="bookmarks"
+        notes={{ q1: 'Federal Communications Commission' }}
+      />
+    );
+
+    await user.click(screen.getByRole('button', { name: /flashcards/i }));
+    await user.click(screen.getByRole('menuitem', { name: /anki deck/i }));
+
+    expect(downloads[0]).toMatch(/^openhamprep-bookmarks-\d{4}-\d{2}-\d{2}\.txt$/);
+    const text = await blobs[0].text();
+    expect(text).toContain('#deck:Open Ham Prep::Bookmarks');
+    expect(text).toContain('Federal Communications Commission');
+    expect(text).toContain('t1a01 t1 t1a openhamprep::bookmarks');
+    expect(toast.success).toHaveBeenCalledWith('Exported 1 card');
+  });
+
+  it('downloads a tagged CSV', async () => {
+    const user = userEvent.setup();
+    render(<AnkiExportButton questions={questions} deckName="Weak Questions" setTag="weak-questions" />);
+
+    await user.click(screen.getByRole('button', { name: /flashcards/i }));
+    await user.click(screen.getByRole('menuitem', { name: /tagged csv/i }));
+
+    expect(downloads[0]).toMatch(/\.csv$/);
+    expect(await blobs[0].text()).toMatch(/^guid,front,back,tags\nopenhamprep-q1,/);
+  });
+
+  it('is disabled without questions', () => {
+    render(<AnkiExportButton questions={[]} deckName="Bookmarks" setTag="bookmarks" />);
+
+    expect(screen.getByRole('button', { name: /flashcards/i })).toBeDisabled();
+  });
+});
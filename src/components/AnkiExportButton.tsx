@@ -0,0 +1,81 @@
+import { Download, FileSpreadsheet, Layers } from "lucide-react";
+import { toast } from "sonner";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  ankiExportFilename,
+  buildAnkiCards,
+  toAnkiCsv,
+  toAnkiText,
+  type AnkiExportQuestion,
+} from "@/lib/ankiExport";
+
+interface AnkiExportButtonProps {
+  questions: AnkiExportQuestion[];
+  /** Deck name shown in Anki; nested under "Open Ham Prep" */
+  deckName: string;
+  /** Tag for the study set, e.g. "bookmarks" */
+  setTag: string;
+  /** Bookmark notes by question id, added to the back of each card */
+  notes?: Record<string, string | null | undefined>;
+  size?: ButtonProps["size"];
+  className?: string;
+}
+
+function downloadFile(content: string, filename: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+/** Learner export of a study set as flashcards for Anki or a spreadsheet */
+export function AnkiExportButton({ questions, deckName, setTag, notes, size, className }: AnkiExportButtonProps) {
+  const exportAs = (format: "anki" | "csv") => {
+    const cards = buildAnkiCards(questions, { setTag, notes });
+    const filename = ankiExportFilename(setTag);
+    if (format === "anki") {
+      downloadFile(toAnkiText(cards, `Open Ham Prep::${deckName}`), `${filename}.txt`, "text/plain");
+    } else {
+      downloadFile(toAnkiCsv(cards), `${filename}.csv`, "text/csv");
+    }
+    toast.success(`Exported ${cards.length} card${cards.length !== 1 ? "s" : ""}`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} className={className} disabled={questions.length === 0}>
+          <Download className="w-4 h-4 mr-2" aria-hidden="true" />
+          Flashcards
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel className="text-xs font-normal text-muted-foreground">
+          {questions.length} question{questions.length !== 1 ? "s" : ""}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => exportAs("anki")}>
+          <Layers className="w-4 h-4 mr-2 text-primary" />
+          Anki deck (.txt)
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportAs("csv")}>
+          <FileSpreadsheet className="w-4 h-4 mr-2 text-success" />
+          Tagged CSV
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -4,6 +4,7 @@ import { useAuth } from '@/hooks/useAuth';
 import { useBookmarks } from '@/hooks/useBookmarks';
 import { useQueryClient } from '@tanstack/react-query';
 import { useFullProfile, useQuestionAttemptsWithNames } from '@/hooks/useDashboardData';
+import { useReviewSchedule } from '@/hooks/useReviewSchedule';
 import { queryKeys } from '@/services/queryKeys';
 import { DashboardSidebar } from '@/components/DashboardSidebar';
 import { View, TestType, testTypes } from '@/types/navigation';
@@ -14,6 +15,7 @@ import { calculateWeakQuestionIds } from '@/lib/weakQuestions';
 import { filterByTestType } from '@/lib/testTypeUtils';
 import { SkipLink } from '@/components/SkipLink';
 import { useCommunityPromoToast } from '@/hooks/useCommunityPromoToast';
+import { OfflineStatusBanner } from '@/components/OfflineStatusBanner';
 
 interface AppLayoutProps {
   children: ReactNode;
@@ -44,6 +46,9 @@ export function AppLayout({ children, currentView, onViewChange, selectedTest, o
     ? calculateWeakQuestionIds(filteredAttempts)
     : [];
 
+  // Spaced-repetition queue for the selected test type
+  const { dueQuestions } = useReviewSchedule(selectedTest);
+
   // Filter bookmarks by selected test type
   const filteredBookmarks = filterByTestType(
     bookmarks || [],
@@ -96,6 +101,7 @@ export function AppLayout({ children, currentView, onViewChange, selectedTest, o
           isCollapsed={sidebarCollapsed}
           onToggleCollapse={() => setSidebarCollapsed(!sidebarCollapsed)}
           weakQuestionCount={weakQuestionIds.length}
+          dueReviewCount={dueQuestions.length}
           bookmarkCount={filteredBookmarks.length}
           isTestAvailable={isTestAvailable}
           userInfo={userInfo}
@@ -106,6 +112,7 @@ export function AppLayout({ children, currentView, onViewChange, selectedTest, o
           onSearch={onSearch}
         />
         <main id="main-content" className="flex-1 overflow-y-auto pt-safe-header md:pt-0 flex flex-col">
+          {user && <OfflineStatusBanner />}
           {children}
         </main>
         <HelpButton />
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { BandPlanExplorer } from './BandPlanExplorer';
+
+const mockNavigate = vi.fn();
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useNavigate: () => mockNavigate,
+  };
+});
+
+const question = (displayName: string, text: string, correct: string) => ({
+  id: `id-${displayName}`,
+  displayName,
+  question: text,
+  options: { A: correct, B: 'Wrong', C: 'Wrong', D: 'Wrong' },
+  correctAnswer: 'A',
+});
+
+const pools: Record<string, ReturnType<typeof question>[]> = {
+  technician: [
+    question('T1B04', 'Which amateur band includes 146.52 MHz?', '2 meters'),
+    question('T1B08', 'How are US amateurs restricted in segments of bands where the Amateur Radio Service is secondary?', 'They must not cause harmful interference'),
+  ],
+  general: [
+    question('G1A02', 'On which of the following bands is phone operation prohibited?', '30 meters'),
+    question('G1A03', 'On which band is image transmission permitted?', '20 meters'),
+  ],
+  extra: [],
+};
+
+const mockUseQuestions = vi.fn();
+vi.mock('@/hooks/useQuestions', () => ({
+  useQuestions: (testType: string) => mockUseQuestions(testType),
+}));
+
+const onPracticeGroup = vi.fn();
+
+const renderExplorer = (testType: 'technician' | 'general' | 'extra' = 'technician') =>
+  render(<BandPlanExplorer testType={testType} onPracticeGroup={onPracticeGroup} />);
+
+const bandButton = (id: string) => screen.getByRole('button', { name: new RegExp(`^${id.replace('m', ' meters')}`) });
+
+describe('BandPlanExplorer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseQuestions.mockImplementation((testType: string) => ({ data: pools[testType] }));
+  });
+
+  it('starts on the exam class and shows its privileges', () => {
+    renderExplorer();
+
+    expect(screen.getByRole('radio', { name: 'Technician privileges' })).toHaveAttribute('data-state', 'on');
+    expect(mockUseQuestions).toHaveBeenCalledWith('technician');
+    // Technicians have no privileges on 20 meters, and CW only on 40 meters
+    expect(within(bandButton('20m')).getByText('No Technician privileges')).toBeInTheDocument();
+    expect(screen.getByTestId('segment-40m-0')).toHaveAttribute('title', '7.025–7.125 MHz: CW, 200 W');
+  });
+
+  it('filters the chart by license class', () => {
+    renderExplorer();
+
+    fireEvent.click(screen.getByRole('radio', { name: 'General privileges' }));
+
+    expect(within(bandButton('20m')).queryByText(/No .* privileges/)).not.toBeInTheDocument();
+    expect(screen.getByTestId('segment-20m-0')).toHaveAttribute('title', '14.025–14.150 MHz: CW, RTTY/data, 1500 W');
+    expect(mockUseQuestions).toHaveBeenLastCalledWith('general');
+  });
+
+  it('shows band segments and questions when a band is selected', () => {
+    renderExplorer();
+
+    fireEvent.click(bandButton('2m'));
+
+    const detail = screen.getByTestId('band-detail');
+    expect(within(detail).getByText('144.000–144.100 MHz')).toBeInTheDocument();
+    expect(within(detail).getByText('Technician questions about 2 meters (1)')).toBeInTheDocument();
+
+    fireEvent.click(within(detail).getByText('T1B04'));
+    expect(mockNavigate).toHaveBeenCalledWith('/questions/T1B04');
+  });
+
+  it('closes the detail when the selected band is clicked again', () => {
+    renderExplorer();
+
+    fireEvent.click(bandButton('2m'));
+    fireEvent.click(bandButton('2m'));
+
+    expect(screen.queryByTestId('band-detail')).not.toBeInTheDocument();
+  });
+
+  it('practices the privilege question group for the exam', () => {
+    renderExplorer('general');
+
+    fireEvent.click(screen.getByRole('button', { name: /practice g1a privilege questions/i }));
+
+    expect(onPracticeGroup).toHaveBeenCalledWith('G1A');
+  });
+
+  describe('where can I transmit', () => {
+    const checkFrequency = (mhz: string) => {
+      fireEvent.change(screen.getByLabelText('Frequency in MHz'), { target: { value: mhz } });
+      fireEvent.click(screen.getByRole('button', { name: 'Check' }));
+    };
+
+    it('answers with the rule and opens the band', () => {
+      renderExplorer('general');
+
+      checkFrequency('14.250');
+
+      const result = screen.getByTestId('transmit-result');
+      expect(within(result).getByText('You can transmit')).toBeInTheDocument();
+      expect(within(result).getByText(/General operators may use Phone on 14\.225–14\.350 MHz/)).toBeInTheDocument();
+      expect(screen.getByTestId('band-detail')).toHaveTextContent('20 meters');
+    });
+
+    it('uses the selected mode and class', () => {
+      renderExplorer();
+
+      fireEvent.click(screen.getByRole('radio', { name: 'CW mode' }));
+      checkFrequency('7.050');
+      expect(screen.getByTestId('transmit-result')).toHaveTextContent('You can transmit');
+
+      fireEvent.click(screen.getByRole('radio', { name: 'Phone mode' }));
+      checkFrequency('7.050');
+      expect(screen.getByTestId('transmit-result')).toHaveTextContent('7.025–7.125 MHz is CW only for Technician operators.');
+    });
+
+    it('warns near segment edges', () => {
+      renderExplorer('extra');
+
+      checkFrequency('14.349');
+
+      expect(screen.getByTestId('transmit-result')).toHaveTextContent(/segment edge/);
+    });
+
+    it('rejects input that is not a frequency', () => {
+      renderExplorer();
+
+      checkFrequency('twenty');
+
+      expect(screen.getByText('Enter a frequency in MHz, e.g. 14.250')).toBeInTheDocument();
+      expect(screen.queryByTestId('transmit-result')).not.toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,347 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { AlertTriangle, CheckCircle2, Radio, Target, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { PageContainer } from "@/components/ui/page-container";
+import { useQuestions } from "@/hooks/useQuestions";
+import { cn } from "@/lib/utils";
+import type { TestType } from "@/types/navigation";
+import {
+  BAND_MODES,
+  BAND_MODE_LABELS,
+  BAND_PLAN,
+  LICENSE_CLASSES,
+  LICENSE_CLASS_LABELS,
+  PRIVILEGE_QUESTION_GROUPS,
+  checkTransmit,
+  formatRange,
+  hasPrivileges,
+  parseFrequency,
+  questionsForBand,
+  segmentsForClass,
+  type Band,
+  type BandMode,
+  type BandSegment,
+  type LicenseClass,
+  type TransmitCheck,
+} from "@/lib/bandPlan";
+
+interface BandPlanExplorerProps {
+  testType: TestType;
+  /** Start a drill on a question group, e.g. T1B */
+  onPracticeGroup: (group: string) => void;
+}
+
+/** Questions listed per band before "Show all" */
+const QUESTION_PREVIEW_COUNT = 8;
+
+function segmentTone(modes: BandMode[]): string {
+  if (modes.includes('phone')) return 'bg-primary/70';
+  if (modes.includes('data')) return 'bg-success/60';
+  return 'bg-warning/60';
+}
+
+const LEGEND = [
+  { label: 'Phone, CW and image', tone: segmentTone(['phone']) },
+  { label: 'CW and data', tone: segmentTone(['cw', 'data']) },
+  { label: 'CW only', tone: segmentTone(['cw']) },
+];
+
+const describeModes = (modes: BandMode[]) => modes.map((m) => BAND_MODE_LABELS[m]).join(', ');
+
+export function BandPlanExplorer({ testType, onPracticeGroup }: BandPlanExplorerProps) {
+  const navigate = useNavigate();
+  const [licenseClass, setLicenseClass] = useState<LicenseClass>(testType);
+  const [selectedBandId, setSelectedBandId] = useState<string | null>(null);
+  const [showAllQuestions, setShowAllQuestions] = useState(false);
+  const [frequency, setFrequency] = useState('');
+  const [mode, setMode] = useState<BandMode>('phone');
+  const [check, setCheck] = useState<TransmitCheck | null>(null);
+  const [frequencyError, setFrequencyError] = useState<string | null>(null);
+
+  const { data: questions = [] } = useQuestions(licenseClass);
+
+  const selectedBand = BAND_PLAN.find((b) => b.id === selectedBandId) ?? null;
+  const bandQuestions = useMemo(
+    () => (selectedBand ? questionsForBand(questions, selectedBand) : []),
+    [questions, selectedBand]
+  );
+  const shownQuestions = showAllQuestions ? bandQuestions : bandQuestions.slice(0, QUESTION_PREVIEW_COUNT);
+
+  const selectBand = (band: Band) => {
+    setSelectedBandId(band.id === selectedBandId ? null : band.id);
+    setShowAllQuestions(false);
+  };
+
+  const changeClass = (value: LicenseClass) => {
+    setLicenseClass(value);
+    setCheck(null);
+  };
+
+  const handleCheck = () => {
+    const kHz = parseFrequency(frequency);
+    if (kHz === null) {
+      setFrequencyError('Enter a frequency in MHz, e.g. 14.250');
+      setCheck(null);
+      return;
+    }
+    setFrequencyError(null);
+    const result = checkTransmit(kHz, mode, licenseClass);
+    setCheck(result);
+    if (result.band) {
+      setSelectedBandId(result.band.id);
+      setShowAllQuestions(false);
+    }
+  };
+
+  const renderBar = (band: Band) => {
+    const width = band.endKHz - band.startKHz;
+    const segments = segmentsForClass(band, licenseClass);
+    return (
+      <div className="relative h-6 flex-1 rounded bg-secondary overflow-hidden">
+        {segments.map((s, i) => (
+          <div
+            key={i}
+            data-testid={`segment-${band.id}-${i}`}
+            title={`${formatRange(s.startKHz, s.endKHz)}: ${describeModes(s.modes)}, ${s.maxPowerWatts} W`}
+            className={cn('absolute inset-y-0 border-x border-background', segmentTone(s.modes))}
+            style={{
+              left: `${((s.startKHz - band.startKHz) / width) * 100}%`,
+              // Keep 60 meter channels visible at this scale
+              width: `max(3px, ${((s.endKHz - s.startKHz) / width) * 100}%)`,
+            }}
+          />
+        ))}
+        {segments.length === 0 && (
+          <span className="absolute inset-0 flex items-center justify-center text-[10px] text-muted-foreground">
+            No {LICENSE_CLASS_LABELS[licenseClass]} privileges
+          </span>
+        )}
+      </div>
+    );
+  };
+
+  const renderSegmentRow = (band: Band, s: BandSegment, i: number) => {
+    const yours = s.classes.includes(licenseClass);
+    return (
+      <tr key={i} className={cn('border-t border-border', !yours && 'text-muted-foreground')}>
+        <td className="py-1.5 pr-3 font-mono whitespace-nowrap">{formatRange(s.startKHz, s.endKHz)}</td>
+        <td className="py-1.5 pr-3">
+          {LICENSE_CLASSES.filter((c) => s.classes.includes(c)).map((c) => LICENSE_CLASS_LABELS[c]).join(', ')}
+        </td>
+        <td className="py-1.5 pr-3">{describeModes(s.modes)}</td>
+        <td className="py-1.5 pr-3 whitespace-nowrap">
+          {s.maxPowerWatts} W {band.channelized ? 'ERP' : 'PEP'}
+        </td>
+        <td className="py-1.5 text-xs">{s.note}</td>
+      </tr>
+    );
+  };
+
+  return (
+    <PageContainer width="standard" mobileNavPadding>
+      <div className="mb-6">
+        <h1 className="text-2xl font-mono font-bold text-foreground mb-2">Band Plan</h1>
+        <p className="text-muted-foreground">
+          US amateur frequency privileges by license class. Select a band to see its segments and
+          the pool questions about it.
+        </p>
+      </div>
+
+      {/* License class filter */}
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <ToggleGroup
+          type="single"
+          value={licenseClass}
+          onValueChange={(value) => value && changeClass(value as LicenseClass)}
+          className="justify-start flex-wrap"
+        >
+          {LICENSE_CLASSES.map((c) => (
+            <ToggleGroupItem key={c} value={c} aria-label={`${LICENSE_CLASS_LABELS[c]} privileges`}>
+              {LICENSE_CLASS_LABELS[c]}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        <Button variant="outline" size="sm" className="gap-2" onClick={() => onPracticeGroup(PRIVILEGE_QUESTION_GROUPS[testType])}>
+          <Target className="w-4 h-4" />
+          Practice {PRIVILEGE_QUESTION_GROUPS[testType]} privilege questions
+        </Button>
+      </div>
+
+      {/* Chart */}
+      <div className="bg-card border border-border rounded-xl p-4 mb-6">
+        <div className="space-y-1.5">
+          {BAND_PLAN.map((band) => (
+            <button
+              key={band.id}
+              type="button"
+              onClick={() => selectBand(band)}
+              aria-pressed={band.id === selectedBandId}
+              aria-label={`${band.name}, ${formatRange(band.startKHz, band.endKHz)}`}
+              className={cn(
+                'flex w-full items-center gap-3 rounded-md px-2 py-1 text-left transition-colors hover:bg-secondary/50',
+                band.id === selectedBandId && 'bg-secondary ring-1 ring-primary/40',
+                !hasPrivileges(band, licenseClass) && 'opacity-60'
+              )}
+            >
+              <span className="w-14 shrink-0 font-mono text-sm font-bold">{band.id}</span>
+              {renderBar(band)}
+              <span className="hidden sm:block w-36 shrink-0 text-right font-mono text-xs text-muted-foreground">
+                {formatRange(band.startKHz, band.endKHz)}
+              </span>
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-4 mt-4 text-xs text-muted-foreground">
+          {LEGEND.map((item) => (
+            <span key={item.label} className="flex items-center gap-1.5">
+              <span className={cn('inline-block h-3 w-3 rounded-sm', item.tone)} />
+              {item.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {/* Band detail */}
+      {selectedBand && (
+        <div className="bg-card border border-border rounded-xl p-4 mb-6 space-y-4" data-testid="band-detail">
+          <div>
+            <h2 className="text-lg font-mono font-bold">{selectedBand.name}</h2>
+            <p className="text-sm text-muted-foreground font-mono">
+              {formatRange(selectedBand.startKHz, selectedBand.endKHz)}
+            </p>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-muted-foreground">
+                  <th className="pb-1 pr-3 font-medium">Segment</th>
+                  <th className="pb-1 pr-3 font-medium">Classes</th>
+                  <th className="pb-1 pr-3 font-medium">Modes</th>
+                  <th className="pb-1 pr-3 font-medium">Power</th>
+                  <th className="pb-1 font-medium">Notes</th>
+                </tr>
+              </thead>
+              <tbody>{selectedBand.segments.map((s, i) => renderSegmentRow(selectedBand, s, i))}</tbody>
+            </table>
+          </div>
+
+          {selectedBand.notes && (
+            <ul className="list-disc pl-5 text-sm text-muted-foreground">
+              {selectedBand.notes.map((note) => (
+                <li key={note}>{note}</li>
+              ))}
+            </ul>
+          )}
+
+          <div>
+            <h3 className="text-sm font-mono font-bold text-muted-foreground mb-2">
+              {LICENSE_CLASS_LABELS[licenseClass]} questions about {selectedBand.name} ({bandQuestions.length})
+            </h3>
+            {bandQuestions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No questions in this pool mention this band.</p>
+            ) : (
+              <ul className="space-y-1">
+                {shownQuestions.map((q) => (
+                  <li key={q.id}>
+                    <button
+                      type="button"
+                      onClick={() => navigate(`/questions/${q.displayName}`)}
+                      className="w-full rounded-md px-2 py-1.5 text-left text-sm hover:bg-secondary/50"
+                    >
+                      <span className="font-mono font-bold text-primary mr-2">{q.displayName}</span>
+                      {q.question}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {bandQuestions.length > QUESTION_PREVIEW_COUNT && !showAllQuestions && (
+              <Button variant="link" size="sm" className="px-2" onClick={() => setShowAllQuestions(true)}>
+                Show all {bandQuestions.length}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Where can I transmit? */}
+      <div className="bg-card border border-border rounded-xl p-4 space-y-4">
+        <div className="flex items-center gap-2">
+          <Radio className="w-4 h-4 text-primary" />
+          <h2 className="text-sm font-mono font-bold">Where can I transmit?</h2>
+        </div>
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCheck();
+          }}
+          className="flex flex-wrap items-center gap-2"
+        >
+          <Input
+            value={frequency}
+            onChange={(e) => setFrequency(e.target.value)}
+            placeholder="14.250"
+            aria-label="Frequency in MHz"
+            inputMode="decimal"
+            autoComplete="off"
+            className="w-32 font-mono"
+          />
+          <span className="text-sm text-muted-foreground">MHz</span>
+          <ToggleGroup
+            type="single"
+            value={mode}
+            onValueChange={(value) => value && setMode(value as BandMode)}
+            className="justify-start flex-wrap"
+          >
+            {BAND_MODES.map((m) => (
+              <ToggleGroupItem key={m} value={m} aria-label={`${BAND_MODE_LABELS[m]} mode`}>
+                {BAND_MODE_LABELS[m]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <Button type="submit">Check</Button>
+        </form>
+        <p className="text-xs text-muted-foreground">
+          Checking as a {LICENSE_CLASS_LABELS[licenseClass]} licensee.
+        </p>
+
+        {frequencyError && <p className="text-sm text-destructive">{frequencyError}</p>}
+
+        {check && (
+          <div
+            data-testid="transmit-result"
+            className={cn(
+              'rounded-lg border px-4 py-3 text-sm space-y-2',
+              check.allowed ? 'border-success/30 bg-success/10' : 'border-destructive/30 bg-destructive/10'
+            )}
+          >
+            <div className="flex items-start gap-2">
+              {check.allowed ? (
+                <CheckCircle2 className="w-4 h-4 mt-0.5 shrink-0 text-success" />
+              ) : (
+                <XCircle className="w-4 h-4 mt-0.5 shrink-0 text-destructive" />
+              )}
+              <div>
+                <Badge variant={check.allowed ? 'secondary' : 'destructive'} className="mb-1">
+                  {check.allowed ? 'You can transmit' : 'Not permitted'}
+                </Badge>
+                <p>{check.rule}</p>
+              </div>
+            </div>
+            {check.warning && (
+              <div className="flex items-start gap-2 text-warning">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                <p>{check.warning}</p>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </PageContainer>
+  );
+}
@@ -7,6 +7,8 @@ import { useBookmarks } from "@/hooks/useBookmarks";
 import { useAppNavigation } from "@/hooks/useAppNavigation";
 import { useKeyboardShortcuts, KeyboardShortcut } from "@/hooks/useKeyboardShortcuts";
 import { KeyboardShortcutsHelp } from "@/components/KeyboardShortcutsHelp";
+import { PrintStudyPackButton } from "@/components/PrintStudyPackButton";
+import { AnkiExportButton } from "@/components/AnkiExportButton";
 import { Bookmark, Loader2, Trash2, MessageSquare, ArrowLeft, ChevronLeft, ChevronRight, Dices } from "lucide-react";
 import { motion } from "framer-motion";
 import { TestType } from "@/types/navigation";
@@ -246,9 +248,19 @@ export function BookmarkedQuestions({
                 <Bookmark className="w-5 h-5" />
                 Bookmarked Questions
               </h2>
-              <p className="text-sm text-muted-foreground">
-                {questions.length} question{questions.length !== 1 ? 's' : ''}
-              </p>
+              <div className="flex flex-wrap items-center justify-end gap-2">
+                <p className="text-sm text-muted-foreground">
+                  {questions.length} question{questions.length !== 1 ? 's' : ''}
+                </p>
+                <PrintStudyPackButton title="Bookmarked Questions" questions={questions} size="sm" />
+                <AnkiExportButton
+                  questions={questions}
+                  deckName="Bookmarks"
+                  setTag="bookmarks"
+                  notes={Object.fromEntries(filteredBookmarks.map(b => [b.question_id, b.note]))}
+                  size="sm"
+                />
+              </div>
             </div>
             {questions.map((question, index) => {
               const bookmark = filteredBookmarks?.find(b => b.question_id === question.id);
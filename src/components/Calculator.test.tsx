@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
 import { Calculator } from './Calculator';
 import { TooltipProvider } from '@/components/ui/tooltip';
 
@@ -212,6 +213,76 @@ describe('Calculator', () => {
     });
   });
 
+  describe('Formula modes', () => {
+    const openFormulas = async (testType?: 'technician' | 'general' | 'extra') => {
+      const user = userEvent.setup();
+      render(
+        <MemoryRouter>
+          <TooltipProvider>
+            <Calculator testType={testType} />
+          </TooltipProvider>
+        </MemoryRouter>
+      );
+      await user.click(screen.getByRole('button', { name: /open calculator/i }));
+      await user.click(screen.getByRole('button', { name: 'Formulas' }));
+      return user;
+    };
+
+    it("starts on Ohm's law and hides the keypad", async () => {
+      await openFormulas();
+
+      expect(screen.getByTestId('formula-expression')).toHaveTextContent('E = I × R');
+      expect(screen.queryByRole('button', { name: /equals/i })).not.toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Formulas' })).toHaveAttribute('aria-pressed', 'true');
+    });
+
+    it('solves from any two values with worked steps', async () => {
+      const user = await openFormulas();
+
+      await user.type(screen.getByLabelText('Voltage'), '12');
+      await user.type(screen.getByLabelText('Resistance'), '6');
+
+      const status = screen.getByRole('status');
+      expect(status).toHaveTextContent('Current2 A');
+      expect(status).toHaveTextContent('Power24 W');
+      expect(screen.getByRole('list', { name: 'Worked steps' })).toHaveTextContent('I = 12 V / 6 Ω = 2 A');
+    });
+
+    it('explains when too many values are entered', async () => {
+      const user = await openFormulas();
+
+      await user.type(screen.getByLabelText('Voltage'), '12');
+      await user.type(screen.getByLabelText('Current'), '2');
+      await user.type(screen.getByLabelText('Resistance'), '6');
+
+      expect(screen.getByRole('alert')).toHaveTextContent('Enter exactly two values');
+    });
+
+    it('ignores keypad shortcuts while typing formula values', async () => {
+      const user = await openFormulas();
+
+      await user.type(screen.getByLabelText('Voltage'), '5');
+      await user.click(screen.getByRole('button', { name: 'Basic' }));
+
+      expect(screen.getByRole('status', { name: /calculator display/i })).toHaveTextContent('0');
+    });
+
+    it('links to the matching subelement for the current exam', async () => {
+      await openFormulas('general');
+
+      expect(screen.getByRole('link', { name: /practice g5 questions/i })).toHaveAttribute(
+        'href',
+        '/dashboard?view=subelement-practice&subelement=G5'
+      );
+    });
+
+    it('omits the practice link without an exam', async () => {
+      await openFormulas();
+
+      expect(screen.queryByRole('link', { name: /practice/i })).not.toBeInTheDocument();
+    });
+  });
+
   describe('className prop', () => {
     it('applies custom className', () => {
       render(
@@ -2,14 +2,21 @@ import { useState, useEffect, useCallback } from "react";
 import { Calculator as CalculatorIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { FormulaCalculator } from "@/components/FormulaCalculator";
 import { cn } from "@/lib/utils";
+import type { TestType } from "@/types/navigation";
 
 interface CalculatorProps {
   className?: string;
+  /** Exam of the question being studied; enables "practice this subelement" links */
+  testType?: TestType;
 }
 
-export function Calculator({ className }: CalculatorProps) {
+type CalculatorMode = "basic" | "formulas";
+
+export function Calculator({ className, testType }: CalculatorProps) {
   const [isOpen, setIsOpen] = useState(false);
+  const [mode, setMode] = useState<CalculatorMode>("basic");
   const [display, setDisplay] = useState("0");
   const [previousValue, setPreviousValue] = useState<number | null>(null);
   const [operation, setOperation] = useState<string | null>(null);
@@ -148,9 +155,9 @@ export function Calculator({ className }: CalculatorProps) {
     }
   }, [clear, calculate, performOperation, inputDecimal, inputDigit]);
 
-  // Keyboard support
+  // Keyboard support (basic mode only; formula inputs take typed values)
   useEffect(() => {
-    if (!isOpen) return;
+    if (!isOpen || mode !== "basic") return;
 
     const handleKeyDown = (e: KeyboardEvent) => {
       // Prevent default for calculator keys to avoid interfering with page
@@ -179,7 +186,7 @@ export function Calculator({ className }: CalculatorProps) {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [isOpen, handleButtonClick]);
+  }, [isOpen, mode, handleButtonClick]);
 
   return (
     <div className={cn("relative", className)}>
@@ -203,44 +210,69 @@ export function Calculator({ className }: CalculatorProps) {
       </Tooltip>
 
       {isOpen && (
-        <div className="absolute right-0 top-0 translate-x-[calc(100%+0.5rem)] bg-card border border-border rounded-lg p-3 shadow-lg w-56 z-50">
+        <div
+          className={cn(
+            "absolute right-0 top-0 translate-x-[calc(100%+0.5rem)] bg-card border border-border rounded-lg p-3 shadow-lg z-50",
+            mode === "basic" ? "w-56" : "w-72"
+          )}
+        >
           <div className="flex items-center justify-between mb-2">
             <span className="text-xs font-medium text-muted-foreground">Calculator</span>
+            <div className="flex gap-1" role="group" aria-label="Calculator mode">
+              {(["basic", "formulas"] as const).map((m) => (
+                <Button
+                  key={m}
+                  variant={mode === m ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => setMode(m)}
+                  aria-pressed={mode === m}
+                >
+                  {m === "basic" ? "Basic" : "Formulas"}
+                </Button>
+              ))}
+            </div>
           </div>
 
-          <div
-            className="bg-secondary rounded-md p-3 mb-2 text-right"
-            role="status"
-            aria-live="polite"
-            aria-label="Calculator display"
-          >
-            <span className="font-mono text-xl text-foreground">
-              {display.length > 12 ? parseFloat(display).toExponential(6) : display}
-            </span>
-          </div>
+          {mode === "formulas" ? (
+            <FormulaCalculator testType={testType} />
+          ) : (
+            <>
+              <div
+                className="bg-secondary rounded-md p-3 mb-2 text-right"
+                role="status"
+                aria-live="polite"
+                aria-label="Calculator display"
+              >
+                <span className="font-mono text-xl text-foreground">
+                  {display.length > 12 ? parseFloat(display).toExponential(6) : display}
+                </span>
+              </div>
 
-          <div className="grid gap-1">
-            {buttons.map((row, rowIndex) => (
-              <div key={rowIndex} className="grid grid-cols-4 gap-1">
-                {row.map((btn) => (
-                  <Button
-                    key={btn}
-                    variant={["+", "-", "×", "÷", "=", "C"].includes(btn) ? "secondary" : "outline"}
-                    size="sm"
-                    className={cn(
-                      "h-9 font-mono text-sm",
-                      btn === "0" && "col-span-2",
-                      btn === "C" && "col-span-3"
-                    )}
-                    onClick={() => handleButtonClick(btn)}
-                    aria-label={buttonLabels[btn] || btn}
-                  >
-                    {btn}
-                  </Button>
+              <div className="grid gap-1">
+                {buttons.map((row, rowIndex) => (
+                  <div key={rowIndex} className="grid grid-cols-4 gap-1">
+                    {row.map((btn) => (
+                      <Button
+                        key={btn}
+                        variant={["+", "-", "×", "÷", "=", "C"].includes(btn) ? "secondary" : "outline"}
+                        size="sm"
+                        className={cn(
+                          "h-9 font-mono text-sm",
+                          btn === "0" && "col-span-2",
+                          btn === "C" && "col-span-3"
+                        )}
+                        onClick={() => handleButtonClick(btn)}
+                        aria-label={buttonLabels[btn] || btn}
+                      >
+                        {btn}
+                      </Button>
+                    ))}
+                  </div>
                 ))}
               </div>
-            ))}
-          </div>
+            </>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,239 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { CustomTest } from './CustomTest';
+import { TooltipProvider } from '@/components/ui/tooltip';
+
+import '@/test/mocks/supabase';
+
+function mockQuestion(displayName: string, correctAnswer = 'A', figureUrl: string | null = null) {
+  return {
+    id: `id-${displayName}`,
+    displayName,
+    question: `Question ${displayName}?`,
+    options: { A: 'A', B: 'B', C: 'C', D: 'D' },
+    correctAnswer,
+    subelement: displayName.slice(0, 2),
+    group: displayName.slice(0, 3),
+    explanation: null,
+    links: [],
+    figureUrl,
+  };
+}
+
+const mockQuestions = [
+  mockQuestion('T1A01'),
+  mockQuestion('T1A02'),
+  mockQuestion('T1B01', 'A', 'https://example.com/t1b01.png'),
+  mockQuestion('T5A01'),
+  mockQuestion('T5B01'),
+  mockQuestion('T5B02'),
+];
+
+vi.mock('@/hooks/useQuestions', () => ({
+  useQuestions: () => ({ data: mockQuestions, isLoading: false, error: null }),
+}));
+
+vi.mock('@/hooks/useAuth', () => ({
+  useAuth: () => ({ user: { id: 'test-user' } }),
+}));
+
+vi.mock('@/hooks/usePoolVersion', () => ({
+  usePoolVersion: () => ({ poolVersion: '2022-2026' }),
+}));
+
+const mockSaveTestResult = vi.fn().mockResolvedValue({ id: 'test-result-id' });
+
+vi.mock('@/hooks/useProgress', () => ({
+  useProgress: () => ({
+    saveTestResult: (...args: unknown[]) => mockSaveTestResult(...args),
+  }),
+}));
+
+vi.mock('@/hooks/useQuestionMastery', () => ({
+  useQuestionMastery: () => ({
+    seenIds: new Set(['id-T1A01', 'id-T5A01']),
+    weakIds: new Set(['id-T5A01']),
+    isLoading: false,
+    error: null,
+  }),
+}));
+
+vi.mock('@/hooks/useBookmarks', () => ({
+  useBookmarks: () => ({
+    bookmarks: [{ question_id: 'id-T1A02' }],
+    isBookmarked: vi.fn(() => false),
+    addBookmark: { mutate: vi.fn() },
+    removeBookmark: { mutate: vi.fn() },
+    getBookmarkNote: vi.fn(() => null),
+    updateNote: { mutate: vi.fn() },
+  }),
+}));
+
+vi.mock('@/hooks/useExplanationFeedback', () => ({
+  useExplanationFeedback: () => ({
+    userFeedback: null,
+    submitFeedback: { mutate: vi.fn() },
+    removeFeedback: { mutate: vi.fn() },
+  }),
+}));
+
+vi.mock('@/hooks/useGlossaryTerms', () => ({
+  useGlossaryTerms: () => ({ data: [] }),
+}));
+
+vi.mock('framer-motion', () => ({
+  motion: {
+    div: ({ children, ...props }: React.HTMLAttributes<HTMLDivElement> & { children?: React.ReactNode }) => <div {...props}>{children}</div>,
+    p: ({ children, ...props }: React.HTMLAttributes<HTMLParagraphElement> & { children?: React.ReactNode }) => <p {...props}>{children}</p>,
+  },
+  AnimatePresence: ({ children }: { children?: React.ReactNode }) => <>{children}</>,
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+    warning: vi.fn(),
+    info: vi.fn(),
+  },
+}));
+
+const renderCustomTest = (props = {}, url = '/dashboard?view=custom-test') => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  const onBack = vi.fn();
+  const onTestStateChange = vi.fn();
+  const onTestTypeChange = vi.fn();
+
+  const result = render(
+    <QueryClientProvider client={queryClient}>
+      <MemoryRouter initialEntries={[url]}>
+        <TooltipProvider>
+          <CustomTest
+            onBack={onBack}
+            onTestStateChange={onTestStateChange}
+            onTestTypeChange={onTestTypeChange}
+            testType="technician"
+            {...props}
+          />
+        </TooltipProvider>
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+
+  return { ...result, onBack, onTestStateChange, onTestTypeChange };
+};
+
+const summary = () => screen.getByTestId('custom-test-summary').textContent;
+
+describe('CustomTest', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  describe('Builder', () => {
+    it('starts from the whole pool', () => {
+      renderCustomTest();
+
+      expect(screen.getByRole('heading', { name: 'Custom Test' })).toBeInTheDocument();
+      expect(summary()).toContain('6 matching questions');
+      expect(summary()).toContain('Your test will have 6, with 5 correct needed to pass');
+    });
+
+    it('narrows the pool to the selected subelements', () => {
+      renderCustomTest();
+
+      fireEvent.click(screen.getByRole('checkbox', { name: /T5/ }));
+
+      expect(summary()).toContain('3 matching questions');
+    });
+
+    it('narrows the pool to a single question group', () => {
+      renderCustomTest();
+
+      fireEvent.click(screen.getByRole('button', { name: 'Show T1 question groups' }));
+      fireEvent.click(screen.getByRole('checkbox', { name: /T1B/ }));
+
+      expect(summary()).toContain('1 matching question.');
+    });
+
+    it('combines filters', () => {
+      renderCustomTest();
+
+      fireEvent.click(screen.getByRole('switch', { name: 'Only never-seen' }));
+      expect(summary()).toContain('4 matching questions');
+
+      fireEvent.click(screen.getByRole('switch', { name: 'Figures only' }));
+      expect(summary()).toContain('1 matching question.');
+    });
+
+    it('disables Start when nothing matches', () => {
+      renderCustomTest();
+
+      fireEvent.click(screen.getByRole('switch', { name: 'Only weak' }));
+      fireEvent.click(screen.getByRole('switch', { name: 'Only bookmarked' }));
+
+      expect(summary()).toBe('No questions match these choices.');
+      expect(screen.getByRole('button', { name: /start test/i })).toBeDisabled();
+    });
+  });
+
+  describe('Recipes', () => {
+    it('opens a recipe from a shared link', () => {
+      renderCustomTest({}, '/dashboard?view=custom-test&exam=technician&scope=T5&count=10&only=never-seen&name=Circuits');
+
+      expect(screen.getByLabelText('Recipe name')).toHaveValue('Circuits');
+      expect(summary()).toContain('2 matching questions');
+    });
+
+    it('offers to switch exams for a recipe shared for another exam', () => {
+      const { onTestTypeChange } = renderCustomTest({}, '/dashboard?view=custom-test&exam=general&scope=G2&count=10');
+
+      expect(screen.getByText(/is for the General exam/)).toBeInTheDocument();
+      fireEvent.click(screen.getByRole('button', { name: 'Switch to General' }));
+
+      expect(onTestTypeChange).toHaveBeenCalledWith('general');
+    });
+
+    it('saves a named recipe and lists it', () => {
+      renderCustomTest();
+
+      fireEvent.click(screen.getByRole('checkbox', { name: /T1/ }));
+      fireEvent.change(screen.getByLabelText('Recipe name'), { target: { value: 'Rules' } });
+      fireEvent.click(screen.getByRole('button', { name: /save/i }));
+
+      expect(screen.getAllByTestId('saved-recipe')).toHaveLength(1);
+      expect(JSON.parse(localStorage.getItem('customTestRecipes')!)[0]).toMatchObject({
+        name: 'Rules',
+        scope: ['T1'],
+      });
+    });
+  });
+
+  describe('Taking the test', () => {
+    it('saves the result under the custom test type', async () => {
+      const { onTestStateChange } = renderCustomTest({}, '/dashboard?view=custom-test&exam=technician&scope=T1B&count=10');
+
+      fireEvent.click(screen.getByRole('button', { name: /start test/i }));
+
+      await waitFor(() => {
+        expect(onTestStateChange).toHaveBeenCalledWith(true);
+      });
+      expect(screen.getByText('Question T1B01?')).toBeInTheDocument();
+
+      fireEvent.click(screen.getByRole('button', { name: /finish test/i }));
+
+      await waitFor(() => {
+        expect(mockSaveTestResult).toHaveBeenCalledWith(
+          [expect.objectContaining({ id: 'id-T1B01' })],
+          {},
+          'technician',
+          expect.objectContaining({ simulation: false }),
+          'custom_technician'
+        );
+      });
+    });
+  });
+});
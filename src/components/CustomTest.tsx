@@ -0,0 +1,748 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { QuestionCard } from "@/components/QuestionCard";
+import { TestResults } from "@/components/TestResults";
+import { KeyboardShortcutsHelp } from "@/components/KeyboardShortcutsHelp";
+import { PageContainer } from "@/components/ui/page-container";
+import { useQuestions, Question } from "@/hooks/useQuestions";
+import { useProgress } from "@/hooks/useProgress";
+import { useAuth } from "@/hooks/useAuth";
+import { useBookmarks } from "@/hooks/useBookmarks";
+import { useQuestionMastery } from "@/hooks/useQuestionMastery";
+import { useKeyboardShortcuts, KeyboardShortcut } from "@/hooks/useKeyboardShortcuts";
+import { useQuestionTimer } from "@/hooks/useQuestionTimer";
+import { usePoolVersion } from "@/hooks/usePoolVersion";
+import {
+  ArrowLeft,
+  ArrowRight,
+  CheckCircle,
+  ChevronDown,
+  ChevronRight,
+  History,
+  Link2,
+  Loader2,
+  Play,
+  Save,
+  SlidersHorizontal,
+  Trash2,
+  Trophy,
+  XCircle,
+} from "lucide-react";
+import { motion } from "framer-motion";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { TestType, examDistribution, testTypes } from "@/types/navigation";
+import { getSubelementName } from "@/lib/subelementNames";
+import { requiredToPass } from "@/lib/practiceTestScore";
+import {
+  CUSTOM_TEST_FILTERS,
+  CUSTOM_TEST_QUESTION_COUNTS,
+  customTestResultType,
+  deleteRecipe,
+  filterCustomTestQuestions,
+  loadSavedRecipes,
+  recipeFromSearchParams,
+  recipeToSearchParams,
+  saveRecipe,
+  selectCustomTestQuestions,
+  type CustomTestFilter,
+  type CustomTestRecipe,
+} from "@/lib/customTest";
+import type { TestTiming } from "@/lib/examPacing";
+import { trackPracticeTestStarted } from "@/lib/amplitude";
+import { supabase } from "@/integrations/supabase/client";
+
+interface CustomTestProps {
+  onBack: () => void;
+  onTestStateChange?: (inProgress: boolean) => void;
+  testType: TestType;
+  /** Switch the selected exam, used when a shared recipe is for another exam */
+  onTestTypeChange?: (testType: TestType) => void;
+  onReviewTest?: (testId: string) => void;
+}
+
+interface TestHistoryResult {
+  id: string;
+  score: number;
+  total_questions: number;
+  percentage: number;
+  passed: boolean;
+  completed_at: string;
+}
+
+/** Filters that depend on the learner's own history */
+const SIGNED_IN_FILTERS: CustomTestFilter[] = ['never-seen', 'weak', 'bookmarked'];
+
+function emptyRecipe(testType: TestType): CustomTestRecipe {
+  return { name: '', testType, scope: [], questionCount: 20, filters: [] };
+}
+
+function examName(testType: TestType): string {
+  return testTypes.find((t) => t.id === testType)?.name ?? testType;
+}
+
+interface ScopePickerProps {
+  testType: TestType;
+  groupsBySubelement: Map<string, string[]>;
+  questionCounts: Map<string, number>;
+  scope: string[];
+  onChange: (scope: string[]) => void;
+}
+
+/**
+ * Subelement checkboxes, each expandable to its question groups. A fully
+ * selected subelement is stored as the subelement itself (T1) rather than
+ * every one of its groups.
+ */
+function ScopePicker({ testType, groupsBySubelement, questionCounts, scope, onChange }: ScopePickerProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const selected = new Set(scope);
+
+  const toggleExpanded = (subelement: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(subelement)) next.delete(subelement);
+      else next.add(subelement);
+      return next;
+    });
+  };
+
+  const toggleSubelement = (subelement: string) => {
+    const groups = groupsBySubelement.get(subelement) ?? [];
+    const rest = scope.filter((entry) => entry !== subelement && !groups.includes(entry));
+    onChange(selected.has(subelement) ? rest : [...rest, subelement].sort());
+  };
+
+  const toggleGroup = (subelement: string, group: string) => {
+    const groups = groupsBySubelement.get(subelement) ?? [];
+    let next: string[];
+    if (selected.has(subelement)) {
+      next = [...scope.filter((entry) => entry !== subelement), ...groups.filter((g) => g !== group)];
+    } else if (selected.has(group)) {
+      next = scope.filter((entry) => entry !== group);
+    } else {
+      next = [...scope, group];
+      if (groups.every((g) => next.includes(g))) {
+        next = [...next.filter((entry) => !groups.includes(entry)), subelement];
+      }
+    }
+    onChange(next.sort());
+  };
+
+  return (
+    <div className="space-y-1">
+      {[...groupsBySubelement.entries()].map(([subelement, groups]) => {
+        const someGroups = groups.some((g) => selected.has(g));
+        const isExpanded = expanded.has(subelement);
+        return (
+          <div key={subelement} className="rounded-md border border-border">
+            <div className="flex items-center gap-2 p-2">
+              <Checkbox
+                id={`scope-${subelement}`}
+                checked={selected.has(subelement) ? true : someGroups ? "indeterminate" : false}
+                onCheckedChange={() => toggleSubelement(subelement)}
+              />
+              <Label htmlFor={`scope-${subelement}`} className="flex-1 cursor-pointer">
+                <span className="font-mono mr-2">{subelement}</span>
+                {getSubelementName(testType, subelement)}
+              </Label>
+              <span className="text-xs text-muted-foreground">{questionCounts.get(subelement) ?? 0}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                onClick={() => toggleExpanded(subelement)}
+                aria-expanded={isExpanded}
+                aria-label={`${isExpanded ? "Hide" : "Show"} ${subelement} question groups`}
+              >
+                {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+              </Button>
+            </div>
+            {isExpanded && (
+              <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 px-3 pb-3">
+                {groups.map((group) => (
+                  <div key={group} className="flex items-center gap-1.5">
+                    <Checkbox
+                      id={`scope-${group}`}
+                      checked={selected.has(subelement) || selected.has(group)}
+                      onCheckedChange={() => toggleGroup(subelement, group)}
+                    />
+                    <Label htmlFor={`scope-${group}`} className="font-mono text-xs cursor-pointer">
+                      {group} <span className="text-muted-foreground">({questionCounts.get(group) ?? 0})</span>
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * Custom practice test: the learner picks subelements or question groups,
+ * a question count and filters, can save the recipe or share it as a link,
+ * then takes the test. Results are saved as `custom_<exam>` so they don't
+ * count as full practice exams.
+ */
+export function CustomTest({
+  onBack,
+  onTestStateChange,
+  testType,
+  onTestTypeChange,
+  onReviewTest,
+}: CustomTestProps) {
+  const { user } = useAuth();
+  const [searchParams] = useSearchParams();
+  const { data: allQuestions, isLoading, error } = useQuestions(testType);
+  const { poolVersion } = usePoolVersion(testType);
+  const { bookmarks } = useBookmarks();
+  const { seenIds, weakIds } = useQuestionMastery(testType);
+  const { saveTestResult } = useProgress();
+  const resultTestType = customTestResultType(testType);
+
+  const { data: testHistory, isLoading: historyLoading } = useQuery({
+    queryKey: ['test-history', user?.id, resultTestType],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('practice_test_results')
+        .select('*')
+        .eq('user_id', user!.id)
+        .eq('test_type', resultTestType)
+        .order('completed_at', { ascending: false })
+        .limit(5);
+
+      if (error) throw error;
+      return data as TestHistoryResult[];
+    },
+    enabled: !!user,
+    staleTime: 1000 * 60 * 2,
+  });
+
+  // A recipe opened from a shared link, read once on mount. One for another
+  // exam waits until the learner switches to that exam.
+  const [sharedRecipe, setSharedRecipe] = useState(() => recipeFromSearchParams(searchParams));
+  const [recipe, setRecipe] = useState<CustomTestRecipe>(() =>
+    sharedRecipe?.testType === testType ? sharedRecipe : emptyRecipe(testType)
+  );
+  const [savedRecipes, setSavedRecipes] = useState(loadSavedRecipes);
+
+  const [hasStarted, setHasStarted] = useState(false);
+  const [questions, setQuestions] = useState<Question[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [answers, setAnswers] = useState<Record<string, 'A' | 'B' | 'C' | 'D'>>({});
+  const [isFinished, setIsFinished] = useState(false);
+  const [timing, setTiming] = useState<TestTiming | null>(null);
+  const questionTimesRef = useRef<Record<string, number>>({});
+
+  const currentQuestion = questions.length > 0 ? questions[currentIndex] : null;
+  const { getElapsedMs, resetTimer } = useQuestionTimer(currentQuestion?.id);
+  const answeredCount = Object.keys(answers).length;
+
+  useEffect(() => {
+    onTestStateChange?.(hasStarted && !isFinished);
+  }, [hasStarted, isFinished, onTestStateChange]);
+
+  // Scope entries belong to one exam, so switching exams starts a new recipe
+  // (or opens the shared one the learner switched for)
+  useEffect(() => {
+    setHasStarted(false);
+    setIsFinished(false);
+    setRecipe((current) => {
+      if (current.testType === testType) return current;
+      if (sharedRecipe?.testType === testType) return sharedRecipe;
+      return emptyRecipe(testType);
+    });
+    if (sharedRecipe?.testType === testType) setSharedRecipe(null);
+  }, [testType, sharedRecipe]);
+
+  const { groupsBySubelement, questionCounts } = useMemo(() => {
+    const groups = new Map<string, Set<string>>();
+    const counts = new Map<string, number>();
+    for (const q of allQuestions ?? []) {
+      if (!groups.has(q.subelement)) groups.set(q.subelement, new Set());
+      groups.get(q.subelement)!.add(q.group);
+      counts.set(q.subelement, (counts.get(q.subelement) ?? 0) + 1);
+      counts.set(q.group, (counts.get(q.group) ?? 0) + 1);
+    }
+    // Exam order (T1 … T9, T0), then any subelement the distribution lacks
+    const order = Object.keys(examDistribution[testType]);
+    const subelements = [...groups.keys()].sort((a, b) => {
+      const ia = order.indexOf(a);
+      const ib = order.indexOf(b);
+      return (ia === -1 ? order.length : ia) - (ib === -1 ? order.length : ib) || a.localeCompare(b);
+    });
+    return {
+      groupsBySubelement: new Map(subelements.map((s) => [s, [...groups.get(s)!].sort()])),
+      questionCounts: counts,
+    };
+  }, [allQuestions, testType]);
+
+  const bookmarkedIds = useMemo(() => new Set((bookmarks ?? []).map((b) => b.question_id)), [bookmarks]);
+
+  const candidates = useMemo(
+    () =>
+      filterCustomTestQuestions(allQuestions ?? [], recipe, {
+        seen: seenIds,
+        weak: weakIds,
+        bookmarked: bookmarkedIds,
+      }),
+    [allQuestions, recipe, seenIds, weakIds, bookmarkedIds]
+  );
+  const testLength = Math.min(recipe.questionCount, candidates.length);
+
+  const countOptions = [...new Set<number>([...CUSTOM_TEST_QUESTION_COUNTS, recipe.questionCount])].sort((a, b) => a - b);
+  const recipesForExam = savedRecipes.filter((r) => r.testType === testType);
+
+  const updateRecipe = (changes: Partial<CustomTestRecipe>) => {
+    setRecipe((current) => ({ ...current, ...changes }));
+  };
+
+  const toggleFilter = (filter: CustomTestFilter, enabled: boolean) => {
+    updateRecipe({
+      filters: enabled ? [...recipe.filters, filter] : recipe.filters.filter((f) => f !== filter),
+    });
+  };
+
+  const handleSaveRecipe = () => {
+    const name = recipe.name.trim();
+    if (!name) return;
+    setSavedRecipes(saveRecipe({ ...recipe, name }));
+    toast.success(`Saved "${name}"`);
+  };
+
+  const handleDeleteRecipe = (name: string) => {
+    setSavedRecipes(deleteRecipe(name));
+  };
+
+  const handleCopyLink = async () => {
+    const url = `${window.location.origin}/dashboard?${recipeToSearchParams(recipe)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success("Link copied to clipboard");
+    } catch {
+      toast.error("Failed to copy link");
+    }
+  };
+
+  /** Add the time spent on the question on screen to its running total */
+  const recordCurrentQuestionTime = () => {
+    if (!currentQuestion) return;
+    const times = questionTimesRef.current;
+    times[currentQuestion.id] = (times[currentQuestion.id] ?? 0) + getElapsedMs();
+    resetTimer();
+  };
+
+  const goToQuestion = (index: number) => {
+    if (index === currentIndex) return;
+    recordCurrentQuestionTime();
+    setCurrentIndex(index);
+  };
+
+  const handleStartTest = () => {
+    const selected = selectCustomTestQuestions(candidates, recipe, poolVersion);
+    if (selected.length === 0) return;
+    setQuestions(selected);
+    setCurrentIndex(0);
+    setAnswers({});
+    setTiming(null);
+    questionTimesRef.current = {};
+    resetTimer();
+    setIsFinished(false);
+    setHasStarted(true);
+    trackPracticeTestStarted({ test_type: testType, question_count: selected.length });
+  };
+
+  const handleFinish = () => {
+    if (isFinished) return;
+    recordCurrentQuestionTime();
+    const testTiming: TestTiming = {
+      questionTimes: { ...questionTimesRef.current },
+      simulation: false,
+      timeLimitSeconds: null,
+      timedOut: false,
+      flaggedCount: 0,
+    };
+    setTiming(testTiming);
+    setIsFinished(true);
+    saveTestResult(questions, answers, testType, testTiming, resultTestType).then((result) => {
+      if (result?.queued) {
+        toast.success('Saved offline. Results will sync when you reconnect.');
+      } else if (result) {
+        toast.success('Test results saved!');
+      }
+    });
+  };
+
+  const handleSelectAnswer = (answer: 'A' | 'B' | 'C' | 'D') => {
+    if (!currentQuestion) return;
+    setAnswers((prev) => ({ ...prev, [currentQuestion.id]: answer }));
+  };
+
+  const handleNext = () => {
+    if (currentIndex < questions.length - 1) goToQuestion(currentIndex + 1);
+  };
+
+  const handlePrevious = () => {
+    if (currentIndex > 0) goToQuestion(currentIndex - 1);
+  };
+
+  const inTest = hasStarted && !isFinished;
+  const shortcuts: KeyboardShortcut[] = [
+    { key: 'a', description: 'Select A', action: () => handleSelectAnswer('A'), disabled: !inTest },
+    { key: 'b', description: 'Select B', action: () => handleSelectAnswer('B'), disabled: !inTest },
+    { key: 'c', description: 'Select C', action: () => handleSelectAnswer('C'), disabled: !inTest },
+    { key: 'd', description: 'Select D', action: () => handleSelectAnswer('D'), disabled: !inTest },
+    { key: 'ArrowRight', description: 'Next', action: handleNext, disabled: !inTest || currentIndex >= questions.length - 1 },
+    { key: 'ArrowLeft', description: 'Previous', action: handlePrevious, disabled: !inTest || currentIndex === 0 },
+  ];
+
+  useKeyboardShortcuts(shortcuts, { enabled: inTest });
+
+  if (isLoading) {
+    return (
+      <PageContainer width="narrow" mobileNavPadding className="flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 animate-spin text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading questions...</p>
+        </div>
+      </PageContainer>
+    );
+  }
+  if (error || !allQuestions || allQuestions.length === 0) {
+    return (
+      <PageContainer width="narrow" mobileNavPadding className="flex items-center justify-center">
+        <div className="text-center">
+          <p className="text-destructive mb-4">Failed to load questions</p>
+          <Button onClick={onBack}>Go Back</Button>
+        </div>
+      </PageContainer>
+    );
+  }
+
+  if (isFinished) {
+    return (
+      <TestResults
+        questions={questions}
+        answers={answers}
+        onRetake={() => {
+          setHasStarted(false);
+          setIsFinished(false);
+        }}
+        onBack={onBack}
+        testType={testType}
+        timing={timing ?? undefined}
+        custom
+      />
+    );
+  }
+
+  if (hasStarted && currentQuestion) {
+    const progress = (answeredCount / questions.length) * 100;
+    const isLast = currentIndex === questions.length - 1;
+
+    return (
+      <PageContainer width="standard" mobileNavPadding>
+        <div className="mb-12">
+          <div className="flex items-center justify-between mb-8">
+            <p className="text-sm font-medium text-foreground truncate">{recipe.name || "Custom test"}</p>
+            <KeyboardShortcutsHelp />
+          </div>
+          <div className="space-y-3">
+            <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+              <motion.div
+                initial={{ width: 0 }}
+                animate={{ width: `${progress}%` }}
+                className="h-full bg-primary rounded-full transition-all duration-300"
+              />
+            </div>
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>Progress</span>
+              <span className="font-mono">{answeredCount} / {questions.length}</span>
+            </div>
+          </div>
+        </div>
+
+        <QuestionCard
+          question={currentQuestion}
+          selectedAnswer={answers[currentQuestion.id] || null}
+          onSelectAnswer={handleSelectAnswer}
+          showResult={false}
+        />
+
+        <div className="mt-10">
+          <div className="flex items-center justify-between gap-4">
+            <Button variant="outline" onClick={handlePrevious} disabled={currentIndex === 0} className="gap-2">
+              <ArrowLeft className="w-4 h-4" />
+              Previous
+            </Button>
+
+            <div className="hidden md:flex flex-wrap justify-center gap-1 max-w-md" role="navigation" aria-label="Question navigator">
+              {questions.map((q, idx) => (
+                <button
+                  key={q.id}
+                  onClick={() => goToQuestion(idx)}
+                  aria-label={`Question ${idx + 1}${answers[q.id] ? ', answered' : ', unanswered'}${idx === currentIndex ? ', current' : ''}`}
+                  aria-current={idx === currentIndex ? 'step' : undefined}
+                  className={cn(
+                    "w-8 h-8 rounded text-xs font-mono transition-colors",
+                    idx === currentIndex
+                      ? "bg-primary text-primary-foreground"
+                      : answers[q.id]
+                        ? "bg-secondary text-secondary-foreground"
+                        : "bg-muted text-muted-foreground hover:bg-secondary"
+                  )}
+                >
+                  {idx + 1}
+                </button>
+              ))}
+            </div>
+
+            {isLast ? (
+              <Button onClick={handleFinish} className="gap-2" variant={answeredCount === questions.length ? "default" : "secondary"}>
+                <CheckCircle className="w-4 h-4" />
+                Finish Test
+              </Button>
+            ) : (
+              <Button onClick={handleNext} className="gap-2">
+                Next
+                <ArrowRight className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+
+          {isLast && answeredCount < questions.length && (
+            <p className="text-center text-muted-foreground text-sm mt-4">
+              You have {questions.length - answeredCount} unanswered question(s).
+              You can still submit, but unanswered questions will be marked incorrect.
+            </p>
+          )}
+        </div>
+      </PageContainer>
+    );
+  }
+
+  // Builder
+  return (
+    <PageContainer width="standard" mobileNavPadding contentClassName="space-y-6">
+      <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }}>
+        <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <SlidersHorizontal className="w-6 h-6" />
+          Custom Test
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Pick the {examName(testType)} subelements or question groups to cover, how many questions, and which ones.
+          Custom tests are kept separate from full practice exams.
+        </p>
+      </motion.div>
+
+      {sharedRecipe && sharedRecipe.testType !== testType && (
+        <div className="rounded-lg border border-primary/40 bg-primary/5 p-4 flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-foreground">
+            This shared test{sharedRecipe.name ? ` "${sharedRecipe.name}"` : ""} is for the {examName(sharedRecipe.testType)} exam.
+          </p>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setSharedRecipe(null)}>
+              Dismiss
+            </Button>
+            {onTestTypeChange && (
+              <Button size="sm" onClick={() => onTestTypeChange(sharedRecipe.testType)}>
+                Switch to {examName(sharedRecipe.testType)}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-[3fr_2fr] gap-6">
+        <div className="bg-card border border-border rounded-xl p-6 space-y-6">
+          <section className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h2 className="font-semibold text-foreground">Questions from</h2>
+              {recipe.scope.length > 0 && (
+                <Button variant="ghost" size="sm" onClick={() => updateRecipe({ scope: [] })}>
+                  Clear
+                </Button>
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {recipe.scope.length === 0 ? "The whole pool. Select subelements or groups to narrow it." : recipe.scope.join(", ")}
+            </p>
+            <ScopePicker
+              testType={testType}
+              groupsBySubelement={groupsBySubelement}
+              questionCounts={questionCounts}
+              scope={recipe.scope}
+              onChange={(scope) => updateRecipe({ scope })}
+            />
+          </section>
+
+          <section className="space-y-3">
+            <h2 className="font-semibold text-foreground">Only include</h2>
+            {CUSTOM_TEST_FILTERS.map((filter) => {
+              const needsAccount = !user && SIGNED_IN_FILTERS.includes(filter.id);
+              return (
+                <div key={filter.id} className="flex items-center justify-between gap-4">
+                  <div>
+                    <Label htmlFor={`filter-${filter.id}`} className="font-medium">{filter.label}</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {needsAccount ? "Sign in to filter by your history" : filter.description}
+                    </p>
+                  </div>
+                  <Switch
+                    id={`filter-${filter.id}`}
+                    checked={recipe.filters.includes(filter.id)}
+                    disabled={needsAccount}
+                    onCheckedChange={(checked) => toggleFilter(filter.id, checked)}
+                  />
+                </div>
+              );
+            })}
+          </section>
+
+          <section className="flex items-center justify-between gap-4">
+            <Label htmlFor="custom-question-count" className="font-semibold">Number of questions</Label>
+            <Select
+              value={String(recipe.questionCount)}
+              onValueChange={(value) => updateRecipe({ questionCount: Number(value) })}
+            >
+              <SelectTrigger id="custom-question-count" className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {countOptions.map((count) => (
+                  <SelectItem key={count} value={String(count)}>
+                    {count}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </section>
+
+          <div className="rounded-lg bg-secondary/40 p-4 text-center space-y-3">
+            <p className="text-sm text-foreground" data-testid="custom-test-summary">
+              {candidates.length === 0
+                ? "No questions match these choices."
+                : `${candidates.length} matching question${candidates.length === 1 ? "" : "s"}. Your test will have ${testLength}, with ${requiredToPass(testLength, testType, true)} correct needed to pass.`}
+            </p>
+            <Button size="lg" onClick={handleStartTest} disabled={testLength === 0} className="gap-2">
+              <Play className="w-5 h-5" />
+              Start Test
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          <div className="bg-card border border-border rounded-xl p-6 space-y-3">
+            <h2 className="font-semibold text-foreground">Save or share</h2>
+            <div className="flex gap-2">
+              <Input
+                aria-label="Recipe name"
+                placeholder="Name this test"
+                maxLength={60}
+                value={recipe.name}
+                onChange={(e) => updateRecipe({ name: e.target.value })}
+              />
+              <Button variant="outline" onClick={handleSaveRecipe} disabled={!recipe.name.trim()} className="gap-2 shrink-0">
+                <Save className="w-4 h-4" />
+                Save
+              </Button>
+            </div>
+            <Button variant="outline" onClick={handleCopyLink} className="w-full gap-2">
+              <Link2 className="w-4 h-4" />
+              Copy share link
+            </Button>
+
+            {recipesForExam.length > 0 && (
+              <ul className="divide-y divide-border rounded-md border border-border">
+                {recipesForExam.map((saved) => (
+                  <li key={saved.name} className="flex items-center gap-2 p-2" data-testid="saved-recipe">
+                    <button
+                      type="button"
+                      onClick={() => setRecipe(saved)}
+                      className="flex-1 min-w-0 text-left hover:text-primary transition-colors"
+                    >
+                      <p className="text-sm font-medium truncate">{saved.name}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {saved.questionCount} questions · {saved.scope.length === 0 ? "whole pool" : saved.scope.join(", ")}
+                      </p>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 shrink-0"
+                      onClick={() => handleDeleteRecipe(saved.name)}
+                      aria-label={`Delete ${saved.name}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {user && (
+            <div className="bg-card border border-border rounded-xl p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <History className="w-5 h-5 text-muted-foreground" />
+                <h2 className="font-semibold text-foreground">Recent Custom Tests</h2>
+              </div>
+              {historyLoading ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : !testHistory || testHistory.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No custom tests taken yet</p>
+              ) : (
+                <div className="space-y-2">
+                  {testHistory.map((test) => (
+                    <button
+                      key={test.id}
+                      onClick={() => onReviewTest?.(test.id)}
+                      disabled={!onReviewTest}
+                      className={cn(
+                        "w-full flex items-center gap-3 p-3 rounded-lg border border-border text-left transition-colors",
+                        onReviewTest && "hover:border-primary/50 cursor-pointer"
+                      )}
+                    >
+                      {test.passed ? (
+                        <Trophy className="w-4 h-4 text-success shrink-0" />
+                      ) : (
+                        <XCircle className="w-4 h-4 text-destructive shrink-0" />
+                      )}
+                      <span className={cn("font-bold", test.passed ? "text-success" : "text-destructive")}>
+                        {test.percentage}%
+                      </span>
+                      <span className="text-xs text-muted-foreground">
+                        ({test.score}/{test.total_questions})
+                      </span>
+                      <span className="text-xs text-muted-foreground ml-auto">
+                        {new Date(test.completed_at).toLocaleDateString([], { month: 'short', day: 'numeric' })}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </PageContainer>
+  );
+}
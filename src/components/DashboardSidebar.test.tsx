@@ -15,6 +15,18 @@ vi.mock('@/hooks/useAdmin', () => ({
   })),
 }));
 
+vi.mock('@/hooks/useModeration', () => ({
+  useIsModerator: vi.fn(() => ({
+    isModerator: false,
+    isLoading: false,
+  })),
+  usePendingRevisions: vi.fn(() => ({ data: undefined })),
+}));
+
+vi.mock('@/hooks/usePoolVersion', () => ({
+  usePoolVersion: () => ({ poolVersion: '2022-2026', selectablePools: [], setPoolVersion: vi.fn() }),
+}));
+
 const mockNavigate = vi.fn();
 vi.mock('react-router-dom', async () => {
   const actual = await vi.importActual('react-router-dom');
@@ -213,7 +225,7 @@ describe('DashboardSidebar', () => {
       expect(screen.getByText('Study')).toBeInTheDocument();
       expect(screen.getByText('Glossary')).toBeInTheDocument();
       expect(screen.getByText('Tools')).toBeInTheDocument();
-      expect(screen.getByText('Find Test Site')).toBeInTheDocument();
+      expect(screen.getByText('Find an Exam')).toBeInTheDocument();
 
       // Expand Learn menu to see Topics and Lessons
       await user.click(screen.getByText('Learn'));
@@ -231,9 +243,12 @@ describe('DashboardSidebar', () => {
       });
       expect(screen.getByText('By Subelement')).toBeInTheDocument();
       expect(screen.getByText('By Chapter')).toBeInTheDocument();
+      expect(screen.getByText('Custom Test')).toBeInTheDocument();
       expect(screen.getByText('Weak Areas')).toBeInTheDocument();
       expect(screen.getByText('Bookmarked')).toBeInTheDocument();
       expect(screen.getByText('Flashcards')).toBeInTheDocument();
+      expect(screen.getByText('Morse Code')).toBeInTheDocument();
+      expect(screen.getByText('Band Plan')).toBeInTheDocument();
     });
 
     it('calls onViewChange when navigation item clicked', async () => {
@@ -346,9 +361,12 @@ describe('DashboardSidebar', () => {
       expect(screen.queryByText('Random Practice')).not.toBeInTheDocument();
       expect(screen.queryByText('By Subelement')).not.toBeInTheDocument();
       expect(screen.queryByText('By Chapter')).not.toBeInTheDocument();
+      expect(screen.queryByText('Custom Test')).not.toBeInTheDocument();
       expect(screen.queryByText('Weak Areas')).not.toBeInTheDocument();
       expect(screen.queryByText('Bookmarked')).not.toBeInTheDocument();
       expect(screen.queryByText('Study Terms')).not.toBeInTheDocument();
+      expect(screen.queryByText('Morse Code')).not.toBeInTheDocument();
+      expect(screen.queryByText('Band Plan')).not.toBeInTheDocument();
     });
 
     it('toggles study items visibility when header clicked', async () => {
@@ -488,6 +506,27 @@ describe('DashboardSidebar', () => {
     });
   });
 
+  describe('Moderation Link', () => {
+    it('does not show moderation for other users', () => {
+      render(<DashboardSidebar {...defaultProps} />, { wrapper: createWrapper() });
+
+      expect(screen.queryByText('Moderation')).not.toBeInTheDocument();
+    });
+
+    it('shows moderation with the number of pending changes for moderators', async () => {
+      const { useIsModerator, usePendingRevisions } = await import('@/hooks/useModeration');
+      vi.mocked(useIsModerator).mockReturnValue({ isModerator: true, isLoading: false });
+      vi.mocked(usePendingRevisions).mockReturnValue({
+        data: [{ id: 'r1' }, { id: 'r2' }],
+      } as unknown as ReturnType<typeof usePendingRevisions>);
+
+      render(<DashboardSidebar {...defaultProps} />, { wrapper: createWrapper() });
+
+      expect(screen.getByText('Moderation')).toBeInTheDocument();
+      expect(screen.getByText(', 2 changes to review')).toBeInTheDocument();
+    });
+  });
+
   describe('Collapsed State', () => {
     it('shows expand button when collapsed', () => {
       render(<DashboardSidebar {...defaultProps} isCollapsed={true} />, { wrapper: createWrapper() });
@@ -17,6 +17,12 @@ import {
   Square,
   Wrench,
   Users,
+  CalendarClock,
+  School,
+  ShieldCheck,
+  SlidersHorizontal,
+  Radio,
+  RadioTower,
 } from 'lucide-react';
 import { getModifierKey } from '@/lib/searchUtils';
 import { cn } from '@/lib/utils';
@@ -25,6 +31,7 @@ import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip
 import { Sheet, SheetContent, SheetTrigger } from '@/components/ui/sheet';
 import { ProfileModal } from '@/components/ProfileModal';
 import { useAdmin } from '@/hooks/useAdmin';
+import { useIsModerator, usePendingRevisions } from '@/hooks/useModeration';
 import { useNavigate, useLocation } from 'react-router-dom';
 import {
   AlertDialog,
@@ -58,6 +65,7 @@ export function DashboardSidebar({
   isCollapsed,
   onToggleCollapse,
   weakQuestionCount,
+  dueReviewCount = 0,
   bookmarkCount,
   isTestAvailable,
   userInfo,
@@ -76,6 +84,9 @@ export function DashboardSidebar({
   const [learnExpanded, setLearnExpanded] = useState(false);
 
   const { isAdmin } = useAdmin();
+  const { isModerator } = useIsModerator();
+  const { data: pendingRevisions } = usePendingRevisions(isModerator);
+  const pendingRevisionCount = pendingRevisions?.length ?? 0;
   const navigate = useNavigate();
   const location = useLocation();
   const isOnAdminPage = location.pathname === '/admin';
@@ -116,6 +127,12 @@ export function DashboardSidebar({
         icon: Book,
         disabled: !isTestAvailable,
       },
+      {
+        id: 'custom-test',
+        label: 'Custom Test',
+        icon: SlidersHorizontal,
+        disabled: !isTestAvailable,
+      },
       {
         id: 'weak-questions',
         label: 'Weak Areas',
@@ -124,8 +141,18 @@ export function DashboardSidebar({
         badgeAriaLabel: weakQuestionCount === 1 ? '1 weak question' : `${weakQuestionCount} weak questions`,
         disabled: !isTestAvailable || weakQuestionCount === 0,
       },
+      {
+        id: 'due-review',
+        label: 'Due for Review',
+        icon: CalendarClock,
+        badge: userId ? dueReviewCount : undefined,
+        badgeAriaLabel: dueReviewCount === 1 ? '1 question due' : `${dueReviewCount} questions due`,
+        disabled: !isTestAvailable || !userId,
+      },
       { id: 'bookmarks', label: 'Bookmarked', icon: Bookmark, badge: userId ? bookmarkCount : undefined, badgeAriaLabel: bookmarkCount === 1 ? '1 bookmark' : `${bookmarkCount} bookmarks`, disabled: !userId },
       { id: 'glossary-flashcards', label: 'Flashcards', icon: Square },
+      { id: 'morse-trainer', label: 'Morse Code', icon: Radio },
+      { id: 'band-plan', label: 'Band Plan', icon: RadioTower },
     ],
   };
 
@@ -133,7 +160,17 @@ export function DashboardSidebar({
   const bottomNavItems: NavItem[] = [
     { id: 'glossary', label: 'Glossary', icon: BookText },
     { id: 'tools', label: 'Tools', icon: Wrench },
-    { id: 'find-test-site', label: 'Find Test Site', icon: MapPin, external: 'https://hamstudy.org/sessions' },
+    { id: 'find-exam', label: 'Find an Exam', icon: MapPin },
+    { id: 'classrooms', label: 'Classes', icon: School, disabled: !userId },
+    ...(isModerator
+      ? [{
+          id: 'moderation' as const,
+          label: 'Moderation',
+          icon: ShieldCheck,
+          badge: pendingRevisionCount,
+          badgeAriaLabel: pendingRevisionCount === 1 ? '1 change to review' : `${pendingRevisionCount} changes to review`,
+        }]
+      : []),
     { id: 'forum', label: 'Community', icon: Users, external: 'https://forum.openhamprep.com/auth/oidc' },
   ];
 
@@ -318,6 +355,7 @@ export function DashboardSidebar({
           userId={userId}
           onProfileUpdate={onProfileUpdate}
           onSignOut={() => setSignOutDialogOpen(true)}
+          selectedTest={selectedTest}
         />
       )}
 
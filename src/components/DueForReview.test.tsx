@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { ReactNode } from 'react';
+import { DueForReview } from './DueForReview';
+
+const mockQuestions = [
+  { id: 'uuid-t1a01', displayName: 'T1A01', question: 'What is amateur radio?', options: ['Option A', 'Option B', 'Option C', 'Option D'], correctAnswer: 'A' },
+  { id: 'uuid-t1a02', displayName: 'T1A02', question: 'What band is best for beginners?', options: ['Option A', 'Option B', 'Option C', 'Option D'], correctAnswer: 'B' },
+];
+
+const pastDue = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+const mockDueQuestions = [
+  { questionId: 'uuid-t1a02', displayName: 'T1A02', easeFactor: 2.5, intervalDays: 1, repetitions: 1, lapses: 0, dueAt: pastDue, lastReviewedAt: null },
+  { questionId: 'uuid-t1a01', displayName: 'T1A01', easeFactor: 2.5, intervalDays: 6, repetitions: 2, lapses: 0, dueAt: pastDue, lastReviewedAt: null },
+];
+
+vi.mock('@/hooks/useQuestions', () => ({
+  useQuestions: vi.fn(() => ({ data: mockQuestions, isLoading: false, error: null })),
+}));
+
+vi.mock('@/hooks/useReviewSchedule', () => ({
+  useReviewSchedule: vi.fn(),
+}));
+
+const mockSaveRandomAttempt = vi.fn().mockResolvedValue(undefined);
+vi.mock('@/hooks/useProgress', () => ({
+  useProgress: vi.fn(() => ({ saveRandomAttempt: mockSaveRandomAttempt })),
+}));
+
+vi.mock('@/hooks/useAuth', () => ({
+  useAuth: vi.fn(() => ({ user: { id: 'user-123' } })),
+}));
+
+vi.mock('@/hooks/useAppNavigation', () => ({
+  useAppNavigation: vi.fn(() => ({
+    navigateToTopic: vi.fn(),
+    selectedLicense: 'technician',
+  })),
+}));
+
+vi.mock('@/hooks/useKeyboardShortcuts', () => ({
+  useKeyboardShortcuts: vi.fn(),
+  KeyboardShortcut: {},
+}));
+
+vi.mock('@/components/KeyboardShortcutsHelp', () => ({
+  KeyboardShortcutsHelp: () => <div data-testid="keyboard-shortcuts-help">Keyboard Help</div>,
+}));
+
+vi.mock('@/components/QuestionCard', () => ({
+  QuestionCard: ({ question, onSelectAnswer, showResult }: {
+    question: { id: string; displayName: string };
+    onSelectAnswer: (answer: string) => void;
+    showResult: boolean;
+  }) => (
+    <div data-testid="question-card">
+      <div data-testid="question-id">{question?.displayName}</div>
+      <div data-testid="show-result">{showResult ? 'true' : 'false'}</div>
+      <button onClick={() => onSelectAnswer('A')} data-testid="select-a">Select A</button>
+      <button onClick={() => onSelectAnswer('B')} data-testid="select-b">Select B</button>
+    </div>
+  ),
+}));
+
+vi.mock('framer-motion', () => ({
+  motion: {
+    div: ({ children, ...props }: React.HTMLAttributes<HTMLDivElement> & { children?: React.ReactNode }) => <div {...props}>{children}</div>,
+    p: ({ children, ...props }: React.HTMLAttributes<HTMLParagraphElement> & { children?: React.ReactNode }) => <p {...props}>{children}</p>,
+  },
+  AnimatePresence: ({ children }: { children?: React.ReactNode }) => <>{children}</>,
+}));
+
+import { useQuestions } from '@/hooks/useQuestions';
+import { useReviewSchedule } from '@/hooks/useReviewSchedule';
+
+function createWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+    },
+  });
+  return ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+}
+
+function mockSchedule(overrides: Partial<ReturnType<typeof useReviewSchedule>> = {}) {
+  vi.mocked(useReviewSchedule).mockReturnValue({
+    schedule: mockDueQuestions,
+    dueQuestions: mockDueQuestions,
+    nextDueAt: pastDue,
+    isLoading: false,
+    error: null,
+    ...overrides,
+  } as ReturnType<typeof useReviewSchedule>);
+}
+
+describe('DueForReview', () => {
+  const defaultProps = {
+    onBack: vi.fn(),
+    testType: 'technician' as const,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(useQuestions).mockReturnValue({ data: mockQuestions, isLoading: false, error: null } as ReturnType<typeof useQuestions>);
+    mockSchedule();
+  });
+
+  it('shows a loading state while the schedule loads', () => {
+    mockSchedule({ dueQuestions: [], isLoading: true });
+
+    render(<DueForReview {...defaultProps} />, { wrapper: createWrapper() });
+
+    expect(screen.getByText('Loading your review queue...')).toBeInTheDocument();
+  });
+
+  it('shows an empty state when nothing is due', () => {
+    const future = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000).toISOString();
+    mockSchedule({ dueQuestions: [], nextDueAt: future });
+
+    render(<DueForReview {...defaultProps} />, { wrapper: createWrapper() });
+
+    expect(screen.getByText('Nothing due for review')).toBeInTheDocument();
+    expect(screen.getByText(/Your next review is due/)).toBeInTheDocument();
+  });
+
+  it('prompts the user to answer questions when nothing is scheduled yet', () => {
+    mockSchedule({ schedule: [], dueQuestions: [], nextDueAt: null });
+
+    render(<DueForReview {...defaultProps} />, { wrapper: createWrapper() });
+
+    expect(screen.getByText(/Answer some questions/)).toBeInTheDocument();
+  });
+
+  it('presents due questions in schedule order', async () => {
+    render(<DueForReview {...defaultProps} />, { wrapper: createWrapper() });
+
+    await waitFor(() => {
+      expect(screen.getByTestId('question-id')).toHaveTextContent('T1A02');
+    });
+    expect(screen.getByText('2 remaining')).toBeInTheDocument();
+  });
+
+  it('saves the attempt as a spaced review and shows the next interval', async () => {
+    render(<DueForReview {...defaultProps} />, { wrapper: createWrapper() });
+
+    await waitFor(() => expect(screen.getByTestId('question-card')).toBeInTheDocument());
+    fireEvent.click(screen.getByTestId('select-b'));
+
+    await waitFor(() => {
+      expect(mockSaveRandomAttempt).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'uuid-t1a02' }),
+        'B',
+        'spaced_review',
+        expect.any(Number)
+      );
+    });
+    expect(screen.getByTestId('next-review-hint')).toHaveTextContent('Next review in 6 days');
+  });
+
+  it('schedules a missed question for tomorrow', async () => {
+    render(<DueForReview {...defaultProps} />, { wrapper: createWrapper() });
+
+    await waitFor(() => expect(screen.getByTestId('question-card')).toBeInTheDocument());
+    fireEvent.click(screen.getByTestId('select-a'));
+
+    expect(screen.getByTestId('next-review-hint')).toHaveTextContent('Next review tomorrow');
+  });
+
+  it('shows a completion message after the last due question', async () => {
+    render(<DueForReview {...defaultProps} />, { wrapper: createWrapper() });
+
+    await waitFor(() => expect(screen.getByTestId('question-card')).toBeInTheDocument());
+    fireEvent.click(screen.getByTestId('select-b'));
+    fireEvent.click(screen.getByRole('button', { name: /Next/ }));
+
+    await waitFor(() => expect(screen.getByTestId('question-id')).toHaveTextContent('T1A01'));
+    fireEvent.click(screen.getByTestId('select-a'));
+    fireEvent.click(screen.getByRole('button', { name: /Finish/ }));
+
+    expect(screen.getByText('Review session complete!')).toBeInTheDocument();
+    expect(screen.getByText(/You reviewed 2 questions/)).toBeInTheDocument();
+  });
+
+  it('calls onBack from the empty state', () => {
+    mockSchedule({ dueQuestions: [] });
+
+    render(<DueForReview {...defaultProps} />, { wrapper: createWrapper() });
+    fireEvent.click(screen.getByRole('button', { name: 'Go Back' }));
+
+    expect(defaultProps.onBack).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,220 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { QuestionCard } from "@/components/QuestionCard";
+import { useQuestions } from "@/hooks/useQuestions";
+import { useProgress } from "@/hooks/useProgress";
+import { useAuth } from "@/hooks/useAuth";
+import { useAppNavigation } from "@/hooks/useAppNavigation";
+import { useReviewSchedule } from "@/hooks/useReviewSchedule";
+import { useKeyboardShortcuts, KeyboardShortcut } from "@/hooks/useKeyboardShortcuts";
+import { KeyboardShortcutsHelp } from "@/components/KeyboardShortcutsHelp";
+import { CalendarClock, Loader2, CheckCircle, ChevronRight } from "lucide-react";
+import { motion } from "framer-motion";
+import { TestType } from "@/types/navigation";
+import { PageContainer } from "@/components/ui/page-container";
+import { queryKeys } from "@/services/queryKeys";
+import { previewNextInterval, ReviewState } from "@/lib/spacedRepetition";
+
+interface DueForReviewProps {
+  onBack: () => void;
+  testType: TestType;
+}
+
+function formatInterval(days: number): string {
+  if (days <= 1) return 'tomorrow';
+  if (days < 30) return `in ${days} days`;
+  const months = Math.round(days / 30);
+  return months === 1 ? 'in about a month' : `in about ${months} months`;
+}
+
+export function DueForReview({ onBack, testType }: DueForReviewProps) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { navigateToTopic } = useAppNavigation();
+  const { data: allQuestions, isLoading: questionsLoading } = useQuestions(testType);
+  const { dueQuestions, nextDueAt, isLoading: scheduleLoading } = useReviewSchedule(testType);
+  const { saveRandomAttempt } = useProgress();
+
+  // Freeze the queue when the session starts so it doesn't reshuffle as the
+  // schedule refetches underneath us
+  const [sessionQueue, setSessionQueue] = useState<string[] | null>(null);
+  const [position, setPosition] = useState(0);
+  const [selectedAnswer, setSelectedAnswer] = useState<'A' | 'B' | 'C' | 'D' | null>(null);
+  const [showResult, setShowResult] = useState(false);
+  const [nextIntervalDays, setNextIntervalDays] = useState<number | null>(null);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  useEffect(() => {
+    if (sessionQueue === null && !scheduleLoading && dueQuestions.length > 0) {
+      setSessionQueue(dueQuestions.map((entry) => entry.questionId));
+    }
+  }, [sessionQueue, scheduleLoading, dueQuestions]);
+
+  // Start a fresh session when the license type changes
+  const sessionTestTypeRef = useRef(testType);
+  useEffect(() => {
+    if (sessionTestTypeRef.current === testType) return;
+    sessionTestTypeRef.current = testType;
+    setSessionQueue(null);
+    setPosition(0);
+    setSelectedAnswer(null);
+    setShowResult(false);
+    setNextIntervalDays(null);
+    setReviewedCount(0);
+  }, [testType]);
+
+  const questionsById = useMemo(
+    () => new Map((allQuestions ?? []).map((q) => [q.id, q])),
+    [allQuestions]
+  );
+  const statesById = useMemo(
+    () => new Map<string, ReviewState>(dueQuestions.map((entry) => [entry.questionId, entry])),
+    [dueQuestions]
+  );
+
+  const queue = (sessionQueue ?? []).filter((id) => questionsById.has(id));
+  const currentQuestion = position < queue.length ? questionsById.get(queue[position]) : undefined;
+  const isSessionDone = sessionQueue !== null && position >= queue.length;
+
+  const questionStartTimeRef = useRef<number>(Date.now());
+  useEffect(() => {
+    questionStartTimeRef.current = Date.now();
+  }, [currentQuestion?.id]);
+
+  const handleSelectAnswer = useCallback(async (answer: 'A' | 'B' | 'C' | 'D') => {
+    if (showResult || !currentQuestion) return;
+
+    const timeElapsedMs = Date.now() - questionStartTimeRef.current;
+    const isCorrect = answer === currentQuestion.correctAnswer;
+
+    setSelectedAnswer(answer);
+    setShowResult(true);
+    setReviewedCount((count) => count + 1);
+
+    const state = statesById.get(currentQuestion.id);
+    if (state) {
+      setNextIntervalDays(previewNextInterval(state, isCorrect, timeElapsedMs));
+    }
+
+    try {
+      await saveRandomAttempt(currentQuestion, answer, 'spaced_review', timeElapsedMs);
+    } catch (error) {
+      console.error('Failed to save attempt:', error);
+    }
+  }, [showResult, currentQuestion, statesById, saveRandomAttempt]);
+
+  const handleNext = useCallback(() => {
+    setPosition((p) => p + 1);
+    setSelectedAnswer(null);
+    setShowResult(false);
+    setNextIntervalDays(null);
+  }, []);
+
+  // Refresh the schedule once the session is over so the badge count updates
+  useEffect(() => {
+    if (isSessionDone && user) {
+      queryClient.invalidateQueries({ queryKey: queryKeys.progress.reviewSchedule(user.id) });
+    }
+  }, [isSessionDone, queryClient, user]);
+
+  const shortcuts: KeyboardShortcut[] = [
+    { key: 'a', description: 'Select A', action: () => handleSelectAnswer('A'), disabled: showResult },
+    { key: 'b', description: 'Select B', action: () => handleSelectAnswer('B'), disabled: showResult },
+    { key: 'c', description: 'Select C', action: () => handleSelectAnswer('C'), disabled: showResult },
+    { key: 'd', description: 'Select D', action: () => handleSelectAnswer('D'), disabled: showResult },
+    { key: 'ArrowRight', description: 'Next', action: handleNext, disabled: !showResult },
+    { key: 'Escape', description: 'Go back', action: onBack },
+  ];
+
+  useKeyboardShortcuts(shortcuts, { enabled: !!currentQuestion });
+
+  if (questionsLoading || scheduleLoading) {
+    return (
+      <PageContainer width="standard" mobileNavPadding className="flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="w-8 h-8 animate-spin text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground">Loading your review queue...</p>
+        </div>
+      </PageContainer>
+    );
+  }
+
+  if (!currentQuestion) {
+    const finishedSession = isSessionDone && reviewedCount > 0;
+    return (
+      <PageContainer width="standard" mobileNavPadding>
+        <Card>
+          <CardContent className="pt-6">
+            <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="text-center py-8">
+              <CheckCircle className="w-12 h-12 text-success mx-auto mb-4" />
+              <p className="text-foreground font-medium mb-2">
+                {finishedSession ? "Review session complete!" : "Nothing due for review"}
+              </p>
+              <p className="text-muted-foreground mb-4">
+                {finishedSession
+                  ? `You reviewed ${reviewedCount} question${reviewedCount !== 1 ? 's' : ''}. We'll bring them back right before you'd forget them.`
+                  : nextDueAt
+                    ? `Your next review is due ${new Date(nextDueAt).toLocaleDateString()}.`
+                    : "Answer some questions and they'll be scheduled for review here."}
+              </p>
+              <Button onClick={onBack}>Go Back</Button>
+            </motion.div>
+          </CardContent>
+        </Card>
+      </PageContainer>
+    );
+  }
+
+  const remaining = queue.length - position;
+
+  return (
+    <PageContainer width="standard" mobileNavPadding>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <CalendarClock className="w-5 h-5 text-primary" />
+          Due for Review
+        </h2>
+        <div className="flex items-center gap-2">
+          <KeyboardShortcutsHelp />
+          <span className="text-sm text-muted-foreground">
+            {remaining} remaining
+          </span>
+        </div>
+      </div>
+
+      <QuestionCard
+        question={currentQuestion}
+        selectedAnswer={selectedAnswer}
+        onSelectAnswer={handleSelectAnswer}
+        showResult={showResult}
+        enableGlossaryHighlight
+        onTopicClick={navigateToTopic}
+      />
+
+      {showResult && nextIntervalDays !== null && (
+        <motion.p
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          className="text-center text-sm text-muted-foreground mt-4"
+          data-testid="next-review-hint"
+        >
+          Next review {formatInterval(nextIntervalDays)}
+        </motion.p>
+      )}
+
+      <div className="mt-8 flex justify-center gap-4">
+        <Button
+          variant={showResult ? "default" : "outline"}
+          onClick={handleNext}
+          disabled={!showResult}
+          className="gap-2"
+        >
+          {remaining <= 1 ? 'Finish' : 'Next'}
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { FigureHotspotDetails, FigureHotspotMarkers } from './FigureHotspots';
+import { useActiveHotspot } from '@/hooks/useFigureHotspots';
+
+const hotspots = [
+  {
+    id: 'h1',
+    figureReference: 'T-1',
+    poolVersion: '2022-2026',
+    label: '1',
+    name: 'Resistor',
+    description: null,
+    x: 20,
+    y: 30,
+    glossaryTerm: { id: 'term-r', term: 'Resistor', definition: 'A component that opposes current' },
+  },
+  {
+    id: 'h2',
+    figureReference: 'T-1',
+    poolVersion: '2022-2026',
+    label: '2',
+    name: 'Transistor',
+    description: 'An NPN bipolar junction transistor',
+    x: 60,
+    y: 50,
+    glossaryTerm: null,
+  },
+];
+
+const mockUseFigureHotspots = vi.fn();
+vi.mock('@/hooks/useFigureHotspots', async () => {
+  const actual = await vi.importActual<typeof import('@/hooks/useFigureHotspots')>('@/hooks/useFigureHotspots');
+  return {
+    ...actual,
+    useFigureHotspots: (figureReference: string, poolVersion: string) =>
+      mockUseFigureHotspots(figureReference, poolVersion),
+  };
+});
+
+const mockNavigateToGlossaryTerm = vi.fn();
+vi.mock('@/hooks/useAppNavigation', () => ({
+  useAppNavigation: () => ({ navigateToGlossaryTerm: mockNavigateToGlossaryTerm }),
+}));
+
+const mockNavigate = vi.fn();
+vi.mock('react-router-dom', async () => {
+  const actual = await vi.importActual('react-router-dom');
+  return {
+    ...actual,
+    useNavigate: () => mockNavigate,
+  };
+});
+
+const onFigureClick = vi.fn();
+
+function HotspotFigure() {
+  const active = useActiveHotspot();
+  return (
+    <>
+      <div onClick={onFigureClick}>
+        <FigureHotspotMarkers figureReference="T-1" poolVersion="2022-2026" active={active} />
+      </div>
+      <FigureHotspotDetails figureReference="T-1" poolVersion="2022-2026" activeId={active.activeId} />
+    </>
+  );
+}
+
+const renderFigure = (path = '/dashboard') =>
+  render(
+    <MemoryRouter initialEntries={[path]}>
+      <HotspotFigure />
+    </MemoryRouter>
+  );
+
+describe('FigureHotspots', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseFigureHotspots.mockReturnValue({ data: hotspots });
+  });
+
+  it('places a numbered marker for each hotspot', () => {
+    renderFigure();
+
+    const marker = screen.getByRole('button', { name: 'Component 2: Transistor' });
+    expect(marker).toHaveTextContent('2');
+    expect(marker).toHaveStyle({ left: '60%', top: '50%' });
+    expect(mockUseFigureHotspots).toHaveBeenCalledWith('T-1', '2022-2026');
+    expect(screen.getByText(/hover over or tap a number/i)).toBeInTheDocument();
+  });
+
+  it('identifies a component on hover', () => {
+    renderFigure();
+
+    fireEvent.mouseEnter(screen.getByRole('button', { name: 'Component 2: Transistor' }));
+    expect(screen.getByTestId('figure-hotspot-details')).toHaveTextContent('2Transistor');
+    expect(screen.getByText('An NPN bipolar junction transistor')).toBeInTheDocument();
+
+    fireEvent.mouseLeave(screen.getByRole('button', { name: 'Component 2: Transistor' }));
+    expect(screen.getByText(/hover over or tap a number/i)).toBeInTheDocument();
+  });
+
+  it('keeps a tapped component showing without opening the figure', () => {
+    renderFigure();
+
+    const marker = screen.getByRole('button', { name: 'Component 1: Resistor' });
+    fireEvent.click(marker);
+
+    expect(marker).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByText('A component that opposes current')).toBeInTheDocument();
+    expect(onFigureClick).not.toHaveBeenCalled();
+
+    fireEvent.click(marker);
+    expect(marker).toHaveAttribute('aria-pressed', 'false');
+  });
+
+  it('links to the glossary entry', () => {
+    renderFigure();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Component 1: Resistor' }));
+    fireEvent.click(screen.getByRole('button', { name: /resistor in glossary/i }));
+
+    expect(mockNavigateToGlossaryTerm).toHaveBeenCalledWith('term-r');
+    expect(mockNavigate).not.toHaveBeenCalled();
+  });
+
+  it('returns to the dashboard for the glossary from a question page', () => {
+    renderFigure('/questions/T6A01');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Component 1: Resistor' }));
+    fireEvent.click(screen.getByRole('button', { name: /resistor in glossary/i }));
+
+    expect(mockNavigateToGlossaryTerm).toHaveBeenCalledWith('term-r');
+    expect(mockNavigate).toHaveBeenCalledWith('/dashboard');
+  });
+
+  it('renders nothing for figures without hotspots', () => {
+    mockUseFigureHotspots.mockReturnValue({ data: [] });
+
+    renderFigure();
+
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+    expect(screen.queryByTestId('figure-hotspot-details')).not.toBeInTheDocument();
+  });
+});
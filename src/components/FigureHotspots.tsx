@@ -0,0 +1,119 @@
+import { useLocation, useNavigate } from "react-router-dom";
+import { BookText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { useAppNavigation } from "@/hooks/useAppNavigation";
+import { useFigureHotspots, type ActiveHotspot } from "@/hooks/useFigureHotspots";
+
+interface FigureHotspotMarkersProps {
+  figureReference: string;
+  poolVersion: string;
+  active: ActiveHotspot;
+}
+
+/**
+ * Numbered markers laid over a figure. Render inside a relatively positioned
+ * box that is exactly the size of the image.
+ */
+export function FigureHotspotMarkers({ figureReference, poolVersion, active }: FigureHotspotMarkersProps) {
+  const { data: hotspots = [] } = useFigureHotspots(figureReference, poolVersion);
+
+  return (
+    <>
+      {hotspots.map((hotspot) => (
+        <button
+          key={hotspot.id}
+          type="button"
+          aria-label={`Component ${hotspot.label}: ${hotspot.name}`}
+          aria-pressed={active.selectedId === hotspot.id}
+          className={cn(
+            "absolute z-10 -translate-x-1/2 -translate-y-1/2",
+            "flex h-6 min-w-6 items-center justify-center rounded-full px-1",
+            "border-2 border-background font-mono text-[11px] font-bold shadow-md transition-transform",
+            "focus:outline-none focus:ring-2 focus:ring-ring",
+            active.activeId === hotspot.id
+              ? "scale-125 bg-primary text-primary-foreground"
+              : "bg-primary/80 text-primary-foreground hover:scale-110"
+          )}
+          style={{ left: `${hotspot.x}%`, top: `${hotspot.y}%` }}
+          onMouseEnter={() => active.onHover(hotspot.id)}
+          onMouseLeave={() => active.onHover(null)}
+          onFocus={() => active.onHover(hotspot.id)}
+          onBlur={() => active.onHover(null)}
+          // Markers sit inside the clickable figure, which opens the lightbox
+          onClick={(e) => {
+            e.stopPropagation();
+            active.onSelect(hotspot.id);
+          }}
+          onKeyDown={(e) => e.stopPropagation()}
+        >
+          {hotspot.label}
+        </button>
+      ))}
+    </>
+  );
+}
+
+interface FigureHotspotDetailsProps {
+  figureReference: string;
+  poolVersion: string;
+  activeId: string | null;
+  className?: string;
+}
+
+/** What the active hotspot is, with a link to its glossary entry */
+export function FigureHotspotDetails({ figureReference, poolVersion, activeId, className }: FigureHotspotDetailsProps) {
+  const { data: hotspots = [] } = useFigureHotspots(figureReference, poolVersion);
+  const { navigateToGlossaryTerm } = useAppNavigation();
+  const navigate = useNavigate();
+  const { pathname } = useLocation();
+
+  if (hotspots.length === 0) return null;
+
+  const hotspot = hotspots.find((h) => h.id === activeId);
+
+  const openGlossary = (termId: string) => {
+    navigateToGlossaryTerm(termId);
+    // Question pages live outside the dashboard, which hosts the glossary
+    if (pathname !== '/dashboard') navigate('/dashboard');
+  };
+
+  return (
+    <div
+      className={cn("rounded-lg border border-border bg-secondary/30 px-3 py-2 text-sm", className)}
+      data-testid="figure-hotspot-details"
+      aria-live="polite"
+    >
+      {hotspot ? (
+        <div className="flex items-start justify-between gap-3">
+          <div>
+            <p className="font-medium text-foreground">
+              <span className="font-mono text-primary mr-2">{hotspot.label}</span>
+              {hotspot.name}
+            </p>
+            {(hotspot.description || hotspot.glossaryTerm) && (
+              <p className="text-muted-foreground">
+                {hotspot.description || hotspot.glossaryTerm?.definition}
+              </p>
+            )}
+          </div>
+          {hotspot.glossaryTerm && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="shrink-0 gap-1.5"
+              onClick={() => openGlossary(hotspot.glossaryTerm!.id)}
+            >
+              <BookText className="w-4 h-4" aria-hidden="true" />
+              {hotspot.glossaryTerm.term} in glossary
+            </Button>
+          )}
+        </div>
+      ) : (
+        <p className="text-muted-foreground">
+          Hover over or tap a number on the figure to see what each component is.
+        </p>
+      )}
+    </div>
+  );
+}
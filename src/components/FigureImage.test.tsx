@@ -17,6 +17,16 @@ vi.mock('./FigureLightbox', () => ({
   ) : null
 }));
 
+// Mock the hotspot layer, which fetches the figure's hotspots
+vi.mock('./FigureHotspots', () => ({
+  FigureHotspotMarkers: ({ figureReference, poolVersion }: { figureReference: string; poolVersion: string }) => (
+    <div data-testid="hotspot-markers">{figureReference} {poolVersion}</div>
+  ),
+  FigureHotspotDetails: ({ figureReference, poolVersion }: { figureReference: string; poolVersion: string }) => (
+    <div data-testid="hotspot-details">{figureReference} {poolVersion}</div>
+  ),
+}));
+
 describe('FigureImage', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -281,6 +291,52 @@ describe('FigureImage', () => {
     });
   });
 
+  describe('Hotspots', () => {
+    it('does not show hotspots until asked to', () => {
+      render(<FigureImage figureUrl="https://example.com/T-1.png" questionId="T6A01" figureReference="T-1" poolVersion="2022-2026" />);
+
+      fireEvent.load(screen.getByRole('img'));
+
+      expect(screen.queryByTestId('hotspot-markers')).not.toBeInTheDocument();
+      expect(screen.queryByTestId('hotspot-details')).not.toBeInTheDocument();
+    });
+
+    it('shows the figure\'s hotspots once the image has loaded', () => {
+      render(
+        <FigureImage
+          figureUrl="https://example.com/T-1.png"
+          questionId="T6A01"
+          figureReference="T-1"
+          poolVersion="2022-2026"
+          showHotspots
+        />
+      );
+
+      expect(screen.queryByTestId('hotspot-markers')).not.toBeInTheDocument();
+      expect(screen.getByTestId('hotspot-details')).toHaveTextContent('T-1 2022-2026');
+
+      fireEvent.load(screen.getByRole('img'));
+
+      expect(screen.getByTestId('hotspot-markers')).toHaveTextContent('T-1 2022-2026');
+    });
+
+    it('needs a figure reference to show hotspots', () => {
+      render(<FigureImage figureUrl="https://example.com/T-1.png" questionId="T6A01" showHotspots />);
+
+      fireEvent.load(screen.getByRole('img'));
+
+      expect(screen.queryByTestId('hotspot-markers')).not.toBeInTheDocument();
+    });
+
+    it('needs the pool to show hotspots', () => {
+      render(<FigureImage figureUrl="https://example.com/T-1.png" questionId="T6A01" figureReference="T-1" showHotspots />);
+
+      fireEvent.load(screen.getByRole('img'));
+
+      expect(screen.queryByTestId('hotspot-markers')).not.toBeInTheDocument();
+    });
+  });
+
   describe('Different Question IDs', () => {
     it('should work with Technician question IDs', () => {
       render(
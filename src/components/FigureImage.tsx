@@ -2,16 +2,25 @@ import { useState } from "react";
 import { Maximize2, ImageOff } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { FigureLightbox } from "@/components/FigureLightbox";
+import { FigureHotspotDetails, FigureHotspotMarkers } from "@/components/FigureHotspots";
+import { useActiveHotspot } from "@/hooks/useFigureHotspots";
 
 interface FigureImageProps {
   figureUrl: string | null | undefined;
   questionId: string;
+  /** Figure name such as "T-1", used with the pool to look up its hotspots */
+  figureReference?: string | null;
+  poolVersion?: string | null;
+  /** Show hotspots, typically once the question has been answered */
+  showHotspots?: boolean;
 }
 
-export function FigureImage({ figureUrl, questionId }: FigureImageProps) {
+export function FigureImage({ figureUrl, questionId, figureReference, poolVersion, showHotspots = false }: FigureImageProps) {
   const [isLightboxOpen, setIsLightboxOpen] = useState(false);
   const [imageError, setImageError] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
+  const activeHotspot = useActiveHotspot();
+  const hotspotFigure = showHotspots && figureReference && poolVersion ? { figureReference, poolVersion } : null;
 
   // Only render if figureUrl is provided
   if (!figureUrl) {
@@ -53,21 +62,27 @@ export function FigureImage({ figureUrl, questionId }: FigureImageProps) {
               <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
             </div>
           )}
-          <img
-            src={figureUrl}
-            alt={`Figure for question ${questionId}`}
-            className={cn(
-              "w-full h-auto object-contain",
-              "max-h-[200px] md:max-h-[300px]",
-              isLoading && "opacity-0"
+          {/* Sized to the image so hotspot percentages line up with it */}
+          <div className="relative mx-auto w-fit">
+            <img
+              src={figureUrl}
+              alt={`Figure for question ${questionId}`}
+              className={cn(
+                "block max-w-full h-auto object-contain",
+                "max-h-[200px] md:max-h-[300px]",
+                isLoading && "opacity-0"
+              )}
+              loading="lazy"
+              onLoad={() => setIsLoading(false)}
+              onError={() => {
+                setIsLoading(false);
+                setImageError(true);
+              }}
+            />
+            {hotspotFigure && !isLoading && (
+              <FigureHotspotMarkers {...hotspotFigure} active={activeHotspot} />
             )}
-            loading="lazy"
-            onLoad={() => setIsLoading(false)}
-            onError={() => {
-              setIsLoading(false);
-              setImageError(true);
-            }}
-          />
+          </div>
 
           {/* Expand button */}
           <button
@@ -88,6 +103,9 @@ export function FigureImage({ figureUrl, questionId }: FigureImageProps) {
             <Maximize2 className="w-4 h-4" aria-hidden="true" />
           </button>
         </div>
+        {hotspotFigure && (
+          <FigureHotspotDetails {...hotspotFigure} activeId={activeHotspot.activeId} className="mt-2" />
+        )}
       </div>
 
       <FigureLightbox
@@ -95,6 +113,7 @@ export function FigureImage({ figureUrl, questionId }: FigureImageProps) {
         onClose={() => setIsLightboxOpen(false)}
         figureUrl={figureUrl}
         questionId={questionId}
+        hotspotFigure={hotspotFigure}
       />
     </>
   );
@@ -1,15 +1,21 @@
 import * as DialogPrimitive from "@radix-ui/react-dialog";
 import { X } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { FigureHotspotDetails, FigureHotspotMarkers } from "@/components/FigureHotspots";
+import { useActiveHotspot } from "@/hooks/useFigureHotspots";
 
 interface FigureLightboxProps {
   isOpen: boolean;
   onClose: () => void;
   figureUrl: string;
   questionId: string;
+  /** Show the hotspots of this figure over the image */
+  hotspotFigure?: { figureReference: string; poolVersion: string } | null;
 }
 
-export function FigureLightbox({ isOpen, onClose, figureUrl, questionId }: FigureLightboxProps) {
+export function FigureLightbox({ isOpen, onClose, figureUrl, questionId, hotspotFigure }: FigureLightboxProps) {
+  const activeHotspot = useActiveHotspot();
+
   return (
     <DialogPrimitive.Root open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogPrimitive.Portal>
@@ -31,11 +37,23 @@ export function FigureLightbox({ isOpen, onClose, figureUrl, questionId }: Figur
             "focus:outline-none"
           )}
         >
-          <img
-            src={figureUrl}
-            alt={`Figure for question ${questionId}`}
-            className="max-w-[90vw] max-h-[85vh] object-contain rounded-lg"
-          />
+          <div className="relative">
+            <img
+              src={figureUrl}
+              alt={`Figure for question ${questionId}`}
+              className="block max-w-[90vw] max-h-[85vh] object-contain rounded-lg"
+            />
+            {hotspotFigure && (
+              <FigureHotspotMarkers {...hotspotFigure} active={activeHotspot} />
+            )}
+          </div>
+          {hotspotFigure && (
+            <FigureHotspotDetails
+              {...hotspotFigure}
+              activeId={activeHotspot.activeId}
+              className="mt-3 max-w-[90vw] bg-background"
+            />
+          )}
           <p className="mt-3 text-sm text-muted-foreground font-mono">
             {questionId}
           </p>
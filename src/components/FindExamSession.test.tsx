@@ -0,0 +1,195 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { FindExamSession } from './FindExamSession';
+
+const RALEIGH = { latitude: 35.7796, longitude: -78.6382 };
+
+const mockSessions = [
+  {
+    id: 'session-durham',
+    title: null,
+    exam_date: '2026-11-14',
+    exam_time: '10:00 AM',
+    location_name: 'Durham Library',
+    address: '300 N Roxboro St',
+    address_2: null,
+    address_3: null,
+    city: 'Durham',
+    state: 'NC',
+    zip: '27701',
+    latitude: 35.994,
+    longitude: -78.8986,
+    sponsor: 'Durham FM Association',
+    vec: 'W5YI',
+    walk_ins_allowed: true,
+    public_contact: null,
+    phone: null,
+    email: null,
+  },
+  {
+    id: 'session-raleigh',
+    title: null,
+    exam_date: '2026-11-07',
+    exam_time: null,
+    location_name: 'Raleigh Community Center',
+    address: '100 Main St',
+    address_2: null,
+    address_3: null,
+    city: 'Raleigh',
+    state: 'NC',
+    zip: '27601',
+    latitude: RALEIGH.latitude,
+    longitude: RALEIGH.longitude,
+    sponsor: null,
+    vec: 'ARRL/VEC',
+    walk_ins_allowed: false,
+    public_contact: 'Jane Doe',
+    phone: '555-0100',
+    email: null,
+  },
+];
+
+const mockMutate = vi.fn();
+const mockUseTargetExam = vi.fn();
+const mockUseAuth = vi.fn();
+
+vi.mock('@/hooks/useAuth', () => ({
+  useAuth: () => mockUseAuth(),
+}));
+
+vi.mock('@/hooks/useExamSessions', () => ({
+  useZipCoordinates: (zip: string) =>
+    zip === '27601'
+      ? { data: RALEIGH, isLoading: false, isError: false }
+      : zip === '99950'
+        ? { data: undefined, isLoading: false, isError: true }
+        : { data: undefined, isLoading: false, isError: false },
+  useExamSessionSearch: (origin: unknown) => ({
+    data: origin ? mockSessions : undefined,
+    isLoading: false,
+    error: null,
+  }),
+  useTargetExam: () => mockUseTargetExam(),
+  useLinkExamSession: () => ({ mutate: mockMutate, isPending: false }),
+}));
+
+vi.mock('framer-motion', () => ({
+  motion: {
+    div: ({ children, ...props }: React.HTMLAttributes<HTMLDivElement> & { children?: React.ReactNode }) => <div {...props}>{children}</div>,
+  },
+}));
+
+function searchZip(zip: string) {
+  fireEvent.change(screen.getByLabelText('ZIP code'), { target: { value: zip } });
+}
+
+describe('FindExamSession', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 9, 18, 12, 0));
+    mockUseAuth.mockReturnValue({ user: { id: 'user-123' } });
+    mockUseTargetExam.mockReturnValue({ targetExam: null, examDate: null, daysUntil: null });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('prompts for a ZIP code before searching', () => {
+    render(<FindExamSession testType="technician" />);
+
+    expect(screen.getByText('Find an Exam')).toBeInTheDocument();
+    expect(screen.getByText('Enter your ZIP code to find exam sessions near you.')).toBeInTheDocument();
+    expect(screen.queryAllByTestId('exam-session')).toHaveLength(0);
+  });
+
+  it('asks for a full ZIP code while typing', () => {
+    render(<FindExamSession testType="technician" />);
+    searchZip('276');
+
+    expect(screen.getByText('Enter a 5-digit ZIP code.')).toBeInTheDocument();
+  });
+
+  it('lists nearby sessions nearest first with distance, VEC and walk-in badges', () => {
+    render(<FindExamSession testType="technician" />);
+    searchZip('27601');
+
+    const cards = screen.getAllByTestId('exam-session');
+    expect(cards).toHaveLength(2);
+    expect(cards[0]).toHaveTextContent('Raleigh Community Center');
+    expect(cards[0]).toHaveTextContent('< 1 mi');
+    expect(cards[0]).toHaveTextContent('Jane Doe · 555-0100');
+    expect(cards[1]).toHaveTextContent('Durham Library');
+    expect(cards[1]).toHaveTextContent('21 mi');
+    expect(cards[1]).toHaveTextContent('Walk-ins OK');
+    expect(screen.getByText('2 sessions found')).toBeInTheDocument();
+  });
+
+  it('filters to walk-in sessions', () => {
+    render(<FindExamSession testType="technician" />);
+    searchZip('27601');
+
+    fireEvent.click(screen.getByRole('switch', { name: 'Walk-ins allowed only' }));
+
+    const cards = screen.getAllByTestId('exam-session');
+    expect(cards).toHaveLength(1);
+    expect(cards[0]).toHaveTextContent('Durham Library');
+  });
+
+  it('filters by date range', () => {
+    render(<FindExamSession testType="technician" />);
+    searchZip('27601');
+
+    fireEvent.change(screen.getByLabelText('To'), { target: { value: '2026-11-10' } });
+
+    const cards = screen.getAllByTestId('exam-session');
+    expect(cards).toHaveLength(1);
+    expect(cards[0]).toHaveTextContent('Raleigh Community Center');
+  });
+
+  it('shows a message when no sessions are near the ZIP code', () => {
+    render(<FindExamSession testType="technician" />);
+    searchZip('99950');
+
+    expect(screen.getByText("We couldn't find any exam sessions near that ZIP code.")).toBeInTheDocument();
+  });
+
+  it('links a session as the learner\'s exam', () => {
+    render(<FindExamSession testType="general" />);
+    searchZip('27601');
+
+    fireEvent.click(screen.getAllByRole('button', { name: 'Set as my exam' })[0]);
+
+    expect(mockMutate).toHaveBeenCalledWith({
+      session: expect.objectContaining({ id: 'session-raleigh' }),
+      testType: 'general',
+    });
+  });
+
+  it('marks the linked session and shows the countdown', () => {
+    mockUseTargetExam.mockReturnValue({
+      targetExam: { exam_session_id: 'session-raleigh', exam_session: mockSessions[1] },
+      examDate: '2026-11-07',
+      daysUntil: 20,
+    });
+
+    render(<FindExamSession testType="technician" />);
+    searchZip('27601');
+
+    expect(screen.getByTestId('exam-countdown')).toHaveTextContent('20 days until your exam');
+    expect(screen.getByTestId('exam-countdown')).toHaveTextContent('Raleigh Community Center');
+    expect(screen.getByRole('button', { name: 'Your exam' })).toBeDisabled();
+  });
+
+  it('asks guests to sign in before saving a session', () => {
+    mockUseAuth.mockReturnValue({ user: null });
+
+    render(<FindExamSession testType="technician" />);
+    searchZip('27601');
+
+    const buttons = screen.getAllByRole('button', { name: 'Sign in to save' });
+    expect(buttons).toHaveLength(2);
+    expect(buttons[0]).toBeDisabled();
+  });
+});
@@ -0,0 +1,302 @@
+import { useState, useMemo } from "react";
+import { motion } from "framer-motion";
+import { CalendarCheck, Clock, Loader2, MapPin, Navigation, Search } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { PageContainer } from "@/components/ui/page-container";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  useZipCoordinates,
+  useExamSessionSearch,
+  useTargetExam,
+  useLinkExamSession,
+  ExamSession,
+} from "@/hooks/useExamSessions";
+import {
+  DEFAULT_RADIUS_MILES,
+  RADIUS_OPTIONS,
+  filterExamSessions,
+  getVecOptions,
+  isValidZip,
+} from "@/lib/examSessionSearch";
+import { toDateKey } from "@/lib/poolConfig";
+import { TestType } from "@/types/navigation";
+
+interface FindExamSessionProps {
+  testType: TestType;
+}
+
+/** How far ahead the date filter looks by default */
+const DEFAULT_SEARCH_DAYS = 90;
+
+function formatExamDate(examDate: string): string {
+  const [year, month, day] = examDate.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function formatCountdown(daysUntil: number): string {
+  if (daysUntil === 0) return 'Your exam is today!';
+  if (daysUntil === 1) return '1 day until your exam';
+  return `${daysUntil} days until your exam`;
+}
+
+function formatAddress(session: ExamSession): string {
+  const street = [session.address, session.address_2, session.address_3].filter(Boolean).join(', ');
+  const cityLine = `${session.city}, ${session.state} ${session.zip}`;
+  return street ? `${street}, ${cityLine}` : cityLine;
+}
+
+export function FindExamSession({ testType }: FindExamSessionProps) {
+  const { user } = useAuth();
+  const [zip, setZip] = useState('');
+  const [radiusMiles, setRadiusMiles] = useState<number>(DEFAULT_RADIUS_MILES);
+  const [fromDate, setFromDate] = useState(() => toDateKey(new Date()));
+  const [toDate, setToDate] = useState(() => {
+    const end = new Date();
+    end.setDate(end.getDate() + DEFAULT_SEARCH_DAYS);
+    return toDateKey(end);
+  });
+  const [vec, setVec] = useState<string | null>(null);
+  const [walkInsOnly, setWalkInsOnly] = useState(false);
+
+  const zipLookup = useZipCoordinates(zip);
+  const origin = zipLookup.data;
+  const { data: sessions, isLoading: sessionsLoading, error: sessionsError } =
+    useExamSessionSearch(origin, radiusMiles, fromDate, toDate);
+  const { targetExam, examDate, daysUntil } = useTargetExam();
+  const linkSession = useLinkExamSession();
+
+  const vecOptions = useMemo(() => getVecOptions(sessions ?? []), [sessions]);
+
+  const results = useMemo(
+    () =>
+      filterExamSessions(
+        sessions ?? [],
+        { fromDate, toDate, vec: vec ?? undefined, walkInsOnly, radiusMiles },
+        origin
+      ),
+    [sessions, fromDate, toDate, vec, walkInsOnly, radiusMiles, origin]
+  );
+
+  const linkedSessionId = targetExam?.exam_session_id ?? null;
+  const zipEntered = zip.trim().length > 0;
+  const searching = zipLookup.isLoading || sessionsLoading;
+
+  return (
+    <PageContainer width="standard" mobileNavPadding contentClassName="space-y-6">
+      <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }}>
+        <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <MapPin className="w-6 h-6" />
+          Find an Exam
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Search for exam sessions near you and save one as your exam date.
+        </p>
+      </motion.div>
+
+      {/* Countdown to the learner's exam */}
+      {examDate && daysUntil !== null && (
+        <Card className="border-primary/30 bg-primary/5" data-testid="exam-countdown">
+          <CardContent className="pt-6 flex items-start gap-3">
+            <CalendarCheck className="w-5 h-5 text-primary mt-0.5 shrink-0" />
+            <div>
+              <p className="font-medium text-foreground">
+                {daysUntil >= 0 ? formatCountdown(daysUntil) : 'Your exam date has passed'}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {formatExamDate(examDate)}
+                {targetExam?.exam_session &&
+                  ` · ${targetExam.exam_session.location_name || targetExam.exam_session.city}`}
+              </p>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6 grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="exam-zip">ZIP code</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                id="exam-zip"
+                inputMode="numeric"
+                placeholder="e.g. 27601"
+                value={zip}
+                onChange={(e) => setZip(e.target.value)}
+                className="pl-10"
+                maxLength={10}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="exam-radius">Distance</Label>
+            <Select value={String(radiusMiles)} onValueChange={(value) => setRadiusMiles(Number(value))}>
+              <SelectTrigger id="exam-radius">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RADIUS_OPTIONS.map((miles) => (
+                  <SelectItem key={miles} value={String(miles)}>
+                    Within {miles} miles
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="exam-from">From</Label>
+            <Input
+              id="exam-from"
+              type="date"
+              value={fromDate}
+              onChange={(e) => e.target.value && setFromDate(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="exam-to">To</Label>
+            <Input
+              id="exam-to"
+              type="date"
+              value={toDate}
+              min={fromDate}
+              onChange={(e) => e.target.value && setToDate(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="exam-vec">VEC</Label>
+            <Select value={vec || "all"} onValueChange={(value) => setVec(value === "all" ? null : value)}>
+              <SelectTrigger id="exam-vec">
+                <SelectValue placeholder="Any VEC" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any VEC</SelectItem>
+                {vecOptions.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-center justify-between gap-2 sm:pt-7">
+            <Label htmlFor="exam-walk-ins">Walk-ins allowed only</Label>
+            <Switch id="exam-walk-ins" checked={walkInsOnly} onCheckedChange={setWalkInsOnly} />
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Results */}
+      {!zipEntered && (
+        <p className="text-center text-muted-foreground py-8">
+          Enter your ZIP code to find exam sessions near you.
+        </p>
+      )}
+
+      {zipEntered && !isValidZip(zip) && (
+        <p className="text-center text-muted-foreground py-8">
+          Enter a 5-digit ZIP code.
+        </p>
+      )}
+
+      {isValidZip(zip) && zipLookup.isError && (
+        <p className="text-center text-muted-foreground py-8">
+          We couldn't find any exam sessions near that ZIP code.
+        </p>
+      )}
+
+      {sessionsError && (
+        <p className="text-center text-destructive py-8">
+          Failed to load exam sessions. Please try again.
+        </p>
+      )}
+
+      {searching && isValidZip(zip) && !zipLookup.isError && (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" aria-label="Searching" />
+        </div>
+      )}
+
+      {origin && !searching && !sessionsError && (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">
+            {results.length} session{results.length !== 1 ? 's' : ''} found
+          </p>
+
+          {results.map((session) => {
+            const isLinked = session.id === linkedSessionId;
+            return (
+              <Card key={session.id} data-testid="exam-session">
+                <CardContent className="pt-6 flex flex-col sm:flex-row sm:items-start justify-between gap-4">
+                  <div className="space-y-1 min-w-0">
+                    <p className="font-medium text-foreground">
+                      {formatExamDate(session.exam_date)}
+                      {session.exam_time && (
+                        <span className="text-muted-foreground font-normal">
+                          {' '}
+                          <Clock className="inline w-3.5 h-3.5 -mt-0.5" /> {session.exam_time}
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-sm text-foreground">
+                      {session.location_name || session.title || session.sponsor || 'Exam session'}
+                    </p>
+                    <p className="text-sm text-muted-foreground">{formatAddress(session)}</p>
+                    <div className="flex flex-wrap items-center gap-2 pt-1">
+                      {session.distanceMiles !== null && (
+                        <Badge variant="secondary" className="gap-1">
+                          <Navigation className="w-3 h-3" />
+                          {session.distanceMiles < 1 ? '< 1' : Math.round(session.distanceMiles)} mi
+                        </Badge>
+                      )}
+                      {session.vec && <Badge variant="outline">{session.vec}</Badge>}
+                      {session.walk_ins_allowed && <Badge variant="outline">Walk-ins OK</Badge>}
+                    </div>
+                    {(session.public_contact || session.phone || session.email) && (
+                      <p className="text-xs text-muted-foreground pt-1">
+                        {[session.public_contact, session.phone, session.email].filter(Boolean).join(' · ')}
+                      </p>
+                    )}
+                  </div>
+
+                  <Button
+                    size="sm"
+                    variant={isLinked ? "secondary" : "default"}
+                    disabled={!user || isLinked || linkSession.isPending}
+                    onClick={() => linkSession.mutate({ session, testType })}
+                    className="shrink-0"
+                  >
+                    {isLinked ? 'Your exam' : user ? 'Set as my exam' : 'Sign in to save'}
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </PageContainer>
+  );
+}
@@ -0,0 +1,168 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { BookOpen } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  FORMULA_MODES,
+  UNIT_PREFIXES,
+  applyPrefix,
+  formatVariableValue,
+  getFormulaMode,
+  type FormulaMode,
+  type FormulaModeId,
+  type UnitPrefix,
+} from "@/lib/electronicsFormulas";
+import type { TestType } from "@/types/navigation";
+
+interface FormulaCalculatorProps {
+  /** Exam of the question being studied; picks the subelement to practice */
+  testType?: TestType;
+}
+
+function defaultPrefixes(mode: FormulaMode): Record<string, UnitPrefix> {
+  return Object.fromEntries(mode.inputs.map((v) => [v.key, v.defaultPrefix]));
+}
+
+/**
+ * Guided formula modes for the calculator: fill in the known values and see
+ * the answer with each step worked out.
+ */
+export function FormulaCalculator({ testType }: FormulaCalculatorProps) {
+  const [modeId, setModeId] = useState<FormulaModeId>("ohms-law");
+  const [values, setValues] = useState<Record<string, string>>({});
+  const [prefixes, setPrefixes] = useState<Record<string, UnitPrefix>>(() =>
+    defaultPrefixes(getFormulaMode("ohms-law"))
+  );
+
+  const mode = getFormulaMode(modeId);
+  const subelement = testType ? mode.subelements[testType] : undefined;
+
+  const changeMode = (id: FormulaModeId) => {
+    setModeId(id);
+    setValues({});
+    setPrefixes(defaultPrefixes(getFormulaMode(id)));
+  };
+
+  const result = useMemo(() => {
+    const inputs: Record<string, number> = {};
+    for (const v of mode.inputs) {
+      const raw = values[v.key]?.trim();
+      if (!raw) continue;
+      const parsed = parseFloat(raw);
+      if (Number.isNaN(parsed)) continue;
+      inputs[v.key] = v.prefixable ? applyPrefix(parsed, prefixes[v.key] ?? "") : parsed;
+    }
+    if (Object.keys(inputs).length < mode.requiredInputs) return null;
+    return mode.solve(inputs);
+  }, [mode, values, prefixes]);
+
+  return (
+    <div className="space-y-2">
+      <Select value={modeId} onValueChange={(id) => changeMode(id as FormulaModeId)}>
+        <SelectTrigger className="h-8 text-xs" aria-label="Formula">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {FORMULA_MODES.map((m) => (
+            <SelectItem key={m.id} value={m.id} className="text-xs">
+              {m.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <p className="font-mono text-xs text-muted-foreground" data-testid="formula-expression">
+        {mode.formula}
+      </p>
+      {mode.id === "ohms-law" && (
+        <p className="text-xs text-muted-foreground">Enter any two values.</p>
+      )}
+
+      <div className="space-y-1">
+        {mode.inputs.map((v) => (
+          <div key={v.key} className="flex items-center gap-1">
+            <label htmlFor={`formula-${v.key}`} className="w-8 shrink-0 font-mono text-xs">
+              {v.symbol}
+            </label>
+            <Input
+              id={`formula-${v.key}`}
+              type="number"
+              inputMode="decimal"
+              step="any"
+              value={values[v.key] ?? ""}
+              onChange={(e) => setValues((prev) => ({ ...prev, [v.key]: e.target.value }))}
+              className="h-8 text-xs"
+              aria-label={v.label}
+            />
+            {v.prefixable ? (
+              <Select
+                value={prefixes[v.key] || "base"}
+                onValueChange={(p) =>
+                  setPrefixes((prev) => ({ ...prev, [v.key]: (p === "base" ? "" : p) as UnitPrefix }))
+                }
+              >
+                <SelectTrigger className="h-8 w-16 shrink-0 px-2 text-xs" aria-label={`${v.label} unit`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {UNIT_PREFIXES.map((p) => (
+                    // Radix Select reserves the empty string, so base units use "base"
+                    <SelectItem key={p.symbol || "base"} value={p.symbol || "base"} className="text-xs">
+                      {p.symbol}
+                      {v.unit}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <span className="w-16 shrink-0 text-center text-xs text-muted-foreground">{v.unit}</span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {result && "error" in result && (
+        <p className="text-xs text-destructive" role="alert">
+          {result.error}
+        </p>
+      )}
+
+      {result?.ok && (
+        <div className="rounded-md bg-secondary p-2 space-y-1" role="status" aria-live="polite">
+          {mode.outputs
+            .filter((v) => result.outputs[v.key] !== undefined)
+            .map((v) => (
+              <div key={v.key} className="flex justify-between font-mono text-sm">
+                <span>{v.label}</span>
+                <span>{formatVariableValue(v, result.outputs[v.key])}</span>
+              </div>
+            ))}
+          <ol className="border-t border-border pt-1 space-y-0.5" aria-label="Worked steps">
+            {result.steps.map((step, i) => (
+              <li key={i} className="font-mono text-[11px] text-muted-foreground break-words">
+                {step}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {subelement && (
+        <Button variant="link" size="sm" className="h-auto p-0 text-xs" asChild>
+          <Link to={`/dashboard?view=subelement-practice&subelement=${subelement}`}>
+            <BookOpen className="w-3 h-3 mr-1" aria-hidden="true" />
+            Practice {subelement} questions
+          </Link>
+        </Button>
+      )}
+    </div>
+  );
+}
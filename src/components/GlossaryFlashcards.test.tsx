@@ -8,19 +8,54 @@ import { GlossaryFlashcards } from './GlossaryFlashcards';
 // Mock Supabase
 const mockSelect = vi.fn();
 const mockOrder = vi.fn();
+const mockDeckOrder = vi.fn();
+const mockProgressEq = vi.fn();
+const mockUpsert = vi.fn();
 
 vi.mock('@/integrations/supabase/client', () => ({
   supabase: {
-    from: vi.fn(() => ({
-      select: mockSelect,
-    })),
+    from: vi.fn((table: string) => {
+      if (table === 'glossary_decks') {
+        return { select: () => ({ order: () => ({ order: mockDeckOrder }) }) };
+      }
+      if (table === 'glossary_progress') {
+        return {
+          select: () => ({
+            eq: (...args: unknown[]) => {
+              const result = mockProgressEq(...args);
+              return Object.assign(Promise.resolve(result), {
+                in: () => Promise.resolve({ data: [], error: null }),
+              });
+            },
+          }),
+          upsert: mockUpsert,
+        };
+      }
+      return { select: mockSelect };
+    }),
   },
 }));
 
+let mockUser: { id: string } | null = null;
+vi.mock('@/hooks/useAuth', () => ({
+  useAuth: () => ({ user: mockUser }),
+}));
+
 const mockTerms = [
-  { id: '1', term: 'Antenna', definition: 'Device for transmitting/receiving radio waves', created_at: '2024-01-01' },
-  { id: '2', term: 'Band', definition: 'A range of frequencies', created_at: '2024-01-01' },
-  { id: '3', term: 'CW', definition: 'Continuous Wave (Morse code)', created_at: '2024-01-01' },
+  { id: '1', term: 'Antenna', definition: 'Device for transmitting/receiving radio waves', deck_id: null, created_at: '2024-01-01' },
+  { id: '2', term: 'Band', definition: 'A range of frequencies', deck_id: null, created_at: '2024-01-01' },
+  { id: '3', term: 'CW', definition: 'Continuous Wave (Morse code)', deck_id: null, created_at: '2024-01-01' },
+];
+
+const qCodeTerms = [
+  { id: 'q1', term: 'QTH', definition: 'What is your location?', deck_id: 'deck-q' },
+  { id: 'q2', term: 'QSL', definition: 'Can you acknowledge receipt?', deck_id: 'deck-q' },
+  { id: 'q3', term: 'QRM', definition: 'Is my transmission being interfered with?', deck_id: 'deck-q' },
+];
+
+const mockDecks = [
+  { id: 'deck-q', slug: 'q-codes', name: 'Q-Codes', description: null, display_order: 1 },
+  { id: 'deck-empty', slug: 'prosigns', name: 'Prosigns', description: null, display_order: 2 },
 ];
 
 function createWrapper() {
@@ -42,9 +77,14 @@ describe('GlossaryFlashcards', () => {
   beforeEach(() => {
     vi.clearAllMocks();
 
+    mockUser = null;
+
     // Set up mock chain
     mockOrder.mockResolvedValue({ data: mockTerms, error: null });
     mockSelect.mockReturnValue({ order: mockOrder });
+    mockDeckOrder.mockResolvedValue({ data: [], error: null });
+    mockProgressEq.mockReturnValue({ data: [], error: null });
+    mockUpsert.mockReturnValue({ select: () => Promise.resolve({ data: [], error: null }) });
   });
 
   describe('Loading State', () => {
@@ -314,4 +354,96 @@ describe('GlossaryFlashcards', () => {
       });
     });
   });
+
+  describe('Decks', () => {
+    beforeEach(() => {
+      mockOrder.mockResolvedValue({ data: [...mockTerms, ...qCodeTerms], error: null });
+      mockDeckOrder.mockResolvedValue({ data: mockDecks, error: null });
+    });
+
+    it('lists decks that have terms with their mastery', async () => {
+      mockUser = { id: 'user-1' };
+      mockProgressEq.mockReturnValue({
+        data: [{ term_id: 'q1', times_seen: 3, times_correct: 3, mastered: true, last_seen_at: null }],
+        error: null,
+      });
+
+      render(<GlossaryFlashcards {...defaultProps} />, { wrapper: createWrapper() });
+
+      const deckButton = await screen.findByRole('button', { name: /q-codes/i });
+      expect(deckButton).toHaveTextContent('1/3 mastered');
+      expect(screen.getByRole('button', { name: /all terms/i })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.queryByRole('button', { name: /prosigns/i })).not.toBeInTheDocument();
+    });
+
+    it('studies only the selected deck', async () => {
+      const user = userEvent.setup();
+
+      render(<GlossaryFlashcards {...defaultProps} />, { wrapper: createWrapper() });
+
+      await user.click(await screen.findByRole('button', { name: /q-codes/i }));
+      expect(screen.getByText('3 TERMS LOADED')).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: 'Multiple Choice' }));
+      await user.click(screen.getByRole('button', { name: /start studying/i }));
+
+      // Options are the definitions of the other Q-codes
+      for (const term of qCodeTerms) {
+        expect(screen.getByRole('button', { name: term.definition })).toBeInTheDocument();
+      }
+    });
+  });
+
+  describe('Typed Recall', () => {
+    it('accepts a close spelling and records the answer', async () => {
+      const user = userEvent.setup();
+      mockUser = { id: 'user-1' };
+      mockOrder.mockResolvedValue({ data: [mockTerms[0]], error: null });
+
+      render(<GlossaryFlashcards {...defaultProps} />, { wrapper: createWrapper() });
+
+      await user.click(await screen.findByRole('button', { name: 'Type the Term' }));
+      await user.click(screen.getByRole('button', { name: /start studying/i }));
+
+      expect(screen.getByText(mockTerms[0].definition)).toBeInTheDocument();
+      await user.type(screen.getByLabelText('Your answer'), 'Antena');
+      await user.click(screen.getByRole('button', { name: /check/i }));
+
+      expect(screen.getByTestId('glossary-feedback')).toHaveTextContent('Close enough! It\'s spelled "Antenna".');
+      await waitFor(() => {
+        expect(mockUpsert).toHaveBeenCalledWith(
+          [expect.objectContaining({ user_id: 'user-1', term_id: '1', times_seen: 1, times_correct: 1 })],
+          { onConflict: 'user_id,term_id' }
+        );
+      });
+
+      await user.click(screen.getByRole('button', { name: /finish/i }));
+      expect(screen.getByText('Session Complete')).toBeInTheDocument();
+    });
+
+    it('shows the answer after a miss', async () => {
+      const user = userEvent.setup();
+      mockOrder.mockResolvedValue({ data: [mockTerms[2]], error: null });
+
+      render(<GlossaryFlashcards {...defaultProps} />, { wrapper: createWrapper() });
+
+      await user.click(await screen.findByRole('button', { name: 'Type the Term' }));
+      await user.click(screen.getByRole('button', { name: /start studying/i }));
+      await user.type(screen.getByLabelText('Your answer'), 'SSB');
+      await user.click(screen.getByRole('button', { name: /check/i }));
+
+      expect(screen.getByTestId('glossary-feedback')).toHaveTextContent('The answer is "CW".');
+      expect(mockUpsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Multiple Choice', () => {
+    it('is unavailable with a single term', async () => {
+      mockOrder.mockResolvedValue({ data: [mockTerms[0]], error: null });
+
+      render(<GlossaryFlashcards {...defaultProps} />, { wrapper: createWrapper() });
+
+      expect(await screen.findByRole('button', { name: 'Multiple Choice' })).toBeDisabled();
+    });
+  });
 });
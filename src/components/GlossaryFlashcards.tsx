@@ -1,13 +1,31 @@
 import { useState, useMemo, useCallback } from "react";
-import { ArrowLeft, RotateCcw, Shuffle, ChevronLeft, ChevronRight, Zap, Radio, Waves } from "lucide-react";
+import { ArrowLeft, RotateCcw, Shuffle, ChevronLeft, ChevronRight, Zap, Radio, Waves, Check, ArrowRight } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { useQuery } from "@tanstack/react-query";
-import { supabase } from "@/integrations/supabase/client";
+import { Input } from "@/components/ui/input";
+import { useGlossaryTerms, type GlossaryTerm } from "@/hooks/useGlossaryTerms";
+import { useGlossaryDecks, useGlossaryProgress, useRecordGlossaryAnswers } from "@/hooks/useGlossaryDecks";
+import { useAuth } from "@/hooks/useAuth";
 import { cn } from "@/lib/utils";
+import {
+  buildChoices,
+  canBuildChoices,
+  checkTypedAnswer,
+  deckProgress,
+  orderForStudy,
+  type GlossaryDrillMode,
+  type GlossaryTermProgress,
+} from "@/lib/glossaryDrill";
 import { motion, AnimatePresence } from "framer-motion";
 import { PageContainer } from "@/components/ui/page-container";
 
-type FlashcardMode = 'term-to-definition' | 'definition-to-term';
+const MODES: { id: GlossaryDrillMode; label: string }[] = [
+  { id: 'term-to-definition', label: 'Term → Definition' },
+  { id: 'definition-to-term', label: 'Definition → Term' },
+  { id: 'typed', label: 'Type the Term' },
+  { id: 'multiple-choice', label: 'Multiple Choice' },
+];
+
+const EMPTY_PROGRESS = new Map<string, GlossaryTermProgress>();
 
 interface GlossaryFlashcardsProps {
   onBack: () => void;
@@ -18,57 +36,89 @@ interface CardStats {
   unknown: Set<string>;
 }
 
-interface GlossaryTerm {
-  id: string;
-  term: string;
-  definition: string;
-  created_at: string;
+/** Outcome of a typed or multiple-choice answer, shown until the next card */
+interface AnswerFeedback {
+  correct: boolean;
+  closeMatch: boolean;
+  /** Term whose definition was picked (multiple choice) */
+  chosenId?: string;
 }
 
 export function GlossaryFlashcards({ onBack }: GlossaryFlashcardsProps) {
-  const [mode, setMode] = useState<FlashcardMode>('term-to-definition');
+  const [mode, setMode] = useState<GlossaryDrillMode>('term-to-definition');
+  const [deckId, setDeckId] = useState<string | null>(null);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [isFlipped, setIsFlipped] = useState(false);
   const [orderedTerms, setOrderedTerms] = useState<GlossaryTerm[]>([]);
   const [stats, setStats] = useState<CardStats>({ known: new Set(), unknown: new Set() });
   const [hasStarted, setHasStarted] = useState(false);
+  const [isFinished, setIsFinished] = useState(false);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [feedback, setFeedback] = useState<AnswerFeedback | null>(null);
+
+  const { user } = useAuth();
+  const { data: terms = [], isLoading } = useGlossaryTerms();
+  const { data: decks = [] } = useGlossaryDecks();
+  const { data: progress = EMPTY_PROGRESS } = useGlossaryProgress();
+  const recordAnswers = useRecordGlossaryAnswers();
+
+  const isAnswerMode = mode === 'typed' || mode === 'multiple-choice';
+
+  // "All Terms" plus each deck that has terms
+  const deckOptions = useMemo(
+    () => [
+      { id: null as string | null, name: 'All Terms', terms },
+      ...decks
+        .map((deck) => ({ id: deck.id, name: deck.name, terms: terms.filter((t) => t.deck_id === deck.id) }))
+        .filter((option) => option.terms.length > 0),
+    ],
+    [decks, terms]
+  );
 
-  const { data: terms = [], isLoading } = useQuery({
-    queryKey: ['glossary-terms'],
-    queryFn: async () => {
-      const { data, error } = await supabase
-        .from('glossary_terms')
-        .select('*')
-        .order('term', { ascending: true });
+  const deckTerms = useMemo(
+    () => deckOptions.find((option) => option.id === deckId)?.terms ?? terms,
+    [deckOptions, deckId, terms]
+  );
+  const multipleChoiceAvailable = canBuildChoices(deckTerms);
 
-      if (error) throw error;
-      return data as GlossaryTerm[];
+  const selectDeck = (id: string | null) => {
+    setDeckId(id);
+    const nextTerms = deckOptions.find((option) => option.id === id)?.terms ?? terms;
+    if (mode === 'multiple-choice' && !canBuildChoices(nextTerms)) {
+      setMode('term-to-definition');
     }
-  });
+  };
 
   const startStudy = useCallback(() => {
-    const termsToStudy = [...terms];
-    for (let i = termsToStudy.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [termsToStudy[i], termsToStudy[j]] = [termsToStudy[j], termsToStudy[i]];
-    }
-
-    setOrderedTerms(termsToStudy);
+    setOrderedTerms(orderForStudy(deckTerms, progress));
     setCurrentIndex(0);
     setIsFlipped(false);
     setStats({ known: new Set(), unknown: new Set() });
+    setTypedAnswer('');
+    setFeedback(null);
+    setIsFinished(false);
     setHasStarted(true);
-  }, [terms, mode]);
+  }, [deckTerms, progress]);
 
   const currentTerm = useMemo(() => {
     if (!hasStarted || orderedTerms.length === 0) return null;
     return orderedTerms[currentIndex];
   }, [orderedTerms, currentIndex, hasStarted]);
 
+  // Options are drawn once per card so they don't reshuffle on re-render
+  const choices = useMemo(
+    () => (mode === 'multiple-choice' && currentTerm ? buildChoices(currentTerm, deckTerms) : []),
+    [mode, currentTerm, deckTerms]
+  );
+
   const handleNext = () => {
     if (currentIndex < orderedTerms.length - 1) {
       setCurrentIndex(prev => prev + 1);
       setIsFlipped(false);
+      setTypedAnswer('');
+      setFeedback(null);
+    } else if (isAnswerMode) {
+      setIsFinished(true);
     }
   };
 
@@ -79,36 +129,58 @@ export function GlossaryFlashcards({ onBack }: GlossaryFlashcardsProps) {
     }
   };
 
-  const handleMarkKnown = () => {
-    if (!currentTerm) return;
+  const recordResult = (termId: string, correct: boolean) => {
     setStats(prev => {
       const newKnown = new Set(prev.known);
       const newUnknown = new Set(prev.unknown);
-      newKnown.add(currentTerm.id);
-      newUnknown.delete(currentTerm.id);
+      if (correct) {
+        newKnown.add(termId);
+        newUnknown.delete(termId);
+      } else {
+        newUnknown.add(termId);
+        newKnown.delete(termId);
+      }
       return { known: newKnown, unknown: newUnknown };
     });
+    if (user) {
+      recordAnswers.mutate([{ termId, correct }]);
+    }
+  };
+
+  const handleMarkKnown = () => {
+    if (!currentTerm) return;
+    recordResult(currentTerm.id, true);
     handleNext();
   };
 
   const handleMarkUnknown = () => {
     if (!currentTerm) return;
-    setStats(prev => {
-      const newKnown = new Set(prev.known);
-      const newUnknown = new Set(prev.unknown);
-      newUnknown.add(currentTerm.id);
-      newKnown.delete(currentTerm.id);
-      return { known: newKnown, unknown: newUnknown };
-    });
+    recordResult(currentTerm.id, false);
     handleNext();
   };
 
+  const handleCheckTyped = () => {
+    if (!currentTerm || feedback || !typedAnswer.trim()) return;
+    const result = checkTypedAnswer(typedAnswer, currentTerm.term);
+    setFeedback(result);
+    recordResult(currentTerm.id, result.correct);
+  };
+
+  const handleChoose = (choice: GlossaryTerm) => {
+    if (!currentTerm || feedback) return;
+    const correct = choice.id === currentTerm.id;
+    setFeedback({ correct, closeMatch: false, chosenId: choice.id });
+    recordResult(currentTerm.id, correct);
+  };
+
   const sessionProgress = orderedTerms.length > 0
     ? ((stats.known.size + stats.unknown.size) / orderedTerms.length) * 100
     : 0;
 
-  const isComplete = hasStarted && currentIndex === orderedTerms.length - 1 &&
-    (stats.known.has(currentTerm?.id || '') || stats.unknown.has(currentTerm?.id || ''));
+  const isComplete = hasStarted && (isAnswerMode
+    ? isFinished
+    : currentIndex === orderedTerms.length - 1 &&
+      (stats.known.has(currentTerm?.id || '') || stats.unknown.has(currentTerm?.id || '')));
 
   // Loading state
   if (isLoading) {
@@ -156,10 +228,58 @@ export function GlossaryFlashcards({ onBack }: GlossaryFlashcardsProps) {
               <Waves className="w-6 h-6 text-primary" />
             </div>
             <p className="text-muted-foreground font-mono text-base">
-              {terms.length} TERMS LOADED
+              {deckTerms.length} TERMS LOADED
             </p>
           </motion.div>
 
+          {/* Deck Selection */}
+          {deckOptions.length > 1 && (
+            <motion.div
+              className="w-full max-w-sm mb-8"
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.5, delay: 0.05 }}
+            >
+              <div className="text-sm font-mono text-muted-foreground mb-3 text-center uppercase tracking-wider">
+                Select Deck
+              </div>
+              <div className="space-y-1.5">
+                {deckOptions.map((option) => {
+                  const summary = deckProgress(option.terms, progress);
+                  const selected = deckId === option.id;
+                  return (
+                    <button
+                      key={option.id ?? 'all'}
+                      onClick={() => selectDeck(option.id)}
+                      aria-pressed={selected}
+                      className={cn(
+                        "w-full rounded-lg border px-4 py-2.5 text-left transition-colors",
+                        selected
+                          ? "border-primary bg-primary/10"
+                          : "border-border bg-secondary/30 hover:border-primary/40"
+                      )}
+                    >
+                      <div className="flex items-center justify-between text-sm">
+                        <span className="font-medium text-foreground">{option.name}</span>
+                        <span className="font-mono text-xs text-muted-foreground">
+                          {user ? `${summary.mastered}/${summary.total} mastered` : `${summary.total} terms`}
+                        </span>
+                      </div>
+                      {user && (
+                        <div className="h-1 bg-secondary rounded-full overflow-hidden mt-2">
+                          <div
+                            className="h-full bg-success rounded-full"
+                            style={{ width: `${summary.total > 0 ? (summary.mastered / summary.total) * 100 : 0}%` }}
+                          />
+                        </div>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+            </motion.div>
+          )}
+
           {/* Mode Selection - styled like radio frequency selector */}
           <motion.div
             className="w-full max-w-sm mb-10"
@@ -170,40 +290,28 @@ export function GlossaryFlashcards({ onBack }: GlossaryFlashcardsProps) {
             <div className="text-sm font-mono text-muted-foreground mb-3 text-center uppercase tracking-wider">
               Select Mode
             </div>
-            <div className="relative bg-secondary/50 rounded-xl p-1.5 border border-border">
-              <motion.div
-                className="absolute top-1.5 bottom-1.5 bg-primary rounded-lg shadow-lg"
-                initial={false}
-                animate={{
-                  left: mode === 'term-to-definition' ? '6px' : '50%',
-                  right: mode === 'term-to-definition' ? '50%' : '6px',
-                }}
-                transition={{ type: "spring", stiffness: 300, damping: 30 }}
-              />
-              <div className="relative grid grid-cols-2 gap-1">
-                <button
-                  onClick={() => setMode('term-to-definition')}
-                  className={cn(
-                    "py-3 px-4 rounded-lg text-sm font-medium transition-colors relative z-10",
-                    mode === 'term-to-definition'
-                      ? "text-primary-foreground"
-                      : "text-muted-foreground hover:text-foreground"
-                  )}
-                >
-                  Term → Definition
-                </button>
-                <button
-                  onClick={() => setMode('definition-to-term')}
-                  className={cn(
-                    "py-3 px-4 rounded-lg text-sm font-medium transition-colors relative z-10",
-                    mode === 'definition-to-term'
-                      ? "text-primary-foreground"
-                      : "text-muted-foreground hover:text-foreground"
-                  )}
-                >
-                  Definition → Term
-                </button>
-              </div>
+            <div className="bg-secondary/50 rounded-xl p-1.5 border border-border grid grid-cols-2 gap-1">
+              {MODES.map((option) => {
+                const disabled = option.id === 'multiple-choice' && !multipleChoiceAvailable;
+                return (
+                  <button
+                    key={option.id}
+                    onClick={() => setMode(option.id)}
+                    disabled={disabled}
+                    aria-pressed={mode === option.id}
+                    title={disabled ? 'This deck needs at least two terms for multiple choice' : undefined}
+                    className={cn(
+                      "py-3 px-4 rounded-lg text-sm font-medium transition-colors",
+                      mode === option.id
+                        ? "bg-primary text-primary-foreground shadow-lg"
+                        : "text-muted-foreground hover:text-foreground",
+                      disabled && "opacity-50 cursor-not-allowed hover:text-muted-foreground"
+                    )}
+                  >
+                    {option.label}
+                  </button>
+                );
+              })}
             </div>
           </motion.div>
 
@@ -216,6 +324,7 @@ export function GlossaryFlashcards({ onBack }: GlossaryFlashcardsProps) {
             <Button
               size="lg"
               onClick={startStudy}
+              disabled={deckTerms.length === 0}
               className="gap-3 px-8 py-6 text-lg font-semibold rounded-xl shadow-lg hover:shadow-xl transition-all hover:scale-[1.02] active:scale-[0.98]"
             >
               <Shuffle className="w-5 h-5" />
@@ -384,115 +493,215 @@ export function GlossaryFlashcards({ onBack }: GlossaryFlashcardsProps) {
         </div>
       </div>
 
-      {/* Flashcard */}
-      <div className="flex-1 flex flex-col items-center justify-center min-h-0 w-full">
-        {/* Fixed width card wrapper - 448px (28rem) on desktop, full width minus padding on mobile */}
-        <div
-          className="w-full sm:w-[448px] px-4 sm:px-0 cursor-pointer group"
-          onClick={() => setIsFlipped(!isFlipped)}
-        >
-          {/* Fixed dimensions card container */}
-          <div className={cn(
-            "relative rounded-2xl p-6 sm:p-8 h-[300px] sm:h-[320px] w-full flex flex-col transition-colors duration-300",
-            "bg-card border-2 shadow-lg",
-            isFlipped
-              ? "border-primary/40 shadow-primary/5"
-              : "border-border hover:border-primary/30",
-            "group-hover:shadow-xl"
-          )}>
-            {/* Card type indicator */}
-            <div className="flex items-center justify-center mb-4 h-7">
-              <div className={cn(
-                "px-3 py-1 rounded-full text-sm font-mono uppercase tracking-wider transition-colors",
-                isFlipped
-                  ? "bg-primary/10 text-primary"
-                  : "bg-secondary text-muted-foreground"
-              )}>
-                {isFlipped
-                  ? (mode === 'term-to-definition' ? 'Definition' : 'Term')
-                  : (mode === 'term-to-definition' ? 'Term' : 'Definition')
-                }
+      {isAnswerMode && currentTerm && (
+        <div className="flex-1 flex flex-col items-center min-h-0 w-full">
+          {/* Prompt card */}
+          <div className="w-full sm:w-[448px] px-4 sm:px-0">
+            <div className="relative rounded-2xl p-6 sm:p-8 min-h-[180px] w-full flex flex-col bg-card border-2 border-border shadow-lg">
+              <div className="flex items-center justify-center mb-4 h-7">
+                <div className="px-3 py-1 rounded-full text-sm font-mono uppercase tracking-wider bg-secondary text-muted-foreground">
+                  {mode === 'typed' ? 'Definition' : 'Term'}
+                </div>
+              </div>
+              <div className="flex-1 flex items-center justify-center">
+                <p className={cn(
+                  "text-center leading-relaxed",
+                  mode === 'typed'
+                    ? "text-base sm:text-lg text-foreground/90"
+                    : "text-xl sm:text-2xl font-bold text-foreground"
+                )}>
+                  {mode === 'typed' ? currentTerm.definition : currentTerm.term}
+                </p>
               </div>
             </div>
+          </div>
 
-            {/* Content area - fixed size container, text adapts */}
-            <div className="flex-1 flex items-center justify-center overflow-hidden">
-              <AnimatePresence mode="wait">
-                <motion.div
-                  key={`${currentIndex}-${isFlipped}`}
-                  initial={{ opacity: 0 }}
-                  animate={{ opacity: 1 }}
-                  exit={{ opacity: 0 }}
-                  transition={{ duration: 0.15 }}
-                  className="w-full h-full flex items-center justify-center overflow-y-auto px-2"
-                >
-                  <p className={cn(
-                    "text-center leading-relaxed",
-                    isTerm
-                      ? "text-xl sm:text-2xl font-bold text-foreground"
-                      : "text-base sm:text-lg text-foreground/90"
-                  )}>
-                    {isFlipped ? backContent : frontContent}
-                  </p>
-                </motion.div>
-              </AnimatePresence>
+          {/* Typed recall */}
+          {mode === 'typed' && (
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleCheckTyped();
+              }}
+              className="flex gap-2 mt-6 w-full sm:w-[448px] px-4 sm:px-0"
+            >
+              <Input
+                value={typedAnswer}
+                onChange={(e) => setTypedAnswer(e.target.value)}
+                placeholder="Type the term"
+                aria-label="Your answer"
+                autoComplete="off"
+                spellCheck={false}
+                disabled={!!feedback}
+                autoFocus
+              />
+              <Button type="submit" disabled={!!feedback || !typedAnswer.trim()} className="gap-2">
+                <Check className="w-4 h-4" />
+                Check
+              </Button>
+            </form>
+          )}
+
+          {/* Multiple choice */}
+          {mode === 'multiple-choice' && (
+            <div className="mt-6 w-full sm:w-[448px] px-4 sm:px-0 space-y-2">
+              {choices.map((choice) => {
+                const isAnswer = choice.id === currentTerm.id;
+                const isChosen = feedback?.chosenId === choice.id;
+                return (
+                  <button
+                    key={choice.id}
+                    onClick={() => handleChoose(choice)}
+                    disabled={!!feedback}
+                    className={cn(
+                      "w-full rounded-xl border-2 px-4 py-3 text-left text-sm transition-colors",
+                      !feedback && "border-border bg-card hover:border-primary/40",
+                      feedback && isAnswer && "border-success bg-success/10 text-foreground",
+                      feedback && isChosen && !isAnswer && "border-destructive bg-destructive/10 text-foreground",
+                      feedback && !isAnswer && !isChosen && "border-border bg-card opacity-60"
+                    )}
+                  >
+                    {choice.definition}
+                  </button>
+                );
+              })}
             </div>
-
-            {/* Tap hint */}
-            <div className="flex items-center justify-center mt-4 h-5">
-              <span className="text-sm text-muted-foreground/70">
-                {isFlipped ? 'tap to hide' : 'tap to reveal'}
-              </span>
+          )}
+
+          {/* Feedback */}
+          {feedback && (
+            <div className="mt-6 w-full sm:w-[448px] px-4 sm:px-0 flex items-center justify-between gap-4" data-testid="glossary-feedback">
+              <p className={cn("text-sm font-medium", feedback.correct ? "text-success" : "text-destructive")}>
+                {feedback.correct
+                  ? feedback.closeMatch
+                    ? `Close enough! It's spelled "${currentTerm.term}".`
+                    : 'Correct!'
+                  : mode === 'typed'
+                    ? `The answer is "${currentTerm.term}".`
+                    : 'Not quite.'}
+              </p>
+              <Button onClick={handleNext} className="gap-2 shrink-0">
+                {currentIndex < orderedTerms.length - 1 ? 'Next' : 'Finish'}
+                <ArrowRight className="w-4 h-4" />
+              </Button>
             </div>
-
-            {/* Corner accent */}
-            <div className={cn(
-              "absolute top-4 right-4 w-2 h-2 rounded-full transition-colors",
-              isFlipped ? "bg-primary" : "bg-muted-foreground/20"
-            )} />
-          </div>
+          )}
         </div>
+      )}
+
+      {!isAnswerMode && (
+        <>
+          {/* Flashcard */}
+          <div className="flex-1 flex flex-col items-center justify-center min-h-0 w-full">
+            {/* Fixed width card wrapper - 448px (28rem) on desktop, full width minus padding on mobile */}
+            <div
+              className="w-full sm:w-[448px] px-4 sm:px-0 cursor-pointer group"
+              onClick={() => setIsFlipped(!isFlipped)}
+            >
+              {/* Fixed dimensions card container */}
+              <div className={cn(
+                "relative rounded-2xl p-6 sm:p-8 h-[300px] sm:h-[320px] w-full flex flex-col transition-colors duration-300",
+                "bg-card border-2 shadow-lg",
+                isFlipped
+                  ? "border-primary/40 shadow-primary/5"
+                  : "border-border hover:border-primary/30",
+                "group-hover:shadow-xl"
+              )}>
+                {/* Card type indicator */}
+                <div className="flex items-center justify-center mb-4 h-7">
+                  <div className={cn(
+                    "px-3 py-1 rounded-full text-sm font-mono uppercase tracking-wider transition-colors",
+                    isFlipped
+                      ? "bg-primary/10 text-primary"
+                      : "bg-secondary text-muted-foreground"
+                  )}>
+                    {isFlipped
+                      ? (mode === 'term-to-definition' ? 'Definition' : 'Term')
+                      : (mode === 'term-to-definition' ? 'Term' : 'Definition')
+                    }
+                  </div>
+                </div>
 
-        {/* Action buttons */}
-        <div className="flex items-center justify-center gap-4 mt-8 w-full max-w-md">
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={handlePrevious}
-            disabled={currentIndex === 0}
-            className="rounded-full w-10 h-10 text-muted-foreground hover:text-foreground"
-          >
-            <ChevronLeft className="w-5 h-5" />
-          </Button>
+                {/* Content area - fixed size container, text adapts */}
+                <div className="flex-1 flex items-center justify-center overflow-hidden">
+                  <AnimatePresence mode="wait">
+                    <motion.div
+                      key={`${currentIndex}-${isFlipped}`}
+                      initial={{ opacity: 0 }}
+                      animate={{ opacity: 1 }}
+                      exit={{ opacity: 0 }}
+                      transition={{ duration: 0.15 }}
+                      className="w-full h-full flex items-center justify-center overflow-y-auto px-2"
+                    >
+                      <p className={cn(
+                        "text-center leading-relaxed",
+                        isTerm
+                          ? "text-xl sm:text-2xl font-bold text-foreground"
+                          : "text-base sm:text-lg text-foreground/90"
+                      )}>
+                        {isFlipped ? backContent : frontContent}
+                      </p>
+                    </motion.div>
+                  </AnimatePresence>
+                </div>
 
-          <Button
-            variant="outline"
-            onClick={handleMarkUnknown}
-            className="flex-1 max-w-[140px] gap-2 py-5 rounded-xl border-destructive/30 text-destructive hover:bg-destructive/10 hover:text-destructive hover:border-destructive/50"
-          >
-            <span className="text-lg">✗</span>
-            <span>Review</span>
-          </Button>
+                {/* Tap hint */}
+                <div className="flex items-center justify-center mt-4 h-5">
+                  <span className="text-sm text-muted-foreground/70">
+                    {isFlipped ? 'tap to hide' : 'tap to reveal'}
+                  </span>
+                </div>
 
-          <Button
-            onClick={handleMarkKnown}
-            className="flex-1 max-w-[140px] gap-2 py-5 rounded-xl bg-success hover:bg-success/90 text-success-foreground"
-          >
-            <span className="text-lg">✓</span>
-            <span>Got It</span>
-          </Button>
-
-          <Button
-            variant="ghost"
-            size="icon"
-            onClick={handleNext}
-            disabled={currentIndex === orderedTerms.length - 1}
-            className="rounded-full w-10 h-10 text-muted-foreground hover:text-foreground"
-          >
-            <ChevronRight className="w-5 h-5" />
-          </Button>
-        </div>
-      </div>
+                {/* Corner accent */}
+                <div className={cn(
+                  "absolute top-4 right-4 w-2 h-2 rounded-full transition-colors",
+                  isFlipped ? "bg-primary" : "bg-muted-foreground/20"
+                )} />
+              </div>
+            </div>
+
+            {/* Action buttons */}
+            <div className="flex items-center justify-center gap-4 mt-8 w-full max-w-md">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handlePrevious}
+                disabled={currentIndex === 0}
+                className="rounded-full w-10 h-10 text-muted-foreground hover:text-foreground"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </Button>
+
+              <Button
+                variant="outline"
+                onClick={handleMarkUnknown}
+                className="flex-1 max-w-[140px] gap-2 py-5 rounded-xl border-destructive/30 text-destructive hover:bg-destructive/10 hover:text-destructive hover:border-destructive/50"
+              >
+                <span className="text-lg">✗</span>
+                <span>Review</span>
+              </Button>
+
+              <Button
+                onClick={handleMarkKnown}
+                className="flex-1 max-w-[140px] gap-2 py-5 rounded-xl bg-success hover:bg-success/90 text-success-foreground"
+              >
+                <span className="text-lg">✓</span>
+                <span>Got It</span>
+              </Button>
+
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={handleNext}
+                disabled={currentIndex === orderedTerms.length - 1}
+                className="rounded-full w-10 h-10 text-muted-foreground hover:text-foreground"
+              >
+                <ChevronRight className="w-5 h-5" />
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
     </PageContainer>
   );
 }
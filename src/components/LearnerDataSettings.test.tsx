@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { LearnerDataSettings } from './LearnerDataSettings';
+import { buildLearnerArchive, type LearnerArchiveData } from '@/lib/learnerArchive';
+
+const mockExport = vi.fn();
+const mockImport = vi.fn();
+vi.mock('@/hooks/useLearnerData', () => ({
+  useExportLearnerData: () => ({ mutateAsync: mockExport, isPending: false }),
+  useImportLearnerData: () => ({ mutate: mockImport, isPending: false }),
+}));
+
+const data: LearnerArchiveData = {
+  profile: null,
+  question_attempts: [
+    { question_id: 'q1', selected_answer: 0, is_correct: true, attempt_type: 'random_practice', attempted_at: 'x', test_result_id: null },
+    { question_id: 'q2', selected_answer: 1, is_correct: false, attempt_type: 'random_practice', attempted_at: 'x', test_result_id: null },
+  ],
+  events: [],
+  bookmarks: [{ question_id: 'q1', note: null, created_at: 'x' }],
+  practice_test_results: [],
+  daily_activity: [],
+  streak: null,
+  weekly_goals: null,
+  topic_progress: [],
+  lesson_progress: [],
+  exam_attempts: [],
+};
+
+const chooseFile = (content: string) => {
+  const file = new File([content], 'export.json', { type: 'application/json' });
+  fireEvent.change(screen.getByTestId('learner-data-file'), { target: { files: [file] } });
+};
+
+describe('LearnerDataSettings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('downloads the archive as JSON', async () => {
+    const archive = buildLearnerArchive(data, new Date('2026-10-18T12:00:00Z'));
+    mockExport.mockResolvedValue(archive);
+    const createObjectURL = vi.fn(() => 'blob:export');
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const clickSpy = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    render(<LearnerDataSettings />);
+    fireEvent.click(screen.getByRole('button', { name: /download my data/i }));
+
+    await waitFor(() => expect(clickSpy).toHaveBeenCalled());
+    expect(createObjectURL).toHaveBeenCalled();
+    expect(revokeObjectURL).toHaveBeenCalledWith('blob:export');
+    clickSpy.mockRestore();
+  });
+
+  it('summarises a chosen export before importing it', async () => {
+    const archive = buildLearnerArchive(data, new Date('2026-10-18T12:00:00Z'));
+
+    render(<LearnerDataSettings />);
+    chooseFile(JSON.stringify(archive));
+
+    expect(await screen.findByTestId('learner-data-summary')).toHaveTextContent(
+      'Exported Oct 18, 2026: 2 answers, 0 practice tests, 1 bookmark and 0 study days.'
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: /^import$/i }));
+
+    expect(mockImport).toHaveBeenCalledWith(archive, expect.any(Object));
+  });
+
+  it('explains why a file cannot be imported', async () => {
+    render(<LearnerDataSettings />);
+    chooseFile('{"hello":"world"}');
+
+    expect(await screen.findByRole('alert')).toHaveTextContent("This file isn't an Open Ham Prep data export.");
+    expect(screen.queryByRole('button', { name: /^import$/i })).not.toBeInTheDocument();
+  });
+});
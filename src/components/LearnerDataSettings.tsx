@@ -0,0 +1,168 @@
+import { useRef, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, Download, FileUp, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useExportLearnerData, useImportLearnerData } from "@/hooks/useLearnerData";
+import {
+  learnerArchiveFilename,
+  parseLearnerArchive,
+  summarizeLearnerArchive,
+  type LearnerArchive,
+} from "@/lib/learnerArchive";
+
+function downloadFile(content: string, filename: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+function plural(count: number, word: string) {
+  return `${count.toLocaleString()} ${word}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Download the learner's profile and study history as a JSON file, and
+ * restore such a file into a new account.
+ */
+export function LearnerDataSettings() {
+  const exportData = useExportLearnerData();
+  const importData = useImportLearnerData();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pendingArchive, setPendingArchive] = useState<LearnerArchive | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const handleDownload = async () => {
+    const archive = await exportData.mutateAsync().catch(() => null);
+    if (!archive) return;
+    downloadFile(JSON.stringify(archive, null, 2), learnerArchiveFilename(), "application/json");
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again after cancelling
+    event.target.value = "";
+    if (!file) return;
+
+    const result = parseLearnerArchive(await file.text());
+    if ("error" in result) {
+      setPendingArchive(null);
+      setFileError(result.error);
+    } else {
+      setPendingArchive(result.archive);
+      setFileError(null);
+    }
+  };
+
+  const handleImport = () => {
+    if (!pendingArchive) return;
+    importData.mutate(pendingArchive, {
+      onSuccess: () => setPendingArchive(null),
+    });
+  };
+
+  const summary = pendingArchive ? summarizeLearnerArchive(pendingArchive) : null;
+  const exportedAt = pendingArchive?.exported_at ? new Date(pendingArchive.exported_at) : null;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Take your study history with you: your profile, answers, practice tests, bookmarks
+        and notes, streaks, goals, lesson progress and exam results.
+      </p>
+
+      <div className="rounded-lg border border-border p-4 space-y-3">
+        <div className="flex items-center gap-3">
+          <div className="w-9 h-9 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+            <Download className="w-4 h-4 text-primary" />
+          </div>
+          <div className="min-w-0">
+            <div className="text-sm font-medium">Download my data</div>
+            <div className="text-xs text-muted-foreground">A JSON file you can keep or import later</div>
+          </div>
+        </div>
+        <Button size="sm" onClick={handleDownload} disabled={exportData.isPending} className="w-full">
+          {exportData.isPending ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4 mr-2" />
+          )}
+          Download my data
+        </Button>
+      </div>
+
+      <div className="rounded-lg border border-border p-4 space-y-3">
+        <div className="flex items-center gap-3">
+          <div className="w-9 h-9 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+            <Upload className="w-4 h-4 text-primary" />
+          </div>
+          <div className="min-w-0">
+            <div className="text-sm font-medium">Import data</div>
+            <div className="text-xs text-muted-foreground">Only into an account with no study history</div>
+          </div>
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          onChange={handleFileChange}
+          className="hidden"
+          aria-label="Data export file"
+          data-testid="learner-data-file"
+        />
+
+        {fileError && (
+          <div className="flex items-start gap-2 text-xs text-destructive" role="alert">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            <span>{fileError}</span>
+          </div>
+        )}
+
+        {summary ? (
+          <div className="space-y-3">
+            <p className="text-xs text-muted-foreground" data-testid="learner-data-summary">
+              {exportedAt && !isNaN(exportedAt.getTime()) ? `Exported ${format(exportedAt, "MMM d, yyyy")}: ` : ""}
+              {plural(summary.answers, "answer")}, {plural(summary.practiceTests, "practice test")},{" "}
+              {plural(summary.bookmarks, "bookmark")} and {plural(summary.studyDays, "study day")}.
+            </p>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setPendingArchive(null)}
+                disabled={importData.isPending}
+                className="flex-1"
+              >
+                Cancel
+              </Button>
+              <Button size="sm" onClick={handleImport} disabled={importData.isPending} className="flex-1">
+                {importData.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="w-4 h-4 mr-2" />
+                )}
+                Import
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full"
+          >
+            <FileUp className="w-4 h-4 mr-2" />
+            Choose export file
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,21 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { render, screen, waitFor } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { LicenseSelectModal } from './LicenseSelectModal';
+import type { TestType } from '@/types/navigation';
+
+// Today's pool, with the real transition windows
+const mockSetPoolVersion = vi.fn();
+vi.mock('@/hooks/usePoolVersion', async () => {
+  const { getPoolForDate, getSelectablePools } = await import('@/lib/poolConfig');
+  return {
+    usePoolVersion: (testType?: TestType) => ({
+      poolVersion: testType ? getPoolForDate(testType, new Date()).version : undefined,
+      selectablePools: testType ? getSelectablePools(testType) : [],
+      setPoolVersion: mockSetPoolVersion,
+    }),
+  };
+});
 
 describe('LicenseSelectModal', () => {
   const defaultProps = {
@@ -267,4 +281,51 @@ describe('LicenseSelectModal', () => {
       expect(screen.getByText(/Full amateur privileges/)).toBeInTheDocument();
     });
   });
+
+  describe('Question pool transition', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(2026, 4, 1));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('asks for the exam date window while two pools are being tested', () => {
+      render(<LicenseSelectModal {...defaultProps} />);
+
+      expect(screen.getByText('When is your exam?')).toBeInTheDocument();
+      expect(screen.getByText('Exam on or before Jun 30, 2026')).toBeInTheDocument();
+      expect(screen.getByText('Exam on or after Jul 1, 2026')).toBeInTheDocument();
+    });
+
+    it('does not show the pool picker for exams with a single pool', () => {
+      render(<LicenseSelectModal {...defaultProps} selectedTest="general" />);
+
+      expect(screen.queryByText('When is your exam?')).not.toBeInTheDocument();
+    });
+
+    it('saves the chosen pool without changing the license', async () => {
+      const user = userEvent.setup();
+      const onTestChange = vi.fn();
+      render(<LicenseSelectModal {...defaultProps} onTestChange={onTestChange} />);
+
+      await user.click(screen.getByText('Exam on or after Jul 1, 2026'));
+      await user.click(screen.getByRole('button', { name: 'Change Pool' }));
+
+      expect(onTestChange).not.toHaveBeenCalled();
+      expect(mockSetPoolVersion).toHaveBeenCalledWith('2026-2030');
+    });
+
+    it('does not save the pool when cancelled', async () => {
+      const user = userEvent.setup();
+      render(<LicenseSelectModal {...defaultProps} />);
+
+      await user.click(screen.getByText('Exam on or after Jul 1, 2026'));
+      await user.click(screen.getByRole('button', { name: 'Cancel' }));
+
+      expect(mockSetPoolVersion).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -11,6 +11,8 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { TestType, testTypes, testConfig } from "@/types/navigation";
+import { usePoolVersion } from "@/hooks/usePoolVersion";
+import type { PoolVersionInfo } from "@/lib/poolConfig";
 
 interface LicenseSelectModalProps {
   open: boolean;
@@ -31,6 +33,21 @@ const licenseDescriptions: Record<TestType, string> = {
   extra: "Full amateur privileges. 50 questions, need 37 to pass.",
 };
 
+function formatPoolDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+function describePoolWindow(pool: PoolVersionInfo, index: number): string {
+  return index === 0
+    ? `Exam on or before ${formatPoolDate(pool.expirationDate)}`
+    : `Exam on or after ${formatPoolDate(pool.effectiveDate)}`;
+}
+
 export function LicenseSelectModal({
   open,
   onOpenChange,
@@ -38,16 +55,33 @@ export function LicenseSelectModal({
   onTestChange,
 }: LicenseSelectModalProps) {
   const [pendingSelection, setPendingSelection] = useState<TestType>(selectedTest);
+  const [pendingPool, setPendingPool] = useState<string | null>(null);
+  const { poolVersion, selectablePools, setPoolVersion } = usePoolVersion(pendingSelection);
+
+  // Only ask about pools while the selected exam is in a pool transition
+  const showPoolPicker = selectablePools.length > 1;
+  const selectedPool = pendingPool ?? poolVersion;
+  const poolChanged = showPoolPicker && selectedPool !== poolVersion;
+  const hasChanges = pendingSelection !== selectedTest || poolChanged;
 
   // Reset pending selection when modal opens
   const handleOpenChange = (newOpen: boolean) => {
     if (newOpen) {
       setPendingSelection(selectedTest);
+      setPendingPool(null);
     }
     onOpenChange(newOpen);
   };
 
+  const handleSelectLicense = (test: TestType) => {
+    setPendingSelection(test);
+    setPendingPool(null);
+  };
+
   const handleConfirm = () => {
+    if (poolChanged && selectedPool) {
+      setPoolVersion(selectedPool);
+    }
     if (pendingSelection !== selectedTest) {
       onTestChange(pendingSelection);
     }
@@ -56,6 +90,7 @@ export function LicenseSelectModal({
 
   const handleCancel = () => {
     setPendingSelection(selectedTest);
+    setPendingPool(null);
     onOpenChange(false);
   };
 
@@ -80,7 +115,7 @@ export function LicenseSelectModal({
               <button
                 key={test.id}
                 role="radio"
-                onClick={() => test.available && setPendingSelection(test.id)}
+                onClick={() => test.available && handleSelectLicense(test.id)}
                 disabled={!test.available}
                 aria-label={`${test.name} license: ${licenseDescriptions[test.id]}${isCurrent ? ' (currently selected)' : ''}${!test.available ? ' (coming soon)' : ''}`}
                 aria-checked={isSelected}
@@ -149,15 +184,48 @@ export function LicenseSelectModal({
           })}
         </div>
 
+        {showPoolPicker && (
+          <div className="space-y-2 pb-4">
+            <h4 className="text-sm font-medium text-foreground">When is your exam?</h4>
+            <p className="text-xs text-muted-foreground">
+              A new question pool takes effect soon. Study the pool that will be used on your exam date.
+            </p>
+            <div className="grid gap-2" role="radiogroup" aria-label="Question pool options">
+              {selectablePools.map((pool, index) => {
+                const isSelected = selectedPool === pool.version;
+                return (
+                  <button
+                    key={pool.version}
+                    role="radio"
+                    aria-checked={isSelected}
+                    onClick={() => setPendingPool(pool.version)}
+                    className={cn(
+                      "flex items-center justify-between gap-4 p-3 rounded-lg border-2 transition-all text-left text-sm",
+                      isSelected
+                        ? "border-primary bg-primary/5"
+                        : "border-border hover:border-muted-foreground/50 hover:bg-secondary/50"
+                    )}
+                  >
+                    <span className="text-foreground">{describePoolWindow(pool, index)}</span>
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {pool.version} pool
+                    </span>
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+
         <DialogFooter className="gap-2 sm:gap-0">
           <Button variant="outline" onClick={handleCancel}>
             Cancel
           </Button>
           <Button
             onClick={handleConfirm}
-            disabled={pendingSelection === selectedTest}
+            disabled={!hasChanges}
           >
-            {pendingSelection === selectedTest ? "No Change" : "Change License"}
+            {pendingSelection !== selectedTest ? "Change License" : poolChanged ? "Change Pool" : "No Change"}
           </Button>
         </DialogFooter>
       </DialogContent>
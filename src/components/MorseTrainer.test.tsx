@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { MorseTrainer } from './MorseTrainer';
+
+const mockPlay = vi.fn().mockResolvedValue(undefined);
+const mockStop = vi.fn();
+
+vi.mock('@/hooks/useMorsePlayer', () => ({
+  useMorsePlayer: () => ({ play: mockPlay, stop: mockStop, isPlaying: false, isSupported: true }),
+}));
+
+vi.mock('@/hooks/useAuth', () => ({
+  useAuth: () => ({ user: { id: 'test-user' } }),
+}));
+
+const mockIncrementDailyActivity = vi.fn().mockResolvedValue(true);
+
+vi.mock('@/hooks/useDailyStreak', () => ({
+  incrementDailyActivity: (...args: unknown[]) => mockIncrementDailyActivity(...args),
+}));
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+const renderTrainer = () => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <MorseTrainer />
+    </QueryClientProvider>
+  );
+};
+
+/** The drill passed to the audio player on the latest play */
+const lastPlayed = () => mockPlay.mock.calls[mockPlay.mock.calls.length - 1][0] as string;
+
+describe('MorseTrainer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+  });
+
+  it('plays a Koch drill from the first two characters', () => {
+    renderTrainer();
+
+    fireEvent.click(screen.getByRole('button', { name: /start/i }));
+
+    expect(lastPlayed()).toMatch(/^[KM]{5} [KM]{5} [KM]{5}$/);
+    expect(mockPlay).toHaveBeenCalledWith(expect.any(String), expect.objectContaining({ wpm: 20, effectiveWpm: 10 }));
+  });
+
+  it('grades the copy, tracks character accuracy and credits the streak', async () => {
+    renderTrainer();
+
+    fireEvent.click(screen.getByRole('button', { name: /start/i }));
+    fireEvent.change(screen.getByLabelText('Your copy'), { target: { value: lastPlayed() } });
+    fireEvent.click(screen.getByRole('button', { name: /check/i }));
+
+    expect(screen.getByText('15 of 15 characters correct')).toBeInTheDocument();
+    expect(screen.getByTestId('morse-session-count')).toHaveTextContent('15 characters copied');
+    expect(JSON.parse(localStorage.getItem('morseTrainerStats')!)).toBeTruthy();
+
+    await waitFor(() => {
+      expect(mockIncrementDailyActivity).toHaveBeenCalledWith('test-user', { morse: 15 });
+    });
+  });
+
+  it('shows missed characters', () => {
+    renderTrainer();
+
+    fireEvent.click(screen.getByRole('button', { name: /start/i }));
+    fireEvent.click(screen.getByRole('button', { name: /check/i }));
+
+    expect(screen.getByText('0 of 15 characters correct')).toBeInTheDocument();
+  });
+
+  it('switches to callsign drills', () => {
+    renderTrainer();
+
+    fireEvent.click(screen.getByRole('radio', { name: 'Callsigns drill' }));
+    fireEvent.click(screen.getByRole('button', { name: /start/i }));
+
+    expect(lastPlayed()).toMatch(/^[KNWA][A-Z]?\d[A-Z]{1,3}$/);
+    expect(JSON.parse(localStorage.getItem('morseTrainerSettings')!).mode).toBe('callsigns');
+  });
+
+  it('adds Koch characters on request', () => {
+    renderTrainer();
+
+    expect(screen.getByText('Learning 2 characters')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Add a character' }));
+
+    expect(screen.getByText('Learning 3 characters')).toBeInTheDocument();
+  });
+});
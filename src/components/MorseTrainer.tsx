@@ -0,0 +1,332 @@
+import { useCallback, useRef, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Play, RotateCcw, Square, Check, ArrowRight, Minus, Plus, VolumeX } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { PageContainer } from "@/components/ui/page-container";
+import { useAuth } from "@/hooks/useAuth";
+import { incrementDailyActivity } from "@/hooks/useDailyStreak";
+import { useMorsePlayer } from "@/hooks/useMorsePlayer";
+import { queryKeys } from "@/services/queryKeys";
+import { cn } from "@/lib/utils";
+import {
+  KOCH_ORDER,
+  MAX_WPM,
+  MIN_KOCH_LEVEL,
+  MIN_WPM,
+  characterAccuracy,
+  generateDrill,
+  gradeAnswer,
+  kochCharacters,
+  kochReadyToAdvance,
+  loadMorseSettings,
+  loadMorseStats,
+  normalizeMorseText,
+  recordResults,
+  saveMorseSettings,
+  saveMorseStats,
+  type CharacterResult,
+  type MorseDrillMode,
+  type MorseSettings,
+} from "@/lib/morse";
+
+const MODES: { id: MorseDrillMode; label: string; description: string }[] = [
+  { id: 'characters', label: 'Characters', description: 'Koch groups of five from the characters you have unlocked' },
+  { id: 'words', label: 'Words', description: 'Common on-air words, abbreviations and Q-codes' },
+  { id: 'callsigns', label: 'Callsigns', description: 'Random US amateur callsigns' },
+];
+
+function accuracyTone(accuracy: number | null): string {
+  if (accuracy === null) return 'bg-secondary text-muted-foreground';
+  if (accuracy >= 0.9) return 'bg-success/20 text-success';
+  if (accuracy >= 0.7) return 'bg-warning/20 text-warning';
+  return 'bg-destructive/20 text-destructive';
+}
+
+export function MorseTrainer() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { play, stop, isPlaying, isSupported } = useMorsePlayer();
+
+  const [settings, setSettings] = useState<MorseSettings>(loadMorseSettings);
+  const [stats, setStats] = useState(loadMorseStats);
+  const [drill, setDrill] = useState<string | null>(null);
+  const [answer, setAnswer] = useState('');
+  const [results, setResults] = useState<CharacterResult[] | null>(null);
+  const [sessionCopied, setSessionCopied] = useState(0);
+  const answerRef = useRef<HTMLInputElement>(null);
+
+  const updateSettings = (updates: Partial<MorseSettings>) => {
+    setSettings((prev) => {
+      const next = { ...prev, ...updates };
+      // Farnsworth spacing can only slow the overall speed down
+      next.effectiveWpm = Math.min(next.effectiveWpm, next.wpm);
+      saveMorseSettings(next);
+      return next;
+    });
+  };
+
+  const playDrill = useCallback(
+    (text: string) => {
+      play(text, settings).catch((err) => console.error('Morse playback failed:', err));
+    },
+    [play, settings]
+  );
+
+  const startDrill = () => {
+    const text = generateDrill(settings);
+    setDrill(text);
+    setAnswer('');
+    setResults(null);
+    playDrill(text);
+    answerRef.current?.focus();
+  };
+
+  // Changing the mode or Koch set needs a new drill
+  const changeDrill = (updates: Partial<MorseSettings>) => {
+    stop();
+    setDrill(null);
+    setAnswer('');
+    setResults(null);
+    updateSettings(updates);
+  };
+
+  const handleCheck = () => {
+    if (!drill || results) return;
+    stop();
+
+    const graded = gradeAnswer(drill, answer);
+    const nextStats = recordResults(stats, graded);
+    setResults(graded);
+    setStats(nextStats);
+    saveMorseStats(nextStats);
+    setSessionCopied((n) => n + graded.length);
+
+    if (user) {
+      incrementDailyActivity(user.id, { morse: graded.length })
+        .then((success) => {
+          if (success) {
+            queryClient.invalidateQueries({ queryKey: queryKeys.progress.streak(user.id) });
+          }
+        })
+        .catch((err) => console.error('Daily activity tracking failed:', err));
+    }
+
+    if (settings.mode === 'characters' && kochReadyToAdvance(nextStats, settings.kochLevel)) {
+      const added = KOCH_ORDER[settings.kochLevel];
+      updateSettings({ kochLevel: settings.kochLevel + 1 });
+      toast.success(`Nice copying! Added "${added}" to your characters.`);
+    }
+  };
+
+  const correctCount = results?.filter((r) => r.correct).length ?? 0;
+  const learned = new Set(kochCharacters(settings.kochLevel));
+
+  return (
+    <PageContainer width="standard" mobileNavPadding>
+      <div className="mb-6">
+        <h1 className="text-2xl font-mono font-bold text-foreground mb-2">Morse Code Trainer</h1>
+        <p className="text-muted-foreground">
+          Learn CW by ear with the Koch method and Farnsworth spacing.
+        </p>
+      </div>
+
+      {!isSupported && (
+        <div className="flex items-center gap-2 rounded-lg border border-warning/30 bg-warning/10 px-4 py-3 mb-6 text-sm">
+          <VolumeX className="w-4 h-4 text-warning shrink-0" />
+          Your browser can't play audio tones, so the trainer won't make a sound here.
+        </div>
+      )}
+
+      {/* Settings */}
+      <div className="bg-card border border-border rounded-xl p-4 mb-6 space-y-5">
+        <div className="space-y-2">
+          <ToggleGroup
+            type="single"
+            value={settings.mode}
+            onValueChange={(value) => value && changeDrill({ mode: value as MorseDrillMode })}
+            className="justify-start flex-wrap"
+          >
+            {MODES.map((mode) => (
+              <ToggleGroupItem key={mode.id} value={mode.id} aria-label={`${mode.label} drill`}>
+                {mode.label}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <p className="text-xs text-muted-foreground">
+            {MODES.find((m) => m.id === settings.mode)?.description}
+          </p>
+        </div>
+
+        <div className="grid gap-5 sm:grid-cols-2">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span id="morse-wpm-label" className="font-medium">Character speed</span>
+              <span className="font-mono text-muted-foreground">{settings.wpm} WPM</span>
+            </div>
+            <Slider
+              aria-labelledby="morse-wpm-label"
+              value={[settings.wpm]}
+              onValueChange={(value) => updateSettings({ wpm: value[0] })}
+              min={MIN_WPM}
+              max={MAX_WPM}
+              step={1}
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <span id="morse-effective-label" className="font-medium">Effective speed</span>
+              <span className="font-mono text-muted-foreground">{settings.effectiveWpm} WPM</span>
+            </div>
+            <Slider
+              aria-labelledby="morse-effective-label"
+              value={[settings.effectiveWpm]}
+              onValueChange={(value) => updateSettings({ effectiveWpm: value[0] })}
+              min={MIN_WPM}
+              max={settings.wpm}
+              step={1}
+            />
+          </div>
+        </div>
+
+        {settings.mode === 'characters' && (
+          <div className="flex items-center justify-between gap-3">
+            <div className="text-sm">
+              <span className="font-medium">Learning {settings.kochLevel} characters</span>
+              <p className="text-xs text-muted-foreground">
+                A new one is added once you copy every character at 90% or better.
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                aria-label="Remove a character"
+                disabled={settings.kochLevel <= MIN_KOCH_LEVEL}
+                onClick={() => changeDrill({ kochLevel: settings.kochLevel - 1 })}
+              >
+                <Minus className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="icon"
+                className="h-8 w-8"
+                aria-label="Add a character"
+                disabled={settings.kochLevel >= KOCH_ORDER.length}
+                onClick={() => changeDrill({ kochLevel: settings.kochLevel + 1 })}
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Drill */}
+      <div className="bg-card border border-border rounded-xl p-4 mb-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          {!drill || results ? (
+            <Button onClick={startDrill} className="gap-2">
+              {drill ? <ArrowRight className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              {drill ? 'Next' : 'Start'}
+            </Button>
+          ) : isPlaying ? (
+            <Button variant="outline" onClick={stop} className="gap-2">
+              <Square className="w-4 h-4" />
+              Stop
+            </Button>
+          ) : (
+            <Button variant="outline" onClick={() => playDrill(drill)} className="gap-2">
+              <RotateCcw className="w-4 h-4" />
+              Replay
+            </Button>
+          )}
+          {sessionCopied > 0 && (
+            <span className="ml-auto text-xs text-muted-foreground" data-testid="morse-session-count">
+              {sessionCopied} characters copied this session
+            </span>
+          )}
+        </div>
+
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            handleCheck();
+          }}
+          className="flex gap-2"
+        >
+          <Input
+            ref={answerRef}
+            value={answer}
+            onChange={(e) => setAnswer(e.target.value)}
+            placeholder={drill ? 'Type what you hear' : 'Press Start to hear a drill'}
+            aria-label="Your copy"
+            autoComplete="off"
+            autoCapitalize="characters"
+            spellCheck={false}
+            disabled={!drill || !!results}
+            className="font-mono uppercase"
+          />
+          <Button type="submit" disabled={!drill || !!results} className="gap-2">
+            <Check className="w-4 h-4" />
+            Check
+          </Button>
+        </form>
+
+        {results && drill && (
+          <div className="space-y-1" data-testid="morse-results">
+            <p className="text-sm font-medium">
+              {correctCount} of {results.length} characters correct
+            </p>
+            <p className="font-mono text-lg tracking-widest" aria-label={`Sent: ${drill}`}>
+              {normalizeMorseText(drill).split(' ').map((word, wordIndex, words) => {
+                const offset = words.slice(0, wordIndex).join('').length;
+                return (
+                  <span key={wordIndex}>
+                    {[...word].map((char, i) => (
+                      <span
+                        key={i}
+                        className={results[offset + i]?.correct ? 'text-success' : 'text-destructive'}
+                      >
+                        {char}
+                      </span>
+                    ))}
+                    {wordIndex < words.length - 1 && ' '}
+                  </span>
+                );
+              })}
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Per-character accuracy */}
+      <div className="bg-card border border-border rounded-xl p-4">
+        <h2 className="text-sm font-mono font-bold text-muted-foreground mb-3">Character Accuracy</h2>
+        <div className="grid grid-cols-6 sm:grid-cols-9 gap-1.5">
+          {KOCH_ORDER.map((char) => {
+            const accuracy = characterAccuracy(stats, char);
+            return (
+              <div
+                key={char}
+                data-testid={`morse-char-${char}`}
+                className={cn(
+                  'rounded-md py-1.5 text-center font-mono',
+                  accuracyTone(accuracy),
+                  !learned.has(char) && accuracy === null && 'opacity-40'
+                )}
+              >
+                <div className="text-sm font-bold">{char}</div>
+                <div className="text-[10px]">{accuracy === null ? '–' : `${Math.round(accuracy * 100)}%`}</div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </PageContainer>
+  );
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { OfflineStatusBanner } from './OfflineStatusBanner';
+
+const mockSync = vi.fn();
+
+vi.mock('@/hooks/useOfflineStudy', () => ({
+  useOfflineSync: vi.fn(() => ({ isOnline: true, pendingCount: 0, sync: mockSync })),
+}));
+
+import { useOfflineSync } from '@/hooks/useOfflineStudy';
+
+describe('OfflineStatusBanner', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSync.mockResolvedValue(null);
+  });
+
+  it('renders nothing when online with nothing to sync', () => {
+    const { container } = render(<OfflineStatusBanner />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('tells the learner downloaded questions still work offline', () => {
+    vi.mocked(useOfflineSync).mockReturnValue({ isOnline: false, pendingCount: 0, sync: mockSync });
+
+    render(<OfflineStatusBanner />);
+
+    expect(screen.getByRole('status')).toHaveTextContent("You're offline. Downloaded questions are still available.");
+    expect(screen.queryByRole('button', { name: /sync now/i })).not.toBeInTheDocument();
+  });
+
+  it('counts answers waiting for the connection', () => {
+    vi.mocked(useOfflineSync).mockReturnValue({ isOnline: false, pendingCount: 3, sync: mockSync });
+
+    render(<OfflineStatusBanner />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('3 items will sync when you reconnect');
+  });
+
+  it('syncs on demand once back online', async () => {
+    vi.mocked(useOfflineSync).mockReturnValue({ isOnline: true, pendingCount: 1, sync: mockSync });
+
+    render(<OfflineStatusBanner />);
+    expect(screen.getByRole('status')).toHaveTextContent('1 item studied offline waiting to sync');
+
+    fireEvent.click(screen.getByRole('button', { name: /sync now/i }));
+
+    await waitFor(() => expect(mockSync).toHaveBeenCalledTimes(1));
+  });
+});
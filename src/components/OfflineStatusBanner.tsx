@@ -0,0 +1,48 @@
+import { useState } from 'react';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useOfflineSync } from '@/hooks/useOfflineStudy';
+
+/**
+ * Thin bar at the top of the app shell while offline or while answers are
+ * waiting to sync. Mounting it also keeps the offline outbox syncing.
+ */
+export function OfflineStatusBanner() {
+  const { isOnline, pendingCount, sync } = useOfflineSync();
+  const [isSyncing, setIsSyncing] = useState(false);
+
+  if (isOnline && pendingCount === 0) return null;
+
+  const pendingText = pendingCount === 1 ? '1 item' : `${pendingCount} items`;
+
+  const handleSync = async () => {
+    setIsSyncing(true);
+    try {
+      await sync();
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  return (
+    <div
+      role="status"
+      className="flex items-center gap-2 px-4 py-2 text-sm bg-muted text-muted-foreground border-b border-border"
+    >
+      <CloudOff className="w-4 h-4 shrink-0" aria-hidden="true" />
+      <span className="flex-1">
+        {isOnline
+          ? `${pendingText} studied offline waiting to sync`
+          : pendingCount > 0
+            ? `You're offline. ${pendingText} will sync when you reconnect.`
+            : "You're offline. Downloaded questions are still available."}
+      </span>
+      {isOnline && (
+        <Button variant="ghost" size="sm" onClick={handleSync} disabled={isSyncing} className="h-7 gap-1">
+          <RefreshCw className={isSyncing ? 'w-3 h-3 animate-spin' : 'w-3 h-3'} aria-hidden="true" />
+          Sync now
+        </Button>
+      )}
+    </div>
+  );
+}
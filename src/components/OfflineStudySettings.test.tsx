@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { OfflineStudySettings } from './OfflineStudySettings';
+
+const mockDownload = vi.fn();
+const mockRemove = vi.fn();
+const mockUseOfflineStudy = vi.fn();
+const mockUseTargetExam = vi.fn();
+
+vi.mock('@/hooks/useOfflineStudy', () => ({
+  useOfflineStudy: (...args: unknown[]) => mockUseOfflineStudy(...args),
+}));
+
+vi.mock('@/hooks/useExamSessions', () => ({
+  useTargetExam: () => mockUseTargetExam(),
+}));
+
+vi.mock('@/hooks/usePoolVersion', () => ({
+  usePoolVersion: () => ({ poolVersion: '2022-2026' }),
+}));
+
+const baseState = {
+  pack: null,
+  glossary: null,
+  isLoading: false,
+  isOutdated: false,
+  figureProgress: null,
+  download: mockDownload,
+  isDownloading: false,
+  remove: mockRemove,
+  isRemoving: false,
+};
+
+const pack = {
+  testType: 'general',
+  poolVersion: '2023-2027',
+  questions: [{ id: 'G1A01' }, { id: 'G1A02' }],
+  figureUrls: ['https://cdn.test/G1.png'],
+  downloadedAt: '2026-10-01T12:00:00Z',
+};
+
+describe('OfflineStudySettings', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseOfflineStudy.mockReturnValue(baseState);
+    mockUseTargetExam.mockReturnValue({ targetExam: null });
+  });
+
+  it('offers the fallback exam when no target exam is set', () => {
+    render(<OfflineStudySettings fallbackTestType="technician" />);
+
+    expect(mockUseOfflineStudy).toHaveBeenCalledWith('technician');
+    expect(screen.getByTestId('offline-pack-status')).toHaveTextContent('Not downloaded');
+
+    fireEvent.click(screen.getByRole('button', { name: /download for offline/i }));
+    expect(mockDownload).toHaveBeenCalled();
+  });
+
+  it("prefers the learner's target exam", () => {
+    mockUseTargetExam.mockReturnValue({ targetExam: { target_license: 'general' } });
+
+    render(<OfflineStudySettings fallbackTestType="technician" />);
+
+    expect(mockUseOfflineStudy).toHaveBeenCalledWith('general');
+  });
+
+  it('summarises a saved download and allows removing it', () => {
+    mockUseOfflineStudy.mockReturnValue({
+      ...baseState,
+      pack,
+      glossary: { terms: [{ id: 'g1' }], downloadedAt: pack.downloadedAt },
+    });
+
+    render(<OfflineStudySettings fallbackTestType="general" />);
+
+    expect(screen.getByTestId('offline-pack-status')).toHaveTextContent(
+      '2 questions, 1 figures and 1 glossary terms saved Oct 1, 2026'
+    );
+    expect(screen.getByRole('button', { name: /update download/i })).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: /remove offline download/i }));
+    expect(mockRemove).toHaveBeenCalled();
+  });
+
+  it('warns when the saved pool differs from the one being studied', () => {
+    mockUseOfflineStudy.mockReturnValue({ ...baseState, pack, isOutdated: true });
+
+    render(<OfflineStudySettings fallbackTestType="general" />);
+
+    expect(screen.getByText(/saved questions are from the 2023-2027 pool/i)).toBeInTheDocument();
+  });
+
+  it('shows figure download progress', () => {
+    mockUseOfflineStudy.mockReturnValue({
+      ...baseState,
+      isDownloading: true,
+      figureProgress: { done: 3, total: 10 },
+    });
+
+    render(<OfflineStudySettings fallbackTestType="technician" />);
+
+    expect(screen.getByText('Downloading figures 3 of 10')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /download for offline/i })).toBeDisabled();
+  });
+});
@@ -0,0 +1,115 @@
+import { format } from "date-fns";
+import { CloudDownload, Loader2, Trash2, WifiOff, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useTargetExam } from "@/hooks/useExamSessions";
+import { useOfflineStudy } from "@/hooks/useOfflineStudy";
+import { usePoolVersion } from "@/hooks/usePoolVersion";
+import { testTypes, type TestType } from "@/types/navigation";
+
+interface OfflineStudySettingsProps {
+  /** Exam to download when the learner has no target exam set */
+  fallbackTestType: TestType;
+}
+
+/**
+ * Download the target exam's question pool, figures and glossary so random
+ * practice, practice tests and glossary flashcards work without a connection.
+ */
+export function OfflineStudySettings({ fallbackTestType }: OfflineStudySettingsProps) {
+  const { targetExam } = useTargetExam();
+  const testType = targetExam?.target_license ?? fallbackTestType;
+  const testName = testTypes.find((t) => t.id === testType)?.name ?? testType;
+  const { poolVersion } = usePoolVersion(testType);
+  const {
+    pack,
+    glossary,
+    isLoading,
+    isOutdated,
+    figureProgress,
+    download,
+    isDownloading,
+    remove,
+    isRemoving,
+  } = useOfflineStudy(testType);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Save your exam's questions, figures and glossary on this device. Random practice,
+        practice tests and glossary flashcards then work without a connection, and your
+        answers sync when you're back online.
+      </p>
+
+      <div className="rounded-lg border border-border p-4 space-y-3">
+        <div className="flex items-center gap-3">
+          <div className="w-9 h-9 rounded-lg bg-primary/10 flex items-center justify-center shrink-0">
+            <WifiOff className="w-4 h-4 text-primary" />
+          </div>
+          <div className="min-w-0">
+            <div className="text-sm font-medium">{testName} question pool</div>
+            <div className="text-xs text-muted-foreground">{poolVersion} pool</div>
+          </div>
+        </div>
+
+        {isLoading ? null : pack ? (
+          <p className="text-xs text-muted-foreground" data-testid="offline-pack-status">
+            {pack.questions.length} questions, {pack.figureUrls.length} figures
+            {glossary ? ` and ${glossary.terms.length} glossary terms` : ""} saved{" "}
+            {format(new Date(pack.downloadedAt), "MMM d, yyyy")}
+          </p>
+        ) : (
+          <p className="text-xs text-muted-foreground" data-testid="offline-pack-status">
+            Not downloaded
+          </p>
+        )}
+
+        {isOutdated && (
+          <div className="flex items-start gap-2 text-xs text-amber-600 dark:text-amber-400">
+            <AlertTriangle className="w-4 h-4 shrink-0" />
+            <span>
+              The saved questions are from the {pack?.poolVersion} pool. Download again to study the{" "}
+              {poolVersion} pool offline.
+            </span>
+          </div>
+        )}
+
+        {figureProgress && figureProgress.total > 0 && (
+          <div className="space-y-1">
+            <Progress value={(figureProgress.done / figureProgress.total) * 100} />
+            <p className="text-xs text-muted-foreground">
+              Downloading figures {figureProgress.done} of {figureProgress.total}
+            </p>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            onClick={() => download()}
+            disabled={isDownloading || isRemoving || !navigator.onLine}
+            className="flex-1"
+          >
+            {isDownloading ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <CloudDownload className="w-4 h-4 mr-2" />
+            )}
+            {pack ? "Update download" : "Download for offline"}
+          </Button>
+          {pack && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => remove()}
+              disabled={isDownloading || isRemoving}
+              aria-label="Remove offline download"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
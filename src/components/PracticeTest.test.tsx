@@ -1,5 +1,5 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor, act } from '@testing-library/react';
 import { PracticeTest } from './PracticeTest';
 import { TooltipProvider } from '@/components/ui/tooltip';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
@@ -44,9 +44,11 @@ vi.mock('@/hooks/useAuth', () => ({
   useAuth: () => ({ user: { id: 'test-user' } }),
 }));
 
+const mockSaveTestResult = vi.fn().mockResolvedValue({ id: 'test-result-id' });
+
 vi.mock('@/hooks/useProgress', () => ({
   useProgress: () => ({
-    saveTestResult: vi.fn().mockResolvedValue({ id: 'test-result-id' }),
+    saveTestResult: (...args: unknown[]) => mockSaveTestResult(...args),
   }),
 }));
 
@@ -94,6 +96,7 @@ vi.mock('sonner', () => ({
   toast: {
     success: vi.fn(),
     warning: vi.fn(),
+    info: vi.fn(),
   },
 }));
 
@@ -177,6 +180,15 @@ describe('PracticeTest', () => {
       
       expect(screen.getByRole('button', { name: /start test/i })).toBeInTheDocument();
     });
+
+    it('offers a printable practice exam with an answer sheet', () => {
+      renderPracticeTest();
+
+      fireEvent.click(screen.getByRole('button', { name: /print exam/i }));
+
+      expect(screen.getByText('Print Practice Exam')).toBeInTheDocument();
+      expect(screen.getByText(/Technician Practice Exam/)).toBeInTheDocument();
+    });
   });
 
   describe('Starting the Test', () => {
@@ -291,6 +303,94 @@ describe('PracticeTest', () => {
   });
 });
 
+describe('PracticeTest Exam Simulation', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const startSimulation = () => {
+    renderPracticeTest();
+    fireEvent.click(screen.getByRole('switch', { name: 'Exam simulation' }));
+    fireEvent.click(screen.getByRole('button', { name: /start test/i }));
+  };
+
+  it('offers a time limit only when simulation is on', () => {
+    renderPracticeTest();
+
+    expect(screen.queryByLabelText('Time limit')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('switch', { name: 'Exam simulation' }));
+
+    expect(screen.getByLabelText('Time limit')).toHaveTextContent('60 minutes');
+  });
+
+  it('shows a countdown and hides the calculator', () => {
+    startSimulation();
+
+    expect(screen.getByRole('timer', { name: 'Time remaining' })).toHaveTextContent('1:00:00');
+    expect(screen.queryByRole('button', { name: 'Open calculator' })).not.toBeInTheDocument();
+  });
+
+  it('keeps the calculator in a standard practice test', () => {
+    renderPracticeTest();
+    fireEvent.click(screen.getByRole('button', { name: /start test/i }));
+
+    expect(screen.queryByRole('timer')).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Open calculator' })).toBeInTheDocument();
+  });
+
+  it('flags questions for review in the navigator', () => {
+    startSimulation();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Flag for review' }));
+
+    expect(screen.getByRole('button', { name: 'Flagged for review' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByRole('button', { name: 'Question 1, unanswered, flagged, current' })).toBeInTheDocument();
+    expect(screen.getByText(/1 flagged for review/)).toBeInTheDocument();
+  });
+
+  it('confirms before submitting and saves the timing', async () => {
+    startSimulation();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Flag for review' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Submit Exam' }));
+
+    expect(screen.getByText('Submit your exam?')).toBeInTheDocument();
+    expect(screen.getByText(/1 question\(s\) are still flagged for review/)).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Submit Exam' }));
+
+    await waitFor(() => {
+      expect(mockSaveTestResult).toHaveBeenCalledWith(
+        expect.any(Array),
+        {},
+        'technician',
+        expect.objectContaining({ simulation: true, timeLimitSeconds: 3600, timedOut: false, flaggedCount: 1 })
+      );
+    });
+  });
+
+  it('submits automatically when time runs out', () => {
+    vi.useFakeTimers();
+    startSimulation();
+
+    act(() => {
+      vi.advanceTimersByTime(60 * 60 * 1000);
+    });
+
+    expect(mockSaveTestResult).toHaveBeenCalledWith(
+      expect.any(Array),
+      {},
+      'technician',
+      expect.objectContaining({ simulation: true, timedOut: true })
+    );
+  });
+});
+
 describe('PracticeTest Loading State', () => {
   it('shows loading state when questions are loading', () => {
     // Override the mock to return loading state (use mockReturnValue to persist across re-renders)
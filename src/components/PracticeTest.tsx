@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo, useRef } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { QuestionCard } from "@/components/QuestionCard";
@@ -7,14 +7,45 @@ import { useQuestions, Question } from "@/hooks/useQuestions";
 import { useProgress } from "@/hooks/useProgress";
 import { useAuth } from "@/hooks/useAuth";
 import { useKeyboardShortcuts, KeyboardShortcut } from "@/hooks/useKeyboardShortcuts";
+import { useQuestionTimer } from "@/hooks/useQuestionTimer";
+import { useExamCountdown } from "@/hooks/useExamCountdown";
 import { KeyboardShortcutsHelp } from "@/components/KeyboardShortcutsHelp";
-import { ArrowLeft, ArrowRight, CheckCircle, Loader2, Play, AlertTriangle, History, Trophy, XCircle, ChevronRight } from "lucide-react";
+import { PrintStudyPackButton } from "@/components/PrintStudyPackButton";
+import { ArrowLeft, ArrowRight, CheckCircle, Loader2, Play, AlertTriangle, History, Trophy, XCircle, ChevronRight, Clock, Flag } from "lucide-react";
 import { motion } from "framer-motion";
 import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
-import { TestType, testConfig, examDistribution } from "@/types/navigation";
+import { TestType, testConfig, examDistribution, testTypes } from "@/types/navigation";
 import { selectExamQuestions } from "@/lib/examQuestions";
+import { buildPracticeExam } from "@/lib/studyPack";
+import {
+  DEFAULT_SIMULATION_MINUTES,
+  SIMULATION_TIME_LIMITS,
+  SIMULATION_WARNING_MS,
+  formatDuration,
+  type TestTiming,
+} from "@/lib/examPacing";
+import { usePoolVersion } from "@/hooks/usePoolVersion";
 import { trackPracticeTestStarted } from "@/lib/amplitude";
 import { PageContainer } from "@/components/ui/page-container";
 import { supabase } from "@/integrations/supabase/client";
@@ -47,6 +78,7 @@ export function PracticeTest({
     isLoading,
     error
   } = useQuestions(testType);
+  const { poolVersion } = usePoolVersion(testType);
   const {
     saveTestResult
   } = useProgress();
@@ -95,8 +127,18 @@ export function PracticeTest({
   const [currentIndex, setCurrentIndex] = useState(0);
   const [answers, setAnswers] = useState<Record<string, 'A' | 'B' | 'C' | 'D'>>({});
   const [isFinished, setIsFinished] = useState(false);
+  const [simulationEnabled, setSimulationEnabled] = useState(false);
+  const [timeLimitMinutes, setTimeLimitMinutes] = useState<number>(DEFAULT_SIMULATION_MINUTES);
+  // Set when an exam simulation starts; null for a standard practice test
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [flagged, setFlagged] = useState<Set<string>>(new Set());
+  const [submitConfirmOpen, setSubmitConfirmOpen] = useState(false);
+  const [timing, setTiming] = useState<TestTiming | null>(null);
+  const questionTimesRef = useRef<Record<string, number>>({});
 
   const currentQuestion = questions.length > 0 ? questions[currentIndex] : null;
+  const isSimulation = deadline !== null;
+  const { getElapsedMs, resetTimer } = useQuestionTimer(currentQuestion?.id);
   const answeredCount = Object.keys(answers).length;
   const progress = questions.length > 0 ? answeredCount / questions.length * 100 : 0;
 
@@ -112,8 +154,53 @@ export function PracticeTest({
     setCurrentIndex(0);
     setAnswers({});
     setIsFinished(false);
+    setDeadline(null);
+    setFlagged(new Set());
+    setTiming(null);
+    questionTimesRef.current = {};
   }, [testType]);
 
+  /** Add the time spent on the question on screen to its running total */
+  const recordCurrentQuestionTime = () => {
+    if (!currentQuestion) return;
+    const times = questionTimesRef.current;
+    times[currentQuestion.id] = (times[currentQuestion.id] ?? 0) + getElapsedMs();
+    resetTimer();
+  };
+
+  const goToQuestion = (index: number) => {
+    if (index === currentIndex) return;
+    recordCurrentQuestionTime();
+    setCurrentIndex(index);
+  };
+
+  const submitTest = (timedOut: boolean) => {
+    if (isFinished) return;
+    recordCurrentQuestionTime();
+    const testTiming: TestTiming = {
+      questionTimes: { ...questionTimesRef.current },
+      simulation: isSimulation,
+      timeLimitSeconds: isSimulation ? timeLimitMinutes * 60 : null,
+      timedOut,
+      flaggedCount: flagged.size,
+    };
+    setTiming(testTiming);
+    setSubmitConfirmOpen(false);
+    setIsFinished(true);
+    saveTestResult(questions, answers, testType, testTiming).then((result) => {
+      if (result?.queued) {
+        toast.success('Saved offline. Results will sync when you reconnect.');
+      } else if (result) {
+        toast.success('Test results saved!');
+      }
+    });
+  };
+
+  const remainingMs = useExamCountdown(hasStarted && !isFinished ? deadline : null, () => {
+    toast.info("Time's up! Your exam was submitted automatically.");
+    submitTest(true);
+  });
+
   // Handlers defined before useKeyboardShortcuts to avoid hooks ordering issues
   const handleSelectAnswer = (answer: 'A' | 'B' | 'C' | 'D') => {
     if (!currentQuestion) return;
@@ -125,16 +212,29 @@ export function PracticeTest({
 
   const handleNext = () => {
     if (currentIndex < questions.length - 1) {
-      setCurrentIndex(currentIndex + 1);
+      goToQuestion(currentIndex + 1);
     }
   };
 
   const handlePrevious = () => {
     if (currentIndex > 0) {
-      setCurrentIndex(currentIndex - 1);
+      goToQuestion(currentIndex - 1);
     }
   };
 
+  const handleToggleFlag = () => {
+    if (!currentQuestion) return;
+    setFlagged(prev => {
+      const next = new Set(prev);
+      if (next.has(currentQuestion.id)) {
+        next.delete(currentQuestion.id);
+      } else {
+        next.add(currentQuestion.id);
+      }
+      return next;
+    });
+  };
+
   // Keyboard shortcuts - must be called unconditionally before any returns
   const practiceShortcuts: KeyboardShortcut[] = [
     { key: 'a', description: 'Select A', action: () => handleSelectAnswer('A'), disabled: !hasStarted || isFinished },
@@ -143,16 +243,31 @@ export function PracticeTest({
     { key: 'd', description: 'Select D', action: () => handleSelectAnswer('D'), disabled: !hasStarted || isFinished },
     { key: 'ArrowRight', description: 'Next', action: handleNext, disabled: !hasStarted || isFinished || currentIndex >= questions.length - 1 },
     { key: 'ArrowLeft', description: 'Previous', action: handlePrevious, disabled: !hasStarted || isFinished || currentIndex === 0 },
+    { key: 'f', description: 'Flag for review', action: handleToggleFlag, disabled: !hasStarted || isFinished || !isSimulation },
   ];
 
   useKeyboardShortcuts(practiceShortcuts, { enabled: hasStarted && !isFinished });
 
   const { questionCount, passingScore } = testConfig[testType];
+  const testName = testTypes.find((t) => t.id === testType)?.name ?? testType;
+
+  // A paper copy for classroom use, drawn the same way as an online test
+  const printableExam = useMemo(
+    () => (allQuestions ? buildPracticeExam(allQuestions, testType, poolVersion) : []),
+    [allQuestions, testType, poolVersion]
+  );
 
   const handleStartTest = () => {
     if (!allQuestions) return;
-    const examQuestions = selectExamQuestions(allQuestions, questionCount, examDistribution[testType]);
+    const examQuestions = selectExamQuestions(allQuestions, questionCount, examDistribution[testType], poolVersion);
     setQuestions(examQuestions);
+    setCurrentIndex(0);
+    setAnswers({});
+    setFlagged(new Set());
+    setTiming(null);
+    questionTimesRef.current = {};
+    resetTimer();
+    setDeadline(simulationEnabled ? Date.now() + timeLimitMinutes * 60 * 1000 : null);
     setHasStarted(true);
     trackPracticeTestStarted({ test_type: testType, question_count: questionCount });
   };
@@ -219,10 +334,51 @@ export function PracticeTest({
               </div>
             </div>
 
-            <Button size="lg" onClick={handleStartTest} className="gap-2">
-              <Play className="w-5 h-5" />
-              Start Test
-            </Button>
+            {/* Exam Simulation */}
+            <div className="text-left rounded-lg border border-border p-4 mb-6 space-y-4">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="exam-simulation" className="font-medium">Exam simulation</Label>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Timed like a VE session. No calculator, glossary hints or feedback until you submit.
+                  </p>
+                </div>
+                <Switch id="exam-simulation" checked={simulationEnabled} onCheckedChange={setSimulationEnabled} />
+              </div>
+              {simulationEnabled && (
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="time-limit">Time limit</Label>
+                  <Select value={String(timeLimitMinutes)} onValueChange={(value) => setTimeLimitMinutes(Number(value))}>
+                    <SelectTrigger id="time-limit" className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SIMULATION_TIME_LIMITS.map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)}>
+                          {minutes} minutes
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+
+            <div className="flex flex-col sm:flex-row items-center justify-center gap-3">
+              <Button size="lg" onClick={handleStartTest} className="gap-2">
+                <Play className="w-5 h-5" />
+                Start Test
+              </Button>
+              <PrintStudyPackButton
+                title={`${testName} Practice Exam`}
+                subtitle={`${questionCount} questions · ${passingScore} correct to pass`}
+                questions={printableExam}
+                variant="exam"
+                passingScore={passingScore}
+                label="Print Exam"
+                size="lg"
+              />
+            </div>
           </motion.div>
 
           {/* Test History Card */}
@@ -326,16 +482,12 @@ export function PracticeTest({
     );
   }
 
-  const handleFinishInternal = async () => {
-    setIsFinished(true);
-    const result = await saveTestResult(questions, answers, testType);
-    if (result) {
-      toast.success('Test results saved!');
-    }
-  };
-
   const handleFinish = () => {
-    handleFinishInternal();
+    if (isSimulation) {
+      setSubmitConfirmOpen(true);
+    } else {
+      submitTest(false);
+    }
   };
 
   const handleRetake = () => {
@@ -343,19 +495,43 @@ export function PracticeTest({
     setCurrentIndex(0);
     setIsFinished(false);
     setHasStarted(false);
+    setDeadline(null);
+    setFlagged(new Set());
+    setTiming(null);
+    questionTimesRef.current = {};
   };
 
   if (isFinished) {
-    return <TestResults questions={questions} answers={answers} onRetake={handleRetake} onBack={onBack} testType={testType} />;
+    return <TestResults questions={questions} answers={answers} onRetake={handleRetake} onBack={onBack} testType={testType} timing={timing ?? undefined} />;
   }
 
   return (
     <PageContainer width="standard" mobileNavPadding>
       {/* Header */}
       <div className="mb-12">
-        {/* Top row: Keyboard help */}
-        <div className="flex items-center justify-end mb-8">
-          <KeyboardShortcutsHelp />
+        {/* Top row: Countdown and keyboard help */}
+        <div className={cn("flex items-center mb-8", isSimulation ? "justify-between" : "justify-end")}>
+          {isSimulation && remainingMs !== null && (
+            <div
+              role="timer"
+              aria-label="Time remaining"
+              className={cn(
+                "flex items-center gap-2 font-mono text-lg",
+                remainingMs <= SIMULATION_WARNING_MS ? "text-destructive" : "text-foreground"
+              )}
+            >
+              <Clock className="w-5 h-5" aria-hidden="true" />
+              {formatDuration(remainingMs)}
+            </div>
+          )}
+          <div className="flex items-center gap-2">
+            {isSimulation && (
+              <Button variant="outline" size="sm" onClick={() => setSubmitConfirmOpen(true)}>
+                Submit Exam
+              </Button>
+            )}
+            <KeyboardShortcutsHelp />
+          </div>
         </div>
 
         {/* Progress - Minimal bar with count */}
@@ -375,7 +551,29 @@ export function PracticeTest({
       </div>
 
       {/* Question */}
-      <QuestionCard question={currentQuestion} selectedAnswer={answers[currentQuestion.id] || null} onSelectAnswer={handleSelectAnswer} showResult={false} />
+      <QuestionCard
+        question={currentQuestion}
+        selectedAnswer={answers[currentQuestion.id] || null}
+        onSelectAnswer={handleSelectAnswer}
+        showResult={false}
+        hideLinks={isSimulation}
+        hideCalculator={isSimulation}
+      />
+
+      {isSimulation && (
+        <div className="flex justify-center mt-4">
+          <Button
+            variant={flagged.has(currentQuestion.id) ? "secondary" : "ghost"}
+            size="sm"
+            onClick={handleToggleFlag}
+            aria-pressed={flagged.has(currentQuestion.id)}
+            className="gap-2"
+          >
+            <Flag className={cn("w-4 h-4", flagged.has(currentQuestion.id) && "fill-current text-warning")} />
+            {flagged.has(currentQuestion.id) ? "Flagged for review" : "Flag for review"}
+          </Button>
+        </div>
+      )}
 
       {/* Navigation */}
       <div className="mt-10">
@@ -386,11 +584,11 @@ export function PracticeTest({
           </Button>
 
           {/* Question Navigator */}
-          <div className="hidden md:flex flex-wrap justify-center gap-1 max-w-md" role="navigation" aria-label="Question navigator">
+          {!isSimulation && <div className="hidden md:flex flex-wrap justify-center gap-1 max-w-md" role="navigation" aria-label="Question navigator">
             {questions.map((q, idx) => (
               <button
                 key={q.id}
-                onClick={() => setCurrentIndex(idx)}
+                onClick={() => goToQuestion(idx)}
                 aria-label={`Question ${idx + 1}${answers[q.id] ? ', answered' : ', unanswered'}${idx === currentIndex ? ', current' : ''}`}
                 aria-current={idx === currentIndex ? 'step' : undefined}
                 className={`w-8 h-8 rounded text-xs font-mono transition-colors ${idx === currentIndex ? "bg-primary text-primary-foreground" : answers[q.id] ? "bg-secondary text-secondary-foreground" : "bg-muted text-muted-foreground hover:bg-secondary"}`}
@@ -398,7 +596,7 @@ export function PracticeTest({
                 {idx + 1}
               </button>
             ))}
-          </div>
+          </div>}
 
           {currentIndex === questions.length - 1 ? <Button onClick={handleFinish} className="gap-2" variant={answeredCount === questions.length ? "default" : "secondary"}>
               <CheckCircle className="w-4 h-4" />
@@ -418,7 +616,60 @@ export function PracticeTest({
             You have {questions.length - answeredCount} unanswered question(s).
             You can still submit, but unanswered questions will be marked incorrect.
           </motion.p>}
+
+        {/* Exam simulation navigator: every question, with answered and flagged state */}
+        {isSimulation && (
+          <div className="mt-8">
+            <div className="grid grid-cols-7 sm:grid-cols-10 gap-1.5" role="navigation" aria-label="Question navigator">
+              {questions.map((q, idx) => {
+                const isFlagged = flagged.has(q.id);
+                return (
+                  <button
+                    key={q.id}
+                    onClick={() => goToQuestion(idx)}
+                    aria-label={`Question ${idx + 1}${answers[q.id] ? ', answered' : ', unanswered'}${isFlagged ? ', flagged' : ''}${idx === currentIndex ? ', current' : ''}`}
+                    aria-current={idx === currentIndex ? 'step' : undefined}
+                    className={cn(
+                      "relative h-9 rounded text-xs font-mono transition-colors",
+                      idx === currentIndex
+                        ? "bg-primary text-primary-foreground"
+                        : answers[q.id]
+                          ? "bg-secondary text-secondary-foreground"
+                          : "bg-muted text-muted-foreground hover:bg-secondary",
+                      isFlagged && "ring-2 ring-warning"
+                    )}
+                  >
+                    {idx + 1}
+                    {isFlagged && <Flag className="absolute -top-1 -right-1 w-3 h-3 fill-current text-warning" aria-hidden="true" />}
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-muted-foreground mt-3 text-center">
+              {answeredCount} of {questions.length} answered · {flagged.size} flagged for review
+            </p>
+          </div>
+        )}
       </div>
+
+      <AlertDialog open={submitConfirmOpen} onOpenChange={setSubmitConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Submit your exam?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {answeredCount < questions.length
+                ? `You have ${questions.length - answeredCount} unanswered question(s), which will be marked incorrect. `
+                : "You've answered every question. "}
+              {flagged.size > 0 && `${flagged.size} question(s) are still flagged for review. `}
+              You can't change your answers after submitting.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep Working</AlertDialogCancel>
+            <AlertDialogAction onClick={() => submitTest(false)}>Submit Exam</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </PageContainer>
   );
 }
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { PrintStudyPackButton } from './PrintStudyPackButton';
+
+const questions = [
+  {
+    id: 'q1',
+    displayName: 'T1A01',
+    question: 'Which agency regulates amateur radio?',
+    options: { A: 'FEMA', B: 'FCC', C: 'ITU', D: 'ARRL' },
+    correctAnswer: 'B' as const,
+    explanation: 'The FCC regulates amateur radio.',
+    figureUrl: null,
+  },
+];
+
+describe('PrintStudyPackButton', () => {
+  let printSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    localStorage.clear();
+    printSpy = vi.spyOn(window, 'print').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    printSpy.mockRestore();
+  });
+
+  it('prints the study pack with the chosen options', async () => {
+    render(<PrintStudyPackButton title="Weak Questions" questions={questions} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /print/i }));
+    expect(screen.getByText('Print Study Pack')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByLabelText('After each question'));
+    fireEvent.click(screen.getByRole('switch', { name: /include explanations/i }));
+    fireEvent.click(screen.getByRole('button', { name: /save as pdf/i }));
+
+    await waitFor(() => expect(printSpy).toHaveBeenCalledTimes(1));
+    expect(document.body).toHaveClass('printing-study-pack');
+    expect(screen.getByTestId('printable-study-pack')).toHaveTextContent('Answer: B');
+    expect(screen.queryByText('The FCC regulates amateur radio.')).not.toBeInTheDocument();
+    expect(JSON.parse(localStorage.getItem('studyPackOptions')!)).toEqual({
+      answerKey: 'inline',
+      includeExplanations: false,
+      includeFigures: true,
+    });
+  });
+
+  it('cleans up after printing', async () => {
+    render(<PrintStudyPackButton title="Weak Questions" questions={questions} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /print/i }));
+    fireEvent.click(screen.getByRole('button', { name: /save as pdf/i }));
+    await waitFor(() => expect(printSpy).toHaveBeenCalled());
+
+    fireEvent(window, new Event('afterprint'));
+
+    await waitFor(() => expect(screen.queryByTestId('printable-study-pack')).not.toBeInTheDocument());
+    expect(document.body).not.toHaveClass('printing-study-pack');
+  });
+
+  it('offers no answer key placement for practice exams', () => {
+    render(<PrintStudyPackButton title="Technician Practice Exam" questions={questions} variant="exam" />);
+
+    fireEvent.click(screen.getByRole('button', { name: /print/i }));
+
+    expect(screen.getByText('Print Practice Exam')).toBeInTheDocument();
+    expect(screen.queryByLabelText('After each question')).not.toBeInTheDocument();
+    expect(screen.getByText(/fill-in answer sheet/i)).toBeInTheDocument();
+  });
+
+  it('is disabled without questions', () => {
+    render(<PrintStudyPackButton title="Bookmarks" questions={[]} />);
+
+    expect(screen.getByRole('button', { name: /print/i })).toBeDisabled();
+  });
+});
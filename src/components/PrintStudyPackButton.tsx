@@ -0,0 +1,196 @@
+import { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { Printer } from "lucide-react";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { PrintableStudyPack } from "@/components/PrintableStudyPack";
+import {
+  loadStudyPackOptions,
+  saveStudyPackOptions,
+  type AnswerKeyPlacement,
+  type StudyPackOptions,
+  type StudyPackQuestion,
+} from "@/lib/studyPack";
+
+const PRINTING_CLASS = "printing-study-pack";
+
+interface PrintStudyPackButtonProps {
+  title: string;
+  subtitle?: string;
+  questions: StudyPackQuestion[];
+  variant?: "study" | "exam";
+  passingScore?: number;
+  /** Button label; defaults to "Print" */
+  label?: string;
+  size?: ButtonProps["size"];
+  className?: string;
+}
+
+/** Resolve once every figure in the pack has loaded (or failed), so none print blank */
+function waitForImages(root: HTMLElement): Promise<void> {
+  const pending = Array.from(root.querySelectorAll("img")).filter((img) => !img.complete);
+  return Promise.all(
+    pending.map(
+      (img) =>
+        new Promise<void>((resolve) => {
+          img.addEventListener("load", () => resolve(), { once: true });
+          img.addEventListener("error", () => resolve(), { once: true });
+        })
+    )
+  ).then(() => undefined);
+}
+
+export function PrintStudyPackButton({
+  title,
+  subtitle,
+  questions,
+  variant = "study",
+  passingScore,
+  label = "Print",
+  size,
+  className,
+}: PrintStudyPackButtonProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<StudyPackOptions>(loadStudyPackOptions);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const printRootRef = useRef<HTMLDivElement>(null);
+  const isExam = variant === "exam";
+
+  useEffect(() => {
+    if (!isPrinting) return;
+
+    let cancelled = false;
+    const finish = () => setIsPrinting(false);
+    document.body.classList.add(PRINTING_CLASS);
+    window.addEventListener("afterprint", finish);
+
+    const root = printRootRef.current;
+    (root ? waitForImages(root) : Promise.resolve()).then(() => {
+      if (!cancelled) window.print();
+    });
+
+    return () => {
+      cancelled = true;
+      document.body.classList.remove(PRINTING_CLASS);
+      window.removeEventListener("afterprint", finish);
+    };
+  }, [isPrinting]);
+
+  const updateOptions = (updates: Partial<StudyPackOptions>) => {
+    setOptions((prev) => ({ ...prev, ...updates }));
+  };
+
+  const handlePrint = () => {
+    saveStudyPackOptions(options);
+    setIsOpen(false);
+    setIsPrinting(true);
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogTrigger asChild>
+          <Button variant="outline" size={size} className={className} disabled={questions.length === 0}>
+            <Printer className="w-4 h-4 mr-2" aria-hidden="true" />
+            {label}
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{isExam ? "Print Practice Exam" : "Print Study Pack"}</DialogTitle>
+            <DialogDescription>
+              {questions.length} questions from {title}. Choose "Save as PDF" in the print dialog to keep a copy.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            {isExam ? (
+              <p className="text-sm text-muted-foreground">
+                Includes a fill-in answer sheet, with the answer key on its own page at the end.
+              </p>
+            ) : (
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Answer key</Label>
+                <RadioGroup
+                  value={options.answerKey}
+                  onValueChange={(value) => updateOptions({ answerKey: value as AnswerKeyPlacement })}
+                  className="flex items-center gap-4"
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="end" id="study-pack-key-end" />
+                    <Label htmlFor="study-pack-key-end" className="text-sm cursor-pointer">
+                      At the end
+                    </Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="inline" id="study-pack-key-inline" />
+                    <Label htmlFor="study-pack-key-inline" className="text-sm cursor-pointer">
+                      After each question
+                    </Label>
+                  </div>
+                </RadioGroup>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="study-pack-explanations" className="text-sm font-medium cursor-pointer">
+                Include explanations
+              </Label>
+              <Switch
+                id="study-pack-explanations"
+                checked={options.includeExplanations}
+                onCheckedChange={(checked) => updateOptions({ includeExplanations: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="study-pack-figures" className="text-sm font-medium cursor-pointer">
+                Include figures
+              </Label>
+              <Switch
+                id="study-pack-figures"
+                checked={options.includeFigures}
+                onCheckedChange={(checked) => updateOptions({ includeFigures: checked })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handlePrint}>
+              <Printer className="w-4 h-4 mr-2" aria-hidden="true" />
+              Print / Save as PDF
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {isPrinting &&
+        createPortal(
+          <div ref={printRootRef} className="study-pack-print-root hidden print:block">
+            <PrintableStudyPack
+              title={title}
+              subtitle={subtitle}
+              questions={questions}
+              options={options}
+              variant={variant}
+              passingScore={passingScore}
+            />
+          </div>,
+          document.body
+        )}
+    </>
+  );
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { PrintableStudyPack } from './PrintableStudyPack';
+import { DEFAULT_STUDY_PACK_OPTIONS } from '@/lib/studyPack';
+
+const questions = [
+  {
+    id: 'q1',
+    displayName: 'T1A01',
+    question: 'Which agency regulates amateur radio?',
+    options: { A: 'FEMA', B: 'FCC', C: 'ITU', D: 'ARRL' },
+    correctAnswer: 'B' as const,
+    explanation: 'The **FCC** regulates amateur radio in the US.',
+    figureUrl: null,
+  },
+  {
+    id: 'q2',
+    displayName: 'T6C02',
+    question: 'What is component 1 in figure T-1?',
+    options: { A: 'Resistor', B: 'Transistor', C: 'Battery', D: 'Switch' },
+    correctAnswer: 'A' as const,
+    explanation: null,
+    figureUrl: 'https://example.com/T-1.png',
+  },
+];
+
+describe('PrintableStudyPack', () => {
+  it('prints questions with options and figures, and the answer key at the end', () => {
+    render(<PrintableStudyPack title="Bookmarked Questions" questions={questions} options={DEFAULT_STUDY_PACK_OPTIONS} />);
+
+    expect(screen.getByRole('heading', { name: 'Bookmarked Questions' })).toBeInTheDocument();
+    expect(screen.getByText(/2 questions/)).toBeInTheDocument();
+    expect(screen.getByText('B. FCC')).toBeInTheDocument();
+    expect(screen.getByAltText('Figure for question T6C02')).toHaveAttribute('src', 'https://example.com/T-1.png');
+
+    const key = screen.getByRole('region', { name: 'Answer key' });
+    expect(within(key).getByText('FCC')).toBeInTheDocument();
+    expect(within(key).getByText(/1\. B/)).toBeInTheDocument();
+    expect(within(key).getByText(/2\. A/)).toBeInTheDocument();
+  });
+
+  it('puts answers under each question when requested', () => {
+    render(
+      <PrintableStudyPack
+        title="T1A"
+        questions={questions}
+        options={{ ...DEFAULT_STUDY_PACK_OPTIONS, answerKey: 'inline' }}
+      />
+    );
+
+    expect(screen.queryByRole('region', { name: 'Answer key' })).not.toBeInTheDocument();
+    expect(screen.getByText('Answer: B')).toBeInTheDocument();
+    expect(screen.getByText('B. FCC')).toHaveClass('font-bold');
+  });
+
+  it('hides explanations and figures when turned off', () => {
+    render(
+      <PrintableStudyPack
+        title="T1A"
+        questions={questions}
+        options={{ answerKey: 'end', includeExplanations: false, includeFigures: false }}
+      />
+    );
+
+    expect(screen.queryByText(/regulates amateur radio in the US/)).not.toBeInTheDocument();
+    expect(screen.queryByRole('img')).not.toBeInTheDocument();
+  });
+
+  it('adds an answer sheet to practice exams', () => {
+    render(
+      <PrintableStudyPack
+        title="Technician Practice Exam"
+        questions={questions}
+        options={{ ...DEFAULT_STUDY_PACK_OPTIONS, answerKey: 'inline' }}
+        variant="exam"
+        passingScore={26}
+      />
+    );
+
+    const sheet = screen.getByRole('region', { name: 'Answer sheet' });
+    expect(within(sheet).getByText(/pass: 26\/2/)).toBeInTheDocument();
+    expect(within(sheet).getAllByRole('listitem')).toHaveLength(2);
+    // Exams never reveal answers next to the questions
+    expect(screen.queryByText('Answer: B')).not.toBeInTheDocument();
+    expect(screen.getByRole('region', { name: 'Answer key' })).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,154 @@
+import { MarkdownText } from "@/components/MarkdownText";
+import { cn } from "@/lib/utils";
+import {
+  ANSWER_LETTERS,
+  buildStudyPack,
+  type AnswerKeyEntry,
+  type StudyPackOptions,
+  type StudyPackQuestion,
+} from "@/lib/studyPack";
+
+interface PrintableStudyPackProps {
+  title: string;
+  subtitle?: string;
+  questions: StudyPackQuestion[];
+  options: StudyPackOptions;
+  /** Practice exams add a bubble answer sheet and always put the key last */
+  variant?: "study" | "exam";
+  /** Shown on the exam answer sheet, e.g. 26 of 35 */
+  passingScore?: number;
+}
+
+function AnswerKeyExplanation({ entry }: { entry: AnswerKeyEntry }) {
+  if (!entry.explanation) return null;
+  return <MarkdownText text={entry.explanation} className="mt-1 text-xs text-black" />;
+}
+
+function AnswerSheet({ count, passingScore }: { count: number; passingScore?: number }) {
+  return (
+    <section className="study-pack-page-break" aria-label="Answer sheet">
+      <h2 className="text-xl font-bold mb-4">Answer Sheet</h2>
+      <div className="grid grid-cols-3 gap-6 mb-6 text-sm">
+        <div className="border-b border-black pb-1">Name</div>
+        <div className="border-b border-black pb-1">Date</div>
+        <div className="border-b border-black pb-1">
+          Score {passingScore ? `(pass: ${passingScore}/${count})` : ""}
+        </div>
+      </div>
+      <p className="text-xs mb-4">Fill in one circle for each question.</p>
+      <ol className="columns-3 gap-8 text-sm">
+        {Array.from({ length: count }, (_, i) => (
+          <li key={i} className="study-pack-keep-together flex items-center gap-2 py-1">
+            <span className="w-6 text-right font-mono font-semibold">{i + 1}.</span>
+            {ANSWER_LETTERS.map((letter) => (
+              <span
+                key={letter}
+                className="inline-flex h-5 w-5 items-center justify-center rounded-full border border-black text-[10px]"
+              >
+                {letter}
+              </span>
+            ))}
+          </li>
+        ))}
+      </ol>
+    </section>
+  );
+}
+
+/**
+ * Paper layout for a set of questions. Rendered off-screen and only shown by
+ * the print stylesheet, so the browser's print dialog (or Save as PDF) picks
+ * it up in place of the app.
+ */
+export function PrintableStudyPack({
+  title,
+  subtitle,
+  questions,
+  options,
+  variant = "study",
+  passingScore,
+}: PrintableStudyPackProps) {
+  const pack = buildStudyPack(questions, options);
+  const isExam = variant === "exam";
+  const inlineKey = !isExam && options.answerKey === "inline";
+
+  return (
+    <article className="mx-auto max-w-3xl p-8 text-black" data-testid="printable-study-pack">
+      <header className="mb-6 border-b border-black pb-3">
+        <h1 className="text-2xl font-bold">{title}</h1>
+        {subtitle && <p className="text-sm">{subtitle}</p>}
+        <p className="mt-1 text-xs">
+          {pack.questions.length} questions · Printed {new Date().toLocaleDateString()} · Open Ham Prep
+        </p>
+      </header>
+
+      <ol className="space-y-5">
+        {pack.questions.map(({ number, question }, index) => {
+          const entry = pack.answerKey[index];
+          return (
+            <li key={question.id} className="study-pack-keep-together">
+              <p className="text-sm font-medium">
+                <span className="font-bold">{number}.</span>{" "}
+                {!isExam && <span className="font-mono text-xs">[{question.displayName}]</span>}{" "}
+                {question.question}
+              </p>
+              {options.includeFigures && question.figureUrl && (
+                <img
+                  src={question.figureUrl}
+                  alt={`Figure for question ${question.displayName}`}
+                  className="my-2 max-h-64 max-w-full"
+                />
+              )}
+              <ul className="mt-1 ml-6 space-y-0.5 text-sm">
+                {ANSWER_LETTERS.map((letter) => (
+                  <li
+                    key={letter}
+                    className={cn(inlineKey && letter === question.correctAnswer && "font-bold underline")}
+                  >
+                    {letter}. {question.options[letter]}
+                  </li>
+                ))}
+              </ul>
+              {inlineKey && (
+                <div className="mt-2 ml-6 border-l-2 border-black pl-3 text-sm">
+                  <p className="font-semibold">Answer: {entry.correctAnswer}</p>
+                  <AnswerKeyExplanation entry={entry} />
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+
+      {isExam && <AnswerSheet count={pack.questions.length} passingScore={passingScore} />}
+
+      {!inlineKey && (
+        <section className="study-pack-page-break mt-8" aria-label="Answer key">
+          <h2 className="text-xl font-bold mb-4">Answer Key</h2>
+          {options.includeExplanations ? (
+            <ol className="space-y-3 text-sm">
+              {pack.answerKey.map((entry) => (
+                <li key={entry.number} className="study-pack-keep-together">
+                  <p className="font-semibold">
+                    {entry.number}. {entry.correctAnswer}{" "}
+                    <span className="font-mono text-xs font-normal">[{entry.displayName}]</span>
+                  </p>
+                  <AnswerKeyExplanation entry={entry} />
+                </li>
+              ))}
+            </ol>
+          ) : (
+            <ol className="columns-4 gap-6 text-sm">
+              {pack.answerKey.map((entry) => (
+                <li key={entry.number} className="py-0.5 font-mono">
+                  {entry.number}. {entry.correctAnswer}{" "}
+                  <span className="text-xs">({entry.displayName})</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      )}
+    </article>
+  );
+}
@@ -49,6 +49,10 @@ vi.mock('@/integrations/supabase/client', () => ({
   },
 }));
 
+vi.mock('@/components/LearnerDataSettings', () => ({
+  LearnerDataSettings: () => <div>Learner data settings</div>,
+}));
+
 const defaultProps = {
   open: true,
   onOpenChange: vi.fn(),
@@ -166,6 +170,17 @@ describe('ProfileModal', () => {
       expect(screen.getByText('Customize the app for your needs')).toBeInTheDocument();
     });
 
+    it('navigates to Your Data view when Your Data is clicked', async () => {
+      const user = userEvent.setup();
+      renderProfileModal();
+
+      const dataMenuItem = screen.getByText('Download or import your study history').closest('button');
+      await user.click(dataMenuItem!);
+
+      expect(screen.getByRole('heading', { name: 'Your Data' })).toBeInTheDocument();
+      expect(screen.getByText('Learner data settings')).toBeInTheDocument();
+    });
+
     it('opens Delete Account dialog from Account view', async () => {
       const user = userEvent.setup();
       renderProfileModal();
@@ -26,8 +26,13 @@ import {
   Loader2,
   LogOut,
   Accessibility,
+  WifiOff,
+  Database,
 } from "lucide-react";
 import { AccessibilitySettings } from "@/components/AccessibilitySettings";
+import { OfflineStudySettings } from "@/components/OfflineStudySettings";
+import { LearnerDataSettings } from "@/components/LearnerDataSettings";
+import type { TestType } from "@/types/navigation";
 import { validateForumUsername } from "@/lib/validation";
 import { cn } from "@/lib/utils";
 
@@ -42,9 +47,11 @@ interface ProfileModalProps {
   userId: string;
   onProfileUpdate: () => void;
   onSignOut?: () => void;
+  /** Exam offered for offline download when no target exam is set */
+  selectedTest?: TestType;
 }
 
-type SettingsView = "main" | "account" | "appearance" | "accessibility";
+type SettingsView = "main" | "account" | "appearance" | "accessibility" | "offline" | "data";
 
 export function ProfileModal({
   open,
@@ -53,6 +60,7 @@ export function ProfileModal({
   userId,
   onProfileUpdate,
   onSignOut,
+  selectedTest = "technician",
 }: ProfileModalProps) {
   const navigate = useNavigate();
   const [currentView, setCurrentView] = useState<SettingsView>("main");
@@ -444,6 +452,18 @@ export function ProfileModal({
           description="Fonts, text size, contrast"
           onClick={() => setCurrentView("accessibility")}
         />
+        <MenuItem
+          icon={WifiOff}
+          label="Offline Study"
+          description="Download questions to study without a connection"
+          onClick={() => setCurrentView("offline")}
+        />
+        <MenuItem
+          icon={Database}
+          label="Your Data"
+          description="Download or import your study history"
+          onClick={() => setCurrentView("data")}
+        />
       </div>
 
       {/* Sign Out button */}
@@ -682,6 +702,8 @@ export function ProfileModal({
     account: "Account",
     appearance: "Appearance",
     accessibility: "Accessibility",
+    offline: "Offline Study",
+    data: "Your Data",
   };
 
   return (
@@ -717,6 +739,8 @@ export function ProfileModal({
           {currentView === "account" && <AccountView />}
           {currentView === "appearance" && <AppearanceView />}
           {currentView === "accessibility" && <AccessibilityView />}
+          {currentView === "offline" && <OfflineStudySettings fallbackTestType={selectedTest} />}
+          {currentView === "data" && <LearnerDataSettings />}
         </div>
       </DialogContent>
     </Dialog>
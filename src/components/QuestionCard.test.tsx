@@ -51,11 +51,21 @@ vi.mock('framer-motion', () => ({
 
 // Mock FigureImage component to verify it receives correct props
 vi.mock('./FigureImage', () => ({
-  FigureImage: ({ figureUrl, questionId }: {
+  FigureImage: ({ figureUrl, questionId, figureReference, poolVersion, showHotspots }: {
     figureUrl: string | null | undefined;
     questionId: string;
+    figureReference?: string | null;
+    poolVersion?: string | null;
+    showHotspots?: boolean;
   }) => figureUrl ? (
-    <div data-testid="figure-image" data-figure-url={figureUrl} data-question-id={questionId}>
+    <div
+      data-testid="figure-image"
+      data-figure-url={figureUrl}
+      data-question-id={questionId}
+      data-figure-reference={figureReference ?? ''}
+      data-pool-version={poolVersion ?? ''}
+      data-show-hotspots={String(!!showHotspots)}
+    >
       Figure Image
     </div>
   ) : null
@@ -350,6 +360,19 @@ describe('QuestionCard', () => {
       expect(figureImage).toHaveAttribute('data-question-id', questionWithFigure.id);
     });
 
+    it('shows figure hotspots only once the answer is revealed', () => {
+      const question = { ...questionWithFigure, figureReference: 'E9-2', poolVersion: '2024-2028' };
+
+      const { unmount } = renderQuestionCard({ question });
+      expect(screen.getByTestId('figure-image')).toHaveAttribute('data-figure-reference', 'E9-2');
+      expect(screen.getByTestId('figure-image')).toHaveAttribute('data-pool-version', '2024-2028');
+      expect(screen.getByTestId('figure-image')).toHaveAttribute('data-show-hotspots', 'false');
+      unmount();
+
+      renderQuestionCard({ question, selectedAnswer: 'A', showResult: true });
+      expect(screen.getByTestId('figure-image')).toHaveAttribute('data-show-hotspots', 'true');
+    });
+
     it('handles question with figureUrl undefined', () => {
       const questionWithUndefinedFigure: Question = {
         ...mockQuestion,
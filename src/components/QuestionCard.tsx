@@ -23,6 +23,14 @@ import { GlossaryHighlightedText } from "@/components/GlossaryHighlightedText";
 import { MarkdownText } from "@/components/MarkdownText";
 import { FigureImage } from "@/components/FigureImage";
 import type { LinkData } from "@/hooks/useQuestions";
+import type { TestType } from "@/types/navigation";
+
+/** Exam a question belongs to, by its T/G/E display name prefix */
+const QUESTION_PREFIX_TEST_TYPES: Record<string, TestType> = {
+  T: "technician",
+  G: "general",
+  E: "extra",
+};
 
 interface QuestionCardProps {
   question: Question;
@@ -31,6 +39,7 @@ interface QuestionCardProps {
   showResult?: boolean;
   enableGlossaryHighlight?: boolean; // Enable glossary term highlighting (disabled during practice tests)
   hideLinks?: boolean; // Hide links during active practice test (show only on review)
+  hideCalculator?: boolean; // Hide the calculator during exam simulation
   onTopicClick?: (slug: string) => void; // Navigate to topic when clicked
 }
 
@@ -40,11 +49,13 @@ export function QuestionCard({
   onSelectAnswer,
   showResult = false,
   hideLinks = false,
+  hideCalculator = false,
   enableGlossaryHighlight = false,
   onTopicClick,
 }: QuestionCardProps) {
   const options = ['A', 'B', 'C', 'D'] as const;
   const { user } = useAuth();
+  const testType = QUESTION_PREFIX_TEST_TYPES[question.displayName?.charAt(0)];
   const { isBookmarked, addBookmark, removeBookmark, getBookmarkNote, updateNote } = useBookmarks();
   const { userFeedback, submitFeedback, removeFeedback } = useExplanationFeedback(question.id);
   const [noteText, setNoteText] = useState('');
@@ -125,7 +136,7 @@ export function QuestionCard({
         {/* Floating Action Buttons */}
         {user && (
           <div className="absolute top-4 right-4 flex items-center gap-1 opacity-40 hover:opacity-100 transition-opacity duration-200">
-            <Calculator key={question.id} />
+            {!hideCalculator && <Calculator key={question.id} testType={testType} />}
             <Popover open={isNoteOpen} onOpenChange={(open) => {
               setIsNoteOpen(open);
               if (open) {
@@ -225,7 +236,7 @@ export function QuestionCard({
         {/* Floating actions for guests */}
         {!user && (
           <div className="absolute top-4 right-4 flex items-center gap-1 opacity-40 hover:opacity-100 transition-opacity duration-200">
-            <Calculator key={question.id} />
+            {!hideCalculator && <Calculator key={question.id} testType={testType} />}
             <Popover open={showGuestBookmarkPopover} onOpenChange={setShowGuestBookmarkPopover}>
               <Tooltip>
                 <TooltipTrigger asChild>
@@ -274,6 +285,9 @@ export function QuestionCard({
         <FigureImage
           figureUrl={question.figureUrl}
           questionId={question.id}
+          figureReference={question.figureReference}
+          poolVersion={question.poolVersion}
+          showHotspots={showResult}
         />
 
         {/* Options */}
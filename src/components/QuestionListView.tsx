@@ -4,6 +4,8 @@ import { Button } from "@/components/ui/button";
 import { ArrowLeft, Play, Search } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
 import { PageContainer } from "@/components/ui/page-container";
+import { PrintStudyPackButton } from "@/components/PrintStudyPackButton";
+import { AnkiExportButton } from "@/components/AnkiExportButton";
 import { cn } from "@/lib/utils";
 
 interface QuestionListViewProps {
@@ -116,6 +118,20 @@ export function QuestionListView({
           Practice All Questions
         </Button>
 
+        <PrintStudyPackButton
+          title={title}
+          subtitle={subtitle}
+          questions={questions}
+          className="h-12 px-6 font-medium"
+        />
+
+        <AnkiExportButton
+          questions={questions}
+          deckName={`${badge} ${title}`}
+          setTag={badge}
+          className="h-12 px-6 font-medium"
+        />
+
         <div className="relative flex-1">
           <label htmlFor="question-search" className="sr-only">Search questions</label>
           <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" aria-hidden="true" />
@@ -60,10 +60,16 @@ vi.mock('@/hooks/useAuth', () => ({
   useAuth: () => ({ user: null }),
 }));
 
+let mockNavSelectedSubelement: string | null = null;
+
 vi.mock('@/hooks/useAppNavigation', () => ({
   useAppNavigation: () => ({
     navigateToQuestion: vi.fn(),
     selectedLicense: 'technician',
+    selectedSubelement: mockNavSelectedSubelement,
+    setSelectedSubelement: (value: string | null) => {
+      mockNavSelectedSubelement = value;
+    },
   }),
 }));
 
@@ -366,3 +372,31 @@ describe('SubelementPractice Question Wraparound', () => {
     });
   });
 });
+
+describe('SubelementPractice Group Drill', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('starts practice on a question group selected from navigation', async () => {
+    mockQuestionsHook.mockReturnValue({
+      data: [
+        ...mockQuestions,
+        { ...mockQuestions[0], id: 'T1B01', displayName: 'T1B01', question: 'Question about T1B?', group: 'T1B', questionGroup: 'T1B' },
+      ],
+      isLoading: false,
+      error: null,
+    });
+    mockNavSelectedSubelement = 'T1B';
+
+    renderSubelementPractice();
+
+    await waitFor(() => {
+      expect(screen.getByText('Question about T1B?')).toBeInTheDocument();
+    });
+    expect(screen.getByText('T1B')).toBeInTheDocument();
+    expect(mockNavSelectedSubelement).toBeNull();
+
+    mockQuestionsHook.mockReturnValue({ data: mockQuestions, isLoading: false, error: null });
+  });
+});
@@ -64,6 +64,9 @@ export function SubelementPractice({
   const getSubelementNameForTest = (sub: string) => getSubelementName(testType, sub);
 
   const [selectedSubelement, setSelectedSubelement] = useState<string | null>(null);
+  // Narrows practice to one question group (T5A) within the subelement
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
+  const [drillPending, setDrillPending] = useState(false);
   const [topicView, setTopicView] = useState<TopicView>('list');
   const [stats, setStats] = useState({
     correct: 0,
@@ -87,6 +90,7 @@ export function SubelementPractice({
   // Reset state when test type changes
   useEffect(() => {
     setSelectedSubelement(null);
+    setSelectedGroup(null);
     setTopicView('list');
     setQuestionHistory([]);
     setHistoryIndex(-1);
@@ -94,10 +98,14 @@ export function SubelementPractice({
     setAskedIds([]);
   }, [testType]);
 
-  // Consume pre-selected subelement from navigation context
+  // Consume pre-selected subelement from navigation context. A question
+  // group code (T5A) starts a drill on that group straight away.
   useEffect(() => {
     if (navSelectedSubelement) {
-      setSelectedSubelement(navSelectedSubelement);
+      const isGroup = navSelectedSubelement.length === 3;
+      setSelectedSubelement(navSelectedSubelement.slice(0, 2));
+      setSelectedGroup(isGroup ? navSelectedSubelement : null);
+      setDrillPending(isGroup);
       setTopicView('questions');
       setNavSelectedSubelement(null); // Clear after consuming
     }
@@ -118,8 +126,9 @@ export function SubelementPractice({
   }, [questionsBySubelement]);
 
   const currentQuestions = useMemo(() => {
-    return selectedSubelement ? questionsBySubelement[selectedSubelement] || [] : [];
-  }, [selectedSubelement, questionsBySubelement]);
+    const questions = selectedSubelement ? questionsBySubelement[selectedSubelement] || [] : [];
+    return selectedGroup ? questions.filter(q => q.group === selectedGroup) : questions;
+  }, [selectedSubelement, selectedGroup, questionsBySubelement]);
 
   const getRandomQuestion = useCallback((excludeIds: string[] = []): { question: Question; shouldResetAskedIds: boolean } | null => {
     if (currentQuestions.length === 0) return null;
@@ -150,6 +159,7 @@ export function SubelementPractice({
 
   const handleSelectSubelement = (sub: string) => {
     setSelectedSubelement(sub);
+    setSelectedGroup(null);
     setTopicView('questions');
     setQuestionHistory([]);
     setHistoryIndex(-1);
@@ -187,6 +197,7 @@ export function SubelementPractice({
 
   const handleBackToList = () => {
     setSelectedSubelement(null);
+    setSelectedGroup(null);
     setTopicView('list');
     setQuestionHistory([]);
     setHistoryIndex(-1);
@@ -197,6 +208,15 @@ export function SubelementPractice({
     setAskedIds([]);
   };
 
+  // Start a group drill once its questions have loaded
+  useEffect(() => {
+    if (drillPending && currentQuestions.length > 0) {
+      setDrillPending(false);
+      handleStartPractice();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [drillPending, currentQuestions]);
+
   // Current question from history
   const canGoBack = historyIndex > 0;
 
@@ -371,10 +391,10 @@ export function SubelementPractice({
     return (
       <QuestionListView
         title={getSubelementNameForTest(selectedSubelement)}
-        subtitle={`Subelement ${selectedSubelement}`}
-        badge={selectedSubelement}
+        subtitle={selectedGroup ? `Question group ${selectedGroup}` : `Subelement ${selectedSubelement}`}
+        badge={selectedGroup ?? selectedSubelement}
         questions={currentQuestions}
-        onBack={handleBackToList}
+        onBack={selectedGroup ? () => handleSelectSubelement(selectedSubelement) : handleBackToList}
         onStartPractice={handleStartPractice}
         description={TOPIC_DESCRIPTIONS[selectedSubelement] || undefined}
       />
@@ -407,7 +427,7 @@ export function SubelementPractice({
           <div className="flex items-center gap-2">
             <KeyboardShortcutsHelp />
             <span className="font-mono text-sm text-muted-foreground">
-              {selectedSubelement}
+              {selectedGroup ?? selectedSubelement}
             </span>
           </div>
         </div>
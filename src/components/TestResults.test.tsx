@@ -4,6 +4,7 @@ import { MemoryRouter } from 'react-router-dom';
 import { TestResults } from './TestResults';
 import { Question } from '@/hooks/useQuestions';
 import confetti from 'canvas-confetti';
+import { TooltipProvider } from '@/components/ui/tooltip';
 
 const renderWithRouter = (ui: React.ReactElement) =>
   render(<MemoryRouter>{ui}</MemoryRouter>);
@@ -344,6 +345,79 @@ describe('TestResults', () => {
     });
   });
 
+  describe('Pacing', () => {
+    const timing = (questionTimes: Record<string, number>, overrides = {}) => ({
+      questionTimes,
+      simulation: true,
+      timeLimitSeconds: 45 * 60,
+      timedOut: false,
+      flaggedCount: 0,
+      ...overrides,
+    });
+
+    it('does not show pacing for untimed results', () => {
+      const { questions, answers } = createQuestionsAndAnswers(3, 2, 'T');
+
+      renderWithRouter(<TestResults questions={questions} answers={answers} {...defaultProps} />);
+
+      expect(screen.queryByText('Pacing')).not.toBeInTheDocument();
+    });
+
+    it('shows time used against the limit and the slowest questions', () => {
+      const { questions, answers } = createQuestionsAndAnswers(3, 2, 'T');
+
+      renderWithRouter(
+        <TestResults
+          questions={questions}
+          answers={answers}
+          timing={timing({ T00: 30000, T01: 45000, T02: 125000 })}
+          {...defaultProps}
+        />
+      );
+
+      expect(screen.getByTestId('pacing-total')).toHaveTextContent('3:20');
+      expect(screen.getByText('of 45:00 allowed')).toBeInTheDocument();
+      expect(screen.getByText(/averaged 0:38 on questions you got right and 2:05 on questions you missed/)).toBeInTheDocument();
+      expect(screen.getByText('Slowest questions')).toBeInTheDocument();
+      expect(screen.getByText('Question 3 · T02')).toBeInTheDocument();
+    });
+
+    it('explains when time ran out', () => {
+      const { questions, answers } = createQuestionsAndAnswers(3, 2, 'T');
+
+      renderWithRouter(
+        <TestResults
+          questions={questions}
+          answers={answers}
+          timing={timing({ T00: 30000 }, { timeLimitSeconds: 90, timedOut: true })}
+          {...defaultProps}
+        />
+      );
+
+      expect(screen.getByText(/Time ran out before you submitted/)).toHaveTextContent('about 0:30 per question');
+    });
+
+    it('opens a slow question for review', () => {
+      const { questions, answers } = createQuestionsAndAnswers(3, 2, 'T');
+
+      renderWithRouter(
+        <TooltipProvider>
+          <TestResults
+            questions={questions}
+            answers={answers}
+            timing={timing({ T00: 30000, T01: 45000, T02: 125000 })}
+            {...defaultProps}
+          />
+        </TooltipProvider>
+      );
+
+      fireEvent.click(screen.getByText('Question 3 · T02'));
+
+      expect(screen.getByRole('button', { name: /Back to Results/ })).toBeInTheDocument();
+      expect(screen.getByText('Question T02?')).toBeInTheDocument();
+    });
+  });
+
   describe('Default testType behavior', () => {
     it('defaults to technician config when testType is not provided', () => {
       const { questions, answers } = createQuestionsAndAnswers(35, 26, 'T');
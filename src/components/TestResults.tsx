@@ -5,11 +5,13 @@ import confetti from "canvas-confetti";
 import { Button } from "@/components/ui/button";
 import { Question } from "@/hooks/useQuestions";
 import { QuestionCard } from "@/components/QuestionCard";
-import { ArrowLeft, ArrowRight, RotateCcw, Home, Trophy, XCircle } from "lucide-react";
+import { ArrowLeft, ArrowRight, RotateCcw, Home, Trophy, XCircle, Timer } from "lucide-react";
 import { motion } from "framer-motion";
 import { cn } from "@/lib/utils";
 import { TestType, testConfig } from "@/types/navigation";
+import { requiredToPass } from "@/lib/practiceTestScore";
 import { PageContainer } from "@/components/ui/page-container";
+import { formatDuration, summarizePacing, type TestTiming } from "@/lib/examPacing";
 
 interface TestResultsProps {
   questions: Question[];
@@ -17,14 +19,19 @@ interface TestResultsProps {
   onRetake: () => void;
   onBack: () => void;
   testType?: TestType;
+  /** Per-question timing, when the test was timed */
+  timing?: TestTiming;
+  /** Custom tests scale the passing score to their length */
+  custom?: boolean;
 }
 
-export function TestResults({ questions, answers, onRetake, onBack, testType = 'technician' }: TestResultsProps) {
+export function TestResults({ questions, answers, onRetake, onBack, testType = 'technician', timing, custom = false }: TestResultsProps) {
   const { user } = useAuth();
   const [reviewIndex, setReviewIndex] = useState<number | null>(null);
   const [saveCardDismissed, setSaveCardDismissed] = useState(false);
 
-  const { questionCount, passingScore } = testConfig[testType];
+  const passingScore = requiredToPass(questions.length, testType, custom);
+  const outOf = custom ? questions.length : testConfig[testType].questionCount;
   const correctCount = questions.filter(
     (q) => answers[q.id] === q.correctAnswer
   ).length;
@@ -62,6 +69,9 @@ export function TestResults({ questions, answers, onRetake, onBack, testType = '
     (q) => answers[q.id] !== q.correctAnswer
   );
 
+  const pacing = timing ? summarizePacing(questions, answers, timing.questionTimes) : null;
+  const longestMs = pacing ? Math.max(...pacing.questions.map((p) => p.ms), 1) : 1;
+
   if (reviewIndex !== null) {
     const question = questions[reviewIndex];
     return (
@@ -169,7 +179,7 @@ export function TestResults({ questions, answers, onRetake, onBack, testType = '
           </div>
 
           <p className="text-sm text-muted-foreground mt-4">
-            Passing score: {passingScore} out of {questionCount} (74%)
+            Passing score: {passingScore} out of {outOf} (74%)
           </p>
         </motion.div>
 
@@ -212,6 +222,85 @@ export function TestResults({ questions, answers, onRetake, onBack, testType = '
           </Button>
         </motion.div>
 
+        {/* Pacing Analysis */}
+        {timing && pacing && pacing.totalMs > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.25 }}
+            className="bg-card border border-border rounded-xl p-6 mb-8"
+          >
+            <h2 className="text-xl font-mono font-bold text-foreground mb-4 flex items-center gap-2">
+              <Timer className="w-5 h-5" />
+              Pacing
+            </h2>
+
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 mb-6">
+              <div>
+                <p className="text-2xl font-mono font-bold text-foreground" data-testid="pacing-total">
+                  {formatDuration(pacing.totalMs)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {timing.timeLimitSeconds
+                    ? `of ${formatDuration(timing.timeLimitSeconds * 1000)} allowed`
+                    : "Total time"}
+                </p>
+              </div>
+              <div>
+                <p className="text-2xl font-mono font-bold text-foreground">{formatDuration(pacing.averageMs)}</p>
+                <p className="text-xs text-muted-foreground">Average per question</p>
+              </div>
+              <div>
+                <p className="text-2xl font-mono font-bold text-foreground">{formatDuration(pacing.medianMs)}</p>
+                <p className="text-xs text-muted-foreground">Median per question</p>
+              </div>
+            </div>
+
+            {timing.timedOut && (
+              <p className="text-sm text-destructive mb-4">
+                Time ran out before you submitted. On exam day, budget about {formatDuration((timing.timeLimitSeconds ?? 0) * 1000 / questions.length)} per question.
+              </p>
+            )}
+
+            {pacing.averageCorrectMs !== null && pacing.averageIncorrectMs !== null && (
+              <p className="text-sm text-muted-foreground mb-4">
+                You averaged {formatDuration(pacing.averageCorrectMs)} on questions you got right and{" "}
+                {formatDuration(pacing.averageIncorrectMs)} on questions you missed.
+              </p>
+            )}
+
+            {/* Time per question, in test order */}
+            <div className="flex items-end gap-px h-16 mb-6" aria-hidden="true">
+              {pacing.questions.map((p) => (
+                <div
+                  key={p.questionId}
+                  className={cn("flex-1 rounded-t-sm", p.correct ? "bg-success/60" : "bg-destructive/60")}
+                  style={{ height: `${Math.max(4, (p.ms / longestMs) * 100)}%` }}
+                  title={`Question ${p.index + 1}: ${formatDuration(p.ms)}`}
+                />
+              ))}
+            </div>
+
+            <h3 className="text-sm font-medium text-foreground mb-2">Slowest questions</h3>
+            <div className="space-y-1">
+              {pacing.slowest.map((p) => (
+                <button
+                  key={p.questionId}
+                  onClick={() => setReviewIndex(p.index)}
+                  className="w-full flex items-center justify-between gap-3 p-2 rounded-lg hover:bg-muted text-left text-sm"
+                >
+                  <span className="text-muted-foreground">
+                    Question {p.index + 1} · {p.questionId}
+                  </span>
+                  <span className={cn("font-mono", p.correct ? "text-success" : "text-destructive")}>
+                    {formatDuration(p.ms)}
+                  </span>
+                </button>
+              ))}
+            </div>
+          </motion.div>
+        )}
+
         {/* Review Section */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
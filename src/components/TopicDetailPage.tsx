@@ -8,6 +8,7 @@ import { TopicResourcePanel } from "./TopicResourcePanel";
 import { TopicQuestionsPanel } from "./TopicQuestionsPanel";
 import { TopicProgressButton } from "./TopicProgressButton";
 import { TopicQuiz } from "./TopicQuiz";
+import { PrintStudyPackButton } from "./PrintStudyPackButton";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -24,6 +25,7 @@ import { trackTopicViewed, trackQuizStarted } from "@/lib/amplitude";
 import { motion } from "framer-motion";
 import { PageContainer } from "@/components/ui/page-container";
 import { cn } from "@/lib/utils";
+import { sortByDisplayName } from "@/lib/studyPack";
 import { TOPIC_QUIZ_PASSING_THRESHOLD } from "@/types/navigation";
 
 interface TopicDetailPageProps {
@@ -214,8 +216,17 @@ export function TopicDetailPage({ slug, onBack }: TopicDetailPageProps) {
               )}
             </div>
 
-            {/* Progress button */}
-            <TopicProgressButton topicId={topic.id} questionCount={questionCount} className="shrink-0" />
+            {/* Progress and print buttons */}
+            <div className="flex items-center gap-2 shrink-0">
+              {fullQuestions && fullQuestions.length > 0 && (
+                <PrintStudyPackButton
+                  title={topic.title}
+                  subtitle="Topic study pack"
+                  questions={sortByDisplayName(fullQuestions)}
+                />
+              )}
+              <TopicProgressButton topicId={topic.id} questionCount={questionCount} />
+            </div>
           </div>
         </div>
       </motion.div>
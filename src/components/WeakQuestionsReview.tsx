@@ -9,6 +9,8 @@ import { useAuth } from "@/hooks/useAuth";
 import { useAppNavigation } from "@/hooks/useAppNavigation";
 import { useKeyboardShortcuts, KeyboardShortcut } from "@/hooks/useKeyboardShortcuts";
 import { KeyboardShortcutsHelp } from "@/components/KeyboardShortcutsHelp";
+import { PrintStudyPackButton } from "@/components/PrintStudyPackButton";
+import { AnkiExportButton } from "@/components/AnkiExportButton";
 import { AlertTriangle, Loader2, CheckCircle, ArrowLeft, ChevronLeft, ChevronRight, Dices, Flame } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { Label } from "@/components/ui/label";
@@ -394,12 +396,21 @@ export function WeakQuestionsReview({
               <AlertTriangle className="w-5 h-5 text-destructive" />
               Weak Questions
             </h2>
-            <p className="text-sm text-muted-foreground">
-              {activeWeakQuestions.length} question{activeWeakQuestions.length !== 1 ? 's' : ''} to review
-              {clearedQuestions.size > 0 && (
-                <span className="text-success ml-1">({clearedQuestions.size} cleared)</span>
-              )}
-            </p>
+            <div className="flex flex-wrap items-center justify-end gap-2">
+              <p className="text-sm text-muted-foreground">
+                {activeWeakQuestions.length} question{activeWeakQuestions.length !== 1 ? 's' : ''} to review
+                {clearedQuestions.size > 0 && (
+                  <span className="text-success ml-1">({clearedQuestions.size} cleared)</span>
+                )}
+              </p>
+              <PrintStudyPackButton title="Weak Questions" questions={activeWeakQuestions} size="sm" />
+              <AnkiExportButton
+                questions={activeWeakQuestions}
+                deckName="Weak Questions"
+                setTag="weak-questions"
+                size="sm"
+              />
+            </div>
           </div>
           <div className="flex items-center justify-between py-2">
             <div className="flex items-center gap-2">
@@ -152,7 +152,7 @@ describe('WeeklyGoalsModal', () => {
       await user.click(screen.getByRole('button', { name: /save goals/i }));
 
       await waitFor(() => {
-        expect(mockUpsertGoals).toHaveBeenCalledWith('user-123', 50, 2);
+        expect(mockUpsertGoals).toHaveBeenCalledWith('user-123', 50, 2, [0, 1, 2, 3, 4, 5, 6]);
       });
     });
 
@@ -169,7 +169,7 @@ describe('WeeklyGoalsModal', () => {
       await user.click(screen.getByRole('button', { name: /save goals/i }));
 
       await waitFor(() => {
-        expect(mockUpsertGoals).toHaveBeenCalledWith('user-123', 100, 5);
+        expect(mockUpsertGoals).toHaveBeenCalledWith('user-123', 100, 5, [0, 1, 2, 3, 4, 5, 6]);
       });
     });
 
@@ -224,6 +224,68 @@ describe('WeeklyGoalsModal', () => {
     });
   });
 
+  describe('Study Days', () => {
+    it('saves the chosen study days', async () => {
+      const user = userEvent.setup();
+
+      render(
+        <WeeklyGoalsModal
+          {...defaultProps}
+          currentGoals={{ questions_goal: 100, tests_goal: 5, study_days: [1, 3] }}
+        />
+      );
+
+      expect(screen.getByRole('button', { name: 'Monday' })).toHaveAttribute('aria-pressed', 'true');
+      expect(screen.getByRole('button', { name: 'Friday' })).toHaveAttribute('aria-pressed', 'false');
+
+      await user.click(screen.getByRole('button', { name: 'Friday' }));
+      await user.click(screen.getByRole('button', { name: 'Monday' }));
+      await user.click(screen.getByRole('button', { name: /save goals/i }));
+
+      await waitFor(() => {
+        expect(mockUpsertGoals).toHaveBeenCalledWith('user-123', 100, 5, [3, 5]);
+      });
+    });
+
+    it('keeps at least one study day', async () => {
+      const user = userEvent.setup();
+
+      render(
+        <WeeklyGoalsModal
+          {...defaultProps}
+          currentGoals={{ questions_goal: 100, tests_goal: 5, study_days: [6] }}
+        />
+      );
+
+      await user.click(screen.getByRole('button', { name: 'Saturday' }));
+
+      expect(screen.getByRole('button', { name: 'Saturday' })).toHaveAttribute('aria-pressed', 'true');
+    });
+  });
+
+  describe('Study Plan Suggestion', () => {
+    it('does not suggest goals without a plan', () => {
+      render(<WeeklyGoalsModal {...defaultProps} />);
+
+      expect(screen.queryByRole('button', { name: /use plan/i })).not.toBeInTheDocument();
+    });
+
+    it("fills in the plan's weekly targets", async () => {
+      const user = userEvent.setup();
+
+      render(<WeeklyGoalsModal {...defaultProps} suggestedGoals={{ questions: 184, tests: 3 }} />);
+
+      expect(screen.getByText(/suggests 184 questions and 3 practice tests/)).toBeInTheDocument();
+
+      await user.click(screen.getByRole('button', { name: /use plan/i }));
+      await user.click(screen.getByRole('button', { name: /save goals/i }));
+
+      await waitFor(() => {
+        expect(mockUpsertGoals).toHaveBeenCalledWith('user-123', 180, 3, [0, 1, 2, 3, 4, 5, 6]);
+      });
+    });
+  });
+
   describe('Error Handling', () => {
     it('shows error toast when save fails', async () => {
       const user = userEvent.setup();
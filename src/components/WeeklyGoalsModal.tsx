@@ -6,13 +6,29 @@ import { Slider } from '@/components/ui/slider';
 import { weeklyGoalsService } from '@/services/weeklyGoals/weeklyGoalsService';
 import { unwrapOrThrow } from '@/services/types';
 import { toast } from 'sonner';
-import { Target, Brain, Loader2 } from 'lucide-react';
+import { Target, Brain, CalendarDays, Loader2, Wand2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { ALL_STUDY_DAYS } from '@/lib/studyPlan';
+
+const WEEKDAYS = [
+  { day: 0, short: 'S', name: 'Sunday' },
+  { day: 1, short: 'M', name: 'Monday' },
+  { day: 2, short: 'T', name: 'Tuesday' },
+  { day: 3, short: 'W', name: 'Wednesday' },
+  { day: 4, short: 'T', name: 'Thursday' },
+  { day: 5, short: 'F', name: 'Friday' },
+  { day: 6, short: 'S', name: 'Saturday' },
+];
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
 
 interface WeeklyGoalsModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   userId: string;
-  currentGoals: { questions_goal: number; tests_goal: number } | null;
+  currentGoals: { questions_goal: number; tests_goal: number; study_days?: number[] } | null;
+  /** This week's targets from the learner's study plan, when they have one */
+  suggestedGoals?: { questions: number; tests: number } | null;
   onGoalsUpdated: () => void;
 }
 
@@ -21,27 +37,47 @@ export function WeeklyGoalsModal({
   onOpenChange,
   userId,
   currentGoals,
+  suggestedGoals,
   onGoalsUpdated,
 }: WeeklyGoalsModalProps) {
   const [questionsGoal, setQuestionsGoal] = useState(50);
   const [testsGoal, setTestsGoal] = useState(2);
+  const [studyDays, setStudyDays] = useState<number[]>(ALL_STUDY_DAYS);
   const [isSaving, setIsSaving] = useState(false);
 
   useEffect(() => {
     if (currentGoals) {
       setQuestionsGoal(currentGoals.questions_goal);
       setTestsGoal(currentGoals.tests_goal);
+      setStudyDays(currentGoals.study_days ?? ALL_STUDY_DAYS);
     } else {
       setQuestionsGoal(50);
       setTestsGoal(2);
+      setStudyDays(ALL_STUDY_DAYS);
     }
   }, [currentGoals, open]);
 
+  // At least one study day stays selected
+  const toggleStudyDay = (day: number) => {
+    setStudyDays((days) =>
+      days.includes(day)
+        ? days.length > 1 ? days.filter((d) => d !== day) : days
+        : [...days, day].sort((a, b) => a - b)
+    );
+  };
+
+  // Round the plan's targets onto the sliders
+  const applySuggestedGoals = () => {
+    if (!suggestedGoals) return;
+    setQuestionsGoal(clamp(Math.round(suggestedGoals.questions / 10) * 10, 10, 200));
+    setTestsGoal(clamp(suggestedGoals.tests, 1, 10));
+  };
+
   const handleSave = async () => {
     setIsSaving(true);
     try {
       unwrapOrThrow(
-        await weeklyGoalsService.upsertGoals(userId, questionsGoal, testsGoal)
+        await weeklyGoalsService.upsertGoals(userId, questionsGoal, testsGoal, studyDays)
       );
 
       toast.success('Weekly goals updated!');
@@ -66,6 +102,19 @@ export function WeeklyGoalsModal({
         </DialogHeader>
 
         <div className="space-y-6 py-4">
+          {suggestedGoals && (
+            <div className="flex items-center justify-between gap-3 rounded-lg border border-primary/20 bg-primary/5 px-3 py-2">
+              <p className="text-xs text-muted-foreground">
+                Your study plan suggests {suggestedGoals.questions} questions and{' '}
+                {suggestedGoals.tests} practice test{suggestedGoals.tests === 1 ? '' : 's'} this week.
+              </p>
+              <Button size="sm" variant="outline" onClick={applySuggestedGoals} className="shrink-0">
+                <Wand2 className="w-4 h-4 mr-2" />
+                Use plan
+              </Button>
+            </div>
+          )}
+
           {/* Questions Goal */}
           <div className="space-y-3">
             <div className="flex items-center justify-between">
@@ -115,6 +164,39 @@ export function WeeklyGoalsModal({
               <span>10</span>
             </div>
           </div>
+
+          {/* Study Days */}
+          <div className="space-y-3">
+            <Label className="flex items-center gap-2">
+              <CalendarDays className="w-4 h-4 text-primary" />
+              Study days
+            </Label>
+            <div className="flex justify-between gap-1">
+              {WEEKDAYS.map(({ day, short, name }) => {
+                const selected = studyDays.includes(day);
+                return (
+                  <button
+                    key={day}
+                    type="button"
+                    onClick={() => toggleStudyDay(day)}
+                    aria-label={name}
+                    aria-pressed={selected}
+                    className={cn(
+                      'w-9 h-9 rounded-full text-sm font-mono font-bold transition-colors',
+                      selected
+                        ? 'bg-primary text-primary-foreground'
+                        : 'bg-secondary text-muted-foreground hover:bg-secondary/80'
+                    )}
+                  >
+                    {short}
+                  </button>
+                );
+              })}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Your study plan only schedules these days.
+            </p>
+          </div>
         </div>
 
         <div className="flex justify-end gap-2">
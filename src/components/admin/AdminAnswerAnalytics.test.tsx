@@ -0,0 +1,134 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { AdminAnswerAnalytics } from './AdminAnswerAnalytics';
+
+const mockRpc = vi.fn();
+const mockQuestions = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => mockRpc(...args),
+    from: () => ({
+      select: () => ({
+        ilike: (...ilikeArgs: unknown[]) => ({
+          eq: (...eqArgs: unknown[]) => mockQuestions(...ilikeArgs, ...eqArgs),
+        }),
+      }),
+    }),
+  },
+}));
+
+const questions = [
+  { id: 'q1', display_name: 'G5A01', subelement: 'G5', correct_answer: 0 },
+  { id: 'q2', display_name: 'G5A02', subelement: 'G5', correct_answer: 1 },
+  { id: 'q3', display_name: 'G1A01', subelement: 'G1', correct_answer: 2 },
+];
+
+function answers(questionId: string, counts: number[]) {
+  return counts.map((attempts, selected_answer) => ({
+    question_id: questionId,
+    selected_answer,
+    ability_group: 'unranked',
+    attempts,
+  }));
+}
+
+function renderAnalytics(testType: 'technician' | 'general' = 'general') {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <AdminAnswerAnalytics testType={testType} />
+    </QueryClientProvider>
+  );
+}
+
+describe('AdminAnswerAnalytics', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockQuestions.mockResolvedValue({ data: questions, error: null });
+    mockRpc.mockImplementation((fn: string) =>
+      Promise.resolve(
+        fn === 'get_question_answer_stats'
+          ? {
+              data: [...answers('q1', [18, 1, 1, 0]), ...answers('q2', [3, 5, 14, 2]), ...answers('q3', [0, 0, 4, 0])],
+              error: null,
+            }
+          : { data: [{ question_id: 'q2', timed_attempts: 24, median_time_ms: 48_000 }], error: null }
+      )
+    );
+  });
+
+  it('loads the exam pool and both stats RPCs', async () => {
+    renderAnalytics();
+
+    await screen.findByTestId('analytics-row-G5A02');
+    expect(mockQuestions).toHaveBeenCalledWith('display_name', 'G%', 'pool_version', '2023-2027');
+    expect(mockRpc).toHaveBeenCalledWith('get_question_answer_stats', {
+      p_exam_prefix: 'G',
+      p_pool_version: '2023-2027',
+    });
+    expect(mockRpc).toHaveBeenCalledWith('get_question_time_stats', {
+      p_exam_prefix: 'G',
+      p_pool_version: '2023-2027',
+    });
+    expect(screen.queryByLabelText('Question Pool')).not.toBeInTheDocument();
+  });
+
+  it('analyses the current pool during a pool transition', async () => {
+    renderAnalytics('technician');
+
+    expect(await screen.findByLabelText('Question Pool')).toHaveTextContent('2022-2026');
+    expect(mockQuestions).toHaveBeenCalledWith('display_name', 'T%', 'pool_version', '2022-2026');
+    expect(mockRpc).toHaveBeenCalledWith('get_question_answer_stats', {
+      p_exam_prefix: 'T',
+      p_pool_version: '2022-2026',
+    });
+  });
+
+  it('shows the answer distribution, correct rate and time per question', async () => {
+    renderAnalytics();
+
+    const row = await screen.findByTestId('analytics-row-G5A02');
+    expect(row).toHaveTextContent('24');
+    expect(row).toHaveTextContent('21%');
+    expect(row).toHaveTextContent('C 58%');
+    expect(row).toHaveTextContent('48s');
+  });
+
+  it('flags hard questions with a strong distractor and lists them first', async () => {
+    renderAnalytics();
+
+    const row = await screen.findByTestId('analytics-row-G5A02');
+    expect(within(row).getByText('Hard')).toBeInTheDocument();
+    expect(within(row).getByText('Distractor C (58%)')).toBeInTheDocument();
+
+    const rows = screen.getAllByTestId(/^analytics-row-/);
+    expect(rows[0]).toBe(row);
+  });
+
+  it('filters questions by subelement and to flagged only', async () => {
+    const user = userEvent.setup();
+    renderAnalytics();
+
+    await screen.findByTestId('analytics-row-G1A01');
+    await user.click(screen.getByText('Commission\'s Rules'));
+
+    expect(screen.getByText('G1 Questions')).toBeInTheDocument();
+    expect(screen.queryByTestId('analytics-row-G5A01')).not.toBeInTheDocument();
+
+    await user.click(screen.getByText('Commission\'s Rules'));
+    await user.click(screen.getByRole('switch', { name: /flagged only/i }));
+
+    expect(screen.getAllByTestId(/^analytics-row-/)).toHaveLength(1);
+  });
+
+  it('shows an error when the stats cannot be loaded', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'Only admins can view answer analytics' } });
+
+    renderAnalytics();
+
+    expect(await screen.findByText(/failed to load answer analytics/i)).toBeInTheDocument();
+  });
+});
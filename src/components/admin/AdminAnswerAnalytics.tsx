@@ -0,0 +1,283 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, AlertTriangle, BarChart3 } from "lucide-react";
+import {
+  MIN_FLAG_ATTEMPTS,
+  answerLetter,
+  buildQuestionAnalytics,
+  compareForReview,
+  summarizeSubelements,
+  type AnalyticsFlag,
+  type QuestionAnalytics,
+} from "@/lib/answerAnalytics";
+import { getPoolVersionForExamType, getPoolVersions } from "@/lib/poolConfig";
+import { getSubelementName } from "@/lib/subelementNames";
+import { cn } from "@/lib/utils";
+import type { TestType } from "@/types/navigation";
+import { TEST_TYPE_PREFIXES } from "./questions";
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+function formatSeconds(ms: number | null): string {
+  return ms === null ? "—" : `${Math.round(ms / 1000)}s`;
+}
+
+function formatDiscrimination(value: number | null): string {
+  return value === null ? "—" : value.toFixed(2);
+}
+
+function flagLabel(flag: AnalyticsFlag, question: QuestionAnalytics): string {
+  switch (flag) {
+    case "hard":
+      return "Hard";
+    case "strong-distractor":
+      return `Distractor ${answerLetter(question.topDistractor!.answer)} (${formatPercent(question.topDistractor!.share)})`;
+    case "low-discrimination":
+      return "Low discrimination";
+  }
+}
+
+/** Share of first tries per choice, with the key highlighted */
+function AnswerDistribution({ counts, correctAnswer }: { counts: number[]; correctAnswer: number }) {
+  const total = counts.reduce((sum, n) => sum + n, 0);
+  return (
+    <div className="flex gap-2 font-mono text-xs">
+      {counts.map((count, answer) => (
+        <span
+          key={answer}
+          className={cn(answer === correctAnswer ? "text-success font-semibold" : "text-muted-foreground")}
+        >
+          {answerLetter(answer)} {formatPercent(total > 0 ? count / total : null)}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+interface AdminAnswerAnalyticsProps {
+  testType: TestType;
+}
+
+/**
+ * First-try answer analytics per question and subelement, flagging
+ * questions explanation writers should look at first.
+ */
+export function AdminAnswerAnalytics({ testType }: AdminAnswerAnalyticsProps) {
+  const [selectedSubelement, setSelectedSubelement] = useState<string | null>(null);
+  const [flaggedOnly, setFlaggedOnly] = useState(false);
+  const prefix = TEST_TYPE_PREFIXES[testType];
+
+  // Display names repeat across pools, so each pool is analysed on its own.
+  // Defaults to the current pool, including after switching exams.
+  const poolVersions = getPoolVersions(testType);
+  const [selectedPool, setSelectedPool] = useState<string | null>(null);
+  const poolVersion = poolVersions.some((pool) => pool.version === selectedPool)
+    ? selectedPool!
+    : getPoolVersionForExamType(testType);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["admin-answer-analytics", testType, poolVersion],
+    queryFn: async () => {
+      const [questions, answers, times] = await Promise.all([
+        supabase
+          .from("questions")
+          .select("id, display_name, subelement, correct_answer")
+          .ilike("display_name", `${prefix}%`)
+          .eq("pool_version", poolVersion),
+        supabase.rpc("get_question_answer_stats", { p_exam_prefix: prefix, p_pool_version: poolVersion }),
+        supabase.rpc("get_question_time_stats", { p_exam_prefix: prefix, p_pool_version: poolVersion }),
+      ]);
+      if (questions.error) throw questions.error;
+      if (answers.error) throw answers.error;
+      if (times.error) throw times.error;
+      return buildQuestionAnalytics(questions.data ?? [], answers.data ?? [], times.data ?? []);
+    },
+  });
+
+  const analytics = useMemo(() => data ?? [], [data]);
+  const subelements = useMemo(() => summarizeSubelements(analytics), [analytics]);
+  const visibleQuestions = useMemo(
+    () =>
+      analytics
+        .filter((q) => !selectedSubelement || q.subelement === selectedSubelement)
+        .filter((q) => !flaggedOnly || q.flags.length > 0)
+        .sort(compareForReview),
+    [analytics, selectedSubelement, flaggedOnly]
+  );
+
+  return (
+    <div className="space-y-6 pb-8">
+      <div>
+        <h2 className="text-xl font-semibold text-foreground flex items-center gap-2">
+          <BarChart3 className="w-5 h-5" />
+          Answer Analytics
+        </h2>
+        <p className="text-sm text-muted-foreground">
+          Each learner's first try at each question. Discrimination compares the top and bottom 27% of learners by
+          overall accuracy; questions are flagged once they have {MIN_FLAG_ATTEMPTS} first tries.
+        </p>
+      </div>
+
+      {poolVersions.length > 1 && (
+        <div className="max-w-xs">
+          <Label htmlFor="analytics-pool">Question Pool</Label>
+          <Select value={poolVersion} onValueChange={setSelectedPool}>
+            <SelectTrigger id="analytics-pool" className="mt-2">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {poolVersions.map((pool) => (
+                <SelectItem key={pool.version} value={pool.version}>
+                  {pool.version} (effective {pool.effectiveDate})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : isError ? (
+        <div className="text-center py-12">
+          <AlertTriangle className="w-12 h-12 text-destructive mx-auto mb-4" />
+          <p className="text-muted-foreground">
+            Failed to load answer analytics. Make sure you have admin access.
+          </p>
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">By Subelement</CardTitle>
+              <CardDescription>Select a subelement to filter the questions below.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Subelement</TableHead>
+                    <TableHead className="text-right">First Tries</TableHead>
+                    <TableHead className="text-right">Correct</TableHead>
+                    <TableHead>Answers</TableHead>
+                    <TableHead className="text-right">Discrimination</TableHead>
+                    <TableHead className="text-right">Median Time</TableHead>
+                    <TableHead className="text-right">Flagged</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {subelements.map((s) => (
+                    <TableRow
+                      key={s.subelement}
+                      className={cn("cursor-pointer", selectedSubelement === s.subelement && "bg-muted")}
+                      onClick={() =>
+                        setSelectedSubelement((current) => (current === s.subelement ? null : s.subelement))
+                      }
+                      aria-selected={selectedSubelement === s.subelement}
+                    >
+                      <TableCell>
+                        <span className="font-mono">{s.subelement}</span>{" "}
+                        <span className="text-muted-foreground">{getSubelementName(testType, s.subelement)}</span>
+                      </TableCell>
+                      <TableCell className="text-right">{s.attempts}</TableCell>
+                      <TableCell className="text-right">{formatPercent(s.firstTryCorrectRate)}</TableCell>
+                      <TableCell>
+                        <div className="flex gap-2 font-mono text-xs text-muted-foreground">
+                          {s.choiceCounts.map((count, answer) => (
+                            <span key={answer}>
+                              {answerLetter(answer)} {formatPercent(s.attempts > 0 ? count / s.attempts : null)}
+                            </span>
+                          ))}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatDiscrimination(s.meanDiscrimination)}</TableCell>
+                      <TableCell className="text-right">{formatSeconds(s.medianTimeMs)}</TableCell>
+                      <TableCell className="text-right">
+                        {s.flaggedCount > 0 ? <Badge variant="destructive">{s.flaggedCount}</Badge> : 0}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+              <div>
+                <CardTitle className="text-base">
+                  {selectedSubelement ? `${selectedSubelement} Questions` : "All Questions"}
+                </CardTitle>
+                <CardDescription>Flagged first, then lowest first-try correct rate.</CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="analytics-flagged-only" checked={flaggedOnly} onCheckedChange={setFlaggedOnly} />
+                <Label htmlFor="analytics-flagged-only">Flagged only</Label>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {visibleQuestions.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4 text-center">No questions match.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Question</TableHead>
+                      <TableHead className="text-right">First Tries</TableHead>
+                      <TableHead className="text-right">Correct</TableHead>
+                      <TableHead>Answers</TableHead>
+                      <TableHead className="text-right">Discrimination</TableHead>
+                      <TableHead className="text-right">Median Time</TableHead>
+                      <TableHead>Flags</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleQuestions.map((q) => (
+                      <TableRow key={q.questionId} data-testid={`analytics-row-${q.displayName}`}>
+                        <TableCell className="font-mono">{q.displayName}</TableCell>
+                        <TableCell className="text-right">{q.attempts}</TableCell>
+                        <TableCell className="text-right">{formatPercent(q.firstTryCorrectRate)}</TableCell>
+                        <TableCell>
+                          <AnswerDistribution counts={q.choiceCounts} correctAnswer={q.correctAnswer} />
+                        </TableCell>
+                        <TableCell className="text-right">{formatDiscrimination(q.discrimination)}</TableCell>
+                        <TableCell className="text-right">{formatSeconds(q.medianTimeMs)}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            {q.flags.map((flag) => (
+                              <Badge key={flag} variant={flag === "low-discrimination" ? "secondary" : "destructive"}>
+                                {flagLabel(flag, q)}
+                              </Badge>
+                            ))}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -9,9 +9,20 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { toast } from "sonner";
 import { Plus, Trash2, Search, Loader2, Pencil } from "lucide-react";
+import { useGlossaryDecks } from "@/hooks/useGlossaryDecks";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { BulkImportGlossary } from "./BulkImportGlossary";
+import { AdminGlossaryDecks } from "./AdminGlossaryDecks";
 import { BulkExport, escapeCSVField } from "./BulkExport";
 import { EditHistoryViewer, EditHistoryEntry } from "./EditHistoryViewer";
+import { ContentRevisionHistory } from "./ContentRevisionHistory";
 import { Separator } from "@/components/ui/separator";
 import {
   AlertDialog,
@@ -36,6 +47,7 @@ interface GlossaryTerm {
   id: string;
   term: string;
   definition: string;
+  deck_id: string | null;
   edit_history?: EditHistoryEntry[];
 }
 
@@ -45,19 +57,26 @@ export function AdminGlossary() {
   const [searchTerm, setSearchTerm] = useState("");
   const [newTerm, setNewTerm] = useState("");
   const [newDefinition, setNewDefinition] = useState("");
+  const [newDeckId, setNewDeckId] = useState("");
+  const [deckFilter, setDeckFilter] = useState<string>("all");
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   
   // Edit state
   const [editingTerm, setEditingTerm] = useState<GlossaryTerm | null>(null);
   const [editTerm, setEditTerm] = useState("");
   const [editDefinition, setEditDefinition] = useState("");
+  const [editDeckId, setEditDeckId] = useState("");
+
+  const { data: decks = [] } = useGlossaryDecks();
+  const deckNames = Object.fromEntries(decks.map((d) => [d.id, d.name]));
+  const deckSlugs = Object.fromEntries(decks.map((d) => [d.id, d.slug]));
 
   const { data: terms = [], isLoading } = useQuery({
     queryKey: ['admin-glossary-terms'],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('glossary_terms')
-        .select('id, term, definition, edit_history')
+        .select('id, term, definition, deck_id, edit_history')
         .order('term', { ascending: true });
       
       if (error) throw error;
@@ -69,7 +88,7 @@ export function AdminGlossary() {
   });
 
   const addTerm = useMutation({
-    mutationFn: async ({ term, definition }: { term: string; definition: string }) => {
+    mutationFn: async ({ term, definition, deckId }: { term: string; definition: string; deckId: string }) => {
       if (!user) throw new Error('Not authenticated');
       const historyEntry: EditHistoryEntry = {
         user_id: user.id,
@@ -84,6 +103,7 @@ export function AdminGlossary() {
         .insert({ 
           term: term.trim(), 
           definition: definition.trim(),
+          deck_id: deckId || null,
           edit_history: JSON.parse(JSON.stringify([historyEntry]))
         });
       
@@ -94,6 +114,7 @@ export function AdminGlossary() {
       queryClient.invalidateQueries({ queryKey: ['glossary-terms'] });
       setNewTerm("");
       setNewDefinition("");
+      setNewDeckId("");
       setIsAddDialogOpen(false);
       toast.success("Term added successfully");
     },
@@ -103,7 +124,7 @@ export function AdminGlossary() {
   });
 
   const updateTerm = useMutation({
-    mutationFn: async ({ id, term, definition, originalTerm }: { id: string; term: string; definition: string; originalTerm: GlossaryTerm }) => {
+    mutationFn: async ({ id, term, definition, deckId, originalTerm }: { id: string; term: string; definition: string; deckId: string; originalTerm: GlossaryTerm }) => {
       if (!user) throw new Error('Not authenticated');
       // Build changes object
       const changes: Record<string, { from: unknown; to: unknown }> = {};
@@ -113,6 +134,12 @@ export function AdminGlossary() {
       if (originalTerm.definition !== definition.trim()) {
         changes.definition = { from: originalTerm.definition, to: definition.trim() };
       }
+      if ((originalTerm.deck_id ?? "") !== deckId) {
+        changes.deck = {
+          from: deckNames[originalTerm.deck_id ?? ""] ?? null,
+          to: deckNames[deckId] ?? null,
+        };
+      }
 
       const historyEntry: EditHistoryEntry = {
         user_id: user.id,
@@ -129,6 +156,7 @@ export function AdminGlossary() {
         .update({ 
           term: term.trim(), 
           definition: definition.trim(),
+          deck_id: deckId || null,
           edit_history: JSON.parse(JSON.stringify([...existingHistory, historyEntry]))
         })
         .eq('id', id);
@@ -168,23 +196,34 @@ export function AdminGlossary() {
 
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
 
-  const filteredTerms = terms.filter(t => 
-    t.term.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    t.definition.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const termCounts = terms.reduce<Record<string, number>>((counts, t) => {
+    if (t.deck_id) counts[t.deck_id] = (counts[t.deck_id] ?? 0) + 1;
+    return counts;
+  }, {});
+
+  const filteredTerms = terms.filter(t => {
+    const matchesSearch =
+      t.term.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      t.definition.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesDeck =
+      deckFilter === "all" ||
+      (deckFilter === "none" ? !t.deck_id : t.deck_id === deckFilter);
+    return matchesSearch && matchesDeck;
+  });
 
   const handleAddTerm = () => {
     if (!newTerm.trim() || !newDefinition.trim()) {
       toast.error("Please fill in both term and definition");
       return;
     }
-    addTerm.mutate({ term: newTerm, definition: newDefinition });
+    addTerm.mutate({ term: newTerm, definition: newDefinition, deckId: newDeckId });
   };
 
   const handleEditClick = (term: GlossaryTerm) => {
     setEditingTerm(term);
     setEditTerm(term.term);
     setEditDefinition(term.definition);
+    setEditDeckId(term.deck_id ?? "");
   };
 
   const handleUpdateTerm = () => {
@@ -192,7 +231,7 @@ export function AdminGlossary() {
       toast.error("Please fill in both term and definition");
       return;
     }
-    updateTerm.mutate({ id: editingTerm.id, term: editTerm, definition: editDefinition, originalTerm: editingTerm });
+    updateTerm.mutate({ id: editingTerm.id, term: editTerm, definition: editDefinition, deckId: editDeckId, originalTerm: editingTerm });
   };
 
   return (
@@ -219,6 +258,25 @@ export function AdminGlossary() {
                 rows={5}
               />
             </div>
+            <div>
+              <Label>Deck</Label>
+              <Select
+                value={editDeckId || "none"}
+                onValueChange={(val) => setEditDeckId(val === "none" ? "" : val)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select deck..." />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No deck</SelectItem>
+                  {decks.map((deck) => (
+                    <SelectItem key={deck.id} value={deck.id}>
+                      {deck.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             
             <Separator />
             
@@ -226,6 +284,11 @@ export function AdminGlossary() {
               history={editingTerm?.edit_history || []} 
               entityType="term" 
             />
+            <ContentRevisionHistory
+              entityType="glossary_term"
+              entityId={editingTerm?.id}
+              onRestored={() => setEditingTerm(null)}
+            />
             <div className="flex justify-between gap-2">
               <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
                 <AlertDialogTrigger asChild>
@@ -292,6 +355,25 @@ export function AdminGlossary() {
                 rows={5}
               />
             </div>
+            <div>
+              <Label>Deck</Label>
+              <Select
+                value={newDeckId || "none"}
+                onValueChange={(val) => setNewDeckId(val === "none" ? "" : val)}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select deck..." />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No deck</SelectItem>
+                  {decks.map((deck) => (
+                    <SelectItem key={deck.id} value={deck.id}>
+                      {deck.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="flex justify-end gap-2">
               <Button variant="outline" onClick={() => setIsAddDialogOpen(false)}>
                 Cancel
@@ -320,17 +402,19 @@ export function AdminGlossary() {
                 filename="glossary_terms"
                 itemLabel="terms"
                 formatCSV={(items) => {
-                  const header = 'term,definition';
+                  const header = 'term,definition,deck';
                   const rows = items.map(t => 
-                    `${escapeCSVField(t.term)},${escapeCSVField(t.definition)}`
+                    `${escapeCSVField(t.term)},${escapeCSVField(t.definition)},${escapeCSVField(deckSlugs[t.deck_id ?? ''] ?? '')}`
                   );
                   return [header, ...rows].join('\n');
                 }}
                 formatJSON={(items) => items.map(t => ({
                   term: t.term,
                   definition: t.definition,
+                  deck: deckSlugs[t.deck_id ?? ''] ?? null,
                 }))}
               />
+              <AdminGlossaryDecks termCounts={termCounts} />
               <BulkImportGlossary />
               <Button onClick={() => setIsAddDialogOpen(true)}>
                 <Plus className="w-4 h-4 mr-2" />
@@ -338,14 +422,30 @@ export function AdminGlossary() {
               </Button>
             </div>
           </CardTitle>
-          <div className="relative mt-4">
-            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-            <Input
-              placeholder="Search terms..."
-              value={searchTerm}
-              onChange={(e) => setSearchTerm(e.target.value)}
-              className="pl-10"
-            />
+          <div className="flex gap-4 mt-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search terms..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={deckFilter} onValueChange={setDeckFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="All decks" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All decks</SelectItem>
+                <SelectItem value="none">No deck</SelectItem>
+                {decks.map((deck) => (
+                  <SelectItem key={deck.id} value={deck.id}>
+                    {deck.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
           </div>
         </CardHeader>
         <CardContent className="flex-1 min-h-0 overflow-hidden">
@@ -361,7 +461,12 @@ export function AdminGlossary() {
                   className="flex items-start justify-between p-4 rounded-lg border border-border bg-card hover:bg-secondary/30 transition-colors"
                 >
                   <div className="flex-1 min-w-0 mr-4">
-                    <h4 className="font-semibold text-foreground">{term.term}</h4>
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-semibold text-foreground">{term.term}</h4>
+                      {term.deck_id && deckNames[term.deck_id] && (
+                        <Badge variant="secondary" className="text-xs">{deckNames[term.deck_id]}</Badge>
+                      )}
+                    </div>
                     <p className="text-sm text-muted-foreground line-clamp-2">{term.definition}</p>
                   </div>
                   <Button 
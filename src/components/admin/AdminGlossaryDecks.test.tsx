@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { AdminGlossaryDecks } from './AdminGlossaryDecks';
+
+// Mock Supabase client
+const mockFrom = vi.fn();
+const mockInsert = vi.fn();
+const mockUpdateEq = vi.fn();
+const mockDeleteEq = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+  },
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { toast } from 'sonner';
+
+const mockDecks = [
+  { id: 'deck-q', slug: 'q-codes', name: 'Q-Codes', description: 'Q signals', display_order: 1 },
+  { id: 'deck-p', slug: 'prosigns', name: 'Prosigns', description: null, display_order: 2 },
+];
+
+const renderDecks = () => {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  render(
+    <QueryClientProvider client={queryClient}>
+      <AdminGlossaryDecks termCounts={{ 'deck-q': 12 }} />
+    </QueryClientProvider>
+  );
+  fireEvent.click(screen.getByRole('button', { name: /decks/i }));
+};
+
+describe('AdminGlossaryDecks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockInsert.mockResolvedValue({ error: null });
+    mockUpdateEq.mockResolvedValue({ error: null });
+    mockDeleteEq.mockResolvedValue({ error: null });
+    mockFrom.mockReturnValue({
+      select: () => ({ order: () => ({ order: () => Promise.resolve({ data: mockDecks, error: null }) }) }),
+      insert: mockInsert,
+      update: (row: unknown) => ({ eq: (...args: unknown[]) => mockUpdateEq(row, ...args) }),
+      delete: () => ({ eq: mockDeleteEq }),
+    });
+  });
+
+  it('lists decks with their term counts', async () => {
+    renderDecks();
+
+    expect(await screen.findByText('Q-Codes')).toBeInTheDocument();
+    expect(screen.getByText('12 terms')).toBeInTheDocument();
+    expect(screen.getByText('0 terms')).toBeInTheDocument();
+    expect(screen.getByText('/prosigns')).toBeInTheDocument();
+  });
+
+  it('adds a deck with a slug made from its name', async () => {
+    renderDecks();
+    await screen.findByText('Q-Codes');
+
+    fireEvent.click(screen.getByRole('button', { name: /add deck/i }));
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: 'Band-Plan Edges' } });
+    fireEvent.click(screen.getByRole('button', { name: /save deck/i }));
+
+    await waitFor(() => {
+      expect(mockInsert).toHaveBeenCalledWith({
+        name: 'Band-Plan Edges',
+        slug: 'band-plan-edges',
+        description: null,
+        display_order: 3,
+      });
+    });
+    expect(toast.success).toHaveBeenCalledWith('Deck added successfully');
+  });
+
+  it('requires a name', async () => {
+    renderDecks();
+    await screen.findByText('Q-Codes');
+
+    fireEvent.click(screen.getByRole('button', { name: /add deck/i }));
+    fireEvent.click(screen.getByRole('button', { name: /save deck/i }));
+
+    expect(toast.error).toHaveBeenCalledWith('Please enter a deck name');
+    expect(mockInsert).not.toHaveBeenCalled();
+  });
+
+  it('edits an existing deck', async () => {
+    renderDecks();
+    await screen.findByText('Q-Codes');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Edit Q-Codes' }));
+    fireEvent.change(screen.getByLabelText('Description'), { target: { value: 'Common Q signals' } });
+    fireEvent.click(screen.getByRole('button', { name: /save deck/i }));
+
+    await waitFor(() => {
+      expect(mockUpdateEq).toHaveBeenCalledWith(
+        { name: 'Q-Codes', slug: 'q-codes', description: 'Common Q signals', display_order: 1 },
+        'id',
+        'deck-q'
+      );
+    });
+  });
+
+  it('deletes a deck after confirmation', async () => {
+    renderDecks();
+    await screen.findByText('Q-Codes');
+
+    fireEvent.click(screen.getByRole('button', { name: 'Delete Q-Codes' }));
+    expect(screen.getByText(/its 12 terms stay in the glossary/i)).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Delete' }));
+
+    await waitFor(() => {
+      expect(mockDeleteEq).toHaveBeenCalledWith('id', 'deck-q');
+    });
+  });
+});
@@ -0,0 +1,287 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useGlossaryDecks, type GlossaryDeck } from "@/hooks/useGlossaryDecks";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Layers, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+
+interface AdminGlossaryDecksProps {
+  /** Number of terms in each deck, by deck id */
+  termCounts: Record<string, number>;
+}
+
+interface DeckForm {
+  name: string;
+  slug: string;
+  description: string;
+  display_order: string;
+}
+
+const EMPTY_FORM: DeckForm = { name: "", slug: "", description: "", display_order: "" };
+
+const toSlug = (value: string) =>
+  value.trim().toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+
+export function AdminGlossaryDecks({ termCounts }: AdminGlossaryDecksProps) {
+  const queryClient = useQueryClient();
+  const { data: decks = [], isLoading } = useGlossaryDecks();
+  const [isOpen, setIsOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+  const [form, setForm] = useState<DeckForm>(EMPTY_FORM);
+  const [deckToDelete, setDeckToDelete] = useState<GlossaryDeck | null>(null);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['glossary-decks'] });
+    queryClient.invalidateQueries({ queryKey: ['admin-glossary-terms'] });
+    queryClient.invalidateQueries({ queryKey: ['glossary-terms'] });
+  };
+
+  const saveDeck = useMutation({
+    mutationFn: async ({ id, values }: { id: string | "new"; values: DeckForm }) => {
+      const row = {
+        name: values.name.trim(),
+        slug: toSlug(values.slug || values.name),
+        description: values.description.trim() || null,
+        display_order: Number(values.display_order) || 0,
+      };
+      const { error } = id === "new"
+        ? await supabase.from('glossary_decks').insert(row)
+        : await supabase.from('glossary_decks').update(row).eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { id }) => {
+      invalidate();
+      setEditingId(null);
+      setForm(EMPTY_FORM);
+      toast.success(id === "new" ? "Deck added successfully" : "Deck updated successfully");
+    },
+    onError: (error) => {
+      toast.error("Failed to save deck: " + error.message);
+    },
+  });
+
+  const deleteDeck = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('glossary_decks')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setDeckToDelete(null);
+      toast.success("Deck deleted successfully");
+    },
+    onError: (error) => {
+      toast.error("Failed to delete deck: " + error.message);
+    },
+  });
+
+  const startEditing = (deck: GlossaryDeck | null) => {
+    setEditingId(deck ? deck.id : "new");
+    setForm(deck
+      ? {
+          name: deck.name,
+          slug: deck.slug,
+          description: deck.description ?? "",
+          display_order: String(deck.display_order),
+        }
+      : { ...EMPTY_FORM, display_order: String(decks.length + 1) });
+  };
+
+  const handleSave = () => {
+    if (!editingId) return;
+    if (!form.name.trim()) {
+      toast.error("Please enter a deck name");
+      return;
+    }
+    if (!toSlug(form.slug || form.name)) {
+      toast.error("Please enter a slug");
+      return;
+    }
+    saveDeck.mutate({ id: editingId, values: form });
+  };
+
+  const renderForm = () => (
+    <div className="space-y-3 rounded-lg border border-primary/30 bg-secondary/30 p-4">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div>
+          <Label htmlFor="deck-name">Name</Label>
+          <Input
+            id="deck-name"
+            placeholder="Q-Codes"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="deck-slug">Slug</Label>
+          <Input
+            id="deck-slug"
+            placeholder={toSlug(form.name) || "q-codes"}
+            value={form.slug}
+            onChange={(e) => setForm({ ...form, slug: e.target.value })}
+          />
+        </div>
+      </div>
+      <div className="grid gap-3 sm:grid-cols-[1fr_100px]">
+        <div>
+          <Label htmlFor="deck-description">Description</Label>
+          <Input
+            id="deck-description"
+            value={form.description}
+            onChange={(e) => setForm({ ...form, description: e.target.value })}
+          />
+        </div>
+        <div>
+          <Label htmlFor="deck-order">Order</Label>
+          <Input
+            id="deck-order"
+            type="number"
+            value={form.display_order}
+            onChange={(e) => setForm({ ...form, display_order: e.target.value })}
+          />
+        </div>
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={() => setEditingId(null)}>
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={saveDeck.isPending}>
+          {saveDeck.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save Deck
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <>
+      <Dialog open={isOpen} onOpenChange={(open) => {
+        setIsOpen(open);
+        if (!open) setEditingId(null);
+      }}>
+        <DialogTrigger asChild>
+          <Button variant="outline">
+            <Layers className="w-4 h-4 mr-2" />
+            Decks
+          </Button>
+        </DialogTrigger>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Glossary Decks</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-muted-foreground">
+            Decks group terms for focused drills. Assign terms to a deck when editing them or with a
+            deck column in Bulk Import. Deleting a deck keeps its terms.
+          </p>
+
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {decks.map((deck) =>
+                editingId === deck.id ? (
+                  <div key={deck.id}>{renderForm()}</div>
+                ) : (
+                  <div
+                    key={deck.id}
+                    className="flex items-start justify-between gap-4 rounded-lg border border-border bg-card p-3"
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="font-semibold text-foreground">{deck.name}</span>
+                        <Badge variant="secondary">{termCounts[deck.id] ?? 0} terms</Badge>
+                      </div>
+                      <p className="font-mono text-xs text-muted-foreground">/{deck.slug}</p>
+                      {deck.description && (
+                        <p className="text-sm text-muted-foreground mt-1">{deck.description}</p>
+                      )}
+                    </div>
+                    <div className="flex shrink-0">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Edit ${deck.name}`}
+                        onClick={() => startEditing(deck)}
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        aria-label={`Delete ${deck.name}`}
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                        onClick={() => setDeckToDelete(deck)}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                )
+              )}
+              {decks.length === 0 && editingId !== "new" && (
+                <p className="text-center text-muted-foreground py-4">No decks yet</p>
+              )}
+              {editingId === "new" ? (
+                renderForm()
+              ) : (
+                <Button variant="outline" className="w-full" onClick={() => startEditing(null)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Deck
+                </Button>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deckToDelete} onOpenChange={(open) => !open && setDeckToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Deck</AlertDialogTitle>
+            <AlertDialogDescription>
+              Are you sure you want to delete "{deckToDelete?.name}"? Its{" "}
+              {termCounts[deckToDelete?.id ?? ""] ?? 0} terms stay in the glossary without a deck.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deckToDelete && deleteDeck.mutate(deckToDelete.id)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -20,6 +20,7 @@ import { Badge } from "@/components/ui/badge";
 import { toast } from "sonner";
 import { Plus, Trash2, Search, Loader2, Pencil, ExternalLink, Wrench } from "lucide-react";
 import { EditHistoryViewer, EditHistoryEntry } from "./EditHistoryViewer";
+import { ContentRevisionHistory } from "./ContentRevisionHistory";
 import { HamRadioToolImageUpload } from "./HamRadioToolImageUpload";
 import { Separator } from "@/components/ui/separator";
 import {
@@ -80,6 +81,7 @@ export function AdminHamRadioTools() {
   const deleteTool = useDeleteHamRadioTool();
 
   const isLoading = toolsLoading || categoriesLoading;
+  const categoryNames = Object.fromEntries(categories.map((c) => [c.id, c.name]));
 
   // Filter tools
   const filteredTools = tools.filter((t) => {
@@ -298,6 +300,12 @@ export function AdminHamRadioTools() {
               history={(editingTool?.edit_history || []) as EditHistoryEntry[]}
               entityType="tool"
             />
+            <ContentRevisionHistory
+              entityType="tool"
+              entityId={editingTool?.id}
+              displayNames={categoryNames}
+              onRestored={() => setEditingTool(null)}
+            />
 
             <div className="flex justify-between gap-2">
               <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
@@ -120,9 +120,11 @@ describe('AdminQuestions', () => {
         return {
           select: vi.fn().mockReturnValue({
             ilike: vi.fn().mockReturnValue({
-              order: vi.fn().mockResolvedValue({
-                data: mockQuestions,
-                error: null,
+              eq: vi.fn().mockReturnValue({
+                order: vi.fn().mockResolvedValue({
+                  data: mockQuestions,
+                  error: null,
+                }),
               }),
             }),
           }),
@@ -189,7 +191,9 @@ describe('AdminQuestions', () => {
       mockFrom.mockImplementation(() => ({
         select: vi.fn().mockReturnValue({
           ilike: vi.fn().mockReturnValue({
-            order: vi.fn().mockReturnValue(new Promise(() => {})),
+            eq: vi.fn().mockReturnValue({
+              order: vi.fn().mockReturnValue(new Promise(() => {})),
+            }),
           }),
         }),
       }));
@@ -517,17 +521,37 @@ describe('AdminQuestions', () => {
       });
     });
 
+    it('should list one question pool at a time', async () => {
+      const mockPoolEq = vi.fn().mockReturnValue({
+        order: vi.fn().mockResolvedValue({ data: mockQuestions, error: null }),
+      });
+      mockFrom.mockImplementation(() => ({
+        select: vi.fn().mockReturnValue({
+          ilike: vi.fn().mockReturnValue({ eq: mockPoolEq }),
+        }),
+      }));
+
+      renderComponent({ testType: 'technician' });
+
+      await waitFor(() => {
+        expect(mockPoolEq).toHaveBeenCalledWith('pool_version', '2022-2026');
+      });
+      expect(screen.getByRole('combobox', { name: 'Question pool' })).toBeInTheDocument();
+    });
+
     it('should filter General questions (G prefix)', async () => {
       mockFrom.mockImplementation((table: string) => {
         if (table === 'questions') {
           return {
             select: vi.fn().mockReturnValue({
               ilike: vi.fn().mockReturnValue({
-                order: vi.fn().mockResolvedValue({
-                  data: [
-                    { ...mockQuestions[0], id: 'uuid-g1', display_name: 'G1A01', topic_questions: [] },
-                  ],
-                  error: null,
+                eq: vi.fn().mockReturnValue({
+                  order: vi.fn().mockResolvedValue({
+                    data: [
+                      { ...mockQuestions[0], id: 'uuid-g1', display_name: 'G1A01', topic_questions: [] },
+                    ],
+                    error: null,
+                  }),
                 }),
               }),
             }),
@@ -549,11 +573,13 @@ describe('AdminQuestions', () => {
           return {
             select: vi.fn().mockReturnValue({
               ilike: vi.fn().mockReturnValue({
-                order: vi.fn().mockResolvedValue({
-                  data: [
-                    { ...mockQuestions[0], id: 'uuid-e1', display_name: 'E1A01', topic_questions: [] },
-                  ],
-                  error: null,
+                eq: vi.fn().mockReturnValue({
+                  order: vi.fn().mockResolvedValue({
+                    data: [
+                      { ...mockQuestions[0], id: 'uuid-e1', display_name: 'E1A01', topic_questions: [] },
+                    ],
+                    error: null,
+                  }),
                 }),
               }),
             }),
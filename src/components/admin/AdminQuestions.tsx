@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from 'sonner';
 import { Loader2 } from 'lucide-react';
 import { BulkImportQuestions } from './BulkImportQuestions';
@@ -10,6 +11,7 @@ import { useExplanationFeedbackStats } from '@/hooks/useExplanationFeedback';
 import { useAdminTopics } from '@/hooks/useTopics';
 import { useQuestionMutations } from '@/hooks/useQuestionMutations';
 import { useArrlChapters } from '@/hooks/useArrlChapters';
+import { getPoolVersionForExamType, getPoolVersions } from '@/lib/poolConfig';
 import type { LicenseType } from '@/types/chapters';
 import {
   QuestionEditDialog,
@@ -66,8 +68,15 @@ export function AdminQuestions({ testType, highlightQuestionId }: AdminQuestions
 
   const prefix = TEST_TYPE_PREFIXES[testType];
 
+  // Display names repeat across pools, so the list shows one pool at a time
+  const poolVersions = getPoolVersions(testType);
+  const [selectedPool, setSelectedPool] = useState<string | null>(null);
+  const poolVersion = poolVersions.some((pool) => pool.version === selectedPool)
+    ? selectedPool!
+    : getPoolVersionForExamType(testType);
+
   const { data: questions = [], isLoading } = useQuery({
-    queryKey: ['admin-questions', testType],
+    queryKey: ['admin-questions', testType, poolVersion],
     queryFn: async () => {
       const { data, error } = await supabase
         .from('questions')
@@ -75,13 +84,14 @@ export function AdminQuestions({ testType, highlightQuestionId }: AdminQuestions
           `
           id, display_name, question, options, correct_answer,
           subelement, question_group,
-          links, explanation, edit_history, figure_url, forum_url,
+          links, explanation, edit_history, figure_url, figure_reference, pool_version, forum_url,
           discourse_sync_status, discourse_sync_at, discourse_sync_error,
           arrl_chapter_id, arrl_page_reference,
           topic_questions(topic_id)
         `
         )
         .ilike('display_name', `${prefix}%`)
+        .eq('pool_version', poolVersion)
         .order('display_name', { ascending: true });
       if (error) throw error;
       return data.map((q) => ({
@@ -259,9 +269,23 @@ export function AdminQuestions({ testType, highlightQuestionId }: AdminQuestions
               {questions.length})
             </span>
             <div className="flex items-center gap-2">
+              {poolVersions.length > 1 && (
+                <Select value={poolVersion} onValueChange={setSelectedPool}>
+                  <SelectTrigger className="w-[140px]" aria-label="Question pool">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {poolVersions.map((pool) => (
+                      <SelectItem key={pool.version} value={pool.version}>
+                        {pool.version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
               <BulkExport
                 data={questions}
-                filename={`${testType}_questions`}
+                filename={`${testType}_${poolVersion}_questions`}
                 itemLabel="questions"
                 formatCSV={(items) => {
                   const header =
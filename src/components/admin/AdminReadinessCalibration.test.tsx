@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { AdminReadinessCalibration } from './AdminReadinessCalibration';
+
+const mockRpc = vi.fn();
+const mockConfigRows = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => mockRpc(...args),
+    from: (table: string) => ({
+      select: () =>
+        table === 'readiness_config'
+          ? mockConfigRows()
+          : { order: () => Promise.resolve({ data: [], error: null }) },
+    }),
+  },
+}));
+
+function row(readiness_score: number, pass_probability: number, outcome: 'passed' | 'failed') {
+  return {
+    attempt_id: `a-${readiness_score}-${outcome}`,
+    exam_type: 'technician',
+    exam_date: '2026-10-03',
+    outcome,
+    score: null,
+    total_questions: null,
+    readiness_score,
+    pass_probability,
+    snapshot_date: '2026-10-02',
+    recent_accuracy: 0.7,
+    overall_accuracy: 0.7,
+    coverage: 0.8,
+    mastery: 0.5,
+    tests_passed: 1,
+    tests_taken: 2,
+    days_since_study: 0,
+  };
+}
+
+function renderReport() {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <AdminReadinessCalibration />
+    </QueryClientProvider>
+  );
+}
+
+describe('AdminReadinessCalibration', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConfigRows.mockResolvedValue({
+      data: [
+        { key: 'pass_probability', value: { k: 0.15, r0: 65 } },
+        { key: 'version', value: 'v1.0.0' },
+      ],
+      error: null,
+    });
+  });
+
+  it('compares predicted and actual pass rates by bucket', async () => {
+    mockRpc.mockResolvedValue({
+      data: [row(40, 0.1, 'failed'), row(45, 0.15, 'passed'), row(85, 0.9, 'passed'), row(90, 0.95, 'passed')],
+      error: null,
+    });
+
+    renderReport();
+
+    expect(await screen.findByTestId('calibration-sample-count')).toHaveTextContent('4');
+    expect(screen.getByText('3 passed · 1 failed')).toBeInTheDocument();
+    expect(screen.getByText('0%–20%')).toBeInTheDocument();
+    expect(screen.getByText('80%–100%')).toBeInTheDocument();
+    expect(mockRpc).toHaveBeenCalledWith('get_readiness_calibration_data', {
+      p_exam_type: undefined,
+      p_max_snapshot_age_days: 14,
+    });
+  });
+
+  it('explains when there are too few outcomes to refit the curve', async () => {
+    mockRpc.mockResolvedValue({ data: [row(70, 0.6, 'passed')], error: null });
+
+    renderReport();
+
+    const parameters = await screen.findByTestId('calibration-parameters');
+    expect(parameters).toHaveTextContent('k = 0.15');
+    expect(parameters).toHaveTextContent('r0 = 65');
+    expect(parameters).toHaveTextContent('Needs at least 30 reported outcomes');
+  });
+
+  it('suggests refit parameters once there is enough data', async () => {
+    const rows = [];
+    for (let score = 40; score <= 95; score += 5) {
+      for (let i = 0; i < 4; i++) {
+        // Pass rate rises with readiness: 0/4 at 40, 4/4 by 70
+        rows.push(row(score, 0.5, i < Math.min(4, Math.max(0, (score - 40) / 7.5)) ? 'passed' : 'failed'));
+      }
+    }
+    mockRpc.mockResolvedValue({ data: rows, error: null });
+
+    renderReport();
+
+    const parameters = await screen.findByTestId('calibration-parameters');
+    expect(parameters.textContent).toMatch(/Suggestedk = \d+\.\d{3}r0 = \d+\.\d/);
+  });
+
+  it('backtests candidate configs on the reported outcomes', async () => {
+    mockRpc.mockResolvedValue({ data: [row(70, 0.6, 'passed'), row(50, 0.2, 'failed')], error: null });
+
+    renderReport();
+
+    expect(await screen.findByText('What-If Backtest')).toBeInTheDocument();
+    expect(screen.getByTestId('what-if-comparison')).toHaveTextContent('Current (replayed)');
+    expect(screen.getByText('Version History')).toBeInTheDocument();
+  });
+
+  it('shows an error when the data cannot be loaded', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'Only admins can view readiness calibration data' } });
+
+    renderReport();
+
+    expect(await screen.findByText(/Failed to load calibration data/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,207 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, AlertTriangle, Gauge } from "lucide-react";
+import { buildCalibrationReport, MIN_FIT_SAMPLES } from "@/lib/readinessCalibration";
+import { configFromRows, shownSamples, type BacktestConfig } from "@/lib/readinessBacktest";
+import { testTypes, TestType } from "@/types/navigation";
+import { CalibrationBucketTable } from "./CalibrationBucketTable";
+import { ReadinessConfigWhatIf } from "./ReadinessConfigWhatIf";
+import { ReadinessConfigHistory } from "./ReadinessConfigHistory";
+
+type ExamFilter = TestType | "all";
+
+/** Snapshots older than this before the exam are too stale to count as the prediction */
+const MAX_SNAPSHOT_AGE_DAYS = 14;
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Compares the pass probability learners saw before their real exam with the
+ * outcomes they reported, and suggests k and r0 for the pass probability curve.
+ * Candidate configs can be backtested on the same outcomes and promoted.
+ */
+export function AdminReadinessCalibration() {
+  const [examFilter, setExamFilter] = useState<ExamFilter>("all");
+  const [loaded, setLoaded] = useState<{ config: BacktestConfig; version: string } | null>(null);
+
+  const { data: rows = [], isLoading, isError } = useQuery({
+    queryKey: ["readiness-calibration", examFilter],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_readiness_calibration_data", {
+        p_exam_type: examFilter === "all" ? undefined : examFilter,
+        p_max_snapshot_age_days: MAX_SNAPSHOT_AGE_DAYS,
+      });
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const { data: live, isLoading: isConfigLoading, isError: isConfigError } = useQuery({
+    queryKey: ["readiness-config"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("readiness_config").select("key, value");
+      if (error) throw error;
+      return configFromRows(data ?? []);
+    },
+  });
+  const currentConfig = live?.config.pass_probability;
+
+  const report = useMemo(() => buildCalibrationReport(shownSamples(rows)), [rows]);
+
+  return (
+    <div className="space-y-6 pb-8">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-foreground flex items-center gap-2">
+            <Gauge className="w-5 h-5" />
+            Readiness Calibration
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Pass probability from the last readiness snapshot before each exam, compared with the result the learner reported.
+          </p>
+        </div>
+        <Select value={examFilter} onValueChange={(value) => setExamFilter(value as ExamFilter)}>
+          <SelectTrigger className="w-40" aria-label="Exam type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All exams</SelectItem>
+            {testTypes.map((test) => (
+              <SelectItem key={test.id} value={test.id}>
+                {test.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading || isConfigLoading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : isError || isConfigError ? (
+        <div className="text-center py-12">
+          <AlertTriangle className="w-12 h-12 text-destructive mx-auto mb-4" />
+          <p className="text-muted-foreground">
+            Failed to load calibration data. Make sure you have admin access.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Reported Outcomes</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold" data-testid="calibration-sample-count">{report.sampleCount}</div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {report.passCount} passed · {report.sampleCount - report.passCount} failed
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Predicted Pass Rate</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatPercent(report.meanPredicted)}</div>
+                <p className="text-xs text-muted-foreground mt-1">Mean pass probability shown before the exam</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Actual Pass Rate</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatPercent(report.observedPassRate)}</div>
+                <p className="text-xs text-muted-foreground mt-1">Share of reported exams passed</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Pass Probability Curve</CardTitle>
+              <CardDescription>
+                P(pass) = 1 / (1 + e<sup>−k(R − r0)</sup>), refit to reported outcomes by maximum likelihood.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 gap-4 max-w-md" data-testid="calibration-parameters">
+                <div>
+                  <p className="text-sm text-muted-foreground">Current</p>
+                  <p className="font-mono">k = {currentConfig?.k}</p>
+                  <p className="font-mono">r0 = {currentConfig?.r0}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Suggested</p>
+                  {report.fitted ? (
+                    <>
+                      <p className="font-mono">k = {report.fitted.k.toFixed(3)}</p>
+                      <p className="font-mono">r0 = {report.fitted.r0.toFixed(1)}</p>
+                    </>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">
+                      {report.sampleCount < MIN_FIT_SAMPLES
+                        ? `Needs at least ${MIN_FIT_SAMPLES} reported outcomes`
+                        : "Outcomes don't support a rising curve yet"}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Calibration by Predicted Probability</CardTitle>
+              <CardDescription>
+                A well-calibrated model passes about as many learners in each row as it predicted.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.buckets.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4 text-center">
+                  No reported outcomes with a readiness snapshot in the {MAX_SNAPSHOT_AGE_DAYS} days before the exam yet.
+                </p>
+              ) : (
+                <CalibrationBucketTable buckets={report.buckets} />
+              )}
+            </CardContent>
+          </Card>
+
+          {live && (
+            <>
+              <ReadinessConfigWhatIf
+                key={`${live.version}-${loaded?.version ?? "live"}`}
+                rows={rows}
+                current={live.config}
+                currentVersion={live.version}
+                recentWindow={live.recentWindow}
+                suggested={report.fitted}
+                examFilter={examFilter}
+                initial={loaded?.config}
+              />
+              <ReadinessConfigHistory
+                currentVersion={live.version}
+                onLoad={(config, version) => setLoaded({ config, version })}
+              />
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { BulkImportExamSessions } from './BulkImportExamSessions';
+
+const mockRange = vi.fn();
+const mockRpc = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({
+        order: () => ({ range: (...args: unknown[]) => mockRange(...args) }),
+      }),
+    }),
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  },
+}));
+
+const mockGeocodeAddresses = vi.fn();
+const mockGetRemainingQuota = vi.fn();
+
+vi.mock('@/lib/mapboxGeocoding', () => ({
+  QUOTA_WARNING_THRESHOLD: 0.5,
+  geocodeAddresses: (...args: unknown[]) => mockGeocodeAddresses(...args),
+  getRemainingQuotaFromDb: () => mockGetRemainingQuota(),
+  isMapboxConfigured: () => true,
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+    warning: vi.fn(),
+  },
+}));
+
+import { toast } from 'sonner';
+
+const HEADER = 'Exam Date,Exam Time,Sponsor,Walk-ins allowed,VEC,Location,Address,City,State,Zip';
+
+// Today is 2026-10-18
+const feedCSV = [
+  HEADER,
+  // Unchanged apart from the spelled-out address
+  '11/07/2026,10:00 AM,Raleigh ARS,Yes,ARRL/VEC,Community Center,100 North Main Street,Raleigh,NC,27601',
+  // New session
+  '11/21/2026,9:00 AM,Durham FM Association,No,W5YI,Library,300 N Roxboro St,Durham,NC,27701',
+  // Already past
+  '10/01/2026,9:00 AM,Cary ARC,No,W5YI,Town Hall,1 Elm St,Cary,NC,27511',
+  // Invalid row
+  'TBD,,Team,Yes,,,,Raleigh,NC,27601',
+].join('\n');
+
+const storedSessions = [
+  {
+    id: 'stored-raleigh',
+    title: null,
+    exam_date: '2026-11-07',
+    exam_time: '10:00 AM',
+    sponsor: 'Raleigh ARS',
+    walk_ins_allowed: true,
+    public_contact: null,
+    phone: null,
+    email: null,
+    vec: 'ARRL/VEC',
+    location_name: 'Community Center',
+    address: '100 N Main St',
+    address_2: null,
+    address_3: null,
+    city: 'Raleigh',
+    state: 'NC',
+    zip: '27601',
+    latitude: 35.78,
+    longitude: -78.64,
+  },
+  {
+    id: 'stored-past',
+    title: null,
+    exam_date: '2026-09-12',
+    exam_time: null,
+    sponsor: 'Old Team',
+    walk_ins_allowed: false,
+    public_contact: null,
+    phone: null,
+    email: null,
+    vec: 'W5YI',
+    location_name: 'Old Hall',
+    address: '5 Oak Ave',
+    address_2: null,
+    address_3: null,
+    city: 'Apex',
+    state: 'NC',
+    zip: '27502',
+    latitude: 35.73,
+    longitude: -78.85,
+  },
+];
+
+function renderImporter() {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <BulkImportExamSessions />
+    </QueryClientProvider>
+  );
+}
+
+function uploadFile(content: string, name = 'sessions.csv', type = 'text/csv') {
+  const file = new File([content], name, { type });
+  fireEvent.change(screen.getByTestId('exam-session-file'), { target: { files: [file] } });
+}
+
+describe('BulkImportExamSessions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 9, 18, 12, 0));
+    mockRange.mockResolvedValue({ data: storedSessions, error: null });
+    mockGetRemainingQuota.mockResolvedValue(90000);
+    mockGeocodeAddresses.mockImplementation(async (items: unknown[]) => ({
+      geocoded: items.map((item) => ({ item, result: { latitude: 36.0, longitude: -78.9 } })),
+      failed: [],
+    }));
+    mockRpc.mockResolvedValue({
+      data: [{ inserted_sessions_count: 1, updated_sessions_count: 1, deleted_sessions_count: 1, converted_targets_count: 0 }],
+      error: null,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('shows the diff of new, updated and past sessions', async () => {
+    renderImporter();
+    uploadFile(feedCSV);
+
+    expect(await screen.findByText('1 New')).toBeInTheDocument();
+    expect(screen.getByText('1 Updated')).toBeInTheDocument();
+    expect(screen.getByText('0 Unchanged')).toBeInTheDocument();
+    expect(screen.getByText('1 Past or Cancelled')).toBeInTheDocument();
+    expect(screen.getByText('1 Errors')).toBeInTheDocument();
+    expect(screen.getByText('Row 5')).toBeInTheDocument();
+    expect(screen.getByText('2026-11-21 · Library · Durham, NC')).toBeInTheDocument();
+    // Only the new session needs geocoding; the address change is spelling only
+    expect(screen.getByText(/1 address to geocode/)).toHaveTextContent('90,000 geocoding requests left this month');
+  });
+
+  it('rejects files that are not CSV or XLSX', async () => {
+    renderImporter();
+    uploadFile('{}', 'sessions.json', 'application/json');
+
+    await waitFor(() => {
+      expect(toast.error).toHaveBeenCalledWith('Invalid file extension. Please upload a .csv or .xlsx file');
+    });
+    expect(mockRange).not.toHaveBeenCalled();
+  });
+
+  it('warns when the import would use most of the remaining quota', async () => {
+    mockGetRemainingQuota.mockResolvedValue(1);
+    renderImporter();
+    uploadFile(feedCSV);
+
+    expect(await screen.findByText(/more than 50% of this month's remaining/)).toBeInTheDocument();
+  });
+
+  it('geocodes new sessions and applies the diff', async () => {
+    renderImporter();
+    uploadFile(feedCSV);
+    fireEvent.click(await screen.findByRole('button', { name: /import changes/i }));
+
+    expect(await screen.findByTestId('import-summary')).toHaveTextContent('1 added, 1 updated, 1 removed');
+
+    expect(mockGeocodeAddresses).toHaveBeenCalledWith(
+      [expect.objectContaining({ exam_date: '2026-11-21', zip: '27701' })],
+      expect.any(Function)
+    );
+
+    const [fn, args] = mockRpc.mock.calls[0];
+    expect(fn).toBe('sync_exam_sessions');
+    expect(args.p_delete_ids).toEqual(['stored-past']);
+    expect(args.p_sessions).toEqual([
+      expect.objectContaining({ exam_date: '2026-11-21', latitude: 36.0, longitude: -78.9 }),
+      expect.objectContaining({
+        id: 'stored-raleigh',
+        address: '100 North Main Street',
+        // Spelling-only address changes keep the stored coordinates
+        latitude: 35.78,
+        longitude: -78.64,
+      }),
+    ]);
+    expect(toast.success).toHaveBeenCalledWith('Exam sessions imported');
+  });
+
+  it('reports sessions that failed geocoding', async () => {
+    mockGeocodeAddresses.mockImplementation(async (items: unknown[]) => ({
+      geocoded: [],
+      failed: items.map((item) => ({ item, reason: 'not_found' })),
+    }));
+
+    renderImporter();
+    uploadFile(feedCSV);
+    fireEvent.click(await screen.findByRole('button', { name: /import changes/i }));
+
+    const failures = await screen.findByTestId('geocode-failures');
+    expect(failures).toHaveTextContent('2026-11-21 · Library · Durham, NC — 300 N Roxboro St, 27701 (Address not found)');
+    expect(mockRpc.mock.calls[0][1].p_sessions[0]).toMatchObject({ latitude: null, longitude: null });
+    expect(toast.warning).toHaveBeenCalledWith('Import complete. 1 session(s) could not be geocoded');
+  });
+
+  it('keeps the review open when the import fails', async () => {
+    mockRpc.mockResolvedValue({ data: null, error: { message: 'Only admins can import exam sessions' } });
+
+    renderImporter();
+    uploadFile(feedCSV);
+    fireEvent.click(await screen.findByRole('button', { name: /import changes/i }));
+
+    await waitFor(() => {
+      expect(toast.error).toHaveBeenCalledWith('Import failed: Only admins can import exam sessions');
+    });
+    expect(screen.getByRole('button', { name: /import changes/i })).toBeEnabled();
+    expect(screen.queryByTestId('import-summary')).not.toBeInTheDocument();
+  });
+});
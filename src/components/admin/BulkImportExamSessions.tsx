@@ -0,0 +1,483 @@
+import { useState, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { Upload, Loader2, CheckCircle2, XCircle, AlertTriangle, MapPin, CalendarX, RefreshCw, Plus } from "lucide-react";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ExamSessionDiff,
+  ImportedExamSession,
+  SessionRowError,
+  StoredExamSession,
+  diffExamSessions,
+  needsRegeocoding,
+  parseExamSessionFile,
+} from "@/lib/examSessionImportParser";
+import {
+  GeocodeFailureReason,
+  GeocodingResult,
+  QUOTA_WARNING_THRESHOLD,
+  geocodeAddresses,
+  getRemainingQuotaFromDb,
+  isMapboxConfigured,
+} from "@/lib/mapboxGeocoding";
+import { toDateKey } from "@/lib/poolConfig";
+
+type ImportStep = 'upload' | 'review' | 'geocoding' | 'importing' | 'done';
+
+interface GeocodeFailure {
+  session: ImportedExamSession;
+  reason: GeocodeFailureReason;
+}
+
+interface ImportSummary {
+  inserted: number;
+  updated: number;
+  deleted: number;
+  convertedTargets: number;
+}
+
+const STORED_SESSION_COLUMNS =
+  'id, title, exam_date, exam_time, sponsor, walk_ins_allowed, public_contact, phone, email, vec, location_name, address, address_2, address_3, city, state, zip, latitude, longitude';
+
+/** PostgREST caps responses at 1000 rows, and the feed lists a few thousand sessions */
+const PAGE_SIZE = 1000;
+
+const FAILURE_REASON_LABELS: Record<GeocodeFailureReason, string> = {
+  not_configured: 'Mapbox not configured',
+  quota_exceeded: 'Monthly quota reached',
+  not_found: 'Address not found',
+};
+
+async function fetchStoredSessions(): Promise<StoredExamSession[]> {
+  const sessions: StoredExamSession[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('exam_sessions')
+      .select(STORED_SESSION_COLUMNS)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    sessions.push(...((data ?? []) as StoredExamSession[]));
+    if (!data || data.length < PAGE_SIZE) return sessions;
+  }
+}
+
+function formatSession(session: Pick<ImportedExamSession, 'exam_date' | 'location_name' | 'sponsor' | 'address' | 'city' | 'state'>): string {
+  const place = session.location_name || session.sponsor || session.address || 'Exam session';
+  return `${session.exam_date} · ${place} · ${session.city}, ${session.state}`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+export function BulkImportExamSessions() {
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<ImportStep>('upload');
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rowErrors, setRowErrors] = useState<SessionRowError[]>([]);
+  const [diff, setDiff] = useState<ExamSessionDiff | null>(null);
+  const [remainingQuota, setRemainingQuota] = useState<number | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [geocodeFailures, setGeocodeFailures] = useState<GeocodeFailure[]>([]);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+
+  // File validation constants
+  const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB
+  const ALLOWED_TYPES: Record<string, string> = {
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+    'text/csv': '.csv',
+    'application/vnd.ms-excel': '.csv', // Windows reports CSV as an Excel type
+    'text/plain': '.csv', // Some systems report CSV as text/plain
+  };
+
+  const sessionsToGeocode = diff
+    ? [...diff.added, ...diff.updated.filter(needsRegeocoding).map((u) => u.incoming)]
+    : [];
+  const sessionsToRemove = diff ? [...diff.past, ...diff.removed] : [];
+  const hasChanges = !!diff && (diff.added.length > 0 || diff.updated.length > 0 || sessionsToRemove.length > 0);
+  const quotaWarning =
+    remainingQuota !== null && sessionsToGeocode.length > remainingQuota * QUOTA_WARNING_THRESHOLD;
+  const isBusy = isProcessing || step === 'geocoding' || step === 'importing';
+
+  const resetState = () => {
+    setStep('upload');
+    setFileName(null);
+    setRowErrors([]);
+    setDiff(null);
+    setRemainingQuota(null);
+    setProgress(0);
+    setGeocodeFailures([]);
+    setSummary(null);
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    // File size validation
+    if (file.size > MAX_FILE_SIZE) {
+      toast.error('File too large. Maximum size is 10MB');
+      return;
+    }
+
+    // File extension validation (required)
+    const allowedExtensions = ['.csv', '.xlsx'];
+    const hasValidExtension = allowedExtensions.some(ext => file.name.toLowerCase().endsWith(ext));
+
+    if (!hasValidExtension) {
+      toast.error('Invalid file extension. Please upload a .csv or .xlsx file');
+      return;
+    }
+
+    // MIME type validation (required when browser provides it)
+    const hasValidMimeType = Object.keys(ALLOWED_TYPES).includes(file.type);
+    if (file.type !== '' && !hasValidMimeType) {
+      toast.error('Invalid file type detected. Please upload a valid CSV or XLSX file');
+      return;
+    }
+
+    resetState();
+    setIsProcessing(true);
+
+    try {
+      const { sessions, errors } = await parseExamSessionFile(file);
+      setFileName(file.name);
+      setRowErrors(errors);
+
+      if (sessions.length === 0) {
+        toast.error('No valid exam sessions found in file');
+        return;
+      }
+
+      const [stored, quota] = await Promise.all([fetchStoredSessions(), getRemainingQuotaFromDb()]);
+      const result = diffExamSessions(sessions, stored, toDateKey(new Date()));
+      setDiff(result);
+      setRemainingQuota(quota);
+      setStep('review');
+
+      if (errors.length > 0) {
+        toast.warning(`Parsed ${sessions.length} sessions with ${errors.length} invalid row(s)`);
+      } else {
+        toast.success(`Parsed ${sessions.length} sessions`);
+      }
+    } catch (error: unknown) {
+      toast.error('Failed to parse file: ' + (error instanceof Error ? error.message : String(error)));
+    } finally {
+      setIsProcessing(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const handleImport = async () => {
+    if (!diff) return;
+
+    setStep('geocoding');
+    setProgress(0);
+
+    const { geocoded, failed } = await geocodeAddresses(sessionsToGeocode, (done, total) =>
+      setProgress(Math.round((done / total) * 100))
+    );
+    const coordinates = new Map<ImportedExamSession, GeocodingResult>(
+      geocoded.map(({ item, result }) => [item, result])
+    );
+    setGeocodeFailures(failed.map(({ item, reason }) => ({ session: item, reason })));
+
+    // Sessions that failed geocoding are still imported, without coordinates
+    const payload = [
+      ...diff.added.map((session) => ({
+        ...session,
+        latitude: coordinates.get(session)?.latitude ?? null,
+        longitude: coordinates.get(session)?.longitude ?? null,
+      })),
+      ...diff.updated.map((update) => {
+        const location = needsRegeocoding(update)
+          ? coordinates.get(update.incoming)
+          : { latitude: update.existing.latitude, longitude: update.existing.longitude };
+        return {
+          id: update.existing.id,
+          ...update.incoming,
+          latitude: location?.latitude ?? null,
+          longitude: location?.longitude ?? null,
+        };
+      }),
+    ];
+
+    setStep('importing');
+
+    const { data, error } = await supabase.rpc('sync_exam_sessions', {
+      p_sessions: payload as unknown as Json,
+      p_delete_ids: sessionsToRemove.map((session) => session.id),
+    });
+
+    if (error) {
+      console.error('Exam session import failed:', error);
+      toast.error('Import failed: ' + error.message);
+      setStep('review');
+      return;
+    }
+
+    const counts = data?.[0];
+    setSummary({
+      inserted: counts?.inserted_sessions_count ?? 0,
+      updated: counts?.updated_sessions_count ?? 0,
+      deleted: counts?.deleted_sessions_count ?? 0,
+      convertedTargets: counts?.converted_targets_count ?? 0,
+    });
+    setStep('done');
+
+    queryClient.invalidateQueries({ queryKey: ['exam-sessions'] });
+    queryClient.invalidateQueries({ queryKey: ['target-exam'] });
+
+    if (failed.length > 0) {
+      toast.warning(`Import complete. ${failed.length} session(s) could not be geocoded`);
+    } else {
+      toast.success('Exam sessions imported');
+    }
+  };
+
+  const renderSessionList = (sessions: Pick<ImportedExamSession, 'exam_date' | 'location_name' | 'sponsor' | 'address' | 'city' | 'state'>[], emptyText: string) => (
+    <ScrollArea className="h-56 border rounded-lg p-3">
+      {sessions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{emptyText}</p>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {sessions.map((session, idx) => (
+            <li key={idx}>{formatSession(session)}</li>
+          ))}
+        </ul>
+      )}
+    </ScrollArea>
+  );
+
+  return (
+    <Card className="flex-1 flex flex-col min-h-0 overflow-hidden">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MapPin className="w-5 h-5" />
+          Exam Sessions
+        </CardTitle>
+        <CardDescription>
+          Import the published ARRL/VEC exam session export. Only new and changed sessions are geocoded,
+          and past or cancelled sessions are removed.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4 flex-1 overflow-y-auto">
+        {/* File Upload */}
+        <div>
+          <Label>Select File</Label>
+          <div className="mt-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx"
+              onChange={handleFileSelect}
+              className="hidden"
+              disabled={isBusy}
+              data-testid="exam-session-file"
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isBusy}
+              className="w-full h-20 border-dashed"
+            >
+              {isProcessing ? (
+                <Loader2 className="w-5 h-5 animate-spin" />
+              ) : (
+                <div className="flex flex-col items-center gap-1">
+                  <Upload className="w-5 h-5" />
+                  <span>{fileName ?? 'Click to upload CSV or XLSX'}</span>
+                </div>
+              )}
+            </Button>
+          </div>
+        </div>
+
+        {!isMapboxConfigured() && (
+          <div className="flex items-start gap-2 rounded-lg border border-warning/30 bg-warning/10 p-3 text-xs text-warning">
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>Mapbox is not configured. Sessions will import without coordinates and won't appear in exam searches.</span>
+          </div>
+        )}
+
+        {/* Row errors */}
+        {rowErrors.length > 0 && (
+          <ScrollArea className="max-h-48 border rounded-lg p-3">
+            <div className="space-y-2">
+              {rowErrors.map((err) => (
+                <div key={err.row} className="text-sm p-2 rounded bg-destructive/10 border border-destructive/20">
+                  <div className="font-medium text-destructive">Row {err.row}</div>
+                  <ul className="text-xs text-muted-foreground mt-1 list-disc list-inside">
+                    {err.errors.map((e, i) => (
+                      <li key={i}>{e}</li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+
+        {/* Diff */}
+        {diff && (
+          <>
+            <div className="flex items-center gap-4 flex-wrap">
+              <Badge variant="secondary" className="bg-info/20 text-info">
+                <Plus className="w-3 h-3 mr-1" />
+                {diff.added.length} New
+              </Badge>
+              <Badge variant="secondary" className="bg-warning/20 text-warning">
+                <RefreshCw className="w-3 h-3 mr-1" />
+                {diff.updated.length} Updated
+              </Badge>
+              <Badge variant="secondary" className="bg-success/20 text-success">
+                <CheckCircle2 className="w-3 h-3 mr-1" />
+                {diff.unchanged.length} Unchanged
+              </Badge>
+              <Badge variant="secondary" className="bg-destructive/20 text-destructive">
+                <CalendarX className="w-3 h-3 mr-1" />
+                {sessionsToRemove.length} Past or Cancelled
+              </Badge>
+              {rowErrors.length > 0 && (
+                <Badge variant="secondary" className="bg-destructive/20 text-destructive">
+                  <XCircle className="w-3 h-3 mr-1" />
+                  {rowErrors.length} Errors
+                </Badge>
+              )}
+            </div>
+
+            <Tabs defaultValue="new">
+              <TabsList>
+                <TabsTrigger value="new">New ({diff.added.length})</TabsTrigger>
+                <TabsTrigger value="updated">Updated ({diff.updated.length})</TabsTrigger>
+                <TabsTrigger value="past">Past ({sessionsToRemove.length})</TabsTrigger>
+              </TabsList>
+              <TabsContent value="new">
+                {renderSessionList(diff.added, 'No new sessions.')}
+              </TabsContent>
+              <TabsContent value="updated">
+                <ScrollArea className="h-56 border rounded-lg p-3">
+                  {diff.updated.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No updated sessions.</p>
+                  ) : (
+                    <ul className="space-y-2 text-sm">
+                      {diff.updated.map(({ existing, incoming, changes }) => (
+                        <li key={existing.id}>
+                          <p>{formatSession(incoming)}</p>
+                          <ul className="text-xs text-muted-foreground">
+                            {changes.map((field) => (
+                              <li key={field}>
+                                {field}: {formatValue(existing[field])} → {formatValue(incoming[field])}
+                              </li>
+                            ))}
+                          </ul>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </ScrollArea>
+              </TabsContent>
+              <TabsContent value="past">
+                {renderSessionList(sessionsToRemove, 'No past or cancelled sessions.')}
+                {diff.skippedPast.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {diff.skippedPast.length} row(s) in the file are already past and will be skipped.
+                  </p>
+                )}
+              </TabsContent>
+            </Tabs>
+
+            {/* Geocoding quota */}
+            <div className="text-sm text-muted-foreground">
+              {sessionsToGeocode.length} address{sessionsToGeocode.length !== 1 ? 'es' : ''} to geocode
+              {remainingQuota !== null && ` · ${remainingQuota.toLocaleString()} geocoding requests left this month`}
+            </div>
+            {quotaWarning && (
+              <div className="flex items-start gap-2 rounded-lg border border-warning/30 bg-warning/10 p-3 text-xs text-warning">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>
+                  This import uses more than {Math.round(QUOTA_WARNING_THRESHOLD * 100)}% of this month's remaining
+                  geocoding quota. Addresses past the limit will import without coordinates.
+                </span>
+              </div>
+            )}
+          </>
+        )}
+
+        {/* Progress */}
+        {(step === 'geocoding' || step === 'importing') && (
+          <div className="space-y-2">
+            <Progress value={step === 'importing' ? 100 : progress} className="h-2" />
+            <p className="text-sm text-muted-foreground text-center">
+              {step === 'geocoding' ? `Geocoding addresses... ${progress}%` : 'Saving sessions...'}
+            </p>
+          </div>
+        )}
+
+        {/* Result */}
+        {summary && (
+          <div className="rounded-lg border border-success/30 bg-success/10 p-3 text-sm" data-testid="import-summary">
+            <p className="font-medium text-success flex items-center gap-2">
+              <CheckCircle2 className="w-4 h-4" />
+              Import complete
+            </p>
+            <p className="text-muted-foreground mt-1">
+              {summary.inserted} added, {summary.updated} updated, {summary.deleted} removed
+              {summary.convertedTargets > 0 && ` · ${summary.convertedTargets} learner exam date(s) kept as custom dates`}
+            </p>
+          </div>
+        )}
+
+        {geocodeFailures.length > 0 && (
+          <div className="space-y-2 rounded-lg border border-warning/30 bg-warning/10 p-3">
+            <div className="flex items-center gap-2 text-sm font-medium text-warning">
+              <AlertTriangle className="w-4 h-4" />
+              {geocodeFailures.length} session{geocodeFailures.length > 1 ? 's' : ''} failed geocoding
+            </div>
+            <p className="text-xs text-muted-foreground">
+              These sessions were imported without coordinates and won't appear in exam searches until geocoded.
+            </p>
+            <ul className="list-disc list-inside space-y-1 text-xs text-muted-foreground" data-testid="geocode-failures">
+              {geocodeFailures.map(({ session, reason }, i) => (
+                <li key={i}>
+                  {formatSession(session)} — {[session.address, session.zip].filter(Boolean).join(', ')} ({FAILURE_REASON_LABELS[reason]})
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Actions */}
+        {(step === 'review' || step === 'geocoding' || step === 'importing') && (
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={resetState} disabled={isBusy}>
+              Cancel
+            </Button>
+            <Button onClick={handleImport} disabled={isBusy || !hasChanges}>
+              {isBusy ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4 mr-2" />
+              )}
+              Import Changes
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -17,11 +17,16 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { ConflictResolutionDialog, ConflictItem } from "./ConflictResolutionDialog";
+import { useGlossaryDecks } from "@/hooks/useGlossaryDecks";
 
 interface ImportTerm {
   term: string;
   definition: string;
   id?: string;
+  /** Deck slug or name as written in the file */
+  deck?: string;
+  /** Resolved deck; undefined when the file doesn't name one */
+  deck_id?: string | null;
 }
 
 interface ExistingTerm extends ImportTerm {
@@ -40,6 +45,8 @@ type ImportStep = 'upload' | 'conflicts' | 'importing';
 export function BulkImportGlossary() {
   const queryClient = useQueryClient();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { data: decks = [] } = useGlossaryDecks();
+  const deckNames = Object.fromEntries(decks.map((d) => [d.id, d.name]));
   const [isOpen, setIsOpen] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isImporting, setIsImporting] = useState(false);
@@ -70,6 +77,7 @@ export function BulkImportGlossary() {
       terms.push({
         term: getCol('term'),
         definition: getCol('definition'),
+        deck: getCol('deck'),
       });
     }
 
@@ -104,6 +112,7 @@ export function BulkImportGlossary() {
       return terms.map((t: Record<string, unknown>) => ({
         term: String(t.term || ''),
         definition: String(t.definition || ''),
+        deck: t.deck ? String(t.deck) : '',
       }));
     } catch {
       return [];
@@ -120,12 +129,20 @@ export function BulkImportGlossary() {
       if (!t.term?.trim()) rowErrors.push('Missing term');
       if (!t.definition?.trim()) rowErrors.push('Missing definition');
 
+      // Decks can be given by slug or name; they must already exist
+      const deckName = t.deck?.trim().toLowerCase();
+      const deck = deckName
+        ? decks.find(d => d.slug === deckName || d.name.toLowerCase() === deckName)
+        : undefined;
+      if (deckName && !deck) rowErrors.push(`Unknown deck "${t.deck?.trim()}"`);
+
       if (rowErrors.length > 0) {
         errors.push({ row: index + 2, term: t.term, errors: rowErrors });
       } else {
         valid.push({
           term: t.term.trim(),
           definition: t.definition.trim(),
+          ...(deck ? { deck_id: deck.id } : {}),
         });
       }
     });
@@ -157,6 +174,7 @@ export function BulkImportGlossary() {
             id: existing.id,
             term: existing.term,
             definition: existing.definition,
+            deck_id: existing.deck_id,
           },
           incoming: t,
           resolution: 'keep', // default to keep existing
@@ -228,6 +246,7 @@ export function BulkImportGlossary() {
       id: existing.id,
       term: incoming.term || existing.term,
       definition: existing.definition || incoming.definition, // Keep existing definition if present
+      deck_id: existing.deck_id ?? incoming.deck_id, // Keep existing deck if present
     };
   };
 
@@ -247,7 +266,7 @@ export function BulkImportGlossary() {
 
     // Separate new terms and terms to update
     const termsToInsert: ImportTerm[] = [...newTerms];
-    const termsToUpdate: { id: string; term: string; definition: string }[] = [];
+    const termsToUpdate: { id: string; term: string; definition: string; deck_id?: string | null }[] = [];
     
     // Process conflicts based on resolution
     for (const conflict of conflictsToProcess) {
@@ -259,6 +278,7 @@ export function BulkImportGlossary() {
           id: conflict.id,
           term: conflict.incoming.term,
           definition: conflict.incoming.definition,
+          deck_id: conflict.incoming.deck_id,
         });
       } else if (conflict.resolution === 'merge') {
         const merged = mergeTerm(conflict.existing, conflict.incoming);
@@ -266,6 +286,7 @@ export function BulkImportGlossary() {
           id: conflict.id,
           term: merged.term,
           definition: merged.definition,
+          deck_id: merged.deck_id,
         });
       }
     }
@@ -296,6 +317,7 @@ export function BulkImportGlossary() {
             .insert({
               term: t.term,
               definition: t.definition,
+              deck_id: t.deck_id ?? null,
             });
 
           if (error) {
@@ -324,6 +346,8 @@ export function BulkImportGlossary() {
             .update({
               term: t.term,
               definition: t.definition,
+              // Rows without a deck leave the term's deck alone
+              ...(t.deck_id !== undefined ? { deck_id: t.deck_id } : {}),
             })
             .eq('id', t.id);
 
@@ -365,12 +389,13 @@ export function BulkImportGlossary() {
   };
 
   const downloadExampleCSV = () => {
-    const exampleData = `term,definition
-Antenna,"A device that transmits and/or receives radio waves"
-Bandwidth,"The range of frequencies occupied by a signal"
-Carrier,"A radio wave that can be modulated to carry information"
-Decibel (dB),"A unit used to express the ratio of two power levels"
-Frequency,"The number of cycles per second of a radio wave, measured in Hertz"`;
+    const exampleData = `term,definition,deck
+Antenna,"A device that transmits and/or receives radio waves",
+Bandwidth,"The range of frequencies occupied by a signal",
+Carrier,"A radio wave that can be modulated to carry information",
+Decibel (dB),"A unit used to express the ratio of two power levels",
+Frequency,"The number of cycles per second of a radio wave, measured in Hertz",
+QTH,"What is your location?",q-codes`;
     
     const blob = new Blob([exampleData], { type: 'text/csv' });
     const url = URL.createObjectURL(blob);
@@ -404,6 +429,11 @@ Frequency,"The number of cycles per second of a radio wave, measured in Hertz"`;
       {
         term: "Frequency",
         definition: "The number of cycles per second of a radio wave, measured in Hertz"
+      },
+      {
+        term: "QTH",
+        definition: "What is your location?",
+        deck: "q-codes"
       }
     ];
     
@@ -418,10 +448,16 @@ Frequency,"The number of cycles per second of a radio wave, measured in Hertz"`;
     URL.revokeObjectURL(url);
   };
 
+  const renderDeck = (deckId: string | null | undefined) =>
+    deckId && deckNames[deckId] ? (
+      <Badge variant="secondary" className="text-[10px]">{deckNames[deckId]}</Badge>
+    ) : null;
+
   const renderTermPreview = (t: ImportTerm) => (
     <div className="text-xs space-y-1">
       <p className="font-medium">{t.term}</p>
       <p className="text-muted-foreground line-clamp-3">{t.definition}</p>
+      {renderDeck(t.deck_id)}
     </div>
   );
 
@@ -432,6 +468,7 @@ Frequency,"The number of cycles per second of a radio wave, measured in Hertz"`;
       <div className="text-xs space-y-1">
         <p className="font-medium">{merged.term}</p>
         <p className="text-muted-foreground line-clamp-3">{merged.definition}</p>
+        {renderDeck(merged.deck_id)}
         <p className="text-success text-[10px]">({definitionSource})</p>
       </div>
     );
@@ -488,7 +525,7 @@ Frequency,"The number of cycles per second of a radio wave, measured in Hertz"`;
                       </Button>
                     </div>
                     <p className="text-muted-foreground text-xs">
-                      Columns: term, definition
+                      Columns: term, definition, deck (optional slug or name)
                     </p>
                   </div>
                 </div>
@@ -503,7 +540,7 @@ Frequency,"The number of cycles per second of a radio wave, measured in Hertz"`;
                       </Button>
                     </div>
                     <p className="text-muted-foreground text-xs">
-                      Array of objects with: term, definition
+                      Array of objects with: term, definition, deck (optional)
                     </p>
                   </div>
                 </div>
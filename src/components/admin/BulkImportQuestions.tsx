@@ -30,6 +30,15 @@ import {
   ONE_BASED_KEY_WARNING,
 } from "@/lib/questionImportParser";
 import { parseNCVECDocument, SyllabusEntry } from "@/lib/ncvecParser";
+import { POOL_CONFIG, getPoolVersions } from "@/lib/poolConfig";
+import { generateContentHash } from "@/lib/contentHash";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 interface BulkImportQuestionsProps {
   testType: TestType;
@@ -59,6 +68,11 @@ export function BulkImportQuestions({ testType }: BulkImportQuestionsProps) {
 
   const prefix = TEST_TYPE_PREFIXES[testType];
 
+  // During a pool transition both pools live side by side; admins choose which
+  // pool an import lands in. Defaults to the current pool.
+  const poolVersions = getPoolVersions(testType);
+  const [targetPool, setTargetPool] = useState<string>(POOL_CONFIG[testType].currentVersion);
+
   const checkForConflicts = async (questions: ImportQuestion[]) => {
     // Note: After UUID migration, question IDs (e.g., "T1A01") are stored in display_name
     const displayNames = questions.map(q => q.id);
@@ -66,7 +80,8 @@ export function BulkImportQuestions({ testType }: BulkImportQuestionsProps) {
     const { data: existingQuestions } = await supabase
       .from('questions')
       .select('*')
-      .in('display_name', displayNames);
+      .in('display_name', displayNames)
+      .eq('pool_version', targetPool);
 
     if (!existingQuestions || existingQuestions.length === 0) {
       return { conflicts: [], newQuestions: questions };
@@ -261,9 +276,11 @@ export function BulkImportQuestions({ testType }: BulkImportQuestionsProps) {
         try {
           // Build the upsert object
           // Note: After UUID migration, 'id' is UUID and 'display_name' is the question ID (e.g., "T1A01")
-          // We use onConflict: 'display_name' to handle updates to existing questions
+          // A display_name is unique per pool, so conflicts are resolved on (display_name, pool_version)
           const upsertData: Record<string, unknown> = {
             display_name: q.id, // Question ID like "T1A01" goes in display_name
+            pool_version: targetPool,
+            content_hash: await generateContentHash(q.question, q.options, q.correct_answer),
             question: q.question,
             options: q.options,
             correct_answer: q.correct_answer,
@@ -283,7 +300,7 @@ export function BulkImportQuestions({ testType }: BulkImportQuestionsProps) {
 
           const { error } = await supabase
             .from('questions')
-            .upsert(upsertData, { onConflict: 'display_name' });
+            .upsert(upsertData, { onConflict: 'display_name,pool_version' });
 
           if (error) {
             console.error('Upsert error for question', q.id, ':', error);
@@ -304,6 +321,22 @@ export function BulkImportQuestions({ testType }: BulkImportQuestionsProps) {
       setSkippedCount(skipped);
     }
 
+    // Carry learner mastery over to unchanged questions in the newer pool
+    if (imported > 0 && targetPool !== poolVersions[0].version) {
+      const previousPool = poolVersions[poolVersions.findIndex(p => p.version === targetPool) - 1];
+      if (previousPool) {
+        const { error: carryOverError } = await supabase.rpc('carry_over_question_mastery', {
+          p_from_pool: previousPool.version,
+          p_to_pool: targetPool,
+          p_prefix: prefix,
+        });
+        if (carryOverError) {
+          console.error('Mastery carry-over failed:', carryOverError);
+          toast.error('Imported questions, but failed to carry over learner progress');
+        }
+      }
+    }
+
     queryClient.invalidateQueries({ queryKey: ['admin-questions-full'] });
     queryClient.invalidateQueries({ queryKey: ['admin-stats-questions'] });
     queryClient.invalidateQueries({ queryKey: ['questions'] });
@@ -533,6 +566,25 @@ ${prefix}1A03,"What is the minimum age requirement for an amateur radio license?
               </CardContent>
             </Card>
 
+            {/* Target Pool (only during a pool transition) */}
+            {poolVersions.length > 1 && (
+              <div>
+                <Label htmlFor="target-pool">Question Pool</Label>
+                <Select value={targetPool} onValueChange={setTargetPool} disabled={isProcessing || isImporting}>
+                  <SelectTrigger id="target-pool" className="mt-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {poolVersions.map((pool) => (
+                      <SelectItem key={pool.version} value={pool.version}>
+                        {pool.version} (effective {pool.effectiveDate})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* File Upload */}
             <div>
               <Label>Select File</Label>
@@ -0,0 +1,55 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { CalibrationBucket } from "@/lib/readinessCalibration";
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+interface CalibrationBucketTableProps {
+  buckets: CalibrationBucket[];
+}
+
+/** Predicted vs actual pass rate per probability bucket */
+export function CalibrationBucketTable({ buckets }: CalibrationBucketTableProps) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Predicted</TableHead>
+          <TableHead className="text-right">Exams</TableHead>
+          <TableHead className="text-right">Mean Predicted</TableHead>
+          <TableHead className="text-right">Actual Pass Rate</TableHead>
+          <TableHead className="text-right">Gap</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {buckets.map((bucket) => {
+          const gap = bucket.observedPassRate - bucket.meanPredicted;
+          return (
+            <TableRow key={bucket.lower}>
+              <TableCell>
+                {formatPercent(bucket.lower)}–{formatPercent(bucket.upper)}
+              </TableCell>
+              <TableCell className="text-right">{bucket.count}</TableCell>
+              <TableCell className="text-right">{formatPercent(bucket.meanPredicted)}</TableCell>
+              <TableCell className="text-right">{formatPercent(bucket.observedPassRate)}</TableCell>
+              <TableCell className="text-right">
+                <Badge variant={Math.abs(gap) >= 0.15 ? "destructive" : "secondary"}>
+                  {gap >= 0 ? "+" : "−"}{Math.round(Math.abs(gap) * 100)} pts
+                </Badge>
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
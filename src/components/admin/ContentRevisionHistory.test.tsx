@@ -0,0 +1,108 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { ContentRevisionHistory } from './ContentRevisionHistory';
+import type { ContentRevision } from '@/hooks/useContentRevisions';
+
+const mockRestoreMutate = vi.fn();
+let mockRevisions: ContentRevision[] = [];
+
+vi.mock('@/hooks/useContentRevisions', () => ({
+  useContentRevisions: (_type: string, entityId: string | undefined) => ({
+    data: entityId ? mockRevisions : undefined,
+    isLoading: false,
+  }),
+  useRestoreContentRevision: () => ({ mutate: mockRestoreMutate, isPending: false }),
+}));
+
+const makeRevision = (
+  revisionNumber: number,
+  definition: string,
+  overrides: Partial<ContentRevision> = {}
+): ContentRevision => ({
+  id: `rev-${revisionNumber}`,
+  entity_type: 'glossary_term',
+  entity_id: 'term-1',
+  revision_number: revisionNumber,
+  content: { term: 'SWR', definition },
+  changed_fields: revisionNumber === 1 ? [] : ['definition'],
+  restored_from: null,
+  created_by_email: 'admin@example.com',
+  created_at: `2026-10-0${revisionNumber}T12:00:00Z`,
+  ...overrides,
+});
+
+const renderHistory = (onRestored = vi.fn()) => {
+  render(<ContentRevisionHistory entityType="glossary_term" entityId="term-1" onRestored={onRestored} />);
+  fireEvent.click(screen.getByRole('button', { name: /revisions/i }));
+};
+
+describe('ContentRevisionHistory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRevisions = [
+      makeRevision(3, 'Standing wave ratio, a measure of antenna match.', {
+        restored_from: 'rev-1',
+        created_by_email: null,
+      }),
+      makeRevision(2, 'Standing wave ratio.'),
+      makeRevision(1, 'Standing wave ratio, a measure of antenna match.'),
+    ];
+  });
+
+  it('lists revisions newest first with what changed', () => {
+    renderHistory();
+
+    const items = screen.getAllByTestId('content-revision');
+    expect(items).toHaveLength(3);
+    expect(within(items[0]).getByText('#3')).toBeInTheDocument();
+    expect(within(items[0]).getByText('Current')).toBeInTheDocument();
+    expect(within(items[0]).getByText('Restored from #1')).toBeInTheDocument();
+    expect(within(items[0]).getByText('System')).toBeInTheDocument();
+    expect(within(items[1]).getByText('Definition')).toBeInTheDocument();
+    expect(within(items[2]).getByText('First recorded version')).toBeInTheDocument();
+  });
+
+  it('compares an earlier revision side by side with the current one', () => {
+    renderHistory();
+
+    fireEvent.click(within(screen.getAllByTestId('content-revision')[1]).getByRole('button'));
+
+    const comparison = screen.getByTestId('revision-comparison');
+    expect(within(comparison).getByText('Revision #2')).toBeInTheDocument();
+    expect(within(comparison).getByText('Current (#3)')).toBeInTheDocument();
+    expect(within(comparison).getByTestId('revision-before')).toHaveTextContent('Standing wave ratio.');
+    expect(within(comparison).getByTestId('revision-after').querySelector('ins')).toHaveTextContent(
+      'ratio, a measure of antenna match.'
+    );
+  });
+
+  it('restores the selected revision after confirmation', () => {
+    const onRestored = vi.fn();
+    renderHistory(onRestored);
+
+    fireEvent.click(within(screen.getAllByTestId('content-revision')[1]).getByRole('button'));
+    fireEvent.click(screen.getByRole('button', { name: /restore #2/i }));
+    fireEvent.click(screen.getByRole('button', { name: 'Restore' }));
+
+    expect(mockRestoreMutate).toHaveBeenCalledWith(mockRevisions[1], expect.any(Object));
+
+    mockRestoreMutate.mock.calls[0][1].onSuccess();
+    expect(onRestored).toHaveBeenCalled();
+  });
+
+  it('does not offer to restore content identical to the current version', () => {
+    renderHistory();
+
+    fireEvent.click(within(screen.getAllByTestId('content-revision')[2]).getByRole('button'));
+
+    expect(screen.getByText('Same content as the current version.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /restore #1/i })).toBeDisabled();
+  });
+
+  it('shows an empty state when nothing is recorded', () => {
+    mockRevisions = [];
+    renderHistory();
+
+    expect(screen.getByText('No revisions recorded')).toBeInTheDocument();
+  });
+});
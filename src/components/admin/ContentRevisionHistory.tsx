@@ -0,0 +1,245 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { GitCompare, History, Loader2, RotateCcw, User } from "lucide-react";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { diffWords } from "@/lib/textDiff";
+import { diffRevisionContent, revisionFieldLabel } from "@/lib/contentRevisions";
+import {
+  useContentRevisions,
+  useRestoreContentRevision,
+  type ContentEntityType,
+  type ContentRevision,
+} from "@/hooks/useContentRevisions";
+
+interface ContentRevisionHistoryProps {
+  entityType: ContentEntityType;
+  entityId: string | undefined;
+  /** Names for ID fields (chapter, category), keyed by ID */
+  displayNames?: Record<string, string>;
+  /** Called after a successful restore, e.g. to close a stale editor */
+  onRestored?: () => void;
+}
+
+/** One field shown twice: removed words marked on the left, added on the right */
+function SideBySideText({ before, after }: { before: string; after: string }) {
+  const segments = useMemo(() => diffWords(before, after), [before, after]);
+  const panel = "text-sm whitespace-pre-wrap break-words rounded-md border border-border bg-background p-2 min-h-[2rem]";
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <div className={panel} data-testid="revision-before">
+        {segments.map((segment, index) =>
+          segment.type === "added" ? null : segment.type === "removed" ? (
+            <del key={index} className="bg-destructive/15 text-destructive line-through">
+              {segment.text}
+            </del>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+      </div>
+      <div className={panel} data-testid="revision-after">
+        {segments.map((segment, index) =>
+          segment.type === "removed" ? null : segment.type === "added" ? (
+            <ins key={index} className="bg-success/15 text-success no-underline">
+              {segment.text}
+            </ins>
+          ) : (
+            <span key={index}>{segment.text}</span>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Queryable revision history for a question, glossary term or tool. Any
+ * earlier revision can be compared side by side with the current content
+ * and restored in one click.
+ */
+export function ContentRevisionHistory({
+  entityType,
+  entityId,
+  displayNames,
+  onRestored,
+}: ContentRevisionHistoryProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { data: revisions = [], isLoading } = useContentRevisions(entityType, isOpen ? entityId : undefined);
+  const restoreRevision = useRestoreContentRevision();
+
+  const current = revisions[0];
+  const selected = revisions.find((r) => r.id === selectedId && r.id !== current?.id);
+  const numberById = new Map(revisions.map((r) => [r.id, r.revision_number]));
+
+  const fieldDiffs = useMemo(
+    () =>
+      selected && current
+        ? diffRevisionContent(entityType, selected.content, current.content, displayNames)
+        : [],
+    [entityType, selected, current, displayNames]
+  );
+
+  const handleRestore = (revision: ContentRevision) => {
+    restoreRevision.mutate(revision, {
+      onSuccess: () => {
+        setSelectedId(null);
+        onRestored?.();
+      },
+    });
+  };
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-start gap-2 text-muted-foreground hover:text-foreground">
+          <GitCompare className="w-4 h-4" />
+          Revisions
+          {isOpen && revisions.length > 0 && ` (${revisions.length})`}
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 mt-2">
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <div className="text-sm text-muted-foreground italic flex items-center gap-2 py-2">
+            <History className="w-4 h-4" />
+            No revisions recorded
+          </div>
+        ) : (
+          <>
+            <ul className="max-h-[200px] overflow-y-auto rounded-md border border-border bg-secondary/20 divide-y divide-border">
+              {revisions.map((revision) => {
+                const isCurrent = revision.id === current?.id;
+                return (
+                  <li key={revision.id} data-testid="content-revision">
+                    <button
+                      type="button"
+                      disabled={isCurrent}
+                      onClick={() => setSelectedId(revision.id)}
+                      aria-pressed={revision.id === selected?.id}
+                      className={cn(
+                        "w-full text-left p-2 space-y-1 transition-colors",
+                        !isCurrent && "hover:bg-secondary/60",
+                        revision.id === selected?.id && "bg-primary/10"
+                      )}
+                    >
+                      <div className="flex items-center justify-between gap-2 flex-wrap">
+                        <div className="flex items-center gap-2">
+                          <span className="font-mono text-sm font-medium">#{revision.revision_number}</span>
+                          {isCurrent && <Badge variant="secondary">Current</Badge>}
+                          {revision.restored_from && (
+                            <Badge variant="outline" className="gap-1">
+                              <RotateCcw className="w-3 h-3" />
+                              Restored from #{numberById.get(revision.restored_from) ?? "?"}
+                            </Badge>
+                          )}
+                        </div>
+                        <span className="text-xs text-muted-foreground">
+                          {format(new Date(revision.created_at), "MMM d, yyyy h:mm a")}
+                        </span>
+                      </div>
+                      <div className="flex items-center gap-2 flex-wrap text-xs text-muted-foreground">
+                        <span className="flex items-center gap-1">
+                          <User className="w-3 h-3" />
+                          {revision.created_by_email ?? "System"}
+                        </span>
+                        {revision.changed_fields.length === 0 ? (
+                          <span className="italic">First recorded version</span>
+                        ) : (
+                          revision.changed_fields.map((field) => (
+                            <Badge key={field} variant="outline" className="text-xs font-normal">
+                              {revisionFieldLabel(entityType, field)}
+                            </Badge>
+                          ))
+                        )}
+                      </div>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+
+            {revisions.length > 1 && !selected && (
+              <p className="text-xs text-muted-foreground">
+                Select an earlier revision to compare it with the current version.
+              </p>
+            )}
+
+            {selected && current && (
+              <div className="space-y-3 rounded-md border border-border p-3" data-testid="revision-comparison">
+                <div className="grid grid-cols-2 gap-2 text-xs font-medium text-muted-foreground">
+                  <span>Revision #{selected.revision_number}</span>
+                  <span>Current (#{current.revision_number})</span>
+                </div>
+                {fieldDiffs.length === 0 ? (
+                  <p className="text-sm text-muted-foreground italic">Same content as the current version.</p>
+                ) : (
+                  fieldDiffs.map((diff) => (
+                    <div key={diff.field} className="space-y-1">
+                      <span className="text-xs font-medium text-foreground">{diff.label}</span>
+                      <SideBySideText before={diff.before} after={diff.after} />
+                    </div>
+                  ))
+                )}
+                <div className="flex justify-end">
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        disabled={fieldDiffs.length === 0 || restoreRevision.isPending}
+                      >
+                        {restoreRevision.isPending ? (
+                          <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                          <RotateCcw className="w-4 h-4 mr-2" />
+                        )}
+                        Restore #{selected.revision_number}
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Restore revision #{selected.revision_number}?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          The restored content is saved as a new revision, so revision #{current.revision_number} stays
+                          in the history. Unsaved changes in this editor are discarded.
+                          {entityType === "question" && " A restored explanation is also pushed to the forum post."}
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleRestore(selected)}>Restore</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
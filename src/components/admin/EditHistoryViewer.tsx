@@ -13,7 +13,7 @@ import { useState } from "react";
 export interface EditHistoryEntry {
   user_id: string;
   user_email: string;
-  action: 'created' | 'updated' | 'deleted';
+  action: 'created' | 'updated' | 'deleted' | 'restored';
   changes: Record<string, { from: unknown; to: unknown }>;
   timestamp: string;
 }
@@ -43,6 +43,7 @@ export function EditHistoryViewer({ history, entityType }: EditHistoryViewerProp
     created: 'bg-success/20 text-success',
     updated: 'bg-primary/20 text-primary',
     deleted: 'bg-destructive/20 text-destructive',
+    restored: 'bg-warning/20 text-warning',
   };
 
   const formatChangeValue = (value: unknown): string => {
@@ -83,7 +84,7 @@ export function EditHistoryViewer({ history, entityType }: EditHistoryViewerProp
                   </span>
                 </div>
                 
-                {entry.action === 'updated' && Object.keys(entry.changes).length > 0 && (
+                {(entry.action === 'updated' || entry.action === 'restored') && Object.keys(entry.changes).length > 0 && (
                   <div className="text-xs space-y-1 mt-2">
                     {Object.entries(entry.changes).map(([field, change]) => (
                       <div key={field} className="flex flex-col gap-0.5">
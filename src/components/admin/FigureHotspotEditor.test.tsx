@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { FigureHotspotEditor } from './FigureHotspotEditor';
+
+const mockHotspots = [
+  {
+    id: 'h1',
+    figureReference: 'T-1',
+    poolVersion: '2022-2026',
+    label: '1',
+    name: 'Resistor',
+    description: null,
+    x: 20,
+    y: 30,
+    glossaryTerm: { id: 'term-r', term: 'Resistor', definition: 'Opposes current' },
+  },
+];
+
+const mockMutate = vi.fn();
+vi.mock('@/hooks/useFigureHotspots', () => ({
+  useFigureHotspots: () => ({ data: mockHotspots, isLoading: false }),
+  useSaveFigureHotspots: () => ({ mutate: mockMutate, isPending: false }),
+}));
+
+vi.mock('@/hooks/useGlossaryTerms', () => ({
+  useGlossaryTerms: () => ({ data: [{ id: 'term-r', term: 'Resistor', definition: 'Opposes current' }] }),
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+import { toast } from 'sonner';
+
+const openEditor = () => {
+  render(<FigureHotspotEditor figureReference="T-1" poolVersion="2022-2026" figureUrl="https://example.com/T-1.png" />);
+  fireEvent.click(screen.getByRole('button', { name: /hotspots \(1\)/i }));
+};
+
+describe('FigureHotspotEditor', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows the existing hotspots on the figure', () => {
+    openEditor();
+
+    expect(screen.getByText('Hotspots for Figure T-1')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Hotspot 1' })).toHaveStyle({ left: '20%', top: '30%' });
+  });
+
+  it('adds a numbered hotspot where the figure is clicked', () => {
+    openEditor();
+
+    fireEvent.click(screen.getByAltText('Figure T-1'));
+
+    expect(screen.getByRole('button', { name: 'Hotspot 2' })).toHaveAttribute('aria-pressed', 'true');
+    expect(screen.getByLabelText('Label')).toHaveValue('2');
+  });
+
+  it('saves edited hotspots for the figure', () => {
+    mockMutate.mockImplementation((_drafts, { onSuccess }) => onSuccess());
+    openEditor();
+
+    fireEvent.click(screen.getByAltText('Figure T-1'));
+    fireEvent.change(screen.getByLabelText('Component'), { target: { value: 'Transistor' } });
+    fireEvent.click(screen.getByRole('button', { name: /save hotspots/i }));
+
+    expect(mockMutate).toHaveBeenCalledWith(
+      [
+        { label: '1', name: 'Resistor', description: '', x: 20, y: 30, glossaryTermId: 'term-r' },
+        { label: '2', name: 'Transistor', description: '', x: 50, y: 50, glossaryTermId: null },
+      ],
+      expect.any(Object)
+    );
+    expect(toast.success).toHaveBeenCalledWith('Hotspots saved for Figure T-1');
+  });
+
+  it('requires a name before saving', () => {
+    openEditor();
+
+    fireEvent.click(screen.getByAltText('Figure T-1'));
+    fireEvent.click(screen.getByRole('button', { name: /save hotspots/i }));
+
+    expect(toast.error).toHaveBeenCalledWith('Hotspot 2 needs a name');
+    expect(mockMutate).not.toHaveBeenCalled();
+  });
+
+  it('removes a hotspot', () => {
+    openEditor();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Hotspot 1' }));
+    fireEvent.click(screen.getByRole('button', { name: /remove hotspot/i }));
+    fireEvent.click(screen.getByRole('button', { name: /save hotspots/i }));
+
+    expect(mockMutate).toHaveBeenCalledWith([], expect.any(Object));
+  });
+});
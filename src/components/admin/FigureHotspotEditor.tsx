@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { toast } from "sonner";
+import { Crosshair, Loader2, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import { useFigureHotspots, useSaveFigureHotspots } from "@/hooks/useFigureHotspots";
+import { useGlossaryTerms } from "@/hooks/useGlossaryTerms";
+import {
+  nextHotspotLabel,
+  positionFromClick,
+  validateHotspots,
+  type HotspotDraft,
+} from "@/lib/figureHotspots";
+
+interface FigureHotspotEditorProps {
+  /** Figure the hotspots belong to, e.g. "T-1" */
+  figureReference: string;
+  /** Pool the figure is from; figure names restart with each pool */
+  poolVersion: string;
+  figureUrl: string;
+}
+
+export function FigureHotspotEditor({ figureReference, poolVersion, figureUrl }: FigureHotspotEditorProps) {
+  const { data: hotspots = [], isLoading } = useFigureHotspots(figureReference, poolVersion);
+  const { data: glossaryTerms = [] } = useGlossaryTerms();
+  const saveHotspots = useSaveFigureHotspots(figureReference, poolVersion);
+  const [isOpen, setIsOpen] = useState(false);
+  const [drafts, setDrafts] = useState<HotspotDraft[]>([]);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (open) {
+      setDrafts(hotspots.map((h) => ({
+        label: h.label,
+        name: h.name,
+        description: h.description ?? "",
+        x: h.x,
+        y: h.y,
+        glossaryTermId: h.glossaryTerm?.id ?? null,
+      })));
+      setSelectedIndex(null);
+    }
+  };
+
+  const updateDraft = (index: number, updates: Partial<HotspotDraft>) => {
+    setDrafts((prev) => prev.map((d, i) => (i === index ? { ...d, ...updates } : d)));
+  };
+
+  const addDraftAt = (event: React.MouseEvent<HTMLImageElement>) => {
+    const { x, y } = positionFromClick(event.clientX, event.clientY, event.currentTarget.getBoundingClientRect());
+    setDrafts((prev) => [...prev, { label: nextHotspotLabel(prev), name: "", description: "", x, y, glossaryTermId: null }]);
+    setSelectedIndex(drafts.length);
+  };
+
+  const removeDraft = (index: number) => {
+    setDrafts((prev) => prev.filter((_, i) => i !== index));
+    setSelectedIndex(null);
+  };
+
+  const handleSave = () => {
+    const problem = validateHotspots(drafts);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+    saveHotspots.mutate(drafts, {
+      onSuccess: () => {
+        setIsOpen(false);
+        toast.success(`Hotspots saved for Figure ${figureReference}`);
+      },
+      onError: (error) => {
+        toast.error("Failed to save hotspots: " + error.message);
+      },
+    });
+  };
+
+  const selected = selectedIndex !== null ? drafts[selectedIndex] : null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="outline" size="sm" disabled={isLoading}>
+          <Crosshair className="w-4 h-4 mr-2" />
+          Hotspots ({hotspots.length})
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Hotspots for Figure {figureReference}</DialogTitle>
+          <DialogDescription>
+            Click the figure to add a hotspot. Learners see them after answering any question in the
+            {poolVersion} pool that uses Figure {figureReference}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative mx-auto w-fit rounded-lg border border-border bg-muted/20">
+          <img
+            src={figureUrl}
+            alt={`Figure ${figureReference}`}
+            className="block max-w-full max-h-[50vh] cursor-crosshair"
+            onClick={addDraftAt}
+          />
+          {drafts.map((draft, index) => (
+            <button
+              key={index}
+              type="button"
+              aria-label={`Hotspot ${draft.label}`}
+              aria-pressed={selectedIndex === index}
+              className={cn(
+                "absolute -translate-x-1/2 -translate-y-1/2 flex h-6 min-w-6 items-center justify-center rounded-full px-1",
+                "border-2 border-background font-mono text-[11px] font-bold shadow-md",
+                selectedIndex === index ? "bg-primary text-primary-foreground ring-2 ring-ring" : "bg-secondary text-foreground"
+              )}
+              style={{ left: `${draft.x}%`, top: `${draft.y}%` }}
+              onClick={() => setSelectedIndex(index)}
+            >
+              {draft.label || "?"}
+            </button>
+          ))}
+        </div>
+
+        {drafts.length === 0 && (
+          <p className="text-center text-sm text-muted-foreground">No hotspots yet</p>
+        )}
+
+        {selected && selectedIndex !== null && (
+          <div className="space-y-3 rounded-lg border border-primary/30 bg-secondary/30 p-4">
+            <div className="grid gap-3 sm:grid-cols-[80px_1fr]">
+              <div>
+                <Label htmlFor="hotspot-label">Label</Label>
+                <Input
+                  id="hotspot-label"
+                  value={selected.label}
+                  onChange={(e) => updateDraft(selectedIndex, { label: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="hotspot-name">Component</Label>
+                <Input
+                  id="hotspot-name"
+                  placeholder="Resistor"
+                  value={selected.name}
+                  onChange={(e) => updateDraft(selectedIndex, { name: e.target.value })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="hotspot-description">Description (optional)</Label>
+              <Textarea
+                id="hotspot-description"
+                rows={2}
+                placeholder="Shown to learners; the glossary definition is used when empty"
+                value={selected.description}
+                onChange={(e) => updateDraft(selectedIndex, { description: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-3 sm:grid-cols-[1fr_80px_80px]">
+              <div>
+                <Label>Glossary term</Label>
+                <Select
+                  value={selected.glossaryTermId || "none"}
+                  onValueChange={(val) => updateDraft(selectedIndex, { glossaryTermId: val === "none" ? null : val })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select term..." />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No glossary link</SelectItem>
+                    {glossaryTerms.map((term) => (
+                      <SelectItem key={term.id} value={term.id}>
+                        {term.term}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="hotspot-x">X %</Label>
+                <Input
+                  id="hotspot-x"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={selected.x}
+                  onChange={(e) => updateDraft(selectedIndex, { x: Math.min(100, Math.max(0, Number(e.target.value))) })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="hotspot-y">Y %</Label>
+                <Input
+                  id="hotspot-y"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={selected.y}
+                  onChange={(e) => updateDraft(selectedIndex, { y: Math.min(100, Math.max(0, Number(e.target.value))) })}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                onClick={() => removeDraft(selectedIndex)}
+              >
+                <Trash2 className="w-4 h-4 mr-2" />
+                Remove Hotspot
+              </Button>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={saveHotspots.isPending}>
+            {saveHotspots.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Hotspots
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import { Upload, Trash2, Loader2, ImageIcon } from "lucide-react";
 import { cn } from "@/lib/utils";
+import { FigureHotspotEditor } from "@/components/admin/FigureHotspotEditor";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,6 +20,9 @@ import {
 interface FigureUploadProps {
   questionId: string;
   currentFigureUrl: string | null;
+  /** The question's figure, e.g. "T-1", and pool; together they enable hotspot editing */
+  figureReference?: string | null;
+  poolVersion?: string | null;
   onUpload: (url: string) => void;
   onRemove: () => void;
 }
@@ -26,7 +30,7 @@ interface FigureUploadProps {
 const MAX_FILE_SIZE = 2 * 1024 * 1024; // 2 MB
 const ALLOWED_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml'];
 
-export function FigureUpload({ questionId, currentFigureUrl, onUpload, onRemove }: FigureUploadProps) {
+export function FigureUpload({ questionId, currentFigureUrl, figureReference, poolVersion, onUpload, onRemove }: FigureUploadProps) {
   const [isUploading, setIsUploading] = useState(false);
   const [isRemoving, setIsRemoving] = useState(false);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
@@ -184,6 +188,10 @@ export function FigureUpload({ questionId, currentFigureUrl, onUpload, onRemove
           )}
         </Button>
 
+        {figureReference && poolVersion && currentFigureUrl && !previewUrl && (
+          <FigureHotspotEditor figureReference={figureReference} poolVersion={poolVersion} figureUrl={currentFigureUrl} />
+        )}
+
         {currentFigureUrl && !previewUrl && (
           <AlertDialog>
             <AlertDialogTrigger asChild>
@@ -0,0 +1,77 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { ReadinessConfigHistory } from './ReadinessConfigHistory';
+import { DEFAULT_CONFIG } from '@/lib/readinessScoring';
+
+const mockOrder = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({ order: () => mockOrder() }),
+    }),
+  },
+}));
+
+function renderHistory(onLoad = vi.fn()) {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  render(
+    <QueryClientProvider client={queryClient}>
+      <ReadinessConfigHistory currentVersion="v1.1.0" onLoad={onLoad} />
+    </QueryClientProvider>
+  );
+  return onLoad;
+}
+
+describe('ReadinessConfigHistory', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockOrder.mockResolvedValue({
+      data: [
+        {
+          id: 'v2',
+          version: 'v1.1.0',
+          config: { pass_probability: { k: 0.12, r0: 68 }, version: 'v1.1.0' },
+          notes: 'Refit to reported outcomes',
+          backtest: { sample_count: 42, brier_score: 0.1812, log_loss: 0.5391 },
+          promoted_at: '2026-10-01T15:00:00Z',
+        },
+        {
+          id: 'v1',
+          version: 'v1.0.0',
+          config: {},
+          notes: null,
+          backtest: null,
+          promoted_at: '2026-06-18T00:00:00Z',
+        },
+      ],
+      error: null,
+    });
+  });
+
+  it('lists promoted versions with their backtest', async () => {
+    renderHistory();
+
+    expect(await screen.findAllByTestId('config-version')).toHaveLength(2);
+    expect(screen.getByText('Live')).toBeInTheDocument();
+    expect(screen.getByText('Refit to reported outcomes')).toBeInTheDocument();
+    expect(screen.getByText('Brier 0.181 · log loss 0.539 · 42 outcomes')).toBeInTheDocument();
+  });
+
+  it('loads a version into the editor', async () => {
+    const onLoad = renderHistory();
+
+    const [latest] = await screen.findAllByRole('button', { name: 'Load' });
+    fireEvent.click(latest);
+
+    expect(onLoad).toHaveBeenCalledWith(
+      {
+        formula_weights: DEFAULT_CONFIG.formula_weights,
+        pass_probability: { k: 0.12, r0: 68 },
+        recency_penalty: DEFAULT_CONFIG.recency_penalty,
+      },
+      'v1.1.0'
+    );
+  });
+});
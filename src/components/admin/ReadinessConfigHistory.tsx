@@ -0,0 +1,91 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, History } from "lucide-react";
+import { configFromRows, type BacktestConfig } from "@/lib/readinessBacktest";
+
+interface BacktestSummary {
+  sample_count?: number;
+  brier_score?: number | null;
+  log_loss?: number | null;
+  exam_type?: string;
+}
+
+interface ReadinessConfigHistoryProps {
+  currentVersion: string | null;
+  onLoad: (config: BacktestConfig, version: string) => void;
+}
+
+/**
+ * Promoted readiness_config versions, newest first. Any version can be loaded
+ * back into the what-if editor to compare or roll back.
+ */
+export function ReadinessConfigHistory({ currentVersion, onLoad }: ReadinessConfigHistoryProps) {
+  const { data: versions = [], isLoading } = useQuery({
+    queryKey: ["readiness-config-versions"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("readiness_config_versions")
+        .select("id, version, config, notes, backtest, promoted_at")
+        .order("promoted_at", { ascending: false });
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Version History
+        </CardTitle>
+        <CardDescription>Every promoted config, with the backtest it was promoted on.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No versions recorded yet.</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {versions.map((entry) => {
+              const backtest = entry.backtest as BacktestSummary | null;
+              const stored = (entry.config ?? {}) as Record<string, unknown>;
+              const config = configFromRows(Object.entries(stored).map(([key, value]) => ({ key, value }))).config;
+              return (
+                <li key={entry.id} className="py-3 flex items-start justify-between gap-4" data-testid="config-version">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-mono font-medium">{entry.version}</span>
+                      {entry.version === currentVersion && <Badge variant="secondary">Live</Badge>}
+                      <span className="text-xs text-muted-foreground">
+                        {format(new Date(entry.promoted_at), "MMM d, yyyy h:mm a")}
+                      </span>
+                    </div>
+                    {entry.notes && <p className="text-sm text-muted-foreground mt-1">{entry.notes}</p>}
+                    {backtest?.brier_score != null && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Brier {backtest.brier_score.toFixed(3)}
+                        {backtest.log_loss != null && ` · log loss ${backtest.log_loss.toFixed(3)}`}
+                        {backtest.sample_count != null && ` · ${backtest.sample_count} outcomes`}
+                      </p>
+                    )}
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => onLoad(config, entry.version)}>
+                    Load
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
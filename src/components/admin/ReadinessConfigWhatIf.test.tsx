@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { ReadinessConfigWhatIf } from './ReadinessConfigWhatIf';
+import { DEFAULT_CONFIG } from '@/lib/readinessScoring';
+import type { BacktestConfig, BacktestRow } from '@/lib/readinessBacktest';
+
+const mockRpc = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  },
+}));
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+const current: BacktestConfig = {
+  formula_weights: DEFAULT_CONFIG.formula_weights,
+  pass_probability: DEFAULT_CONFIG.pass_probability,
+  recency_penalty: DEFAULT_CONFIG.recency_penalty,
+};
+
+function row(outcome: 'passed' | 'failed', accuracy: number): BacktestRow {
+  return {
+    attempt_id: `attempt-${outcome}`,
+    exam_date: '2026-10-03',
+    outcome,
+    snapshot_date: '2026-10-02',
+    readiness_score: accuracy * 100,
+    pass_probability: 0.5,
+    recent_accuracy: accuracy,
+    overall_accuracy: accuracy,
+    coverage: accuracy,
+    mastery: accuracy,
+    tests_passed: 0,
+    tests_taken: 0,
+    days_since_study: 0,
+    pool_size: 2,
+  };
+}
+
+const rows = [row('passed', 0.9), row('failed', 0.5)];
+
+function renderWhatIf(props: Partial<React.ComponentProps<typeof ReadinessConfigWhatIf>> = {}) {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return render(
+    <QueryClientProvider client={queryClient}>
+      <ReadinessConfigWhatIf
+        rows={rows}
+        current={current}
+        currentVersion="v1.0.0"
+        recentWindow={50}
+        suggested={null}
+        examFilter="all"
+        {...props}
+      />
+    </QueryClientProvider>
+  );
+}
+
+describe('ReadinessConfigWhatIf', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRpc.mockResolvedValue({ data: 'version-id', error: null });
+  });
+
+  it('starts from the live config with nothing to promote', () => {
+    renderWhatIf();
+
+    expect(screen.getByLabelText('Recent accuracy')).toHaveValue(35);
+    expect(screen.getByRole('button', { name: /Promote Candidate/ })).toBeDisabled();
+  });
+
+  it('lists problems with the candidate', () => {
+    renderWhatIf();
+
+    fireEvent.change(screen.getByLabelText('Recent accuracy'), { target: { value: '45' } });
+
+    expect(screen.getByTestId('what-if-errors')).toHaveTextContent('Weights must add up to 100 (currently 110)');
+    expect(screen.getByRole('button', { name: /Promote Candidate/ })).toBeDisabled();
+  });
+
+  it('applies the suggested curve', () => {
+    renderWhatIf({ suggested: { k: 0.1234, r0: 71.26 } });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Use suggested k and r0' }));
+
+    expect(screen.getByLabelText('k')).toHaveValue(0.123);
+    expect(screen.getByLabelText('r0')).toHaveValue(71.3);
+  });
+
+  it('replays the answers logged before each exam on request', async () => {
+    mockRpc.mockResolvedValue({
+      data: [
+        { attempt_id: 'attempt-passed', question_id: 'q1', is_correct: true, answered_at: '2026-10-02T12:00:00Z' },
+        { attempt_id: 'attempt-passed', question_id: 'q2', is_correct: true, answered_at: '2026-10-02T13:00:00Z' },
+        { attempt_id: 'attempt-failed', question_id: 'q1', is_correct: false, answered_at: '2026-10-02T12:00:00Z' },
+      ],
+      error: null,
+    });
+    renderWhatIf();
+    const fromSnapshots = screen.getByTestId('what-if-comparison').textContent;
+    expect(mockRpc).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByLabelText('Replay answers up to the exam'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('what-if-comparison').textContent).not.toBe(fromSnapshots);
+    });
+    expect(mockRpc).toHaveBeenCalledWith('get_readiness_backtest_answers', { p_exam_type: undefined });
+  });
+
+  it('promotes the candidate with its backtest', async () => {
+    renderWhatIf();
+
+    fireEvent.change(screen.getByLabelText('k'), { target: { value: '0.3' } });
+    fireEvent.click(screen.getByRole('button', { name: /Promote Candidate/ }));
+
+    expect(screen.getByLabelText('Version')).toHaveValue('v1.1.0');
+    fireEvent.change(screen.getByLabelText('Notes'), { target: { value: 'Steeper curve' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Promote' }));
+
+    await waitFor(() => {
+      expect(mockRpc).toHaveBeenCalledWith('promote_readiness_config', {
+        p_version: 'v1.1.0',
+        p_config: { ...current, pass_probability: { k: 0.3, r0: 65 } },
+        p_notes: 'Steeper curve',
+        p_backtest: expect.objectContaining({ exam_type: 'all', replayed_from: 'snapshots', sample_count: 2 }),
+      });
+    });
+  });
+});
@@ -0,0 +1,382 @@
+import { useMemo, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toast } from "sonner";
+import { Loader2, FlaskConical, Rocket } from "lucide-react";
+import type { FormulaWeights, PassProbabilityConfig } from "@/lib/readinessScoring";
+import type { CalibrationReport } from "@/lib/readinessCalibration";
+import {
+  compareConfigs,
+  replayRowsFromAnswers,
+  validateBacktestConfig,
+  type BacktestConfig,
+  type BacktestRow,
+} from "@/lib/readinessBacktest";
+import { CalibrationBucketTable } from "./CalibrationBucketTable";
+
+const WEIGHT_FIELDS: { key: keyof FormulaWeights; label: string }[] = [
+  { key: "recent_accuracy", label: "Recent accuracy" },
+  { key: "overall_accuracy", label: "Overall accuracy" },
+  { key: "coverage", label: "Coverage" },
+  { key: "mastery", label: "Mastery" },
+  { key: "test_rate", label: "Test pass rate" },
+];
+
+/** v1.2.0 -> v1.3.0; anything else is left for the admin to name */
+function nextVersion(version: string | null): string {
+  const match = version?.match(/^v(\d+)\.(\d+)\.\d+$/);
+  return match ? `v${match[1]}.${Number(match[2]) + 1}.0` : "";
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${Math.round(value * 100)}%`;
+}
+
+function formatMetric(value: number | null): string {
+  return value === null ? "—" : value.toFixed(3);
+}
+
+interface ReadinessConfigWhatIfProps {
+  rows: BacktestRow[];
+  current: BacktestConfig;
+  currentVersion: string | null;
+  /** Latest answers behind recent accuracy in the live config */
+  recentWindow: number;
+  /** Refit k and r0 from the calibration report, if there is one */
+  suggested: PassProbabilityConfig | null;
+  examFilter: string;
+  /** Config to start from instead of the live one (e.g. a version loaded from history) */
+  initial?: BacktestConfig;
+}
+
+/**
+ * Replays the reported outcomes with a candidate config and compares it with
+ * what learners were shown and with the live config, then promotes it.
+ */
+export function ReadinessConfigWhatIf({
+  rows,
+  current,
+  currentVersion,
+  recentWindow,
+  suggested,
+  examFilter,
+  initial,
+}: ReadinessConfigWhatIfProps) {
+  const queryClient = useQueryClient();
+  const [candidate, setCandidate] = useState<BacktestConfig>(initial ?? current);
+  const [promoteOpen, setPromoteOpen] = useState(false);
+  const [version, setVersion] = useState("");
+  const [notes, setNotes] = useState("");
+
+  const [fromAnswers, setFromAnswers] = useState(false);
+
+  // Loaded only when asked for: every answer learners logged before their exams
+  const { data: answers, isLoading: isAnswersLoading } = useQuery({
+    queryKey: ["readiness-backtest-answers", examFilter],
+    enabled: fromAnswers,
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("get_readiness_backtest_answers", {
+        p_exam_type: examFilter === "all" ? undefined : examFilter,
+      });
+      if (error) throw error;
+      return data ?? [];
+    },
+  });
+
+  const replayedRows = useMemo(
+    () => (fromAnswers && answers ? replayRowsFromAnswers(rows, answers, recentWindow) : rows),
+    [fromAnswers, answers, rows, recentWindow]
+  );
+  const comparison = useMemo(
+    () => compareConfigs(replayedRows, current, candidate),
+    [replayedRows, current, candidate]
+  );
+  const errors = validateBacktestConfig(candidate);
+  const unchanged = JSON.stringify(candidate) === JSON.stringify(current);
+
+  const promote = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("promote_readiness_config", {
+        p_version: version.trim(),
+        p_config: JSON.parse(JSON.stringify(candidate)),
+        p_notes: notes.trim() || undefined,
+        p_backtest: {
+          exam_type: examFilter,
+          replayed_from: fromAnswers ? "answers" : "snapshots",
+          sample_count: comparison.candidate.sampleCount,
+          brier_score: comparison.candidate.brierScore,
+          log_loss: comparison.candidate.logLoss,
+        },
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["readiness-config"] });
+      queryClient.invalidateQueries({ queryKey: ["readiness-config-versions"] });
+      setPromoteOpen(false);
+      toast.success(`Readiness config ${version.trim()} is now live`);
+    },
+    onError: (error) => {
+      toast.error("Failed to promote config: " + error.message);
+    },
+  });
+
+  const setWeight = (key: keyof FormulaWeights, value: number) =>
+    setCandidate((c) => ({ ...c, formula_weights: { ...c.formula_weights, [key]: value } }));
+
+  const openPromote = () => {
+    setVersion(nextVersion(currentVersion));
+    setNotes("");
+    setPromoteOpen(true);
+  };
+
+  const columns: { label: string; report: CalibrationReport }[] = [
+    { label: "As shown", report: comparison.shown },
+    { label: "Current (replayed)", report: comparison.current },
+    { label: "Candidate", report: comparison.candidate },
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <FlaskConical className="w-4 h-4" />
+          What-If Backtest
+        </CardTitle>
+        <CardDescription>
+          Replays the metrics stored on each learner's last snapshot before the exam with a candidate config,
+          or rebuilds accuracy, coverage and days since study from the answers they logged before the exam.
+          Mastery and practice tests always come from the snapshot. Lower Brier score and log loss are better.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Weights</p>
+            {WEIGHT_FIELDS.map(({ key, label }) => (
+              <div key={key} className="flex items-center justify-between gap-2">
+                <Label htmlFor={`weight-${key}`} className="text-sm font-normal">{label}</Label>
+                <Input
+                  id={`weight-${key}`}
+                  type="number"
+                  min={0}
+                  className="w-24"
+                  value={candidate.formula_weights[key]}
+                  onChange={(e) => setWeight(key, parseFloat(e.target.value) || 0)}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Pass probability curve</p>
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="curve-k" className="text-sm font-normal">k</Label>
+              <Input
+                id="curve-k"
+                type="number"
+                step={0.01}
+                className="w-24"
+                value={candidate.pass_probability.k}
+                onChange={(e) =>
+                  setCandidate((c) => ({ ...c, pass_probability: { ...c.pass_probability, k: parseFloat(e.target.value) || 0 } }))
+                }
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="curve-r0" className="text-sm font-normal">r0</Label>
+              <Input
+                id="curve-r0"
+                type="number"
+                className="w-24"
+                value={candidate.pass_probability.r0}
+                onChange={(e) =>
+                  setCandidate((c) => ({ ...c, pass_probability: { ...c.pass_probability, r0: parseFloat(e.target.value) || 0 } }))
+                }
+              />
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!suggested}
+              onClick={() =>
+                suggested &&
+                setCandidate((c) => ({
+                  ...c,
+                  pass_probability: {
+                    k: Math.round(suggested.k * 1000) / 1000,
+                    r0: Math.round(suggested.r0 * 10) / 10,
+                  },
+                }))
+              }
+            >
+              Use suggested k and r0
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <p className="text-sm font-medium">Recency penalty</p>
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="penalty-max" className="text-sm font-normal">Max penalty</Label>
+              <Input
+                id="penalty-max"
+                type="number"
+                min={0}
+                className="w-24"
+                value={candidate.recency_penalty.max_penalty}
+                onChange={(e) =>
+                  setCandidate((c) => ({
+                    ...c,
+                    recency_penalty: { ...c.recency_penalty, max_penalty: parseFloat(e.target.value) || 0 },
+                  }))
+                }
+              />
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor="penalty-decay" className="text-sm font-normal">Per day</Label>
+              <Input
+                id="penalty-decay"
+                type="number"
+                min={0}
+                step={0.1}
+                className="w-24"
+                value={candidate.recency_penalty.decay_rate}
+                onChange={(e) =>
+                  setCandidate((c) => ({
+                    ...c,
+                    recency_penalty: { ...c.recency_penalty, decay_rate: parseFloat(e.target.value) || 0 },
+                  }))
+                }
+              />
+            </div>
+            <Button variant="ghost" size="sm" disabled={unchanged} onClick={() => setCandidate(current)}>
+              Reset to live config
+            </Button>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-destructive space-y-1" data-testid="what-if-errors">
+            {errors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Switch id="what-if-from-answers" checked={fromAnswers} onCheckedChange={setFromAnswers} />
+          <Label htmlFor="what-if-from-answers">Replay answers up to the exam</Label>
+          {fromAnswers && isAnswersLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+        </div>
+
+        <Table data-testid="what-if-comparison">
+          <TableHeader>
+            <TableRow>
+              <TableHead />
+              {columns.map(({ label }) => (
+                <TableHead key={label} className="text-right">{label}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            <TableRow>
+              <TableCell>Brier score</TableCell>
+              {columns.map(({ label, report }) => (
+                <TableCell key={label} className="text-right font-mono">{formatMetric(report.brierScore)}</TableCell>
+              ))}
+            </TableRow>
+            <TableRow>
+              <TableCell>Log loss</TableCell>
+              {columns.map(({ label, report }) => (
+                <TableCell key={label} className="text-right font-mono">{formatMetric(report.logLoss)}</TableCell>
+              ))}
+            </TableRow>
+            <TableRow>
+              <TableCell>Mean predicted</TableCell>
+              {columns.map(({ label, report }) => (
+                <TableCell key={label} className="text-right">{formatPercent(report.meanPredicted)}</TableCell>
+              ))}
+            </TableRow>
+          </TableBody>
+        </Table>
+
+        {comparison.candidate.buckets.length > 0 && (
+          <div>
+            <p className="text-sm font-medium mb-2">Candidate calibration</p>
+            <CalibrationBucketTable buckets={comparison.candidate.buckets} />
+          </div>
+        )}
+
+        <div className="flex justify-end">
+          <Button onClick={openPromote} disabled={errors.length > 0 || unchanged}>
+            <Rocket className="w-4 h-4 mr-2" />
+            Promote Candidate
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={promoteOpen} onOpenChange={setPromoteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Promote Readiness Config</DialogTitle>
+            <DialogDescription>
+              The candidate replaces the live config for every learner's next readiness calculation.
+              {comparison.candidate.sampleCount > 0
+                ? ` Backtested on ${comparison.candidate.sampleCount} reported outcomes (Brier ${formatMetric(comparison.candidate.brierScore)} vs ${formatMetric(comparison.current.brierScore)} live).`
+                : " There are no reported outcomes to backtest it on."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="promote-version">Version</Label>
+              <Input
+                id="promote-version"
+                value={version}
+                onChange={(e) => setVersion(e.target.value)}
+                placeholder="v1.1.0"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promote-notes">Notes</Label>
+              <Textarea
+                id="promote-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder="Why is this change being made?"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPromoteOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => promote.mutate()} disabled={!version.trim() || promote.isPending}>
+              {promote.isPending && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+              Promote
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
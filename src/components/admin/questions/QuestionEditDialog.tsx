@@ -40,6 +40,7 @@ import {
 } from 'lucide-react';
 import { FigureUpload } from '../FigureUpload';
 import { EditHistoryViewer } from '../EditHistoryViewer';
+import { ContentRevisionHistory } from '../ContentRevisionHistory';
 import { getSafeUrl } from '@/lib/utils';
 import { LINK_TYPE_CONFIG, type LinkType } from '@/lib/resourceTypes';
 import type { Question } from './types';
@@ -105,6 +106,9 @@ export function QuestionEditDialog({
   onRetrySync,
 }: QuestionEditDialogProps) {
   const safeForumUrl = getSafeUrl(editForumUrl);
+  const chapterNames = Object.fromEntries(
+    chapters.map((c) => [c.id, `Ch. ${c.chapterNumber}: ${c.title}`])
+  );
 
   return (
     <Dialog open={!!question} onOpenChange={(open) => !open && onClose()}>
@@ -187,6 +191,8 @@ export function QuestionEditDialog({
             <FigureUpload
               questionId={question?.id || ''}
               currentFigureUrl={editFigureUrl}
+              figureReference={question?.figure_reference}
+              poolVersion={question?.pool_version}
               onUpload={(url) => onFigureUrlChange(url)}
               onRemove={() => onFigureUrlChange(null)}
             />
@@ -381,6 +387,12 @@ export function QuestionEditDialog({
             history={question?.edit_history || []}
             entityType="question"
           />
+          <ContentRevisionHistory
+            entityType="question"
+            entityId={question?.id}
+            displayNames={chapterNames}
+            onRestored={onClose}
+          />
 
           <div className="flex justify-between gap-2">
             <AlertDialog open={isDeleteDialogOpen} onOpenChange={onDeleteDialogOpenChange}>
@@ -22,6 +22,8 @@ export interface Question {
   explanation?: string | null;
   edit_history?: EditHistoryEntry[];
   figure_url?: string | null;
+  figure_reference?: string | null;  // e.g. "T-1"; questions sharing it share hotspots
+  pool_version?: string | null;  // e.g. "2022-2026"; figure names restart with each pool
   forum_url?: string | null;
   discourse_sync_status?: string | null;
   discourse_sync_at?: string | null;
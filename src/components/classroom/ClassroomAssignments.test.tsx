@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ClassroomAssignments } from './ClassroomAssignments';
+import type { Classroom, ClassroomAssignment } from '@/hooks/useClassrooms';
+
+const mockCreateMutate = vi.fn();
+const mockDeleteMutate = vi.fn();
+let mockAssignments: ClassroomAssignment[];
+
+vi.mock('@/hooks/useClassrooms', () => ({
+  useClassroomAssignments: () => ({ data: mockAssignments, isLoading: false }),
+  useCreateAssignment: () => ({ mutate: mockCreateMutate, isPending: false }),
+  useDeleteAssignment: () => ({ mutate: mockDeleteMutate, isPending: false }),
+}));
+
+vi.mock('@/hooks/useLessons', () => ({
+  useLessons: () => ({ data: [{ id: 'l1', title: "Ohm's Law" }] }),
+}));
+
+vi.mock('@/hooks/useTopics', () => ({
+  useTopics: () => ({ data: [{ id: 't1', title: 'Antenna Basics' }] }),
+}));
+
+const classroom: Classroom = {
+  id: 'c1',
+  name: 'Fall Tech',
+  exam_type: 'technician',
+  join_code: 'ABC234',
+  created_at: '2026-09-01T00:00:00Z',
+};
+
+describe('ClassroomAssignments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAssignments = [];
+  });
+
+  it('shows an empty state', () => {
+    render(<ClassroomAssignments classroom={classroom} />);
+
+    expect(screen.getByText('No assignments yet.')).toBeInTheDocument();
+    // Nothing chosen yet
+    expect(screen.getByRole('button', { name: /assign/i })).toBeDisabled();
+  });
+
+  it('defaults the due date to a week out', () => {
+    render(<ClassroomAssignments classroom={classroom} />);
+
+    const due = new Date();
+    due.setDate(due.getDate() + 7);
+    const expected = [
+      due.getFullYear(),
+      String(due.getMonth() + 1).padStart(2, '0'),
+      String(due.getDate()).padStart(2, '0'),
+    ].join('-');
+    expect(screen.getByLabelText('Due')).toHaveValue(expected);
+  });
+
+  it('lists assignments and removes one', () => {
+    mockAssignments = [
+      {
+        id: 'a1',
+        classroom_id: 'c1',
+        due_date: '2026-10-25',
+        lesson: { id: 'l1', slug: 'ohms-law', title: "Ohm's Law" },
+        topic: null,
+      },
+      {
+        id: 'a2',
+        classroom_id: 'c1',
+        due_date: '2026-11-01',
+        lesson: null,
+        topic: { id: 't1', slug: 'antenna-basics', title: 'Antenna Basics' },
+      },
+    ];
+
+    render(<ClassroomAssignments classroom={classroom} />);
+
+    expect(screen.getAllByTestId('classroom-assignment')).toHaveLength(2);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove assignment Antenna Basics' }));
+    expect(mockDeleteMutate).toHaveBeenCalledWith('a2');
+  });
+
+  it('labels assignments whose content is no longer available', () => {
+    mockAssignments = [{ id: 'a1', classroom_id: 'c1', due_date: '2026-10-25', lesson: null, topic: null }];
+
+    render(<ClassroomAssignments classroom={classroom} />);
+
+    expect(screen.getByText('Unavailable content')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,159 @@
+import { useState } from 'react';
+import { Loader2, Plus, Trash2, Route, FileText } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  useClassroomAssignments,
+  useCreateAssignment,
+  useDeleteAssignment,
+  type Classroom,
+} from '@/hooks/useClassrooms';
+import { useLessons } from '@/hooks/useLessons';
+import { useTopics } from '@/hooks/useTopics';
+import { describeDueDate } from '@/lib/classrooms';
+import { toDateKey } from '@/lib/poolConfig';
+import { cn } from '@/lib/utils';
+
+type AssignmentKind = 'lesson' | 'topic';
+
+/** Default due date for a new assignment: one week out, i.e. next class */
+function nextWeek(): string {
+  const date = new Date();
+  date.setDate(date.getDate() + 7);
+  return toDateKey(date);
+}
+
+interface ClassroomAssignmentsProps {
+  classroom: Classroom;
+}
+
+/**
+ * Assign lessons or topics for the classroom's license with a due date.
+ * Students see open assignments in their dashboard's next steps.
+ */
+export function ClassroomAssignments({ classroom }: ClassroomAssignmentsProps) {
+  const { data: assignments = [], isLoading } = useClassroomAssignments(classroom.id);
+  const { data: lessons = [] } = useLessons(classroom.exam_type);
+  const { data: topics = [] } = useTopics(classroom.exam_type);
+  const createAssignment = useCreateAssignment(classroom.id);
+  const deleteAssignment = useDeleteAssignment(classroom.id);
+
+  const [kind, setKind] = useState<AssignmentKind>('lesson');
+  const [contentId, setContentId] = useState('');
+  const [dueDate, setDueDate] = useState(nextWeek);
+
+  const options = kind === 'lesson' ? lessons : topics;
+
+  const handleAdd = () => {
+    if (!contentId || !dueDate) return;
+    createAssignment.mutate(
+      {
+        target: kind === 'lesson' ? { lessonId: contentId } : { topicId: contentId },
+        dueDate,
+      },
+      { onSuccess: () => setContentId('') }
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-[8rem_1fr_10rem_auto] items-end">
+        <div className="space-y-2">
+          <Label htmlFor="assignment-kind">Type</Label>
+          <Select
+            value={kind}
+            onValueChange={(value) => {
+              setKind(value as AssignmentKind);
+              setContentId('');
+            }}
+          >
+            <SelectTrigger id="assignment-kind">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="lesson">Lesson</SelectItem>
+              <SelectItem value="topic">Topic</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="assignment-content">{kind === 'lesson' ? 'Lesson' : 'Topic'}</Label>
+          <Select value={contentId} onValueChange={setContentId}>
+            <SelectTrigger id="assignment-content">
+              <SelectValue placeholder={`Choose a ${kind}`} />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.title}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="assignment-due">Due</Label>
+          <Input
+            id="assignment-due"
+            type="date"
+            value={dueDate}
+            onChange={(e) => setDueDate(e.target.value)}
+          />
+        </div>
+        <Button onClick={handleAdd} disabled={!contentId || !dueDate || createAssignment.isPending}>
+          <Plus className="w-4 h-4 mr-1" />
+          Assign
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : assignments.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">No assignments yet.</p>
+      ) : (
+        <ul className="divide-y divide-border">
+          {assignments.map((assignment) => {
+            const content = assignment.lesson ?? assignment.topic;
+            const title = content?.title ?? 'Unavailable content';
+            const due = describeDueDate(assignment.due_date);
+            const Icon = assignment.lesson ? Route : FileText;
+            return (
+              <li key={assignment.id} className="flex items-center gap-3 py-3" data-testid="classroom-assignment">
+                <Icon className="w-4 h-4 text-muted-foreground shrink-0" />
+                <span className="flex-1 min-w-0 truncate font-medium text-foreground">{title}</span>
+                <Badge variant="outline">{assignment.lesson ? 'Lesson' : 'Topic'}</Badge>
+                <span
+                  className={cn(
+                    'text-sm shrink-0',
+                    due.status === 'overdue' ? 'text-muted-foreground' : 'text-foreground'
+                  )}
+                >
+                  {new Date(`${assignment.due_date}T00:00:00`).toLocaleDateString()}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label={`Remove assignment ${title}`}
+                  onClick={() => deleteAssignment.mutate(assignment.id)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { ClassroomRoster } from './ClassroomRoster';
+import type { Classroom, RosterStudent, StudentTestResult } from '@/hooks/useClassrooms';
+import type { SubelementMetric } from '@/hooks/useReadinessScore';
+
+const mockRemoveMutate = vi.fn();
+let mockRoster: { data?: RosterStudent[]; isLoading: boolean; isError: boolean };
+let mockTests: StudentTestResult[];
+
+vi.mock('@/hooks/useClassrooms', () => ({
+  useClassroomRoster: () => mockRoster,
+  useClassroomStudentTests: () => ({ data: mockTests, isLoading: false }),
+  useRemoveStudent: () => ({ mutate: mockRemoveMutate, isPending: false }),
+}));
+
+const classroom: Classroom = {
+  id: 'c1',
+  name: 'Fall Tech',
+  exam_type: 'technician',
+  join_code: 'ABC234',
+  created_at: '2026-09-01T00:00:00Z',
+};
+
+const metric = (risk_score: number): SubelementMetric => ({
+  accuracy: 0.6,
+  recent_accuracy: 0.6,
+  coverage: 0.5,
+  mastery: 0.5,
+  risk_score,
+  expected_score: 2,
+  weight: 5,
+  pool_size: 50,
+  attempts_count: 20,
+  recent_attempts_count: 10,
+});
+
+const student: RosterStudent = {
+  user_id: 's1',
+  display_name: 'Sam',
+  joined_at: '2026-09-02T00:00:00Z',
+  readiness_score: 72,
+  pass_probability: 0.81,
+  coverage: 0.7,
+  recent_accuracy: 0.78,
+  subelement_metrics: { T5: metric(0.6), T1: metric(0.05) },
+  last_study_at: '2026-10-15T12:00:00Z',
+  tests_taken: 4,
+  tests_passed: 3,
+  last_test_at: '2026-10-14T12:00:00Z',
+};
+
+describe('ClassroomRoster', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRoster = { data: [student], isLoading: false, isError: false };
+    mockTests = [];
+  });
+
+  it('shows readiness, pass chance, weak areas and tests for each student', () => {
+    render(<ClassroomRoster classroom={classroom} />);
+
+    const row = screen.getByTestId('roster-row-s1');
+    expect(within(row).getByText('Sam')).toBeInTheDocument();
+    expect(within(row).getByText('72%')).toBeInTheDocument();
+    expect(within(row).getByText('81%')).toBeInTheDocument();
+    // Riskiest subelement first
+    expect(within(row).getAllByText(/^T\d$/).map((b) => b.textContent)).toEqual(['T5', 'T1']);
+    expect(within(row).getByText('3/4')).toBeInTheDocument();
+  });
+
+  it('shows dashes for students without a readiness score yet', () => {
+    mockRoster.data = [{ ...student, readiness_score: null, pass_probability: null, subelement_metrics: null }];
+
+    render(<ClassroomRoster classroom={classroom} />);
+
+    expect(within(screen.getByTestId('roster-row-s1')).getAllByText('—').length).toBeGreaterThanOrEqual(2);
+  });
+
+  it('opens the practice-test history when a student is selected', () => {
+    mockTests = [
+      { id: 't1', score: 30, total_questions: 35, percentage: 85.7, passed: true, completed_at: '2026-10-14T12:00:00Z' },
+    ];
+
+    render(<ClassroomRoster classroom={classroom} />);
+    fireEvent.click(screen.getByTestId('roster-row-s1'));
+
+    const detail = screen.getByTestId('student-detail');
+    expect(within(detail).getByText('30/35 (86%)')).toBeInTheDocument();
+    expect(within(detail).getByText('Passed')).toBeInTheDocument();
+  });
+
+  it('removes the selected student', () => {
+    render(<ClassroomRoster classroom={classroom} />);
+    fireEvent.click(screen.getByTestId('roster-row-s1'));
+    fireEvent.click(screen.getByRole('button', { name: /remove from class/i }));
+
+    expect(mockRemoveMutate).toHaveBeenCalledWith('s1', expect.any(Object));
+  });
+
+  it('shares the join code when nobody has joined', () => {
+    mockRoster.data = [];
+
+    render(<ClassroomRoster classroom={classroom} />);
+
+    expect(screen.getByText(/no students yet/i)).toBeInTheDocument();
+    expect(screen.getByText('ABC234')).toBeInTheDocument();
+  });
+
+  it('shows an error when the roster fails to load', () => {
+    mockRoster = { data: undefined, isLoading: false, isError: true };
+
+    render(<ClassroomRoster classroom={classroom} />);
+
+    expect(screen.getByText('Failed to load the class roster.')).toBeInTheDocument();
+  });
+});
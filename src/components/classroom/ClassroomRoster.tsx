@@ -0,0 +1,217 @@
+import { useState } from 'react';
+import { Loader2, AlertTriangle, UserMinus, Users } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  useClassroomRoster,
+  useClassroomStudentTests,
+  useRemoveStudent,
+  type Classroom,
+  type RosterStudent,
+} from '@/hooks/useClassrooms';
+import { getFocusAreas } from '@/lib/focusAreas';
+import { cn } from '@/lib/utils';
+
+function formatPercent(value: number | null, scale = 1): string {
+  return value === null ? '—' : `${Math.round(value * scale)}%`;
+}
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleDateString() : '—';
+}
+
+function studentName(student: RosterStudent): string {
+  return student.display_name || 'Unnamed student';
+}
+
+/** Practice-test history and weak areas for the selected student */
+function StudentDetail({
+  classroom,
+  student,
+  onRemove,
+  isRemoving,
+}: {
+  classroom: Classroom;
+  student: RosterStudent;
+  onRemove: () => void;
+  isRemoving: boolean;
+}) {
+  const { data: tests = [], isLoading } = useClassroomStudentTests(classroom.id, student.user_id);
+  const focusAreas = getFocusAreas(student.subelement_metrics, classroom.exam_type);
+
+  return (
+    <div className="rounded-lg border border-border p-4 space-y-4" data-testid="student-detail">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="font-medium text-foreground">{studentName(student)}</h3>
+        <Button variant="outline" size="sm" onClick={onRemove} disabled={isRemoving}>
+          <UserMinus className="w-4 h-4 mr-1" />
+          Remove from class
+        </Button>
+      </div>
+
+      <div>
+        <h4 className="text-sm font-mono font-bold text-muted-foreground mb-2">Focus Areas</h4>
+        {focusAreas.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No weak subelements yet.</p>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {focusAreas.map((area) => (
+              <li key={area.subelement}>
+                <span className="font-mono font-bold text-warning">{area.subelement}</span>{' '}
+                {area.name}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <h4 className="text-sm font-mono font-bold text-muted-foreground mb-2">Recent Practice Tests</h4>
+        {isLoading ? (
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        ) : tests.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No practice tests yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Score</TableHead>
+                <TableHead className="text-right">Result</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tests.map((test) => (
+                <TableRow key={test.id}>
+                  <TableCell>{formatDate(test.completed_at)}</TableCell>
+                  <TableCell className="text-right">
+                    {test.score}/{test.total_questions} ({Math.round(test.percentage)}%)
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Badge variant={test.passed ? 'default' : 'secondary'}>
+                      {test.passed ? 'Passed' : 'Not passed'}
+                    </Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ClassroomRosterProps {
+  classroom: Classroom;
+}
+
+/**
+ * Each student's readiness for the classroom's exam, weakest subelements and
+ * practice tests. Select a student for their test history.
+ */
+export function ClassroomRoster({ classroom }: ClassroomRosterProps) {
+  const { data: students = [], isLoading, isError } = useClassroomRoster(classroom.id);
+  const removeStudent = useRemoveStudent(classroom.id);
+  const [selectedStudentId, setSelectedStudentId] = useState<string | null>(null);
+
+  const selectedStudent = students.find((s) => s.user_id === selectedStudentId) ?? null;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="text-center py-8">
+        <AlertTriangle className="w-8 h-8 text-destructive mx-auto mb-2" />
+        <p className="text-sm text-muted-foreground">Failed to load the class roster.</p>
+      </div>
+    );
+  }
+
+  if (students.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <Users className="w-8 h-8 text-muted-foreground mx-auto mb-2" />
+        <p className="text-sm text-muted-foreground">
+          No students yet. Share join code{' '}
+          <span className="font-mono font-bold text-foreground">{classroom.join_code}</span> with your class.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Student</TableHead>
+            <TableHead className="text-right">Readiness</TableHead>
+            <TableHead className="text-right">Pass Chance</TableHead>
+            <TableHead>Weak Areas</TableHead>
+            <TableHead className="text-right">Tests Passed</TableHead>
+            <TableHead className="text-right">Last Studied</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {students.map((student) => {
+            const isSelected = student.user_id === selectedStudentId;
+            return (
+              <TableRow
+                key={student.user_id}
+                data-testid={`roster-row-${student.user_id}`}
+                className={cn('cursor-pointer', isSelected && 'bg-muted')}
+                aria-selected={isSelected}
+                onClick={() => setSelectedStudentId(isSelected ? null : student.user_id)}
+              >
+                <TableCell className="font-medium">{studentName(student)}</TableCell>
+                <TableCell className="text-right">{formatPercent(student.readiness_score)}</TableCell>
+                <TableCell className="text-right">{formatPercent(student.pass_probability, 100)}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {getFocusAreas(student.subelement_metrics, classroom.exam_type).map((area) => (
+                      <Badge key={area.subelement} variant="outline" className="font-mono" title={area.name}>
+                        {area.subelement}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">
+                  {student.tests_passed}/{student.tests_taken}
+                </TableCell>
+                <TableCell className="text-right">{formatDate(student.last_study_at)}</TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+
+      {selectedStudent && (
+        <StudentDetail
+          classroom={classroom}
+          student={selectedStudent}
+          isRemoving={removeStudent.isPending}
+          onRemove={() =>
+            removeStudent.mutate(selectedStudent.user_id, {
+              onSuccess: () => setSelectedStudentId(null),
+            })
+          }
+        />
+      )}
+    </div>
+  );
+}
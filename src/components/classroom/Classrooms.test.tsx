@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { Classrooms } from './Classrooms';
+import type { StudentAssignment, StudentClassroom } from '@/hooks/useClassrooms';
+
+const mockJoinMutate = vi.fn();
+const mockLeaveMutate = vi.fn();
+const mockNavigateToLesson = vi.fn();
+const mockNavigateToTopic = vi.fn();
+let mockUser: { id: string } | null;
+let mockIsInstructor: boolean;
+let mockClassrooms: StudentClassroom[];
+let mockAssignments: StudentAssignment[];
+
+vi.mock('@/hooks/useAuth', () => ({
+  useAuth: () => ({ user: mockUser }),
+}));
+
+vi.mock('@/hooks/useAppNavigation', () => ({
+  useAppNavigation: () => ({
+    navigateToLesson: mockNavigateToLesson,
+    navigateToTopic: mockNavigateToTopic,
+  }),
+}));
+
+vi.mock('@/hooks/useClassrooms', () => ({
+  useIsInstructor: () => ({ isInstructor: mockIsInstructor, isLoading: false }),
+  useStudentClassrooms: () => ({ data: mockClassrooms, isLoading: false }),
+  useStudentAssignments: () => ({ assignments: mockAssignments, isLoading: false }),
+  useJoinClassroom: () => ({ mutate: mockJoinMutate, isPending: false }),
+  useLeaveClassroom: () => ({ mutate: mockLeaveMutate, isPending: false }),
+}));
+
+vi.mock('./InstructorClassrooms', () => ({
+  InstructorClassrooms: () => <div data-testid="instructor-classrooms" />,
+}));
+
+const classroom: StudentClassroom = {
+  id: 'c1',
+  name: 'Fall Tech',
+  exam_type: 'technician',
+  joined_at: '2026-09-02T00:00:00Z',
+};
+
+function renderClassrooms() {
+  return render(
+    <MemoryRouter>
+      <Classrooms />
+    </MemoryRouter>
+  );
+}
+
+describe('Classrooms', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUser = { id: 'user-1' };
+    mockIsInstructor = false;
+    mockClassrooms = [];
+    mockAssignments = [];
+  });
+
+  it('asks signed-out visitors to sign in', () => {
+    mockUser = null;
+
+    renderClassrooms();
+
+    expect(screen.getByRole('link', { name: 'Sign In' })).toBeInTheDocument();
+    expect(screen.queryByLabelText('Join code')).not.toBeInTheDocument();
+  });
+
+  it('joins a class once the code is complete', () => {
+    renderClassrooms();
+
+    const input = screen.getByLabelText('Join code');
+    const join = screen.getByRole('button', { name: 'Join' });
+
+    fireEvent.change(input, { target: { value: 'abc2' } });
+    expect(join).toBeDisabled();
+
+    fireEvent.change(input, { target: { value: 'abc234' } });
+    fireEvent.click(join);
+
+    expect(mockJoinMutate).toHaveBeenCalledWith('abc234', expect.any(Object));
+  });
+
+  it('lists open assignments for each joined class', () => {
+    mockClassrooms = [classroom];
+    mockAssignments = [
+      {
+        id: 'a1',
+        classroom_id: 'c1',
+        due_date: '2099-01-01',
+        lesson: { id: 'l1', slug: 'ohms-law', title: "Ohm's Law" },
+        topic: null,
+        classroom: { name: 'Fall Tech' },
+      },
+    ];
+
+    renderClassrooms();
+
+    const card = screen.getByTestId('student-classroom');
+    expect(within(card).getByText('Fall Tech')).toBeInTheDocument();
+    fireEvent.click(within(card).getByText("Ohm's Law"));
+    expect(mockNavigateToLesson).toHaveBeenCalledWith('ohms-law');
+  });
+
+  it('shows when a class has nothing open', () => {
+    mockClassrooms = [classroom];
+
+    renderClassrooms();
+
+    expect(screen.getByText("You're all caught up.")).toBeInTheDocument();
+  });
+
+  it('confirms before leaving a class', () => {
+    mockClassrooms = [classroom];
+
+    renderClassrooms();
+    fireEvent.click(screen.getByRole('button', { name: /leave/i }));
+
+    expect(screen.getByText('Leave Fall Tech?')).toBeInTheDocument();
+    fireEvent.click(screen.getByRole('button', { name: 'Leave' }));
+    expect(mockLeaveMutate).toHaveBeenCalledWith('c1');
+  });
+
+  it('hides classroom management from students', () => {
+    renderClassrooms();
+    expect(screen.queryByTestId('instructor-classrooms')).not.toBeInTheDocument();
+  });
+
+  it('shows classroom management to instructors', () => {
+    mockIsInstructor = true;
+
+    renderClassrooms();
+
+    expect(screen.getByText('Your Classrooms')).toBeInTheDocument();
+    expect(screen.getByTestId('instructor-classrooms')).toBeInTheDocument();
+  });
+});
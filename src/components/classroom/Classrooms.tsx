@@ -0,0 +1,205 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Link } from 'react-router-dom';
+import { Loader2, School, LogOut, Route, FileText } from 'lucide-react';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { PageContainer } from '@/components/ui/page-container';
+import { useAuth } from '@/hooks/useAuth';
+import { useAppNavigation } from '@/hooks/useAppNavigation';
+import {
+  useIsInstructor,
+  useJoinClassroom,
+  useLeaveClassroom,
+  useStudentAssignments,
+  useStudentClassrooms,
+  type StudentClassroom,
+} from '@/hooks/useClassrooms';
+import { describeDueDate, isValidJoinCode, JOIN_CODE_LENGTH } from '@/lib/classrooms';
+import { testTypes } from '@/types/navigation';
+import { cn } from '@/lib/utils';
+import { InstructorClassrooms } from './InstructorClassrooms';
+
+/**
+ * Classes view: students join with a code and see what's assigned;
+ * instructors also manage their classrooms here.
+ */
+export function Classrooms() {
+  const { user } = useAuth();
+  const { isInstructor } = useIsInstructor();
+  const { data: classrooms = [], isLoading } = useStudentClassrooms();
+  const { assignments } = useStudentAssignments();
+  const joinClassroom = useJoinClassroom();
+  const leaveClassroom = useLeaveClassroom();
+  const { navigateToLesson, navigateToTopic } = useAppNavigation();
+
+  const [joinCode, setJoinCode] = useState('');
+  const [leaving, setLeaving] = useState<StudentClassroom | null>(null);
+
+  const handleJoin = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidJoinCode(joinCode)) return;
+    joinClassroom.mutate(joinCode, { onSuccess: () => setJoinCode('') });
+  };
+
+  if (!user) {
+    return (
+      <PageContainer width="standard" mobileNavPadding>
+        <Card>
+          <CardContent className="pt-6 text-center py-8">
+            <School className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-foreground font-medium mb-2">Join your class</p>
+            <p className="text-muted-foreground mb-4">
+              Sign in to join a class with the code your instructor gave you.
+            </p>
+            <Button asChild>
+              <Link to="/auth?returnTo=/dashboard?view=classrooms">Sign In</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </PageContainer>
+    );
+  }
+
+  return (
+    <PageContainer width="standard" mobileNavPadding contentClassName="space-y-6">
+      <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }}>
+        <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <School className="w-6 h-6" />
+          Classes
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Study with your license class and see what your instructor has assigned.
+        </p>
+      </motion.div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Join a Class</CardTitle>
+          <CardDescription>Enter the {JOIN_CODE_LENGTH}-character code from your instructor.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleJoin} className="flex gap-2">
+            <Input
+              aria-label="Join code"
+              value={joinCode}
+              onChange={(e) => setJoinCode(e.target.value)}
+              placeholder="ABC234"
+              maxLength={JOIN_CODE_LENGTH + 3}
+              autoCapitalize="characters"
+              autoComplete="off"
+              className="font-mono uppercase tracking-widest max-w-[12rem]"
+            />
+            <Button type="submit" disabled={!isValidJoinCode(joinCode) || joinClassroom.isPending}>
+              {joinClassroom.isPending && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              Join
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        classrooms.map((classroom) => {
+          const classAssignments = assignments.filter((a) => a.classroom_id === classroom.id);
+          return (
+            <Card key={classroom.id} data-testid="student-classroom">
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div>
+                  <CardTitle className="text-base">{classroom.name}</CardTitle>
+                  <CardDescription>
+                    {testTypes.find((t) => t.id === classroom.exam_type)?.name ?? classroom.exam_type} · Joined{' '}
+                    {new Date(classroom.joined_at).toLocaleDateString()}
+                  </CardDescription>
+                </div>
+                <Button variant="ghost" size="sm" onClick={() => setLeaving(classroom)}>
+                  <LogOut className="w-4 h-4 mr-1" />
+                  Leave
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {classAssignments.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">You're all caught up.</p>
+                ) : (
+                  <ul className="divide-y divide-border">
+                    {classAssignments.map((assignment) => {
+                      const due = describeDueDate(assignment.due_date);
+                      const Icon = assignment.lesson ? Route : FileText;
+                      return (
+                        <li key={assignment.id}>
+                          <button
+                            onClick={() =>
+                              assignment.lesson
+                                ? navigateToLesson(assignment.lesson.slug)
+                                : navigateToTopic(assignment.topic!.slug)
+                            }
+                            className="w-full flex items-center gap-3 py-3 text-left hover:bg-secondary/50 rounded-md px-2"
+                          >
+                            <Icon className="w-4 h-4 text-muted-foreground shrink-0" />
+                            <span className="flex-1 min-w-0 truncate font-medium text-foreground">
+                              {(assignment.lesson ?? assignment.topic)!.title}
+                            </span>
+                            <Badge
+                              variant={due.status === 'overdue' ? 'destructive' : 'outline'}
+                              className={cn(due.status === 'due-soon' && 'border-warning text-warning')}
+                            >
+                              {due.label}
+                            </Badge>
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      {isInstructor && (
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold text-foreground">Your Classrooms</h2>
+          <InstructorClassrooms />
+        </section>
+      )}
+
+      <AlertDialog open={leaving !== null} onOpenChange={(open) => !open && setLeaving(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Leave {leaving?.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your instructor will no longer see your progress. You can rejoin with the class code.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (leaving) leaveClassroom.mutate(leaving.id);
+                setLeaving(null);
+              }}
+            >
+              Leave
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </PageContainer>
+  );
+}
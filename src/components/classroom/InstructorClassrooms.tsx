@@ -0,0 +1,226 @@
+import { useState } from 'react';
+import { Loader2, Plus, Copy, Trash2, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  useInstructorClassrooms,
+  useCreateClassroom,
+  useDeleteClassroom,
+} from '@/hooks/useClassrooms';
+import { testTypes, type TestType } from '@/types/navigation';
+import { cn } from '@/lib/utils';
+import { ClassroomRoster } from './ClassroomRoster';
+import { ClassroomAssignments } from './ClassroomAssignments';
+
+function licenseName(testType: TestType): string {
+  return testTypes.find((t) => t.id === testType)?.name ?? testType;
+}
+
+/**
+ * Classrooms the instructor runs: create one, share its join code, and
+ * follow its roster and assignments.
+ */
+export function InstructorClassrooms() {
+  const { data: classrooms = [], isLoading } = useInstructorClassrooms();
+  const createClassroom = useCreateClassroom();
+  const deleteClassroom = useDeleteClassroom();
+
+  const [name, setName] = useState('');
+  const [examType, setExamType] = useState<TestType>('technician');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+
+  // Default to the newest classroom
+  const selected = classrooms.find((c) => c.id === selectedId) ?? classrooms[0] ?? null;
+
+  const handleCreate = () => {
+    createClassroom.mutate(
+      { name, examType },
+      {
+        onSuccess: (classroom) => {
+          setName('');
+          setSelectedId(classroom.id);
+        },
+      }
+    );
+  };
+
+  const copyJoinCode = async (joinCode: string) => {
+    try {
+      await navigator.clipboard.writeText(joinCode);
+      toast.success('Join code copied');
+    } catch {
+      toast.error('Could not copy the join code');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">New Classroom</CardTitle>
+          <CardDescription>Students join with the code you get after creating it.</CardDescription>
+        </CardHeader>
+        <CardContent className="grid gap-4 sm:grid-cols-[1fr_10rem_auto] items-end">
+          <div className="space-y-2">
+            <Label htmlFor="classroom-name">Name</Label>
+            <Input
+              id="classroom-name"
+              value={name}
+              maxLength={100}
+              placeholder="e.g. Fall Technician Class"
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="classroom-license">License</Label>
+            <Select value={examType} onValueChange={(value) => setExamType(value as TestType)}>
+              <SelectTrigger id="classroom-license">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {testTypes.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {t.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleCreate} disabled={!name.trim() || createClassroom.isPending}>
+            <Plus className="w-4 h-4 mr-1" />
+            Create
+          </Button>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : classrooms.length > 0 && selected ? (
+        <>
+          <div className="flex flex-wrap gap-2" role="tablist" aria-label="Your classrooms">
+            {classrooms.map((classroom) => (
+              <button
+                key={classroom.id}
+                role="tab"
+                aria-selected={classroom.id === selected.id}
+                onClick={() => setSelectedId(classroom.id)}
+                className={cn(
+                  'flex items-center gap-2 px-3 py-2 rounded-lg border text-sm transition-colors',
+                  classroom.id === selected.id
+                    ? 'border-primary bg-primary/10 text-foreground'
+                    : 'border-border text-muted-foreground hover:bg-secondary/50'
+                )}
+              >
+                {classroom.name}
+                <span className="flex items-center gap-1 text-xs">
+                  <Users className="w-3 h-3" />
+                  {classroom.student_count}
+                </span>
+              </button>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+              <div>
+                <CardTitle className="text-base">{selected.name}</CardTitle>
+                <CardDescription>
+                  {licenseName(selected.exam_type)} · {selected.student_count} student
+                  {selected.student_count !== 1 ? 's' : ''}
+                </CardDescription>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="text-sm text-muted-foreground">Join code</span>
+                <span className="font-mono font-bold text-lg tracking-widest" data-testid="join-code">
+                  {selected.join_code}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Copy join code"
+                  onClick={() => copyJoinCode(selected.join_code)}
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  aria-label="Delete classroom"
+                  onClick={() => setConfirmDelete(true)}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Tabs defaultValue="roster">
+                <TabsList className="mb-4">
+                  <TabsTrigger value="roster">Roster</TabsTrigger>
+                  <TabsTrigger value="assignments">Assignments</TabsTrigger>
+                </TabsList>
+                <TabsContent value="roster">
+                  <ClassroomRoster classroom={selected} />
+                </TabsContent>
+                <TabsContent value="assignments">
+                  <ClassroomAssignments classroom={selected} />
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+
+          <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete {selected.name}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Students will be removed from the class and its assignments deleted. Their own
+                  progress is kept.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={() => {
+                    deleteClassroom.mutate(selected.id);
+                    setSelectedId(null);
+                  }}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      ) : (
+        <p className="text-sm text-muted-foreground text-center py-4">
+          You haven't created any classrooms yet.
+        </p>
+      )}
+    </div>
+  );
+}
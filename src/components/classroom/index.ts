@@ -0,0 +1,4 @@
+export { Classrooms } from './Classrooms';
+export { InstructorClassrooms } from './InstructorClassrooms';
+export { ClassroomRoster } from './ClassroomRoster';
+export { ClassroomAssignments } from './ClassroomAssignments';
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { DashboardGroupHeatmap } from './DashboardGroupHeatmap';
+
+let mockUser: { id: string } | null = { id: 'test-user' };
+let mockMasteryRows: unknown[] = [];
+
+vi.mock('@/hooks/useAuth', () => ({
+  useAuth: () => ({ user: mockUser }),
+}));
+
+vi.mock('@/hooks/useQuestions', () => ({
+  useQuestions: () => ({
+    data: ['T1A01', 'T5A01', 'T5A02', 'T5B01', 'T5C01'].map((displayName) => ({
+      id: `id-${displayName}`,
+      displayName,
+      subelement: displayName.slice(0, 2),
+      group: displayName.slice(0, 3),
+    })),
+  }),
+}));
+
+vi.mock('@/hooks/useQuestionMastery', () => ({
+  useQuestionMastery: () => ({ rows: mockMasteryRows, isLoading: false }),
+}));
+
+const row = (displayName: string, totalAttempts: number, correctAttempts: number) => ({
+  questionId: `id-${displayName}`,
+  totalAttempts,
+  correctAttempts,
+  isWeak: false,
+  isMastered: false,
+});
+
+describe('DashboardGroupHeatmap', () => {
+  beforeEach(() => {
+    mockUser = { id: 'test-user' };
+    mockMasteryRows = [row('T5A01', 4, 4), row('T5B01', 4, 1)];
+  });
+
+  it('renders a cell for every question group', () => {
+    render(<DashboardGroupHeatmap testType="technician" onDrillGroup={vi.fn()} />);
+
+    expect(screen.getByText('Question Groups')).toBeInTheDocument();
+    expect(screen.getAllByRole('button', { name: /^Drill / })).toHaveLength(4);
+  });
+
+  it('colors cells by accuracy and flags untouched groups', () => {
+    render(<DashboardGroupHeatmap testType="technician" onDrillGroup={vi.fn()} />);
+
+    expect(screen.getByRole('button', { name: /T5A: 100% correct, 1 of 2/ })).toHaveAttribute('data-tone', 'strong');
+    expect(screen.getByRole('button', { name: /T5B: 25% correct/ })).toHaveAttribute('data-tone', 'weak');
+    expect(screen.getByRole('button', { name: /T5C: not started/ })).toHaveAttribute('data-tone', 'untouched');
+    expect(screen.getByText(/haven't started 2 of them/)).toBeInTheDocument();
+  });
+
+  it('drills the clicked group', async () => {
+    const user = userEvent.setup();
+    const onDrillGroup = vi.fn();
+    render(<DashboardGroupHeatmap testType="technician" onDrillGroup={onDrillGroup} />);
+
+    await user.click(screen.getByRole('button', { name: /T5C/ }));
+
+    expect(onDrillGroup).toHaveBeenCalledWith('T5C');
+  });
+
+  it('renders nothing for guests', () => {
+    mockUser = null;
+    const { container } = render(<DashboardGroupHeatmap testType="technician" onDrillGroup={vi.fn()} />);
+
+    expect(container.firstChild).toBeNull();
+  });
+});
@@ -0,0 +1,118 @@
+import { useMemo } from 'react';
+import { motion } from 'framer-motion';
+import { useAuth } from '@/hooks/useAuth';
+import { useQuestions } from '@/hooks/useQuestions';
+import { useQuestionMastery } from '@/hooks/useQuestionMastery';
+import { cn } from '@/lib/utils';
+import {
+  buildGroupHeatmap,
+  groupHeatmapTone,
+  untouchedGroups,
+  type GroupHeatmapCell,
+  type GroupHeatmapTone,
+} from '@/lib/groupHeatmap';
+import { TestType } from '@/types/navigation';
+
+interface DashboardGroupHeatmapProps {
+  testType: TestType;
+  onDrillGroup: (group: string) => void;
+}
+
+const TONE_CLASSES: Record<GroupHeatmapTone, string> = {
+  untouched: 'bg-secondary text-muted-foreground border-dashed border-border',
+  weak: 'bg-destructive text-destructive-foreground border-transparent',
+  fair: 'bg-warning text-warning-foreground border-transparent',
+  strong: 'bg-success text-success-foreground border-transparent',
+};
+
+const LEGEND: { tone: GroupHeatmapTone; label: string }[] = [
+  { tone: 'untouched', label: 'Not started' },
+  { tone: 'weak', label: 'Under 50%' },
+  { tone: 'fair', label: '50–73%' },
+  { tone: 'strong', label: '74%+' },
+];
+
+function describeCell(cell: GroupHeatmapCell): string {
+  if (cell.accuracy === null) {
+    return `${cell.group}: not started, ${cell.poolSize} questions`;
+  }
+  return `${cell.group}: ${Math.round(cell.accuracy * 100)}% correct, ${cell.seen} of ${cell.poolSize} questions seen`;
+}
+
+export function DashboardGroupHeatmap({ testType, onDrillGroup }: DashboardGroupHeatmapProps) {
+  const { user } = useAuth();
+  const { data: questions } = useQuestions(testType);
+  const { rows: mastery, isLoading } = useQuestionMastery(testType);
+
+  const rows = useMemo(
+    () => buildGroupHeatmap(questions ?? [], mastery),
+    [questions, mastery]
+  );
+
+  if (!user || isLoading || rows.length === 0) {
+    return null;
+  }
+
+  const untouched = untouchedGroups(rows);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-6"
+    >
+      <h2 className="text-sm font-mono font-bold text-muted-foreground mb-1 px-1">
+        Question Groups
+      </h2>
+      <p className="text-xs text-muted-foreground mb-3 px-1">
+        {untouched.length > 0
+          ? `The exam asks one question from every group. You haven't started ${untouched.length} of them yet.`
+          : 'The exam asks one question from every group. Tap a group to drill it.'}
+      </p>
+
+      <div className="bg-card border border-border rounded-xl p-4 space-y-2" data-testid="group-heatmap">
+        {rows.map((row) => (
+          <div key={row.subelement} className="flex items-center gap-2">
+            <span className="w-6 shrink-0 font-mono text-xs font-bold text-muted-foreground">
+              {row.subelement}
+            </span>
+            <div className="flex flex-wrap gap-1">
+              {row.cells.map((cell) => {
+                const tone = groupHeatmapTone(cell);
+                return (
+                  <button
+                    key={cell.group}
+                    type="button"
+                    onClick={() => onDrillGroup(cell.group)}
+                    title={describeCell(cell)}
+                    aria-label={`Drill ${describeCell(cell)}`}
+                    data-tone={tone}
+                    // Fainter cells are groups with little of the pool seen yet
+                    style={tone === 'untouched' ? undefined : { opacity: 0.4 + 0.6 * cell.coverage }}
+                    className={cn(
+                      'w-9 h-9 rounded-md border font-mono text-[10px] font-bold',
+                      'transition-transform duration-150 hover:scale-110 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                      TONE_CLASSES[tone]
+                    )}
+                  >
+                    {cell.group.slice(2)}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex flex-wrap items-center gap-3 pt-2 text-[11px] text-muted-foreground">
+          {LEGEND.map(({ tone, label }) => (
+            <span key={tone} className="flex items-center gap-1">
+              <span className={cn('w-3 h-3 rounded-sm border', TONE_CLASSES[tone])} />
+              {label}
+            </span>
+          ))}
+          <span>Fainter = less of the group seen</span>
+        </div>
+      </div>
+    </motion.div>
+  );
+}
@@ -115,4 +115,17 @@ describe('DashboardHero', () => {
     );
     expect(screen.getByRole('button', { name: /random practice/i })).toBeInTheDocument();
   });
+
+  it('shows a countdown to the exam date', () => {
+    render(<DashboardHero {...defaultProps} daysUntilExam={12} />);
+    expect(screen.getByText('Exam in 12 days')).toBeInTheDocument();
+  });
+
+  it('shows exam day and hides the countdown once the exam has passed', () => {
+    const { rerender } = render(<DashboardHero {...defaultProps} daysUntilExam={0} />);
+    expect(screen.getByText('Exam day!')).toBeInTheDocument();
+
+    rerender(<DashboardHero {...defaultProps} daysUntilExam={-3} />);
+    expect(screen.queryByText(/Exam/)).not.toBeInTheDocument();
+  });
 });
@@ -1,5 +1,5 @@
 import { motion } from 'framer-motion';
-import { LucideIcon } from 'lucide-react';
+import { CalendarCheck, LucideIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { CircularProgress } from '@/components/ui/circular-progress';
 import { cn } from '@/lib/utils';
@@ -20,6 +20,8 @@ interface DashboardHeroProps {
   recentAvgScore: number;
   nextAction: NextAction;
   onAction: () => void;
+  /** Days until the learner's exam date, if they have one */
+  daysUntilExam?: number | null;
 }
 
 export function DashboardHero({
@@ -29,6 +31,7 @@ export function DashboardHero({
   recentAvgScore,
   nextAction,
   onAction,
+  daysUntilExam,
 }: DashboardHeroProps) {
   const getColorClasses = () => {
     switch (readinessLevel) {
@@ -101,6 +104,14 @@ export function DashboardHero({
         {/* Content */}
         <div className="flex-1 text-center md:text-left space-y-3">
           <div>
+            {daysUntilExam != null && daysUntilExam >= 0 && (
+              <p className="inline-flex items-center gap-1.5 text-sm font-medium text-muted-foreground mb-1">
+                <CalendarCheck className="w-4 h-4" aria-hidden="true" />
+                {daysUntilExam === 0
+                  ? 'Exam day!'
+                  : `Exam in ${daysUntilExam} day${daysUntilExam === 1 ? '' : 's'}`}
+              </p>
+            )}
             <h1 className={cn('text-2xl md:text-3xl font-bold', colors.title)}>
               {readinessTitle}
             </h1>
@@ -7,10 +7,16 @@ import type { DashboardNotification, NotificationVariant } from '@/hooks/useDash
 // Mock the useDashboardNotifications hook
 const mockUseDashboardNotifications = vi.fn();
 vi.mock('@/hooks/useDashboardNotifications', () => ({
-  useDashboardNotifications: () => mockUseDashboardNotifications(),
+  useDashboardNotifications: (...args: unknown[]) => mockUseDashboardNotifications(...args),
   PUSH_NOTIFICATION_PRIORITY_THRESHOLD: 3,
 }));
 
+vi.mock('./ExamOutcomeDialog', () => ({
+  ExamOutcomeDialog: ({ pending }: { pending: unknown[] }) => (
+    <div data-testid="exam-outcome-dialog">{pending.length} pending</div>
+  ),
+}));
+
 // Helper to create mock notifications
 const createMockNotification = (
   overrides: Partial<DashboardNotification> = {}
@@ -564,4 +570,38 @@ describe('DashboardNotifications', () => {
       expect(dismissButton).toBeInTheDocument();
     });
   });
+
+  describe('Exam Outcome Reporting', () => {
+    it('opens the result form from the notification action', () => {
+      const pendingExamOutcomes = [{ exam_date: '2026-10-03', target_license: 'technician', exam_session_id: null }];
+
+      mockUseDashboardNotifications.mockImplementation(
+        ({ onReportExamOutcome }: { onReportExamOutcome: () => void }) => ({
+          notifications: [
+            createMockNotification({
+              id: 'exam-outcome',
+              type: 'exam-outcome',
+              action: { label: 'Report Result', onClick: onReportExamOutcome },
+            }),
+          ],
+          dismissNotification: vi.fn(),
+          isLoading: false,
+          pendingExamOutcomes,
+          push: {
+            permission: 'granted',
+            isSupported: true,
+            hasAskedPermission: true,
+            requestPermission: vi.fn(),
+          },
+        })
+      );
+
+      render(<DashboardNotifications {...defaultProps} />);
+      expect(screen.queryByTestId('exam-outcome-dialog')).not.toBeInTheDocument();
+
+      fireEvent.click(screen.getByText('Report Result'));
+
+      expect(screen.getByTestId('exam-outcome-dialog')).toHaveTextContent('1 pending');
+    });
+  });
 });
@@ -10,6 +10,7 @@ import {
   type NotificationVariant,
 } from '@/hooks/useDashboardNotifications';
 import { TestType, View } from '@/types/navigation';
+import { ExamOutcomeDialog } from './ExamOutcomeDialog';
 
 /**
  * Props for the DashboardNotifications component.
@@ -188,10 +189,14 @@ export function DashboardNotifications({
   maxVisible = 1,
   className,
 }: DashboardNotificationsProps) {
+  const [reportOpen, setReportOpen] = useState(false);
+  const handleReportExamOutcome = useCallback(() => setReportOpen(true), []);
+
   const {
     notifications,
     dismissNotification,
     isLoading,
+    pendingExamOutcomes,
     push,
   } = useDashboardNotifications({
     examType,
@@ -199,6 +204,7 @@ export function DashboardNotifications({
     thisWeekQuestions,
     questionsGoal,
     onNavigate,
+    onReportExamOutcome: handleReportExamOutcome,
     maxVisible,
   });
 
@@ -246,6 +252,15 @@ export function DashboardNotifications({
           />
         ))}
       </AnimatePresence>
+
+      {/* Mounted only while open so the form starts fresh each time */}
+      {reportOpen && (
+        <ExamOutcomeDialog
+          open={reportOpen}
+          onOpenChange={setReportOpen}
+          pending={pendingExamOutcomes}
+        />
+      )}
     </div>
   );
 }
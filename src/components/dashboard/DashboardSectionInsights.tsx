@@ -1,22 +1,10 @@
 import { motion } from 'framer-motion';
 import { ChevronRight } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { getSubelementName } from '@/lib/subelementNames';
+import { getFocusAreas } from '@/lib/focusAreas';
 import { SubelementMetric } from '@/hooks/useReadinessScore';
 import { TestType } from '@/types/navigation';
 
-/** Minimum risk score to display a section in Focus Areas */
-const MIN_RISK_SCORE_THRESHOLD = 0.1;
-
-/** Maximum number of focus areas to display */
-const MAX_FOCUS_AREAS = 3;
-
-interface FocusArea {
-  subelement: string;
-  name: string;
-  riskScore: number;
-}
-
 interface DashboardSectionInsightsProps {
   subelementMetrics: Record<string, SubelementMetric> | undefined;
   testType: TestType;
@@ -28,23 +16,9 @@ export function DashboardSectionInsights({
   testType,
   onPracticeSection,
 }: DashboardSectionInsightsProps) {
-  // No metrics = nothing to show
-  if (!subelementMetrics || Object.keys(subelementMetrics).length === 0) {
-    return null;
-  }
-
-  // Sort by risk_score descending, take top 3
-  const focusAreas: FocusArea[] = Object.entries(subelementMetrics)
-    .sort((a, b) => b[1].risk_score - a[1].risk_score)
-    .slice(0, MAX_FOCUS_AREAS)
-    .map(([code, metric]) => ({
-      subelement: code,
-      name: getSubelementName(testType, code),
-      riskScore: metric.risk_score,
-    }));
-
-  // If all risk scores are 0 or very low, don't show the section
-  if (focusAreas.every(area => area.riskScore < MIN_RISK_SCORE_THRESHOLD)) {
+  // Top 3 sections by risk score, or nothing if none are risky
+  const focusAreas = getFocusAreas(subelementMetrics, testType);
+  if (focusAreas.length === 0) {
     return null;
   }
 
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { DashboardStudyPlan } from './DashboardStudyPlan';
+import type { StudyPlan } from '@/hooks/useStudyPlan';
+
+const plan: StudyPlan = {
+  examDate: '2026-11-02',
+  daysUntilExam: 14,
+  unseenQuestions: 120,
+  behind: false,
+  thisWeek: { questions: 75, tests: 1 },
+  days: [
+    { date: '2026-10-19', subelements: ['T5', 'T1'], newQuestions: 20, reviewQuestions: 10, practiceTest: false },
+    { date: '2026-10-21', subelements: ['T1'], newQuestions: 20, reviewQuestions: 10, practiceTest: false },
+    { date: '2026-10-24', subelements: ['T3'], newQuestions: 0, reviewQuestions: 15, practiceTest: true },
+    { date: '2026-10-28', subelements: ['T3'], newQuestions: 20, reviewQuestions: 10, practiceTest: false },
+  ],
+};
+
+describe('DashboardStudyPlan', () => {
+  const defaultProps = {
+    plan,
+    onPracticeSubelement: vi.fn(),
+    onOpenSettings: vi.fn(),
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // Monday
+    vi.setSystemTime(new Date(2026, 9, 19, 12, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('renders nothing without a plan', () => {
+    const { container } = render(<DashboardStudyPlan {...defaultProps} plan={null} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('lists the coming week of study days', () => {
+    render(<DashboardStudyPlan {...defaultProps} />);
+
+    const days = screen.getAllByTestId('study-plan-day');
+    expect(days).toHaveLength(3);
+    expect(days[0]).toHaveTextContent('Today');
+    expect(days[0]).toHaveTextContent('20 new · 10 review');
+    expect(days[1]).toHaveTextContent('Wed, Oct 21');
+    expect(days[2]).toHaveTextContent('15 review');
+    expect(days[2]).toHaveTextContent('Practice test');
+  });
+
+  it("summarises the rest of this week's targets", () => {
+    render(<DashboardStudyPlan {...defaultProps} />);
+    expect(screen.getByText('Rest of this week: 75 questions and 1 practice test')).toBeInTheDocument();
+  });
+
+  it('practices a planned subelement', () => {
+    render(<DashboardStudyPlan {...defaultProps} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Practice T5' }));
+
+    expect(defaultProps.onPracticeSubelement).toHaveBeenCalledWith('T5');
+  });
+
+  it('opens the study day settings', () => {
+    render(<DashboardStudyPlan {...defaultProps} />);
+
+    fireEvent.click(screen.getByRole('button', { name: /choose study days/i }));
+
+    expect(defaultProps.onOpenSettings).toHaveBeenCalled();
+  });
+
+  it('warns when the unseen questions do not fit before the exam', () => {
+    render(<DashboardStudyPlan {...defaultProps} plan={{ ...plan, behind: true }} />);
+    expect(screen.getByText(/120 questions are still new to you/)).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,119 @@
+import { motion } from 'framer-motion';
+import { addDays, format } from 'date-fns';
+import { AlertTriangle, ClipboardCheck, Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import type { StudyPlan } from '@/hooks/useStudyPlan';
+
+/** How far ahead the plan is listed */
+const DAYS_SHOWN = 7;
+
+interface DashboardStudyPlanProps {
+  plan: StudyPlan | null;
+  onPracticeSubelement: (subelement: string) => void;
+  onOpenSettings: () => void;
+}
+
+function dayLabel(date: string, todayKey: string) {
+  if (date === todayKey) return 'Today';
+  const [year, month, day] = date.split('-').map(Number);
+  return format(new Date(year, month - 1, day), 'EEE, MMM d');
+}
+
+export function DashboardStudyPlan({
+  plan,
+  onPracticeSubelement,
+  onOpenSettings,
+}: DashboardStudyPlanProps) {
+  if (!plan) {
+    return null;
+  }
+
+  const today = new Date();
+  const todayKey = format(today, 'yyyy-MM-dd');
+  const lastShown = format(addDays(today, DAYS_SHOWN - 1), 'yyyy-MM-dd');
+  const upcoming = plan.days.filter((day) => day.date <= lastShown);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="mb-6"
+    >
+      <div className="flex items-center justify-between mb-3 px-1">
+        <h2 className="text-sm font-mono font-bold text-muted-foreground">
+          Study Plan
+        </h2>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={onOpenSettings}
+          aria-label="Choose study days"
+        >
+          <Settings2 className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {plan.behind && (
+        <div className="flex items-start gap-2 px-4 py-3 mb-2 rounded-xl border border-warning/30 bg-warning/5 text-sm text-foreground">
+          <AlertTriangle className="w-4 h-4 text-warning shrink-0 mt-0.5" />
+          <span>
+            {plan.unseenQuestions} questions are still new to you. Add study days to see them all before your exam.
+          </span>
+        </div>
+      )}
+
+      <div className="bg-card border border-border rounded-xl divide-y divide-border">
+        {upcoming.map((day) => (
+          <div
+            key={day.date}
+            data-testid="study-plan-day"
+            className={cn(
+              'flex flex-wrap items-center gap-x-3 gap-y-1 px-4 py-3',
+              day.date === todayKey && 'bg-primary/5'
+            )}
+          >
+            <span className={cn(
+              'w-24 text-sm font-medium',
+              day.date === todayKey ? 'text-primary' : 'text-foreground'
+            )}>
+              {dayLabel(day.date, todayKey)}
+            </span>
+
+            <span className="flex gap-1">
+              {day.subelements.map((code) => (
+                <button
+                  key={code}
+                  onClick={() => onPracticeSubelement(code)}
+                  aria-label={`Practice ${code}`}
+                  className="font-mono font-bold text-xs text-primary px-1.5 py-0.5 rounded bg-primary/10 hover:bg-primary/20 transition-colors"
+                >
+                  {code}
+                </button>
+              ))}
+            </span>
+
+            <span className="flex-1 text-xs text-muted-foreground">
+              {[
+                day.newQuestions > 0 && `${day.newQuestions} new`,
+                day.reviewQuestions > 0 && `${day.reviewQuestions} review`,
+              ].filter(Boolean).join(' · ')}
+            </span>
+
+            {day.practiceTest && (
+              <span className="flex items-center gap-1 text-xs font-medium text-success">
+                <ClipboardCheck className="w-3.5 h-3.5" />
+                Practice test
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <p className="text-xs text-muted-foreground mt-2 px-1">
+        Rest of this week: {plan.thisWeek.questions} questions and {plan.thisWeek.tests} practice test{plan.thisWeek.tests === 1 ? '' : 's'}
+      </p>
+    </motion.div>
+  );
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ExamOutcomeDialog } from './ExamOutcomeDialog';
+import type { PendingExamOutcome } from '@/hooks/useExamOutcomes';
+
+const mockMutate = vi.fn();
+let mockIsPending = false;
+
+vi.mock('@/hooks/useExamOutcomes', () => ({
+  useReportExamOutcomes: () => ({ mutate: mockMutate, isPending: mockIsPending }),
+}));
+
+const pending: PendingExamOutcome[] = [
+  { exam_date: '2026-10-03', target_license: 'technician', exam_session_id: 's1' },
+  { exam_date: '2026-10-03', target_license: 'general', exam_session_id: 's1' },
+];
+
+function renderDialog(onOpenChange = vi.fn()) {
+  render(<ExamOutcomeDialog open onOpenChange={onOpenChange} pending={pending} />);
+  return onOpenChange;
+}
+
+function chooseOutcome(examName: string, label: string) {
+  const group = screen.getByRole('radiogroup', { name: `${examName} exam result` });
+  fireEvent.click(Array.from(group.querySelectorAll('button')).find((b) => b.textContent === label)!);
+}
+
+describe('ExamOutcomeDialog', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockIsPending = false;
+  });
+
+  it('lists each pending exam element', () => {
+    renderDialog();
+
+    expect(screen.getByText('Technician')).toBeInTheDocument();
+    expect(screen.getByText('General')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /save result/i })).toBeDisabled();
+  });
+
+  it('reports outcomes with an optional score', () => {
+    renderDialog();
+
+    chooseOutcome('Technician', 'Passed');
+    fireEvent.change(screen.getByLabelText('Score (optional)'), { target: { value: '31' } });
+    chooseOutcome('General', "Didn't pass");
+    // Only one score field per answered exam; leave the General score blank
+    fireEvent.click(screen.getByRole('button', { name: /save results/i }));
+
+    expect(mockMutate).toHaveBeenCalledWith(
+      [
+        { ...pending[0], outcome: 'passed', score: 31, total_questions: 35 },
+        { ...pending[1], outcome: 'failed', score: null, total_questions: null },
+      ],
+      expect.any(Object)
+    );
+  });
+
+  it('only reports exams the learner answered', () => {
+    renderDialog();
+
+    chooseOutcome('General', "Didn't take it");
+    fireEvent.click(screen.getByRole('button', { name: /save result/i }));
+
+    expect(mockMutate.mock.calls[0][0]).toEqual([
+      { ...pending[1], outcome: 'skipped', score: null, total_questions: null },
+    ]);
+  });
+
+  it('rejects a score that contradicts the outcome', () => {
+    renderDialog();
+
+    chooseOutcome('Technician', 'Passed');
+    fireEvent.change(screen.getByLabelText('Score (optional)'), { target: { value: '20' } });
+
+    expect(screen.getByText('A passing score is at least 26')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /save result/i })).toBeDisabled();
+  });
+
+  it('rejects a score above the number of questions', () => {
+    renderDialog();
+
+    chooseOutcome('Technician', "Didn't pass");
+    fireEvent.change(screen.getByLabelText('Score (optional)'), { target: { value: '40' } });
+
+    expect(screen.getByText('Enter a whole number from 0 to 35')).toBeInTheDocument();
+  });
+
+  it('closes after the results are saved', () => {
+    mockMutate.mockImplementation((_reports, options) => options.onSuccess());
+    const onOpenChange = renderDialog();
+
+    chooseOutcome('Technician', 'Passed');
+    fireEvent.click(screen.getByRole('button', { name: /save result/i }));
+
+    expect(onOpenChange).toHaveBeenCalledWith(false);
+  });
+});
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  useReportExamOutcomes,
+  type ExamOutcome,
+  type ExamOutcomeReport,
+  type PendingExamOutcome,
+} from '@/hooks/useExamOutcomes';
+import { testConfig, testTypes } from '@/types/navigation';
+
+export interface ExamOutcomeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Past exams waiting for a result */
+  pending: PendingExamOutcome[];
+}
+
+interface OutcomeDraft {
+  outcome: ExamOutcome | null;
+  score: string;
+}
+
+const OUTCOME_OPTIONS: { value: ExamOutcome; label: string }[] = [
+  { value: 'passed', label: 'Passed' },
+  { value: 'failed', label: "Didn't pass" },
+  { value: 'skipped', label: "Didn't take it" },
+];
+
+function examKey(exam: PendingExamOutcome): string {
+  return `${exam.exam_date}-${exam.target_license}`;
+}
+
+function formatExamDate(examDate: string): string {
+  const [year, month, day] = examDate.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+}
+
+/**
+ * Check an optional score against the exam length and the reported outcome.
+ * Returns an error message, or null when the score is empty or valid.
+ */
+function validateScore(exam: PendingExamOutcome, draft: OutcomeDraft): string | null {
+  if (draft.score.trim() === '' || draft.outcome === 'skipped') return null;
+
+  const { questionCount, passingScore } = testConfig[exam.target_license];
+  const score = Number(draft.score);
+
+  if (!Number.isInteger(score) || score < 0 || score > questionCount) {
+    return `Enter a whole number from 0 to ${questionCount}`;
+  }
+  if (draft.outcome === 'passed' && score < passingScore) {
+    return `A passing score is at least ${passingScore}`;
+  }
+  if (draft.outcome === 'failed' && score >= passingScore) {
+    return `A score of ${score} passes this exam`;
+  }
+  return null;
+}
+
+/**
+ * Form for reporting how real exams went, one row per element taken.
+ * The score is optional because many VE teams only report pass or fail.
+ */
+export function ExamOutcomeDialog({ open, onOpenChange, pending }: ExamOutcomeDialogProps) {
+  const [drafts, setDrafts] = useState<Record<string, OutcomeDraft>>({});
+  const reportOutcomes = useReportExamOutcomes();
+
+  const getDraft = (exam: PendingExamOutcome): OutcomeDraft =>
+    drafts[examKey(exam)] ?? { outcome: null, score: '' };
+
+  const updateDraft = (exam: PendingExamOutcome, changes: Partial<OutcomeDraft>) => {
+    setDrafts((prev) => ({ ...prev, [examKey(exam)]: { ...getDraft(exam), ...changes } }));
+  };
+
+  const answered = pending.filter((exam) => getDraft(exam).outcome !== null);
+  const hasErrors = pending.some((exam) => validateScore(exam, getDraft(exam)) !== null);
+
+  const handleSubmit = () => {
+    const reports: ExamOutcomeReport[] = answered.map((exam) => {
+      const draft = getDraft(exam);
+      const hasScore = draft.outcome !== 'skipped' && draft.score.trim() !== '';
+      return {
+        ...exam,
+        outcome: draft.outcome!,
+        score: hasScore ? Number(draft.score) : null,
+        total_questions: hasScore ? testConfig[exam.target_license].questionCount : null,
+      };
+    });
+
+    reportOutcomes.mutate(reports, {
+      onSuccess: () => {
+        setDrafts({});
+        onOpenChange(false);
+      },
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>How did your exam go?</DialogTitle>
+          <DialogDescription>
+            Your result helps us check how well readiness predicts real exams.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          {pending.map((exam) => {
+            const key = examKey(exam);
+            const draft = getDraft(exam);
+            const error = validateScore(exam, draft);
+            const name = testTypes.find((t) => t.id === exam.target_license)?.name ?? exam.target_license;
+            const showScore = draft.outcome === 'passed' || draft.outcome === 'failed';
+
+            return (
+              <div key={key} className="rounded-lg border border-border p-4 space-y-3" data-testid={`exam-outcome-${key}`}>
+                <div>
+                  <p className="font-medium text-foreground">{name}</p>
+                  <p className="text-sm text-muted-foreground">{formatExamDate(exam.exam_date)}</p>
+                </div>
+
+                <div className="flex flex-wrap gap-2" role="radiogroup" aria-label={`${name} exam result`}>
+                  {OUTCOME_OPTIONS.map((option) => (
+                    <Button
+                      key={option.value}
+                      type="button"
+                      size="sm"
+                      role="radio"
+                      aria-checked={draft.outcome === option.value}
+                      variant={draft.outcome === option.value ? 'default' : 'outline'}
+                      onClick={() => updateDraft(exam, { outcome: option.value })}
+                    >
+                      {option.label}
+                    </Button>
+                  ))}
+                </div>
+
+                {showScore && (
+                  <div className="space-y-1">
+                    <Label htmlFor={`score-${key}`}>Score (optional)</Label>
+                    <div className="flex items-center gap-2">
+                      <Input
+                        id={`score-${key}`}
+                        type="number"
+                        inputMode="numeric"
+                        min={0}
+                        max={testConfig[exam.target_license].questionCount}
+                        value={draft.score}
+                        onChange={(e) => updateDraft(exam, { score: e.target.value })}
+                        className="w-24"
+                      />
+                      <span className="text-sm text-muted-foreground">
+                        / {testConfig[exam.target_license].questionCount} correct
+                      </span>
+                    </div>
+                    {error && <p className="text-sm text-destructive">{error}</p>}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Later
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={answered.length === 0 || hasErrors || reportOutcomes.isPending}
+          >
+            {reportOutcomes.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save Result{answered.length > 1 ? 's' : ''}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,9 @@
 // New dashboard components
+export { DashboardGroupHeatmap } from './DashboardGroupHeatmap';
 export { DashboardHero } from './DashboardHero';
 export { DashboardNextSteps } from './DashboardNextSteps';
 export { DashboardNotifications } from './DashboardNotifications';
 export { DashboardProgress } from './DashboardProgress';
 export { DashboardSectionInsights } from './DashboardSectionInsights';
+export { DashboardStudyPlan } from './DashboardStudyPlan';
 export { StreakDisplay } from './StreakDisplay';
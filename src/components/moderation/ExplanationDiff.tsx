@@ -0,0 +1,51 @@
+import { useMemo } from 'react';
+import { diffWords, hasChanges } from '@/lib/textDiff';
+import { cn } from '@/lib/utils';
+
+interface ExplanationDiffProps {
+  /** The published explanation */
+  before: string;
+  /** The proposed explanation */
+  after: string;
+  className?: string;
+}
+
+/**
+ * Inline word diff of a proposed explanation against the published one:
+ * removed words struck through in red, added words highlighted in green.
+ */
+export function ExplanationDiff({ before, after, className }: ExplanationDiffProps) {
+  const segments = useMemo(() => diffWords(before, after), [before, after]);
+
+  if (!hasChanges(segments)) {
+    return (
+      <p className={cn('text-sm text-muted-foreground italic', className)}>
+        No changes from the published explanation.
+      </p>
+    );
+  }
+
+  return (
+    <div
+      className={cn(
+        'text-sm whitespace-pre-wrap rounded-md border border-border bg-secondary/20 p-3',
+        className
+      )}
+      data-testid="explanation-diff"
+    >
+      {segments.map((segment, index) =>
+        segment.type === 'removed' ? (
+          <del key={index} className="bg-destructive/15 text-destructive line-through">
+            {segment.text}
+          </del>
+        ) : segment.type === 'added' ? (
+          <ins key={index} className="bg-success/15 text-success no-underline">
+            {segment.text}
+          </ins>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent, within } from '@testing-library/react';
+import { ModerationQueue } from './ModerationQueue';
+import type { ExplanationRevision } from '@/hooks/useModeration';
+
+const mockReviewMutate = vi.fn();
+let mockIsModerator: boolean;
+let mockRevisions: { data?: ExplanationRevision[]; isLoading: boolean; isError: boolean };
+
+vi.mock('@/hooks/useModeration', () => ({
+  useIsModerator: () => ({ isModerator: mockIsModerator, isLoading: false }),
+  usePendingRevisions: () => mockRevisions,
+  useReviewRevision: () => ({ mutate: mockReviewMutate, isPending: false }),
+}));
+
+const question = {
+  display_name: 'T5A01',
+  question: 'Electrical current is measured in which of the following units?',
+  explanation: 'Current is measured in amperes.',
+  forum_url: 'https://forum.openhamprep.com/t/t5a01/42',
+};
+
+const forumRevision: ExplanationRevision = {
+  id: 'r1',
+  question_id: 'q1',
+  source: 'forum',
+  proposed_explanation: 'Current is measured in amperes (amps).',
+  forum_username: 'kb1abc',
+  helpful_count: null,
+  not_helpful_count: null,
+  created_at: '2026-10-17T12:00:00Z',
+  updated_at: '2026-10-17T12:00:00Z',
+  question,
+};
+
+const feedbackRevision: ExplanationRevision = {
+  ...forumRevision,
+  id: 'r2',
+  source: 'feedback',
+  proposed_explanation: question.explanation,
+  forum_username: null,
+  helpful_count: 2,
+  not_helpful_count: 6,
+};
+
+describe('ModerationQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockIsModerator = true;
+    mockRevisions = { data: [forumRevision], isLoading: false, isError: false };
+  });
+
+  it('turns away users without the moderator role', () => {
+    mockIsModerator = false;
+
+    render(<ModerationQueue />);
+
+    expect(screen.getByText('Moderators only')).toBeInTheDocument();
+    expect(screen.queryByTestId('explanation-revision')).not.toBeInTheDocument();
+  });
+
+  it('shows a forum edit as a diff against the published explanation', () => {
+    render(<ModerationQueue />);
+
+    const card = screen.getByTestId('explanation-revision');
+    expect(within(card).getByText('T5A01')).toBeInTheDocument();
+    expect(within(card).getByText('Forum edit by @kb1abc')).toBeInTheDocument();
+
+    const diff = within(card).getByTestId('explanation-diff');
+    expect(diff.querySelector('del')).toHaveTextContent('amperes.');
+    expect(diff.querySelector('ins')).toHaveTextContent('amperes (amps).');
+  });
+
+  it('approves a forum edit as proposed', () => {
+    render(<ModerationQueue />);
+
+    fireEvent.change(screen.getByLabelText('Note (optional)'), { target: { value: 'Clearer' } });
+    fireEvent.click(screen.getByRole('button', { name: /approve/i }));
+
+    expect(mockReviewMutate).toHaveBeenCalledWith({
+      revision: forumRevision,
+      decision: { approve: true, explanation: undefined, note: 'Clearer' },
+    });
+  });
+
+  it('publishes an edited version', () => {
+    render(<ModerationQueue />);
+
+    fireEvent.click(screen.getByRole('button', { name: /edit/i }));
+    fireEvent.change(screen.getByLabelText('Explanation to publish'), {
+      target: { value: 'Current is measured in amperes, or amps.' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: /publish/i }));
+
+    expect(mockReviewMutate).toHaveBeenCalledWith({
+      revision: forumRevision,
+      decision: { approve: true, explanation: 'Current is measured in amperes, or amps.', note: '' },
+    });
+  });
+
+  it('rejects a forum edit', () => {
+    render(<ModerationQueue />);
+
+    fireEvent.click(screen.getByRole('button', { name: /reject/i }));
+
+    expect(mockReviewMutate).toHaveBeenCalledWith({
+      revision: forumRevision,
+      decision: { approve: false, explanation: undefined, note: '' },
+    });
+  });
+
+  it('opens low-rated explanations for rewriting', () => {
+    mockRevisions.data = [feedbackRevision];
+
+    render(<ModerationQueue />);
+
+    expect(screen.getByText('Low rated: 2 of 8 found it helpful')).toBeInTheDocument();
+    expect(screen.getByText('No changes from the published explanation.')).toBeInTheDocument();
+    expect(screen.getByLabelText('Explanation to publish')).toHaveValue(question.explanation);
+    // Nothing to publish until the moderator rewrites it
+    expect(screen.getByRole('button', { name: /publish/i })).toBeDisabled();
+
+    fireEvent.click(screen.getByRole('button', { name: /dismiss/i }));
+    expect(mockReviewMutate).toHaveBeenCalledWith(
+      expect.objectContaining({ decision: expect.objectContaining({ approve: false }) })
+    );
+  });
+
+  it('shows an empty queue', () => {
+    mockRevisions.data = [];
+
+    render(<ModerationQueue />);
+
+    expect(screen.getByText('Nothing to review. The queue is empty.')).toBeInTheDocument();
+  });
+
+  it('shows an error when the queue fails to load', () => {
+    mockRevisions = { data: undefined, isLoading: false, isError: true };
+
+    render(<ModerationQueue />);
+
+    expect(screen.getByText('Failed to load pending explanation changes.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,199 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, ShieldCheck, ShieldAlert, AlertTriangle, Check, X, Pencil, MessageSquare, ThumbsDown } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { PageContainer } from '@/components/ui/page-container';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  useIsModerator,
+  usePendingRevisions,
+  useReviewRevision,
+  type ExplanationRevision,
+} from '@/hooks/useModeration';
+import { ExplanationDiff } from './ExplanationDiff';
+
+function RevisionSourceBadge({ revision }: { revision: ExplanationRevision }) {
+  if (revision.source === 'forum') {
+    return (
+      <Badge variant="outline" className="gap-1">
+        <MessageSquare className="w-3 h-3" />
+        Forum edit{revision.forum_username ? ` by @${revision.forum_username}` : ''}
+      </Badge>
+    );
+  }
+
+  const total = (revision.helpful_count ?? 0) + (revision.not_helpful_count ?? 0);
+  return (
+    <Badge variant="outline" className="gap-1 border-warning text-warning">
+      <ThumbsDown className="w-3 h-3" />
+      Low rated: {revision.helpful_count ?? 0} of {total} found it helpful
+    </Badge>
+  );
+}
+
+/** One pending revision: diff, optional edit, and the review actions */
+function RevisionCard({ revision }: { revision: ExplanationRevision }) {
+  const reviewRevision = useReviewRevision();
+  const published = revision.question?.explanation ?? '';
+
+  // Low-rated explanations propose the published text unchanged, so the
+  // moderator starts by rewriting it
+  const [isEditing, setIsEditing] = useState(revision.source === 'feedback');
+  const [draft, setDraft] = useState(revision.proposed_explanation);
+  const [note, setNote] = useState('');
+
+  const candidate = isEditing ? draft : revision.proposed_explanation;
+  const canApprove = candidate.trim() !== '' && candidate.trim() !== published.trim();
+
+  const review = (approve: boolean) => {
+    reviewRevision.mutate({
+      revision,
+      decision: {
+        approve,
+        explanation: approve && isEditing ? draft : undefined,
+        note,
+      },
+    });
+  };
+
+  return (
+    <Card data-testid="explanation-revision">
+      <CardHeader className="space-y-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-base font-mono">
+            {revision.question?.display_name ?? 'Unknown question'}
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <RevisionSourceBadge revision={revision} />
+            <span className="text-xs text-muted-foreground">
+              {formatDistanceToNow(new Date(revision.updated_at), { addSuffix: true })}
+            </span>
+          </div>
+        </div>
+        {revision.question && (
+          <CardDescription className="line-clamp-2">{revision.question.question}</CardDescription>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ExplanationDiff before={published} after={candidate} />
+
+        {isEditing && (
+          <div className="space-y-2">
+            <Label htmlFor={`revision-draft-${revision.id}`}>Explanation to publish</Label>
+            <Textarea
+              id={`revision-draft-${revision.id}`}
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={6}
+            />
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label htmlFor={`revision-note-${revision.id}`}>Note (optional)</Label>
+          <Input
+            id={`revision-note-${revision.id}`}
+            value={note}
+            maxLength={500}
+            placeholder="Why this was approved or rejected"
+            onChange={(e) => setNote(e.target.value)}
+          />
+        </div>
+
+        <div className="flex flex-wrap justify-end gap-2">
+          {!isEditing && (
+            <Button variant="outline" onClick={() => setIsEditing(true)}>
+              <Pencil className="w-4 h-4 mr-1" />
+              Edit
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => review(false)} disabled={reviewRevision.isPending}>
+            <X className="w-4 h-4 mr-1" />
+            {revision.source === 'feedback' ? 'Dismiss' : 'Reject'}
+          </Button>
+          <Button onClick={() => review(true)} disabled={!canApprove || reviewRevision.isPending}>
+            {reviewRevision.isPending ? (
+              <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+            ) : (
+              <Check className="w-4 h-4 mr-1" />
+            )}
+            {isEditing ? 'Publish' : 'Approve'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+/**
+ * Moderation view: explanation changes from forum edits and low-rated
+ * explanations wait here until a moderator approves, edits or rejects them.
+ */
+export function ModerationQueue() {
+  const { isModerator, isLoading: roleLoading } = useIsModerator();
+  const { data: revisions = [], isLoading, isError } = usePendingRevisions(isModerator);
+
+  if (roleLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!isModerator) {
+    return (
+      <PageContainer width="standard" mobileNavPadding>
+        <Card>
+          <CardContent className="pt-6 text-center py-8">
+            <ShieldAlert className="w-12 h-12 text-destructive mx-auto mb-4" />
+            <p className="text-foreground font-medium mb-2">Moderators only</p>
+            <p className="text-muted-foreground">You do not have permission to review explanation changes.</p>
+          </CardContent>
+        </Card>
+      </PageContainer>
+    );
+  }
+
+  return (
+    <PageContainer width="standard" mobileNavPadding contentClassName="space-y-6">
+      <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }}>
+        <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+          <ShieldCheck className="w-6 h-6" />
+          Moderation
+        </h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Forum edits and low-rated explanations wait here before they're published.
+        </p>
+      </motion.div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : isError ? (
+        <div className="text-center py-8">
+          <AlertTriangle className="w-8 h-8 text-destructive mx-auto mb-2" />
+          <p className="text-sm text-muted-foreground">Failed to load pending explanation changes.</p>
+        </div>
+      ) : revisions.length === 0 ? (
+        <Card>
+          <CardContent className="pt-6 text-center py-8">
+            <Check className="w-10 h-10 text-success mx-auto mb-3" />
+            <p className="text-muted-foreground">Nothing to review. The queue is empty.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        // Keyed on updated_at so a newer forum edit resets any draft in progress
+        revisions.map((revision) => (
+          <RevisionCard key={`${revision.id}-${revision.updated_at}`} revision={revision} />
+        ))
+      )}
+    </PageContainer>
+  );
+}
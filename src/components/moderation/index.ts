@@ -0,0 +1,2 @@
+export { ModerationQueue } from './ModerationQueue';
+export { ExplanationDiff } from './ExplanationDiff';
@@ -31,6 +31,22 @@ describe('SidebarNavItem', () => {
     expect(screen.queryByText('Dashboard')).not.toBeInTheDocument();
   });
 
+  it('renders a badge with an accessible count', () => {
+    renderWithTooltip(
+      <SidebarNavItem
+        {...defaultProps}
+        item={{ ...defaultProps.item, badge: 12, badgeAriaLabel: '12 changes to review' }}
+      />
+    );
+    expect(screen.getByText('9+')).toBeInTheDocument();
+    expect(screen.getByText(', 12 changes to review')).toBeInTheDocument();
+  });
+
+  it('hides the badge when the count is zero', () => {
+    renderWithTooltip(<SidebarNavItem {...defaultProps} item={{ ...defaultProps.item, badge: 0 }} />);
+    expect(screen.queryByText('0')).not.toBeInTheDocument();
+  });
+
   it('renders icon', () => {
     renderWithTooltip(<SidebarNavItem {...defaultProps} />);
     // Icon should be rendered (check for SVG)
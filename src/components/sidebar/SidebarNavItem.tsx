@@ -58,6 +58,7 @@ export function SidebarNavItem({
   }
 
   // Internal nav button
+  const hasBadge = item.badge !== undefined && item.badge > 0;
   const buttonContent = (
     <button
       onClick={onClick}
@@ -76,10 +77,18 @@ export function SidebarNavItem({
     >
       <div className="relative shrink-0">
         <Icon className="w-5 h-5" />
+        {hasBadge && (
+          <span className="absolute -top-1.5 -right-1.5 bg-primary text-primary-foreground text-[10px] font-bold w-4 h-4 rounded-full flex items-center justify-center" aria-hidden="true">
+            {item.badge! > 9 ? '9+' : item.badge}
+          </span>
+        )}
       </div>
       {showExpanded && (
         <span className="text-base font-medium truncate">{item.label}</span>
       )}
+      {hasBadge && (
+        <span className="sr-only">, {item.badgeAriaLabel || `${item.badge} items`}</span>
+      )}
     </button>
   );
 
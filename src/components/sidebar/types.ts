@@ -45,6 +45,7 @@ export interface DashboardSidebarProps {
   isCollapsed: boolean;
   onToggleCollapse: () => void;
   weakQuestionCount: number;
+  dueReviewCount?: number;
   bookmarkCount: number;
   isTestAvailable: boolean;
   userInfo?: UserInfo;
@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { ReactNode } from 'react';
+import { useIsInstructor, useJoinClassroom, useStudentAssignments } from './useClassrooms';
+
+vi.mock('./useAuth', () => ({
+  useAuth: vi.fn(() => ({ user: { id: 'user-1' }, loading: false })),
+}));
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+let mockLessonProgress: { lesson_id: string; is_completed: boolean }[];
+let mockTopicProgress: { topic_id: string; is_completed: boolean }[];
+
+vi.mock('@/hooks/useLessons', () => ({
+  useLessonProgress: () => ({ data: mockLessonProgress }),
+}));
+
+vi.mock('@/hooks/useTopics', () => ({
+  useTopicProgress: () => ({ data: mockTopicProgress }),
+}));
+
+const mockIsInstructor = vi.fn();
+const mockJoinClassroom = vi.fn();
+const mockGetStudentClassrooms = vi.fn();
+const mockGetStudentAssignments = vi.fn();
+
+vi.mock('@/services/classrooms/classroomService', () => ({
+  classroomService: {
+    isInstructor: (...args: unknown[]) => mockIsInstructor(...args),
+    joinClassroom: (...args: unknown[]) => mockJoinClassroom(...args),
+    getStudentClassrooms: (...args: unknown[]) => mockGetStudentClassrooms(...args),
+    getStudentAssignments: (...args: unknown[]) => mockGetStudentAssignments(...args),
+  },
+}));
+
+import { toast } from 'sonner';
+
+function createWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+  return ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+}
+
+const assignment = (id: string, due_date: string, target: { lesson?: string; topic?: string }) => ({
+  id,
+  classroom_id: 'c1',
+  due_date,
+  lesson: target.lesson ? { id: target.lesson, slug: target.lesson, title: target.lesson } : null,
+  topic: target.topic ? { id: target.topic, slug: target.topic, title: target.topic } : null,
+  classroom: { name: 'Fall Tech' },
+});
+
+describe('useClassrooms', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockLessonProgress = [];
+    mockTopicProgress = [];
+  });
+
+  describe('useIsInstructor', () => {
+    it('reports the instructor role', async () => {
+      mockIsInstructor.mockResolvedValue({ success: true, data: true });
+
+      const { result } = renderHook(() => useIsInstructor(), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isInstructor).toBe(true));
+      expect(mockIsInstructor).toHaveBeenCalledWith('user-1');
+    });
+  });
+
+  describe('useJoinClassroom', () => {
+    it('normalizes the code before joining', async () => {
+      mockJoinClassroom.mockResolvedValue({ success: true, data: 'c1' });
+
+      const { result } = renderHook(() => useJoinClassroom(), { wrapper: createWrapper() });
+      await act(() => result.current.mutateAsync(' abc-234 '));
+
+      expect(mockJoinClassroom).toHaveBeenCalledWith('ABC234');
+      expect(toast.success).toHaveBeenCalledWith('You joined the classroom');
+    });
+
+    it('explains an unknown join code', async () => {
+      mockJoinClassroom.mockResolvedValue({
+        success: false,
+        error: { code: 'NOT_FOUND', message: 'Classroom not found' },
+      });
+
+      const { result } = renderHook(() => useJoinClassroom(), { wrapper: createWrapper() });
+      await act(async () => {
+        await result.current.mutateAsync('ZZZZZZ').catch(() => {});
+      });
+
+      expect(toast.error).toHaveBeenCalledWith('No classroom matches that join code');
+    });
+  });
+
+  describe('useStudentAssignments', () => {
+    it('returns uncompleted assignments, soonest due first', async () => {
+      mockGetStudentClassrooms.mockResolvedValue({
+        success: true,
+        data: [{ id: 'c1', name: 'Fall Tech', exam_type: 'technician', joined_at: '2026-09-02' }],
+      });
+      mockGetStudentAssignments.mockResolvedValue({
+        success: true,
+        data: [
+          assignment('a1', '2026-11-01', { lesson: 'l1' }),
+          assignment('a2', '2026-10-25', { topic: 't1' }),
+          assignment('a3', '2026-10-20', { lesson: 'l2' }),
+        ],
+      });
+      mockLessonProgress = [{ lesson_id: 'l2', is_completed: true }];
+
+      const { result } = renderHook(() => useStudentAssignments(), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.assignments).toHaveLength(2));
+      expect(result.current.assignments.map((a) => a.id)).toEqual(['a2', 'a1']);
+      expect(mockGetStudentAssignments).toHaveBeenCalledWith(['c1']);
+    });
+
+    it('skips fetching when the user has joined no classes', async () => {
+      mockGetStudentClassrooms.mockResolvedValue({ success: true, data: [] });
+
+      const { result } = renderHook(() => useStudentAssignments(), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(mockGetStudentClassrooms).toHaveBeenCalled());
+      expect(result.current.assignments).toEqual([]);
+      expect(mockGetStudentAssignments).not.toHaveBeenCalled();
+    });
+  });
+});
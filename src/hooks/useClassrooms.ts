@@ -0,0 +1,271 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { useLessonProgress } from '@/hooks/useLessons';
+import { useTopicProgress } from '@/hooks/useTopics';
+import { queryKeys, unwrapOrThrow, ServiceLayerError } from '@/services';
+import { classroomService } from '@/services/classrooms/classroomService';
+import type { AssignmentTargetInput } from '@/services/classrooms/classroomService';
+import type { LicenseType } from '@/services/examSessions/examSessionService';
+import { getOpenAssignments, normalizeJoinCode } from '@/lib/classrooms';
+
+// Re-export domain types for consumers
+export type {
+  Classroom,
+  InstructorClassroom,
+  StudentClassroom,
+  ClassroomAssignment,
+  StudentAssignment,
+  RosterStudent,
+  StudentTestResult,
+} from '@/services/classrooms/classroomService';
+
+/**
+ * Whether the current user can run classrooms (instructor or admin role).
+ */
+export function useIsInstructor() {
+  const { user } = useAuth();
+
+  const { data: isInstructor = false, isLoading } = useQuery({
+    queryKey: queryKeys.auth.instructor(user?.id ?? ''),
+    queryFn: async () => unwrapOrThrow(await classroomService.isInstructor(user!.id)),
+    enabled: !!user,
+  });
+
+  return { isInstructor, isLoading };
+}
+
+// =============================================================================
+// Instructor
+// =============================================================================
+
+/**
+ * Classrooms the current user runs, newest first.
+ */
+export function useInstructorClassrooms(enabled = true) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.classrooms.instructor(user?.id ?? ''),
+    queryFn: async () => unwrapOrThrow(await classroomService.getInstructorClassrooms(user!.id)),
+    enabled: !!user && enabled,
+  });
+}
+
+export function useCreateClassroom() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ name, examType }: { name: string; examType: LicenseType }) => {
+      if (!user) throw new Error('Not authenticated');
+      return unwrapOrThrow(await classroomService.createClassroom(user.id, name, examType));
+    },
+    onSuccess: (classroom) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.classrooms.instructor(user?.id ?? '') });
+      toast.success(`Classroom created. Share join code ${classroom.join_code} with your students`);
+    },
+    onError: (error) => {
+      toast.error('Failed to create classroom');
+      console.error('Failed to create classroom:', error);
+    },
+  });
+}
+
+export function useDeleteClassroom() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (classroomId: string) =>
+      unwrapOrThrow(await classroomService.deleteClassroom(classroomId)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.classrooms.instructor(user?.id ?? '') });
+      toast.success('Classroom deleted');
+    },
+    onError: (error) => {
+      toast.error('Failed to delete classroom');
+      console.error('Failed to delete classroom:', error);
+    },
+  });
+}
+
+/**
+ * Students in a classroom with their readiness for its exam.
+ */
+export function useClassroomRoster(classroomId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.classrooms.roster(classroomId ?? ''),
+    queryFn: async () => unwrapOrThrow(await classroomService.getRoster(classroomId!)),
+    enabled: !!classroomId,
+    staleTime: 1000 * 60 * 2,
+  });
+}
+
+/**
+ * One student's recent practice tests. Loads once a student is selected.
+ */
+export function useClassroomStudentTests(classroomId: string, studentId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.classrooms.studentTests(classroomId, studentId ?? ''),
+    queryFn: async () => unwrapOrThrow(await classroomService.getStudentTests(classroomId, studentId!)),
+    enabled: !!studentId,
+    staleTime: 1000 * 60 * 2,
+  });
+}
+
+export function useRemoveStudent(classroomId: string) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (studentId: string) =>
+      unwrapOrThrow(await classroomService.removeStudent(classroomId, studentId)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.classrooms.roster(classroomId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.classrooms.instructor(user?.id ?? '') });
+      toast.success('Student removed from classroom');
+    },
+    onError: (error) => {
+      toast.error('Failed to remove student');
+      console.error('Failed to remove student:', error);
+    },
+  });
+}
+
+export function useClassroomAssignments(classroomId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.classrooms.assignments(classroomId ?? ''),
+    queryFn: async () => unwrapOrThrow(await classroomService.getAssignments(classroomId!)),
+    enabled: !!classroomId,
+  });
+}
+
+export function useCreateAssignment(classroomId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ target, dueDate }: { target: AssignmentTargetInput; dueDate: string }) =>
+      unwrapOrThrow(await classroomService.createAssignment(classroomId, target, dueDate)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.classrooms.assignments(classroomId) });
+      toast.success('Assignment added');
+    },
+    onError: (error) => {
+      toast.error('Failed to add assignment');
+      console.error('Failed to create assignment:', error);
+    },
+  });
+}
+
+export function useDeleteAssignment(classroomId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (assignmentId: string) =>
+      unwrapOrThrow(await classroomService.deleteAssignment(assignmentId)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.classrooms.assignments(classroomId) });
+    },
+    onError: (error) => {
+      toast.error('Failed to remove assignment');
+      console.error('Failed to delete assignment:', error);
+    },
+  });
+}
+
+// =============================================================================
+// Student
+// =============================================================================
+
+/**
+ * Classrooms the current user has joined.
+ */
+export function useStudentClassrooms() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.classrooms.student(user?.id ?? ''),
+    queryFn: async () => unwrapOrThrow(await classroomService.getStudentClassrooms(user!.id)),
+    enabled: !!user,
+    staleTime: 1000 * 60 * 5,
+  });
+}
+
+export function useJoinClassroom() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (joinCode: string) =>
+      unwrapOrThrow(await classroomService.joinClassroom(normalizeJoinCode(joinCode))),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.classrooms.student(user?.id ?? '') });
+      queryClient.invalidateQueries({ queryKey: queryKeys.classrooms.studentAssignments(user?.id ?? '') });
+      toast.success('You joined the classroom');
+    },
+    onError: (error) => {
+      toast.error(
+        error instanceof ServiceLayerError && error.code === 'NOT_FOUND'
+          ? 'No classroom matches that join code'
+          : 'Failed to join classroom'
+      );
+      console.error('Failed to join classroom:', error);
+    },
+  });
+}
+
+export function useLeaveClassroom() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (classroomId: string) => {
+      if (!user) throw new Error('Not authenticated');
+      return unwrapOrThrow(await classroomService.leaveClassroom(user.id, classroomId));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.classrooms.student(user?.id ?? '') });
+      queryClient.invalidateQueries({ queryKey: queryKeys.classrooms.studentAssignments(user?.id ?? '') });
+      toast.success('You left the classroom');
+    },
+    onError: (error) => {
+      toast.error('Failed to leave classroom');
+      console.error('Failed to leave classroom:', error);
+    },
+  });
+}
+
+/**
+ * Lessons and topics the current user's instructors assigned that they
+ * haven't completed yet, soonest due first.
+ */
+export function useStudentAssignments() {
+  const { user } = useAuth();
+  const { data: classrooms } = useStudentClassrooms();
+  const { data: lessonProgress } = useLessonProgress();
+  const { data: topicProgress } = useTopicProgress();
+
+  const classroomIds = useMemo(() => (classrooms ?? []).map((c) => c.id), [classrooms]);
+
+  const query = useQuery({
+    queryKey: queryKeys.classrooms.studentAssignments(user?.id ?? ''),
+    queryFn: async () => unwrapOrThrow(await classroomService.getStudentAssignments(classroomIds)),
+    enabled: !!user && classroomIds.length > 0,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const assignments = useMemo(() => {
+    if (classroomIds.length === 0) return [];
+    const completedLessons = new Set(
+      (lessonProgress ?? []).filter((p) => p.is_completed).map((p) => p.lesson_id)
+    );
+    const completedTopics = new Set(
+      (topicProgress ?? []).filter((p) => p.is_completed).map((p) => p.topic_id)
+    );
+    return getOpenAssignments(query.data ?? [], completedLessons, completedTopics);
+  }, [classroomIds, query.data, lessonProgress, topicProgress]);
+
+  return { assignments, isLoading: query.isLoading };
+}
@@ -0,0 +1,146 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { useContentRevisions, useRestoreContentRevision, type ContentRevision } from './useContentRevisions';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+const mockOrder = vi.fn();
+const mockUpdateEq = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: vi.fn(() => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      order: mockOrder,
+      update: vi.fn(() => ({ eq: mockUpdateEq })),
+    })),
+    rpc: vi.fn(),
+    functions: {
+      invoke: vi.fn().mockResolvedValue({ data: null, error: null }),
+    },
+  },
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+    warning: vi.fn(),
+  },
+}));
+
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  });
+  return ({ children }: { children: React.ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+};
+
+const revision: ContentRevision = {
+  id: 'rev-2',
+  entity_type: 'question',
+  entity_id: 'q1',
+  revision_number: 2,
+  content: { explanation: 'Old explanation', forum_url: 'https://forum.openhamprep.com/t/t1a01/1' },
+  changed_fields: ['explanation'],
+  restored_from: null,
+  created_by_email: 'admin@example.com',
+  created_at: '2026-10-01T12:00:00Z',
+};
+
+const restoredRow = {
+  id: 'rev-5',
+  entity_type: 'question',
+  entity_id: 'q1',
+  revision_number: 5,
+  content: revision.content,
+  changed_fields: ['explanation'],
+};
+
+describe('useContentRevisions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUpdateEq.mockResolvedValue({ error: null });
+  });
+
+  it('fetches revisions newest first', async () => {
+    mockOrder.mockResolvedValue({ data: [revision], error: null });
+
+    const { result } = renderHook(() => useContentRevisions('question', 'q1'), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.data).toEqual([revision]));
+    expect(supabase.from).toHaveBeenCalledWith('content_revisions');
+    expect(mockOrder).toHaveBeenCalledWith('revision_number', { ascending: false });
+  });
+
+  it('does not fetch without an entity', () => {
+    renderHook(() => useContentRevisions('question', undefined), { wrapper: createWrapper() });
+
+    expect(supabase.from).not.toHaveBeenCalled();
+  });
+
+  describe('useRestoreContentRevision', () => {
+    it('restores and pushes the explanation to the forum post', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: [restoredRow], error: null } as never);
+
+      const { result } = renderHook(() => useRestoreContentRevision(), { wrapper: createWrapper() });
+      await act(() => result.current.mutateAsync(revision));
+
+      expect(supabase.rpc).toHaveBeenCalledWith('restore_content_revision', { p_revision_id: 'rev-2' });
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('update-discourse-post', {
+        body: { questionId: 'q1', explanation: 'Old explanation' },
+      });
+      expect(supabase.functions.invoke).toHaveBeenCalledWith('manage-question-links', {
+        body: { action: 'extract-from-explanation', questionId: 'q1' },
+      });
+      expect(toast.success).toHaveBeenCalledWith('Restored revision #2');
+    });
+
+    it('does not touch the forum when the explanation is unchanged', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: [{ ...restoredRow, changed_fields: ['question'] }],
+        error: null,
+      } as never);
+
+      const { result } = renderHook(() => useRestoreContentRevision(), { wrapper: createWrapper() });
+      await act(() => result.current.mutateAsync(revision));
+
+      expect(supabase.functions.invoke).not.toHaveBeenCalled();
+    });
+
+    it('warns when the forum post cannot be updated', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({ data: [restoredRow], error: null } as never);
+      vi.mocked(supabase.functions.invoke).mockResolvedValueOnce({
+        data: null,
+        error: { message: 'Discourse unavailable' },
+      } as never);
+
+      const { result } = renderHook(() => useRestoreContentRevision(), { wrapper: createWrapper() });
+      await act(() => result.current.mutateAsync(revision));
+
+      expect(toast.warning).toHaveBeenCalledWith('Revision restored, but the forum post could not be updated');
+      expect(toast.success).toHaveBeenCalled();
+    });
+
+    it('shows the database error when the restore fails', async () => {
+      vi.mocked(supabase.rpc).mockResolvedValue({
+        data: null,
+        error: { message: 'Revision matches the current content' },
+      } as never);
+
+      const { result } = renderHook(() => useRestoreContentRevision(), { wrapper: createWrapper() });
+      await act(async () => {
+        await result.current.mutateAsync(revision).catch(() => {});
+      });
+
+      expect(toast.error).toHaveBeenCalledWith('Failed to restore revision: Revision matches the current content');
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { queryKeys } from '@/services/queryKeys';
+import {
+  needsForumResync,
+  type ContentEntityType,
+  type RevisionContent,
+} from '@/lib/contentRevisions';
+
+export type { ContentEntityType, RevisionContent } from '@/lib/contentRevisions';
+
+export interface ContentRevision {
+  id: string;
+  entity_type: ContentEntityType;
+  entity_id: string;
+  revision_number: number;
+  content: RevisionContent;
+  changed_fields: string[];
+  restored_from: string | null;
+  created_by_email: string | null;
+  created_at: string;
+}
+
+/** The new revision written by a restore */
+type RestoredRevision = Pick<
+  ContentRevision,
+  'id' | 'entity_type' | 'entity_id' | 'revision_number' | 'content' | 'changed_fields'
+>;
+
+/**
+ * Every revision of a question, glossary term or tool, newest first.
+ */
+export function useContentRevisions(entityType: ContentEntityType, entityId: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.contentRevisions.list(entityType, entityId ?? ''),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('content_revisions')
+        .select(
+          'id, entity_type, entity_id, revision_number, content, changed_fields, restored_from, created_by_email, created_at'
+        )
+        .eq('entity_type', entityType)
+        .eq('entity_id', entityId!)
+        .order('revision_number', { ascending: false });
+
+      if (error) throw error;
+      return (data ?? []) as ContentRevision[];
+    },
+    enabled: !!entityId,
+  });
+}
+
+/**
+ * Push a restored question explanation to its forum post, tracking the
+ * result in discourse_sync_status the same way the question editor does.
+ */
+async function syncRestoredExplanation(questionId: string, explanation: string) {
+  await supabase
+    .from('questions')
+    .update({
+      discourse_sync_status: 'pending',
+      discourse_sync_at: new Date().toISOString(),
+    })
+    .eq('id', questionId);
+
+  const response = await supabase.functions.invoke('update-discourse-post', {
+    body: { questionId, explanation },
+  });
+
+  if (response.error) {
+    console.error('Discourse sync failed:', response.error);
+    await supabase
+      .from('questions')
+      .update({
+        discourse_sync_status: 'error',
+        discourse_sync_at: new Date().toISOString(),
+        discourse_sync_error: response.error.message || 'Sync failed',
+      })
+      .eq('id', questionId);
+    toast.warning('Revision restored, but the forum post could not be updated');
+  }
+}
+
+/**
+ * Restore an earlier revision. The database writes it back as a new
+ * revision and regenerates the question's content_hash; a restored
+ * explanation is then pushed to Discourse and its links re-extracted.
+ */
+export function useRestoreContentRevision() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (revision: ContentRevision) => {
+      const { data, error } = await supabase.rpc('restore_content_revision', {
+        p_revision_id: revision.id,
+      });
+      if (error) throw error;
+
+      const restored = data?.[0] as RestoredRevision | undefined;
+      if (!restored) throw new Error('Restore did not return a revision');
+
+      if (needsForumResync(restored)) {
+        await syncRestoredExplanation(
+          restored.entity_id,
+          (restored.content.explanation as string | null) ?? ''
+        );
+      }
+
+      if (restored.entity_type === 'question' && restored.changed_fields.includes('explanation')) {
+        try {
+          await supabase.functions.invoke('manage-question-links', {
+            body: {
+              action: 'extract-from-explanation',
+              questionId: restored.entity_id,
+            },
+          });
+        } catch (linkError) {
+          console.warn('Failed to extract links from explanation:', linkError);
+        }
+      }
+
+      return restored;
+    },
+    onSuccess: (_restored, revision) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.contentRevisions.root });
+
+      if (revision.entity_type === 'question') {
+        queryClient.invalidateQueries({ queryKey: queryKeys.questions.root });
+        queryClient.invalidateQueries({ queryKey: queryKeys.questions.admin() });
+        queryClient.invalidateQueries({ queryKey: queryKeys.questions.adminFull() });
+      } else if (revision.entity_type === 'glossary_term') {
+        queryClient.invalidateQueries({ queryKey: ['admin-glossary-terms'] });
+        queryClient.invalidateQueries({ queryKey: queryKeys.glossary.terms() });
+      } else {
+        queryClient.invalidateQueries({ queryKey: queryKeys.hamRadioTools.all() });
+        queryClient.invalidateQueries({ queryKey: queryKeys.hamRadioTools.admin() });
+      }
+
+      toast.success(`Restored revision #${revision.revision_number}`);
+    },
+    onError: (error) => {
+      toast.error('Failed to restore revision: ' + error.message);
+    },
+  });
+}
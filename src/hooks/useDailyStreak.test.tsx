@@ -323,6 +323,7 @@ describe('incrementDailyActivity', () => {
       p_tests: 0,
       p_tests_passed: 0,
       p_glossary: 0,
+      p_morse: 0,
     });
   });
 
@@ -344,6 +345,7 @@ describe('incrementDailyActivity', () => {
       p_tests: 1,
       p_tests_passed: 1,
       p_glossary: 0,
+      p_morse: 0,
     });
   });
 
@@ -391,6 +393,20 @@ describe('incrementDailyActivity', () => {
       p_tests: 0,
       p_tests_passed: 0,
       p_glossary: 10,
+      p_morse: 0,
     });
   });
+
+  it('handles Morse character tracking', async () => {
+    mockRpc.mockReturnValue(Promise.resolve({ error: null }));
+
+    await incrementDailyActivity('user-123', {
+      morse: 15,
+    });
+
+    expect(mockRpc).toHaveBeenCalledWith('increment_daily_activity', expect.objectContaining({
+      p_questions: 0,
+      p_morse: 15,
+    }));
+  });
 });
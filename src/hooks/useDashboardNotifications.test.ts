@@ -7,6 +7,7 @@ const mockUseDailyStreak = vi.fn();
 const mockUseReadinessScore = vi.fn();
 const mockUseReadinessSnapshots = vi.fn();
 const mockUsePushNotifications = vi.fn();
+const mockUsePendingExamOutcomes = vi.fn();
 const mockGetLocalDateString = vi.fn();
 
 vi.mock('@/hooks/useDailyStreak', () => ({
@@ -26,6 +27,10 @@ vi.mock('@/hooks/usePushNotifications', () => ({
   usePushNotifications: () => mockUsePushNotifications(),
 }));
 
+vi.mock('@/hooks/useExamOutcomes', () => ({
+  usePendingExamOutcomes: () => mockUsePendingExamOutcomes(),
+}));
+
 vi.mock('@/lib/streakConstants', () => ({
   getLocalDateString: () => mockGetLocalDateString(),
 }));
@@ -104,6 +109,7 @@ describe('useDashboardNotifications', () => {
     mockUseReadinessScore.mockReturnValue(defaultReadinessData);
     mockUseReadinessSnapshots.mockReturnValue(defaultSnapshotsData);
     mockUsePushNotifications.mockReturnValue(defaultPushData);
+    mockUsePendingExamOutcomes.mockReturnValue({ data: [], isLoading: false });
 
     // Mock document.visibilityState
     Object.defineProperty(document, 'visibilityState', {
@@ -149,6 +155,67 @@ describe('useDashboardNotifications', () => {
     });
   });
 
+  describe('Exam Outcome Notification', () => {
+    const pendingExam = { exam_date: '2026-01-17', target_license: 'technician', exam_session_id: 's1' };
+
+    it('asks for the result of a past exam', () => {
+      mockUsePendingExamOutcomes.mockReturnValue({ data: [pendingExam], isLoading: false });
+      const onReportExamOutcome = vi.fn();
+
+      const { result } = renderHook(() =>
+        useDashboardNotifications({ ...defaultOptions, onReportExamOutcome })
+      );
+
+      const notification = result.current.notifications[0];
+      expect(notification.type).toBe('exam-outcome');
+      expect(notification.priority).toBe(1);
+      expect(notification.description).toContain('your Technician exam on Jan 17');
+      expect(result.current.pendingExamOutcomes).toEqual([pendingExam]);
+
+      notification.action!.onClick();
+      expect(onReportExamOutcome).toHaveBeenCalled();
+    });
+
+    it('summarizes several pending exams', () => {
+      mockUsePendingExamOutcomes.mockReturnValue({
+        data: [pendingExam, { ...pendingExam, target_license: 'general' }],
+        isLoading: false,
+      });
+
+      const { result } = renderHook(() =>
+        useDashboardNotifications({ ...defaultOptions, onReportExamOutcome: vi.fn() })
+      );
+
+      expect(result.current.notifications[0].description).toContain('your recent exams');
+    });
+
+    it('does not show without a way to report the result', () => {
+      mockUsePendingExamOutcomes.mockReturnValue({ data: [pendingExam], isLoading: false });
+
+      const { result } = renderHook(() => useDashboardNotifications(defaultOptions));
+
+      expect(result.current.notifications.find((n) => n.type === 'exam-outcome')).toBeUndefined();
+    });
+
+    it('can be dismissed for the day', () => {
+      mockUsePendingExamOutcomes.mockReturnValue({ data: [pendingExam], isLoading: false });
+
+      const { result } = renderHook(() =>
+        useDashboardNotifications({ ...defaultOptions, onReportExamOutcome: vi.fn() })
+      );
+
+      act(() => {
+        result.current.dismissNotification('exam-outcome');
+      });
+
+      expect(mockLocalStorage.setItem).toHaveBeenCalledWith(
+        'notification-dismissed-exam-outcome-2026-01-21',
+        'true'
+      );
+      expect(result.current.notifications.find((n) => n.type === 'exam-outcome')).toBeUndefined();
+    });
+  });
+
   describe('Inactivity Notification', () => {
     it('shows inactivity when last study was 3+ days ago', () => {
       mockUseReadinessScore.mockReturnValue({
@@ -1,12 +1,13 @@
 import { useMemo, useCallback, useEffect, useRef, useState } from 'react';
-import { LucideIcon, TrendingDown, Clock, Target, Trophy } from 'lucide-react';
+import { LucideIcon, TrendingDown, Clock, Target, Trophy, ClipboardCheck } from 'lucide-react';
 import { useDailyStreak } from '@/hooks/useDailyStreak';
 import { useReadinessScore } from '@/hooks/useReadinessScore';
 import { useReadinessSnapshots, calculateTrend } from '@/hooks/useReadinessSnapshots';
 import { usePushNotifications } from '@/hooks/usePushNotifications';
+import { usePendingExamOutcomes, type PendingExamOutcome } from '@/hooks/useExamOutcomes';
 import { getLocalDateString } from '@/lib/streakConstants';
 import { safeGetItem, safeSetItem } from '@/lib/localStorage';
-import { TestType, View } from '@/types/navigation';
+import { TestType, View, testTypes } from '@/types/navigation';
 
 // ============================================================================
 // Constants (exported for use in components)
@@ -42,6 +43,9 @@ const INACTIVITY_THRESHOLD_DAYS = 3;
  */
 const WEEKLY_GOAL_CLOSE_THRESHOLD = 80;
 
+/** Stable fallback so the notification memo doesn't rerun while outcomes load */
+const NO_PENDING_OUTCOMES: PendingExamOutcome[] = [];
+
 // ============================================================================
 // Types
 // ============================================================================
@@ -51,6 +55,7 @@ const WEEKLY_GOAL_CLOSE_THRESHOLD = 80;
  * Note: streak-at-risk is handled by StreakDisplay, not here.
  */
 export type NotificationType =
+  | 'exam-outcome'
   | 'declining-performance'
   | 'inactivity'
   | 'weekly-goal-close'
@@ -102,6 +107,8 @@ export interface UseDashboardNotificationsOptions {
   questionsGoal: number;
   /** Navigation handler */
   onNavigate: (view: View) => void;
+  /** Opens the exam result form; the exam-outcome prompt only shows when set */
+  onReportExamOutcome?: () => void;
   /** Maximum notifications to show (default: 1) */
   maxVisible?: number;
 }
@@ -116,6 +123,8 @@ export interface UseDashboardNotificationsResult {
   dismissNotification: (id: string) => void;
   /** Whether the hook is still loading data */
   isLoading: boolean;
+  /** Past exams waiting for a reported result */
+  pendingExamOutcomes: PendingExamOutcome[];
   /** Push notification state and actions */
   push: {
     permission: NotificationPermission;
@@ -138,6 +147,7 @@ function getDismissKey(type: NotificationType, milestone?: number): string {
 
   switch (type) {
     // Day-based dismissals (reset daily)
+    case 'exam-outcome':
     case 'inactivity':
     case 'weekly-goal-close':
       return `${DISMISS_PREFIX}${type}-${today}`;
@@ -234,6 +244,19 @@ function getHighestMilestone(readinessScore: number | null): number | null {
   return null;
 }
 
+/**
+ * Describe which exams are waiting for a result, e.g. "your Technician exam on Oct 3".
+ */
+function describePendingExams(pending: PendingExamOutcome[]): string {
+  if (pending.length > 1) return 'your recent exams';
+
+  const [{ exam_date, target_license }] = pending;
+  const [year, month, day] = exam_date.split('-').map(Number);
+  const date = new Date(year, month - 1, day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+  const name = testTypes.find((t) => t.id === target_license)?.name ?? target_license;
+  return `your ${name} exam on ${date}`;
+}
+
 // ============================================================================
 // Hook
 // ============================================================================
@@ -264,6 +287,7 @@ export function useDashboardNotifications(
     thisWeekQuestions,
     questionsGoal,
     onNavigate,
+    onReportExamOutcome,
     maxVisible = 1,
   } = options;
 
@@ -283,6 +307,9 @@ export function useDashboardNotifications(
     days: 14, // Only need 2 weeks for trend calculation
   });
 
+  const { data: pendingOutcomesData, isLoading: pendingOutcomesLoading } = usePendingExamOutcomes();
+  const pendingExamOutcomes = pendingOutcomesData ?? NO_PENDING_OUTCOMES;
+
   const {
     permission,
     isSupported,
@@ -298,7 +325,7 @@ export function useDashboardNotifications(
   const sendNotificationRef = useRef(sendNotification);
   sendNotificationRef.current = sendNotification;
 
-  const isLoading = streakLoading || readinessLoading || snapshotsLoading;
+  const isLoading = streakLoading || readinessLoading || snapshotsLoading || pendingOutcomesLoading;
 
   // Calculate derived values
   const readinessScore = readinessData?.readiness_score ?? null;
@@ -345,7 +372,30 @@ export function useDashboardNotifications(
   const allNotifications = useMemo((): DashboardNotification[] => {
     const notifications: DashboardNotification[] = [];
 
-    // 1. Declining Performance (Priority 1)
+    // 1. Exam Outcome (Priority 1)
+    // Trigger: a past exam date with no reported result
+    if (
+      pendingExamOutcomes.length > 0 &&
+      onReportExamOutcome &&
+      !isDismissed('exam-outcome')
+    ) {
+      notifications.push({
+        id: 'exam-outcome',
+        type: 'exam-outcome',
+        priority: 1,
+        title: 'How did your exam go?',
+        description: `Let us know how ${describePendingExams(pendingExamOutcomes)} went. It helps make readiness predictions more accurate.`,
+        icon: ClipboardCheck,
+        variant: 'muted',
+        action: {
+          label: 'Report Result',
+          onClick: onReportExamOutcome,
+        },
+        dismissible: true,
+      });
+    }
+
+    // 2. Declining Performance (Priority 2)
     // Note: streak-at-risk is handled by StreakDisplay, not here
     // Trigger: calculateTrend() === 'declining'
     if (trend === 'declining' && !isDismissed('declining-performance')) {
@@ -441,6 +491,8 @@ export function useDashboardNotifications(
     // Sort by priority and limit
     return notifications.sort((a, b) => a.priority - b.priority).slice(0, maxVisible);
   }, [
+    pendingExamOutcomes,
+    onReportExamOutcome,
     readinessScore,
     trend,
     inactivityDays,
@@ -466,6 +518,7 @@ export function useDashboardNotifications(
     } else {
       // Validate that id is a known notification type before casting
       const validTypes: NotificationType[] = [
+        'exam-outcome',
         'declining-performance',
         'inactivity',
         'weekly-goal-close',
@@ -525,6 +578,7 @@ export function useDashboardNotifications(
     notifications: allNotifications,
     dismissNotification,
     isLoading,
+    pendingExamOutcomes,
     push: {
       permission,
       isSupported,
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useExamCountdown } from './useExamCountdown';
+
+describe('useExamCountdown', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 18, 12, 0));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('returns null without a deadline', () => {
+    const { result } = renderHook(() => useExamCountdown(null, vi.fn()));
+
+    expect(result.current).toBeNull();
+  });
+
+  it('counts down to the deadline', () => {
+    const deadline = Date.now() + 60_000;
+    const { result } = renderHook(() => useExamCountdown(deadline, vi.fn()));
+
+    expect(result.current).toBe(60_000);
+
+    act(() => {
+      vi.advanceTimersByTime(15_000);
+    });
+
+    expect(result.current).toBe(45_000);
+  });
+
+  it('calls onExpire once when time runs out', () => {
+    const onExpire = vi.fn();
+    const deadline = Date.now() + 3_000;
+    const { result } = renderHook(() => useExamCountdown(deadline, onExpire));
+
+    act(() => {
+      vi.advanceTimersByTime(2_000);
+    });
+    expect(onExpire).not.toHaveBeenCalled();
+
+    act(() => {
+      vi.advanceTimersByTime(5_000);
+    });
+    expect(onExpire).toHaveBeenCalledTimes(1);
+    expect(result.current).toBe(0);
+  });
+
+  it('calls the latest onExpire', () => {
+    const first = vi.fn();
+    const second = vi.fn();
+    const deadline = Date.now() + 2_000;
+    const { rerender } = renderHook(({ onExpire }) => useExamCountdown(deadline, onExpire), {
+      initialProps: { onExpire: first },
+    });
+
+    rerender({ onExpire: second });
+    act(() => {
+      vi.advanceTimersByTime(2_000);
+    });
+
+    expect(first).not.toHaveBeenCalled();
+    expect(second).toHaveBeenCalledTimes(1);
+  });
+
+  it('stops when the deadline is cleared', () => {
+    const onExpire = vi.fn();
+    const deadline = Date.now() + 2_000;
+    const { result, rerender } = renderHook(({ d }) => useExamCountdown(d, onExpire), {
+      initialProps: { d: deadline as number | null },
+    });
+
+    rerender({ d: null });
+    act(() => {
+      vi.advanceTimersByTime(5_000);
+    });
+
+    expect(result.current).toBeNull();
+    expect(onExpire).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,47 @@
+import { useState, useEffect, useRef } from 'react';
+
+/**
+ * Hook for a countdown to a fixed deadline, e.g. a timed exam simulation.
+ *
+ * Ticks once a second and calls `onExpire` once when the deadline passes.
+ * The remaining time is derived from the clock rather than counted down, so
+ * it stays accurate when the tab is throttled in the background.
+ *
+ * @param deadline - Epoch milliseconds when time runs out, or null for no countdown
+ * @param onExpire - Called once when the deadline is reached
+ * @returns Milliseconds left (never negative), or null without a deadline
+ *
+ * @example
+ * const remainingMs = useExamCountdown(deadline, () => submitExam({ timedOut: true }));
+ */
+export function useExamCountdown(deadline: number | null, onExpire: () => void): number | null {
+  const [now, setNow] = useState(() => Date.now());
+  const onExpireRef = useRef(onExpire);
+  const expiredRef = useRef(false);
+
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  }, [onExpire]);
+
+  useEffect(() => {
+    expiredRef.current = false;
+    if (deadline === null) return;
+
+    const tick = () => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= deadline && !expiredRef.current) {
+        expiredRef.current = true;
+        clearInterval(interval);
+        onExpireRef.current();
+      }
+    };
+
+    const interval = setInterval(tick, 1000);
+    tick();
+    return () => clearInterval(interval);
+  }, [deadline]);
+
+  if (deadline === null) return null;
+  return Math.max(0, deadline - now);
+}
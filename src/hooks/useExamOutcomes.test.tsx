@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { ReactNode } from 'react';
+import { usePendingExamOutcomes, useReportExamOutcomes } from './useExamOutcomes';
+
+vi.mock('./useAuth', () => ({
+  useAuth: vi.fn(() => ({ user: { id: 'user-1' }, loading: false })),
+}));
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+const mockGetPendingOutcomes = vi.fn();
+const mockRecordOutcome = vi.fn();
+const mockGetSnapshotBefore = vi.fn();
+const mockRecordExamOutcome = vi.fn();
+
+vi.mock('@/services/examSessions/examSessionService', () => ({
+  examSessionService: {
+    getPendingOutcomes: (...args: unknown[]) => mockGetPendingOutcomes(...args),
+    recordOutcome: (...args: unknown[]) => mockRecordOutcome(...args),
+  },
+}));
+
+vi.mock('@/services/readiness/readinessService', () => ({
+  readinessService: {
+    getSnapshotBefore: (...args: unknown[]) => mockGetSnapshotBefore(...args),
+  },
+}));
+
+vi.mock('@/lib/events', () => ({
+  recordExamOutcome: (...args: unknown[]) => mockRecordExamOutcome(...args),
+}));
+
+import { toast } from 'sonner';
+
+function createWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+  return ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+}
+
+const report = {
+  exam_date: '2026-10-03',
+  target_license: 'technician' as const,
+  exam_session_id: 's1',
+  outcome: 'passed' as const,
+  score: 31,
+  total_questions: 35,
+};
+
+describe('useExamOutcomes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRecordOutcome.mockResolvedValue({ success: true, data: { attemptNumber: 2 } });
+    mockGetSnapshotBefore.mockResolvedValue({
+      success: true,
+      data: {
+        readiness_score: 78,
+        pass_probability: 0.82,
+        coverage: 0.9,
+        recent_accuracy: 0.84,
+        tests_passed: 4,
+        tests_taken: 5,
+      },
+    });
+    mockRecordExamOutcome.mockResolvedValue(undefined);
+  });
+
+  describe('usePendingExamOutcomes', () => {
+    it('fetches pending outcomes for the user', async () => {
+      const pending = [{ exam_date: '2026-10-03', target_license: 'technician', exam_session_id: 's1' }];
+      mockGetPendingOutcomes.mockResolvedValue({ success: true, data: pending });
+
+      const { result } = renderHook(() => usePendingExamOutcomes(), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+      expect(result.current.data).toEqual(pending);
+      expect(mockGetPendingOutcomes).toHaveBeenCalledWith('user-1');
+    });
+  });
+
+  describe('useReportExamOutcomes', () => {
+    it('saves the outcome and records an event with the pre-exam snapshot', async () => {
+      const { result } = renderHook(() => useReportExamOutcomes(), { wrapper: createWrapper() });
+
+      await act(async () => {
+        await result.current.mutateAsync([report]);
+      });
+
+      expect(mockRecordOutcome).toHaveBeenCalledWith('user-1', report);
+      expect(mockGetSnapshotBefore).toHaveBeenCalledWith('user-1', 'technician', '2026-10-03');
+      expect(mockRecordExamOutcome).toHaveBeenCalledWith({
+        source: 'user_reported',
+        examType: 'technician',
+        score: 31,
+        passed: true,
+        totalQuestions: 35,
+        attemptNumber: 2,
+        examDate: '2026-10-03',
+        stateSnapshot: {
+          readiness_score: 78,
+          pass_probability: 0.82,
+          coverage: 0.9,
+          recent_accuracy: 0.84,
+          practice_tests_passed: 4,
+          practice_tests_taken: 5,
+        },
+        userId: 'user-1',
+      });
+      expect(toast.success).toHaveBeenCalledWith('Congratulations on passing! Your result has been saved');
+    });
+
+    it('uses the exam length when no score was reported', async () => {
+      mockGetSnapshotBefore.mockResolvedValue({ success: true, data: null });
+      const { result } = renderHook(() => useReportExamOutcomes(), { wrapper: createWrapper() });
+
+      await act(async () => {
+        await result.current.mutateAsync([
+          { ...report, target_license: 'extra', outcome: 'failed', score: null, total_questions: null },
+        ]);
+      });
+
+      expect(mockRecordExamOutcome).toHaveBeenCalledWith(
+        expect.objectContaining({ score: null, passed: false, totalQuestions: 50, stateSnapshot: undefined })
+      );
+      expect(toast.success).toHaveBeenCalledWith('Thanks for sharing your result');
+    });
+
+    it('does not record an event for exams the learner skipped', async () => {
+      const { result } = renderHook(() => useReportExamOutcomes(), { wrapper: createWrapper() });
+
+      await act(async () => {
+        await result.current.mutateAsync([{ ...report, outcome: 'skipped', score: null, total_questions: null }]);
+      });
+
+      expect(mockRecordOutcome).toHaveBeenCalled();
+      expect(mockRecordExamOutcome).not.toHaveBeenCalled();
+    });
+
+    it('shows an error when the outcome cannot be saved', async () => {
+      mockRecordOutcome.mockResolvedValue({
+        success: false,
+        error: { code: 'FORBIDDEN', message: 'permission denied' },
+      });
+      const { result } = renderHook(() => useReportExamOutcomes(), { wrapper: createWrapper() });
+
+      await act(async () => {
+        await result.current.mutateAsync([report]).catch(() => undefined);
+      });
+
+      expect(toast.error).toHaveBeenCalledWith('Failed to save your exam result');
+      expect(mockRecordExamOutcome).not.toHaveBeenCalled();
+    });
+  });
+});
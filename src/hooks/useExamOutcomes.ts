@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys, unwrapOrThrow } from '@/services';
+import { examSessionService } from '@/services/examSessions/examSessionService';
+import type { ExamOutcomeReport } from '@/services/examSessions/examSessionService';
+import { readinessService } from '@/services/readiness/readinessService';
+import { recordExamOutcome } from '@/lib/events';
+import { testConfig } from '@/types/navigation';
+
+// Re-export domain types for consumers
+export type { PendingExamOutcome, ExamOutcome, ExamOutcomeReport } from '@/services/examSessions/examSessionService';
+
+/**
+ * Past exams the learner hasn't reported a result for.
+ */
+export function usePendingExamOutcomes() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.examSessions.pendingOutcomes(user?.id ?? ''),
+    queryFn: async () => unwrapOrThrow(await examSessionService.getPendingOutcomes(user!.id)),
+    enabled: !!user,
+    staleTime: 1000 * 60 * 30,
+  });
+}
+
+/**
+ * Save reported exam results, one report per element taken.
+ *
+ * Each exam the learner sat also records an `exam_outcome` event carrying
+ * their last readiness snapshot before the exam, which is what readiness
+ * calibration compares against.
+ */
+export function useReportExamOutcomes() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (reports: ExamOutcomeReport[]) => {
+      if (!user) throw new Error('Not authenticated');
+
+      for (const report of reports) {
+        const { attemptNumber } = unwrapOrThrow(await examSessionService.recordOutcome(user.id, report));
+        if (report.outcome === 'skipped') continue;
+
+        const snapshot = await readinessService.getSnapshotBefore(user.id, report.target_license, report.exam_date);
+        const before = snapshot.success ? snapshot.data : null;
+
+        await recordExamOutcome({
+          source: 'user_reported',
+          examType: report.target_license,
+          score: report.score,
+          passed: report.outcome === 'passed',
+          totalQuestions: report.total_questions ?? testConfig[report.target_license].questionCount,
+          attemptNumber,
+          examDate: report.exam_date,
+          stateSnapshot: before
+            ? {
+                readiness_score: before.readiness_score,
+                pass_probability: before.pass_probability,
+                coverage: before.coverage,
+                recent_accuracy: before.recent_accuracy,
+                practice_tests_passed: before.tests_passed,
+                practice_tests_taken: before.tests_taken,
+              }
+            : undefined,
+          userId: user.id,
+        }).catch((err) => console.error('Event recording failed:', err));
+      }
+    },
+    onSuccess: (_data, reports) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.examSessions.pendingOutcomes(user?.id ?? '') });
+      toast.success(
+        reports.some((r) => r.outcome === 'passed')
+          ? 'Congratulations on passing! Your result has been saved'
+          : 'Thanks for sharing your result'
+      );
+    },
+    onError: (error) => {
+      toast.error('Failed to save your exam result');
+      console.error('Failed to report exam outcome:', error);
+    },
+  });
+}
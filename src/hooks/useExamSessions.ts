@@ -0,0 +1,103 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys, unwrapOrThrow } from '@/services';
+import { examSessionService } from '@/services/examSessions/examSessionService';
+import type { ExamSession } from '@/services/examSessions/examSessionService';
+import { daysUntilExam, isValidZip, Coordinates } from '@/lib/examSessionSearch';
+import type { TestType } from '@/types/navigation';
+
+// Re-export domain types for consumers
+export type { ExamSession, TargetExam } from '@/services/examSessions/examSessionService';
+
+/**
+ * Approximate coordinates for a ZIP code. Only runs for valid ZIP codes.
+ */
+export function useZipCoordinates(zip: string) {
+  const zip5 = zip.trim().slice(0, 5);
+  return useQuery({
+    queryKey: queryKeys.examSessions.zipCoordinates(zip5),
+    queryFn: async () => unwrapOrThrow(await examSessionService.resolveZipCoordinates(zip5)),
+    enabled: isValidZip(zip),
+    staleTime: 1000 * 60 * 60, // ZIP locations don't move
+    retry: false,
+  });
+}
+
+/**
+ * Exam sessions near a point within a date range.
+ * Waits until the origin is known.
+ */
+export function useExamSessionSearch(
+  origin: Coordinates | undefined,
+  radiusMiles: number,
+  fromDate: string,
+  toDate: string
+) {
+  return useQuery({
+    queryKey: queryKeys.examSessions.search(
+      origin?.latitude ?? 0,
+      origin?.longitude ?? 0,
+      radiusMiles,
+      fromDate,
+      toDate
+    ),
+    queryFn: async () =>
+      unwrapOrThrow(
+        await examSessionService.searchSessions({ origin: origin!, radiusMiles, fromDate, toDate })
+      ),
+    enabled: !!origin,
+    staleTime: 1000 * 60 * 10,
+  });
+}
+
+/**
+ * The learner's target exam and a countdown to it.
+ *
+ * A linked session's date wins over a custom date, so the countdown follows
+ * the session the learner picked in the exam finder.
+ */
+export function useTargetExam() {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: queryKeys.examSessions.targetExam(user?.id ?? ''),
+    queryFn: async () => unwrapOrThrow(await examSessionService.getTargetExam(user!.id)),
+    enabled: !!user,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  const examDate = query.data?.exam_session?.exam_date ?? query.data?.custom_exam_date ?? null;
+  const daysUntil = useMemo(() => (examDate ? daysUntilExam(examDate) : null), [examDate]);
+
+  return {
+    targetExam: query.data ?? null,
+    examDate,
+    daysUntil,
+    isLoading: query.isLoading,
+  };
+}
+
+/**
+ * Link an exam session to the learner's exam_attempts row and target exam.
+ */
+export function useLinkExamSession() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ session, testType }: { session: ExamSession; testType: TestType }) => {
+      if (!user) throw new Error('Not authenticated');
+      return unwrapOrThrow(await examSessionService.linkSession(user.id, session, testType));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.examSessions.targetExam(user?.id ?? '') });
+      toast.success('Exam session saved as your exam date');
+    },
+    onError: (error) => {
+      toast.error('Failed to save exam session');
+      console.error('Failed to link exam session:', error);
+    },
+  });
+}
@@ -0,0 +1,51 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { queryKeys, unwrapOrThrow } from "@/services";
+import { figureHotspotService } from "@/services/figures/figureHotspotService";
+import type { HotspotDraft } from "@/lib/figureHotspots";
+
+export type { FigureHotspot } from "@/services/figures/figureHotspotService";
+
+/** Hotspots on a figure, shared by every question in the pool with that figure_reference */
+export function useFigureHotspots(
+  figureReference: string | null | undefined,
+  poolVersion: string | null | undefined
+) {
+  return useQuery({
+    queryKey: queryKeys.figures.hotspots(figureReference ?? '', poolVersion ?? ''),
+    queryFn: async () => unwrapOrThrow(await figureHotspotService.getByFigure(figureReference!, poolVersion!)),
+    enabled: !!figureReference && !!poolVersion,
+    staleTime: 1000 * 60 * 30, // Cache for 30 minutes
+  });
+}
+
+/** Replace a figure's hotspots (admin) */
+export function useSaveFigureHotspots(figureReference: string, poolVersion: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (hotspots: HotspotDraft[]) =>
+      unwrapOrThrow(await figureHotspotService.replaceForFigure(figureReference, poolVersion, hotspots)),
+    onSuccess: (saved) => {
+      queryClient.setQueryData(queryKeys.figures.hotspots(figureReference, poolVersion), saved);
+    },
+  });
+}
+
+/**
+ * Which hotspot a learner is looking at: the one under the pointer or
+ * keyboard focus, otherwise the one last tapped.
+ */
+export function useActiveHotspot() {
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  return {
+    activeId: hoveredId ?? selectedId,
+    selectedId,
+    onHover: setHoveredId,
+    onSelect: (id: string) => setSelectedId((current) => (current === id ? null : id)),
+  };
+}
+
+export type ActiveHotspot = ReturnType<typeof useActiveHotspot>;
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { ReactNode } from 'react';
+import { useGlossaryDecks, useGlossaryProgress, useRecordGlossaryAnswers } from './useGlossaryDecks';
+
+const mockGetDecks = vi.fn();
+const mockGetProgress = vi.fn();
+const mockRecordAnswers = vi.fn();
+
+vi.mock('@/services/glossary/glossaryService', () => ({
+  glossaryService: {
+    getDecks: () => mockGetDecks(),
+    getProgress: (userId: string) => mockGetProgress(userId),
+    recordAnswers: (userId: string, answers: unknown) => mockRecordAnswers(userId, answers),
+  },
+}));
+
+let mockUser: { id: string } | null = { id: 'user-1' };
+vi.mock('@/hooks/useAuth', () => ({
+  useAuth: () => ({ user: mockUser }),
+}));
+
+const progressRow = (termId: string, timesSeen: number, timesCorrect: number, mastered = false) => ({
+  termId,
+  timesSeen,
+  timesCorrect,
+  mastered,
+  lastSeenAt: null,
+});
+
+function createWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+    },
+  });
+  return ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+}
+
+describe('useGlossaryDecks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUser = { id: 'user-1' };
+  });
+
+  it('fetches decks', async () => {
+    const decks = [{ id: 'deck-q', slug: 'q-codes', name: 'Q-Codes', description: null, display_order: 1 }];
+    mockGetDecks.mockResolvedValue({ success: true, data: decks });
+
+    const { result } = renderHook(() => useGlossaryDecks(), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(result.current.data).toEqual(decks);
+  });
+});
+
+describe('useGlossaryProgress', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUser = { id: 'user-1' };
+  });
+
+  it('keys progress by term id', async () => {
+    mockGetProgress.mockResolvedValue({ success: true, data: [progressRow('t1', 2, 1)] });
+
+    const { result } = renderHook(() => useGlossaryProgress(), { wrapper: createWrapper() });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(mockGetProgress).toHaveBeenCalledWith('user-1');
+    expect(result.current.data?.get('t1')).toEqual(progressRow('t1', 2, 1));
+  });
+
+  it('does not fetch when signed out', () => {
+    mockUser = null;
+
+    const { result } = renderHook(() => useGlossaryProgress(), { wrapper: createWrapper() });
+
+    expect(result.current.fetchStatus).toBe('idle');
+    expect(mockGetProgress).not.toHaveBeenCalled();
+  });
+
+  it('merges recorded answers into the cached progress', async () => {
+    mockGetProgress.mockResolvedValue({
+      success: true,
+      data: [progressRow('t1', 2, 1), progressRow('t2', 1, 1)],
+    });
+    mockRecordAnswers.mockResolvedValue({ success: true, data: [progressRow('t1', 3, 2)] });
+
+    const { result } = renderHook(
+      () => ({ progress: useGlossaryProgress(), record: useRecordGlossaryAnswers() }),
+      { wrapper: createWrapper() }
+    );
+    await waitFor(() => expect(result.current.progress.isSuccess).toBe(true));
+
+    await act(async () => {
+      await result.current.record.mutateAsync([{ termId: 't1', correct: true }]);
+    });
+
+    expect(mockRecordAnswers).toHaveBeenCalledWith('user-1', [{ termId: 't1', correct: true }]);
+    await waitFor(() => {
+      expect(result.current.progress.data?.get('t1')).toEqual(progressRow('t1', 3, 2));
+    });
+    expect(result.current.progress.data?.get('t2')).toEqual(progressRow('t2', 1, 1));
+    expect(mockGetProgress).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,63 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { queryKeys, unwrapOrThrow } from "@/services";
+import { glossaryService, type GlossaryAnswer } from "@/services/glossary/glossaryService";
+import type { GlossaryTermProgress } from "@/lib/glossaryDrill";
+
+export type { GlossaryDeck, GlossaryAnswer } from "@/services/glossary/glossaryService";
+
+/** Named glossary decks in display order */
+export function useGlossaryDecks() {
+  return useQuery({
+    queryKey: queryKeys.glossary.decks(),
+    queryFn: async () => unwrapOrThrow(await glossaryService.getDecks()),
+    staleTime: 1000 * 60 * 30, // Cache for 30 minutes
+  });
+}
+
+/**
+ * The signed-in user's glossary progress, keyed by term id. Empty when
+ * signed out or offline, so drills still work without it.
+ */
+export function useGlossaryProgress() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.glossary.progress(user?.id ?? ''),
+    queryFn: async () => {
+      const rows = unwrapOrThrow(await glossaryService.getProgress(user!.id));
+      return new Map(rows.map((row) => [row.termId, row]));
+    },
+    enabled: !!user,
+    staleTime: 1000 * 60 * 5, // Cache for 5 minutes
+  });
+}
+
+/**
+ * Save drill answers to glossary_progress. The saved rows are merged into the
+ * cached progress rather than refetching it after every card.
+ */
+export function useRecordGlossaryAnswers() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (answers: GlossaryAnswer[]) => {
+      if (!user) throw new Error('Not authenticated');
+      return unwrapOrThrow(await glossaryService.recordAnswers(user.id, answers));
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData<Map<string, GlossaryTermProgress>>(
+        queryKeys.glossary.progress(user?.id ?? ''),
+        (previous) => {
+          const next = new Map(previous);
+          saved.forEach((row) => next.set(row.termId, row));
+          return next;
+        }
+      );
+    },
+    onError: (error) => {
+      console.error('Failed to save glossary progress:', error);
+    },
+  });
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, waitFor } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactNode } from 'react';
@@ -16,6 +16,11 @@ vi.mock('@/integrations/supabase/client', () => ({
   },
 }));
 
+const mockGetOfflineGlossary = vi.fn();
+vi.mock('@/lib/offlineStore', () => ({
+  getOfflineGlossary: () => mockGetOfflineGlossary(),
+}));
+
 const mockTerms = [
   { id: '1', term: 'Amateur Radio', definition: 'Non-commercial radio communication' },
   { id: '2', term: 'Band', definition: 'A range of frequencies' },
@@ -40,6 +45,7 @@ describe('useGlossaryTerms', () => {
     // Set up mock chain
     mockOrder.mockResolvedValue({ data: mockTerms, error: null });
     mockSelect.mockReturnValue({ order: mockOrder });
+    mockGetOfflineGlossary.mockResolvedValue(null);
   });
 
   describe('fetching terms', () => {
@@ -68,7 +74,7 @@ describe('useGlossaryTerms', () => {
 
       await waitFor(() => expect(result.current.isSuccess).toBe(true));
 
-      expect(mockSelect).toHaveBeenCalledWith('id, term, definition');
+      expect(mockSelect).toHaveBeenCalledWith('id, term, definition, deck_id');
       expect(mockOrder).toHaveBeenCalledWith('term', { ascending: true });
     });
   });
@@ -90,6 +96,33 @@ describe('useGlossaryTerms', () => {
     });
   });
 
+  describe('offline glossary', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('uses the downloaded terms without a connection', async () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      mockGetOfflineGlossary.mockResolvedValue({ terms: [mockTerms[0]], downloadedAt: '2026-10-01T00:00:00Z' });
+
+      const { result } = renderHook(() => useGlossaryTerms(), { wrapper: createWrapper() });
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      expect(result.current.data).toEqual([mockTerms[0]]);
+      expect(mockSelect).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the downloaded terms when the request fails', async () => {
+      mockOrder.mockResolvedValueOnce({ data: null, error: new Error('Failed to fetch') });
+      mockGetOfflineGlossary.mockResolvedValue({ terms: mockTerms, downloadedAt: '2026-10-01T00:00:00Z' });
+
+      const { result } = renderHook(() => useGlossaryTerms(), { wrapper: createWrapper() });
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      expect(result.current.data).toEqual(mockTerms);
+    });
+  });
+
   describe('empty results', () => {
     it('returns empty array when no terms exist', async () => {
       mockOrder.mockResolvedValueOnce({ data: [], error: null });
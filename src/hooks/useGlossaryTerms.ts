@@ -1,13 +1,36 @@
 import { useQuery } from "@tanstack/react-query";
 import { queryKeys, unwrapOrThrow } from "@/services";
 import { glossaryService } from "@/services/glossary/glossaryService";
+import { getOfflineGlossary } from "@/lib/offlineStore";
+import { isOffline } from "@/lib/offlineSync";
 
 export type { GlossaryTerm } from "@/services/glossary/glossaryService";
 
+async function loadOfflineTerms() {
+  const glossary = await getOfflineGlossary().catch(() => null);
+  return glossary?.terms ?? null;
+}
+
+/**
+ * Fetch all glossary terms, falling back to the copy downloaded for offline
+ * study when there is no connection or the request fails.
+ */
 export function useGlossaryTerms() {
   return useQuery({
     queryKey: queryKeys.glossary.terms(),
-    queryFn: async () => unwrapOrThrow(await glossaryService.getAll()),
+    queryFn: async () => {
+      if (isOffline()) {
+        const offline = await loadOfflineTerms();
+        if (offline) return offline;
+      }
+      const result = await glossaryService.getAll();
+      if (!result.success) {
+        const offline = await loadOfflineTerms();
+        if (offline) return offline;
+      }
+      return unwrapOrThrow(result);
+    },
     staleTime: 1000 * 60 * 30, // Cache for 30 minutes
+    networkMode: 'offlineFirst',
   });
 }
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { ReactNode } from 'react';
+import { toast } from 'sonner';
+import { useExportLearnerData, useImportLearnerData } from './useLearnerData';
+import { buildLearnerArchive, type LearnerArchiveData } from '@/lib/learnerArchive';
+
+vi.mock('./useAuth', () => ({
+  useAuth: vi.fn(() => ({ user: { id: 'user-1' }, loading: false })),
+}));
+
+const mockRecalculateReadiness = vi.fn();
+vi.mock('./useReadinessScore', () => ({
+  recalculateReadiness: (...args: unknown[]) => mockRecalculateReadiness(...args),
+}));
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn() },
+}));
+
+const mockGetArchiveData = vi.fn();
+const mockImportArchive = vi.fn();
+vi.mock('@/services/learnerData/learnerDataService', () => ({
+  learnerDataService: {
+    getArchiveData: (...args: unknown[]) => mockGetArchiveData(...args),
+    importArchive: (...args: unknown[]) => mockImportArchive(...args),
+  },
+}));
+
+const data: LearnerArchiveData = {
+  profile: null,
+  question_attempts: [],
+  events: [],
+  bookmarks: [],
+  practice_test_results: [],
+  daily_activity: [],
+  streak: null,
+  weekly_goals: null,
+  topic_progress: [],
+  lesson_progress: [],
+  exam_attempts: [],
+};
+
+const createWrapper = () => {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+  return ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+};
+
+describe('useExportLearnerData', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("builds an archive from the learner's data", async () => {
+    mockGetArchiveData.mockResolvedValue({ success: true, data });
+
+    const { result } = renderHook(() => useExportLearnerData(), { wrapper: createWrapper() });
+    let archive;
+    await act(async () => {
+      archive = await result.current.mutateAsync();
+    });
+
+    expect(mockGetArchiveData).toHaveBeenCalledWith('user-1');
+    expect(archive).toMatchObject({ format: 'openhamprep-learner-data', schema_version: 1, data });
+  });
+});
+
+describe('useImportLearnerData', () => {
+  const archive = buildLearnerArchive(data);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockRecalculateReadiness.mockResolvedValue(true);
+  });
+
+  it('imports and rebuilds readiness for every exam', async () => {
+    mockImportArchive.mockResolvedValue({ success: true, data: { question_attempts: 0 } });
+
+    const { result } = renderHook(() => useImportLearnerData(), { wrapper: createWrapper() });
+    act(() => result.current.mutate(archive));
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(mockImportArchive).toHaveBeenCalledWith(archive);
+    expect(mockRecalculateReadiness).toHaveBeenCalledTimes(3);
+    expect(toast.success).toHaveBeenCalledWith('Your study history was imported');
+  });
+
+  it('explains that only fresh accounts can import', async () => {
+    mockImportArchive.mockResolvedValue({
+      success: false,
+      error: { code: 'CONFLICT', message: 'Study history can only be imported into an account with no study history' },
+    });
+    const consoleSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const { result } = renderHook(() => useImportLearnerData(), { wrapper: createWrapper() });
+    act(() => result.current.mutate(archive));
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(toast.error).toHaveBeenCalledWith(
+      'This account already has study history. Import into a new account instead.'
+    );
+    consoleSpy.mockRestore();
+  });
+});
@@ -0,0 +1,65 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { recalculateReadiness } from '@/hooks/useReadinessScore';
+import { buildLearnerArchive, type LearnerArchive } from '@/lib/learnerArchive';
+import { queryKeys, unwrapOrThrow } from '@/services';
+import { learnerDataService } from '@/services/learnerData/learnerDataService';
+import { ServiceLayerError } from '@/services/types';
+import type { TestType } from '@/types/navigation';
+
+const TEST_TYPES: TestType[] = ['technician', 'general', 'extra'];
+
+/**
+ * "Download my data": collect the signed-in learner's profile and study
+ * history into an archive. The caller saves it as a file.
+ */
+export function useExportLearnerData() {
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async (): Promise<LearnerArchive> =>
+      buildLearnerArchive(unwrapOrThrow(await learnerDataService.getArchiveData(user?.id))),
+    onError: (error) => {
+      toast.error('Failed to download your data');
+      console.error('Learner data export failed:', error);
+    },
+  });
+}
+
+/**
+ * Restore an archive into the signed-in account, which must have no study
+ * history yet. Everything cached is refetched afterwards.
+ */
+export function useImportLearnerData() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (archive: LearnerArchive) =>
+      unwrapOrThrow(await learnerDataService.importArchive(archive)),
+    onSuccess: () => {
+      queryClient.invalidateQueries();
+      toast.success('Your study history was imported');
+
+      // Readiness is cached per exam; rebuild it from the imported history
+      for (const testType of TEST_TYPES) {
+        recalculateReadiness(testType)
+          .then(() => {
+            if (!user) return;
+            queryClient.invalidateQueries({ queryKey: queryKeys.readiness.byUser(user.id) });
+            queryClient.invalidateQueries({ queryKey: queryKeys.readiness.snapshotsByUser(user.id) });
+          })
+          .catch((err) => console.error('Failed to recalculate readiness after import:', err));
+      }
+    },
+    onError: (error) => {
+      if (error instanceof ServiceLayerError && error.code === 'CONFLICT') {
+        toast.error('This account already has study history. Import into a new account instead.');
+      } else {
+        toast.error('Failed to import your data');
+      }
+      console.error('Learner data import failed:', error);
+    },
+  });
+}
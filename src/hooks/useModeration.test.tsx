@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { ReactNode } from 'react';
+import { useIsModerator, usePendingRevisions, useReviewRevision } from './useModeration';
+import type { ExplanationRevision } from './useModeration';
+
+vi.mock('./useAuth', () => ({
+  useAuth: vi.fn(() => ({ user: { id: 'user-1' }, loading: false })),
+}));
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn(), warning: vi.fn() },
+}));
+
+const mockIsModerator = vi.fn();
+const mockGetPendingRevisions = vi.fn();
+const mockReviewRevision = vi.fn();
+const mockSyncForumPost = vi.fn();
+const mockExtractLinks = vi.fn();
+
+vi.mock('@/services/moderation/moderationService', () => ({
+  moderationService: {
+    isModerator: (...args: unknown[]) => mockIsModerator(...args),
+    getPendingRevisions: (...args: unknown[]) => mockGetPendingRevisions(...args),
+    reviewRevision: (...args: unknown[]) => mockReviewRevision(...args),
+    syncForumPost: (...args: unknown[]) => mockSyncForumPost(...args),
+    extractLinks: (...args: unknown[]) => mockExtractLinks(...args),
+  },
+}));
+
+import { toast } from 'sonner';
+
+function createWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+  return ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+}
+
+const revision: ExplanationRevision = {
+  id: 'r1',
+  question_id: 'q1',
+  source: 'forum',
+  proposed_explanation: 'Current is measured in amperes (amps).',
+  forum_username: 'kb1abc',
+  helpful_count: null,
+  not_helpful_count: null,
+  created_at: '2026-10-17T12:00:00Z',
+  updated_at: '2026-10-17T12:00:00Z',
+  question: {
+    display_name: 'T5A01',
+    question: 'Electrical current is measured in which of the following units?',
+    explanation: 'Current is measured in amperes.',
+    forum_url: 'https://forum.openhamprep.com/t/t5a01/42',
+  },
+};
+
+describe('useModeration', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSyncForumPost.mockResolvedValue({ success: true, data: undefined });
+    mockExtractLinks.mockResolvedValue({ success: true, data: undefined });
+  });
+
+  describe('useIsModerator', () => {
+    it('reports the moderator role', async () => {
+      mockIsModerator.mockResolvedValue({ success: true, data: true });
+
+      const { result } = renderHook(() => useIsModerator(), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isModerator).toBe(true));
+    });
+  });
+
+  describe('usePendingRevisions', () => {
+    it('does not fetch until enabled', () => {
+      renderHook(() => usePendingRevisions(false), { wrapper: createWrapper() });
+
+      expect(mockGetPendingRevisions).not.toHaveBeenCalled();
+    });
+
+    it('fetches the queue', async () => {
+      mockGetPendingRevisions.mockResolvedValue({ success: true, data: [revision] });
+
+      const { result } = renderHook(() => usePendingRevisions(), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.data).toEqual([revision]));
+    });
+  });
+
+  describe('useReviewRevision', () => {
+    it('approves a forum edit as is without rewriting the post', async () => {
+      mockReviewRevision.mockResolvedValue({
+        success: true,
+        data: { question_id: 'q1', explanation: revision.proposed_explanation, forum_url: revision.question!.forum_url },
+      });
+
+      const { result } = renderHook(() => useReviewRevision(), { wrapper: createWrapper() });
+      await act(() => result.current.mutateAsync({ revision, decision: { approve: true } }));
+
+      expect(mockReviewRevision).toHaveBeenCalledWith('r1', { approve: true });
+      expect(mockSyncForumPost).not.toHaveBeenCalled();
+      expect(mockExtractLinks).toHaveBeenCalledWith('q1');
+      expect(toast.success).toHaveBeenCalledWith('Explanation published');
+    });
+
+    it('restores the forum post after a rejection', async () => {
+      mockReviewRevision.mockResolvedValue({
+        success: true,
+        data: { question_id: 'q1', explanation: revision.question!.explanation, forum_url: revision.question!.forum_url },
+      });
+
+      const { result } = renderHook(() => useReviewRevision(), { wrapper: createWrapper() });
+      await act(() => result.current.mutateAsync({ revision, decision: { approve: false } }));
+
+      expect(mockSyncForumPost).toHaveBeenCalledWith('q1', 'Current is measured in amperes.');
+      expect(mockExtractLinks).not.toHaveBeenCalled();
+      expect(toast.success).toHaveBeenCalledWith('Change rejected');
+    });
+
+    it('still saves the review when the forum post cannot be updated', async () => {
+      mockReviewRevision.mockResolvedValue({
+        success: true,
+        data: { question_id: 'q1', explanation: 'Edited text', forum_url: revision.question!.forum_url },
+      });
+      mockSyncForumPost.mockResolvedValue({
+        success: false,
+        error: { code: 'EDGE_FUNCTION_ERROR', message: 'Discourse unavailable' },
+      });
+
+      const { result } = renderHook(() => useReviewRevision(), { wrapper: createWrapper() });
+      await act(() =>
+        result.current.mutateAsync({ revision, decision: { approve: true, explanation: 'Edited text' } })
+      );
+
+      expect(toast.warning).toHaveBeenCalledWith('Review saved, but the forum post could not be updated');
+      expect(toast.success).toHaveBeenCalledWith('Explanation published');
+    });
+
+    it('explains when another moderator reviewed it first', async () => {
+      mockReviewRevision.mockResolvedValue({
+        success: false,
+        error: { code: 'CONFLICT', message: 'Revision has already been reviewed' },
+      });
+
+      const { result } = renderHook(() => useReviewRevision(), { wrapper: createWrapper() });
+      await act(async () => {
+        await result.current.mutateAsync({ revision, decision: { approve: true } }).catch(() => {});
+      });
+
+      expect(toast.error).toHaveBeenCalledWith('This change has already been reviewed');
+      expect(mockSyncForumPost).not.toHaveBeenCalled();
+    });
+  });
+});
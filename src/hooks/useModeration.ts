@@ -0,0 +1,94 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys, unwrapOrThrow, ServiceLayerError } from '@/services';
+import { moderationService } from '@/services/moderation/moderationService';
+import type { ExplanationRevision, ReviewDecision } from '@/services/moderation/moderationService';
+import { needsForumSync } from '@/lib/explanationRevisions';
+
+// Re-export domain types for consumers
+export type {
+  ExplanationRevision,
+  RevisionSource,
+  ReviewDecision,
+} from '@/services/moderation/moderationService';
+
+/**
+ * Whether the current user can review explanation changes (moderator or admin role).
+ */
+export function useIsModerator() {
+  const { user } = useAuth();
+
+  const { data: isModerator = false, isLoading } = useQuery({
+    queryKey: queryKeys.auth.moderator(user?.id ?? ''),
+    queryFn: async () => unwrapOrThrow(await moderationService.isModerator(user!.id)),
+    enabled: !!user,
+  });
+
+  return { isModerator, isLoading };
+}
+
+/**
+ * Explanation changes waiting for review, oldest first.
+ */
+export function usePendingRevisions(enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.moderation.pendingRevisions(),
+    queryFn: async () => unwrapOrThrow(await moderationService.getPendingRevisions()),
+    enabled,
+    staleTime: 1000 * 30,
+  });
+}
+
+/**
+ * Approve or reject a pending revision, then bring the forum post and the
+ * question's links in line with what was published. Forum and link updates
+ * are best-effort: the review itself has already been saved.
+ */
+export function useReviewRevision() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      revision,
+      decision,
+    }: {
+      revision: ExplanationRevision;
+      decision: ReviewDecision;
+    }) => {
+      const reviewed = unwrapOrThrow(await moderationService.reviewRevision(revision.id, decision));
+
+      if (needsForumSync(revision, reviewed)) {
+        const sync = await moderationService.syncForumPost(reviewed.question_id, reviewed.explanation ?? '');
+        if (!sync.success) {
+          console.error('Failed to sync reviewed explanation to the forum:', sync.error);
+          toast.warning('Review saved, but the forum post could not be updated');
+        }
+      }
+
+      if (decision.approve && reviewed.explanation !== revision.question?.explanation) {
+        const links = await moderationService.extractLinks(reviewed.question_id);
+        if (!links.success) {
+          console.warn('Failed to extract links from explanation:', links.error);
+        }
+      }
+
+      return reviewed;
+    },
+    onSuccess: (_reviewed, { decision }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.moderation.root });
+      queryClient.invalidateQueries({ queryKey: queryKeys.questions.root });
+      toast.success(decision.approve ? 'Explanation published' : 'Change rejected');
+    },
+    onError: (error) => {
+      if (error instanceof ServiceLayerError && error.code === 'CONFLICT') {
+        // Another moderator got there first
+        queryClient.invalidateQueries({ queryKey: queryKeys.moderation.root });
+        toast.error('This change has already been reviewed');
+      } else {
+        toast.error('Failed to review explanation change');
+      }
+      console.error('Failed to review explanation change:', error);
+    },
+  });
+}
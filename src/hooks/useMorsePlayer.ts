@@ -0,0 +1,108 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { morseTiming, toneSchedule } from '@/lib/morse';
+
+/** Attack and release of each tone, so keying doesn't click */
+const RAMP_SECONDS = 0.005;
+const VOLUME = 0.5;
+
+interface PlayOptions {
+  wpm: number;
+  effectiveWpm: number;
+  frequency: number;
+}
+
+function audioContextClass(): typeof AudioContext | undefined {
+  if (typeof window === 'undefined') return undefined;
+  return window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+}
+
+/**
+ * Plays Morse code through the Web Audio API. Each play schedules the whole
+ * tone schedule up front on one oscillator and resolves when it ends (or
+ * immediately if audio is unavailable).
+ */
+export function useMorsePlayer() {
+  const contextRef = useRef<AudioContext | null>(null);
+  const oscillatorRef = useRef<OscillatorNode | null>(null);
+  const finishRef = useRef<(() => void) | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const isSupported = !!audioContextClass();
+
+  const stop = useCallback(() => {
+    try {
+      oscillatorRef.current?.stop();
+    } catch {
+      // Already stopped
+    }
+    oscillatorRef.current = null;
+    finishRef.current?.();
+    finishRef.current = null;
+    setIsPlaying(false);
+  }, []);
+
+  const play = useCallback(
+    async (text: string, { wpm, effectiveWpm, frequency }: PlayOptions): Promise<void> => {
+      stop();
+
+      const AudioContextClass = audioContextClass();
+      if (!AudioContextClass) return;
+      contextRef.current ??= new AudioContextClass();
+      const context = contextRef.current;
+      if (context.state === 'suspended') await context.resume();
+
+      const { tones, duration } = toneSchedule(text, morseTiming(wpm, effectiveWpm));
+      if (tones.length === 0) return;
+
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = frequency;
+      gain.gain.value = 0;
+      oscillator.connect(gain).connect(context.destination);
+
+      // Small lead-in so the first tone isn't clipped
+      const startAt = context.currentTime + 0.05;
+      for (const tone of tones) {
+        const on = startAt + tone.start;
+        const off = on + tone.duration;
+        gain.gain.setValueAtTime(0, on);
+        gain.gain.linearRampToValueAtTime(VOLUME, on + RAMP_SECONDS);
+        gain.gain.setValueAtTime(VOLUME, off - RAMP_SECONDS);
+        gain.gain.linearRampToValueAtTime(0, off);
+      }
+
+      oscillatorRef.current = oscillator;
+      setIsPlaying(true);
+
+      await new Promise<void>((resolve) => {
+        finishRef.current = resolve;
+        oscillator.onended = () => {
+          if (oscillatorRef.current === oscillator) {
+            oscillatorRef.current = null;
+            finishRef.current = null;
+            setIsPlaying(false);
+          }
+          resolve();
+        };
+        oscillator.start(startAt);
+        oscillator.stop(startAt + duration + RAMP_SECONDS);
+      });
+    },
+    [stop]
+  );
+
+  // Silence and release the audio context on unmount
+  useEffect(() => {
+    return () => {
+      try {
+        oscillatorRef.current?.stop();
+      } catch {
+        // Already stopped
+      }
+      contextRef.current?.close().catch(() => {});
+    };
+  }, []);
+
+  return { play, stop, isPlaying, isSupported };
+}
+
@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { ReactNode } from 'react';
+import { useOfflineStudy, useOfflineSync } from './useOfflineStudy';
+
+vi.mock('./useAuth', () => ({
+  useAuth: vi.fn(() => ({ user: { id: 'user-1' }, loading: false })),
+}));
+
+vi.mock('./usePoolVersion', () => ({
+  usePoolVersion: vi.fn(() => ({ poolVersion: '2022-2026' })),
+}));
+
+const mockInvalidateProgressQueries = vi.fn();
+vi.mock('./useProgress', () => ({
+  useProgress: () => ({ invalidateProgressQueries: mockInvalidateProgressQueries }),
+}));
+
+const mockRecalculateReadiness = vi.fn();
+vi.mock('./useReadinessScore', () => ({
+  recalculateReadiness: (...args: unknown[]) => mockRecalculateReadiness(...args),
+}));
+
+vi.mock('sonner', () => ({
+  toast: { success: vi.fn(), error: vi.fn(), warning: vi.fn() },
+}));
+
+const mockGetOfflinePack = vi.fn();
+const mockListOfflinePacks = vi.fn();
+const mockSaveOfflinePack = vi.fn();
+const mockDeleteOfflinePack = vi.fn();
+const mockCacheFigures = vi.fn();
+const mockRemoveCachedFigures = vi.fn();
+const mockGetOfflineGlossary = vi.fn();
+const mockSaveOfflineGlossary = vi.fn();
+const mockGetOutboxEntries = vi.fn();
+
+vi.mock('@/lib/offlineStore', () => ({
+  OUTBOX_CHANGED_EVENT: 'offline-outbox-changed',
+  getOfflinePack: (...args: unknown[]) => mockGetOfflinePack(...args),
+  listOfflinePacks: (...args: unknown[]) => mockListOfflinePacks(...args),
+  saveOfflinePack: (...args: unknown[]) => mockSaveOfflinePack(...args),
+  deleteOfflinePack: (...args: unknown[]) => mockDeleteOfflinePack(...args),
+  cacheFigures: (...args: unknown[]) => mockCacheFigures(...args),
+  removeCachedFigures: (...args: unknown[]) => mockRemoveCachedFigures(...args),
+  getOfflineGlossary: (...args: unknown[]) => mockGetOfflineGlossary(...args),
+  saveOfflineGlossary: (...args: unknown[]) => mockSaveOfflineGlossary(...args),
+  getOutboxEntries: (...args: unknown[]) => mockGetOutboxEntries(...args),
+}));
+
+const mockIsOffline = vi.fn();
+const mockReplayOutbox = vi.fn();
+vi.mock('@/lib/offlineSync', () => ({
+  isOffline: () => mockIsOffline(),
+  replayOutbox: (...args: unknown[]) => mockReplayOutbox(...args),
+}));
+
+const mockGetAllQuestions = vi.fn();
+vi.mock('@/services/questions/questionService', () => ({
+  questionService: {
+    getAll: (...args: unknown[]) => mockGetAllQuestions(...args),
+  },
+}));
+
+const mockGetAllTerms = vi.fn();
+vi.mock('@/services/glossary/glossaryService', () => ({
+  glossaryService: {
+    getAll: (...args: unknown[]) => mockGetAllTerms(...args),
+  },
+}));
+
+import { toast } from 'sonner';
+
+function createWrapper() {
+  const queryClient = new QueryClient({
+    defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+  });
+  return ({ children }: { children: ReactNode }) => (
+    <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+  );
+}
+
+const questions = [
+  { id: 'T1A01', figureUrl: null },
+  { id: 'T1A02', figureUrl: 'https://cdn.test/T1.png' },
+  { id: 'T1A03', figureUrl: 'https://cdn.test/T1.png' },
+];
+
+const pack = {
+  testType: 'technician',
+  poolVersion: '2022-2026',
+  questions,
+  figureUrls: ['https://cdn.test/T1.png', 'https://cdn.test/T2.png'],
+  downloadedAt: '2026-10-01T00:00:00Z',
+};
+
+describe('useOfflineStudy', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockIsOffline.mockReturnValue(false);
+    mockGetOfflinePack.mockResolvedValue(null);
+    mockGetOfflineGlossary.mockResolvedValue(null);
+    mockListOfflinePacks.mockResolvedValue([]);
+    mockGetOutboxEntries.mockResolvedValue([]);
+    mockGetAllQuestions.mockResolvedValue({ success: true, data: questions });
+    mockGetAllTerms.mockResolvedValue({ success: true, data: [{ id: 'g1', term: 'Antenna', definition: 'Radiator' }] });
+    mockCacheFigures.mockResolvedValue(1);
+  });
+
+  describe('useOfflineStudy', () => {
+    it('downloads the studied pool, its figures and the glossary', async () => {
+      const { result } = renderHook(() => useOfflineStudy('technician'), { wrapper: createWrapper() });
+      await waitFor(() => expect(result.current.isLoading).toBe(false));
+
+      act(() => result.current.download());
+
+      await waitFor(() => expect(mockSaveOfflinePack).toHaveBeenCalled());
+      expect(mockGetAllQuestions).toHaveBeenCalledWith('technician', '2022-2026');
+      expect(mockCacheFigures).toHaveBeenCalledWith(['https://cdn.test/T1.png'], expect.any(Function));
+      expect(mockSaveOfflinePack).toHaveBeenCalledWith(
+        expect.objectContaining({
+          testType: 'technician',
+          poolVersion: '2022-2026',
+          questions,
+          figureUrls: ['https://cdn.test/T1.png'],
+        })
+      );
+      await waitFor(() => expect(mockSaveOfflineGlossary).toHaveBeenCalled());
+      await waitFor(() => expect(toast.success).toHaveBeenCalledWith('Saved 3 questions for offline study'));
+    });
+
+    it('warns when some figures could not be cached', async () => {
+      mockCacheFigures.mockResolvedValue(0);
+      const { result } = renderHook(() => useOfflineStudy('technician'), { wrapper: createWrapper() });
+
+      act(() => result.current.download());
+
+      await waitFor(() =>
+        expect(toast.warning).toHaveBeenCalledWith('Saved 3 questions, but 1 figures could not be downloaded')
+      );
+    });
+
+    it('does not save anything when the question download fails', async () => {
+      mockGetAllQuestions.mockResolvedValue({
+        success: false,
+        error: { code: 'NETWORK_ERROR', message: 'Failed to fetch' },
+      });
+      const { result } = renderHook(() => useOfflineStudy('technician'), { wrapper: createWrapper() });
+
+      act(() => result.current.download());
+
+      await waitFor(() => expect(toast.error).toHaveBeenCalledWith('Failed to download for offline study'));
+      expect(mockSaveOfflinePack).not.toHaveBeenCalled();
+    });
+
+    it('flags a download from a different pool as outdated', async () => {
+      mockGetOfflinePack.mockResolvedValue({ ...pack, poolVersion: '2018-2022' });
+
+      const { result } = renderHook(() => useOfflineStudy('technician'), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.pack).not.toBeNull());
+      expect(result.current.isOutdated).toBe(true);
+    });
+
+    it('keeps figures another downloaded pool still uses when removing', async () => {
+      mockGetOfflinePack.mockResolvedValue(pack);
+      mockListOfflinePacks.mockResolvedValue([
+        { ...pack, testType: 'general', figureUrls: ['https://cdn.test/T2.png'] },
+      ]);
+
+      const { result } = renderHook(() => useOfflineStudy('technician'), { wrapper: createWrapper() });
+      await waitFor(() => expect(result.current.pack).not.toBeNull());
+
+      act(() => result.current.remove());
+
+      await waitFor(() => expect(mockRemoveCachedFigures).toHaveBeenCalledWith(['https://cdn.test/T1.png']));
+      expect(mockDeleteOfflinePack).toHaveBeenCalledWith('technician');
+    });
+  });
+
+  describe('useOfflineSync', () => {
+    it("counts only the signed-in user's queued entries", async () => {
+      mockReplayOutbox.mockResolvedValue({ synced: 0, dropped: 0, remaining: 2, testTypes: [] });
+      mockGetOutboxEntries.mockResolvedValue([
+        { id: 'a', userId: 'user-1' },
+        { id: 'b', userId: 'user-1' },
+        { id: 'c', userId: 'user-2' },
+      ]);
+
+      const { result } = renderHook(() => useOfflineSync(), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.pendingCount).toBe(2));
+    });
+
+    it('refreshes progress and readiness after syncing', async () => {
+      mockRecalculateReadiness.mockResolvedValue(true);
+      mockReplayOutbox.mockResolvedValue({ synced: 3, dropped: 0, remaining: 0, testTypes: ['technician'] });
+
+      renderHook(() => useOfflineSync(), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(mockReplayOutbox).toHaveBeenCalledWith('user-1'));
+      await waitFor(() => expect(toast.success).toHaveBeenCalledWith('Synced 3 items you studied offline'));
+      expect(mockInvalidateProgressQueries).toHaveBeenCalled();
+      expect(mockRecalculateReadiness).toHaveBeenCalledWith('technician');
+    });
+
+    it('does not replay while offline', async () => {
+      mockIsOffline.mockReturnValue(true);
+
+      const { result } = renderHook(() => useOfflineSync(), { wrapper: createWrapper() });
+
+      expect(result.current.isOnline).toBe(false);
+      await expect(result.current.sync()).resolves.toBeNull();
+      expect(mockReplayOutbox).not.toHaveBeenCalled();
+    });
+
+    it('reports entries the server rejected', async () => {
+      mockReplayOutbox.mockResolvedValue({ synced: 0, dropped: 1, remaining: 0, testTypes: [] });
+
+      renderHook(() => useOfflineSync(), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(toast.error).toHaveBeenCalledWith('1 offline item could not be saved'));
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { usePoolVersion } from '@/hooks/usePoolVersion';
+import { useProgress } from '@/hooks/useProgress';
+import { recalculateReadiness } from '@/hooks/useReadinessScore';
+import {
+  OUTBOX_CHANGED_EVENT,
+  cacheFigures,
+  deleteOfflinePack,
+  getOfflineGlossary,
+  getOfflinePack,
+  getOutboxEntries,
+  listOfflinePacks,
+  removeCachedFigures,
+  saveOfflineGlossary,
+  saveOfflinePack,
+} from '@/lib/offlineStore';
+import { isOffline, replayOutbox, type ReplayResult } from '@/lib/offlineSync';
+import { queryKeys, unwrapOrThrow } from '@/services';
+import { glossaryService } from '@/services/glossary/glossaryService';
+import { questionService } from '@/services/questions/questionService';
+import type { TestType } from '@/types/navigation';
+
+export interface FigureDownloadProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Download and remove the question pool, figures and glossary for offline
+ * study of one exam type.
+ *
+ * The pool saved is the one the learner is studying (see usePoolVersion);
+ * `isOutdated` turns true when they switch pools after downloading.
+ */
+export function useOfflineStudy(testType: TestType) {
+  const queryClient = useQueryClient();
+  const { poolVersion } = usePoolVersion(testType);
+  const [figureProgress, setFigureProgress] = useState<FigureDownloadProgress | null>(null);
+
+  const packQuery = useQuery({
+    queryKey: queryKeys.offline.pack(testType),
+    queryFn: () => getOfflinePack(testType),
+    networkMode: 'always',
+  });
+
+  const glossaryQuery = useQuery({
+    queryKey: queryKeys.offline.glossary(),
+    queryFn: getOfflineGlossary,
+    networkMode: 'always',
+  });
+
+  const download = useMutation({
+    mutationFn: async () => {
+      if (!poolVersion) throw new Error('No question pool selected');
+
+      const questions = unwrapOrThrow(await questionService.getAll(testType, poolVersion));
+      const terms = unwrapOrThrow(await glossaryService.getAll());
+
+      const figureUrls = [...new Set(questions.map((q) => q.figureUrl).filter((url): url is string => !!url))];
+      setFigureProgress({ done: 0, total: figureUrls.length });
+      const figuresCached = await cacheFigures(figureUrls, (done) =>
+        setFigureProgress({ done, total: figureUrls.length })
+      );
+
+      const downloadedAt = new Date().toISOString();
+      await saveOfflinePack({ testType, poolVersion, questions, figureUrls, downloadedAt });
+      await saveOfflineGlossary({ terms, downloadedAt });
+
+      return { questionCount: questions.length, figuresMissing: figureUrls.length - figuresCached };
+    },
+    onSuccess: ({ questionCount, figuresMissing }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.offline.root });
+      if (figuresMissing > 0) {
+        toast.warning(`Saved ${questionCount} questions, but ${figuresMissing} figures could not be downloaded`);
+      } else {
+        toast.success(`Saved ${questionCount} questions for offline study`);
+      }
+    },
+    onError: (error) => {
+      toast.error('Failed to download for offline study');
+      console.error('Offline download failed:', error);
+    },
+    onSettled: () => setFigureProgress(null),
+  });
+
+  const remove = useMutation({
+    mutationFn: async () => {
+      const pack = await getOfflinePack(testType);
+      await deleteOfflinePack(testType);
+      if (!pack) return;
+
+      // Figures shared with another downloaded pool stay cached
+      const otherPacks = await listOfflinePacks();
+      const stillUsed = new Set(otherPacks.flatMap((p) => p.figureUrls));
+      await removeCachedFigures(pack.figureUrls.filter((url) => !stillUsed.has(url)));
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.offline.root });
+      toast.success('Removed offline download');
+    },
+    onError: (error) => {
+      toast.error('Failed to remove offline download');
+      console.error('Offline removal failed:', error);
+    },
+  });
+
+  const pack = packQuery.data ?? null;
+
+  return {
+    pack,
+    glossary: glossaryQuery.data ?? null,
+    isLoading: packQuery.isLoading,
+    isOutdated: !!pack && !!poolVersion && pack.poolVersion !== poolVersion,
+    figureProgress,
+    download: download.mutate,
+    isDownloading: download.isPending,
+    remove: remove.mutate,
+    isRemoving: remove.isPending,
+  };
+}
+
+/**
+ * Replay attempts queued while offline once the connection returns.
+ *
+ * Mount once for the signed-in app shell. Syncs on mount, on the browser's
+ * `online` event, and on demand via `sync`.
+ */
+export function useOfflineSync() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { invalidateProgressQueries } = useProgress();
+  const [isOnline, setIsOnline] = useState(() => !isOffline());
+
+  const outboxQuery = useQuery({
+    queryKey: queryKeys.offline.outbox(),
+    queryFn: getOutboxEntries,
+    networkMode: 'always',
+  });
+  const pendingCount = (outboxQuery.data ?? []).filter((entry) => entry.userId === user?.id).length;
+
+  const sync = useCallback(async (): Promise<ReplayResult | null> => {
+    if (!user || isOffline()) return null;
+
+    const result = await replayOutbox(user.id);
+
+    if (result.synced > 0) {
+      invalidateProgressQueries();
+      queryClient.invalidateQueries({ queryKey: queryKeys.progress.streak(user.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.progress.reviewSchedule(user.id) });
+
+      // Readiness recalculation runs in the background, like after a test
+      for (const testType of result.testTypes) {
+        recalculateReadiness(testType)
+          .then(() => {
+            queryClient.invalidateQueries({ queryKey: queryKeys.readiness.byUser(user.id) });
+            queryClient.invalidateQueries({ queryKey: queryKeys.readiness.snapshotsByUser(user.id) });
+          })
+          .catch((err) => console.error('Failed to recalculate readiness after sync:', err));
+      }
+
+      toast.success(
+        result.synced === 1
+          ? 'Synced 1 item you studied offline'
+          : `Synced ${result.synced} items you studied offline`
+      );
+    }
+
+    if (result.dropped > 0) {
+      toast.error(`${result.dropped} offline ${result.dropped === 1 ? 'item' : 'items'} could not be saved`);
+    }
+
+    return result;
+  }, [user, queryClient, invalidateProgressQueries]);
+
+  // Keep the pending count current as attempts are queued and synced
+  useEffect(() => {
+    const handleChange = () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.offline.outbox() });
+    };
+    window.addEventListener(OUTBOX_CHANGED_EVENT, handleChange);
+    return () => window.removeEventListener(OUTBOX_CHANGED_EVENT, handleChange);
+  }, [queryClient]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      sync().catch((err) => console.error('Offline sync failed:', err));
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sync]);
+
+  // Catch up on anything left from an earlier session (e.g. the app was
+  // closed before the connection came back)
+  useEffect(() => {
+    sync().catch((err) => console.error('Offline sync failed:', err));
+  }, [sync]);
+
+  return { isOnline, pendingCount, sync };
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act, waitFor } from '@testing-library/react';
+import { createElement, type ReactNode } from 'react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { usePoolVersion, resolvePoolVersion } from './usePoolVersion';
+
+const mockUseAuth = vi.fn();
+vi.mock('@/hooks/useAuth', () => ({
+  useAuth: () => mockUseAuth(),
+}));
+
+const mockUseTargetExam = vi.fn();
+vi.mock('@/hooks/useExamSessions', () => ({
+  useTargetExam: () => mockUseTargetExam(),
+}));
+
+vi.mock('@/hooks/useReadinessScore', () => ({
+  recalculateReadiness: vi.fn().mockResolvedValue(true),
+}));
+
+const mockGetChoice = vi.fn();
+const mockSaveChoice = vi.fn();
+const mockClearChoice = vi.fn();
+vi.mock('@/services/poolChoices/poolChoiceService', () => ({
+  poolChoiceService: {
+    getChoice: (...args: unknown[]) => mockGetChoice(...args),
+    saveChoice: (...args: unknown[]) => mockSaveChoice(...args),
+    clearChoice: (...args: unknown[]) => mockClearChoice(...args),
+  },
+}));
+
+function createWrapper() {
+  const queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return ({ children }: { children: ReactNode }) =>
+    createElement(QueryClientProvider, { client: queryClient }, children);
+}
+
+function targetExam(examDate: string | null, targetLicense: string | null = 'technician') {
+  return {
+    targetExam: examDate ? { target_license: targetLicense } : null,
+    examDate,
+    isLoading: false,
+  };
+}
+
+describe('usePoolVersion', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2026, 4, 1));
+    mockUseAuth.mockReturnValue({ user: { id: 'user-1' } });
+    mockUseTargetExam.mockReturnValue(targetExam(null));
+    mockGetChoice.mockResolvedValue({ success: true, data: null });
+    mockSaveChoice.mockResolvedValue({ success: true, data: undefined });
+    mockClearChoice.mockResolvedValue({ success: true, data: undefined });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('resolvePoolVersion', () => {
+    it('defaults to the pool in effect today', () => {
+      expect(resolvePoolVersion('technician').version).toBe('2022-2026');
+
+      vi.setSystemTime(new Date(2026, 7, 1));
+      expect(resolvePoolVersion('technician').version).toBe('2026-2030');
+    });
+
+    it('uses the pool in effect on the exam date', () => {
+      expect(resolvePoolVersion('technician', { examDate: '2026-06-30' }).version).toBe('2022-2026');
+      expect(resolvePoolVersion('technician', { examDate: '2026-07-01' }).version).toBe('2026-2030');
+    });
+
+    it('uses today once the exam date has passed', () => {
+      vi.setSystemTime(new Date(2026, 7, 1));
+
+      expect(resolvePoolVersion('technician', { examDate: '2026-06-20' }).version).toBe('2026-2030');
+    });
+
+    it('lets a picked pool override the exam date while it is still tested', () => {
+      expect(
+        resolvePoolVersion('technician', { choice: '2026-2030', examDate: '2026-06-20' }).version
+      ).toBe('2026-2030');
+    });
+
+    it('ignores a picked pool that has expired', () => {
+      vi.setSystemTime(new Date(2026, 7, 1));
+
+      expect(resolvePoolVersion('technician', { choice: '2022-2026' }).version).toBe('2026-2030');
+    });
+
+    it('ignores a picked pool from another exam', () => {
+      expect(resolvePoolVersion('general', { choice: '2022-2026' }).version).toBe('2023-2027');
+    });
+  });
+
+  describe('hook', () => {
+    it('returns nothing when no test type is given', () => {
+      const { result } = renderHook(() => usePoolVersion(), { wrapper: createWrapper() });
+
+      expect(result.current.poolVersion).toBeUndefined();
+      expect(result.current.selectablePools).toEqual([]);
+      expect(mockGetChoice).not.toHaveBeenCalled();
+    });
+
+    it('lists both pools during a transition', () => {
+      const { result } = renderHook(() => usePoolVersion('technician'), { wrapper: createWrapper() });
+
+      expect(result.current.selectablePools.map(p => p.version)).toEqual(['2022-2026', '2026-2030']);
+    });
+
+    it('waits for the stored pick before resolving a pool', async () => {
+      const { result } = renderHook(() => usePoolVersion('technician'), { wrapper: createWrapper() });
+
+      expect(result.current.poolVersion).toBeUndefined();
+      await waitFor(() => expect(result.current.poolVersion).toBe('2022-2026'));
+      expect(mockGetChoice).toHaveBeenCalledWith('user-1', 'technician');
+    });
+
+    it('follows the target exam date', async () => {
+      mockUseTargetExam.mockReturnValue(targetExam('2026-08-15'));
+
+      const { result } = renderHook(() => usePoolVersion('technician'), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.poolVersion).toBe('2026-2030'));
+    });
+
+    it('ignores a target exam for another license', async () => {
+      mockUseTargetExam.mockReturnValue(targetExam('2026-08-15', 'general'));
+
+      const { result } = renderHook(() => usePoolVersion('technician'), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.poolVersion).toBe('2022-2026'));
+    });
+
+    it('uses the pool stored on the server over the exam date', async () => {
+      mockUseTargetExam.mockReturnValue(targetExam('2026-06-20'));
+      mockGetChoice.mockResolvedValue({ success: true, data: '2026-2030' });
+
+      const { result } = renderHook(() => usePoolVersion('technician'), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.poolVersion).toBe('2026-2030'));
+    });
+
+    it('uses today without a signed-in learner', () => {
+      mockUseAuth.mockReturnValue({ user: null });
+
+      const { result } = renderHook(() => usePoolVersion('technician'), { wrapper: createWrapper() });
+
+      expect(result.current.poolVersion).toBe('2022-2026');
+    });
+
+    it('stores a pick of the other pool on the server', async () => {
+      const { result } = renderHook(() => usePoolVersion('technician'), { wrapper: createWrapper() });
+      await waitFor(() => expect(result.current.poolVersion).toBe('2022-2026'));
+
+      act(() => {
+        result.current.setPoolVersion('2026-2030');
+      });
+
+      await waitFor(() => expect(result.current.poolVersion).toBe('2026-2030'));
+      expect(mockSaveChoice).toHaveBeenCalledWith('user-1', 'technician', '2026-2030');
+    });
+
+    it('clears the pick when the learner goes back to the exam date pool', async () => {
+      mockGetChoice.mockResolvedValue({ success: true, data: '2026-2030' });
+      const { result } = renderHook(() => usePoolVersion('technician'), { wrapper: createWrapper() });
+      await waitFor(() => expect(result.current.poolVersion).toBe('2026-2030'));
+
+      act(() => {
+        result.current.setPoolVersion('2022-2026');
+      });
+
+      await waitFor(() => expect(result.current.poolVersion).toBe('2022-2026'));
+      expect(mockClearChoice).toHaveBeenCalledWith('user-1', 'technician');
+      expect(mockSaveChoice).not.toHaveBeenCalled();
+    });
+  });
+});
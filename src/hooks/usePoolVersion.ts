@@ -0,0 +1,100 @@
+import { useCallback } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { TestType } from '@/types/navigation';
+import { useAuth } from '@/hooks/useAuth';
+import { useTargetExam } from '@/hooks/useExamSessions';
+import { recalculateReadiness } from '@/hooks/useReadinessScore';
+import { queryKeys, unwrapOrThrow } from '@/services';
+import { poolChoiceService } from '@/services/poolChoices/poolChoiceService';
+import { getPoolForDate, getSelectablePools, toDateKey, PoolVersionInfo } from '@/lib/poolConfig';
+
+interface PoolInputs {
+  /** Pool the learner picked, if any */
+  choice?: string | null;
+  /** Target exam date (YYYY-MM-DD) for this exam type */
+  examDate?: string | null;
+}
+
+/**
+ * Resolve the pool a learner is studying for an exam type.
+ *
+ * A picked pool wins while it is still being tested. Otherwise the pool in
+ * effect on the target exam date, or today's pool once that date has passed
+ * or without one. Mirrors get_learner_pool_version, which the edge functions
+ * use - keep both in sync.
+ */
+export function resolvePoolVersion(
+  testType: TestType,
+  { choice = null, examDate = null }: PoolInputs = {},
+  today: Date = new Date()
+): PoolVersionInfo {
+  const chosen = getSelectablePools(testType, today).find(p => p.version === choice);
+  if (chosen) return chosen;
+
+  const upcomingExam = examDate && examDate >= toDateKey(today) ? examDate : null;
+  return getPoolForDate(testType, upcomingExam ?? today);
+}
+
+/**
+ * Hook for the question pool the learner is studying for an exam type.
+ *
+ * The pool follows the target exam date. During a pool transition both pools
+ * are selectable and learners can pick the other one; the pick is stored on
+ * the server so readiness is scored on the same pool. Returns an undefined
+ * pool while the learner's exam date and pick are loading, or when no exam
+ * type is given.
+ */
+export function usePoolVersion(testType?: TestType) {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const { targetExam, examDate, isLoading: targetExamLoading } = useTargetExam();
+  const choiceKey = queryKeys.questions.poolChoice(user?.id ?? '', testType as TestType);
+
+  const { data: choice, isLoading: choiceLoading } = useQuery({
+    queryKey: choiceKey,
+    queryFn: async () => unwrapOrThrow(await poolChoiceService.getChoice(user!.id, testType!)),
+    enabled: !!user && !!testType,
+    staleTime: 1000 * 60 * 5,
+  });
+
+  // The target exam only decides the pool for the license it is for
+  const targetLicense = targetExam?.target_license ?? null;
+  const targetExamDate = !targetLicense || targetLicense === testType ? examDate : null;
+
+  const poolVersion = testType && !targetExamLoading && !choiceLoading
+    ? resolvePoolVersion(testType, { choice, examDate: targetExamDate }).version
+    : undefined;
+
+  const { mutate } = useMutation({
+    mutationFn: async (version: string) => {
+      if (!user || !testType) throw new Error('Not authenticated');
+      // Picking the exam date's own pool drops the pick, so a later change
+      // of exam date still moves the learner to the right pool
+      if (resolvePoolVersion(testType, { examDate: targetExamDate }).version === version) {
+        unwrapOrThrow(await poolChoiceService.clearChoice(user.id, testType));
+        return null;
+      }
+      unwrapOrThrow(await poolChoiceService.saveChoice(user.id, testType, version));
+      return version;
+    },
+    onSuccess: async (saved) => {
+      queryClient.setQueryData(choiceKey, saved);
+      if (testType && (await recalculateReadiness(testType))) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.readiness.byUser(user?.id ?? '') });
+      }
+    },
+    onError: (error) => {
+      toast.error('Failed to change question pool');
+      console.error('Failed to save pool choice:', error);
+    },
+  });
+
+  const setPoolVersion = useCallback((version: string) => mutate(version), [mutate]);
+
+  return {
+    poolVersion,
+    selectablePools: testType ? getSelectablePools(testType) : [],
+    setPoolVersion,
+  };
+}
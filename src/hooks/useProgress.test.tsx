@@ -1,5 +1,5 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { renderHook } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactNode } from 'react';
 import { useProgress } from './useProgress';
@@ -19,6 +19,11 @@ vi.mock('@/integrations/supabase/client', () => ({
   },
 }));
 
+const mockAddOutboxEntry = vi.fn();
+vi.mock('@/lib/offlineStore', () => ({
+  addOutboxEntry: (...args: unknown[]) => mockAddOutboxEntry(...args),
+}));
+
 // Create a wrapper with QueryClientProvider for testing
 const createWrapper = () => {
   const queryClient = new QueryClient({
@@ -401,6 +406,61 @@ describe('useProgress', () => {
     });
   });
 
+  describe('saveTestResult with timing', () => {
+    it('records time per question and pacing in the completion event', async () => {
+      const { supabase } = await import('@/integrations/supabase/client');
+
+      const mockEventsInsert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(supabase.from).mockImplementation((table: string) => {
+        if (table === 'practice_test_results') {
+          return {
+            insert: vi.fn().mockReturnValue({
+              select: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({ data: { id: 'test-result-id' }, error: null }),
+              }),
+            }),
+          } as unknown as ReturnType<typeof supabase.from>;
+        }
+        if (table === 'events') {
+          return { insert: mockEventsInsert } as unknown as ReturnType<typeof supabase.from>;
+        }
+        return { insert: vi.fn().mockResolvedValue({ data: null, error: null }) } as unknown as ReturnType<typeof supabase.from>;
+      });
+
+      const { result } = renderHook(() => useProgress(), { wrapper: createWrapper() });
+
+      await result.current.saveTestResult([mockQuestion], { 'T1A01': 'A' }, 'technician', {
+        questionTimes: { T1A01: 42400 },
+        simulation: true,
+        timeLimitSeconds: 2700,
+        timedOut: false,
+        flaggedCount: 1,
+      });
+
+      await waitFor(() => {
+        expect(mockEventsInsert).toHaveBeenCalledWith(
+          expect.objectContaining({
+            event_type: 'practice_test_completed',
+            payload: expect.objectContaining({
+              duration_seconds: 42,
+              pacing: expect.objectContaining({
+                mode: 'simulation',
+                question_time_ms: { T1A01: 42400 },
+                flagged_count: 1,
+              }),
+            }),
+          })
+        );
+      });
+      expect(mockEventsInsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event_type: 'question_attempt',
+          payload: expect.objectContaining({ time_raw_ms: 42400 }),
+        })
+      );
+    });
+  });
+
   describe('saveTestResult with testType parameter', () => {
     beforeEach(async () => {
       // Reset useAuth mock for these tests
@@ -539,6 +599,48 @@ describe('useProgress', () => {
         })
       );
     });
+
+    it('stores a separate result test type for custom tests', async () => {
+      const { supabase } = await import('@/integrations/supabase/client');
+
+      const mockInsert = vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          single: vi.fn().mockResolvedValue({
+            data: { id: 'test-result-id' },
+            error: null,
+          }),
+        }),
+      });
+
+      const mockAttemptsInsert = vi.fn().mockResolvedValue({
+        data: null,
+        error: null,
+      });
+
+      vi.mocked(supabase.from).mockImplementation((table: string) => {
+        if (table === 'practice_test_results') {
+          return { insert: mockInsert } as ReturnType<typeof supabase.from>;
+        }
+        if (table === 'question_attempts') {
+          return { insert: mockAttemptsInsert } as ReturnType<typeof supabase.from>;
+        }
+        return {} as ReturnType<typeof supabase.from>;
+      });
+
+      const { result } = renderHook(() => useProgress(), { wrapper: createWrapper() });
+
+      await result.current.saveTestResult([mockQuestion], { 'T1A01': 'A' }, 'technician', undefined, 'custom_technician');
+
+      expect(mockInsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          test_type: 'custom_technician',
+          passed: true, // 1 of 1 clears the scaled 74%
+        })
+      );
+      expect(mockAttemptsInsert).toHaveBeenCalledWith([
+        expect.objectContaining({ attempt_type: 'practice_test' }),
+      ]);
+    });
   });
 
   describe('dynamic pass threshold by test type', () => {
@@ -1130,4 +1232,60 @@ describe('useProgress', () => {
       expect(mockTrack).not.toHaveBeenCalled();
     });
   });
+
+  describe('offline', () => {
+    beforeEach(async () => {
+      const { useAuth } = await import('./useAuth');
+      vi.mocked(useAuth).mockReturnValue({ user: { id: 'test-user-id' } } as ReturnType<typeof useAuth>);
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      mockAddOutboxEntry.mockResolvedValue(undefined);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('queues a random practice attempt instead of saving it', async () => {
+      const { supabase } = await import('@/integrations/supabase/client');
+      const { result } = renderHook(() => useProgress(), { wrapper: createWrapper() });
+
+      await result.current.saveRandomAttempt(mockQuestion, 'A', 'random_practice', 3000);
+
+      expect(supabase.from).not.toHaveBeenCalled();
+      expect(mockAddOutboxEntry).toHaveBeenCalledWith(expect.objectContaining({
+        kind: 'question_attempt',
+        userId: 'test-user-id',
+        selectedAnswer: 'A',
+        timeElapsedMs: 3000,
+      }));
+    });
+
+    it('queues a practice test and returns it marked as queued', async () => {
+      const { supabase } = await import('@/integrations/supabase/client');
+      const { result } = renderHook(() => useProgress(), { wrapper: createWrapper() });
+
+      const saved = await result.current.saveTestResult([mockQuestion], { 'T1A01': 'A' });
+
+      expect(supabase.from).not.toHaveBeenCalled();
+      expect(saved).toEqual(expect.objectContaining({ score: 1, total_questions: 1, queued: true }));
+      expect(mockAddOutboxEntry).toHaveBeenCalledWith(expect.objectContaining({
+        kind: 'practice_test',
+        testResultId: saved?.id,
+      }));
+    });
+
+    it('falls back to a normal save when the outbox is unavailable', async () => {
+      const { supabase } = await import('@/integrations/supabase/client');
+      const consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockAddOutboxEntry.mockRejectedValue(new Error('Offline storage is not available in this browser'));
+      const mockInsert = vi.fn().mockResolvedValue({ data: null, error: null });
+      vi.mocked(supabase.from).mockReturnValue({ insert: mockInsert } as ReturnType<typeof supabase.from>);
+      const { result } = renderHook(() => useProgress(), { wrapper: createWrapper() });
+
+      await result.current.saveRandomAttempt(mockQuestion, 'A');
+
+      expect(mockInsert).toHaveBeenCalled();
+      consoleErrorSpy.mockRestore();
+    });
+  });
 });
@@ -1,6 +1,6 @@
 import { useAuth } from '@/hooks/useAuth';
 import { Question } from '@/hooks/useQuestions';
-import { TestType, testConfig } from '@/types/navigation';
+import { TestType } from '@/types/navigation';
 import { useQueryClient } from '@tanstack/react-query';
 import { useCallback, useRef } from 'react';
 import { recalculateReadiness } from '@/hooks/useReadinessScore';
@@ -8,7 +8,11 @@ import { recordQuestionAttempt, recordPracticeTestCompleted, recordTopicQuizComp
 import { incrementDailyActivity } from '@/hooks/useDailyStreak';
 import { trackPracticeTestCompleted as trackAmpTestCompleted, trackQuestionAnswered, trackQuizCompleted } from '@/lib/amplitude';
 import { queryKeys } from '@/services/queryKeys';
-import { progressService } from '@/services/progress/progressService';
+import { progressService, type TestResultRow } from '@/services/progress/progressService';
+import { buildPacingPayload, type TestTiming } from '@/lib/examPacing';
+import { buildSubelementBreakdown, scorePracticeTest } from '@/lib/practiceTestScore';
+import { addOutboxEntry, type OutboxEntry } from '@/lib/offlineStore';
+import { createPracticeTestEntry, createQuestionAttemptEntry, isOffline } from '@/lib/offlineSync';
 
 /** Number of questions to batch before triggering a readiness recalculation */
 const RECALC_QUESTION_THRESHOLD = 10;
@@ -25,6 +29,9 @@ const EXAM_TYPE_PREFIXES = {
 
 type ExamPrefix = keyof typeof EXAM_TYPE_PREFIXES;
 
+/** A saved practice test; `queued` results are waiting in the offline outbox */
+export type SavedTestResult = TestResultRow & { queued?: boolean };
+
 /**
  * Check if a character is a valid exam type prefix
  */
@@ -55,6 +62,21 @@ function getExamTypeFromQuestion(question: Question): TestType {
   return 'technician';
 }
 
+/**
+ * Store an attempt made without a connection in the offline outbox.
+ * Returns false when on-device storage is unavailable, in which case the
+ * caller falls through to a normal save (which logs the network failure).
+ */
+async function queueOffline(entry: OutboxEntry): Promise<boolean> {
+  try {
+    await addOutboxEntry(entry);
+    return true;
+  } catch (err) {
+    console.error('Failed to queue offline attempt:', err);
+    return false;
+  }
+}
+
 export function useProgress() {
   const { user } = useAuth();
   const queryClient = useQueryClient();
@@ -78,6 +100,7 @@ export function useProgress() {
     queryClient.invalidateQueries({ queryKey: queryKeys.progress.attempts(user.id) });
     queryClient.invalidateQueries({ queryKey: queryKeys.progress.profileStats(user.id) });
     queryClient.invalidateQueries({ queryKey: queryKeys.progress.weeklyGoals(user.id) });
+    queryClient.invalidateQueries({ queryKey: queryKeys.progress.masteryByUser(user.id) });
   }, [queryClient, user]);
 
   /**
@@ -135,20 +158,46 @@ export function useProgress() {
     }
   }, [invalidateReadinessQueries]);
 
+  /**
+   * Save a finished practice test. `resultTestType` overrides the stored
+   * test_type (e.g. 'custom_technician') so history and readiness can keep
+   * those results apart from full exams.
+   */
   const saveTestResult = async (
     questions: Question[],
     answers: Record<string, 'A' | 'B' | 'C' | 'D'>,
-    testType: TestType = 'technician'
-  ) => {
+    testType: TestType = 'technician',
+    timing?: TestTiming,
+    resultTestType: string = testType
+  ): Promise<SavedTestResult | null> => {
     if (!user) return null;
 
-    const correctCount = questions.filter(
-      (q) => answers[q.id] === q.correctAnswer
-    ).length;
-    const totalQuestions = questions.length;
-    const percentage = Math.round((correctCount / totalQuestions) * 100);
-    const { passingScore } = testConfig[testType];
-    const passed = correctCount >= passingScore;
+    const { correctCount, totalQuestions, percentage, passed } = scorePracticeTest(questions, answers, testType, resultTestType !== testType);
+
+    // Without a connection the test waits in the outbox until reconnect
+    if (isOffline()) {
+      const entry = createPracticeTestEntry({
+        userId: user.id,
+        questions,
+        answers,
+        testType,
+        ...(resultTestType !== testType && { resultTestType }),
+        timing: timing ?? null,
+      });
+      if (await queueOffline(entry)) {
+        return {
+          id: entry.testResultId,
+          user_id: user.id,
+          score: correctCount,
+          total_questions: totalQuestions,
+          percentage,
+          passed,
+          test_type: resultTestType,
+          created_at: entry.createdAt,
+          queued: true,
+        };
+      }
+    }
 
     // Save test result
     const testResultResult = await progressService.createTestResult({
@@ -157,7 +206,7 @@ export function useProgress() {
       totalQuestions,
       percentage,
       passed,
-      testType,
+      testType: resultTestType,
     });
 
     if (!testResultResult.success) {
@@ -190,31 +239,13 @@ export function useProgress() {
       recordQuestionAttempt({
         question,
         answerSelected: answerToIndex[answers[question.id]] ?? 0,
-        timeElapsedMs: 0, // Per-question timing not tracked in practice tests
+        timeElapsedMs: Math.round(timing?.questionTimes[question.id] ?? 0),
         mode: 'practice_test',
         practiceTestId: testResult.id,
         userId: user.id
       }).catch(err => console.error('Event recording failed:', err));
     }
 
-    // Compute subelement breakdown for event recording
-    const subelementBreakdown: Record<string, { correct: number; total: number }> = {};
-    for (const question of questions) {
-      // Extract subelement from question display name (e.g., 'T1' from 'T1A01')
-      // Fall back to question.id if displayName is not available
-      const displayName = question.displayName || question.id || '';
-      const subelement = displayName.slice(0, 2);
-      if (subelement && !subelementBreakdown[subelement]) {
-        subelementBreakdown[subelement] = { correct: 0, total: 0 };
-      }
-      if (subelement) {
-        subelementBreakdown[subelement].total++;
-        if (answers[question.id] === question.correctAnswer) {
-          subelementBreakdown[subelement].correct++;
-        }
-      }
-    }
-
     // Record practice test completed event (fire-and-forget)
     recordPracticeTestCompleted({
       practiceTestId: testResult.id,
@@ -223,8 +254,12 @@ export function useProgress() {
       totalQuestions,
       score: correctCount,
       percentage,
-      durationSeconds: 0, // Total time not tracked at test level yet
-      subelementBreakdown,
+      durationSeconds: timing
+        ? Math.round(Object.values(timing.questionTimes).reduce((sum, ms) => sum + ms, 0) / 1000)
+        : 0,
+      subelementBreakdown: buildSubelementBreakdown(questions, answers),
+      poolVersion: questions[0]?.poolVersion,
+      pacing: timing ? buildPacingPayload(questions, timing) : null,
       userId: user.id
     }).catch(err => console.error('Event recording failed:', err));
 
@@ -279,11 +314,22 @@ export function useProgress() {
   const saveRandomAttempt = async (
     question: Question,
     selectedAnswer: 'A' | 'B' | 'C' | 'D',
-    attemptType: 'random_practice' | 'weak_questions' | 'subelement_practice' | 'chapter_practice' | 'topic_quiz' = 'random_practice',
+    attemptType: 'random_practice' | 'weak_questions' | 'spaced_review' | 'subelement_practice' | 'chapter_practice' | 'topic_quiz' = 'random_practice',
     timeElapsedMs?: number
   ) => {
     if (!user) return;
 
+    if (isOffline()) {
+      const queued = await queueOffline(createQuestionAttemptEntry({
+        userId: user.id,
+        question,
+        selectedAnswer,
+        attemptType,
+        timeElapsedMs: timeElapsedMs ?? 0,
+      }));
+      if (queued) return;
+    }
+
     const answerToIndex: Record<string, number> = { 'A': 0, 'B': 1, 'C': 2, 'D': 3 };
 
     const attemptResult = await progressService.createAttempts([{
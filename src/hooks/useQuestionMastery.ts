@@ -0,0 +1,42 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys, unwrapOrThrow } from '@/services';
+import { progressService } from '@/services/progress/progressService';
+import type { TestType } from '@/types/navigation';
+
+// Re-export domain types for consumers
+export type { QuestionMasteryFlags } from '@/services/progress/progressService';
+
+/**
+ * The current user's question_mastery flags for one exam, as sets of
+ * question ids: every question they've answered, and those marked weak.
+ * The raw rows are also returned for per-group aggregates.
+ */
+export function useQuestionMastery(testType: TestType) {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: queryKeys.progress.mastery(user?.id ?? '', testType),
+    queryFn: async () => unwrapOrThrow(await progressService.getQuestionMastery(user!.id, testType)),
+    enabled: !!user,
+    staleTime: 1000 * 60 * 2,
+  });
+
+  const { rows, seenIds, weakIds } = useMemo(() => {
+    const rows = query.data ?? [];
+    return {
+      rows,
+      seenIds: new Set(rows.filter((row) => row.totalAttempts > 0).map((row) => row.questionId)),
+      weakIds: new Set(rows.filter((row) => row.isWeak).map((row) => row.questionId)),
+    };
+  }, [query.data]);
+
+  return {
+    rows,
+    seenIds,
+    weakIds,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
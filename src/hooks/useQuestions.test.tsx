@@ -1,8 +1,10 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, waitFor } from '@testing-library/react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactNode } from 'react';
 import { useQuestions, useQuestion } from './useQuestions';
+import { getPoolVersionForExamType } from '@/lib/poolConfig';
+import type { TestType } from '@/types/navigation';
 
 // Mock question data for all test types
 // Note: id is now UUID, display_name is the human-readable ID (T1A01, etc.)
@@ -45,14 +47,24 @@ const createQueryBuilder = () => {
 
   if (currentError) {
     // Return error builder
+    const errorResult = () => Promise.resolve({ data: null, error: currentError });
     return {
-      like: vi.fn(() => Promise.resolve({ data: null, error: currentError })),
-      in: vi.fn(() => Promise.resolve({ data: null, error: currentError })),
+      like: vi.fn(() => ({
+        eq: vi.fn(errorResult),
+        then: (resolve: (value: { data: null; error: Error }) => void) => {
+          resolve({ data: null, error: currentError });
+        },
+      })),
+      in: vi.fn(errorResult),
       eq: vi.fn(() => ({
-        single: vi.fn(() => Promise.resolve({ data: null, error: currentError })),
+        single: vi.fn(errorResult),
       })),
       ilike: vi.fn(() => ({
-        single: vi.fn(() => Promise.resolve({ data: null, error: currentError })),
+        order: vi.fn(() => ({
+          limit: vi.fn(() => ({
+            single: vi.fn(errorResult),
+          })),
+        })),
       })),
       then: (resolve: (value: { data: null; error: Error }) => void) => {
         resolve({ data: null, error: currentError });
@@ -65,7 +77,19 @@ const createQueryBuilder = () => {
       // Filter data based on the like pattern (e.g., 'T%' for Technician)
       const prefix = pattern.replace('%', '');
       const filtered = currentData.filter(q => q.display_name.startsWith(prefix));
-      return Promise.resolve({ data: filtered, error: null });
+      return {
+        // Pool filter: rows without a pool_version belong to every pool
+        eq: vi.fn((poolColumn: string, poolVersion: string) => Promise.resolve({
+          data: filtered.filter(q => {
+            const rowPool = (q as { pool_version?: string }).pool_version;
+            return rowPool === undefined || rowPool === poolVersion;
+          }),
+          error: null,
+        })),
+        then: (resolve: (value: { data: typeof mockDbQuestions; error: null }) => void) => {
+          resolve({ data: filtered, error: null });
+        },
+      };
     }),
     in: vi.fn((column: string, ids: string[]) => {
       const filtered = currentData.filter(q => ids.includes(q.id));
@@ -78,10 +102,14 @@ const createQueryBuilder = () => {
       }),
     })),
     ilike: vi.fn((column: string, value: string) => ({
-      single: vi.fn(() => {
-        const found = currentData.find(q => q.display_name.toUpperCase() === value.toUpperCase());
-        return Promise.resolve({ data: found || null, error: found ? null : { message: 'Not found' } });
-      }),
+      order: vi.fn(() => ({
+        limit: vi.fn(() => ({
+          single: vi.fn(() => {
+            const found = currentData.find(q => q.display_name.toUpperCase() === value.toUpperCase());
+            return Promise.resolve({ data: found || null, error: found ? null : { message: 'Not found' } });
+          }),
+        })),
+      })),
     })),
     // When no filter is applied (the query is awaited directly), return all data
     then: (resolve: (value: { data: typeof mockDbQuestions; error: null }) => void) => {
@@ -101,6 +129,18 @@ vi.mock('@/integrations/supabase/client', () => ({
   },
 }));
 
+// The learner studies the current pool unless a test picks another one
+const currentPool = (testType?: TestType) => (testType ? getPoolVersionForExamType(testType) : undefined);
+const mockPoolVersion = vi.fn(currentPool);
+vi.mock('./usePoolVersion', () => ({
+  usePoolVersion: (testType?: TestType) => ({ poolVersion: mockPoolVersion(testType) }),
+}));
+
+const mockGetOfflinePack = vi.fn();
+vi.mock('@/lib/offlineStore', () => ({
+  getOfflinePack: (...args: unknown[]) => mockGetOfflinePack(...args),
+}));
+
 function createWrapper() {
   const queryClient = new QueryClient({
     defaultOptions: {
@@ -115,6 +155,8 @@ function createWrapper() {
 describe('useQuestions', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockPoolVersion.mockImplementation(currentPool);
+    mockGetOfflinePack.mockResolvedValue(null);
   });
 
   describe('without testType filter', () => {
@@ -196,6 +238,27 @@ describe('useQuestions', () => {
     });
   });
 
+  describe('pool version filtering', () => {
+    it('only returns questions from the selected pool during a transition', async () => {
+      mockPoolVersion.mockReturnValue('2026-2030');
+
+      setMockData([
+        { ...mockDbQuestions[0], pool_version: '2022-2026' },
+        { ...mockDbQuestions[0], id: 'uuid-t1a01-2026', question: 'New pool Q1?', pool_version: '2026-2030' },
+      ] as unknown as typeof mockDbQuestions);
+
+      const { result } = renderHook(() => useQuestions('technician'), {
+        wrapper: createWrapper(),
+      });
+
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      expect(result.current.data).toHaveLength(1);
+      expect(result.current.data?.[0].id).toBe('uuid-t1a01-2026');
+      expect(result.current.data?.[0].poolVersion).toBe('2026-2030');
+    });
+  });
+
   describe('query key caching', () => {
     it('uses different query keys for different test types', async () => {
       const wrapper = createWrapper();
@@ -268,6 +331,56 @@ describe('useQuestions', () => {
     });
   });
 
+  describe('offline pool', () => {
+    const offlineQuestion = { id: 'offline-t1a01', displayName: 'T1A01', question: 'Saved Q?' };
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('uses the downloaded pool without a connection', async () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      mockGetOfflinePack.mockResolvedValue({
+        testType: 'technician',
+        poolVersion: '2022-2026',
+        questions: [offlineQuestion],
+      });
+
+      const { result } = renderHook(() => useQuestions('technician'), { wrapper: createWrapper() });
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      expect(result.current.data).toEqual([offlineQuestion]);
+      expect(mockSelect).not.toHaveBeenCalled();
+    });
+
+    it('falls back to the downloaded pool when the request fails', async () => {
+      setMockError(new Error('Failed to fetch'));
+      mockGetOfflinePack.mockResolvedValue({
+        testType: 'technician',
+        poolVersion: '2022-2026',
+        questions: [offlineQuestion],
+      });
+
+      const { result } = renderHook(() => useQuestions('technician'), { wrapper: createWrapper() });
+      await waitFor(() => expect(result.current.isSuccess).toBe(true));
+
+      expect(result.current.data).toEqual([offlineQuestion]);
+    });
+
+    it('ignores a download of a different pool', async () => {
+      setMockError(new Error('Failed to fetch'));
+      mockGetOfflinePack.mockResolvedValue({
+        testType: 'technician',
+        poolVersion: '1999-2003',
+        questions: [offlineQuestion],
+      });
+
+      const { result } = renderHook(() => useQuestions('technician'), { wrapper: createWrapper() });
+
+      await waitFor(() => expect(result.current.isError).toBe(true));
+    });
+  });
+
   describe('empty results', () => {
     it('returns empty array when no questions match filter', async () => {
       // Only have Technician questions in the database
@@ -2,17 +2,53 @@ import { useQuery } from "@tanstack/react-query";
 import { TestType } from "@/types/navigation";
 import { queryKeys, unwrapOrThrow } from "@/services";
 import { questionService } from "@/services/questions/questionService";
+import { usePoolVersion } from "@/hooks/usePoolVersion";
+import { getOfflinePack } from "@/lib/offlineStore";
+import { isOffline } from "@/lib/offlineSync";
+import { getPoolForDate } from "@/lib/poolConfig";
+import { pickQuestionOfTheDay, utcDayKey } from "@/lib/questionOfTheDay";
 
 // Re-export domain types for backward compatibility
 export type { Question, LinkData, QuestionTopic } from "@/services/questions/questionService";
 
 import type { Question } from "@/services/questions/questionService";
 
+/** The downloaded copy of a pool, if the learner saved this exact pool for offline study */
+async function loadOfflinePool(testType?: TestType, poolVersion?: string): Promise<Question[] | null> {
+  if (!testType || !poolVersion) return null;
+  const pack = await getOfflinePack(testType).catch(() => null);
+  return pack?.poolVersion === poolVersion ? pack.questions : null;
+}
+
+/**
+ * Fetch the question pool for a test type.
+ * Questions come from the pool the learner is studying (see usePoolVersion),
+ * so both pools can live side by side during a pool transition.
+ *
+ * Without a connection (or if the request fails) the pool downloaded for
+ * offline study is used instead.
+ */
 export function useQuestions(testType?: TestType) {
+  const { poolVersion } = usePoolVersion(testType);
   return useQuery({
-    queryKey: queryKeys.questions.all(testType),
-    queryFn: async () => unwrapOrThrow(await questionService.getAll(testType)),
+    queryKey: testType && poolVersion
+      ? queryKeys.questions.inPool(testType, poolVersion)
+      : queryKeys.questions.all(testType),
+    queryFn: async () => {
+      if (isOffline()) {
+        const offline = await loadOfflinePool(testType, poolVersion);
+        if (offline) return offline;
+      }
+      const result = await questionService.getAll(testType, poolVersion);
+      if (!result.success) {
+        const offline = await loadOfflinePool(testType, poolVersion);
+        if (offline) return offline;
+      }
+      return unwrapOrThrow(result);
+    },
     staleTime: 1000 * 60 * 60, // Cache for 1 hour
+    // Run the query while offline so the downloaded pool can answer it
+    networkMode: 'offlineFirst',
   });
 }
 
@@ -45,6 +81,26 @@ export function useQuestion(questionId: string | undefined) {
   });
 }
 
+/**
+ * Today's question for an exam type, the same for every visitor. Drawn from
+ * the pool in effect today rather than the visitor's saved pool, since the
+ * embed widget runs on other sites.
+ */
+export function useQuestionOfTheDay(testType: TestType) {
+  const day = utcDayKey();
+  return useQuery({
+    queryKey: queryKeys.questions.ofTheDay(testType, day),
+    queryFn: async () => {
+      const poolVersion = getPoolForDate(testType, day).version;
+      const pool = unwrapOrThrow(await questionService.getPoolIndex(testType, poolVersion));
+      const pick = pickQuestionOfTheDay(pool, testType, new Date(`${day}T00:00:00Z`));
+      if (!pick) throw new Error('No questions in the current pool');
+      return unwrapOrThrow(await questionService.getById(pick.id));
+    },
+    staleTime: 1000 * 60 * 60, // 1 hour cache
+  });
+}
+
 /**
  * Fetch multiple questions by their UUIDs.
  * Useful for fetching bookmarked questions without loading all questions.
@@ -5,7 +5,7 @@ import { queryKeys, unwrapOrThrow } from '@/services';
 import { readinessService } from '@/services/readiness/readinessService';
 
 // Re-export domain types for backward compatibility
-export type { ReadinessData, SubelementMetric } from '@/services/readiness/readinessService';
+export type { ReadinessData, SubelementMetric, GroupMetric } from '@/services/readiness/readinessService';
 
 /**
  * Hook to fetch the cached readiness score for a user.
@@ -0,0 +1,50 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys, unwrapOrThrow } from '@/services';
+import { reviewScheduleService } from '@/services/reviewSchedule/reviewScheduleService';
+import { filterByTestType } from '@/lib/testTypeUtils';
+import { getDueQuestions } from '@/lib/spacedRepetition';
+import type { TestType } from '@/types/navigation';
+
+// Re-export domain types for consumers
+export type { ReviewScheduleEntry } from '@/services/reviewSchedule/reviewScheduleService';
+
+/**
+ * Fetch the spaced-repetition schedule for the current user and pick out
+ * the questions that are due now for the selected exam, most urgent first.
+ */
+export function useReviewSchedule(testType: TestType) {
+  const { user } = useAuth();
+
+  const query = useQuery({
+    queryKey: queryKeys.progress.reviewSchedule(user?.id ?? ''),
+    queryFn: async () => unwrapOrThrow(await reviewScheduleService.getSchedule(user!.id)),
+    enabled: !!user,
+    staleTime: 1000 * 60 * 2,
+  });
+
+  const schedule = useMemo(
+    () => filterByTestType(query.data ?? [], testType, (entry) => entry.displayName),
+    [query.data, testType]
+  );
+
+  const dueQuestions = useMemo(() => getDueQuestions(schedule), [schedule]);
+
+  // Earliest upcoming review, shown when nothing is due yet
+  const nextDueAt = useMemo(() => {
+    const upcoming = schedule
+      .map((entry) => entry.dueAt)
+      .filter((dueAt): dueAt is string => dueAt !== null)
+      .sort();
+    return upcoming[0] ?? null;
+  }, [schedule]);
+
+  return {
+    schedule,
+    dueQuestions,
+    nextDueAt,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { useStudyPlan } from './useStudyPlan';
+
+const mockTargetExam = vi.fn();
+vi.mock('./useExamSessions', () => ({
+  useTargetExam: () => mockTargetExam(),
+}));
+
+const mockWeeklyGoals = vi.fn();
+vi.mock('./useDashboardData', () => ({
+  useWeeklyGoals: () => mockWeeklyGoals(),
+}));
+
+const mockReadiness = vi.fn();
+vi.mock('./useReadinessScore', () => ({
+  useReadinessScore: () => mockReadiness(),
+}));
+
+vi.mock('./useReviewSchedule', () => ({
+  useReviewSchedule: () => ({ dueQuestions: [{ questionId: 'q1' }, { questionId: 'q2' }] }),
+}));
+
+const subelementMetrics = {
+  T1: {
+    accuracy: 0.5, recent_accuracy: 0.5, coverage: 0.5, mastery: 0.2, risk_score: 0.5,
+    expected_score: 2, weight: 6, pool_size: 40, attempts_count: 20, recent_attempts_count: 10,
+  },
+};
+
+describe('useStudyPlan', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    // Monday
+    vi.setSystemTime(new Date(2026, 9, 19, 12, 0));
+    mockTargetExam.mockReturnValue({
+      targetExam: { target_license: 'technician', study_intensity: 'moderate' },
+      examDate: '2026-10-24',
+    });
+    mockWeeklyGoals.mockReturnValue({ data: { questions_goal: 50, tests_goal: 2, study_days: [1, 2, 3] } });
+    mockReadiness.mockReturnValue({ data: { subelement_metrics: subelementMetrics } });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("plans the learner's study days up to the exam", () => {
+    const { result } = renderHook(() => useStudyPlan('technician'));
+
+    expect(result.current.studyDays).toEqual([1, 2, 3]);
+    expect(result.current.plan?.days.map((d) => d.date)).toEqual(['2026-10-19', '2026-10-20', '2026-10-21']);
+    expect(result.current.today).toMatchObject({ date: '2026-10-19', subelements: ['T1'] });
+    // Due reviews land on the first day
+    expect(result.current.today?.reviewQuestions).toBe(12);
+  });
+
+  it('studies every day when no study days are saved', () => {
+    mockWeeklyGoals.mockReturnValue({ data: null });
+
+    const { result } = renderHook(() => useStudyPlan('technician'));
+
+    expect(result.current.studyDays).toEqual([0, 1, 2, 3, 4, 5, 6]);
+    expect(result.current.plan?.days).toHaveLength(5);
+  });
+
+  it('has no plan without an exam date', () => {
+    mockTargetExam.mockReturnValue({ targetExam: null, examDate: null });
+
+    const { result } = renderHook(() => useStudyPlan('technician'));
+
+    expect(result.current.plan).toBeNull();
+    expect(result.current.today).toBeNull();
+  });
+
+  it('has no plan when the target exam is for another license', () => {
+    const { result } = renderHook(() => useStudyPlan('general'));
+
+    expect(result.current.plan).toBeNull();
+  });
+
+  it('has no plan before readiness has been calculated', () => {
+    mockReadiness.mockReturnValue({ data: { subelement_metrics: {} } });
+
+    const { result } = renderHook(() => useStudyPlan('technician'));
+
+    expect(result.current.plan).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { useMemo } from 'react';
+import { useTargetExam } from '@/hooks/useExamSessions';
+import { useWeeklyGoals } from '@/hooks/useDashboardData';
+import { useReadinessScore } from '@/hooks/useReadinessScore';
+import { useReviewSchedule } from '@/hooks/useReviewSchedule';
+import { ALL_STUDY_DAYS, buildStudyPlan, getPlanDay } from '@/lib/studyPlan';
+import type { TestType } from '@/types/navigation';
+
+// Re-export domain types for consumers
+export type { StudyPlan, StudyPlanDay } from '@/lib/studyPlan';
+
+/**
+ * The learner's study plan for the selected exam, worked backward from their
+ * target exam date. The plan is null without an exam date, when the target
+ * exam is for a different license, or before readiness has been calculated.
+ */
+export function useStudyPlan(testType: TestType) {
+  const { targetExam, examDate } = useTargetExam();
+  const { data: weeklyGoals } = useWeeklyGoals();
+  const { data: readiness } = useReadinessScore(testType);
+  const { dueQuestions } = useReviewSchedule(testType);
+
+  const studyDays = weeklyGoals?.study_days ?? ALL_STUDY_DAYS;
+  const targetLicense = targetExam?.target_license ?? null;
+  const subelementMetrics = readiness?.subelement_metrics;
+  const dueReviews = dueQuestions.length;
+
+  const plan = useMemo(() => {
+    if (!examDate || !subelementMetrics || Object.keys(subelementMetrics).length === 0) return null;
+    if (targetLicense && targetLicense !== testType) return null;
+
+    return buildStudyPlan({
+      examDate,
+      studyDays,
+      subelementMetrics,
+      dueReviews,
+      intensity: targetExam?.study_intensity,
+    });
+  }, [examDate, studyDays, subelementMetrics, dueReviews, targetLicense, testType, targetExam?.study_intensity]);
+
+  return {
+    plan,
+    today: getPlanDay(plan),
+    studyDays,
+  };
+}
@@ -37,6 +37,7 @@ describe('useTestReadiness', () => {
     pass_probability: 0.65,
     expected_exam_score: 28,
     subelement_metrics: {},
+    group_metrics: {},
     total_attempts: 50,
     unique_questions_seen: 100,
     config_version: '1.0',
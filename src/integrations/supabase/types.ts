@@ -214,12 +214,187 @@ export type Database = {
           },
         ]
       }
+      classroom_assignments: {
+        Row: {
+          classroom_id: string
+          created_at: string
+          due_date: string
+          id: string
+          lesson_id: string | null
+          topic_id: string | null
+        }
+        Insert: {
+          classroom_id: string
+          created_at?: string
+          due_date: string
+          id?: string
+          lesson_id?: string | null
+          topic_id?: string | null
+        }
+        Update: {
+          classroom_id?: string
+          created_at?: string
+          due_date?: string
+          id?: string
+          lesson_id?: string | null
+          topic_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "classroom_assignments_classroom_id_fkey"
+            columns: ["classroom_id"]
+            isOneToOne: false
+            referencedRelation: "classrooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "classroom_assignments_lesson_id_fkey"
+            columns: ["lesson_id"]
+            isOneToOne: false
+            referencedRelation: "lessons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "classroom_assignments_topic_id_fkey"
+            columns: ["topic_id"]
+            isOneToOne: false
+            referencedRelation: "topics"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classroom_members: {
+        Row: {
+          classroom_id: string
+          joined_at: string
+          user_id: string
+        }
+        Insert: {
+          classroom_id: string
+          joined_at?: string
+          user_id: string
+        }
+        Update: {
+          classroom_id?: string
+          joined_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "classroom_members_classroom_id_fkey"
+            columns: ["classroom_id"]
+            isOneToOne: false
+            referencedRelation: "classrooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "classroom_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classrooms: {
+        Row: {
+          created_at: string
+          exam_type: Database["public"]["Enums"]["license_type"]
+          id: string
+          instructor_id: string
+          join_code: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          exam_type?: Database["public"]["Enums"]["license_type"]
+          id?: string
+          instructor_id: string
+          join_code?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          exam_type?: Database["public"]["Enums"]["license_type"]
+          id?: string
+          instructor_id?: string
+          join_code?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "classrooms_instructor_id_fkey"
+            columns: ["instructor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      content_revisions: {
+        Row: {
+          changed_fields: string[]
+          content: Json
+          created_at: string
+          created_by: string | null
+          created_by_email: string | null
+          entity_id: string
+          entity_type: string
+          id: string
+          restored_from: string | null
+          revision_number: number
+        }
+        Insert: {
+          changed_fields?: string[]
+          content: Json
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          entity_id: string
+          entity_type: string
+          id?: string
+          restored_from?: string | null
+          revision_number: number
+        }
+        Update: {
+          changed_fields?: string[]
+          content?: Json
+          created_at?: string
+          created_by?: string | null
+          created_by_email?: string | null
+          entity_id?: string
+          entity_type?: string
+          id?: string
+          restored_from?: string | null
+          revision_number?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_revisions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "content_revisions_restored_from_fkey"
+            columns: ["restored_from"]
+            isOneToOne: false
+            referencedRelation: "content_revisions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       daily_activity: {
         Row: {
           activity_date: string
           created_at: string
           glossary_terms_studied: number
           id: string
+          morse_characters: number
           qualifies_for_streak: boolean | null
           questions_answered: number
           questions_correct: number
@@ -233,6 +408,7 @@ export type Database = {
           created_at?: string
           glossary_terms_studied?: number
           id?: string
+          morse_characters?: number
           qualifies_for_streak?: boolean | null
           questions_answered?: number
           questions_correct?: number
@@ -246,6 +422,7 @@ export type Database = {
           created_at?: string
           glossary_terms_studied?: number
           id?: string
+          morse_characters?: number
           qualifies_for_streak?: boolean | null
           questions_answered?: number
           questions_correct?: number
@@ -340,7 +517,9 @@ export type Database = {
           id: string
           notes: string | null
           outcome: Database["public"]["Enums"]["exam_outcome"] | null
+          score: number | null
           target_license: Database["public"]["Enums"]["license_type"]
+          total_questions: number | null
           updated_at: string
           user_id: string
         }
@@ -351,7 +530,9 @@ export type Database = {
           id?: string
           notes?: string | null
           outcome?: Database["public"]["Enums"]["exam_outcome"] | null
+          score?: number | null
           target_license: Database["public"]["Enums"]["license_type"]
+          total_questions?: number | null
           updated_at?: string
           user_id: string
         }
@@ -362,7 +543,9 @@ export type Database = {
           id?: string
           notes?: string | null
           outcome?: Database["public"]["Enums"]["exam_outcome"] | null
+          score?: number | null
           target_license?: Database["public"]["Enums"]["license_type"]
+          total_questions?: number | null
           updated_at?: string
           user_id?: string
         }
@@ -494,6 +677,149 @@ export type Database = {
           },
         ]
       }
+      explanation_revisions: {
+        Row: {
+          created_at: string
+          forum_username: string | null
+          helpful_count: number | null
+          id: string
+          not_helpful_count: number | null
+          proposed_explanation: string
+          published_explanation: string | null
+          question_id: string
+          review_note: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          source: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          forum_username?: string | null
+          helpful_count?: number | null
+          id?: string
+          not_helpful_count?: number | null
+          proposed_explanation: string
+          published_explanation?: string | null
+          question_id: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          forum_username?: string | null
+          helpful_count?: number | null
+          id?: string
+          not_helpful_count?: number | null
+          proposed_explanation?: string
+          published_explanation?: string | null
+          question_id?: string
+          review_note?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          source?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "explanation_revisions_question_id_fkey"
+            columns: ["question_id"]
+            isOneToOne: false
+            referencedRelation: "questions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "explanation_revisions_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      figure_hotspots: {
+        Row: {
+          created_at: string
+          description: string | null
+          display_order: number
+          figure_reference: string
+          glossary_term_id: string | null
+          id: string
+          label: string
+          name: string
+          pool_version: string
+          x: number
+          y: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          display_order?: number
+          figure_reference: string
+          glossary_term_id?: string | null
+          id?: string
+          label: string
+          name: string
+          pool_version: string
+          x: number
+          y: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          display_order?: number
+          figure_reference?: string
+          glossary_term_id?: string | null
+          id?: string
+          label?: string
+          name?: string
+          pool_version?: string
+          x?: number
+          y?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "figure_hotspots_glossary_term_id_fkey"
+            columns: ["glossary_term_id"]
+            isOneToOne: false
+            referencedRelation: "glossary_terms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      glossary_decks: {
+        Row: {
+          created_at: string
+          description: string | null
+          display_order: number
+          id: string
+          name: string
+          slug: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          display_order?: number
+          id?: string
+          name: string
+          slug: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          display_order?: number
+          id?: string
+          name?: string
+          slug?: string
+        }
+        Relationships: []
+      }
       glossary_progress: {
         Row: {
           created_at: string
@@ -583,6 +909,7 @@ export type Database = {
       glossary_terms: {
         Row: {
           created_at: string
+          deck_id: string | null
           definition: string
           edit_history: Json
           fts: unknown
@@ -591,6 +918,7 @@ export type Database = {
         }
         Insert: {
           created_at?: string
+          deck_id?: string | null
           definition: string
           edit_history?: Json
           fts?: unknown
@@ -599,13 +927,22 @@ export type Database = {
         }
         Update: {
           created_at?: string
+          deck_id?: string | null
           definition?: string
           edit_history?: Json
           fts?: unknown
           id?: string
           term?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "glossary_terms_deck_id_fkey"
+            columns: ["deck_id"]
+            isOneToOne: false
+            referencedRelation: "glossary_decks"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       ham_radio_tool_categories: {
         Row: {
@@ -839,6 +1176,35 @@ export type Database = {
         }
         Relationships: []
       }
+      offline_sync_receipts: {
+        Row: {
+          activity_date: string
+          client_id: string
+          synced_at: string
+          user_id: string
+        }
+        Insert: {
+          activity_date: string
+          client_id: string
+          synced_at?: string
+          user_id: string
+        }
+        Update: {
+          activity_date?: string
+          client_id?: string
+          synced_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "offline_sync_receipts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       practice_test_results: {
         Row: {
           completed_at: string
@@ -975,13 +1341,19 @@ export type Database = {
         Row: {
           correct_attempts: number
           created_at: string
+          due_at: string | null
+          ease_factor: number
           first_attempt_at: string | null
           id: string
           incorrect_attempts: number
+          interval_days: number
           is_mastered: boolean | null
           is_weak: boolean | null
+          lapses: number
           last_attempt_at: string | null
+          last_reviewed_at: string | null
           question_id: string
+          repetitions: number
           total_attempts: number
           updated_at: string
           user_id: string
@@ -989,13 +1361,19 @@ export type Database = {
         Insert: {
           correct_attempts?: number
           created_at?: string
+          due_at?: string | null
+          ease_factor?: number
           first_attempt_at?: string | null
           id?: string
           incorrect_attempts?: number
+          interval_days?: number
           is_mastered?: boolean | null
           is_weak?: boolean | null
+          lapses?: number
           last_attempt_at?: string | null
+          last_reviewed_at?: string | null
           question_id: string
+          repetitions?: number
           total_attempts?: number
           updated_at?: string
           user_id: string
@@ -1003,13 +1381,19 @@ export type Database = {
         Update: {
           correct_attempts?: number
           created_at?: string
+          due_at?: string | null
+          ease_factor?: number
           first_attempt_at?: string | null
           id?: string
           incorrect_attempts?: number
+          interval_days?: number
           is_mastered?: boolean | null
           is_weak?: boolean | null
+          lapses?: number
           last_attempt_at?: string | null
+          last_reviewed_at?: string | null
           question_id?: string
+          repetitions?: number
           total_attempts?: number
           updated_at?: string
           user_id?: string
@@ -1180,6 +1564,44 @@ export type Database = {
         }
         Relationships: []
       }
+      readiness_config_versions: {
+        Row: {
+          backtest: Json | null
+          config: Json
+          id: string
+          notes: string | null
+          promoted_at: string
+          promoted_by: string | null
+          version: string
+        }
+        Insert: {
+          backtest?: Json | null
+          config: Json
+          id?: string
+          notes?: string | null
+          promoted_at?: string
+          promoted_by?: string | null
+          version: string
+        }
+        Update: {
+          backtest?: Json | null
+          config?: Json
+          id?: string
+          notes?: string | null
+          promoted_at?: string
+          promoted_by?: string | null
+          version?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "readiness_config_versions_promoted_by_fkey"
+            columns: ["promoted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       syllabus: {
         Row: {
           code: string
@@ -1450,6 +1872,42 @@ export type Database = {
         }
         Relationships: []
       }
+      user_pool_choices: {
+        Row: {
+          exam_type: string
+          pool_version: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          exam_type: string
+          pool_version: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          exam_type?: string
+          pool_version?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_pool_choices_pool_version_exam_type_fkey"
+            columns: ["pool_version", "exam_type"]
+            isOneToOne: false
+            referencedRelation: "question_pools"
+            referencedColumns: ["pool_version", "exam_type"]
+          },
+          {
+            foreignKeyName: "user_pool_choices_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_readiness_cache: {
         Row: {
           calculated_at: string
@@ -1458,6 +1916,7 @@ export type Database = {
           created_at: string
           exam_type: string
           expected_exam_score: number | null
+          group_metrics: Json
           id: string
           last_study_at: string | null
           mastery: number | null
@@ -1480,6 +1939,7 @@ export type Database = {
           created_at?: string
           exam_type: string
           expected_exam_score?: number | null
+          group_metrics?: Json
           id?: string
           last_study_at?: string | null
           mastery?: number | null
@@ -1502,6 +1962,7 @@ export type Database = {
           created_at?: string
           exam_type?: string
           expected_exam_score?: number | null
+          group_metrics?: Json
           id?: string
           last_study_at?: string | null
           mastery?: number | null
@@ -1671,6 +2132,7 @@ export type Database = {
           created_at: string
           id: string
           questions_goal: number
+          study_days: number[]
           tests_goal: number
           updated_at: string
           user_id: string
@@ -1679,6 +2141,7 @@ export type Database = {
           created_at?: string
           id?: string
           questions_goal?: number
+          study_days?: number[]
           tests_goal?: number
           updated_at?: string
           user_id: string
@@ -1687,6 +2150,7 @@ export type Database = {
           created_at?: string
           id?: string
           questions_goal?: number
+          study_days?: number[]
           tests_goal?: number
           updated_at?: string
           user_id?: string
@@ -1706,7 +2170,24 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      carry_over_question_mastery: {
+        Args: { p_from_pool: string; p_prefix: string; p_to_pool: string }
+        Returns: number
+      }
+      content_revision_changed_fields: {
+        Args: { p_entity_type: string; p_from: Json; p_to: Json }
+        Returns: string[]
+      }
+      content_revision_fields: {
+        Args: { p_entity_type: string }
+        Returns: string[]
+      }
+      content_revision_snapshot: {
+        Args: { p_entity_type: string; p_row: Json }
+        Returns: Json
+      }
       delete_own_account: { Args: never; Returns: Json }
+      generate_classroom_join_code: { Args: never; Returns: string }
       get_chapter_question_counts: {
         Args: { license_prefix?: string }
         Returns: {
@@ -1714,6 +2195,34 @@ export type Database = {
           question_count: number
         }[]
       }
+      get_classroom_roster: {
+        Args: { p_classroom_id: string }
+        Returns: {
+          coverage: number | null
+          display_name: string | null
+          joined_at: string
+          last_study_at: string | null
+          last_test_at: string | null
+          pass_probability: number | null
+          readiness_score: number | null
+          recent_accuracy: number | null
+          subelement_metrics: Json | null
+          tests_passed: number
+          tests_taken: number
+          user_id: string
+        }[]
+      }
+      get_classroom_student_tests: {
+        Args: { p_classroom_id: string; p_limit?: number; p_user_id: string }
+        Returns: {
+          completed_at: string
+          id: string
+          passed: boolean
+          percentage: number
+          score: number
+          total_questions: number
+        }[]
+      }
       get_discourse_sync_overview: {
         Args: never
         Returns: {
@@ -1727,6 +2236,62 @@ export type Database = {
           without_forum_url: number
         }[]
       }
+      get_learner_pool_version: {
+        Args: { p_exam_type: string }
+        Returns: string
+      }
+      get_question_answer_stats: {
+        Args: {
+          p_exam_prefix: string
+          p_min_learner_attempts?: number
+          p_pool_version: string
+        }
+        Returns: {
+          ability_group: string
+          attempts: number
+          question_id: string
+          selected_answer: number
+        }[]
+      }
+      get_question_time_stats: {
+        Args: { p_exam_prefix: string; p_pool_version: string }
+        Returns: {
+          median_time_ms: number
+          question_id: string
+          timed_attempts: number
+        }[]
+      }
+      get_readiness_backtest_answers: {
+        Args: { p_exam_type?: string }
+        Returns: {
+          answered_at: string
+          attempt_id: string
+          is_correct: boolean
+          question_id: string
+        }[]
+      }
+      get_readiness_calibration_data: {
+        Args: { p_exam_type?: string; p_max_snapshot_age_days?: number }
+        Returns: {
+          attempt_id: string
+          coverage: number | null
+          days_since_study: number | null
+          exam_date: string
+          exam_type: string
+          mastery: number | null
+          outcome: Database["public"]["Enums"]["exam_outcome"]
+          overall_accuracy: number | null
+          pass_probability: number
+          pool_size: number | null
+          readiness_score: number
+          recent_accuracy: number | null
+          score: number | null
+          snapshot_date: string
+          tests_passed: number
+          tests_taken: number
+          total_questions: number | null
+        }[]
+      }
       get_streak_info: {
         Args: { p_user_id: string }
         Returns: {
@@ -1742,6 +2307,10 @@ export type Database = {
           yesterday_qualifies: boolean
         }[]
       }
+      has_mapbox_zip_lookup_quota: {
+        Args: { p_year_month: string }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -1749,11 +2318,13 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_learner_archive: { Args: { p_archive: Json }; Returns: Json }
       increment_daily_activity: {
         Args: {
           p_correct?: number
           p_date: string
           p_glossary?: number
+          p_morse?: number
           p_questions?: number
           p_tests?: number
           p_tests_passed?: number
@@ -1761,10 +2332,113 @@ export type Database = {
         }
         Returns: undefined
       }
+      increment_daily_activity_once: {
+        Args: {
+          p_client_id: string
+          p_correct?: number
+          p_date: string
+          p_glossary?: number
+          p_questions?: number
+          p_tests?: number
+          p_tests_passed?: number
+        }
+        Returns: boolean
+      }
       increment_mapbox_usage: {
         Args: { p_year_month: string }
         Returns: number
       }
+      is_classroom_instructor: {
+        Args: { p_classroom_id: string }
+        Returns: boolean
+      }
+      is_classroom_member: { Args: { p_classroom_id: string }; Returns: boolean }
+      is_moderator: { Args: { _user_id: string }; Returns: boolean }
+      join_classroom: { Args: { p_join_code: string }; Returns: string }
+      link_exam_session: {
+        Args: {
+          p_session_id: string
+          p_target_license: Database["public"]["Enums"]["license_type"]
+        }
+        Returns: undefined
+      }
+      propose_forum_explanation: {
+        Args: {
+          p_explanation: string
+          p_forum_username?: string
+          p_question_id: string
+        }
+        Returns: string
+      }
+      promote_readiness_config: {
+        Args: {
+          p_backtest?: Json
+          p_config: Json
+          p_notes?: string
+          p_version: string
+        }
+        Returns: string
+      }
+      question_content_hash: {
+        Args: {
+          p_correct_answer: number
+          p_options: Json
+          p_question: string
+        }
+        Returns: string
+      }
+      replace_figure_hotspots: {
+        Args: {
+          p_figure_reference: string
+          p_hotspots: Json
+          p_pool_version: string
+        }
+        Returns: {
+          description: string
+          figure_reference: string
+          glossary_term: Json
+          id: string
+          label: string
+          name: string
+          pool_version: string
+          x: number
+          y: number
+        }[]
+      }
+      restore_content_revision: {
+        Args: { p_revision_id: string }
+        Returns: {
+          changed_fields: string[]
+          content: Json
+          entity_id: string
+          entity_type: string
+          id: string
+          revision_number: number
+        }[]
+      }
+      review_explanation_revision: {
+        Args: {
+          p_approve: boolean
+          p_explanation?: string
+          p_note?: string
+          p_revision_id: string
+        }
+        Returns: {
+          explanation: string
+          forum_url: string
+          question_id: string
+        }[]
+      }
+      schedule_question_review: {
+        Args: {
+          p_is_correct: boolean
+          p_question_id: string
+          p_reviewed_at: string
+          p_time_spent_ms: number
+          p_user_id: string
+        }
+        Returns: undefined
+      }
       search_content: {
         Args: {
           glossary_limit?: number
@@ -1785,9 +2459,18 @@ export type Database = {
         Args: { p_user_id: string }
         Returns: string
       }
+      sync_exam_sessions: {
+        Args: { p_delete_ids?: string[]; p_sessions: Json }
+        Returns: {
+          converted_targets_count: number
+          deleted_sessions_count: number
+          inserted_sessions_count: number
+          updated_sessions_count: number
+        }[]
+      }
     }
     Enums: {
-      app_role: "admin" | "moderator" | "user"
+      app_role: "admin" | "moderator" | "user" | "instructor"
       exam_outcome: "passed" | "failed" | "skipped"
       license_type: "technician" | "general" | "extra"
     }
@@ -1920,7 +2603,7 @@ export const Constants = {
   },
   public: {
     Enums: {
-      app_role: ["admin", "moderator", "user"],
+      app_role: ["admin", "moderator", "user", "instructor"],
       exam_outcome: ["passed", "failed", "skipped"],
       license_type: ["technician", "general", "extra"],
     },
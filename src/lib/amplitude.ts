@@ -32,6 +32,7 @@ export type AttemptType =
   | 'subelement_practice'
   | 'chapter_practice'
   | 'weak_questions'
+  | 'spaced_review'
   | 'topic_quiz';
 
 // ── Event property interfaces ────────────────────────────────────────
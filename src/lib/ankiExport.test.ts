@@ -0,0 +1,152 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ankiExportFilename,
+  buildAnkiCard,
+  buildAnkiCards,
+  markdownToHtml,
+  toAnkiCsv,
+  toAnkiTag,
+  toAnkiText,
+  type AnkiExportQuestion,
+} from './ankiExport';
+
+function makeQuestion(overrides: Partial<AnkiExportQuestion> = {}): AnkiExportQuestion {
+  return {
+    id: 'uuid-1',
+    displayName: 'T6A01',
+    question: 'What is component 1 in figure T-1?',
+    options: { A: 'Resistor', B: 'Transistor', C: 'Battery', D: 'Connector' },
+    correctAnswer: 'A',
+    subelement: 'T6',
+    group: 'T6A',
+    explanation: 'Zig-zag lines are a resistor.\nSee figure T-1.',
+    figureUrl: 'https://example.com/T-1.png',
+    ...overrides,
+  };
+}
+
+describe('markdownToHtml', () => {
+  it('renders emphasis, code and links instead of showing the Markdown', () => {
+    expect(markdownToHtml('**Ohm** says *E = IR*, see `T5D` and [the ARRL](https://www.arrl.org).')).toBe(
+      '<p><strong>Ohm</strong> says <em>E = IR</em>, see <code>T5D</code> and <a href="https://www.arrl.org">the ARRL</a>.</p>'
+    );
+  });
+
+  it('keeps paragraphs, lists and line breaks on one line', () => {
+    expect(markdownToHtml('Two rules:\n\n- one\n- two\n\nLast line\nwraps')).toBe(
+      '<p>Two rules:</p><ul><li>one</li><li>two</li></ul><p>Last line<br>wraps</p>'
+    );
+  });
+
+  it('escapes raw HTML and drops unsafe links', () => {
+    expect(markdownToHtml('R & C <script>x</script> [click](javascript:alert(1))')).toBe(
+      '<p>R &amp; C &lt;script&gt;x&lt;/script&gt; click</p>'
+    );
+  });
+});
+
+describe('toAnkiTag', () => {
+  it('lowercases and replaces characters Anki cannot use in tags', () => {
+    expect(toAnkiTag('T6A01')).toBe('t6a01');
+    expect(toAnkiTag(' Weak Questions! ')).toBe('weak-questions');
+    expect(toAnkiTag('openhamprep::bookmarks')).toBe('openhamprep::bookmarks');
+  });
+});
+
+describe('buildAnkiCard', () => {
+  it('puts the question, figure and options on the front', () => {
+    const card = buildAnkiCard(makeQuestion(), { setTag: 'weak-questions' });
+
+    expect(card.front).toContain('<div>What is component 1 in figure T-1?</div>');
+    expect(card.front).toContain('<img src="https://example.com/T-1.png" alt="Figure for T6A01">');
+    expect(card.front).toContain('<ol type="A"><li>Resistor</li><li>Transistor</li><li>Battery</li><li>Connector</li></ol>');
+  });
+
+  it('puts the answer, explanation and display name on the back', () => {
+    const card = buildAnkiCard(makeQuestion(), { setTag: 'weak-questions' });
+
+    expect(card.back).toBe(
+      '<div><b>A. Resistor</b></div>' +
+        '<div><p>Zig-zag lines are a resistor.<br>See figure T-1.</p></div>' +
+        '<div><small>T6A01</small></div>'
+    );
+  });
+
+  it('tags cards by display name, subelement, group and study set', () => {
+    const card = buildAnkiCard(makeQuestion(), { setTag: 'bookmarks' });
+
+    expect(card.tags).toEqual(['t6a01', 't6', 't6a', 'openhamprep::bookmarks']);
+    expect(card.guid).toBe('openhamprep-uuid-1');
+  });
+
+  it('adds bookmark notes and skips missing figures and explanations', () => {
+    const card = buildAnkiCard(makeQuestion({ figureUrl: null, explanation: null }), {
+      setTag: 'bookmarks',
+      notes: { 'uuid-1': 'Remember: <R> for resistor' },
+    });
+
+    expect(card.front).not.toContain('<img');
+    expect(card.back).toBe(
+      '<div><b>A. Resistor</b></div>' +
+        '<div><i>My note:</i> Remember: &lt;R&gt; for resistor</div>' +
+        '<div><small>T6A01</small></div>'
+    );
+  });
+});
+
+describe('buildAnkiCards', () => {
+  it('orders cards by display name', () => {
+    const cards = buildAnkiCards(
+      [makeQuestion({ id: 'b', displayName: 'T6A02' }), makeQuestion({ id: 'a', displayName: 'T6A01' })],
+      { setTag: 't6' }
+    );
+
+    expect(cards.map((c) => c.guid)).toEqual(['openhamprep-a', 'openhamprep-b']);
+  });
+});
+
+describe('toAnkiText', () => {
+  it('writes Anki import headers and one tab-separated note per line', () => {
+    const cards = [
+      { guid: 'g1', front: 'Front', back: 'Back', tags: ['t1a01', 'openhamprep::weak'] },
+      { guid: 'g2', front: 'Has\ttab', back: 'Says "hi"', tags: [] },
+    ];
+
+    expect(toAnkiText(cards, 'Open Ham Prep::Weak Questions')).toBe(
+      [
+        '#separator:tab',
+        '#html:true',
+        '#notetype:Basic',
+        '#deck:Open Ham Prep::Weak Questions',
+        '#guid column:1',
+        '#tags column:4',
+        '#columns:GUID\tFront\tBack\tTags',
+        'g1\tFront\tBack\tt1a01 openhamprep::weak',
+        'g2\t"Has\ttab"\t"Says ""hi"""\t',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('keeps generated cards on a single line each', () => {
+    const text = toAnkiText(buildAnkiCards([makeQuestion()], { setTag: 'weak' }), 'Deck');
+
+    expect(text.trim().split('\n')).toHaveLength(8);
+  });
+});
+
+describe('toAnkiCsv', () => {
+  it('writes a header row and quotes fields with commas or quotes', () => {
+    const cards = [{ guid: 'g1', front: 'A, B', back: '<img src="x">', tags: ['t1', 't1a'] }];
+
+    expect(toAnkiCsv(cards)).toBe('guid,front,back,tags\ng1,"A, B","<img src=""x"">",t1 t1a\n');
+  });
+});
+
+describe('ankiExportFilename', () => {
+  it('includes the study set and date', () => {
+    expect(ankiExportFilename('Weak Questions', new Date('2026-03-04T12:00:00Z'))).toBe(
+      'openhamprep-weak-questions-2026-03-04'
+    );
+  });
+});
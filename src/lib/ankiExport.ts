@@ -0,0 +1,160 @@
+/**
+ * Serializes a learner's study set (weak questions, bookmarks or a
+ * subelement) into flashcards for Anki or any spreadsheet.
+ *
+ * Two formats are produced:
+ *  - Anki text: tab-separated with Anki's file headers (2.1.55+), so File >
+ *    Import picks the deck, note type and tag column without any setup. A
+ *    stable GUID per question means re-importing updates cards instead of
+ *    duplicating them.
+ *  - CSV: the same fields with a header row and space-separated tags.
+ *
+ * Card fields are HTML. Explanations are Markdown and are rendered the way
+ * MarkdownText shows them in the app. Figures are linked by URL, which Anki
+ * shows whenever the device is online.
+ */
+
+import { createElement, Fragment, type ReactNode } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import type { Question } from '@/hooks/useQuestions';
+import { escapeHtml } from '@/lib/opengraph';
+import { getSafeUrl } from '@/lib/utils';
+
+export type AnkiExportQuestion = Pick<
+  Question,
+  'id' | 'displayName' | 'question' | 'options' | 'correctAnswer' | 'subelement' | 'group' | 'explanation' | 'figureUrl'
+>;
+
+export interface AnkiCard {
+  /** Stable across exports so Anki updates existing notes */
+  guid: string;
+  front: string;
+  back: string;
+  tags: string[];
+}
+
+export interface AnkiCardOptions {
+  /** Tag for the study set, e.g. "weak-questions"; added under openhamprep:: */
+  setTag: string;
+  /** Learner notes by question id (bookmark notes) */
+  notes?: Record<string, string | null | undefined>;
+}
+
+const ANSWER_LETTERS = ['A', 'B', 'C', 'D'] as const;
+
+export const ANKI_TAG_ROOT = 'openhamprep';
+
+/** Escape text and keep its line breaks */
+function toHtml(text: string): string {
+  return escapeHtml(text.trim()).replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * Render a Markdown explanation to HTML. Raw HTML in the source is escaped
+ * and links without a safe http(s) URL keep only their text, as in
+ * MarkdownText. Line breaks become <br> so each card stays on one line.
+ */
+export function markdownToHtml(markdown: string): string {
+  const html = renderToStaticMarkup(
+    createElement(
+      ReactMarkdown,
+      {
+        remarkPlugins: [remarkGfm],
+        components: {
+          a: ({ href, children }: { href?: string; children?: ReactNode }) => {
+            const safeUrl = getSafeUrl(href);
+            return safeUrl ? createElement('a', { href: safeUrl }, children) : createElement(Fragment, null, children);
+          },
+        },
+      },
+      markdown.trim()
+    )
+  );
+  return html.replace(/>\r?\n+</g, '><').replace(/\r?\n/g, '<br>');
+}
+
+/** Anki tags are space-separated, so anything else becomes a dash */
+export function toAnkiTag(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9:_-]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export function buildAnkiCard(question: AnkiExportQuestion, options: AnkiCardOptions): AnkiCard {
+  const front = [
+    `<div>${toHtml(question.question)}</div>`,
+    question.figureUrl
+      ? `<div><img src="${escapeHtml(question.figureUrl)}" alt="Figure for ${escapeHtml(question.displayName)}"></div>`
+      : '',
+    `<ol type="A">${ANSWER_LETTERS.map((letter) => `<li>${toHtml(question.options[letter])}</li>`).join('')}</ol>`,
+  ].join('');
+
+  const note = options.notes?.[question.id]?.trim();
+  const back = [
+    `<div><b>${question.correctAnswer}. ${toHtml(question.options[question.correctAnswer])}</b></div>`,
+    question.explanation?.trim() ? `<div>${markdownToHtml(question.explanation)}</div>` : '',
+    note ? `<div><i>My note:</i> ${toHtml(note)}</div>` : '',
+    `<div><small>${escapeHtml(question.displayName)}</small></div>`,
+  ].join('');
+
+  const tags = [
+    question.displayName,
+    question.subelement,
+    question.group,
+    `${ANKI_TAG_ROOT}::${options.setTag}`,
+  ].map(toAnkiTag).filter(Boolean);
+
+  return {
+    guid: `${ANKI_TAG_ROOT}-${question.id}`,
+    front,
+    back,
+    tags: Array.from(new Set(tags)),
+  };
+}
+
+export function buildAnkiCards(questions: AnkiExportQuestion[], options: AnkiCardOptions): AnkiCard[] {
+  return [...questions]
+    .sort((a, b) => a.displayName.localeCompare(b.displayName))
+    .map((question) => buildAnkiCard(question, options));
+}
+
+/** Quote a field for Anki's delimited import when it holds the separator, a quote or a line break */
+function ankiField(value: string): string {
+  return /[\t"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Anki-importable text file; deck names may nest with "::" */
+export function toAnkiText(cards: AnkiCard[], deckName: string): string {
+  const header = [
+    '#separator:tab',
+    '#html:true',
+    '#notetype:Basic',
+    `#deck:${deckName.replace(/[\r\n]/g, ' ')}`,
+    '#guid column:1',
+    '#tags column:4',
+    '#columns:GUID\tFront\tBack\tTags',
+  ];
+  const rows = cards.map((card) =>
+    [card.guid, card.front, card.back, card.tags.join(' ')].map(ankiField).join('\t')
+  );
+  return [...header, ...rows].join('\n') + '\n';
+}
+
+function csvField(value: string): string {
+  return /[,"\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/** Tagged CSV with a header row, for spreadsheets and other flashcard apps */
+export function toAnkiCsv(cards: AnkiCard[]): string {
+  const rows = cards.map((card) => [card.guid, card.front, card.back, card.tags.join(' ')].map(csvField).join(','));
+  return ['guid,front,back,tags', ...rows].join('\n') + '\n';
+}
+
+/** File name without extension, e.g. "openhamprep-weak-questions-2026-10-18" */
+export function ankiExportFilename(setTag: string, date = new Date()): string {
+  return `${ANKI_TAG_ROOT}-${toAnkiTag(setTag)}-${date.toISOString().slice(0, 10)}`;
+}
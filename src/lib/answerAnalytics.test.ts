@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildQuestionAnalytics,
+  summarizeSubelements,
+  compareForReview,
+  answerLetter,
+  type AnalyticsQuestion,
+  type AnswerStatRow,
+  type QuestionAnalytics,
+} from './answerAnalytics';
+
+const question = (overrides: Partial<AnalyticsQuestion> = {}): AnalyticsQuestion => ({
+  id: 'q1',
+  display_name: 'G5A01',
+  subelement: 'G5',
+  correct_answer: 0,
+  ...overrides,
+});
+
+/** Expand per-answer counts into RPC rows for one ability group */
+function rows(questionId: string, group: string, counts: number[]): AnswerStatRow[] {
+  return counts
+    .map((attempts, selected_answer) => ({ question_id: questionId, selected_answer, ability_group: group, attempts }))
+    .filter((row) => row.attempts > 0);
+}
+
+describe('answerAnalytics', () => {
+  describe('buildQuestionAnalytics', () => {
+    it('totals the answer distribution and first-try correct rate across groups', () => {
+      const [result] = buildQuestionAnalytics(
+        [question()],
+        [...rows('q1', 'upper', [8, 1, 1, 0]), ...rows('q1', 'unranked', [2, 3, 0, 5])],
+        []
+      );
+
+      expect(result.attempts).toBe(20);
+      expect(result.choiceCounts).toEqual([10, 4, 1, 5]);
+      expect(result.firstTryCorrectRate).toBe(0.5);
+      expect(result.topDistractor).toEqual({ answer: 3, share: 0.25 });
+    });
+
+    it('computes discrimination as upper minus lower correct rate', () => {
+      const [result] = buildQuestionAnalytics(
+        [question()],
+        [...rows('q1', 'upper', [9, 1, 0, 0]), ...rows('q1', 'lower', [3, 7, 0, 0]), ...rows('q1', 'middle', [5, 5, 0, 0])],
+        []
+      );
+
+      expect(result.discrimination).toBeCloseTo(0.6);
+    });
+
+    it('leaves discrimination empty when a group is too small', () => {
+      const [result] = buildQuestionAnalytics(
+        [question()],
+        [...rows('q1', 'upper', [9, 1, 0, 0]), ...rows('q1', 'lower', [1, 1, 0, 0])],
+        []
+      );
+
+      expect(result.discrimination).toBeNull();
+    });
+
+    it('attaches the median time from events', () => {
+      const [result] = buildQuestionAnalytics(
+        [question()],
+        [],
+        [{ question_id: 'q1', timed_attempts: 12, median_time_ms: 42_000 }]
+      );
+
+      expect(result.medianTimeMs).toBe(42_000);
+    });
+
+    it('keeps unattempted questions with empty rates', () => {
+      const [result] = buildQuestionAnalytics([question()], [], []);
+
+      expect(result).toMatchObject({
+        attempts: 0,
+        firstTryCorrectRate: null,
+        topDistractor: null,
+        discrimination: null,
+        medianTimeMs: null,
+        flags: [],
+      });
+    });
+
+    it('flags hard questions and distractors that beat the key', () => {
+      const [result] = buildQuestionAnalytics(
+        [question({ correct_answer: 2 })],
+        rows('q1', 'unranked', [4, 12, 6, 3]),
+        []
+      );
+
+      expect(result.firstTryCorrectRate).toBeCloseTo(0.24);
+      expect(result.flags).toEqual(['hard', 'strong-distractor']);
+    });
+
+    it('flags questions weak learners answer better than strong ones', () => {
+      const [result] = buildQuestionAnalytics(
+        [question()],
+        [...rows('q1', 'upper', [4, 6, 0, 0]), ...rows('q1', 'lower', [8, 2, 0, 0])],
+        []
+      );
+
+      expect(result.discrimination).toBeCloseTo(-0.4);
+      expect(result.flags).toContain('low-discrimination');
+    });
+
+    it('does not flag until there are enough first tries', () => {
+      const [result] = buildQuestionAnalytics([question()], rows('q1', 'unranked', [1, 5, 0, 0]), []);
+
+      expect(result.flags).toEqual([]);
+    });
+
+    it('ignores answers outside A-D', () => {
+      const [result] = buildQuestionAnalytics(
+        [question()],
+        [{ question_id: 'q1', selected_answer: 7, ability_group: 'unranked', attempts: 3 }],
+        []
+      );
+
+      expect(result.attempts).toBe(0);
+    });
+  });
+
+  describe('summarizeSubelements', () => {
+    it('rolls questions up by subelement', () => {
+      const analytics = buildQuestionAnalytics(
+        [
+          question({ id: 'q1', subelement: 'G5' }),
+          question({ id: 'q2', display_name: 'G5A02', subelement: 'G5', correct_answer: 1 }),
+          question({ id: 'q3', display_name: 'G1A01', subelement: 'G1' }),
+        ],
+        [...rows('q1', 'unranked', [6, 4, 0, 0]), ...rows('q2', 'unranked', [2, 8, 0, 0]), ...rows('q3', 'unranked', [1, 0, 0, 0])],
+        [
+          { question_id: 'q1', timed_attempts: 10, median_time_ms: 20_000 },
+          { question_id: 'q2', timed_attempts: 10, median_time_ms: 40_000 },
+        ]
+      );
+
+      const summary = summarizeSubelements(analytics);
+
+      expect(summary.map((s) => s.subelement)).toEqual(['G1', 'G5']);
+      expect(summary[1]).toMatchObject({
+        questionCount: 2,
+        attempts: 20,
+        choiceCounts: [8, 12, 0, 0],
+        firstTryCorrectRate: 0.7,
+        medianTimeMs: 30_000,
+        meanDiscrimination: null,
+      });
+    });
+  });
+
+  describe('compareForReview', () => {
+    const entry = (overrides: Partial<QuestionAnalytics>): QuestionAnalytics => ({
+      questionId: 'q',
+      displayName: 'T1A01',
+      subelement: 'T1',
+      correctAnswer: 0,
+      attempts: 10,
+      choiceCounts: [5, 5, 0, 0],
+      firstTryCorrectRate: 0.5,
+      topDistractor: null,
+      discrimination: null,
+      medianTimeMs: null,
+      flags: [],
+      ...overrides,
+    });
+
+    it('puts flagged, then harder, then unattempted questions in order', () => {
+      const sorted = [
+        entry({ displayName: 'unattempted', firstTryCorrectRate: null }),
+        entry({ displayName: 'easy', firstTryCorrectRate: 0.9 }),
+        entry({ displayName: 'flagged', firstTryCorrectRate: 0.95, flags: ['strong-distractor'] }),
+        entry({ displayName: 'harder', firstTryCorrectRate: 0.6 }),
+      ].sort(compareForReview);
+
+      expect(sorted.map((q) => q.displayName)).toEqual(['flagged', 'harder', 'easy', 'unattempted']);
+    });
+  });
+
+  describe('answerLetter', () => {
+    it('maps answer indexes to letters', () => {
+      expect([0, 1, 2, 3].map(answerLetter)).toEqual(['A', 'B', 'C', 'D']);
+    });
+  });
+});
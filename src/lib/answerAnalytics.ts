@@ -0,0 +1,260 @@
+/**
+ * Answer Analytics
+ * ================
+ *
+ * Item analysis for the question pools: which answer learners pick on their
+ * first try, how often that's right, whether strong learners beat weak ones
+ * (discrimination), and how long the question takes. Questions that look
+ * broken or misleading are flagged so explanation writers know where to focus.
+ *
+ * The counts come from the `get_question_answer_stats` RPC (first-try answers
+ * per question and learner ability group) and `get_question_time_stats`
+ * (median time from question_attempt events).
+ */
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** First tries needed before a question's numbers are trusted enough to flag */
+export const MIN_FLAG_ATTEMPTS = 20;
+
+/** Upper and lower groups each need this many first tries to report discrimination */
+export const MIN_GROUP_ATTEMPTS = 5;
+
+/** First-try correct rate below this is unusually hard */
+export const HARD_CORRECT_RATE = 0.4;
+
+/** A distractor drawing this share of first tries catches most learners */
+export const STRONG_DISTRACTOR_SHARE = 0.5;
+
+/** Discrimination below this means strong learners don't do better than weak ones */
+export const LOW_DISCRIMINATION = 0;
+
+const ANSWER_COUNT = 4;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Row from get_question_answer_stats */
+export interface AnswerStatRow {
+  question_id: string;
+  selected_answer: number;
+  /** 'upper' | 'middle' | 'lower' | 'unranked' */
+  ability_group: string;
+  attempts: number;
+}
+
+/** Row from get_question_time_stats */
+export interface TimeStatRow {
+  question_id: string;
+  timed_attempts: number;
+  median_time_ms: number;
+}
+
+export interface AnalyticsQuestion {
+  id: string;
+  display_name: string;
+  subelement: string;
+  correct_answer: number;
+}
+
+export type AnalyticsFlag = 'hard' | 'strong-distractor' | 'low-discrimination';
+
+export interface QuestionAnalytics {
+  questionId: string;
+  displayName: string;
+  subelement: string;
+  correctAnswer: number;
+  /** First tries across all learners */
+  attempts: number;
+  /** First tries per answer choice (A-D) */
+  choiceCounts: number[];
+  firstTryCorrectRate: number | null;
+  /** Most-picked wrong answer and its share of first tries */
+  topDistractor: { answer: number; share: number } | null;
+  /** Upper-group correct rate minus lower-group correct rate (-1 to 1) */
+  discrimination: number | null;
+  medianTimeMs: number | null;
+  flags: AnalyticsFlag[];
+}
+
+export interface SubelementAnalytics {
+  subelement: string;
+  questionCount: number;
+  attempts: number;
+  choiceCounts: number[];
+  firstTryCorrectRate: number | null;
+  /** Mean discrimination of questions that have one */
+  meanDiscrimination: number | null;
+  /** Median of the questions' median times */
+  medianTimeMs: number | null;
+  flaggedCount: number;
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+function correctRate(counts: { correct: number; total: number }): number | null {
+  return counts.total > 0 ? counts.correct / counts.total : null;
+}
+
+/** Letter for a 0-3 answer index */
+export function answerLetter(answer: number): string {
+  return String.fromCharCode(65 + answer);
+}
+
+// =============================================================================
+// Analysis
+// =============================================================================
+
+/**
+ * Per-question item analysis. Questions with no attempts are included with
+ * null rates so the table covers the whole pool.
+ */
+export function buildQuestionAnalytics(
+  questions: AnalyticsQuestion[],
+  answerRows: AnswerStatRow[],
+  timeRows: TimeStatRow[]
+): QuestionAnalytics[] {
+  const rowsByQuestion = new Map<string, AnswerStatRow[]>();
+  for (const row of answerRows) {
+    const rows = rowsByQuestion.get(row.question_id) ?? [];
+    rows.push(row);
+    rowsByQuestion.set(row.question_id, rows);
+  }
+  const timeByQuestion = new Map(timeRows.map((row) => [row.question_id, row]));
+
+  return questions.map((question) => {
+    const choiceCounts = new Array(ANSWER_COUNT).fill(0);
+    const groups: Record<'upper' | 'lower', { correct: number; total: number }> = {
+      upper: { correct: 0, total: 0 },
+      lower: { correct: 0, total: 0 },
+    };
+
+    for (const row of rowsByQuestion.get(question.id) ?? []) {
+      const count = Number(row.attempts);
+      if (row.selected_answer >= 0 && row.selected_answer < ANSWER_COUNT) {
+        choiceCounts[row.selected_answer] += count;
+      }
+      if (row.ability_group === 'upper' || row.ability_group === 'lower') {
+        groups[row.ability_group].total += count;
+        if (row.selected_answer === question.correct_answer) {
+          groups[row.ability_group].correct += count;
+        }
+      }
+    }
+
+    const attempts = choiceCounts.reduce((sum, n) => sum + n, 0);
+    const firstTryCorrectRate = correctRate({ correct: choiceCounts[question.correct_answer] ?? 0, total: attempts });
+
+    let topDistractor: QuestionAnalytics['topDistractor'] = null;
+    for (let answer = 0; answer < ANSWER_COUNT; answer++) {
+      const count = choiceCounts[answer];
+      if (answer === question.correct_answer || count === 0) continue;
+      if (!topDistractor || count / attempts > topDistractor.share) {
+        topDistractor = { answer, share: count / attempts };
+      }
+    }
+
+    const discrimination =
+      groups.upper.total >= MIN_GROUP_ATTEMPTS && groups.lower.total >= MIN_GROUP_ATTEMPTS
+        ? correctRate(groups.upper) - correctRate(groups.lower)
+        : null;
+
+    const time = timeByQuestion.get(question.id);
+    const medianTimeMs = time ? Number(time.median_time_ms) : null;
+
+    const flags: AnalyticsFlag[] = [];
+    if (attempts >= MIN_FLAG_ATTEMPTS) {
+      if (firstTryCorrectRate < HARD_CORRECT_RATE) flags.push('hard');
+      if (
+        topDistractor &&
+        (topDistractor.share >= STRONG_DISTRACTOR_SHARE || topDistractor.share > firstTryCorrectRate)
+      ) {
+        flags.push('strong-distractor');
+      }
+      if (discrimination !== null && discrimination < LOW_DISCRIMINATION) {
+        flags.push('low-discrimination');
+      }
+    }
+
+    return {
+      questionId: question.id,
+      displayName: question.display_name,
+      subelement: question.subelement,
+      correctAnswer: question.correct_answer,
+      attempts,
+      choiceCounts,
+      firstTryCorrectRate,
+      topDistractor,
+      discrimination,
+      medianTimeMs,
+      flags,
+    };
+  });
+}
+
+/**
+ * Roll question analytics up to subelements, sorted by subelement code.
+ */
+export function summarizeSubelements(questions: QuestionAnalytics[]): SubelementAnalytics[] {
+  const bySubelement = new Map<string, QuestionAnalytics[]>();
+  for (const q of questions) {
+    const list = bySubelement.get(q.subelement) ?? [];
+    list.push(q);
+    bySubelement.set(q.subelement, list);
+  }
+
+  return [...bySubelement.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([subelement, list]) => {
+      const choiceCounts = new Array(ANSWER_COUNT).fill(0);
+      let attempts = 0;
+      let correct = 0;
+      for (const q of list) {
+        q.choiceCounts.forEach((count, i) => (choiceCounts[i] += count));
+        attempts += q.attempts;
+        correct += q.choiceCounts[q.correctAnswer] ?? 0;
+      }
+
+      const discriminations = list.map((q) => q.discrimination).filter((d): d is number => d !== null);
+
+      return {
+        subelement,
+        questionCount: list.length,
+        attempts,
+        choiceCounts,
+        firstTryCorrectRate: correctRate({ correct, total: attempts }),
+        meanDiscrimination:
+          discriminations.length > 0
+            ? discriminations.reduce((sum, d) => sum + d, 0) / discriminations.length
+            : null,
+        medianTimeMs: median(list.map((q) => q.medianTimeMs).filter((t): t is number => t !== null)),
+        flaggedCount: list.filter((q) => q.flags.length > 0).length,
+      };
+    });
+}
+
+/**
+ * Order for the review table: flagged questions first, then hardest first,
+ * with unattempted questions last.
+ */
+export function compareForReview(a: QuestionAnalytics, b: QuestionAnalytics): number {
+  if (a.flags.length !== b.flags.length) return b.flags.length - a.flags.length;
+  if (a.firstTryCorrectRate === null || b.firstTryCorrectRate === null) {
+    if (a.firstTryCorrectRate === b.firstTryCorrectRate) return a.displayName.localeCompare(b.displayName);
+    return a.firstTryCorrectRate === null ? 1 : -1;
+  }
+  if (a.firstTryCorrectRate !== b.firstTryCorrectRate) return a.firstTryCorrectRate - b.firstTryCorrectRate;
+  return a.displayName.localeCompare(b.displayName);
+}
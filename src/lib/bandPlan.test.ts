@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BAND_PLAN,
+  LICENSE_CLASSES,
+  SIXTY_METER_CHANNELS,
+  checkTransmit,
+  findBand,
+  formatFrequency,
+  formatRange,
+  hasPrivileges,
+  parseFrequency,
+  questionsForBand,
+  segmentsForClass,
+} from './bandPlan';
+
+const band = (id: string) => BAND_PLAN.find((b) => b.id === id)!;
+
+const question = (id: string, text: string, correct: string, wrong = 'Nothing') => ({
+  id,
+  displayName: id,
+  question: text,
+  options: { A: correct, B: wrong, C: wrong, D: wrong },
+  correctAnswer: 'A',
+});
+
+describe('BAND_PLAN', () => {
+  it('keeps bands in frequency order without overlaps', () => {
+    for (let i = 1; i < BAND_PLAN.length; i++) {
+      expect(BAND_PLAN[i].startKHz).toBeGreaterThan(BAND_PLAN[i - 1].endKHz);
+    }
+  });
+
+  it('keeps every segment inside its band', () => {
+    for (const b of BAND_PLAN) {
+      for (const s of b.segments) {
+        expect(s.startKHz).toBeLessThan(s.endKHz);
+        expect(s.startKHz).toBeGreaterThanOrEqual(b.startKHz);
+        expect(s.endKHz).toBeLessThanOrEqual(b.endKHz);
+        expect(s.classes.length).toBeGreaterThan(0);
+        expect(s.modes.length).toBeGreaterThan(0);
+      }
+    }
+  });
+
+  it('gives Extra operators every band General operators can use', () => {
+    for (const b of BAND_PLAN) {
+      if (hasPrivileges(b, 'general')) expect(hasPrivileges(b, 'extra')).toBe(true);
+    }
+  });
+
+  it('keeps Technicians off 160, 60, 30, 20, 17 and 12 meters', () => {
+    const none = BAND_PLAN.filter((b) => !hasPrivileges(b, 'technician')).map((b) => b.id);
+    expect(none).toEqual(['160m', '60m', '30m', '20m', '17m', '12m']);
+  });
+
+  it('models 60 meters as five 2.8 kHz channels', () => {
+    const sixty = band('60m');
+    expect(sixty.segments).toHaveLength(SIXTY_METER_CHANNELS.length);
+    sixty.segments.forEach((s) => {
+      expect(s.endKHz - s.startKHz).toBeCloseTo(2.8);
+      expect(s.maxPowerWatts).toBe(100);
+    });
+  });
+});
+
+describe('segmentsForClass', () => {
+  it('returns the Technician CW segment on 40 meters', () => {
+    expect(segmentsForClass(band('40m'), 'technician')).toEqual([
+      expect.objectContaining({ startKHz: 7025, endKHz: 7125, modes: ['cw'], maxPowerWatts: 200 }),
+    ]);
+  });
+});
+
+describe('findBand', () => {
+  it('finds the band containing a frequency, edges included', () => {
+    expect(findBand(14000)?.id).toBe('20m');
+    expect(findBand(14350)?.id).toBe('20m');
+    expect(findBand(146520)?.id).toBe('2m');
+    expect(findBand(14351)).toBeNull();
+  });
+});
+
+describe('checkTransmit', () => {
+  it('allows General phone on the upper part of 20 meters', () => {
+    const result = checkTransmit(14250, 'phone', 'general');
+    expect(result.allowed).toBe(true);
+    expect(result.band?.id).toBe('20m');
+    expect(result.rule).toBe('General operators may use Phone on 14.225–14.350 MHz at up to 1500 W PEP.');
+    expect(result.warning).toBeUndefined();
+  });
+
+  it('sends General operators out of the Extra phone segment', () => {
+    const result = checkTransmit(14175, 'phone', 'general');
+    expect(result.allowed).toBe(false);
+    expect(result.rule).toBe('14.150–14.225 MHz requires Amateur Extra privileges.');
+  });
+
+  it('explains mode restrictions within a class segment', () => {
+    const result = checkTransmit(7050, 'phone', 'technician');
+    expect(result.allowed).toBe(false);
+    expect(result.rule).toBe('7.025–7.125 MHz is CW only for Technician operators.');
+  });
+
+  it('applies the 200 W limit to Technician HF privileges', () => {
+    const result = checkTransmit(28400, 'phone', 'technician');
+    expect(result.allowed).toBe(true);
+    expect(result.segment?.maxPowerWatts).toBe(200);
+    expect(result.rule).toContain('200 W PEP');
+  });
+
+  it('reports bands with no privileges for the class', () => {
+    const result = checkTransmit(14250, 'phone', 'technician');
+    expect(result.allowed).toBe(false);
+    expect(result.rule).toBe('Technician operators have no privileges on 20 meters; General and Amateur Extra required.');
+  });
+
+  it('reports frequencies outside the amateur bands', () => {
+    const result = checkTransmit(27185, 'phone', 'extra');
+    expect(result).toMatchObject({ allowed: false, band: null });
+    expect(result.rule).toBe('27.185 MHz is outside the US amateur bands.');
+  });
+
+  it('keeps 60 meter operation on the channels', () => {
+    expect(checkTransmit(5332, 'phone', 'general').rule).toContain('100 W ERP');
+    expect(checkTransmit(5340, 'phone', 'general').rule).toBe(
+      '60 meters is channelized; 5.340 MHz is not on one of the five channels.'
+    );
+  });
+
+  it('warns when a phone signal would cross a segment edge', () => {
+    const result = checkTransmit(14348, 'phone', 'extra');
+    expect(result.allowed).toBe(true);
+    expect(result.warning).toContain('segment edge');
+  });
+
+  it('allows CW in the VHF CW-only segments but not phone', () => {
+    expect(checkTransmit(144050, 'cw', 'technician').allowed).toBe(true);
+    expect(checkTransmit(144050, 'phone', 'technician').rule).toBe('144.000–144.100 MHz is CW only for Technician operators.');
+  });
+
+  it('answers for every class at every segment edge', () => {
+    for (const b of BAND_PLAN) {
+      for (const s of b.segments) {
+        for (const licenseClass of LICENSE_CLASSES) {
+          const result = checkTransmit(s.startKHz, s.modes[0], licenseClass);
+          expect(result.band?.id).toBe(b.id);
+          if (s.classes.includes(licenseClass)) expect(result.allowed).toBe(true);
+        }
+      }
+    }
+  });
+});
+
+describe('formatFrequency', () => {
+  it('formats kHz as MHz', () => {
+    expect(formatFrequency(14225)).toBe('14.225 MHz');
+    expect(formatFrequency(5330.6)).toBe('5.3306 MHz');
+    expect(formatRange(7000, 7300)).toBe('7.000–7.300 MHz');
+  });
+});
+
+describe('parseFrequency', () => {
+  it('reads MHz by default and honours units', () => {
+    expect(parseFrequency('14.225')).toBe(14225);
+    expect(parseFrequency('7040 kHz')).toBe(7040);
+    expect(parseFrequency('1.296 GHz')).toBe(1296000);
+    expect(parseFrequency('abc')).toBeNull();
+    expect(parseFrequency('')).toBeNull();
+  });
+});
+
+describe('questionsForBand', () => {
+  const pool = [
+    question('T1B04', 'Which amateur band includes 146.52 MHz?', '2 meters'),
+    question('T1B05', 'How may amateurs use the 219 to 220 MHz segment of the 1.25 meter band?', 'Fixed digital message forwarding'),
+    question('G1A01', 'On which HF and/or MF amateur bands are there portions where General class licensees cannot transmit?', '160, 30, 17, 12 meters'),
+    question('G1A02', 'On which of the following bands is phone operation prohibited?', '30 meters'),
+    question('T1B02', 'Which frequency is in the 6 meter band?', '52.525 MHz', '146.52 MHz'),
+    question('T5A01', 'Electrical current is measured in which of the following units?', 'Amperes', '2 meters'),
+  ];
+
+  it('matches band names in the question or correct answer', () => {
+    expect(questionsForBand(pool, band('30m')).map((q) => q.id)).toEqual(['G1A02']);
+    expect(questionsForBand(pool, band('1.25m')).map((q) => q.id)).toEqual(['T1B05']);
+  });
+
+  it('matches frequencies inside the band', () => {
+    expect(questionsForBand(pool, band('2m')).map((q) => q.id)).toEqual(['T1B04']);
+    expect(questionsForBand(pool, band('6m')).map((q) => q.id)).toEqual(['T1B02']);
+  });
+
+  it('does not confuse 12 meters with 2 meters', () => {
+    expect(questionsForBand(pool, band('12m')).map((q) => q.id)).toEqual(['G1A01']);
+  });
+});
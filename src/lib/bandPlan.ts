@@ -0,0 +1,420 @@
+/**
+ * US amateur band plan: frequency privileges by license class (FCC Part 97,
+ * sections 97.301, 97.305 and 97.313), as drawn on the ARRL US band chart.
+ *
+ * Frequencies are in kHz so segment edges compare exactly. Each segment is a
+ * range where one set of license classes may use one set of modes at one
+ * power limit. Segments for different classes may overlap, e.g. the
+ * Technician CW segment on 80 meters sits inside the General/Extra CW and
+ * data segment. Grandfathered Novice and Advanced privileges are not listed.
+ */
+
+import { testTypes, type TestType } from '@/types/navigation';
+
+export type LicenseClass = TestType;
+
+/** Emission groups as the band chart uses them. Data includes RTTY. */
+export type BandMode = 'cw' | 'data' | 'phone' | 'image';
+
+export const LICENSE_CLASSES: LicenseClass[] = ['technician', 'general', 'extra'];
+export const BAND_MODES: BandMode[] = ['cw', 'data', 'phone', 'image'];
+
+export const LICENSE_CLASS_LABELS = Object.fromEntries(
+  testTypes.map((t) => [t.id, t.name])
+) as Record<LicenseClass, string>;
+
+export const BAND_MODE_LABELS: Record<BandMode, string> = {
+  cw: 'CW',
+  data: 'RTTY/data',
+  phone: 'Phone',
+  image: 'Image',
+};
+
+export interface BandSegment {
+  startKHz: number;
+  endKHz: number;
+  classes: LicenseClass[];
+  modes: BandMode[];
+  /** Peak envelope power, except on 60 meters where the limit is ERP */
+  maxPowerWatts: number;
+  note?: string;
+}
+
+export interface Band {
+  /** Stable id, e.g. "20m" or "70cm" */
+  id: string;
+  name: string;
+  startKHz: number;
+  endKHz: number;
+  segments: BandSegment[];
+  /** Band-wide rules worth showing with the chart */
+  notes?: string[];
+  /** 60 meters is five fixed channels rather than a continuous band */
+  channelized?: boolean;
+}
+
+/**
+ * Question groups covering frequency privileges in each pool, used to drill
+ * band questions from the explorer.
+ */
+export const PRIVILEGE_QUESTION_GROUPS: Record<LicenseClass, string> = {
+  technician: 'T1B',
+  general: 'G1A',
+  extra: 'E1A',
+};
+
+/** Maximum power on most bands (97.313) */
+export const MAX_POWER_WATTS = 1500;
+/** Technician HF segments and 30 meters */
+export const LIMITED_POWER_WATTS = 200;
+
+const ALL_CLASSES: LicenseClass[] = ['technician', 'general', 'extra'];
+const GENERAL_UP: LicenseClass[] = ['general', 'extra'];
+const EXTRA_ONLY: LicenseClass[] = ['extra'];
+const CW_DATA: BandMode[] = ['cw', 'data'];
+const CW_PHONE_IMAGE: BandMode[] = ['cw', 'phone', 'image'];
+const ALL_MODES: BandMode[] = ['cw', 'data', 'phone', 'image'];
+
+const segment = (
+  startKHz: number,
+  endKHz: number,
+  classes: LicenseClass[],
+  modes: BandMode[],
+  maxPowerWatts = MAX_POWER_WATTS,
+  note?: string
+): BandSegment => ({ startKHz, endKHz, classes, modes, maxPowerWatts, ...(note ? { note } : {}) });
+
+const roundKHz = (kHz: number) => Math.round(kHz * 10) / 10;
+
+/** 60 meter channel centers in kHz; each channel is 2.8 kHz wide */
+export const SIXTY_METER_CHANNELS = [5332, 5348, 5358.5, 5373, 5405];
+
+export const BAND_PLAN: Band[] = [
+  {
+    id: '160m',
+    name: '160 meters',
+    startKHz: 1800,
+    endKHz: 2000,
+    segments: [segment(1800, 2000, GENERAL_UP, ALL_MODES)],
+  },
+  {
+    id: '80m',
+    name: '80 meters',
+    startKHz: 3500,
+    endKHz: 4000,
+    segments: [
+      segment(3500, 3525, EXTRA_ONLY, CW_DATA),
+      segment(3525, 3600, GENERAL_UP, CW_DATA),
+      segment(3525, 3600, ['technician'], ['cw'], LIMITED_POWER_WATTS),
+      segment(3600, 3800, EXTRA_ONLY, CW_PHONE_IMAGE),
+      segment(3800, 4000, GENERAL_UP, CW_PHONE_IMAGE),
+    ],
+  },
+  {
+    id: '60m',
+    name: '60 meters',
+    startKHz: 5330.5,
+    endKHz: 5406.4,
+    channelized: true,
+    segments: SIXTY_METER_CHANNELS.map((center) =>
+      segment(roundKHz(center - 1.4), roundKHz(center + 1.4), GENERAL_UP, ['cw', 'data', 'phone'], 100, 'Upper sideband for phone; CW and data centered on the channel')
+    ),
+    notes: [
+      'Five fixed channels, secondary to government users',
+      '100 W ERP referenced to a dipole',
+      'One signal per channel, 2.8 kHz maximum bandwidth',
+    ],
+  },
+  {
+    id: '40m',
+    name: '40 meters',
+    startKHz: 7000,
+    endKHz: 7300,
+    segments: [
+      segment(7000, 7025, EXTRA_ONLY, CW_DATA),
+      segment(7025, 7125, GENERAL_UP, CW_DATA),
+      segment(7025, 7125, ['technician'], ['cw'], LIMITED_POWER_WATTS),
+      segment(7125, 7175, EXTRA_ONLY, CW_PHONE_IMAGE),
+      segment(7175, 7300, GENERAL_UP, CW_PHONE_IMAGE),
+    ],
+  },
+  {
+    id: '30m',
+    name: '30 meters',
+    startKHz: 10100,
+    endKHz: 10150,
+    segments: [segment(10100, 10150, GENERAL_UP, CW_DATA, LIMITED_POWER_WATTS)],
+    notes: ['No phone or image; secondary allocation'],
+  },
+  {
+    id: '20m',
+    name: '20 meters',
+    startKHz: 14000,
+    endKHz: 14350,
+    segments: [
+      segment(14000, 14025, EXTRA_ONLY, CW_DATA),
+      segment(14025, 14150, GENERAL_UP, CW_DATA),
+      segment(14150, 14225, EXTRA_ONLY, CW_PHONE_IMAGE),
+      segment(14225, 14350, GENERAL_UP, CW_PHONE_IMAGE),
+    ],
+  },
+  {
+    id: '17m',
+    name: '17 meters',
+    startKHz: 18068,
+    endKHz: 18168,
+    segments: [
+      segment(18068, 18110, GENERAL_UP, CW_DATA),
+      segment(18110, 18168, GENERAL_UP, CW_PHONE_IMAGE),
+    ],
+  },
+  {
+    id: '15m',
+    name: '15 meters',
+    startKHz: 21000,
+    endKHz: 21450,
+    segments: [
+      segment(21000, 21025, EXTRA_ONLY, CW_DATA),
+      segment(21025, 21200, GENERAL_UP, CW_DATA),
+      segment(21025, 21200, ['technician'], ['cw'], LIMITED_POWER_WATTS),
+      segment(21200, 21275, EXTRA_ONLY, CW_PHONE_IMAGE),
+      segment(21275, 21450, GENERAL_UP, CW_PHONE_IMAGE),
+    ],
+  },
+  {
+    id: '12m',
+    name: '12 meters',
+    startKHz: 24890,
+    endKHz: 24990,
+    segments: [
+      segment(24890, 24930, GENERAL_UP, CW_DATA),
+      segment(24930, 24990, GENERAL_UP, CW_PHONE_IMAGE),
+    ],
+  },
+  {
+    id: '10m',
+    name: '10 meters',
+    startKHz: 28000,
+    endKHz: 29700,
+    segments: [
+      segment(28000, 28300, GENERAL_UP, CW_DATA),
+      segment(28000, 28300, ['technician'], CW_DATA, LIMITED_POWER_WATTS),
+      segment(28300, 29700, GENERAL_UP, CW_PHONE_IMAGE),
+      segment(28300, 28500, ['technician'], ['cw', 'phone'], LIMITED_POWER_WATTS, 'Technician phone is SSB only'),
+    ],
+  },
+  {
+    id: '6m',
+    name: '6 meters',
+    startKHz: 50000,
+    endKHz: 54000,
+    segments: [
+      segment(50000, 50100, ALL_CLASSES, ['cw']),
+      segment(50100, 54000, ALL_CLASSES, ALL_MODES),
+    ],
+  },
+  {
+    id: '2m',
+    name: '2 meters',
+    startKHz: 144000,
+    endKHz: 148000,
+    segments: [
+      segment(144000, 144100, ALL_CLASSES, ['cw']),
+      segment(144100, 148000, ALL_CLASSES, ALL_MODES),
+    ],
+  },
+  {
+    id: '1.25m',
+    name: '1.25 meters',
+    startKHz: 222000,
+    endKHz: 225000,
+    segments: [segment(222000, 225000, ALL_CLASSES, ALL_MODES)],
+  },
+  {
+    id: '70cm',
+    name: '70 centimeters',
+    startKHz: 420000,
+    endKHz: 450000,
+    segments: [segment(420000, 450000, ALL_CLASSES, ALL_MODES)],
+    notes: ['Secondary allocation; power limits apply near some military radars'],
+  },
+  {
+    id: '33cm',
+    name: '33 centimeters',
+    startKHz: 902000,
+    endKHz: 928000,
+    segments: [segment(902000, 928000, ALL_CLASSES, ALL_MODES)],
+    notes: ['Shared with ISM devices and location services'],
+  },
+  {
+    id: '23cm',
+    name: '23 centimeters',
+    startKHz: 1240000,
+    endKHz: 1300000,
+    segments: [segment(1240000, 1300000, ALL_CLASSES, ALL_MODES)],
+  },
+];
+
+/** "14.225 MHz", with extra precision only where a frequency needs it */
+export function formatFrequency(kHz: number): string {
+  const decimals = Number.isInteger(kHz) ? 3 : 4;
+  return `${(kHz / 1000).toFixed(decimals)} MHz`;
+}
+
+export function formatRange(startKHz: number, endKHz: number): string {
+  return `${formatFrequency(startKHz).replace(' MHz', '')}–${formatFrequency(endKHz)}`;
+}
+
+export function findBand(kHz: number): Band | null {
+  return BAND_PLAN.find((band) => kHz >= band.startKHz && kHz <= band.endKHz) ?? null;
+}
+
+/** Segments a license class may use on a band */
+export function segmentsForClass(band: Band, licenseClass: LicenseClass): BandSegment[] {
+  return band.segments.filter((s) => s.classes.includes(licenseClass));
+}
+
+/** Whether a class has any privileges on a band */
+export function hasPrivileges(band: Band, licenseClass: LicenseClass): boolean {
+  return segmentsForClass(band, licenseClass).length > 0;
+}
+
+/** Signal width assumed when warning about band edges */
+const TYPICAL_BANDWIDTH_KHZ: Record<BandMode, number> = {
+  cw: 0.15,
+  data: 0.5,
+  phone: 3,
+  image: 3,
+};
+
+export interface TransmitCheck {
+  allowed: boolean;
+  band: Band | null;
+  /** The segment that permits (or, when not allowed, covers) the frequency */
+  segment: BandSegment | null;
+  /** The rule that applies, as a sentence */
+  rule: string;
+  /** Extra caution, e.g. sidebands spilling past a segment edge */
+  warning?: string;
+}
+
+const joinWords = (words: string[]) =>
+  words.length <= 1 ? words.join('') : `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+
+const modeList = (modes: BandMode[]) => joinWords(modes.map((m) => BAND_MODE_LABELS[m]));
+
+const classList = (classes: LicenseClass[]) =>
+  joinWords(LICENSE_CLASSES.filter((c) => classes.includes(c)).map((c) => LICENSE_CLASS_LABELS[c]));
+
+/**
+ * Answer "where can I transmit?" for a carrier frequency, mode and license
+ * class, naming the rule that decides it. Segment edges are inclusive; a
+ * warning is added when a typical signal would reach past the edge.
+ */
+export function checkTransmit(kHz: number, mode: BandMode, licenseClass: LicenseClass): TransmitCheck {
+  const label = LICENSE_CLASS_LABELS[licenseClass];
+  const where = formatFrequency(kHz);
+  const band = findBand(kHz);
+
+  if (!Number.isFinite(kHz) || !band) {
+    return { allowed: false, band: null, segment: null, rule: `${where} is outside the US amateur bands.` };
+  }
+
+  const covering = band.segments.filter((s) => kHz >= s.startKHz && kHz <= s.endKHz);
+  if (covering.length === 0) {
+    return {
+      allowed: false,
+      band,
+      segment: null,
+      rule: band.channelized
+        ? `${band.name} is channelized; ${where} is not on one of the five channels.`
+        : `${where} is not in an amateur segment of ${band.name}.`,
+    };
+  }
+
+  const permitting = covering.find((s) => s.classes.includes(licenseClass) && s.modes.includes(mode));
+  if (permitting) {
+    const range = formatRange(permitting.startKHz, permitting.endKHz);
+    const power = band.channelized ? `${permitting.maxPowerWatts} W ERP` : `${permitting.maxPowerWatts} W PEP`;
+    const margin = TYPICAL_BANDWIDTH_KHZ[mode];
+    const nearEdge = kHz - permitting.startKHz < margin || permitting.endKHz - kHz < margin;
+    return {
+      allowed: true,
+      band,
+      segment: permitting,
+      rule: `${label} operators may use ${BAND_MODE_LABELS[mode]} on ${range} at up to ${power}.`,
+      ...(nearEdge && !band.channelized
+        ? { warning: `You're within ${margin} kHz of the segment edge. Keep the whole signal, including sidebands, inside ${range}.` }
+        : {}),
+    };
+  }
+
+  const forClass = covering.find((s) => s.classes.includes(licenseClass));
+  if (forClass) {
+    return {
+      allowed: false,
+      band,
+      segment: forClass,
+      rule: `${formatRange(forClass.startKHz, forClass.endKHz)} is ${modeList(forClass.modes)} only for ${label} operators.`,
+    };
+  }
+
+  const withMode = covering.filter((s) => s.modes.includes(mode));
+  const others = [...new Set((withMode.length > 0 ? withMode : covering).flatMap((s) => s.classes))];
+  const shown = withMode[0] ?? covering[0];
+  return {
+    allowed: false,
+    band,
+    segment: shown,
+    rule: hasPrivileges(band, licenseClass)
+      ? `${formatRange(shown.startKHz, shown.endKHz)} requires ${classList(others)} privileges.`
+      : `${label} operators have no privileges on ${band.name}; ${classList(others)} required.`,
+  };
+}
+
+/** Minimal question shape for matching band questions */
+export interface BandQuestion {
+  id: string;
+  displayName: string;
+  question: string;
+  options: Record<string, string>;
+  correctAnswer: string;
+}
+
+const FREQUENCY_PATTERN = /(\d+(?:\.\d+)?)\s*(kHz|MHz|GHz)\b/gi;
+const UNIT_KHZ: Record<string, number> = { khz: 1, mhz: 1000, ghz: 1000000 };
+
+function bandNamePattern(band: Band): RegExp {
+  const [value, unit] = band.name.split(' ');
+  const escaped = value.replace('.', '\\.');
+  const units = unit === 'meters' ? 'meters?' : '(?:centimeters?|cm)';
+  return new RegExp(`(?:^|[^\\d.])${escaped}[- ]?${units}\\b`, 'i');
+}
+
+/**
+ * Pool questions about a band: the question or its correct answer names the
+ * band ("20-meter band") or a frequency inside it. Wrong answers are ignored,
+ * since they often list frequencies from other bands as distractors.
+ */
+export function questionsForBand<T extends BandQuestion>(questions: T[], band: Band): T[] {
+  const namePattern = bandNamePattern(band);
+
+  return questions.filter((q) => {
+    const text = `${q.question} ${q.options[q.correctAnswer] ?? ''}`;
+    if (namePattern.test(text)) return true;
+
+    for (const match of text.matchAll(FREQUENCY_PATTERN)) {
+      const kHz = Number(match[1]) * UNIT_KHZ[match[2].toLowerCase()];
+      if (kHz >= band.startKHz && kHz <= band.endKHz) return true;
+    }
+    return false;
+  });
+}
+
+/** Parse a frequency typed as MHz ("14.225"), or with a kHz/MHz/GHz unit */
+export function parseFrequency(input: string): number | null {
+  const match = input.trim().match(/^(\d+(?:\.\d+)?)\s*(khz|mhz|ghz)?$/i);
+  if (!match) return null;
+  const kHz = Number(match[1]) * UNIT_KHZ[(match[2] ?? 'mhz').toLowerCase()];
+  return Number.isFinite(kHz) ? Math.round(kHz * 1000) / 1000 : null;
+}
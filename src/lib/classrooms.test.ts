@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeJoinCode,
+  isValidJoinCode,
+  describeDueDate,
+  getOpenAssignments,
+} from './classrooms';
+
+describe('normalizeJoinCode', () => {
+  it('upper-cases and strips spaces and dashes', () => {
+    expect(normalizeJoinCode(' ab3-k7 x ')).toBe('AB3K7X');
+  });
+});
+
+describe('isValidJoinCode', () => {
+  it('accepts six characters from the join code alphabet', () => {
+    expect(isValidJoinCode('ab3k7x')).toBe(true);
+  });
+
+  it('rejects the wrong length or look-alike characters', () => {
+    expect(isValidJoinCode('AB3K7')).toBe(false);
+    expect(isValidJoinCode('AB3K7XY')).toBe(false);
+    expect(isValidJoinCode('AB0K7X')).toBe(false);
+    expect(isValidJoinCode('ABIK7X')).toBe(false);
+  });
+});
+
+describe('describeDueDate', () => {
+  const today = new Date(2026, 9, 18, 15, 30);
+
+  it('labels today and tomorrow as due soon', () => {
+    expect(describeDueDate('2026-10-18', today)).toEqual({ status: 'due-soon', daysLeft: 0, label: 'Due today' });
+    expect(describeDueDate('2026-10-19', today)).toEqual({ status: 'due-soon', daysLeft: 1, label: 'Due tomorrow' });
+  });
+
+  it('counts days until later due dates', () => {
+    expect(describeDueDate('2026-10-21', today)).toMatchObject({ status: 'due-soon', label: 'Due in 3 days' });
+    expect(describeDueDate('2026-10-25', today)).toMatchObject({ status: 'upcoming', label: 'Due in 7 days' });
+  });
+
+  it('marks past due dates as overdue', () => {
+    expect(describeDueDate('2026-10-17', today)).toEqual({ status: 'overdue', daysLeft: -1, label: 'Overdue by 1 day' });
+    expect(describeDueDate('2026-10-15', today).label).toBe('Overdue by 3 days');
+  });
+});
+
+describe('getOpenAssignments', () => {
+  const assignment = (id: string, due_date: string, target: { lesson?: string; topic?: string }) => ({
+    id,
+    due_date,
+    lesson: target.lesson ? { id: target.lesson } : null,
+    topic: target.topic ? { id: target.topic } : null,
+  });
+
+  it('drops completed lessons and topics and sorts by due date', () => {
+    const open = getOpenAssignments(
+      [
+        assignment('a1', '2026-10-25', { topic: 't1' }),
+        assignment('a2', '2026-10-20', { lesson: 'l1' }),
+        assignment('a3', '2026-10-19', { topic: 't2' }),
+        assignment('a4', '2026-10-18', { lesson: 'l2' }),
+      ],
+      new Set(['l2']),
+      new Set(['t2'])
+    );
+
+    expect(open.map((a) => a.id)).toEqual(['a2', 'a1']);
+  });
+
+  it('drops assignments whose lesson or topic is not visible', () => {
+    expect(getOpenAssignments([assignment('a1', '2026-10-20', {})], new Set(), new Set())).toEqual([]);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Classroom helpers
+ *
+ * Join codes are six characters from an alphabet without look-alikes (see
+ * generate_classroom_join_code in the classrooms migration). Students often
+ * type them from a whiteboard, so input is normalized before it's sent.
+ */
+
+import { daysUntilExam } from '@/lib/examSessionSearch';
+
+export const JOIN_CODE_LENGTH = 6;
+
+/** Characters generate_classroom_join_code draws from */
+const JOIN_CODE_PATTERN = /^[ABCDEFGHJKMNPQRSTUVWXYZ23456789]{6}$/;
+
+/** An assignment due within this many days is shown as due soon */
+export const DUE_SOON_DAYS = 3;
+
+/** Upper-case a typed join code and drop spaces and dashes */
+export function normalizeJoinCode(input: string): string {
+  return input.toUpperCase().replace(/[\s-]/g, '');
+}
+
+export function isValidJoinCode(input: string): boolean {
+  return JOIN_CODE_PATTERN.test(normalizeJoinCode(input));
+}
+
+export type DueStatus = 'overdue' | 'due-soon' | 'upcoming';
+
+export interface DueDateInfo {
+  status: DueStatus;
+  /** Whole days until the due date (negative once overdue) */
+  daysLeft: number;
+  label: string;
+}
+
+/**
+ * Describe an assignment's YYYY-MM-DD due date relative to today.
+ */
+export function describeDueDate(dueDate: string, today: Date = new Date()): DueDateInfo {
+  const daysLeft = daysUntilExam(dueDate, today);
+
+  if (daysLeft < 0) {
+    const late = -daysLeft;
+    return { status: 'overdue', daysLeft, label: `Overdue by ${late} day${late !== 1 ? 's' : ''}` };
+  }
+  if (daysLeft === 0) return { status: 'due-soon', daysLeft, label: 'Due today' };
+  if (daysLeft === 1) return { status: 'due-soon', daysLeft, label: 'Due tomorrow' };
+
+  return {
+    status: daysLeft <= DUE_SOON_DAYS ? 'due-soon' : 'upcoming',
+    daysLeft,
+    label: `Due in ${daysLeft} days`,
+  };
+}
+
+interface AssignmentTarget {
+  due_date: string;
+  lesson: { id: string } | null;
+  topic: { id: string } | null;
+}
+
+/**
+ * Assignments the student still has to do, soonest due first.
+ *
+ * Assignments whose lesson or topic the student has completed are dropped,
+ * as are ones whose lesson or topic they can't see (e.g. unpublished since
+ * it was assigned).
+ */
+export function getOpenAssignments<T extends AssignmentTarget>(
+  assignments: T[],
+  completedLessonIds: ReadonlySet<string>,
+  completedTopicIds: ReadonlySet<string>
+): T[] {
+  return assignments
+    .filter((a) => {
+      if (a.lesson) return !completedLessonIds.has(a.lesson.id);
+      if (a.topic) return !completedTopicIds.has(a.topic.id);
+      return false;
+    })
+    .sort((a, b) => a.due_date.localeCompare(b.due_date));
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { diffRevisionContent, needsForumResync, revisionFieldLabel } from './contentRevisions';
+
+const question = {
+  question: 'What is the unit of current?',
+  options: ['Volt', 'Ampere', 'Ohm', 'Watt'],
+  correct_answer: 1,
+  explanation: 'Current is measured in amperes.',
+  figure_url: null,
+  forum_url: 'https://forum.openhamprep.com/t/t5a01/42',
+  arrl_chapter_id: null,
+  arrl_page_reference: null,
+};
+
+describe('diffRevisionContent', () => {
+  it('returns nothing for identical content', () => {
+    expect(diffRevisionContent('question', question, { ...question })).toEqual([]);
+  });
+
+  it('lists changed fields in display order', () => {
+    const diffs = diffRevisionContent('question', question, {
+      ...question,
+      explanation: 'Current is measured in amps.',
+      question: 'What is the unit of electrical current?',
+    });
+
+    expect(diffs.map((d) => d.label)).toEqual(['Question', 'Explanation']);
+    expect(diffs[1]).toEqual({
+      field: 'explanation',
+      label: 'Explanation',
+      before: 'Current is measured in amperes.',
+      after: 'Current is measured in amps.',
+    });
+  });
+
+  it('compares options one by one and shows the answer as a letter', () => {
+    const diffs = diffRevisionContent('question', question, {
+      ...question,
+      options: ['Volt', 'Ampere', 'Ohm', 'Farad'],
+      correct_answer: 3,
+    });
+
+    expect(diffs).toEqual([
+      { field: 'options.3', label: 'Option D', before: 'Watt', after: 'Farad' },
+      { field: 'correct_answer', label: 'Correct answer', before: 'B', after: 'D' },
+    ]);
+  });
+
+  it('treats null and empty text as the same', () => {
+    expect(diffRevisionContent('question', question, { ...question, figure_url: '' })).toEqual([]);
+  });
+
+  it('shows IDs through display names when known', () => {
+    const diffs = diffRevisionContent(
+      'tool',
+      { title: 'Calc', description: 'd', url: 'https://a', category_id: 'c1' },
+      { title: 'Calc', description: 'd', url: 'https://a', category_id: 'c2' },
+      { c1: 'Antennas' }
+    );
+
+    expect(diffs).toEqual([{ field: 'category_id', label: 'Category', before: 'Antennas', after: 'c2' }]);
+  });
+});
+
+describe('revisionFieldLabel', () => {
+  it('labels known fields and falls back to the column name', () => {
+    expect(revisionFieldLabel('glossary_term', 'definition')).toBe('Definition');
+    expect(revisionFieldLabel('glossary_term', 'other')).toBe('other');
+  });
+});
+
+describe('needsForumResync', () => {
+  const restored = { entity_type: 'question', changed_fields: ['explanation'], content: question };
+
+  it('is true when a question explanation with a forum topic changed', () => {
+    expect(needsForumResync(restored)).toBe(true);
+  });
+
+  it('is false without a forum topic or an explanation change', () => {
+    expect(needsForumResync({ ...restored, content: { ...question, forum_url: null } })).toBe(false);
+    expect(needsForumResync({ ...restored, changed_fields: ['question'] })).toBe(false);
+    expect(needsForumResync({ ...restored, entity_type: 'glossary_term' })).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Helpers for content_revisions: snapshots of the versioned fields of a
+ * question, glossary term or tool, written by a database trigger on every
+ * change (see supabase/migrations/20260628000000_add_content_revisions.sql).
+ */
+
+export type ContentEntityType = 'question' | 'glossary_term' | 'tool';
+
+/** Versioned field snapshot as stored in content_revisions.content */
+export type RevisionContent = Record<string, unknown>;
+
+/** One field that differs between two revisions, as display strings */
+export interface RevisionFieldDiff {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+// Versioned fields in display order. Mirrors content_revision_fields() in SQL.
+const FIELD_LABELS: Record<ContentEntityType, Record<string, string>> = {
+  question: {
+    question: 'Question',
+    options: 'Options',
+    correct_answer: 'Correct answer',
+    explanation: 'Explanation',
+    figure_url: 'Figure',
+    forum_url: 'Forum topic',
+    arrl_chapter_id: 'ARRL chapter',
+    arrl_page_reference: 'Page reference',
+  },
+  glossary_term: {
+    term: 'Term',
+    definition: 'Definition',
+  },
+  tool: {
+    title: 'Title',
+    description: 'Description',
+    url: 'URL',
+    category_id: 'Category',
+  },
+};
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D'];
+
+function toText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+/**
+ * Display label for a versioned field (falls back to the column name).
+ */
+export function revisionFieldLabel(entityType: ContentEntityType, field: string): string {
+  return FIELD_LABELS[entityType][field] ?? field;
+}
+
+/**
+ * Field-by-field differences between two revisions, in display order.
+ * Question options are compared one by one and the correct answer is shown
+ * as a letter. IDs (chapter, category) are shown through `displayNames`
+ * when the caller knows them.
+ */
+export function diffRevisionContent(
+  entityType: ContentEntityType,
+  before: RevisionContent,
+  after: RevisionContent,
+  displayNames: Record<string, string> = {}
+): RevisionFieldDiff[] {
+  const diffs: RevisionFieldDiff[] = [];
+
+  for (const [field, label] of Object.entries(FIELD_LABELS[entityType])) {
+    if (entityType === 'question' && field === 'options') {
+      const beforeOptions = Array.isArray(before.options) ? before.options : [];
+      const afterOptions = Array.isArray(after.options) ? after.options : [];
+      const count = Math.max(beforeOptions.length, afterOptions.length);
+      for (let i = 0; i < count; i++) {
+        const from = toText(beforeOptions[i]);
+        const to = toText(afterOptions[i]);
+        if (from !== to) {
+          diffs.push({
+            field: `options.${i}`,
+            label: `Option ${OPTION_LETTERS[i] ?? i + 1}`,
+            before: from,
+            after: to,
+          });
+        }
+      }
+      continue;
+    }
+
+    let from = toText(before[field]);
+    let to = toText(after[field]);
+    if (from === to) continue;
+
+    if (entityType === 'question' && field === 'correct_answer') {
+      from = OPTION_LETTERS[Number(before[field])] ?? from;
+      to = OPTION_LETTERS[Number(after[field])] ?? to;
+    } else if (field.endsWith('_id')) {
+      from = displayNames[from] ?? from;
+      to = displayNames[to] ?? to;
+    }
+
+    diffs.push({ field, label, before: from, after: to });
+  }
+
+  return diffs;
+}
+
+/**
+ * Whether restoring a revision changed a question explanation that is
+ * mirrored in a forum post, so the post needs rewriting.
+ */
+export function needsForumResync(revision: {
+  entity_type: string;
+  changed_fields: string[];
+  content: RevisionContent;
+}): boolean {
+  return (
+    revision.entity_type === 'question' &&
+    revision.changed_fields.includes('explanation') &&
+    typeof revision.content.forum_url === 'string' &&
+    revision.content.forum_url !== ''
+  );
+}
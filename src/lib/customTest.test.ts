@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  customTestDistribution,
+  customTestResultType,
+  deleteRecipe,
+  filterCustomTestQuestions,
+  loadSavedRecipes,
+  normalizeRecipe,
+  recipeFromSearchParams,
+  recipeToSearchParams,
+  saveRecipe,
+  selectCustomTestQuestions,
+  type CustomTestRecipe,
+} from './customTest';
+import type { Question } from '@/hooks/useQuestions';
+
+function question(displayName: string, figureUrl: string | null = null): Question {
+  return {
+    id: `id-${displayName}`,
+    displayName,
+    question: `${displayName}?`,
+    options: { A: 'a', B: 'b', C: 'c', D: 'd' },
+    correctAnswer: 'A',
+    subelement: displayName.slice(0, 2),
+    group: displayName.slice(0, 3),
+    links: [],
+    explanation: null,
+    figureUrl,
+  } as Question;
+}
+
+const noProgress = { seen: new Set<string>(), weak: new Set<string>(), bookmarked: new Set<string>() };
+
+const recipe: CustomTestRecipe = {
+  name: 'Rules review',
+  testType: 'technician',
+  scope: ['T1', 'T5A'],
+  questionCount: 20,
+  filters: ['weak'],
+};
+
+describe('customTestResultType', () => {
+  it('keeps custom results apart from the exam test type', () => {
+    expect(customTestResultType('general')).toBe('custom_general');
+  });
+});
+
+describe('filterCustomTestQuestions', () => {
+  const questions = [
+    question('T1A01'),
+    question('T1B02', 'https://example.com/t1.png'),
+    question('T5A03'),
+    question('T5B04'),
+  ];
+
+  it('matches subelements and question groups in scope', () => {
+    const result = filterCustomTestQuestions(questions, { scope: ['T1', 'T5A'], filters: [] }, noProgress);
+
+    expect(result.map((q) => q.displayName)).toEqual(['T1A01', 'T1B02', 'T5A03']);
+  });
+
+  it('uses the whole pool when the scope is empty', () => {
+    expect(filterCustomTestQuestions(questions, { scope: [], filters: [] }, noProgress)).toHaveLength(4);
+  });
+
+  it('combines filters with AND', () => {
+    const progress = {
+      seen: new Set(['id-T1A01', 'id-T1B02']),
+      weak: new Set(['id-T1B02']),
+      bookmarked: new Set(['id-T1B02', 'id-T5A03']),
+    };
+
+    const byName = (filters: CustomTestRecipe['filters']) =>
+      filterCustomTestQuestions(questions, { scope: [], filters }, progress).map((q) => q.displayName);
+
+    expect(byName(['never-seen'])).toEqual(['T5A03', 'T5B04']);
+    expect(byName(['bookmarked'])).toEqual(['T1B02', 'T5A03']);
+    expect(byName(['bookmarked', 'never-seen'])).toEqual(['T5A03']);
+    expect(byName(['weak', 'figures'])).toEqual(['T1B02']);
+    expect(byName(['weak', 'never-seen'])).toEqual([]);
+  });
+});
+
+describe('customTestDistribution', () => {
+  it('splits the count by exam weights among subelements with candidates', () => {
+    // Technician weights: T1 6, T5 4
+    const candidates = [question('T1A01'), question('T5A01')];
+
+    expect(customTestDistribution(candidates, 10, 'technician')).toEqual({ T1: 6, T5: 4 });
+    expect(customTestDistribution(candidates, 5, 'technician')).toEqual({ T1: 3, T5: 2 });
+  });
+
+  it('always adds up to the question count', () => {
+    const candidates = ['T1', 'T2', 'T3', 'T4', 'T5', 'T6', 'T7', 'T8', 'T9', 'T0'].map((s) => question(`${s}A01`));
+    const distribution = customTestDistribution(candidates, 17, 'technician');
+
+    expect(Object.values(distribution).reduce((sum, n) => sum + n, 0)).toBe(17);
+  });
+
+  it('is empty without candidates', () => {
+    expect(customTestDistribution([], 10, 'technician')).toEqual({});
+  });
+});
+
+describe('selectCustomTestQuestions', () => {
+  it('draws the requested number of questions from the candidates', () => {
+    const candidates = Array.from({ length: 30 }, (_, i) => question(`T1${'ABCDEF'[i % 6]}${String(i).padStart(2, '0')}`));
+
+    const selected = selectCustomTestQuestions(candidates, { testType: 'technician', questionCount: 12 });
+
+    expect(selected).toHaveLength(12);
+    expect(new Set(selected.map((q) => q.id)).size).toBe(12);
+    // One per group before any group repeats
+    expect(new Set(selected.map((q) => q.group)).size).toBe(6);
+  });
+
+  it('uses every candidate when there are fewer than requested', () => {
+    const candidates = [question('T1A01'), question('T2A01'), question('T3A01')];
+
+    expect(selectCustomTestQuestions(candidates, { testType: 'technician', questionCount: 20 })).toHaveLength(3);
+  });
+});
+
+describe('normalizeRecipe', () => {
+  it('drops scope entries and filters that do not belong to the exam', () => {
+    const normalized = normalizeRecipe({
+      ...recipe,
+      scope: ['T5A', 'G1', 'T1', 'T1', 'bogus'],
+      filters: ['weak', 'unknown' as never],
+    });
+
+    expect(normalized).toEqual({ ...recipe, scope: ['T1', 'T5A'], filters: ['weak'] });
+  });
+
+  it('clamps the question count', () => {
+    expect(normalizeRecipe({ ...recipe, questionCount: 1 })?.questionCount).toBe(5);
+    expect(normalizeRecipe({ ...recipe, questionCount: 500 })?.questionCount).toBe(100);
+  });
+
+  it('rejects unknown exams and counts', () => {
+    expect(normalizeRecipe({ ...recipe, testType: 'novice' as never })).toBeNull();
+    expect(normalizeRecipe({ ...recipe, questionCount: Number.NaN })).toBeNull();
+    expect(normalizeRecipe(null)).toBeNull();
+  });
+});
+
+describe('recipe search params', () => {
+  it('round-trips a recipe through the URL', () => {
+    const params = recipeToSearchParams(recipe);
+
+    expect(params.get('view')).toBe('custom-test');
+    expect(params.toString()).toBe('view=custom-test&exam=technician&scope=T1%2CT5A&count=20&only=weak&name=Rules+review');
+    expect(recipeFromSearchParams(params)).toEqual(recipe);
+  });
+
+  it('returns null without an exam', () => {
+    expect(recipeFromSearchParams(new URLSearchParams('view=custom-test&count=20'))).toBeNull();
+  });
+
+  it('accepts lowercase scope entries', () => {
+    const parsed = recipeFromSearchParams(new URLSearchParams('exam=general&scope=g2,g5b&count=10'));
+
+    expect(parsed).toEqual({ name: '', testType: 'general', scope: ['G2', 'G5B'], questionCount: 10, filters: [] });
+  });
+});
+
+describe('saved recipes', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('saves recipes most recent first, replacing one with the same name', () => {
+    saveRecipe(recipe);
+    saveRecipe({ ...recipe, name: 'Figures', filters: ['figures'] });
+    saveRecipe({ ...recipe, questionCount: 35 });
+
+    expect(loadSavedRecipes().map((r) => [r.name, r.questionCount])).toEqual([
+      ['Rules review', 35],
+      ['Figures', 20],
+    ]);
+  });
+
+  it('deletes a recipe by name', () => {
+    saveRecipe(recipe);
+
+    expect(deleteRecipe('Rules review')).toEqual([]);
+    expect(loadSavedRecipes()).toEqual([]);
+  });
+
+  it('ignores corrupt storage', () => {
+    localStorage.setItem('customTestRecipes', '{not json');
+
+    expect(loadSavedRecipes()).toEqual([]);
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * Custom practice tests: a learner-built recipe of subelements or question
+ * groups, a question count and filters, drawn with the same per-group
+ * selection as a full exam. Recipes can be saved on the device and shared
+ * as a dashboard URL.
+ *
+ * Results are stored with a `custom_<exam>` test_type so test history and
+ * readiness, which match the exam's own test_type, keep them apart from
+ * full-length practice exams.
+ */
+
+import type { Question } from '@/hooks/useQuestions';
+import { examDistribution, type TestType } from '@/types/navigation';
+import { selectExamQuestions } from './examQuestions';
+import { getTestTypePrefix } from './testTypeUtils';
+import { safeGetItem, safeSetItem } from './localStorage';
+
+export type CustomTestFilter = 'never-seen' | 'weak' | 'bookmarked' | 'figures';
+
+export interface CustomTestRecipe {
+  name: string;
+  testType: TestType;
+  /** Subelements (T1) and/or question groups (T5A); empty means the whole pool */
+  scope: string[];
+  questionCount: number;
+  /** Every filter must match (they combine with AND) */
+  filters: CustomTestFilter[];
+}
+
+/** What the learner has done with each question, by question id */
+export interface CustomTestProgress {
+  seen: Set<string>;
+  weak: Set<string>;
+  bookmarked: Set<string>;
+}
+
+export const CUSTOM_TEST_FILTERS: { id: CustomTestFilter; label: string; description: string }[] = [
+  { id: 'never-seen', label: 'Only never-seen', description: "Questions you haven't answered yet" },
+  { id: 'weak', label: 'Only weak', description: 'Questions you keep getting wrong' },
+  { id: 'bookmarked', label: 'Only bookmarked', description: 'Questions you saved for later' },
+  { id: 'figures', label: 'Figures only', description: 'Questions that use a diagram' },
+];
+
+export const CUSTOM_TEST_QUESTION_COUNTS = [10, 20, 35, 50] as const;
+export const MIN_CUSTOM_TEST_QUESTIONS = 5;
+export const MAX_CUSTOM_TEST_QUESTIONS = 100;
+
+const SAVED_RECIPES_KEY = 'customTestRecipes';
+const MAX_RECIPE_NAME_LENGTH = 60;
+const FILTER_IDS = new Set<string>(CUSTOM_TEST_FILTERS.map((f) => f.id));
+const TEST_TYPES: TestType[] = ['technician', 'general', 'extra'];
+
+/** practice_test_results.test_type for a custom test of an exam */
+export function customTestResultType(testType: TestType): string {
+  return `custom_${testType}`;
+}
+
+/** Whether a scope entry is a subelement (T1) or question group (T5A) of the exam */
+export function isValidScopeEntry(entry: string, testType: TestType): boolean {
+  return new RegExp(`^${getTestTypePrefix(testType)}\\d[A-Z]?$`).test(entry);
+}
+
+function inScope(question: Question, scope: string[]): boolean {
+  if (scope.length === 0) return true;
+  return scope.some((entry) =>
+    entry.length === 2 ? question.subelement === entry : question.group === entry
+  );
+}
+
+/**
+ * Questions matching a recipe's scope and every one of its filters.
+ */
+export function filterCustomTestQuestions(
+  questions: Question[],
+  recipe: Pick<CustomTestRecipe, 'scope' | 'filters'>,
+  progress: CustomTestProgress
+): Question[] {
+  return questions.filter((q) => {
+    if (!inScope(q, recipe.scope)) return false;
+    return recipe.filters.every((filter) => {
+      switch (filter) {
+        case 'never-seen':
+          return !progress.seen.has(q.id);
+        case 'weak':
+          return progress.weak.has(q.id);
+        case 'bookmarked':
+          return progress.bookmarked.has(q.id);
+        case 'figures':
+          return !!q.figureUrl;
+      }
+    });
+  });
+}
+
+/**
+ * Questions per subelement for a custom test, proportional to the exam's
+ * own subelement weights among the subelements that have candidates.
+ * Remainders go to the subelements with the largest fractional share.
+ */
+export function customTestDistribution(
+  candidates: Pick<Question, 'subelement'>[],
+  questionCount: number,
+  testType: TestType
+): Record<string, number> {
+  const weights = examDistribution[testType];
+  const present = [...new Set(candidates.map((q) => q.subelement))].filter((s) => weights[s]);
+  const totalWeight = present.reduce((sum, s) => sum + weights[s], 0);
+  if (totalWeight === 0) return {};
+
+  const shares = present.map((subelement) => {
+    const exact = (questionCount * weights[subelement]) / totalWeight;
+    return { subelement, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let left = questionCount - shares.reduce((sum, s) => sum + s.count, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (left <= 0) break;
+    share.count++;
+    left--;
+  }
+
+  return Object.fromEntries(shares.map((s) => [s.subelement, s.count]));
+}
+
+/**
+ * Draw a custom test from the matching questions, one per question group
+ * within each subelement where possible, like a real exam.
+ */
+export function selectCustomTestQuestions(
+  candidates: Question[],
+  recipe: Pick<CustomTestRecipe, 'testType' | 'questionCount'>,
+  poolVersion?: string
+): Question[] {
+  const count = Math.min(recipe.questionCount, candidates.length);
+  return selectExamQuestions(
+    candidates,
+    count,
+    customTestDistribution(candidates, count, recipe.testType),
+    poolVersion
+  );
+}
+
+/**
+ * Check and tidy a recipe from an untrusted source (URL or storage).
+ * Returns null if it can't be used.
+ */
+export function normalizeRecipe(recipe: Partial<CustomTestRecipe> | null | undefined): CustomTestRecipe | null {
+  if (!recipe || !TEST_TYPES.includes(recipe.testType as TestType)) return null;
+  const testType = recipe.testType as TestType;
+
+  const count = Math.round(Number(recipe.questionCount));
+  if (!Number.isFinite(count)) return null;
+
+  const scope = Array.isArray(recipe.scope) ? recipe.scope : [];
+  const filters = Array.isArray(recipe.filters) ? recipe.filters : [];
+
+  return {
+    name: typeof recipe.name === 'string' ? recipe.name.trim().slice(0, MAX_RECIPE_NAME_LENGTH) : '',
+    testType,
+    scope: [...new Set(scope.filter((entry) => typeof entry === 'string' && isValidScopeEntry(entry, testType)))].sort(),
+    questionCount: Math.min(MAX_CUSTOM_TEST_QUESTIONS, Math.max(MIN_CUSTOM_TEST_QUESTIONS, count)),
+    filters: [...new Set(filters.filter((f): f is CustomTestFilter => FILTER_IDS.has(f)))],
+  };
+}
+
+/**
+ * Dashboard search params that open the builder with a recipe, e.g.
+ * `?view=custom-test&exam=technician&scope=T1,T5A&count=20&only=weak`.
+ */
+export function recipeToSearchParams(recipe: CustomTestRecipe): URLSearchParams {
+  const params = new URLSearchParams({ view: 'custom-test', exam: recipe.testType });
+  if (recipe.scope.length > 0) params.set('scope', recipe.scope.join(','));
+  params.set('count', String(recipe.questionCount));
+  if (recipe.filters.length > 0) params.set('only', recipe.filters.join(','));
+  if (recipe.name) params.set('name', recipe.name);
+  return params;
+}
+
+/** The recipe in a shared URL, or null if there isn't a usable one */
+export function recipeFromSearchParams(params: URLSearchParams): CustomTestRecipe | null {
+  if (!params.has('exam')) return null;
+  const list = (key: string) => params.get(key)?.split(',').filter(Boolean) ?? [];
+
+  return normalizeRecipe({
+    name: params.get('name') ?? '',
+    testType: params.get('exam') as TestType,
+    scope: list('scope').map((entry) => entry.toUpperCase()),
+    questionCount: Number(params.get('count') ?? 20),
+    filters: list('only') as CustomTestFilter[],
+  });
+}
+
+/** Recipes saved on this device, most recent first */
+export function loadSavedRecipes(): CustomTestRecipe[] {
+  try {
+    const parsed: unknown = JSON.parse(safeGetItem(SAVED_RECIPES_KEY) ?? '[]');
+    if (!Array.isArray(parsed)) return [];
+    return parsed
+      .map((recipe) => normalizeRecipe(recipe))
+      .filter((recipe): recipe is CustomTestRecipe => recipe !== null && recipe.name !== '');
+  } catch {
+    return [];
+  }
+}
+
+/** Save a named recipe, replacing any saved recipe with the same name */
+export function saveRecipe(recipe: CustomTestRecipe): CustomTestRecipe[] {
+  const recipes = [recipe, ...loadSavedRecipes().filter((r) => r.name !== recipe.name)];
+  safeSetItem(SAVED_RECIPES_KEY, JSON.stringify(recipes));
+  return recipes;
+}
+
+export function deleteRecipe(name: string): CustomTestRecipe[] {
+  const recipes = loadSavedRecipes().filter((r) => r.name !== name);
+  safeSetItem(SAVED_RECIPES_KEY, JSON.stringify(recipes));
+  return recipes;
+}
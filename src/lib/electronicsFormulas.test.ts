@@ -0,0 +1,213 @@
+import { describe, it, expect } from 'vitest';
+import {
+  FORMULA_MODES,
+  applyPrefix,
+  formatEngineering,
+  formatVariableValue,
+  getFormulaMode,
+  type FormulaResult,
+} from './electronicsFormulas';
+
+function expectOk(result: FormulaResult) {
+  if (!result.ok) throw new Error(`Expected success, got: ${JSON.stringify(result)}`);
+  return result;
+}
+
+describe('electronicsFormulas', () => {
+  describe('applyPrefix', () => {
+    it('scales values from pico through giga', () => {
+      expect(applyPrefix(100, 'p')).toBeCloseTo(100e-12);
+      expect(applyPrefix(10, 'µ')).toBeCloseTo(10e-6);
+      expect(applyPrefix(4.7, 'k')).toBe(4700);
+      expect(applyPrefix(14.2, 'M')).toBeCloseTo(14.2e6);
+      expect(applyPrefix(2.4, 'G')).toBeCloseTo(2.4e9);
+    });
+
+    it('leaves base units alone', () => {
+      expect(applyPrefix(50, '')).toBe(50);
+    });
+  });
+
+  describe('formatEngineering', () => {
+    it('picks the prefix that keeps the mantissa between 1 and 1000', () => {
+      expect(formatEngineering(0.0000047, 'F')).toBe('4.7 µF');
+      expect(formatEngineering(4700, 'Ω')).toBe('4.7 kΩ');
+      expect(formatEngineering(14_200_000, 'Hz')).toBe('14.2 MHz');
+      expect(formatEngineering(0.25, 'A')).toBe('250 mA');
+    });
+
+    it('carries a rounded 1000 up to the next prefix', () => {
+      expect(formatEngineering(999_999, 'Hz')).toBe('1 MHz');
+    });
+
+    it('handles zero, negatives and infinity', () => {
+      expect(formatEngineering(0, 'V')).toBe('0 V');
+      expect(formatEngineering(-0.012, 'V')).toBe('-12 mV');
+      expect(formatEngineering(Infinity, 'Ω')).toBe('∞ Ω');
+    });
+
+    it('stays within pico and giga', () => {
+      expect(formatEngineering(1e-15, 'F')).toBe('0.001 pF');
+      expect(formatEngineering(5e12, 'Hz')).toBe('5000 GHz');
+    });
+  });
+
+  describe('formatVariableValue', () => {
+    it('does not prefix decibels or ratios', () => {
+      const decibels = getFormulaMode('decibels');
+      const swr = getFormulaMode('swr');
+
+      expect(formatVariableValue(decibels.outputs[0], 3.0103)).toBe('3.01 dB');
+      expect(formatVariableValue(swr.outputs[0], 4)).toBe('4');
+    });
+  });
+
+  describe("Ohm's law", () => {
+    const mode = getFormulaMode('ohms-law');
+
+    it('solves current and power from voltage and resistance', () => {
+      const result = expectOk(mode.solve({ voltage: 12, resistance: 6 }));
+
+      expect(result.outputs.current).toBe(2);
+      expect(result.outputs.power).toBe(24);
+      expect(result.steps).toContain('I = 12 V / 6 Ω = 2 A');
+    });
+
+    it('solves voltage and current from power and resistance', () => {
+      const result = expectOk(mode.solve({ power: 100, resistance: 50 }));
+
+      expect(result.outputs.voltage).toBeCloseTo(70.71, 2);
+      expect(result.outputs.current).toBeCloseTo(1.414, 3);
+    });
+
+    it('solves from voltage and current', () => {
+      const result = expectOk(mode.solve({ voltage: 13.8, current: 0.5 }));
+
+      expect(result.outputs.resistance).toBeCloseTo(27.6);
+      expect(result.outputs.power).toBeCloseTo(6.9);
+    });
+
+    it('solves from voltage and power', () => {
+      const result = expectOk(mode.solve({ voltage: 120, power: 1200 }));
+
+      expect(result.outputs.current).toBe(10);
+      expect(result.outputs.resistance).toBe(12);
+    });
+
+    it('solves from current and resistance, and current and power', () => {
+      expect(expectOk(mode.solve({ current: 0.2, resistance: 1000 })).outputs.voltage).toBeCloseTo(200);
+      expect(expectOk(mode.solve({ current: 2, power: 8 })).outputs.resistance).toBe(2);
+    });
+
+    it('needs exactly two known values', () => {
+      expect(mode.solve({ voltage: 12 })).toEqual({ ok: false, error: 'Enter exactly two values' });
+      expect(mode.solve({ voltage: 12, current: 1, resistance: 12 })).toEqual({
+        ok: false,
+        error: 'Enter exactly two values',
+      });
+    });
+
+    it('rejects values that would divide by zero', () => {
+      expect(mode.solve({ voltage: 12, current: 0 }).ok).toBe(false);
+      expect(mode.solve({ voltage: 12, resistance: 0 }).ok).toBe(false);
+    });
+  });
+
+  describe('reactance', () => {
+    it('computes inductive reactance', () => {
+      // G5A: 2 µH at 14 MHz
+      const result = expectOk(
+        getFormulaMode('inductive-reactance').solve({ frequency: 14e6, inductance: 2e-6 })
+      );
+
+      expect(result.outputs.reactance).toBeCloseTo(175.9, 1);
+      expect(result.steps[1]).toBe('X_L = 2π × 14 MHz × 2 µH');
+      expect(result.steps[2]).toBe('X_L = 175.9 Ω');
+    });
+
+    it('computes capacitive reactance', () => {
+      const result = expectOk(
+        getFormulaMode('capacitive-reactance').solve({ frequency: 3.5e6, capacitance: 100e-12 })
+      );
+
+      expect(result.outputs.reactance).toBeCloseTo(454.7, 1);
+    });
+
+    it('rejects zero frequency', () => {
+      const result = getFormulaMode('capacitive-reactance').solve({ frequency: 0, capacitance: 1e-9 });
+
+      expect(result).toEqual({ ok: false, error: 'Values must be greater than zero' });
+    });
+  });
+
+  describe('resonance', () => {
+    it('computes the resonant frequency of an LC circuit', () => {
+      // E5A: 50 µH and 40 pF resonate near 3.56 MHz
+      const result = expectOk(getFormulaMode('resonance').solve({ inductance: 50e-6, capacitance: 40e-12 }));
+
+      expect(result.outputs.frequency / 1e6).toBeCloseTo(3.559, 3);
+      expect(result.steps[2]).toBe('f = 3.559 MHz');
+    });
+
+    it('asks for missing inputs', () => {
+      expect(getFormulaMode('resonance').solve({ inductance: 1e-6 })).toEqual({
+        ok: false,
+        error: 'Enter inductance and capacitance',
+      });
+    });
+  });
+
+  describe('decibels', () => {
+    it('computes gain from a power ratio', () => {
+      const result = expectOk(getFormulaMode('decibels').solve({ powerIn: 5, powerOut: 50 }));
+
+      expect(result.outputs.gain).toBeCloseTo(10);
+    });
+
+    it('reports loss as negative decibels', () => {
+      const result = expectOk(getFormulaMode('decibels').solve({ powerIn: 100, powerOut: 50 }));
+
+      expect(result.outputs.gain).toBeCloseTo(-3.01, 2);
+    });
+
+    it('links to the decibel questions in T5 and G5', () => {
+      expect(getFormulaMode('decibels').subelements).toEqual({ technician: 'T5', general: 'G5' });
+    });
+  });
+
+  describe('SWR', () => {
+    it('divides the larger impedance by the smaller', () => {
+      const mode = getFormulaMode('swr');
+
+      expect(expectOk(mode.solve({ lineImpedance: 50, loadImpedance: 200 })).outputs.swr).toBe(4);
+      expect(expectOk(mode.solve({ lineImpedance: 50, loadImpedance: 10 })).outputs.swr).toBe(5);
+      expect(expectOk(mode.solve({ lineImpedance: 50, loadImpedance: 200 })).steps[2]).toBe('SWR = 4:1');
+    });
+  });
+
+  describe('wavelength', () => {
+    it('uses 300 / f in MHz', () => {
+      const result = expectOk(getFormulaMode('wavelength').solve({ frequency: 146e6 }));
+
+      expect(result.outputs.wavelength).toBeCloseTo(2.055, 3);
+      expect(result.steps[1]).toBe('λ = 300 / 146');
+    });
+  });
+
+  describe('mode metadata', () => {
+    it('maps every mode to pool subelements for the matching exam', () => {
+      for (const mode of FORMULA_MODES) {
+        const entries = Object.entries(mode.subelements);
+        expect(entries.length).toBeGreaterThan(0);
+        for (const [testType, subelement] of entries) {
+          expect(subelement?.[0]).toBe({ technician: 'T', general: 'G', extra: 'E' }[testType]);
+        }
+      }
+    });
+
+    it('throws for unknown modes', () => {
+      // @ts-expect-error - testing an invalid id
+      expect(() => getFormulaMode('nope')).toThrow('Unknown formula mode: nope');
+    });
+  });
+});
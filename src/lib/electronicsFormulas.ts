@@ -0,0 +1,431 @@
+import type { TestType } from "@/types/navigation";
+
+/**
+ * Electronics formula engine for the calculator's guided modes.
+ *
+ * Covers the math that shows up across the pools: Ohm's law and power,
+ * reactance, resonance, decibels, SWR and wavelength. Every solver returns
+ * the worked steps alongside the answer so learners can follow the method
+ * they'll need on exam day (without a calculator mode to lean on).
+ */
+
+export type UnitPrefix = "p" | "n" | "µ" | "m" | "" | "k" | "M" | "G";
+
+export interface UnitPrefixInfo {
+  symbol: UnitPrefix;
+  name: string;
+  exponent: number;
+}
+
+/** SI prefixes from pico through giga, smallest first */
+export const UNIT_PREFIXES: UnitPrefixInfo[] = [
+  { symbol: "p", name: "pico", exponent: -12 },
+  { symbol: "n", name: "nano", exponent: -9 },
+  { symbol: "µ", name: "micro", exponent: -6 },
+  { symbol: "m", name: "milli", exponent: -3 },
+  { symbol: "", name: "", exponent: 0 },
+  { symbol: "k", name: "kilo", exponent: 3 },
+  { symbol: "M", name: "mega", exponent: 6 },
+  { symbol: "G", name: "giga", exponent: 9 },
+];
+
+export type FormulaModeId =
+  | "ohms-law"
+  | "inductive-reactance"
+  | "capacitive-reactance"
+  | "resonance"
+  | "decibels"
+  | "swr"
+  | "wavelength";
+
+export interface FormulaVariable {
+  key: string;
+  /** Symbol shown in formulas and steps, e.g. "X_L" */
+  symbol: string;
+  label: string;
+  /** Base unit, e.g. "Ω"; empty for unitless values */
+  unit: string;
+  /** Prefix pre-selected in the input, matching how the pools state values */
+  defaultPrefix: UnitPrefix;
+  /** Unitless values (ratios, dB) take no prefix */
+  prefixable: boolean;
+}
+
+export type FormulaResult =
+  | { ok: true; outputs: Record<string, number>; steps: string[] }
+  | { ok: false; error: string };
+
+export interface FormulaMode {
+  id: FormulaModeId;
+  name: string;
+  /** Formula as written in study material */
+  formula: string;
+  inputs: FormulaVariable[];
+  /**
+   * Ohm's law solves for whichever two values are missing; every other
+   * mode needs all inputs.
+   */
+  requiredInputs: number;
+  outputs: FormulaVariable[];
+  /** Pool subelement that exercises this formula, per exam */
+  subelements: Partial<Record<TestType, string>>;
+  solve: (inputs: Record<string, number | undefined>) => FormulaResult;
+}
+
+/** Speed of light as the pools round it (300 / f in MHz) */
+const SPEED_OF_LIGHT = 3e8;
+
+/**
+ * Convert a value entered with a prefix to base units.
+ * @example applyPrefix(4.7, "k") // 4700
+ */
+export function applyPrefix(value: number, prefix: UnitPrefix): number {
+  const info = UNIT_PREFIXES.find((p) => p.symbol === prefix);
+  return value * Math.pow(10, info?.exponent ?? 0);
+}
+
+/** Round to significant figures without switching to exponent notation */
+function toSignificant(value: number, digits: number): string {
+  if (value === 0) return "0";
+  return String(parseFloat(value.toPrecision(digits)));
+}
+
+/**
+ * Format a base-unit value with the prefix that keeps the mantissa
+ * between 1 and 1000.
+ * @example formatEngineering(0.0000047, "F") // "4.7 µF"
+ */
+export function formatEngineering(value: number, unit: string, digits = 4): string {
+  if (!Number.isFinite(value)) return `∞ ${unit}`.trim();
+  if (!unit) return toSignificant(value, digits);
+  if (value === 0) return `0 ${unit}`;
+
+  let exponent = Math.min(9, Math.max(-12, Math.floor(Math.log10(Math.abs(value)) / 3) * 3));
+  let mantissa = parseFloat((value / Math.pow(10, exponent)).toPrecision(digits));
+
+  // Rounding can carry 999.96 up to 1000; move to the next prefix
+  if (Math.abs(mantissa) >= 1000 && exponent < 9) {
+    exponent += 3;
+    mantissa = parseFloat((value / Math.pow(10, exponent)).toPrecision(digits));
+  }
+
+  const prefix = UNIT_PREFIXES.find((p) => p.exponent === exponent)!;
+  return `${mantissa} ${prefix.symbol}${unit}`;
+}
+
+function variable(
+  key: string,
+  symbol: string,
+  label: string,
+  unit: string,
+  defaultPrefix: UnitPrefix = ""
+): FormulaVariable {
+  return { key, symbol, label, unit, defaultPrefix, prefixable: unit !== "" && unit !== "dB" };
+}
+
+/**
+ * Format a solved value for display: engineering prefixes for physical
+ * units, plain significant figures for ratios and decibels.
+ */
+export function formatVariableValue(v: FormulaVariable, value: number): string {
+  if (v.prefixable) return formatEngineering(value, v.unit);
+  return `${toSignificant(value, 4)} ${v.unit}`.trim();
+}
+
+function missing(inputs: Record<string, number | undefined>, keys: string[]): string[] {
+  return keys.filter((key) => inputs[key] === undefined || Number.isNaN(inputs[key]));
+}
+
+function fail(error: string): FormulaResult {
+  return { ok: false, error };
+}
+
+const VOLTAGE = variable("voltage", "E", "Voltage", "V");
+const CURRENT = variable("current", "I", "Current", "A");
+const RESISTANCE = variable("resistance", "R", "Resistance", "Ω");
+const POWER = variable("power", "P", "Power", "W");
+
+function solveOhmsLaw(inputs: Record<string, number | undefined>): FormulaResult {
+  const known = [VOLTAGE, CURRENT, RESISTANCE, POWER].filter(
+    (v) => inputs[v.key] !== undefined && !Number.isNaN(inputs[v.key])
+  );
+  if (known.length !== 2) return fail("Enter exactly two values");
+
+  const e = inputs.voltage;
+  const i = inputs.current;
+  const r = inputs.resistance;
+  const p = inputs.power;
+  const fmt = formatEngineering;
+  const has = (...keys: string[]) => keys.every((k) => known.some((v) => v.key === k));
+
+  if (has("resistance") && r <= 0) return fail("Resistance must be greater than zero");
+  if (has("power") && p < 0) return fail("Power cannot be negative");
+
+  if (has("voltage", "current")) {
+    if (i === 0) return fail("Current must not be zero");
+    const R = e / i;
+    const P = e * i;
+    return {
+      ok: true,
+      outputs: { resistance: R, power: P },
+      steps: [
+        "R = E / I",
+        `R = ${fmt(e, "V")} / ${fmt(i, "A")} = ${fmt(R, "Ω")}`,
+        "P = E × I",
+        `P = ${fmt(e, "V")} × ${fmt(i, "A")} = ${fmt(P, "W")}`,
+      ],
+    };
+  }
+  if (has("voltage", "resistance")) {
+    const I = e / r;
+    const P = (e * e) / r;
+    return {
+      ok: true,
+      outputs: { current: I, power: P },
+      steps: [
+        "I = E / R",
+        `I = ${fmt(e, "V")} / ${fmt(r, "Ω")} = ${fmt(I, "A")}`,
+        "P = E² / R",
+        `P = (${fmt(e, "V")})² / ${fmt(r, "Ω")} = ${fmt(P, "W")}`,
+      ],
+    };
+  }
+  if (has("current", "resistance")) {
+    const E = i * r;
+    const P = i * i * r;
+    return {
+      ok: true,
+      outputs: { voltage: E, power: P },
+      steps: [
+        "E = I × R",
+        `E = ${fmt(i, "A")} × ${fmt(r, "Ω")} = ${fmt(E, "V")}`,
+        "P = I² × R",
+        `P = (${fmt(i, "A")})² × ${fmt(r, "Ω")} = ${fmt(P, "W")}`,
+      ],
+    };
+  }
+  if (has("voltage", "power")) {
+    if (e === 0) return fail("Voltage must not be zero");
+    const I = p / e;
+    const R = (e * e) / p;
+    return {
+      ok: true,
+      outputs: { current: I, resistance: R },
+      steps: [
+        "I = P / E",
+        `I = ${fmt(p, "W")} / ${fmt(e, "V")} = ${fmt(I, "A")}`,
+        "R = E² / P",
+        `R = (${fmt(e, "V")})² / ${fmt(p, "W")} = ${fmt(R, "Ω")}`,
+      ],
+    };
+  }
+  if (has("current", "power")) {
+    if (i === 0) return fail("Current must not be zero");
+    const E = p / i;
+    const R = p / (i * i);
+    return {
+      ok: true,
+      outputs: { voltage: E, resistance: R },
+      steps: [
+        "E = P / I",
+        `E = ${fmt(p, "W")} / ${fmt(i, "A")} = ${fmt(E, "V")}`,
+        "R = P / I²",
+        `R = ${fmt(p, "W")} / (${fmt(i, "A")})² = ${fmt(R, "Ω")}`,
+      ],
+    };
+  }
+
+  // resistance + power
+  const E = Math.sqrt(p * r);
+  const I = Math.sqrt(p / r);
+  return {
+    ok: true,
+    outputs: { voltage: E, current: I },
+    steps: [
+      "E = √(P × R)",
+      `E = √(${fmt(p, "W")} × ${fmt(r, "Ω")}) = ${fmt(E, "V")}`,
+      "I = √(P / R)",
+      `I = √(${fmt(p, "W")} / ${fmt(r, "Ω")}) = ${fmt(I, "A")}`,
+    ],
+  };
+}
+
+const FREQUENCY = variable("frequency", "f", "Frequency", "Hz", "M");
+const INDUCTANCE = variable("inductance", "L", "Inductance", "H", "µ");
+const CAPACITANCE = variable("capacitance", "C", "Capacitance", "F", "p");
+
+export const FORMULA_MODES: FormulaMode[] = [
+  {
+    id: "ohms-law",
+    name: "Ohm's Law & Power",
+    formula: "E = I × R,  P = E × I",
+    inputs: [VOLTAGE, CURRENT, RESISTANCE, POWER],
+    requiredInputs: 2,
+    outputs: [VOLTAGE, CURRENT, RESISTANCE, POWER],
+    subelements: { technician: "T5", general: "G5", extra: "E5" },
+    solve: solveOhmsLaw,
+  },
+  {
+    id: "inductive-reactance",
+    name: "Inductive Reactance",
+    formula: "X_L = 2π × f × L",
+    inputs: [FREQUENCY, INDUCTANCE],
+    requiredInputs: 2,
+    outputs: [variable("reactance", "X_L", "Reactance", "Ω")],
+    subelements: { general: "G5", extra: "E5" },
+    solve: (inputs) => {
+      if (missing(inputs, ["frequency", "inductance"]).length) return fail("Enter frequency and inductance");
+      const { frequency: f, inductance: l } = inputs;
+      if (f <= 0 || l <= 0) return fail("Values must be greater than zero");
+      const xl = 2 * Math.PI * f * l;
+      return {
+        ok: true,
+        outputs: { reactance: xl },
+        steps: [
+          "X_L = 2π × f × L",
+          `X_L = 2π × ${formatEngineering(f, "Hz")} × ${formatEngineering(l, "H")}`,
+          `X_L = ${formatEngineering(xl, "Ω")}`,
+        ],
+      };
+    },
+  },
+  {
+    id: "capacitive-reactance",
+    name: "Capacitive Reactance",
+    formula: "X_C = 1 / (2π × f × C)",
+    inputs: [FREQUENCY, CAPACITANCE],
+    requiredInputs: 2,
+    outputs: [variable("reactance", "X_C", "Reactance", "Ω")],
+    subelements: { general: "G5", extra: "E5" },
+    solve: (inputs) => {
+      if (missing(inputs, ["frequency", "capacitance"]).length) return fail("Enter frequency and capacitance");
+      const { frequency: f, capacitance: c } = inputs;
+      if (f <= 0 || c <= 0) return fail("Values must be greater than zero");
+      const xc = 1 / (2 * Math.PI * f * c);
+      return {
+        ok: true,
+        outputs: { reactance: xc },
+        steps: [
+          "X_C = 1 / (2π × f × C)",
+          `X_C = 1 / (2π × ${formatEngineering(f, "Hz")} × ${formatEngineering(c, "F")})`,
+          `X_C = ${formatEngineering(xc, "Ω")}`,
+        ],
+      };
+    },
+  },
+  {
+    id: "resonance",
+    name: "Resonant Frequency",
+    formula: "f = 1 / (2π × √(L × C))",
+    inputs: [INDUCTANCE, CAPACITANCE],
+    requiredInputs: 2,
+    outputs: [FREQUENCY],
+    subelements: { general: "G5", extra: "E5" },
+    solve: (inputs) => {
+      if (missing(inputs, ["inductance", "capacitance"]).length) return fail("Enter inductance and capacitance");
+      const { inductance: l, capacitance: c } = inputs;
+      if (l <= 0 || c <= 0) return fail("Values must be greater than zero");
+      const f = 1 / (2 * Math.PI * Math.sqrt(l * c));
+      return {
+        ok: true,
+        outputs: { frequency: f },
+        steps: [
+          "f = 1 / (2π × √(L × C))",
+          `f = 1 / (2π × √(${formatEngineering(l, "H")} × ${formatEngineering(c, "F")}))`,
+          `f = ${formatEngineering(f, "Hz")}`,
+        ],
+      };
+    },
+  },
+  {
+    id: "decibels",
+    name: "Decibels (Power)",
+    formula: "dB = 10 × log₁₀(P₂ / P₁)",
+    inputs: [
+      variable("powerIn", "P₁", "Reference power", "W"),
+      variable("powerOut", "P₂", "Measured power", "W"),
+    ],
+    requiredInputs: 2,
+    outputs: [variable("gain", "dB", "Gain", "dB")],
+    subelements: { technician: "T5", general: "G5" },
+    solve: (inputs) => {
+      if (missing(inputs, ["powerIn", "powerOut"]).length) return fail("Enter both power levels");
+      const { powerIn: p1, powerOut: p2 } = inputs;
+      if (p1 <= 0 || p2 <= 0) return fail("Power levels must be greater than zero");
+      const ratio = p2 / p1;
+      const db = 10 * Math.log10(ratio);
+      return {
+        ok: true,
+        outputs: { gain: db },
+        steps: [
+          "dB = 10 × log₁₀(P₂ / P₁)",
+          `P₂ / P₁ = ${formatEngineering(p2, "W")} / ${formatEngineering(p1, "W")} = ${toSignificant(ratio, 4)}`,
+          `dB = 10 × log₁₀(${toSignificant(ratio, 4)}) = ${toSignificant(db, 4)} dB`,
+        ],
+      };
+    },
+  },
+  {
+    id: "swr",
+    name: "SWR (Impedance Mismatch)",
+    formula: "SWR = Z_high / Z_low",
+    inputs: [
+      variable("lineImpedance", "Z₀", "Feed line impedance", "Ω"),
+      variable("loadImpedance", "Z_L", "Load impedance", "Ω"),
+    ],
+    requiredInputs: 2,
+    outputs: [variable("swr", "SWR", "SWR", "")],
+    subelements: { general: "G9", extra: "E9" },
+    solve: (inputs) => {
+      if (missing(inputs, ["lineImpedance", "loadImpedance"]).length) return fail("Enter both impedances");
+      const { lineImpedance: z0, loadImpedance: zl } = inputs;
+      if (z0 <= 0 || zl <= 0) return fail("Impedances must be greater than zero");
+      const high = Math.max(z0, zl);
+      const low = Math.min(z0, zl);
+      const swr = high / low;
+      return {
+        ok: true,
+        outputs: { swr },
+        steps: [
+          "SWR = larger impedance / smaller impedance",
+          `SWR = ${formatEngineering(high, "Ω")} / ${formatEngineering(low, "Ω")}`,
+          `SWR = ${toSignificant(swr, 4)}:1`,
+        ],
+      };
+    },
+  },
+  {
+    id: "wavelength",
+    name: "Wavelength",
+    formula: "λ (m) = 300 / f (MHz)",
+    inputs: [FREQUENCY],
+    requiredInputs: 1,
+    outputs: [variable("wavelength", "λ", "Wavelength", "m")],
+    subelements: { technician: "T3", general: "G9" },
+    solve: (inputs) => {
+      if (missing(inputs, ["frequency"]).length) return fail("Enter a frequency");
+      const f = inputs.frequency;
+      if (f <= 0) return fail("Frequency must be greater than zero");
+      const mhz = f / 1e6;
+      const wavelength = SPEED_OF_LIGHT / f;
+      return {
+        ok: true,
+        outputs: { wavelength },
+        steps: [
+          "λ (m) = 300 / f (MHz)",
+          `λ = 300 / ${toSignificant(mhz, 6)}`,
+          `λ = ${formatEngineering(wavelength, "m")}`,
+        ],
+      };
+    },
+  },
+];
+
+/**
+ * Look up a formula mode by id.
+ */
+export function getFormulaMode(id: FormulaModeId): FormulaMode {
+  const mode = FORMULA_MODES.find((m) => m.id === id);
+  if (!mode) throw new Error(`Unknown formula mode: ${id}`);
+  return mode;
+}
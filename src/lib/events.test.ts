@@ -153,7 +153,8 @@ describe('Event System Spec Compliance (docs/event-system.md section 6)', () =>
       'passing_threshold',
       'percentage',
       'duration_seconds',
-      'subelement_breakdown'
+      'subelement_breakdown',
+      'pacing'
     ] as const;
 
     it('has exactly the fields specified in section 6.2', () => {
@@ -171,7 +172,8 @@ describe('Event System Spec Compliance (docs/event-system.md section 6)', () =>
           T1: { correct: 5, total: 6 },
           T2: { correct: 3, total: 3 },
           T5: { correct: 2, total: 4 }
-        }
+        },
+        pacing: null
       };
 
       // Verify all spec fields exist
@@ -199,7 +201,8 @@ describe('Event System Spec Compliance (docs/event-system.md section 6)', () =>
         passing_threshold: 0.74,
         percentage: 80.0,
         duration_seconds: 1847,
-        subelement_breakdown: {}
+        subelement_breakdown: {},
+        pacing: null
       };
 
       // 'passed' must NOT exist
@@ -226,6 +229,15 @@ describe('Event System Spec Compliance (docs/event-system.md section 6)', () =>
           T1: { correct: 5, total: 6 },
           T2: { correct: 3, total: 3 },
           T5: { correct: 2, total: 4 }
+        },
+        pacing: {
+          mode: 'simulation' as const,
+          time_limit_seconds: 2700,
+          timed_out: false,
+          flagged_count: 2,
+          question_time_ms: { 'T1A01': 41200, 'T2B03': 18950 },
+          median_ms: 38100,
+          p90_ms: 96400
         }
       };
 
@@ -239,7 +251,8 @@ describe('Event System Spec Compliance (docs/event-system.md section 6)', () =>
         passing_threshold: docExample.passing_threshold,
         percentage: docExample.percentage,
         duration_seconds: docExample.duration_seconds,
-        subelement_breakdown: docExample.subelement_breakdown
+        subelement_breakdown: docExample.subelement_breakdown,
+        pacing: docExample.pacing
       };
 
       expect(Object.keys(ourPayload).sort()).toEqual(Object.keys(docExample).sort());
@@ -257,6 +270,28 @@ describe('Event System Spec Compliance (docs/event-system.md section 6)', () =>
       expect(breakdown.T2.correct).toBe(3);
       expect(breakdown.T2.total).toBe(3);
     });
+
+    it('pacing has the fields documented in section 6.2', () => {
+      const pacing: NonNullable<PracticeTestCompletedPayload['pacing']> = {
+        mode: 'standard',
+        time_limit_seconds: null,
+        timed_out: false,
+        flagged_count: 0,
+        question_time_ms: { T1A01: 12000 },
+        median_ms: 12000,
+        p90_ms: 12000
+      };
+
+      expect(Object.keys(pacing).sort()).toEqual([
+        'flagged_count',
+        'median_ms',
+        'mode',
+        'p90_ms',
+        'question_time_ms',
+        'time_limit_seconds',
+        'timed_out'
+      ]);
+    });
   });
 
   /**
@@ -270,6 +305,7 @@ describe('Event System Spec Compliance (docs/event-system.md section 6)', () =>
       'exam_type',
       'pool_version',
       'score',
+      'passed',
       'total_questions',
       'passing_threshold',
       'attempt_number',
@@ -294,6 +330,7 @@ describe('Event System Spec Compliance (docs/event-system.md section 6)', () =>
         exam_type: 'technician',
         pool_version: '2022-2026',
         score: 32,
+        passed: true,
         total_questions: 35,
         passing_threshold: 0.74,
         attempt_number: 1,
@@ -355,6 +392,7 @@ describe('Event System Spec Compliance (docs/event-system.md section 6)', () =>
           exam_type: 'technician',
           pool_version: '2022-2026',
           score: 32,
+          passed: true,
           total_questions: 35,
           passing_threshold: 0.74,
           attempt_number: 1,
@@ -373,6 +411,7 @@ describe('Event System Spec Compliance (docs/event-system.md section 6)', () =>
         exam_type: 'technician',
         pool_version: '2022-2026',
         score: null,
+        passed: true,
         total_questions: 35,
         passing_threshold: 0.74,
         attempt_number: 1,
@@ -393,6 +432,7 @@ describe('Event System Spec Compliance (docs/event-system.md section 6)', () =>
         exam_type: 'technician',
         pool_version: '2022-2026',
         score: 32,
+        passed: true,
         total_questions: 35,
         passing_threshold: 0.74,
         attempt_number: 1,
@@ -413,6 +453,7 @@ describe('Event System Spec Compliance (docs/event-system.md section 6)', () =>
         exam_type: docExample.exam_type,
         pool_version: docExample.pool_version,
         score: docExample.score,
+        passed: docExample.passed,
         total_questions: docExample.total_questions,
         passing_threshold: docExample.passing_threshold,
         attempt_number: docExample.attempt_number,
@@ -581,6 +622,103 @@ describe('Event System Spec Compliance (docs/event-system.md section 6)', () =>
       ).resolves.not.toThrow();
     });
 
+    it('recordPracticeTestCompleted records the pool the test was drawn from', async () => {
+      const { supabase } = await import('@/integrations/supabase/client');
+      const insert = vi.fn(() => ({ error: null }));
+      vi.mocked(supabase.from).mockReturnValueOnce({ insert } as unknown as ReturnType<typeof supabase.from>);
+      const { recordPracticeTestCompleted } = await import('./events');
+
+      await recordPracticeTestCompleted({
+        practiceTestId: 'test-id',
+        examType: 'technician',
+        totalQuestions: 35,
+        score: 28,
+        percentage: 80,
+        durationSeconds: 1800,
+        poolVersion: '2026-2030',
+        userId: 'provided-user-id'
+      });
+
+      expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+        payload: expect.objectContaining({ pool_version: '2026-2030' })
+      }));
+    });
+
+    it('replays an offline attempt with its client id and original time', async () => {
+      const { supabase } = await import('@/integrations/supabase/client');
+      const insert = vi.fn(() => ({ error: null }));
+      vi.mocked(supabase.from).mockReturnValueOnce({ insert } as unknown as ReturnType<typeof supabase.from>);
+      const { recordQuestionAttempt } = await import('./events');
+
+      await recordQuestionAttempt({
+        question: { id: 'q-1', displayName: 'T1A01', correctAnswer: 'A', group: 'T1A' } as Question,
+        answerSelected: 0,
+        timeElapsedMs: 1000,
+        mode: 'random_practice',
+        userId: 'provided-user-id',
+        eventId: 'event-1',
+        occurredAt: '2026-10-16T08:00:00.000Z'
+      });
+
+      expect(insert).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'event-1',
+        timestamp: '2026-10-16T08:00:00.000Z'
+      }));
+    });
+
+    it('treats a duplicate client id as already recorded', async () => {
+      const { supabase } = await import('@/integrations/supabase/client');
+      const insert = vi.fn(() => ({ error: { code: '23505', message: 'duplicate key value' } }));
+      vi.mocked(supabase.from).mockReturnValueOnce({ insert } as unknown as ReturnType<typeof supabase.from>);
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const debugSpy = vi.spyOn(console, 'debug').mockImplementation(() => {});
+      const { recordQuestionAttempt } = await import('./events');
+
+      await recordQuestionAttempt({
+        question: { id: 'q-1', displayName: 'T1A01', correctAnswer: 'A', group: 'T1A' } as Question,
+        answerSelected: 0,
+        timeElapsedMs: 1000,
+        mode: 'random_practice',
+        userId: 'provided-user-id',
+        eventId: 'event-1'
+      });
+
+      expect(errorSpy).not.toHaveBeenCalled();
+      errorSpy.mockRestore();
+      debugSpy.mockRestore();
+    });
+
+    it('reports a failed write so offline replay can retry it', async () => {
+      const { supabase } = await import('@/integrations/supabase/client');
+      const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const { recordQuestionAttempt } = await import('./events');
+      const attempt = (error: { code: string; message: string }) => {
+        const insert = vi.fn(() => ({ error }));
+        vi.mocked(supabase.from).mockReturnValueOnce({ insert } as unknown as ReturnType<typeof supabase.from>);
+        return recordQuestionAttempt({
+          question: { id: 'q-1', displayName: 'T1A01', correctAnswer: 'A', group: 'T1A' } as Question,
+          answerSelected: 0,
+          timeElapsedMs: 1000,
+          mode: 'random_practice',
+          userId: 'provided-user-id'
+        });
+      };
+
+      expect(await attempt({ code: '', message: 'TypeError: Failed to fetch' })).toMatchObject({
+        success: false,
+        error: { code: 'NETWORK_ERROR' }
+      });
+      expect(await attempt({ code: '42501', message: 'permission denied' })).toMatchObject({
+        success: false,
+        error: { code: 'FORBIDDEN' }
+      });
+      expect(await attempt({ code: '23514', message: 'check constraint' })).toMatchObject({
+        success: false,
+        error: { code: 'DATABASE_ERROR' }
+      });
+      errorSpy.mockRestore();
+    });
+
     it('recordTopicQuizCompleted accepts userId parameter', async () => {
       const { recordTopicQuizCompleted } = await import('./events');
 
@@ -8,6 +8,7 @@
 
 import { supabase } from '@/integrations/supabase/client';
 import { Question } from '@/hooks/useQuestions';
+import { failure, success, type ServiceResult } from '@/services/types';
 import { FEATURE_FLAGS } from './featureFlags';
 import { POOL_CONFIG, getPoolVersionForExamType } from './poolConfig';
 
@@ -25,6 +26,10 @@ export type EventType =
 interface BaseEvent {
   eventType: EventType;
   payload: Record<string, unknown>;
+  /** Client-generated row id; replaying the same event is then a no-op */
+  id?: string;
+  /** When the event happened, if earlier than now (offline replay) */
+  occurredAt?: string;
 }
 
 /** Question attempt event payload (per documentation section 6.1) */
@@ -55,15 +60,28 @@ export interface PracticeTestCompletedPayload {
   percentage: number; // Score as percentage
   duration_seconds: number; // Time to complete
   subelement_breakdown: Record<string, { correct: number; total: number }>; // Results by subelement
+  pacing: PracticeTestPacing | null; // Time per question, null if not tracked
   // Note: No 'passed' boolean - derive it as (score / total_questions >= passing_threshold)
 }
 
+/** Time spent on a practice test (section 6.2 pacing object) */
+export interface PracticeTestPacing {
+  mode: 'standard' | 'simulation'; // Simulation is timed with no calculator or hints
+  time_limit_seconds: number | null; // Countdown length in simulation mode
+  timed_out: boolean; // Auto-submitted when the countdown ran out
+  flagged_count: number; // Questions flagged for review at submit
+  question_time_ms: Record<string, number>; // Total time on screen per question ID
+  median_ms: number;
+  p90_ms: number;
+}
+
 /** Exam outcome event payload (per documentation section 6.3) */
 export interface ExamOutcomePayload {
   source: 'user_reported' | 'system_calculated' | 'imported';
   exam_type: string; // Which exam was taken
   pool_version: string; // Which pool the exam used
   score: number | null; // Their score if known
+  passed: boolean | null; // Pass or fail; most VEs only report this, not a score
   total_questions: number; // Questions on the exam
   passing_threshold: number; // Required to pass (e.g., 0.74)
   attempt_number: number; // Which attempt (1st, 2nd, etc.)
@@ -95,12 +113,13 @@ export interface TopicQuizCompletedPayload {
  *
  * @param event - The event to record
  * @param userId - Optional user ID to avoid redundant auth calls
- * @returns Promise that resolves when the event is recorded
+ * @returns Whether the write failed, for callers that retry (offline replay).
+ *   A skipped or already-recorded event counts as success.
  */
-async function recordEvent(event: BaseEvent, userId?: string): Promise<void> {
+async function recordEvent(event: BaseEvent, userId?: string): Promise<ServiceResult<void>> {
   // Check feature flag
   if (!FEATURE_FLAGS.enableEventRecording) {
-    return;
+    return success(undefined);
   }
 
   // Use provided userId or fetch from auth (fallback for backwards compatibility)
@@ -112,22 +131,38 @@ async function recordEvent(event: BaseEvent, userId?: string): Promise<void> {
 
   if (!uid) {
     console.debug('Event recording skipped: no authenticated user');
-    return;
+    return success(undefined);
   }
 
   const { error } = await supabase
     .from('events')
     .insert({
+      ...(event.id && { id: event.id }),
       event_type: event.eventType,
       user_id: uid,
       payload: event.payload,
-      timestamp: new Date().toISOString()
+      timestamp: event.occurredAt ?? new Date().toISOString()
     });
 
+  if (error?.code === '23505') {
+    // Unique violation on a client id: an earlier replay already recorded it
+    console.debug('Event already recorded:', event.id);
+    return success(undefined);
+  }
+
   if (error) {
     // Log but don't throw - events are supplementary to main functionality
     console.error('Failed to record event:', error.message);
+    // A request that never reached the database has no Postgres code
+    return failure(
+      error.code === '42501' ? 'FORBIDDEN' : error.code ? 'DATABASE_ERROR' : 'NETWORK_ERROR',
+      `Failed to record event: ${error.message}`,
+      error,
+      { postgrestCode: error.code }
+    );
   }
+
+  return success(undefined);
 }
 
 /**
@@ -143,8 +178,10 @@ export async function recordQuestionAttempt(params: {
   mode: string;
   practiceTestId?: string;
   userId?: string;
-}): Promise<void> {
-  const { question, answerSelected, timeElapsedMs, mode, practiceTestId, userId } = params;
+  eventId?: string;
+  occurredAt?: string;
+}): Promise<ServiceResult<void>> {
+  const { question, answerSelected, timeElapsedMs, mode, practiceTestId, userId, eventId, occurredAt } = params;
 
   // Map letter answers to index (0-3)
   const answerToIndex: Record<string, number> = { 'A': 0, 'B': 1, 'C': 2, 'D': 3 };
@@ -168,9 +205,11 @@ export async function recordQuestionAttempt(params: {
     practice_test_id: practiceTestId || null
   };
 
-  await recordEvent({
+  return recordEvent({
     eventType: 'question_attempt',
-    payload: payload as unknown as Record<string, unknown>
+    payload: payload as unknown as Record<string, unknown>,
+    id: eventId,
+    occurredAt
   }, userId);
 }
 
@@ -189,8 +228,12 @@ export async function recordPracticeTestCompleted(params: {
   percentage: number;
   durationSeconds: number;
   subelementBreakdown?: Record<string, { correct: number; total: number }>;
+  poolVersion?: string | null;
+  pacing?: PracticeTestPacing | null;
   userId?: string;
-}): Promise<void> {
+  eventId?: string;
+  occurredAt?: string;
+}): Promise<ServiceResult<void>> {
   const {
     practiceTestId,
     testResultId,
@@ -200,10 +243,15 @@ export async function recordPracticeTestCompleted(params: {
     percentage,
     durationSeconds,
     subelementBreakdown,
-    userId
+    pacing,
+    userId,
+    eventId,
+    occurredAt
   } = params;
 
-  const poolVersion = getPoolVersionForExamType(examType as 'technician' | 'general' | 'extra');
+  // Prefer the pool the test was drawn from; it differs from the current
+  // pool when the learner is studying the other pool during a transition
+  const poolVersion = params.poolVersion || getPoolVersionForExamType(examType as 'technician' | 'general' | 'extra');
   const passingThreshold = POOL_CONFIG[examType as keyof typeof POOL_CONFIG]?.passingThreshold ?? 0.74;
 
   const payload: PracticeTestCompletedPayload = {
@@ -216,12 +264,15 @@ export async function recordPracticeTestCompleted(params: {
     passing_threshold: passingThreshold,
     percentage,
     duration_seconds: durationSeconds,
-    subelement_breakdown: subelementBreakdown || {}
+    subelement_breakdown: subelementBreakdown || {},
+    pacing: pacing ?? null
   };
 
-  await recordEvent({
+  return recordEvent({
     eventType: 'practice_test_completed',
-    payload: payload as unknown as Record<string, unknown>
+    payload: payload as unknown as Record<string, unknown>,
+    id: eventId,
+    occurredAt
   }, userId);
 }
 
@@ -236,6 +287,8 @@ export async function recordExamOutcome(params: {
   source: 'user_reported' | 'system_calculated' | 'imported';
   examType: string;
   score: number | null;
+  /** Defaults to whether the score met the passing threshold, when there is one */
+  passed?: boolean;
   totalQuestions: number;
   attemptNumber: number;
   examDate: string;
@@ -247,6 +300,7 @@ export async function recordExamOutcome(params: {
     source,
     examType,
     score,
+    passed,
     totalQuestions,
     attemptNumber,
     examDate,
@@ -263,6 +317,7 @@ export async function recordExamOutcome(params: {
     exam_type: examType,
     pool_version: poolVersion,
     score,
+    passed: passed ?? (score !== null ? score / totalQuestions >= passingThreshold : null),
     total_questions: totalQuestions,
     passing_threshold: passingThreshold,
     attempt_number: attemptNumber,
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import { buildPacingPayload, formatDuration, percentile, summarizePacing } from './examPacing';
+import type { Question } from '@/hooks/useQuestions';
+
+function question(id: string, correctAnswer: 'A' | 'B' | 'C' | 'D' = 'A'): Question {
+  return {
+    id,
+    question: `${id}?`,
+    options: { A: 'a', B: 'b', C: 'c', D: 'd' },
+    correctAnswer,
+    subelement: id.slice(0, 2),
+    group: id.slice(0, 3),
+    links: [],
+    explanation: null,
+  } as Question;
+}
+
+const questions = [question('T1A01'), question('T1A02'), question('T2B03'), question('T3C04')];
+const answers = { T1A01: 'A', T1A02: 'B', T2B03: 'A' } as const;
+const times = { T1A01: 20000, T1A02: 90000, T2B03: 30000, T3C04: 10000 };
+
+describe('percentile', () => {
+  it('uses the nearest rank', () => {
+    expect(percentile([10, 20, 30, 40], 50)).toBe(20);
+    expect(percentile([10, 20, 30, 40], 90)).toBe(40);
+    expect(percentile([5], 90)).toBe(5);
+  });
+
+  it('returns 0 without values', () => {
+    expect(percentile([], 50)).toBe(0);
+  });
+});
+
+describe('summarizePacing', () => {
+  it('totals and averages the time per question', () => {
+    const summary = summarizePacing(questions, answers, times);
+
+    expect(summary.totalMs).toBe(150000);
+    expect(summary.averageMs).toBe(37500);
+    expect(summary.medianMs).toBe(20000);
+  });
+
+  it('compares time on correct and missed questions', () => {
+    const summary = summarizePacing(questions, answers, times);
+
+    // Correct: T1A01 (20s), T2B03 (30s). Missed: T1A02 (90s), unanswered T3C04 (10s)
+    expect(summary.averageCorrectMs).toBe(25000);
+    expect(summary.averageIncorrectMs).toBe(50000);
+  });
+
+  it('lists the slowest questions with their position', () => {
+    const summary = summarizePacing(questions, answers, times, 2);
+
+    expect(summary.slowest).toEqual([
+      { questionId: 'T1A02', index: 1, ms: 90000, correct: false },
+      { questionId: 'T2B03', index: 2, ms: 30000, correct: true },
+    ]);
+  });
+
+  it('counts questions never shown as 0', () => {
+    const summary = summarizePacing(questions, answers, { T1A01: 5000 });
+
+    expect(summary.questions.map((p) => p.ms)).toEqual([5000, 0, 0, 0]);
+    expect(summary.averageCorrectMs).toBe(2500);
+  });
+});
+
+describe('buildPacingPayload', () => {
+  it('records the distribution and how the test was timed', () => {
+    const payload = buildPacingPayload(questions, {
+      questionTimes: { ...times, T1A01: 20000.6 },
+      simulation: true,
+      timeLimitSeconds: 2700,
+      timedOut: false,
+      flaggedCount: 2,
+    });
+
+    expect(payload).toEqual({
+      mode: 'simulation',
+      time_limit_seconds: 2700,
+      timed_out: false,
+      flagged_count: 2,
+      question_time_ms: { T1A01: 20001, T1A02: 90000, T2B03: 30000, T3C04: 10000 },
+      median_ms: 20001,
+      p90_ms: 90000,
+    });
+  });
+
+  it('marks untimed standard tests', () => {
+    const payload = buildPacingPayload([question('T1A01')], {
+      questionTimes: {},
+      simulation: false,
+      timeLimitSeconds: null,
+      timedOut: false,
+      flaggedCount: 0,
+    });
+
+    expect(payload.mode).toBe('standard');
+    expect(payload.question_time_ms).toEqual({ T1A01: 0 });
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats minutes and seconds', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(65000)).toBe('1:05');
+    expect(formatDuration(45 * 60 * 1000)).toBe('45:00');
+  });
+
+  it('adds hours past an hour', () => {
+    expect(formatDuration(90 * 60 * 1000 + 7000)).toBe('1:30:07');
+  });
+
+  it('never goes negative', () => {
+    expect(formatDuration(-500)).toBe('0:00');
+  });
+});
@@ -0,0 +1,119 @@
+import type { Question } from '@/hooks/useQuestions';
+import type { PracticeTestPacing } from './events';
+
+/** Time limits offered for exam simulation, in minutes */
+export const SIMULATION_TIME_LIMITS = [30, 45, 60, 90] as const;
+
+export const DEFAULT_SIMULATION_MINUTES = 60;
+
+/** Under this much time left the countdown turns into a warning */
+export const SIMULATION_WARNING_MS = 5 * 60 * 1000;
+
+/**
+ * How a practice test was timed. Question times are the total milliseconds
+ * each question was on screen, so revisiting a question adds to its time.
+ */
+export interface TestTiming {
+  questionTimes: Record<string, number>;
+  simulation: boolean;
+  timeLimitSeconds: number | null;
+  timedOut: boolean;
+  flaggedCount: number;
+}
+
+export interface QuestionPace {
+  questionId: string;
+  /** Position in the test (0-based) */
+  index: number;
+  ms: number;
+  correct: boolean;
+}
+
+export interface PacingSummary {
+  totalMs: number;
+  averageMs: number;
+  medianMs: number;
+  /** Average time on questions answered correctly / incorrectly (null if none) */
+  averageCorrectMs: number | null;
+  averageIncorrectMs: number | null;
+  /** Every question in test order */
+  questions: QuestionPace[];
+  /** Longest questions first */
+  slowest: QuestionPace[];
+}
+
+/**
+ * Value at the given percentile (0-100) using the nearest-rank method.
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+}
+
+/**
+ * Summarize how long the learner spent on each question of a finished test.
+ */
+export function summarizePacing(
+  questions: Question[],
+  answers: Record<string, 'A' | 'B' | 'C' | 'D'>,
+  questionTimes: Record<string, number>,
+  slowestCount = 3
+): PacingSummary {
+  const paces: QuestionPace[] = questions.map((q, index) => ({
+    questionId: q.id,
+    index,
+    ms: questionTimes[q.id] ?? 0,
+    correct: answers[q.id] === q.correctAnswer,
+  }));
+  const times = paces.map((p) => p.ms);
+  const totalMs = times.reduce((sum, ms) => sum + ms, 0);
+
+  return {
+    totalMs,
+    averageMs: paces.length > 0 ? totalMs / paces.length : 0,
+    medianMs: percentile(times, 50),
+    averageCorrectMs: average(paces.filter((p) => p.correct).map((p) => p.ms)),
+    averageIncorrectMs: average(paces.filter((p) => !p.correct).map((p) => p.ms)),
+    questions: paces,
+    slowest: [...paces].sort((a, b) => b.ms - a.ms).slice(0, slowestCount),
+  };
+}
+
+/**
+ * Pacing block for the practice_test_completed event payload.
+ */
+export function buildPacingPayload(questions: Question[], timing: TestTiming): PracticeTestPacing {
+  const questionTimeMs: Record<string, number> = {};
+  for (const q of questions) {
+    questionTimeMs[q.id] = Math.round(timing.questionTimes[q.id] ?? 0);
+  }
+  const times = Object.values(questionTimeMs);
+
+  return {
+    mode: timing.simulation ? 'simulation' : 'standard',
+    time_limit_seconds: timing.timeLimitSeconds,
+    timed_out: timing.timedOut,
+    flagged_count: timing.flaggedCount,
+    question_time_ms: questionTimeMs,
+    median_ms: percentile(times, 50),
+    p90_ms: percentile(times, 90),
+  };
+}
+
+/** Format milliseconds as m:ss (or h:mm:ss past an hour) */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const ss = seconds.toString().padStart(2, '0');
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, '0')}:${ss}`
+    : `${minutes}:${ss}`;
+}
@@ -7,6 +7,7 @@ interface MockQuestion {
   id: string;
   subelement: string;
   group: string;
+  poolVersion?: string;
 }
 
 /** Create a pool of mock questions for a given distribution */
@@ -180,4 +181,36 @@ describe('selectExamQuestions', () => {
       expect(result).toHaveLength(0);
     });
   });
+
+  describe('pool version filtering', () => {
+    const tag = (pool: MockQuestion[], poolVersion: string) =>
+      pool.map(q => ({ ...q, id: `${poolVersion}-${q.id}`, poolVersion }));
+
+    it('only draws from the requested pool when two pools are loaded', () => {
+      const pool = [
+        ...tag(buildPool(examDistribution.technician), '2022-2026'),
+        ...tag(buildPool(examDistribution.technician), '2026-2030'),
+      ];
+
+      const result = selectExamQuestions(pool, 35, examDistribution.technician, '2026-2030');
+
+      expect(result).toHaveLength(35);
+      expect(result.every(q => q.poolVersion === '2026-2030')).toBe(true);
+    });
+
+    it('keeps questions without a pool version eligible', () => {
+      const pool = buildPool(examDistribution.technician);
+      const result = selectExamQuestions(pool, 35, examDistribution.technician, '2026-2030');
+      expect(result).toHaveLength(35);
+    });
+
+    it('uses every question when no pool version is given', () => {
+      const pool = [
+        ...tag(buildPool({ T1: 1 }, 1), '2022-2026'),
+        ...tag(buildPool({ T1: 1 }, 1), '2026-2030'),
+      ];
+      const result = selectExamQuestions(pool, 2, { T1: 2 });
+      expect(result).toHaveLength(2);
+    });
+  });
 });
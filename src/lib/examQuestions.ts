@@ -10,11 +10,15 @@
  *  2. If a subelement has fewer groups than its quota, fill from remaining pool
  *  3. If total is still short (sparse pool), fill from unused questions
  *  4. Shuffle the final set so questions aren't in subelement order
+ *
+ * When a pool version is given, only questions from that pool are eligible,
+ * so an exam never mixes questions from the outgoing and incoming pools.
  */
 
 interface Selectable {
   subelement: string;
   group: string;
+  poolVersion?: string | null;
 }
 
 function shuffleArray<T>(array: T[]): T[] {
@@ -27,10 +31,15 @@ function shuffleArray<T>(array: T[]): T[] {
 }
 
 export function selectExamQuestions<T extends Selectable>(
-  allQuestions: T[],
+  questions: T[],
   questionCount: number,
-  distribution: Record<string, number>
+  distribution: Record<string, number>,
+  poolVersion?: string
 ): T[] {
+  // Questions without a pool version predate pool tracking and stay eligible
+  const allQuestions = poolVersion
+    ? questions.filter(q => !q.poolVersion || q.poolVersion === poolVersion)
+    : questions;
   const selected: T[] = [];
   const usedIndices = new Set<number>();
 
@@ -0,0 +1,353 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import {
+  ImportedExamSession,
+  StoredExamSession,
+  diffExamSessions,
+  needsRegeocoding,
+  normalizeAddressKey,
+  normalizeZip,
+  parseCSVRows,
+  parseExamDate,
+  parseExamSessionCSV,
+  parseExamSessionFile,
+  parseWalkIns,
+  sessionKey,
+} from './examSessionImportParser';
+
+// =============================================================================
+// SAMPLE TEST DATA
+// =============================================================================
+
+const ARRL_HEADER =
+  'Exam Date,Exam Time,Sponsor,Walk-ins allowed,Public Contact,Phone,Email,VEC,Location,Address,Address 2,Address 3,City,State,Zip';
+
+const sampleCSV = [
+  ARRL_HEADER,
+  '11/07/2026,10:00 AM,Raleigh ARS,Yes,Jane Doe,555-0100,JANE@example.org,ARRL/VEC,Community Center,"100  North Main Street, ",,,Raleigh,nc,27601',
+  '2026-11-14,,Durham FM Association,No,,,,W5YI,"Library, Room 2",300 N Roxboro St,,,Durham,NC,27701-1234',
+  '12/05/2026,9:00 AM,Boston Hams,y,,,,ARRL/VEC,,"1 ""Old"" Mill Rd",,,Boston,MA,2108',
+].join('\n');
+
+function makeSession(overrides: Partial<ImportedExamSession> = {}): ImportedExamSession {
+  return {
+    title: null,
+    exam_date: '2026-11-07',
+    exam_time: '10:00 AM',
+    sponsor: 'Raleigh ARS',
+    walk_ins_allowed: true,
+    public_contact: null,
+    phone: null,
+    email: null,
+    vec: 'ARRL/VEC',
+    location_name: 'Community Center',
+    address: '100 N Main St',
+    address_2: null,
+    address_3: null,
+    city: 'Raleigh',
+    state: 'NC',
+    zip: '27601',
+    ...overrides,
+  };
+}
+
+function makeStored(overrides: Partial<StoredExamSession> = {}): StoredExamSession {
+  return {
+    ...makeSession(),
+    id: 'stored-1',
+    latitude: 35.78,
+    longitude: -78.64,
+    ...overrides,
+  };
+}
+
+// =============================================================================
+// FIELD PARSING
+// =============================================================================
+
+describe('parseExamDate', () => {
+  it('parses US and ISO dates', () => {
+    expect(parseExamDate('11/07/2026')).toBe('2026-11-07');
+    expect(parseExamDate('1/5/27')).toBe('2027-01-05');
+    expect(parseExamDate('2026-11-14')).toBe('2026-11-14');
+  });
+
+  it('parses Excel serial day numbers', () => {
+    // 46333 = 2026-11-07 in Excel's 1900 date system
+    expect(parseExamDate('46333')).toBe('2026-11-07');
+  });
+
+  it('rejects impossible and malformed dates', () => {
+    expect(parseExamDate('02/30/2026')).toBeNull();
+    expect(parseExamDate('TBD')).toBeNull();
+    expect(parseExamDate('')).toBeNull();
+  });
+});
+
+describe('normalizeZip', () => {
+  it('zero-pads ZIPs that lost their leading zero', () => {
+    expect(normalizeZip('2108')).toBe('02108');
+    expect(normalizeZip('21081234')).toBe('02108-1234');
+  });
+
+  it('formats ZIP+4 codes', () => {
+    expect(normalizeZip('277011234')).toBe('27701-1234');
+    expect(normalizeZip(' 27701-1234 ')).toBe('27701-1234');
+  });
+
+  it('rejects values that are not ZIP codes', () => {
+    expect(normalizeZip('N/A')).toBeNull();
+    expect(normalizeZip('12')).toBeNull();
+  });
+});
+
+describe('parseWalkIns', () => {
+  it('recognizes common yes/no spellings', () => {
+    expect(parseWalkIns('Yes')).toBe(true);
+    expect(parseWalkIns('TRUE')).toBe(true);
+    expect(parseWalkIns('n')).toBe(false);
+    expect(parseWalkIns('')).toBe(false);
+    expect(parseWalkIns('maybe')).toBeNull();
+  });
+});
+
+describe('normalizeAddressKey', () => {
+  it('matches abbreviated and spelled-out addresses', () => {
+    expect(normalizeAddressKey('100 North Main Street')).toBe(normalizeAddressKey('100 N. Main St'));
+    expect(normalizeAddressKey('5 Oak Avenue, Suite 2')).toBe('5 oak ave ste 2');
+  });
+
+  it('treats missing addresses as empty', () => {
+    expect(normalizeAddressKey(null)).toBe('');
+  });
+});
+
+describe('sessionKey', () => {
+  it('ignores ZIP+4 and sponsor casing', () => {
+    expect(sessionKey(makeSession({ zip: '27601-1234', sponsor: 'RALEIGH ARS' }))).toBe(
+      sessionKey(makeSession())
+    );
+  });
+
+  it('falls back to the location name without a street address', () => {
+    const a = sessionKey(makeSession({ address: null, location_name: 'Fire Station 3' }));
+    const b = sessionKey(makeSession({ address: null, location_name: 'Fire Station 4' }));
+    expect(a).not.toBe(b);
+  });
+});
+
+// =============================================================================
+// FILE PARSING
+// =============================================================================
+
+describe('parseCSVRows', () => {
+  it('handles quoted commas, doubled quotes and line breaks', () => {
+    const rows = parseCSVRows('a,"b, c","say ""hi"""\r\n"line\nbreak",2,3\n\n');
+    expect(rows).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['line\nbreak', '2', '3'],
+    ]);
+  });
+
+  it('strips a byte order mark', () => {
+    expect(parseCSVRows('\uFEFFExam Date,City\n1/1/2027,Raleigh')[0][0]).toBe('Exam Date');
+  });
+});
+
+describe('parseExamSessionCSV', () => {
+  it('parses and normalizes the ARRL export', () => {
+    const { sessions, errors } = parseExamSessionCSV(sampleCSV);
+
+    expect(errors).toEqual([]);
+    expect(sessions).toHaveLength(3);
+    expect(sessions[0]).toEqual({
+      title: null,
+      exam_date: '2026-11-07',
+      exam_time: '10:00 AM',
+      sponsor: 'Raleigh ARS',
+      walk_ins_allowed: true,
+      public_contact: 'Jane Doe',
+      phone: '555-0100',
+      email: 'jane@example.org',
+      vec: 'ARRL/VEC',
+      location_name: 'Community Center',
+      address: '100 North Main Street',
+      address_2: null,
+      address_3: null,
+      city: 'Raleigh',
+      state: 'NC',
+      zip: '27601',
+    });
+    expect(sessions[1].location_name).toBe('Library, Room 2');
+    expect(sessions[1].zip).toBe('27701-1234');
+    expect(sessions[2].address).toBe('1 "Old" Mill Rd');
+    expect(sessions[2].zip).toBe('02108');
+  });
+
+  it('reports invalid rows with their spreadsheet row number', () => {
+    const csv = [
+      ARRL_HEADER,
+      '13/45/2026,,Team,Yes,,,,,,1 Elm St,,,Raleigh,North Carolina,27601',
+      '11/07/2026,,Team,Yes,,,,,,1 Elm St,,,Raleigh,NC,27601',
+    ].join('\n');
+
+    const { sessions, errors } = parseExamSessionCSV(csv);
+
+    expect(sessions).toHaveLength(1);
+    expect(errors).toEqual([
+      { row: 2, errors: ['Invalid exam date "13/45/2026"', 'Invalid state "North Carolina"'] },
+    ]);
+  });
+
+  it('requires the date and location columns', () => {
+    const { sessions, errors } = parseExamSessionCSV('Exam Date,Sponsor\n11/07/2026,Team');
+
+    expect(sessions).toEqual([]);
+    expect(errors[0].errors[0]).toBe('Missing required column(s): city, state, zip');
+  });
+
+  it('accepts alternate header spellings', () => {
+    const { sessions } = parseExamSessionCSV(
+      'Date,Team,Walk-Ins,Location Name,Street Address,City,ST,Zip Code\n11/07/2026,Team,no,Hall,1 Elm St,Cary,NC,27511'
+    );
+
+    expect(sessions[0]).toMatchObject({
+      sponsor: 'Team',
+      walk_ins_allowed: false,
+      location_name: 'Hall',
+      address: '1 Elm St',
+      state: 'NC',
+      zip: '27511',
+    });
+  });
+});
+
+describe('parseExamSessionFile', () => {
+  it('reads the first worksheet of an XLSX export', async () => {
+    const zip = new JSZip();
+    zip.file(
+      'xl/sharedStrings.xml',
+      '<sst xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+        '<si><t>Exam Date</t></si><si><t>City</t></si><si><t>State</t></si><si><t>Zip</t></si>' +
+        '<si><r><t>Ral</t></r><r><t>eigh</t></r></si><si><t>NC</t></si>' +
+        '</sst>'
+    );
+    zip.file(
+      'xl/worksheets/sheet1.xml',
+      '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c><c r="D1" t="s"><v>3</v></c></row>' +
+        '<row r="2"><c r="A2"><v>46333</v></c><c r="B2" t="s"><v>4</v></c><c r="C2" t="s"><v>5</v></c><c r="D2"><v>2108</v></c></row>' +
+        '</sheetData></worksheet>'
+    );
+    const data = await zip.generateAsync({ type: 'arraybuffer' });
+    const file = new File([data], 'sessions.xlsx');
+
+    const { sessions, errors } = await parseExamSessionFile(file);
+
+    expect(errors).toEqual([]);
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0]).toMatchObject({ exam_date: '2026-11-07', city: 'Raleigh', state: 'NC', zip: '02108' });
+  });
+
+  it('reports unreadable XLSX files', async () => {
+    const file = new File(['not a zip'], 'sessions.xlsx');
+
+    await expect(parseExamSessionFile(file)).rejects.toThrow('Failed to read XLSX file');
+  });
+
+  it('parses CSV files as text', async () => {
+    const file = new File([sampleCSV], 'sessions.csv', { type: 'text/csv' });
+
+    const { sessions } = await parseExamSessionFile(file);
+
+    expect(sessions).toHaveLength(3);
+  });
+});
+
+// =============================================================================
+// DIFF
+// =============================================================================
+
+describe('diffExamSessions', () => {
+  const today = '2026-10-18';
+
+  it('classifies new, updated, unchanged, removed and past sessions', () => {
+    const stored = [
+      makeStored({ id: 'same' }),
+      makeStored({ id: 'changed', exam_date: '2026-11-14', exam_time: '9:00 AM' }),
+      makeStored({ id: 'cancelled', exam_date: '2026-12-01' }),
+      makeStored({ id: 'old', exam_date: '2026-10-01' }),
+    ];
+    const incoming = [
+      makeSession({ address: '100 North Main Street' }),
+      makeSession({ exam_date: '2026-11-14', exam_time: '10:00 AM' }),
+      makeSession({ exam_date: '2026-11-21', zip: '27701' }),
+      makeSession({ exam_date: '2026-10-10' }),
+    ];
+
+    const diff = diffExamSessions(incoming, stored, today);
+
+    expect(diff.added.map((s) => s.exam_date)).toEqual(['2026-11-21']);
+    expect(diff.updated).toHaveLength(2);
+    expect(diff.updated.map((u) => u.existing.id)).toEqual(['same', 'changed']);
+    expect(diff.updated[0].changes).toEqual(['address']);
+    expect(diff.updated[1].changes).toEqual(['exam_time']);
+    expect(diff.unchanged).toEqual([]);
+    expect(diff.removed.map((s) => s.id)).toEqual(['cancelled']);
+    expect(diff.past.map((s) => s.id)).toEqual(['old']);
+    expect(diff.skippedPast.map((s) => s.exam_date)).toEqual(['2026-10-10']);
+  });
+
+  it('treats identical sessions as unchanged', () => {
+    const diff = diffExamSessions([makeSession()], [makeStored({ id: 'same' })], today);
+
+    expect(diff.unchanged.map((s) => s.id)).toEqual(['same']);
+    expect(diff.updated).toEqual([]);
+  });
+
+  it('treats a stored null walk-ins flag as false', () => {
+    const diff = diffExamSessions(
+      [makeSession({ walk_ins_allowed: false })],
+      [makeStored({ walk_ins_allowed: null })],
+      today
+    );
+
+    expect(diff.unchanged).toHaveLength(1);
+  });
+
+  it('keeps the first of duplicate feed rows', () => {
+    const diff = diffExamSessions([makeSession(), makeSession({ exam_time: '1:00 PM' })], [], today);
+
+    expect(diff.added).toHaveLength(1);
+    expect(diff.added[0].exam_time).toBe('10:00 AM');
+  });
+
+  it('counts sessions dated today as upcoming', () => {
+    const diff = diffExamSessions([makeSession({ exam_date: today })], [], today);
+
+    expect(diff.added).toHaveLength(1);
+    expect(diff.skippedPast).toEqual([]);
+  });
+});
+
+describe('needsRegeocoding', () => {
+  const existing = makeStored();
+
+  it('keeps coordinates when only the address spelling changed', () => {
+    const incoming = makeSession({ address: '100 North Main Street' });
+
+    expect(needsRegeocoding({ existing, incoming, changes: ['address'] })).toBe(false);
+    expect(needsRegeocoding({ existing, incoming: makeSession(), changes: ['exam_time'] })).toBe(false);
+  });
+
+  it('re-geocodes when the session moved', () => {
+    expect(needsRegeocoding({ existing, incoming: makeSession({ address: '9 Elm St' }), changes: ['address'] })).toBe(true);
+    expect(needsRegeocoding({ existing, incoming: makeSession({ city: 'Cary' }), changes: ['city'] })).toBe(true);
+  });
+
+  it('re-geocodes sessions that were never geocoded', () => {
+    const ungeocoded = makeStored({ latitude: null, longitude: null });
+
+    expect(needsRegeocoding({ existing: ungeocoded, incoming: makeSession(), changes: ['vec'] })).toBe(true);
+  });
+});
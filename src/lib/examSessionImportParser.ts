@@ -0,0 +1,579 @@
+/**
+ * Exam Session Import Parser
+ *
+ * Parses the published ARRL/VEC exam-session export (.csv or .xlsx) into
+ * normalized exam_sessions rows, and diffs them against the sessions already
+ * in the database so admins can review new, updated and past sessions before
+ * committing an import.
+ *
+ * The export has no stable session ID, so sessions are matched on date,
+ * sponsor, ZIP code and a normalized street address.
+ */
+
+import JSZip from 'jszip';
+
+export interface ImportedExamSession {
+  title: string | null;
+  exam_date: string;
+  exam_time: string | null;
+  sponsor: string | null;
+  walk_ins_allowed: boolean;
+  public_contact: string | null;
+  phone: string | null;
+  email: string | null;
+  vec: string | null;
+  location_name: string | null;
+  address: string | null;
+  address_2: string | null;
+  address_3: string | null;
+  city: string;
+  state: string;
+  zip: string;
+}
+
+/** An exam_sessions row as stored, for diffing against the feed */
+export interface StoredExamSession extends Omit<ImportedExamSession, 'walk_ins_allowed'> {
+  id: string;
+  walk_ins_allowed: boolean | null;
+  latitude: number | null;
+  longitude: number | null;
+}
+
+export interface SessionRowError {
+  /** 1-based spreadsheet row, counting the header */
+  row: number;
+  errors: string[];
+}
+
+export interface SessionParseResult {
+  sessions: ImportedExamSession[];
+  errors: SessionRowError[];
+}
+
+export interface SessionUpdate<T extends StoredExamSession = StoredExamSession> {
+  existing: T;
+  incoming: ImportedExamSession;
+  changes: (keyof ImportedExamSession)[];
+}
+
+export interface ExamSessionDiff<T extends StoredExamSession = StoredExamSession> {
+  /** Upcoming sessions not yet in the database */
+  added: ImportedExamSession[];
+  /** Upcoming sessions whose details changed */
+  updated: SessionUpdate<T>[];
+  /** Upcoming sessions identical to the stored copy */
+  unchanged: T[];
+  /** Stored sessions that have already happened; removed on import */
+  past: T[];
+  /** Stored upcoming sessions missing from the feed (cancelled); removed on import */
+  removed: T[];
+  /** Feed rows dated before today; never imported */
+  skippedPast: ImportedExamSession[];
+}
+
+/** Fields compared when deciding whether a matched session was updated */
+const COMPARED_FIELDS: (keyof ImportedExamSession)[] = [
+  'title', 'exam_time', 'walk_ins_allowed', 'public_contact', 'phone', 'email',
+  'vec', 'location_name', 'address', 'address_2', 'address_3', 'city', 'state', 'zip',
+];
+
+/**
+ * Header spellings seen in the ARRL and VEC exports, normalized to lower-case
+ * alphanumerics (see normalizeHeader).
+ */
+const HEADER_ALIASES: Record<string, keyof ImportedExamSession> = {
+  title: 'title',
+  sessiontitle: 'title',
+  examdate: 'exam_date',
+  date: 'exam_date',
+  sessiondate: 'exam_date',
+  examtime: 'exam_time',
+  time: 'exam_time',
+  sessiontime: 'exam_time',
+  sponsor: 'sponsor',
+  team: 'sponsor',
+  sponsoringteam: 'sponsor',
+  walkinsallowed: 'walk_ins_allowed',
+  walkins: 'walk_ins_allowed',
+  walkinsok: 'walk_ins_allowed',
+  publiccontact: 'public_contact',
+  contact: 'public_contact',
+  contactname: 'public_contact',
+  phone: 'phone',
+  contactphone: 'phone',
+  email: 'email',
+  contactemail: 'email',
+  vec: 'vec',
+  location: 'location_name',
+  locationname: 'location_name',
+  site: 'location_name',
+  address: 'address',
+  address1: 'address',
+  streetaddress: 'address',
+  address2: 'address_2',
+  address3: 'address_3',
+  city: 'city',
+  state: 'state',
+  st: 'state',
+  zip: 'zip',
+  zipcode: 'zip',
+  postalcode: 'zip',
+};
+
+const TRUE_VALUES = new Set(['yes', 'y', 'true', 't', '1', 'x']);
+const FALSE_VALUES = new Set(['no', 'n', 'false', 'f', '0', '']);
+
+/** Street-suffix and direction abbreviations (USPS Publication 28) used for matching */
+const ADDRESS_ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  road: 'rd',
+  drive: 'dr',
+  boulevard: 'blvd',
+  lane: 'ln',
+  court: 'ct',
+  place: 'pl',
+  parkway: 'pkwy',
+  highway: 'hwy',
+  circle: 'cir',
+  terrace: 'ter',
+  suite: 'ste',
+  north: 'n',
+  south: 's',
+  east: 'e',
+  west: 'w',
+};
+
+/** Excel stores dates as days since 1899-12-30 */
+const EXCEL_EPOCH_UTC = Date.UTC(1899, 11, 30);
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// FIELD NORMALIZATION
+// =============================================================================
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Trim and collapse whitespace; empty values become null.
+ */
+export function normalizeText(value: string | undefined): string | null {
+  const cleaned = (value ?? '').replace(/\s+/g, ' ').trim();
+  return cleaned === '' ? null : cleaned;
+}
+
+/**
+ * Normalize a street address line: collapse whitespace and drop stray
+ * leading/trailing punctuation left over from spreadsheet edits.
+ */
+export function normalizeStreet(value: string | undefined): string | null {
+  const cleaned = normalizeText(value)?.replace(/^[,;.\s]+|[,;\s]+$/g, '');
+  return cleaned ? cleaned : null;
+}
+
+/**
+ * Normalize a ZIP code to "12345" or "12345-6789".
+ * Spreadsheets drop leading zeros from New England ZIPs, so 3- and 4-digit
+ * values are zero-padded.
+ *
+ * @returns The normalized ZIP, or null if it isn't a ZIP code
+ */
+export function normalizeZip(value: string | undefined): string | null {
+  const digits = (value ?? '').replace(/[^0-9]/g, '');
+  if (digits.length >= 3 && digits.length <= 5) return digits.padStart(5, '0');
+  if (digits.length === 8 || digits.length === 9) {
+    const padded = digits.padStart(9, '0');
+    return `${padded.slice(0, 5)}-${padded.slice(5)}`;
+  }
+  return null;
+}
+
+/**
+ * Normalize a state to its two-letter postal abbreviation.
+ *
+ * @returns The abbreviation, or null if it isn't two letters
+ */
+export function normalizeState(value: string | undefined): string | null {
+  const cleaned = (value ?? '').trim().toUpperCase();
+  return /^[A-Z]{2}$/.test(cleaned) ? cleaned : null;
+}
+
+function formatDateParts(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Parse an exam date in MM/DD/YYYY, M/D/YY, YYYY-MM-DD or Excel serial form.
+ *
+ * @returns YYYY-MM-DD, or null if the value isn't a valid date
+ */
+export function parseExamDate(value: string | undefined): string | null {
+  const cleaned = (value ?? '').trim();
+
+  const iso = cleaned.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (iso) return formatDateParts(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+  const us = cleaned.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{2}|\d{4})$/);
+  if (us) {
+    const year = us[3].length === 2 ? 2000 + Number(us[3]) : Number(us[3]);
+    return formatDateParts(year, Number(us[1]), Number(us[2]));
+  }
+
+  // Excel serial day number (XLSX cells without a string format)
+  if (/^\d{5}(\.\d+)?$/.test(cleaned)) {
+    const date = new Date(EXCEL_EPOCH_UTC + Math.floor(Number(cleaned)) * MS_PER_DAY);
+    return formatDateParts(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+  }
+
+  return null;
+}
+
+/**
+ * Parse a walk-ins flag ("Yes", "N", "TRUE", blank, ...).
+ *
+ * @returns The flag, or null if the value isn't recognized
+ */
+export function parseWalkIns(value: string | undefined): boolean | null {
+  const cleaned = (value ?? '').trim().toLowerCase();
+  if (TRUE_VALUES.has(cleaned)) return true;
+  if (FALSE_VALUES.has(cleaned)) return false;
+  return null;
+}
+
+/**
+ * Matching key for a street address: lower-case, no punctuation, with
+ * common suffixes and directions abbreviated, so "100 North Main Street"
+ * and "100 N. Main St" match.
+ */
+export function normalizeAddressKey(address: string | null | undefined): string {
+  return (address ?? '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => ADDRESS_ABBREVIATIONS[word] ?? word)
+    .join(' ');
+}
+
+/**
+ * Key identifying a session across imports: date, sponsor, 5-digit ZIP and
+ * street address (falling back to the location name when there is none).
+ */
+export function sessionKey(
+  session: Pick<ImportedExamSession, 'exam_date' | 'sponsor' | 'zip' | 'address' | 'location_name'>
+): string {
+  return [
+    session.exam_date,
+    (session.sponsor ?? '').toLowerCase().replace(/\s+/g, ' ').trim(),
+    session.zip.slice(0, 5),
+    normalizeAddressKey(session.address ?? session.location_name),
+  ].join('|');
+}
+
+// =============================================================================
+// FILE PARSING
+// =============================================================================
+
+/**
+ * Split CSV text into rows of cells. Handles quoted cells containing commas,
+ * doubled quotes and line breaks.
+ */
+export function parseCSVRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines and the BOM Excel writes at the start of CSV exports
+  if (rows.length > 0 && rows[0].length > 0) rows[0][0] = rows[0][0].replace(/^\uFEFF/, '');
+  return rows.filter((r) => r.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Convert an XLSX column reference ("A", "AB") to a 0-based index.
+ */
+function columnIndex(cellRef: string): number {
+  const letters = cellRef.replace(/[^A-Z]/g, '');
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+}
+
+/**
+ * Read the first worksheet of an .xlsx workbook into rows of cell text.
+ */
+async function extractRowsFromXlsx(data: ArrayBuffer): Promise<string[][]> {
+  try {
+    const zip = await JSZip.loadAsync(data);
+    const parser = new DOMParser();
+
+    const sharedStrings: string[] = [];
+    const sharedXml = await zip.file('xl/sharedStrings.xml')?.async('string');
+    if (sharedXml) {
+      const doc = parser.parseFromString(sharedXml, 'application/xml');
+      for (const si of Array.from(doc.getElementsByTagName('si'))) {
+        // Rich-text strings split their text across several <t> runs
+        sharedStrings.push(Array.from(si.getElementsByTagName('t')).map((t) => t.textContent ?? '').join(''));
+      }
+    }
+
+    const sheetPath = Object.keys(zip.files)
+      .filter((name) => /^xl\/worksheets\/sheet\d+\.xml$/.test(name))
+      .sort((a, b) => Number(a.match(/\d+/)![0]) - Number(b.match(/\d+/)![0]))[0];
+    if (!sheetPath) throw new Error('Workbook has no worksheets');
+
+    const sheetXml = await zip.file(sheetPath)!.async('string');
+    const sheet = parser.parseFromString(sheetXml, 'application/xml');
+
+    const rows: string[][] = [];
+    for (const rowEl of Array.from(sheet.getElementsByTagName('row'))) {
+      const row: string[] = [];
+      Array.from(rowEl.getElementsByTagName('c')).forEach((cell, position) => {
+        const ref = cell.getAttribute('r');
+        const index = ref ? columnIndex(ref) : position;
+        const type = cell.getAttribute('t');
+        let value: string;
+        if (type === 's') {
+          value = sharedStrings[Number(cell.getElementsByTagName('v')[0]?.textContent)] ?? '';
+        } else if (type === 'inlineStr') {
+          value = Array.from(cell.getElementsByTagName('t')).map((t) => t.textContent ?? '').join('');
+        } else {
+          value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+        }
+        while (row.length < index) row.push('');
+        row[index] = value;
+      });
+      rows.push(row);
+    }
+
+    return rows.filter((r) => r.some((value) => value.trim() !== ''));
+  } catch (error) {
+    throw new Error(`Failed to read XLSX file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Parse spreadsheet rows (header first) into normalized sessions.
+ * Rows missing a date, city, state or valid ZIP are reported as errors.
+ */
+export function parseExamSessionRows(rows: string[][]): SessionParseResult {
+  if (rows.length === 0) {
+    return { sessions: [], errors: [{ row: 1, errors: ['File is empty'] }] };
+  }
+
+  const columns = new Map<keyof ImportedExamSession, number>();
+  rows[0].forEach((header, index) => {
+    const field = HEADER_ALIASES[normalizeHeader(header)];
+    if (field && !columns.has(field)) columns.set(field, index);
+  });
+
+  const missing = (['exam_date', 'city', 'state', 'zip'] as const).filter((field) => !columns.has(field));
+  if (missing.length > 0) {
+    return {
+      sessions: [],
+      errors: [{ row: 1, errors: [`Missing required column(s): ${missing.join(', ')}`] }],
+    };
+  }
+
+  const sessions: ImportedExamSession[] = [];
+  const errors: SessionRowError[] = [];
+
+  for (let i = 1; i < rows.length; i++) {
+    const values = rows[i];
+    const get = (field: keyof ImportedExamSession) => {
+      const index = columns.get(field);
+      return index === undefined ? undefined : values[index];
+    };
+
+    const rowErrors: string[] = [];
+
+    const examDate = parseExamDate(get('exam_date'));
+    if (!examDate) rowErrors.push(`Invalid exam date "${get('exam_date') ?? ''}"`);
+
+    const city = normalizeText(get('city'));
+    if (!city) rowErrors.push('City is required');
+
+    const state = normalizeState(get('state'));
+    if (!state) rowErrors.push(`Invalid state "${get('state') ?? ''}"`);
+
+    const zip = normalizeZip(get('zip'));
+    if (!zip) rowErrors.push(`Invalid ZIP code "${get('zip') ?? ''}"`);
+
+    const walkIns = parseWalkIns(get('walk_ins_allowed'));
+    if (walkIns === null) rowErrors.push(`Unrecognized walk-ins value "${get('walk_ins_allowed')}"`);
+
+    if (rowErrors.length > 0) {
+      errors.push({ row: i + 1, errors: rowErrors });
+      continue;
+    }
+
+    sessions.push({
+      title: normalizeText(get('title')),
+      exam_date: examDate!,
+      exam_time: normalizeText(get('exam_time')),
+      sponsor: normalizeText(get('sponsor')),
+      walk_ins_allowed: walkIns!,
+      public_contact: normalizeText(get('public_contact')),
+      phone: normalizeText(get('phone')),
+      email: normalizeText(get('email'))?.toLowerCase() ?? null,
+      vec: normalizeText(get('vec')),
+      location_name: normalizeText(get('location_name')),
+      address: normalizeStreet(get('address')),
+      address_2: normalizeStreet(get('address_2')),
+      address_3: normalizeStreet(get('address_3')),
+      city: city!,
+      state: state!,
+      zip: zip!,
+    });
+  }
+
+  return { sessions, errors };
+}
+
+/**
+ * Parse exam-session CSV text.
+ */
+export function parseExamSessionCSV(text: string): SessionParseResult {
+  return parseExamSessionRows(parseCSVRows(text));
+}
+
+/**
+ * Parse an exam-session export file (.csv or .xlsx).
+ */
+export async function parseExamSessionFile(file: File): Promise<SessionParseResult> {
+  if (file.name.toLowerCase().endsWith('.xlsx')) {
+    return parseExamSessionRows(await extractRowsFromXlsx(await file.arrayBuffer()));
+  }
+  return parseExamSessionCSV(await file.text());
+}
+
+// =============================================================================
+// DIFF
+// =============================================================================
+
+/**
+ * Whether an updated session must be geocoded again: its location moved or
+ * the stored copy was never geocoded. Spelling-only address edits ("N Main St"
+ * to "North Main Street") keep the stored coordinates.
+ */
+export function needsRegeocoding(update: SessionUpdate): boolean {
+  const { existing, incoming } = update;
+  if (existing.latitude === null || existing.longitude === null) return true;
+
+  return (
+    normalizeAddressKey(existing.address) !== normalizeAddressKey(incoming.address) ||
+    existing.city.toLowerCase() !== incoming.city.toLowerCase() ||
+    existing.state !== incoming.state ||
+    existing.zip.slice(0, 5) !== incoming.zip.slice(0, 5)
+  );
+}
+
+/**
+ * Compare a feed against the stored sessions.
+ *
+ * @param incoming - Parsed feed sessions
+ * @param existing - Sessions currently in the database
+ * @param today - Local YYYY-MM-DD; earlier sessions count as past
+ */
+export function diffExamSessions<T extends StoredExamSession>(
+  incoming: ImportedExamSession[],
+  existing: T[],
+  today: string
+): ExamSessionDiff<T> {
+  const diff: ExamSessionDiff<T> = {
+    added: [],
+    updated: [],
+    unchanged: [],
+    past: [],
+    removed: [],
+    skippedPast: [],
+  };
+
+  const upcomingByKey = new Map<string, T>();
+  for (const session of existing) {
+    if (session.exam_date < today) {
+      diff.past.push(session);
+    } else {
+      upcomingByKey.set(sessionKey(session), session);
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const session of incoming) {
+    if (session.exam_date < today) {
+      diff.skippedPast.push(session);
+      continue;
+    }
+
+    const key = sessionKey(session);
+    // The feed sometimes lists a session twice; the first row wins
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const match = upcomingByKey.get(key);
+    if (!match) {
+      diff.added.push(session);
+      continue;
+    }
+
+    const changes = COMPARED_FIELDS.filter(
+      (field) => (match[field] ?? (field === 'walk_ins_allowed' ? false : null)) !== session[field]
+    );
+    if (changes.length > 0) {
+      diff.updated.push({ existing: match, incoming: session, changes });
+    } else {
+      diff.unchanged.push(match);
+    }
+  }
+
+  for (const [key, session] of upcomingByKey) {
+    if (!seen.has(key)) diff.removed.push(session);
+  }
+
+  return diff;
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import {
+  distanceMiles,
+  isValidZip,
+  getBoundingBox,
+  filterExamSessions,
+  getVecOptions,
+  daysUntilExam,
+  SearchableSession,
+} from './examSessionSearch';
+
+const RALEIGH = { latitude: 35.7796, longitude: -78.6382 };
+const DURHAM = { latitude: 35.994, longitude: -78.8986 };
+const CHARLOTTE = { latitude: 35.2271, longitude: -80.8431 };
+
+function makeSession(
+  id: string,
+  overrides: Partial<SearchableSession> = {}
+): SearchableSession & { id: string } {
+  return {
+    id,
+    exam_date: '2026-11-07',
+    latitude: RALEIGH.latitude,
+    longitude: RALEIGH.longitude,
+    vec: 'ARRL/VEC',
+    walk_ins_allowed: false,
+    ...overrides,
+  };
+}
+
+describe('distanceMiles', () => {
+  it('returns 0 for the same point', () => {
+    expect(distanceMiles(RALEIGH, RALEIGH)).toBe(0);
+  });
+
+  it('computes great-circle distance', () => {
+    // Raleigh to Durham is about 21 miles as the crow flies
+    expect(distanceMiles(RALEIGH, DURHAM)).toBeCloseTo(21, 0);
+    // Raleigh to Charlotte is about 130 miles
+    expect(distanceMiles(RALEIGH, CHARLOTTE)).toBeGreaterThan(125);
+    expect(distanceMiles(RALEIGH, CHARLOTTE)).toBeLessThan(135);
+  });
+
+  it('is symmetric', () => {
+    expect(distanceMiles(RALEIGH, DURHAM)).toBeCloseTo(distanceMiles(DURHAM, RALEIGH), 10);
+  });
+});
+
+describe('getBoundingBox', () => {
+  it('contains points inside the radius', () => {
+    const box = getBoundingBox(RALEIGH, 25);
+    expect(DURHAM.latitude).toBeGreaterThan(box.minLatitude);
+    expect(DURHAM.latitude).toBeLessThan(box.maxLatitude);
+    expect(DURHAM.longitude).toBeGreaterThan(box.minLongitude);
+    expect(DURHAM.longitude).toBeLessThan(box.maxLongitude);
+  });
+
+  it('excludes points well outside the radius', () => {
+    const box = getBoundingBox(RALEIGH, 50);
+    expect(CHARLOTTE.longitude).toBeLessThan(box.minLongitude);
+  });
+
+  it('is centered on the origin', () => {
+    const box = getBoundingBox(RALEIGH, 10);
+    expect((box.minLatitude + box.maxLatitude) / 2).toBeCloseTo(RALEIGH.latitude, 10);
+    expect((box.minLongitude + box.maxLongitude) / 2).toBeCloseTo(RALEIGH.longitude, 10);
+  });
+});
+
+describe('isValidZip', () => {
+  it('accepts 5-digit and ZIP+4 codes', () => {
+    expect(isValidZip('27601')).toBe(true);
+    expect(isValidZip('27601-1234')).toBe(true);
+    expect(isValidZip(' 27601 ')).toBe(true);
+  });
+
+  it('rejects anything else', () => {
+    expect(isValidZip('')).toBe(false);
+    expect(isValidZip('2760')).toBe(false);
+    expect(isValidZip('ABCDE')).toBe(false);
+    expect(isValidZip('27601-12')).toBe(false);
+  });
+});
+
+describe('filterExamSessions', () => {
+  const sessions = [
+    makeSession('raleigh-early', { exam_date: '2026-11-01' }),
+    makeSession('raleigh-late', { exam_date: '2026-12-05', walk_ins_allowed: true }),
+    makeSession('durham', { ...DURHAM, vec: 'W5YI', walk_ins_allowed: true }),
+    makeSession('charlotte', { ...CHARLOTTE, vec: 'Laurel VEC' }),
+    makeSession('no-coords', { latitude: null, longitude: null }),
+  ];
+
+  it('returns all sessions sorted by date with no filters or origin', () => {
+    const result = filterExamSessions(sessions, {});
+    expect(result.map(s => s.id)[0]).toBe('raleigh-early');
+    expect(result.map(s => s.id).at(-1)).toBe('raleigh-late');
+    expect(result).toHaveLength(5);
+    expect(result.every(s => s.distanceMiles === null)).toBe(true);
+  });
+
+  it('filters by inclusive date range', () => {
+    const result = filterExamSessions(sessions, { fromDate: '2026-11-07', toDate: '2026-11-07' });
+    expect(result.map(s => s.id).sort()).toEqual(['charlotte', 'durham', 'no-coords']);
+  });
+
+  it('filters by VEC', () => {
+    const result = filterExamSessions(sessions, { vec: 'W5YI' });
+    expect(result.map(s => s.id)).toEqual(['durham']);
+  });
+
+  it('filters to walk-in sessions', () => {
+    const result = filterExamSessions(sessions, { walkInsOnly: true });
+    expect(result.map(s => s.id)).toEqual(['durham', 'raleigh-late']);
+  });
+
+  it('sorts by distance from origin and drops sessions without coordinates', () => {
+    const result = filterExamSessions(sessions, {}, RALEIGH);
+    expect(result.map(s => s.id)).toEqual(['raleigh-early', 'raleigh-late', 'durham', 'charlotte']);
+    expect(result[0].distanceMiles).toBe(0);
+  });
+
+  it('applies the radius only when an origin is given', () => {
+    const near = filterExamSessions(sessions, { radiusMiles: 50 }, RALEIGH);
+    expect(near.map(s => s.id)).toEqual(['raleigh-early', 'raleigh-late', 'durham']);
+
+    const noOrigin = filterExamSessions(sessions, { radiusMiles: 50 });
+    expect(noOrigin).toHaveLength(5);
+  });
+
+  it('does not mutate the input', () => {
+    const input = [makeSession('a')];
+    filterExamSessions(input, {}, RALEIGH);
+    expect(input[0]).not.toHaveProperty('distanceMiles');
+  });
+});
+
+describe('getVecOptions', () => {
+  it('returns distinct sorted VEC names, skipping nulls', () => {
+    const result = getVecOptions([
+      makeSession('1', { vec: 'W5YI' }),
+      makeSession('2', { vec: 'ARRL/VEC' }),
+      makeSession('3', { vec: 'W5YI' }),
+      makeSession('4', { vec: null }),
+    ]);
+    expect(result).toEqual(['ARRL/VEC', 'W5YI']);
+  });
+});
+
+describe('daysUntilExam', () => {
+  const today = new Date(2026, 9, 18, 21, 30); // Oct 18, 2026 local evening
+
+  it('counts whole calendar days', () => {
+    expect(daysUntilExam('2026-10-19', today)).toBe(1);
+    expect(daysUntilExam('2026-11-07', today)).toBe(20);
+  });
+
+  it('returns 0 on exam day and negative after', () => {
+    expect(daysUntilExam('2026-10-18', today)).toBe(0);
+    expect(daysUntilExam('2026-10-10', today)).toBe(-8);
+  });
+
+  it('is not thrown off by DST changes', () => {
+    expect(daysUntilExam('2026-11-10', new Date(2026, 10, 1))).toBe(9);
+  });
+});
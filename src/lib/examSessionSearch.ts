@@ -0,0 +1,162 @@
+/**
+ * Exam Session Search
+ * ===================
+ *
+ * Pure filtering for the "Find an exam" view. Sessions inside a date range and
+ * a rough bounding box are loaded from `exam_sessions`; the exact distance,
+ * VEC and walk-in filters are applied here so toggling them never costs
+ * another query.
+ */
+
+/** Mean Earth radius in statute miles */
+const EARTH_RADIUS_MILES = 3958.8;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/** Radius choices offered in the finder (miles) */
+export const RADIUS_OPTIONS = [10, 25, 50, 100, 250] as const;
+
+export const DEFAULT_RADIUS_MILES = 50;
+
+export interface Coordinates {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+}
+
+/** The exam_sessions columns the filters look at */
+export interface SearchableSession {
+  exam_date: string;
+  latitude: number | null;
+  longitude: number | null;
+  vec: string | null;
+  walk_ins_allowed: boolean | null;
+}
+
+export interface SessionFilters {
+  /** Inclusive YYYY-MM-DD bounds */
+  fromDate?: string;
+  toDate?: string;
+  /** Exact VEC name; empty or undefined means any VEC */
+  vec?: string;
+  walkInsOnly?: boolean;
+  /** Only applied when an origin is given */
+  radiusMiles?: number;
+}
+
+export type SessionWithDistance<T> = T & {
+  /** Miles from the search origin, or null when either point is unknown */
+  distanceMiles: number | null;
+};
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Great-circle distance between two points (haversine formula).
+ */
+export function distanceMiles(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) *
+      Math.cos(toRadians(to.latitude)) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Latitude/longitude box that contains every point within a radius.
+ * Used to narrow the database query before the exact distance check.
+ */
+export function getBoundingBox(origin: Coordinates, radiusMiles: number): BoundingBox {
+  const latDelta = (radiusMiles / EARTH_RADIUS_MILES) * (180 / Math.PI);
+  // Longitude degrees shrink toward the poles; clamp to avoid dividing by ~0
+  const cosLat = Math.max(Math.cos(toRadians(origin.latitude)), 0.01);
+  const lonDelta = latDelta / cosLat;
+  return {
+    minLatitude: origin.latitude - latDelta,
+    maxLatitude: origin.latitude + latDelta,
+    minLongitude: origin.longitude - lonDelta,
+    maxLongitude: origin.longitude + lonDelta,
+  };
+}
+
+/**
+ * Validate a US ZIP code (5 digits, optional +4).
+ */
+export function isValidZip(zip: string): boolean {
+  return /^\d{5}(-\d{4})?$/.test(zip.trim());
+}
+
+/**
+ * Apply the finder filters and sort the result.
+ *
+ * With an origin, sessions without coordinates are dropped (we can't tell how
+ * far away they are) and results are sorted nearest first, then by date.
+ * Without an origin, results are sorted by date only.
+ */
+export function filterExamSessions<T extends SearchableSession>(
+  sessions: T[],
+  filters: SessionFilters,
+  origin?: Coordinates | null
+): SessionWithDistance<T>[] {
+  const { fromDate, toDate, vec, walkInsOnly, radiusMiles } = filters;
+
+  const results: SessionWithDistance<T>[] = [];
+  for (const session of sessions) {
+    if (fromDate && session.exam_date < fromDate) continue;
+    if (toDate && session.exam_date > toDate) continue;
+    if (vec && session.vec !== vec) continue;
+    if (walkInsOnly && session.walk_ins_allowed !== true) continue;
+
+    let distance: number | null = null;
+    if (origin) {
+      if (session.latitude === null || session.longitude === null) continue;
+      distance = distanceMiles(origin, {
+        latitude: session.latitude,
+        longitude: session.longitude,
+      });
+      if (radiusMiles !== undefined && distance > radiusMiles) continue;
+    }
+
+    results.push({ ...session, distanceMiles: distance });
+  }
+
+  return results.sort((a, b) => {
+    if (a.distanceMiles !== null && b.distanceMiles !== null && a.distanceMiles !== b.distanceMiles) {
+      return a.distanceMiles - b.distanceMiles;
+    }
+    return a.exam_date.localeCompare(b.exam_date);
+  });
+}
+
+/**
+ * Distinct, sorted VEC names for the VEC filter.
+ */
+export function getVecOptions(sessions: SearchableSession[]): string[] {
+  const vecs = new Set<string>();
+  for (const session of sessions) {
+    if (session.vec) vecs.add(session.vec);
+  }
+  return [...vecs].sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Whole days from today until an exam date (YYYY-MM-DD), in local time.
+ * Returns 0 on exam day and a negative number once the exam has passed.
+ */
+export function daysUntilExam(examDate: string, today: Date = new Date()): number {
+  const [year, month, day] = examDate.split('-').map(Number);
+  const exam = Date.UTC(year, month - 1, day);
+  const start = Date.UTC(today.getFullYear(), today.getMonth(), today.getDate());
+  return Math.round((exam - start) / MS_PER_DAY);
+}
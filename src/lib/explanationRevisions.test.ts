@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { needsForumSync } from './explanationRevisions';
+
+const question = {
+  display_name: 'T5A01',
+  question: 'Electrical current is measured in which of the following units?',
+  explanation: 'Current is measured in amperes.',
+  forum_url: 'https://forum.openhamprep.com/t/t5a01/42',
+};
+
+const reviewed = (explanation: string, forum_url: string | null = question.forum_url) => ({
+  question_id: 'q1',
+  explanation,
+  forum_url,
+});
+
+describe('needsForumSync', () => {
+  describe('forum revisions', () => {
+    const revision = {
+      source: 'forum' as const,
+      proposed_explanation: 'Current is measured in amperes (amps).',
+      question,
+    };
+
+    it('leaves the post alone when the proposal was published as is', () => {
+      expect(needsForumSync(revision, reviewed('Current is measured in amperes (amps).'))).toBe(false);
+    });
+
+    it('rewrites the post when the proposal was edited', () => {
+      expect(needsForumSync(revision, reviewed('Current is measured in amperes, or amps.'))).toBe(true);
+    });
+
+    it('restores the published explanation when the proposal was rejected', () => {
+      expect(needsForumSync(revision, reviewed(question.explanation))).toBe(true);
+    });
+  });
+
+  describe('feedback revisions', () => {
+    const revision = { source: 'feedback' as const, proposed_explanation: question.explanation, question };
+
+    it('rewrites the post when the approval changed the explanation', () => {
+      expect(needsForumSync(revision, reviewed('Current is measured in amperes; 1 A is 1 C/s.'))).toBe(true);
+    });
+
+    it('leaves the post alone when nothing changed', () => {
+      expect(needsForumSync(revision, reviewed(question.explanation))).toBe(false);
+    });
+  });
+
+  it('never syncs questions without a forum post', () => {
+    const revision = { source: 'forum' as const, proposed_explanation: 'New', question };
+    expect(needsForumSync(revision, reviewed('Edited', null))).toBe(false);
+  });
+});
@@ -0,0 +1,23 @@
+import type { ExplanationRevision, ReviewedExplanation } from '@/services/moderation/moderationService';
+
+/**
+ * Whether the question's forum post must be rewritten after a review so it
+ * shows the published explanation again.
+ *
+ * A forum revision's post already shows the proposal, so it only needs
+ * rewriting when the moderator rejected or edited it. A feedback revision's
+ * post shows the old explanation, so it needs rewriting when an approval
+ * changed it.
+ */
+export function needsForumSync(
+  revision: Pick<ExplanationRevision, 'source' | 'proposed_explanation' | 'question'>,
+  reviewed: ReviewedExplanation
+): boolean {
+  if (!reviewed.forum_url) return false;
+
+  const published = reviewed.explanation ?? '';
+  if (revision.source === 'forum') {
+    return published !== revision.proposed_explanation;
+  }
+  return published !== (revision.question?.explanation ?? '');
+}
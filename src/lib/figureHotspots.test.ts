@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { nextHotspotLabel, positionFromClick, sortHotspots, validateHotspots, type HotspotDraft } from './figureHotspots';
+
+const draft = (label: string, name = `Component ${label}`): HotspotDraft => ({
+  label,
+  name,
+  description: '',
+  x: 10,
+  y: 20,
+  glossaryTermId: null,
+});
+
+describe('positionFromClick', () => {
+  const rect = { left: 100, top: 50, width: 400, height: 200 };
+
+  it('converts a click to percentages of the image', () => {
+    expect(positionFromClick(200, 100, rect)).toEqual({ x: 25, y: 25 });
+    expect(positionFromClick(500, 250, rect)).toEqual({ x: 100, y: 100 });
+  });
+
+  it('clamps clicks outside the image and rounds to two decimals', () => {
+    expect(positionFromClick(50, 300, rect)).toEqual({ x: 0, y: 100 });
+    expect(positionFromClick(101, 51, { left: 0, top: 0, width: 300, height: 300 })).toEqual({ x: 33.67, y: 17 });
+  });
+
+  it('uses the center before the image has a size', () => {
+    expect(positionFromClick(10, 10, { left: 0, top: 0, width: 0, height: 0 })).toEqual({ x: 50, y: 50 });
+  });
+});
+
+describe('nextHotspotLabel', () => {
+  it('numbers after the highest label', () => {
+    expect(nextHotspotLabel([])).toBe('1');
+    expect(nextHotspotLabel([draft('1'), draft('4'), draft('2')])).toBe('5');
+  });
+
+  it('counts when labels are not numbers', () => {
+    expect(nextHotspotLabel([draft('A'), draft('B')])).toBe('3');
+  });
+});
+
+describe('validateHotspots', () => {
+  it('accepts labeled, named hotspots', () => {
+    expect(validateHotspots([draft('1'), draft('2')])).toBeNull();
+  });
+
+  it('requires labels and names', () => {
+    expect(validateHotspots([draft(' ')])).toBe('Every hotspot needs a label');
+    expect(validateHotspots([draft('3', '')])).toBe('Hotspot 3 needs a name');
+  });
+
+  it('rejects duplicate labels', () => {
+    expect(validateHotspots([draft('a'), draft('A')])).toBe('Label A is used more than once');
+  });
+});
+
+describe('sortHotspots', () => {
+  it('sorts numeric labels in number order', () => {
+    expect(sortHotspots([draft('10'), draft('2'), draft('1')]).map((h) => h.label)).toEqual(['1', '2', '10']);
+  });
+});
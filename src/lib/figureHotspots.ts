@@ -0,0 +1,62 @@
+/**
+ * Helpers for labeled hotspots on question figures. Hotspot positions are
+ * percentages of the image size, so they line up at any display size and
+ * survive a figure being re-uploaded at a different resolution.
+ */
+
+export interface HotspotDraft {
+  label: string;
+  name: string;
+  description: string;
+  x: number;
+  y: number;
+  glossaryTermId: string | null;
+}
+
+interface Rect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+const clampPercent = (value: number) => Math.min(100, Math.max(0, Math.round(value * 100) / 100));
+
+/**
+ * Position of a click on an image as percentages of its rendered size.
+ * Falls back to the center when the image has no size yet.
+ */
+export function positionFromClick(clientX: number, clientY: number, rect: Rect): { x: number; y: number } {
+  if (rect.width <= 0 || rect.height <= 0) return { x: 50, y: 50 };
+  return {
+    x: clampPercent(((clientX - rect.left) / rect.width) * 100),
+    y: clampPercent(((clientY - rect.top) / rect.height) * 100),
+  };
+}
+
+/**
+ * Label for a new hotspot: one more than the highest numeric label, since
+ * figures number their components 1, 2, 3...
+ */
+export function nextHotspotLabel(hotspots: Pick<HotspotDraft, 'label'>[]): string {
+  const numbers = hotspots.map((h) => Number(h.label)).filter((n) => Number.isInteger(n) && n > 0);
+  return String(numbers.length > 0 ? Math.max(...numbers) + 1 : hotspots.length + 1);
+}
+
+/** First problem that would stop a set of hotspots from saving, or null */
+export function validateHotspots(hotspots: HotspotDraft[]): string | null {
+  const labels = new Set<string>();
+  for (const hotspot of hotspots) {
+    const label = hotspot.label.trim();
+    if (!label) return 'Every hotspot needs a label';
+    if (!hotspot.name.trim()) return `Hotspot ${label} needs a name`;
+    if (labels.has(label.toLowerCase())) return `Label ${label} is used more than once`;
+    labels.add(label.toLowerCase());
+  }
+  return null;
+}
+
+/** Order hotspots by label, numerically where labels are numbers */
+export function sortHotspots<T extends Pick<HotspotDraft, 'label'>>(hotspots: T[]): T[] {
+  return [...hotspots].sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { getFocusAreas } from './focusAreas';
+import type { SubelementMetric } from '@/services/readiness/readinessService';
+
+const metric = (risk_score: number): SubelementMetric => ({
+  accuracy: 0.7,
+  recent_accuracy: 0.75,
+  coverage: 0.5,
+  mastery: 0.6,
+  risk_score,
+  expected_score: 2.5,
+  weight: 5,
+  pool_size: 50,
+  attempts_count: 25,
+  recent_attempts_count: 10,
+});
+
+describe('getFocusAreas', () => {
+  it('returns the riskiest subelements first with their names', () => {
+    const areas = getFocusAreas(
+      { T1: metric(0.2), T2: metric(0.6), T3: metric(0.05), T4: metric(0.4) },
+      'technician'
+    );
+
+    expect(areas.map((a) => a.subelement)).toEqual(['T2', 'T4', 'T1']);
+    expect(areas[0]).toEqual({ subelement: 'T2', name: 'Operating Procedures', riskScore: 0.6 });
+  });
+
+  it('honours a custom limit', () => {
+    expect(getFocusAreas({ T1: metric(0.2), T2: metric(0.6) }, 'technician', 1)).toHaveLength(1);
+  });
+
+  it('returns nothing when no subelement is risky enough', () => {
+    expect(getFocusAreas({ T1: metric(0.05), T2: metric(0.09) }, 'technician')).toEqual([]);
+  });
+
+  it('returns nothing without metrics', () => {
+    expect(getFocusAreas(undefined, 'technician')).toEqual([]);
+    expect(getFocusAreas(null, 'technician')).toEqual([]);
+  });
+});
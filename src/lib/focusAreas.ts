@@ -0,0 +1,44 @@
+import { getSubelementName } from '@/lib/subelementNames';
+import type { SubelementMetric } from '@/services/readiness/readinessService';
+import type { TestType } from '@/types/navigation';
+
+/** Minimum risk score to display a section in Focus Areas */
+export const MIN_RISK_SCORE_THRESHOLD = 0.1;
+
+/** Maximum number of focus areas to display */
+export const MAX_FOCUS_AREAS = 3;
+
+export interface FocusArea {
+  subelement: string;
+  name: string;
+  riskScore: number;
+}
+
+/**
+ * The riskiest subelements from readiness `subelement_metrics`, highest
+ * risk first. Returns an empty list when none of them is risky enough to
+ * be worth a learner's (or instructor's) attention.
+ */
+export function getFocusAreas(
+  subelementMetrics: Record<string, SubelementMetric> | null | undefined,
+  testType: TestType,
+  maxAreas: number = MAX_FOCUS_AREAS
+): FocusArea[] {
+  if (!subelementMetrics) return [];
+
+  const focusAreas = Object.entries(subelementMetrics)
+    .sort((a, b) => b[1].risk_score - a[1].risk_score)
+    .slice(0, maxAreas)
+    .map(([code, metric]) => ({
+      subelement: code,
+      name: getSubelementName(testType, code),
+      riskScore: metric.risk_score,
+    }));
+
+  // If all risk scores are 0 or very low, there's nothing to focus on
+  if (focusAreas.every(area => area.riskScore < MIN_RISK_SCORE_THRESHOLD)) {
+    return [];
+  }
+
+  return focusAreas;
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GLOSSARY_MASTERY_CORRECT,
+  acceptedAnswers,
+  buildChoices,
+  canBuildChoices,
+  checkTypedAnswer,
+  deckProgress,
+  levenshtein,
+  nextTermProgress,
+  normalizeAnswer,
+  orderForStudy,
+  type GlossaryTermProgress,
+} from './glossaryDrill';
+
+/** Deterministic random source cycling through the given values */
+function sequence(...values: number[]) {
+  let i = 0;
+  return () => values[i++ % values.length];
+}
+
+const term = (id: string, termText: string, definition: string) => ({ id, term: termText, definition });
+
+const qCodes = [
+  term('1', 'QTH', 'What is your location?'),
+  term('2', 'QSL', 'Can you acknowledge receipt?'),
+  term('3', 'QRM', 'Is my transmission being interfered with?'),
+  term('4', 'QRN', 'Are you troubled by static?'),
+  term('5', 'QSY', 'Shall I change frequency?'),
+];
+
+const progressOf = (termId: string, timesSeen: number, timesCorrect: number, mastered = false): GlossaryTermProgress => ({
+  termId,
+  timesSeen,
+  timesCorrect,
+  mastered,
+  lastSeenAt: null,
+});
+
+describe('normalizeAnswer', () => {
+  it('ignores case, accents, punctuation and spacing', () => {
+    expect(normalizeAnswer('  Décibel (dB) ')).toBe('decibel db');
+    expect(normalizeAnswer('S-meter')).toBe('s meter');
+  });
+});
+
+describe('acceptedAnswers', () => {
+  it('accepts either side of a parenthetical', () => {
+    expect(acceptedAnswers('Decibel (dB)')).toEqual(['decibel db', 'decibel', 'db']);
+    expect(acceptedAnswers('QTH')).toEqual(['qth']);
+  });
+});
+
+describe('levenshtein', () => {
+  it('counts single-character edits', () => {
+    expect(levenshtein('kitten', 'sitting')).toBe(3);
+    expect(levenshtein('', 'abc')).toBe(3);
+    expect(levenshtein('same', 'same')).toBe(0);
+  });
+});
+
+describe('checkTypedAnswer', () => {
+  it('accepts exact answers regardless of case', () => {
+    expect(checkTypedAnswer('qth', 'QTH')).toEqual({ correct: true, closeMatch: false });
+  });
+
+  it('requires short answers to be exact', () => {
+    expect(checkTypedAnswer('QTR', 'QTH').correct).toBe(false);
+    expect(checkTypedAnswer('SK', 'AR').correct).toBe(false);
+  });
+
+  it('forgives small typos in longer answers', () => {
+    expect(checkTypedAnswer('Fox trot', 'Foxtrot')).toEqual({ correct: true, closeMatch: true });
+    expect(checkTypedAnswer('Standing wave ration', 'Standing wave ratio').correct).toBe(true);
+    expect(checkTypedAnswer('Foxhound', 'Foxtrot').correct).toBe(false);
+  });
+
+  it('accepts the abbreviation from a parenthetical', () => {
+    expect(checkTypedAnswer('dB', 'Decibel (dB)').correct).toBe(true);
+    expect(checkTypedAnswer('decibal', 'Decibel (dB)').correct).toBe(true);
+  });
+
+  it('rejects a blank answer', () => {
+    expect(checkTypedAnswer('  ', 'QTH').correct).toBe(false);
+  });
+});
+
+describe('buildChoices', () => {
+  it('offers the answer and three other terms from the deck', () => {
+    const choices = buildChoices(qCodes[0], qCodes, sequence(0.3, 0.7, 0.1));
+
+    expect(choices).toHaveLength(4);
+    expect(choices).toContain(qCodes[0]);
+    expect(new Set(choices.map((c) => c.id)).size).toBe(4);
+  });
+
+  it('uses every other term in a small deck', () => {
+    const choices = buildChoices(qCodes[0], qCodes.slice(0, 2));
+
+    expect(choices.map((c) => c.id).sort()).toEqual(['1', '2']);
+  });
+
+  it('skips terms with the same definition as the answer', () => {
+    const deck = [qCodes[0], term('9', 'Location', 'What is your location?'), qCodes[1]];
+
+    expect(buildChoices(qCodes[0], deck).map((c) => c.id).sort()).toEqual(['1', '2']);
+  });
+
+  it('needs two distinct definitions', () => {
+    expect(canBuildChoices(qCodes.slice(0, 1))).toBe(false);
+    expect(canBuildChoices(qCodes.slice(0, 2))).toBe(true);
+  });
+});
+
+describe('nextTermProgress', () => {
+  it('counts answers and masters a term after enough correct ones', () => {
+    let progress = nextTermProgress(undefined, true);
+    expect(progress).toEqual({ timesSeen: 1, timesCorrect: 1, mastered: false });
+
+    for (let i = 1; i < GLOSSARY_MASTERY_CORRECT; i++) {
+      progress = nextTermProgress(progress, true);
+    }
+    expect(progress.mastered).toBe(true);
+  });
+
+  it('clears mastery on a miss', () => {
+    expect(nextTermProgress({ timesSeen: 5, timesCorrect: 5 }, false)).toEqual({
+      timesSeen: 6,
+      timesCorrect: 5,
+      mastered: false,
+    });
+  });
+
+  it('holds back mastery while lifetime accuracy is low', () => {
+    expect(nextTermProgress({ timesSeen: 6, timesCorrect: 2 }, true).mastered).toBe(false);
+  });
+});
+
+describe('deckProgress', () => {
+  it('summarizes the deck terms only', () => {
+    const progress = new Map([
+      ['1', progressOf('1', 4, 4, true)],
+      ['2', progressOf('2', 2, 1)],
+      ['other', progressOf('other', 10, 0)],
+    ]);
+
+    expect(deckProgress(qCodes, progress)).toEqual({ total: 5, seen: 2, mastered: 1, accuracy: 5 / 6 });
+  });
+
+  it('has no accuracy before any answers', () => {
+    expect(deckProgress(qCodes, new Map()).accuracy).toBeNull();
+  });
+});
+
+describe('orderForStudy', () => {
+  it('puts mastered terms last', () => {
+    const progress = new Map([
+      ['1', progressOf('1', 3, 3, true)],
+      ['3', progressOf('3', 3, 3, true)],
+    ]);
+
+    const ordered = orderForStudy(qCodes, progress);
+
+    expect(ordered.slice(3).map((t) => t.id).sort()).toEqual(['1', '3']);
+    expect(ordered).toHaveLength(5);
+  });
+});
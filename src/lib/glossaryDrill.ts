@@ -0,0 +1,216 @@
+/**
+ * Glossary deck drills: typed-recall grading with typo tolerance, multiple
+ * choice built from the rest of a deck, and the per-term progress kept in
+ * glossary_progress. Everything here is pure so it can be tested without
+ * Supabase.
+ */
+
+export type GlossaryDrillMode =
+  | 'term-to-definition'
+  | 'definition-to-term'
+  | 'typed'
+  | 'multiple-choice';
+
+/** The parts of a glossary term a drill needs */
+export interface DrillTerm {
+  id: string;
+  term: string;
+  definition: string;
+}
+
+/** Multiple choice shows up to this many definitions, one of them correct */
+export const MULTIPLE_CHOICE_OPTIONS = 4;
+/** Correct answers a term needs before it counts as mastered */
+export const GLOSSARY_MASTERY_CORRECT = 3;
+/** Lifetime accuracy a term needs before it counts as mastered */
+export const GLOSSARY_MASTERY_ACCURACY = 0.8;
+
+/**
+ * Lowercase, strip accents and punctuation and collapse whitespace, so
+ * "Decibel (dB)" and "decibel db" compare equal.
+ */
+export function normalizeAnswer(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Answers that count for a term: the whole term, the term without a trailing
+ * parenthetical and the parenthetical on its own ("Decibel (dB)" accepts
+ * "decibel" and "dB").
+ */
+export function acceptedAnswers(term: string): string[] {
+  const answers = new Set([normalizeAnswer(term)]);
+  const match = term.match(/^(.*?)\s*\(([^)]+)\)\s*$/);
+  if (match) {
+    answers.add(normalizeAnswer(match[1]));
+    answers.add(normalizeAnswer(match[2]));
+  }
+  answers.delete('');
+  return [...answers];
+}
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Typos allowed for an answer of this length. Short answers must be exact,
+ * since QTH and QTR or AR and SK are different answers, not typos.
+ */
+export function typoTolerance(length: number): number {
+  if (length <= 4) return 0;
+  if (length <= 8) return 1;
+  return 2;
+}
+
+export interface TypedAnswerResult {
+  correct: boolean;
+  /** Correct but with a typo, so the right spelling is worth showing */
+  closeMatch: boolean;
+}
+
+export function checkTypedAnswer(answer: string, term: string): TypedAnswerResult {
+  const given = normalizeAnswer(answer);
+  if (!given) return { correct: false, closeMatch: false };
+
+  let best = Infinity;
+  let bestLength = 0;
+  for (const accepted of acceptedAnswers(term)) {
+    const distance = levenshtein(given, accepted);
+    if (distance < best) {
+      best = distance;
+      bestLength = accepted.length;
+    }
+  }
+
+  const correct = best <= typoTolerance(bestLength);
+  return { correct, closeMatch: correct && best > 0 };
+}
+
+/**
+ * Shuffled options for a multiple-choice card: the term itself plus up to
+ * three others from the same deck. Terms sharing the answer's definition are
+ * left out so there is only one right answer.
+ */
+export function buildChoices<T extends DrillTerm>(
+  answer: T,
+  deckTerms: T[],
+  random: () => number = Math.random
+): T[] {
+  const answerDefinition = normalizeAnswer(answer.definition);
+  const seen = new Set([answerDefinition]);
+  const distractors: T[] = [];
+
+  for (const term of shuffle(deckTerms, random)) {
+    const definition = normalizeAnswer(term.definition);
+    if (term.id === answer.id || seen.has(definition)) continue;
+    seen.add(definition);
+    distractors.push(term);
+    if (distractors.length === MULTIPLE_CHOICE_OPTIONS - 1) break;
+  }
+
+  return shuffle([answer, ...distractors], random);
+}
+
+/** Multiple choice needs at least one other term to choose between */
+export function canBuildChoices(deckTerms: DrillTerm[]): boolean {
+  return new Set(deckTerms.map((t) => normalizeAnswer(t.definition))).size >= 2;
+}
+
+export function shuffle<T>(items: T[], random: () => number = Math.random): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+/** One user's glossary_progress row for a term */
+export interface GlossaryTermProgress {
+  termId: string;
+  timesSeen: number;
+  timesCorrect: number;
+  mastered: boolean;
+  lastSeenAt: string | null;
+}
+
+/**
+ * Progress after one more answer. A term is mastered once it has enough
+ * correct answers at the mastery accuracy; a miss always clears mastery so
+ * the term comes back into rotation.
+ */
+export function nextTermProgress(
+  previous: Pick<GlossaryTermProgress, 'timesSeen' | 'timesCorrect'> | undefined,
+  correct: boolean
+): Pick<GlossaryTermProgress, 'timesSeen' | 'timesCorrect' | 'mastered'> {
+  const timesSeen = (previous?.timesSeen ?? 0) + 1;
+  const timesCorrect = (previous?.timesCorrect ?? 0) + (correct ? 1 : 0);
+  const mastered =
+    correct &&
+    timesCorrect >= GLOSSARY_MASTERY_CORRECT &&
+    timesCorrect / timesSeen >= GLOSSARY_MASTERY_ACCURACY;
+
+  return { timesSeen, timesCorrect, mastered };
+}
+
+export interface DeckProgress {
+  total: number;
+  seen: number;
+  mastered: number;
+  /** Correct answers over all answers in the deck, or null before any */
+  accuracy: number | null;
+}
+
+export function deckProgress(
+  terms: DrillTerm[],
+  progress: Map<string, GlossaryTermProgress>
+): DeckProgress {
+  let seen = 0;
+  let mastered = 0;
+  let answers = 0;
+  let correct = 0;
+
+  for (const term of terms) {
+    const entry = progress.get(term.id);
+    if (!entry || entry.timesSeen === 0) continue;
+    seen++;
+    if (entry.mastered) mastered++;
+    answers += entry.timesSeen;
+    correct += entry.timesCorrect;
+  }
+
+  return { total: terms.length, seen, mastered, accuracy: answers > 0 ? correct / answers : null };
+}
+
+/**
+ * Order a session so terms not yet mastered come first (shuffled within each
+ * half), letting a short session focus on what still needs work.
+ */
+export function orderForStudy<T extends DrillTerm>(
+  terms: T[],
+  progress: Map<string, GlossaryTermProgress>,
+  random: () => number = Math.random
+): T[] {
+  const learning = terms.filter((t) => !progress.get(t.id)?.mastered);
+  const mastered = terms.filter((t) => progress.get(t.id)?.mastered);
+  return [...shuffle(learning, random), ...shuffle(mastered, random)];
+}
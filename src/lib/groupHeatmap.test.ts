@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { buildGroupHeatmap, groupHeatmapTone, untouchedGroups, type GroupHeatmapCell } from './groupHeatmap';
+
+const q = (displayName: string) => ({
+  id: `id-${displayName}`,
+  subelement: displayName.slice(0, 2),
+  group: displayName.slice(0, 3),
+});
+
+const questions = [q('T5B01'), q('T5A01'), q('T5A02'), q('T1A01'), q('T5C01')];
+
+const mastery = (id: string, totalAttempts: number, correctAttempts: number, isMastered = false) => ({
+  questionId: `id-${id}`,
+  totalAttempts,
+  correctAttempts,
+  isWeak: false,
+  isMastered,
+});
+
+const cell = (overrides: Partial<GroupHeatmapCell>): GroupHeatmapCell => ({
+  group: 'T1A',
+  poolSize: 10,
+  seen: 5,
+  mastered: 0,
+  coverage: 0.5,
+  accuracy: 0.8,
+  ...overrides,
+});
+
+describe('buildGroupHeatmap', () => {
+  it('has a row per subelement and a cell per group, sorted by code', () => {
+    const rows = buildGroupHeatmap(questions, []);
+
+    expect(rows.map((r) => r.subelement)).toEqual(['T1', 'T5']);
+    expect(rows[1].cells.map((c) => c.group)).toEqual(['T5A', 'T5B', 'T5C']);
+    expect(rows[1].cells[0].poolSize).toBe(2);
+  });
+
+  it('computes coverage, accuracy and mastery per group', () => {
+    const rows = buildGroupHeatmap(questions, [
+      mastery('T5A01', 3, 2, true),
+      mastery('T5A02', 1, 0),
+      mastery('T5B01', 0, 0),
+    ]);
+    const [t5a, t5b] = rows[1].cells;
+
+    expect(t5a).toEqual({ group: 'T5A', poolSize: 2, seen: 2, mastered: 1, coverage: 1, accuracy: 0.5 });
+    expect(t5b.seen).toBe(0);
+    expect(t5b.accuracy).toBeNull();
+  });
+
+  it('ignores mastery rows for questions outside the pool', () => {
+    const rows = buildGroupHeatmap(questions, [mastery('G1A01', 4, 4)]);
+
+    expect(rows.flatMap((r) => r.cells).every((c) => c.seen === 0)).toBe(true);
+  });
+});
+
+describe('groupHeatmapTone', () => {
+  it('grades attempted groups by accuracy', () => {
+    expect(groupHeatmapTone(cell({ accuracy: null }))).toBe('untouched');
+    expect(groupHeatmapTone(cell({ accuracy: 0.3 }))).toBe('weak');
+    expect(groupHeatmapTone(cell({ accuracy: 0.6 }))).toBe('fair');
+    expect(groupHeatmapTone(cell({ accuracy: 0.74 }))).toBe('strong');
+  });
+});
+
+describe('untouchedGroups', () => {
+  it('lists groups never attempted', () => {
+    const rows = buildGroupHeatmap(questions, [mastery('T5A01', 1, 1), mastery('T1A01', 2, 1)]);
+
+    expect(untouchedGroups(rows)).toEqual(['T5B', 'T5C']);
+  });
+});
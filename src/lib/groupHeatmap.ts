@@ -0,0 +1,91 @@
+/**
+ * Question-group heatmap: accuracy and coverage for every question group
+ * (T5A, T5B...) of an exam, from the learner's question_mastery rows. A real
+ * exam draws one question per group, so a group never touched is an exam
+ * slot the learner will almost certainly miss.
+ */
+
+import type { Question } from '@/hooks/useQuestions';
+import type { QuestionMasteryFlags } from '@/services/progress/progressService';
+
+export interface GroupHeatmapCell {
+  group: string;
+  poolSize: number;
+  /** Questions in the group answered at least once */
+  seen: number;
+  mastered: number;
+  /** seen / poolSize */
+  coverage: number;
+  /** Correct share of all attempts in the group; null if never attempted */
+  accuracy: number | null;
+}
+
+export interface GroupHeatmapRow {
+  subelement: string;
+  cells: GroupHeatmapCell[];
+}
+
+export type GroupHeatmapTone = 'untouched' | 'weak' | 'fair' | 'strong';
+
+/** Accuracy at or above which a group counts as strong (the 74% pass mark) */
+export const STRONG_GROUP_ACCURACY = 0.74;
+/** Accuracy below which a group counts as weak */
+export const WEAK_GROUP_ACCURACY = 0.5;
+
+/**
+ * One row per subelement, one cell per question group, both sorted by code.
+ */
+export function buildGroupHeatmap(
+  questions: Pick<Question, 'id' | 'subelement' | 'group'>[],
+  mastery: QuestionMasteryFlags[]
+): GroupHeatmapRow[] {
+  const masteryById = new Map(mastery.map((m) => [m.questionId, m]));
+  const groups = new Map<string, { subelement: string; cell: GroupHeatmapCell; attempts: number; correct: number }>();
+
+  for (const q of questions) {
+    if (!groups.has(q.group)) {
+      groups.set(q.group, {
+        subelement: q.subelement,
+        cell: { group: q.group, poolSize: 0, seen: 0, mastered: 0, coverage: 0, accuracy: null },
+        attempts: 0,
+        correct: 0,
+      });
+    }
+    const entry = groups.get(q.group)!;
+    entry.cell.poolSize++;
+
+    const m = masteryById.get(q.id);
+    if (!m || m.totalAttempts === 0) continue;
+    entry.cell.seen++;
+    if (m.isMastered) entry.cell.mastered++;
+    entry.attempts += m.totalAttempts;
+    entry.correct += m.correctAttempts;
+  }
+
+  const rows = new Map<string, GroupHeatmapCell[]>();
+  for (const { subelement, cell, attempts, correct } of groups.values()) {
+    cell.coverage = cell.seen / cell.poolSize;
+    cell.accuracy = attempts > 0 ? correct / attempts : null;
+    if (!rows.has(subelement)) rows.set(subelement, []);
+    rows.get(subelement)!.push(cell);
+  }
+
+  return [...rows.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([subelement, cells]) => ({
+      subelement,
+      cells: cells.sort((a, b) => a.group.localeCompare(b.group)),
+    }));
+}
+
+export function groupHeatmapTone(cell: GroupHeatmapCell): GroupHeatmapTone {
+  if (cell.accuracy === null) return 'untouched';
+  if (cell.accuracy >= STRONG_GROUP_ACCURACY) return 'strong';
+  if (cell.accuracy >= WEAK_GROUP_ACCURACY) return 'fair';
+  return 'weak';
+}
+
+/** Groups the learner has never attempted, in code order */
+export function untouchedGroups(rows: GroupHeatmapRow[]): string[] {
+  return rows.flatMap((row) => row.cells.filter((c) => c.accuracy === null).map((c) => c.group));
+}
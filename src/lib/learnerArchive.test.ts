@@ -0,0 +1,151 @@
+import { describe, it, expect } from 'vitest';
+import {
+  LEARNER_ARCHIVE_FORMAT,
+  LEARNER_ARCHIVE_VERSION,
+  buildLearnerArchive,
+  learnerArchiveFilename,
+  parseLearnerArchive,
+  summarizeLearnerArchive,
+  type LearnerArchiveData,
+} from './learnerArchive';
+
+const data: LearnerArchiveData = {
+  profile: {
+    display_name: 'Ada',
+    best_streak: 12,
+    glossary_current_streak: 0,
+    glossary_best_streak: 3,
+    glossary_last_study_date: null,
+    created_at: '2026-01-02T00:00:00Z',
+  },
+  question_attempts: [
+    {
+      question_id: 'q1',
+      selected_answer: 2,
+      is_correct: true,
+      attempt_type: 'practice_test',
+      attempted_at: '2026-03-01T10:00:00Z',
+      test_result_id: 't1',
+    },
+  ],
+  events: [],
+  bookmarks: [{ question_id: 'q1', note: 'Ohm', created_at: '2026-03-01T10:00:00Z' }],
+  practice_test_results: [
+    {
+      id: 't1',
+      test_type: 'technician',
+      score: 30,
+      total_questions: 35,
+      percentage: 86,
+      passed: true,
+      completed_at: '2026-03-01T10:05:00Z',
+    },
+  ],
+  daily_activity: [],
+  streak: null,
+  weekly_goals: { questions_goal: 50, tests_goal: 3 },
+  topic_progress: [],
+  lesson_progress: [],
+  exam_attempts: [],
+};
+
+describe('buildLearnerArchive', () => {
+  it('stamps the format, schema version and export time', () => {
+    const archive = buildLearnerArchive(data, new Date('2026-10-18T12:00:00Z'));
+
+    expect(archive).toEqual({
+      format: LEARNER_ARCHIVE_FORMAT,
+      schema_version: LEARNER_ARCHIVE_VERSION,
+      exported_at: '2026-10-18T12:00:00.000Z',
+      data,
+    });
+    expect(learnerArchiveFilename(new Date('2026-10-18T12:00:00Z'))).toBe('openhamprep-data-2026-10-18.json');
+  });
+});
+
+describe('parseLearnerArchive', () => {
+  it('round-trips an exported archive', () => {
+    const archive = buildLearnerArchive(data);
+
+    expect(parseLearnerArchive(JSON.stringify(archive))).toEqual({ ok: true, archive });
+  });
+
+  it('fills in sections missing from the file', () => {
+    const result = parseLearnerArchive(
+      JSON.stringify({ format: LEARNER_ARCHIVE_FORMAT, schema_version: 1, exported_at: 'x', data: {} })
+    );
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.archive.data.question_attempts).toEqual([]);
+      expect(result.archive.data.profile).toBeNull();
+    }
+  });
+
+  it('rejects files that are not exports', () => {
+    expect(parseLearnerArchive('not json')).toEqual({ ok: false, error: "This file isn't valid JSON." });
+    expect(parseLearnerArchive('{"format":"anki"}')).toEqual({
+      ok: false,
+      error: "This file isn't an Open Ham Prep data export.",
+    });
+  });
+
+  it('rejects damaged sections', () => {
+    const result = parseLearnerArchive(
+      JSON.stringify({ format: LEARNER_ARCHIVE_FORMAT, schema_version: 1, data: { bookmarks: 'oops' } })
+    );
+
+    expect(result).toEqual({ ok: false, error: 'This export is damaged (bookmarks).' });
+  });
+
+  it('rejects exports from a newer schema version', () => {
+    const result = parseLearnerArchive(
+      JSON.stringify({ format: LEARNER_ARCHIVE_FORMAT, schema_version: LEARNER_ARCHIVE_VERSION + 1, data: {} })
+    );
+
+    expect(result.ok).toBe(false);
+  });
+
+  it('upgrades older schema versions step by step', () => {
+    const upgrades = {
+      [LEARNER_ARCHIVE_VERSION - 1]: (archive: Record<string, unknown>) => ({
+        ...archive,
+        data: { bookmarks: archive.bookmarks },
+      }),
+    };
+    const old = {
+      format: LEARNER_ARCHIVE_FORMAT,
+      schema_version: LEARNER_ARCHIVE_VERSION - 1,
+      bookmarks: data.bookmarks,
+    };
+
+    const result = parseLearnerArchive(JSON.stringify(old), upgrades);
+
+    expect(result.ok).toBe(true);
+    if (result.ok) {
+      expect(result.archive.schema_version).toBe(LEARNER_ARCHIVE_VERSION);
+      expect(result.archive.data.bookmarks).toEqual(data.bookmarks);
+    }
+  });
+
+  it('explains when an old version has no upgrade path', () => {
+    const result = parseLearnerArchive(
+      JSON.stringify({ format: LEARNER_ARCHIVE_FORMAT, schema_version: LEARNER_ARCHIVE_VERSION - 1, data: {} }),
+      {}
+    );
+
+    expect(result.ok).toBe(false);
+  });
+});
+
+describe('summarizeLearnerArchive', () => {
+  it('counts the headline records', () => {
+    expect(summarizeLearnerArchive(buildLearnerArchive(data))).toEqual({
+      answers: 1,
+      practiceTests: 1,
+      bookmarks: 1,
+      examAttempts: 0,
+      studyDays: 0,
+    });
+  });
+});
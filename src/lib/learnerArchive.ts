@@ -0,0 +1,254 @@
+/**
+ * Learner Data Archive
+ *
+ * The "download my data" file: a learner's profile and study history as one
+ * JSON document, importable into a fresh account by the
+ * import_learner_archive RPC.
+ *
+ * Archives carry a schema version. When the shape changes, bump
+ * LEARNER_ARCHIVE_VERSION and add an upgrade from the previous version to
+ * ARCHIVE_UPGRADES, so files downloaded before the change still import. The
+ * RPC only accepts the current version.
+ *
+ * Rows keep their database column names; user_id is left out because the
+ * importing account owns everything.
+ */
+
+import type { Json } from '@/integrations/supabase/types';
+
+export const LEARNER_ARCHIVE_FORMAT = 'openhamprep-learner-data';
+export const LEARNER_ARCHIVE_VERSION = 1;
+
+export interface ArchivedProfile {
+  display_name: string | null;
+  best_streak: number;
+  glossary_current_streak: number;
+  glossary_best_streak: number;
+  glossary_last_study_date: string | null;
+  created_at: string;
+}
+
+export interface ArchivedQuestionAttempt {
+  question_id: string;
+  selected_answer: number;
+  is_correct: boolean;
+  attempt_type: string;
+  attempted_at: string;
+  test_result_id: string | null;
+}
+
+export interface ArchivedEvent {
+  event_type: string;
+  timestamp: string;
+  payload: Json;
+}
+
+export interface ArchivedBookmark {
+  question_id: string;
+  note: string | null;
+  created_at: string;
+}
+
+export interface ArchivedPracticeTestResult {
+  id: string;
+  test_type: string;
+  score: number;
+  total_questions: number;
+  percentage: number;
+  passed: boolean;
+  completed_at: string;
+}
+
+export interface ArchivedDailyActivity {
+  activity_date: string;
+  questions_answered: number;
+  questions_correct: number;
+  tests_taken: number;
+  tests_passed: number;
+  glossary_terms_studied: number;
+  morse_characters: number;
+}
+
+export interface ArchivedStreak {
+  current_streak: number;
+  longest_streak: number;
+  last_activity_date: string | null;
+  streak_freezes_available: number;
+}
+
+export interface ArchivedWeeklyGoals {
+  questions_goal: number;
+  tests_goal: number;
+  /** Weekdays the learner can study, 0 = Sunday; missing from older exports */
+  study_days?: number[];
+}
+
+export interface ArchivedTopicProgress {
+  topic_id: string | null;
+  is_completed: boolean | null;
+  completed_at: string | null;
+}
+
+export interface ArchivedLessonProgress {
+  lesson_id: string | null;
+  is_completed: boolean | null;
+  completed_at: string | null;
+}
+
+export interface ArchivedExamAttempt {
+  exam_date: string;
+  target_license: string;
+  outcome: string | null;
+  score: number | null;
+  total_questions: number | null;
+  notes: string | null;
+  exam_session_id: string | null;
+}
+
+export interface LearnerArchiveData {
+  profile: ArchivedProfile | null;
+  question_attempts: ArchivedQuestionAttempt[];
+  events: ArchivedEvent[];
+  bookmarks: ArchivedBookmark[];
+  practice_test_results: ArchivedPracticeTestResult[];
+  daily_activity: ArchivedDailyActivity[];
+  streak: ArchivedStreak | null;
+  weekly_goals: ArchivedWeeklyGoals | null;
+  topic_progress: ArchivedTopicProgress[];
+  lesson_progress: ArchivedLessonProgress[];
+  exam_attempts: ArchivedExamAttempt[];
+}
+
+export interface LearnerArchive {
+  format: typeof LEARNER_ARCHIVE_FORMAT;
+  schema_version: number;
+  exported_at: string;
+  data: LearnerArchiveData;
+}
+
+/** Upgrades one archive version to the next, keyed by the version it upgrades from */
+export type ArchiveUpgrade = (archive: Record<string, unknown>) => Record<string, unknown>;
+
+export const ARCHIVE_UPGRADES: Record<number, ArchiveUpgrade> = {};
+
+const LIST_KEYS = [
+  'question_attempts',
+  'events',
+  'bookmarks',
+  'practice_test_results',
+  'daily_activity',
+  'topic_progress',
+  'lesson_progress',
+  'exam_attempts',
+] as const;
+
+const OBJECT_KEYS = ['profile', 'streak', 'weekly_goals'] as const;
+
+export function buildLearnerArchive(data: LearnerArchiveData, exportedAt: Date = new Date()): LearnerArchive {
+  return {
+    format: LEARNER_ARCHIVE_FORMAT,
+    schema_version: LEARNER_ARCHIVE_VERSION,
+    exported_at: exportedAt.toISOString(),
+    data,
+  };
+}
+
+/** e.g. "openhamprep-data-2026-10-18.json" */
+export function learnerArchiveFilename(exportedAt: Date = new Date()): string {
+  return `openhamprep-data-${exportedAt.toISOString().slice(0, 10)}.json`;
+}
+
+export type ParseLearnerArchiveResult =
+  | { ok: true; archive: LearnerArchive }
+  | { ok: false; error: string };
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read an archive file, upgrading older schema versions to the current one.
+ * Errors are phrased for the learner.
+ */
+export function parseLearnerArchive(
+  text: string,
+  upgrades: Record<number, ArchiveUpgrade> = ARCHIVE_UPGRADES
+): ParseLearnerArchiveResult {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "This file isn't valid JSON." };
+  }
+
+  if (!isRecord(raw) || raw.format !== LEARNER_ARCHIVE_FORMAT) {
+    return { ok: false, error: "This file isn't an Open Ham Prep data export." };
+  }
+
+  let version = raw.schema_version;
+  if (typeof version !== 'number' || !Number.isInteger(version)) {
+    return { ok: false, error: 'This export has no valid schema version.' };
+  }
+  if (version > LEARNER_ARCHIVE_VERSION) {
+    return { ok: false, error: 'This export is from a newer version of Open Ham Prep. Reload the app and try again.' };
+  }
+
+  let archive: Record<string, unknown> = raw;
+  while (version < LEARNER_ARCHIVE_VERSION) {
+    const upgrade = upgrades[version];
+    if (!upgrade) {
+      return { ok: false, error: `Exports with schema version ${version} can no longer be imported.` };
+    }
+    archive = { ...upgrade(archive), schema_version: version + 1 };
+    version += 1;
+  }
+
+  const data = archive.data;
+  if (!isRecord(data)) {
+    return { ok: false, error: 'This export has no study data.' };
+  }
+  for (const key of LIST_KEYS) {
+    if (data[key] !== undefined && !Array.isArray(data[key])) {
+      return { ok: false, error: `This export is damaged (${key}).` };
+    }
+  }
+  for (const key of OBJECT_KEYS) {
+    if (data[key] !== undefined && data[key] !== null && !isRecord(data[key])) {
+      return { ok: false, error: `This export is damaged (${key}).` };
+    }
+  }
+
+  const normalized = Object.fromEntries([
+    ...LIST_KEYS.map((key) => [key, data[key] ?? []]),
+    ...OBJECT_KEYS.map((key) => [key, data[key] ?? null]),
+  ]) as unknown as LearnerArchiveData;
+
+  return {
+    ok: true,
+    archive: {
+      format: LEARNER_ARCHIVE_FORMAT,
+      schema_version: LEARNER_ARCHIVE_VERSION,
+      exported_at: typeof archive.exported_at === 'string' ? archive.exported_at : '',
+      data: normalized,
+    },
+  };
+}
+
+export interface LearnerArchiveSummary {
+  answers: number;
+  practiceTests: number;
+  bookmarks: number;
+  examAttempts: number;
+  studyDays: number;
+}
+
+/** Headline counts to confirm an import with the learner */
+export function summarizeLearnerArchive(archive: LearnerArchive): LearnerArchiveSummary {
+  return {
+    answers: archive.data.question_attempts.length,
+    practiceTests: archive.data.practice_test_results.length,
+    bookmarks: archive.data.bookmarks.length,
+    examAttempts: archive.data.exam_attempts.length,
+    studyDays: archive.data.daily_activity.length,
+  };
+}
@@ -1,12 +1,31 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
+// Monthly usage returned by the mocked mapbox_usage table (null = no row yet)
+const mockUsage = vi.hoisted(() => ({ count: null as number | null }));
+
+// Answer from has_mapbox_zip_lookup_quota
+const mockZipQuota = vi.hoisted(() => ({ available: true }));
+
 // Mock supabase
 vi.mock('@/integrations/supabase/client', () => ({
   supabase: {
     from: () => ({
-      select: () => ({ eq: () => ({ single: () => Promise.resolve({ data: null, error: null }) }) }),
+      select: () => ({
+        eq: () => ({
+          single: () =>
+            Promise.resolve({
+              data: mockUsage.count === null ? null : { request_count: mockUsage.count },
+              error: null,
+            }),
+        }),
+      }),
     }),
-    rpc: () => Promise.resolve({ data: 1, error: null }),
+    rpc: (fn: string) =>
+      Promise.resolve(
+        fn === 'has_mapbox_zip_lookup_quota'
+          ? { data: mockZipQuota.available, error: null }
+          : { data: 1, error: null }
+      ),
   },
 }));
 
@@ -273,3 +292,127 @@ describe('monthly quota reset logic', () => {
     expect(month).toMatch(/^\d{2}$/);
   });
 });
+
+describe('geocodeAddresses', () => {
+  const addresses = [
+    { address: '100 Main St', city: 'Raleigh', state: 'NC', zip: '27601' },
+    { address: null, city: 'Durham', state: 'NC', zip: '27701' },
+    { address: '1 Mill Rd', city: 'Boston', state: 'MA', zip: '02108' },
+  ];
+
+  function mapboxResponse(features: unknown[]) {
+    return { ok: true, json: () => Promise.resolve({ features }) };
+  }
+
+  afterEach(() => {
+    mockUsage.count = null;
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  async function loadConfigured() {
+    vi.stubEnv('VITE_MAPBOX_ACCESS_TOKEN', 'test-token');
+    vi.resetModules();
+    const module = await import('./mapboxGeocoding');
+    // Skip the rate-limit delay between requests
+    vi.spyOn(globalThis, 'setTimeout').mockImplementation(((fn: () => void) => {
+      fn();
+      return 0;
+    }) as unknown as typeof setTimeout);
+    return module;
+  }
+
+  it('fails every address when Mapbox is not configured', async () => {
+    const { geocodeAddresses } = await import('./mapboxGeocoding');
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await geocodeAddresses(addresses);
+
+    expect(result.geocoded).toEqual([]);
+    expect(result.failed.map(f => f.reason)).toEqual(['not_configured', 'not_configured', 'not_configured']);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('geocodes each address and reports those Mapbox cannot find', async () => {
+    const { geocodeAddresses } = await loadConfigured();
+    vi.stubGlobal('fetch', vi.fn()
+      .mockResolvedValueOnce(mapboxResponse([{ center: [-78.64, 35.78] }]))
+      .mockResolvedValueOnce(mapboxResponse([]))
+      .mockResolvedValueOnce(mapboxResponse([{ center: [-71.06, 42.36] }])));
+    const onProgress = vi.fn();
+
+    const result = await geocodeAddresses(addresses, onProgress);
+
+    expect(result.geocoded).toEqual([
+      { item: addresses[0], result: { latitude: 35.78, longitude: -78.64 } },
+      { item: addresses[2], result: { latitude: 42.36, longitude: -71.06 } },
+    ]);
+    expect(result.failed).toEqual([{ item: addresses[1], reason: 'not_found' }]);
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+  });
+
+  it('stops calling Mapbox once the monthly quota runs out', async () => {
+    const { geocodeAddresses, MAPBOX_MONTHLY_LIMIT } = await loadConfigured();
+    mockUsage.count = MAPBOX_MONTHLY_LIMIT - 1;
+    const fetchMock = vi.fn().mockResolvedValue(mapboxResponse([{ center: [-78.64, 35.78] }]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await geocodeAddresses(addresses);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.geocoded).toHaveLength(1);
+    expect(result.failed).toEqual([
+      { item: addresses[1], reason: 'quota_exceeded' },
+      { item: addresses[2], reason: 'quota_exceeded' },
+    ]);
+  });
+});
+
+describe('geocodeZip', () => {
+  afterEach(() => {
+    mockZipQuota.available = true;
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  async function loadConfigured() {
+    vi.stubEnv('VITE_MAPBOX_ACCESS_TOKEN', 'test-token');
+    vi.resetModules();
+    return import('./mapboxGeocoding');
+  }
+
+  it('looks the ZIP code up as a postcode', async () => {
+    const { geocodeZip } = await loadConfigured();
+    const fetchMock = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ features: [{ center: [-78.64, 35.77] }] }),
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await geocodeZip('27601')).toEqual({ latitude: 35.77, longitude: -78.64 });
+    expect(fetchMock.mock.calls[0][0]).toContain('/mapbox.places/27601.json?country=us&types=postcode&');
+  });
+
+  it('skips Mapbox once the learner lookup quota is used up', async () => {
+    const { geocodeZip } = await loadConfigured();
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    mockZipQuota.available = false;
+
+    expect(await geocodeZip('27601')).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('returns null when Mapbox is not configured', async () => {
+    const { geocodeZip } = await import('./mapboxGeocoding');
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await geocodeZip('27601')).toBeNull();
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
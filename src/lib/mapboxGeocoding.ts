@@ -20,17 +20,40 @@ const MAPBOX_ACCESS_TOKEN = import.meta.env.VITE_MAPBOX_ACCESS_TOKEN || '';
 /** Mapbox free tier is 100k/month. We stop at 95k to leave a 5k safety buffer. */
 export const MAPBOX_MONTHLY_LIMIT = 95000;
 
+/**
+ * Learner ZIP lookups stop at 85k so session imports keep the last 10k.
+ * Enforced by has_mapbox_zip_lookup_quota in the database - keep both in sync.
+ */
+export const MAPBOX_ZIP_LOOKUP_LIMIT = 85000;
+
 /** Rate limiting delay between requests in milliseconds (~400 req/min max). */
 export const GEOCODE_DELAY_MS = 150;
 
 /** Threshold for warning user about significant quota usage (50% of remaining). */
 export const QUOTA_WARNING_THRESHOLD = 0.5;
 
+/** Addresses geocoded between quota re-checks in geocodeAddresses. */
+export const GEOCODE_BATCH_SIZE = 50;
+
 export interface GeocodingResult {
   latitude: number;
   longitude: number;
 }
 
+export interface GeocodeRequest {
+  address: string | null;
+  city: string;
+  state: string;
+  zip: string;
+}
+
+export type GeocodeFailureReason = 'not_configured' | 'quota_exceeded' | 'not_found';
+
+export interface BatchGeocodeResult<T extends GeocodeRequest> {
+  geocoded: { item: T; result: GeocodingResult }[];
+  failed: { item: T; reason: GeocodeFailureReason }[];
+}
+
 /**
  * Get current year_month key for database partitioning.
  * Format: "YYYY_MM" (e.g., "2026_01")
@@ -116,6 +139,26 @@ export async function canMakeRequestFromDb(): Promise<boolean> {
   return usage < MAPBOX_MONTHLY_LIMIT;
 }
 
+/**
+ * Check if a learner ZIP lookup fits in this month's quota.
+ *
+ * Learners can't read mapbox_usage, so the database answers yes or no
+ * without disclosing the count.
+ *
+ * @returns true if usage is below MAPBOX_ZIP_LOOKUP_LIMIT, false otherwise or on error
+ */
+export async function canLookUpZipFromDb(): Promise<boolean> {
+  const { data, error } = await supabase
+    .rpc('has_mapbox_zip_lookup_quota', { p_year_month: getYearMonthKey() });
+
+  if (error) {
+    console.error('Failed to check Mapbox ZIP lookup quota:', error);
+    return false;
+  }
+
+  return data === true;
+}
+
 /**
  * Check if Mapbox is configured with an access token.
  *
@@ -152,9 +195,44 @@ export async function geocodeAddress(
     return null;
   }
 
-  // Build the search query
-  const query = encodeURIComponent(`${address}, ${city}, ${state} ${zip}`);
-  const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${query}.json?country=us&access_token=${MAPBOX_ACCESS_TOKEN}&limit=1`;
+  return requestCoordinates(`${address}, ${city}, ${state} ${zip}`);
+}
+
+/**
+ * Geocode a ZIP code to its centroid using Mapbox API.
+ *
+ * Unlike geocodeAddress, this checks the learner ZIP lookup quota first,
+ * since it runs from learner searches rather than an admin import.
+ *
+ * @param zip - 5-digit ZIP code (e.g., "27601")
+ * @returns Coordinates {latitude, longitude}, or null if Mapbox is not
+ *   configured, the quota is used up, or the ZIP code was not found
+ */
+export async function geocodeZip(zip: string): Promise<GeocodingResult | null> {
+  if (!MAPBOX_ACCESS_TOKEN) {
+    return null;
+  }
+
+  if (!(await canLookUpZipFromDb())) {
+    return null;
+  }
+
+  return requestCoordinates(zip, '&types=postcode');
+}
+
+/**
+ * Make a single Mapbox geocoding request and count it against the quota.
+ *
+ * Usage is incremented whenever the API call was made, even on errors,
+ * to prevent retry storms.
+ *
+ * @param search - Free-form search text
+ * @param params - Extra query string parameters, starting with '&'
+ * @returns Coordinates of the best match, or null
+ */
+async function requestCoordinates(search: string, params = ''): Promise<GeocodingResult | null> {
+  const query = encodeURIComponent(search);
+  const url = `https://api.mapbox.com/geocoding/v5/mapbox.places/${query}.json?country=us${params}&access_token=${MAPBOX_ACCESS_TOKEN}&limit=1`;
 
   let apiCallMade = false;
 
@@ -192,6 +270,65 @@ export async function geocodeAddress(
   }
 }
 
+/**
+ * Geocode many addresses without exceeding the monthly quota.
+ *
+ * Addresses are geocoded one at a time with GEOCODE_DELAY_MS between
+ * requests. The remaining quota is re-read from the database before each
+ * batch of GEOCODE_BATCH_SIZE, since other admins share it; once it runs out
+ * the rest are reported as 'quota_exceeded' without calling Mapbox.
+ *
+ * @param items - Addresses to geocode
+ * @param onProgress - Called after each address with (done, total)
+ * @returns Geocoded items with coordinates, and failed items with a reason
+ */
+export async function geocodeAddresses<T extends GeocodeRequest>(
+  items: T[],
+  onProgress?: (done: number, total: number) => void
+): Promise<BatchGeocodeResult<T>> {
+  const result: BatchGeocodeResult<T> = { geocoded: [], failed: [] };
+
+  if (!MAPBOX_ACCESS_TOKEN) {
+    result.failed = items.map(item => ({ item, reason: 'not_configured' as const }));
+    onProgress?.(items.length, items.length);
+    return result;
+  }
+
+  let requestCount = 0;
+
+  for (let start = 0; start < items.length; start += GEOCODE_BATCH_SIZE) {
+    const batch = items.slice(start, start + GEOCODE_BATCH_SIZE);
+    const remaining = await getRemainingQuotaFromDb();
+    const quotaExhausted = remaining < batch.length;
+
+    for (const item of batch.slice(0, remaining)) {
+      if (requestCount++ > 0) {
+        await delay(GEOCODE_DELAY_MS);
+      }
+
+      const coordinates = await geocodeAddress(item.address ?? '', item.city, item.state, item.zip);
+      if (coordinates) {
+        result.geocoded.push({ item, result: coordinates });
+      } else {
+        result.failed.push({ item, reason: 'not_found' });
+      }
+
+      onProgress?.(result.geocoded.length + result.failed.length, items.length);
+    }
+
+    if (quotaExhausted) {
+      // Later batches would fail the same way, so don't call Mapbox for them
+      for (const item of items.slice(start + remaining)) {
+        result.failed.push({ item, reason: 'quota_exceeded' });
+      }
+      onProgress?.(items.length, items.length);
+      break;
+    }
+  }
+
+  return result;
+}
+
 /**
  * Delay helper for rate limiting between API requests.
  *
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  KOCH_MIN_ATTEMPTS,
+  MORSE_CODE,
+  characterAccuracy,
+  generateCallsign,
+  generateCharacterDrill,
+  generateWordDrill,
+  gradeAnswer,
+  kochCharacters,
+  kochReadyToAdvance,
+  loadMorseSettings,
+  loadMorseStats,
+  morseTiming,
+  recordResults,
+  saveMorseSettings,
+  saveMorseStats,
+  toneSchedule,
+  DEFAULT_MORSE_SETTINGS,
+} from './morse';
+
+/** Deterministic random source cycling through the given values */
+function sequence(...values: number[]) {
+  let i = 0;
+  return () => values[i++ % values.length];
+}
+
+describe('morseTiming', () => {
+  it('uses PARIS timing at standard spacing', () => {
+    const timing = morseTiming(20);
+
+    expect(timing.unit).toBeCloseTo(0.06);
+    expect(timing.charGap).toBeCloseTo(0.18);
+    expect(timing.wordGap).toBeCloseTo(0.42);
+  });
+
+  it('stretches gaps for Farnsworth spacing', () => {
+    const timing = morseTiming(20, 10);
+
+    expect(timing.unit).toBeCloseTo(0.06);
+    // ARRL: t_a = (60*20 - 37.2*10) / (20*10) = 4.14s per word
+    expect(timing.charGap).toBeCloseTo((3 * 4.14) / 19);
+    expect(timing.wordGap).toBeCloseTo((7 * 4.14) / 19);
+  });
+
+  it('sends PARIS at the effective speed', () => {
+    for (const [wpm, effective] of [[20, 20], [20, 10], [18, 5]]) {
+      const timing = morseTiming(wpm, effective);
+      // One PARIS word plus the word gap that follows it
+      const seconds = toneSchedule('PARIS', timing).duration + timing.wordGap;
+
+      expect(seconds).toBeCloseTo(60 / effective, 5);
+    }
+  });
+
+  it('ignores an effective speed above the character speed', () => {
+    expect(morseTiming(15, 25)).toEqual(morseTiming(15));
+  });
+});
+
+describe('toneSchedule', () => {
+  const timing = { unit: 1, charGap: 3, wordGap: 7 };
+
+  it('schedules dits, dahs and the gaps between them', () => {
+    // K = -.-  then M = --
+    const { tones, duration } = toneSchedule('km', timing);
+
+    expect(tones).toEqual([
+      { start: 0, duration: 3 },
+      { start: 4, duration: 1 },
+      { start: 6, duration: 3 },
+      { start: 12, duration: 3 },
+      { start: 16, duration: 3 },
+    ]);
+    expect(duration).toBe(19);
+  });
+
+  it('puts a word gap between words', () => {
+    const { tones } = toneSchedule('E  E', timing);
+
+    expect(tones).toEqual([
+      { start: 0, duration: 1 },
+      { start: 8, duration: 1 },
+    ]);
+  });
+
+  it('skips characters without a code', () => {
+    expect(toneSchedule('E#', timing)).toEqual(toneSchedule('E', timing));
+    expect(toneSchedule('', timing)).toEqual({ tones: [], duration: 0 });
+  });
+});
+
+describe('drills', () => {
+  it('unlocks characters in Koch order', () => {
+    expect(kochCharacters(0)).toEqual(['K', 'M']);
+    expect(kochCharacters(4)).toEqual(['K', 'M', 'U', 'R']);
+    expect(kochCharacters(999)).toHaveLength(41);
+  });
+
+  it('every Koch character has a code', () => {
+    expect(kochCharacters(999).every((char) => MORSE_CODE[char])).toBe(true);
+  });
+
+  it('makes five-character groups from the unlocked set', () => {
+    const drill = generateCharacterDrill(['K', 'M'], 3, sequence(0, 0.9));
+
+    expect(drill).toMatch(/^[KM]{5} [KM]{5} [KM]{5}$/);
+  });
+
+  it('draws words from the word list', () => {
+    expect(generateWordDrill(2, sequence(0))).toBe('CQ CQ');
+  });
+
+  it('generates valid US callsigns', () => {
+    for (let seed = 0; seed < 50; seed++) {
+      const random = sequence(((seed * 7) % 10) / 10, ((seed * 3) % 10) / 10, 0.55, 0.2);
+      const call = generateCallsign(random);
+
+      expect(call).toMatch(/^([KNW][A-Z]?|A[A-L])\d[A-Z]{1,3}$/);
+    }
+  });
+});
+
+describe('gradeAnswer', () => {
+  it('grades each sent character by position', () => {
+    expect(gradeAnswer('KMR', 'kmu')).toEqual([
+      { char: 'K', correct: true },
+      { char: 'M', correct: true },
+      { char: 'R', correct: false },
+    ]);
+  });
+
+  it('keeps a missed character from shifting later words', () => {
+    const results = gradeAnswer('CQ DE W1AW', 'C DE  w1aw');
+
+    expect(results.filter((r) => !r.correct).map((r) => r.char)).toEqual(['Q']);
+  });
+
+  it('marks unanswered words wrong', () => {
+    expect(gradeAnswer('TU 73', 'TU').map((r) => r.correct)).toEqual([true, true, false, false]);
+  });
+});
+
+describe('character stats', () => {
+  it('accumulates results per character', () => {
+    let stats = recordResults({}, gradeAnswer('KK', 'KM'));
+    stats = recordResults(stats, gradeAnswer('M', 'M'));
+
+    expect(stats).toEqual({ K: { attempts: 2, correct: 1 }, M: { attempts: 1, correct: 1 } });
+    expect(characterAccuracy(stats, 'K')).toBe(0.5);
+    expect(characterAccuracy(stats, 'R')).toBeNull();
+  });
+
+  it('advances Koch once every character is copied reliably', () => {
+    const solid = { attempts: KOCH_MIN_ATTEMPTS, correct: KOCH_MIN_ATTEMPTS };
+
+    expect(kochReadyToAdvance({ K: solid }, 2)).toBe(false);
+    expect(kochReadyToAdvance({ K: solid, M: { attempts: KOCH_MIN_ATTEMPTS, correct: 8 } }, 2)).toBe(false);
+    expect(kochReadyToAdvance({ K: solid, M: { attempts: 20, correct: 18 } }, 2)).toBe(true);
+  });
+});
+
+describe('storage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('round-trips settings and stats', () => {
+    const settings = { ...DEFAULT_MORSE_SETTINGS, mode: 'callsigns' as const, wpm: 25, kochLevel: 6 };
+    saveMorseSettings(settings);
+    saveMorseStats({ K: { attempts: 3, correct: 2 } });
+
+    expect(loadMorseSettings()).toEqual(settings);
+    expect(loadMorseStats()).toEqual({ K: { attempts: 3, correct: 2 } });
+  });
+
+  it('repairs invalid settings', () => {
+    localStorage.setItem(
+      'morseTrainerSettings',
+      JSON.stringify({ mode: 'songs', wpm: 90, effectiveWpm: 60, kochLevel: -3, frequency: 20 })
+    );
+
+    expect(loadMorseSettings()).toEqual({
+      mode: 'characters',
+      wpm: 40,
+      effectiveWpm: 40,
+      kochLevel: 2,
+      frequency: 600,
+    });
+  });
+
+  it('ignores corrupt storage', () => {
+    localStorage.setItem('morseTrainerStats', '[1,2');
+
+    expect(loadMorseStats()).toEqual({});
+    expect(loadMorseSettings()).toEqual(DEFAULT_MORSE_SETTINGS);
+  });
+});
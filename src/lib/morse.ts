@@ -0,0 +1,305 @@
+/**
+ * Morse code (CW) trainer: character tables, Koch/Farnsworth timing, drill
+ * generation and per-character accuracy. Everything here is pure; the
+ * Web Audio playback lives in useMorsePlayer and only consumes the tone
+ * schedule built here.
+ *
+ * Timing uses the PARIS standard (50 units per word), so one unit lasts
+ * 1.2 / wpm seconds. Farnsworth spacing sends each character at the full
+ * character speed but stretches the gaps between characters and words to
+ * bring the overall rate down to the effective speed (ARRL formula).
+ */
+
+import { safeGetItem, safeSetItem } from './localStorage';
+
+export const MORSE_CODE: Record<string, string> = {
+  A: '.-', B: '-...', C: '-.-.', D: '-..', E: '.', F: '..-.', G: '--.', H: '....',
+  I: '..', J: '.---', K: '-.-', L: '.-..', M: '--', N: '-.', O: '---', P: '.--.',
+  Q: '--.-', R: '.-.', S: '...', T: '-', U: '..-', V: '...-', W: '.--', X: '-..-',
+  Y: '-.--', Z: '--..',
+  '0': '-----', '1': '.----', '2': '..---', '3': '...--', '4': '....-',
+  '5': '.....', '6': '-....', '7': '--...', '8': '---..', '9': '----.',
+  '.': '.-.-.-', ',': '--..--', '?': '..--..', '/': '-..-.', '=': '-...-',
+};
+
+/** Koch order: characters are learned one at a time in this sequence */
+export const KOCH_ORDER = [
+  'K', 'M', 'U', 'R', 'E', 'S', 'N', 'A', 'P', 'T', 'L', 'W', 'I', '.', 'J', 'Z',
+  '=', 'F', 'O', 'Y', ',', 'V', 'G', '5', '/', 'Q', '9', '2', 'H', '3', '8', 'B',
+  '?', '4', '7', 'C', '1', 'D', '6', '0', 'X',
+];
+
+/** Koch training starts with two characters */
+export const MIN_KOCH_LEVEL = 2;
+/** Accuracy on every learned character needed before adding the next one */
+export const KOCH_ADVANCE_ACCURACY = 0.9;
+/** Answers per character needed before its accuracy counts toward advancing */
+export const KOCH_MIN_ATTEMPTS = 10;
+
+export const MIN_WPM = 5;
+export const MAX_WPM = 40;
+
+/** Common on-air words, abbreviations and Q-codes for word drills */
+export const MORSE_WORDS = [
+  'CQ', 'DE', 'K', 'BK', 'AR', 'SK', 'RST', 'QTH', 'QSL', 'QRZ', 'QRM', 'QRN', 'QSB',
+  'QRP', 'QSY', 'NAME', 'UR', 'TNX', 'TU', 'FB', 'OM', 'YL', 'ES', 'HR', 'WX', 'RIG',
+  'ANT', 'PWR', 'CUL', 'GM', 'GA', 'GE', 'HI', '73', '88', '599', '5NN', 'THE', 'AND',
+  'FOR', 'YOU', 'ARE', 'WITH', 'HAVE', 'THIS', 'FROM', 'GOOD', 'RADIO', 'HAM', 'TEST',
+];
+
+export type MorseDrillMode = 'characters' | 'words' | 'callsigns';
+
+export interface MorseSettings {
+  mode: MorseDrillMode;
+  /** Character speed */
+  wpm: number;
+  /** Overall speed with Farnsworth spacing; equal to wpm for none */
+  effectiveWpm: number;
+  /** Number of Koch characters unlocked (character drills only) */
+  kochLevel: number;
+  /** Tone pitch in Hz */
+  frequency: number;
+}
+
+export const DEFAULT_MORSE_SETTINGS: MorseSettings = {
+  mode: 'characters',
+  wpm: 20,
+  effectiveWpm: 10,
+  kochLevel: MIN_KOCH_LEVEL,
+  frequency: 600,
+};
+
+/** Durations in seconds */
+export interface MorseTiming {
+  /** One unit: a dit, and the gap between elements of a character */
+  unit: number;
+  /** Gap between characters in a word */
+  charGap: number;
+  /** Gap between words */
+  wordGap: number;
+}
+
+export interface ToneEvent {
+  /** Seconds from the start of playback */
+  start: number;
+  duration: number;
+}
+
+export interface ToneSchedule {
+  tones: ToneEvent[];
+  /** Seconds until the last tone ends */
+  duration: number;
+}
+
+export function clampWpm(wpm: number): number {
+  if (!Number.isFinite(wpm)) return DEFAULT_MORSE_SETTINGS.wpm;
+  return Math.min(MAX_WPM, Math.max(MIN_WPM, Math.round(wpm)));
+}
+
+/**
+ * Element and gap durations for a character speed and an effective speed.
+ * An effective speed at or above the character speed means standard spacing.
+ */
+export function morseTiming(wpm: number, effectiveWpm: number = wpm): MorseTiming {
+  const unit = 1.2 / wpm;
+  if (effectiveWpm >= wpm) {
+    return { unit, charGap: 3 * unit, wordGap: 7 * unit };
+  }
+
+  // Total extra delay per PARIS word, spread over its 19 units of spacing
+  const delay = (60 * wpm - 37.2 * effectiveWpm) / (wpm * effectiveWpm);
+  return { unit, charGap: (3 * delay) / 19, wordGap: (7 * delay) / 19 };
+}
+
+/**
+ * When each tone starts and how long it lasts for a piece of text.
+ * Characters without a Morse code are skipped.
+ */
+export function toneSchedule(text: string, timing: MorseTiming): ToneSchedule {
+  const tones: ToneEvent[] = [];
+  let time = 0;
+
+  const words = normalizeMorseText(text)
+    .split(' ')
+    .map((word) => [...word].filter((char) => MORSE_CODE[char]))
+    .filter((chars) => chars.length > 0);
+
+  words.forEach((chars, wordIndex) => {
+    if (wordIndex > 0) time += timing.wordGap;
+    chars.forEach((char, charIndex) => {
+      if (charIndex > 0) time += timing.charGap;
+      [...MORSE_CODE[char]].forEach((symbol, symbolIndex) => {
+        if (symbolIndex > 0) time += timing.unit;
+        const duration = symbol === '.' ? timing.unit : 3 * timing.unit;
+        tones.push({ start: time, duration });
+        time += duration;
+      });
+    });
+  });
+
+  return { tones, duration: time };
+}
+
+/** Uppercase with single spaces, as drills are compared */
+export function normalizeMorseText(text: string): string {
+  return text.toUpperCase().trim().split(/\s+/).filter(Boolean).join(' ');
+}
+
+export function kochCharacters(level: number): string[] {
+  return KOCH_ORDER.slice(0, Math.min(KOCH_ORDER.length, Math.max(MIN_KOCH_LEVEL, level)));
+}
+
+function pick<T>(items: readonly T[], random: () => number): T {
+  return items[Math.floor(random() * items.length)];
+}
+
+/**
+ * Koch character drill: groups of five random characters from the set,
+ * with the newest character weighted double so it gets extra practice.
+ */
+export function generateCharacterDrill(
+  characters: string[],
+  groups = 3,
+  random: () => number = Math.random
+): string {
+  const weighted = [...characters, characters[characters.length - 1]];
+  return Array.from({ length: groups }, () =>
+    Array.from({ length: 5 }, () => pick(weighted, random)).join('')
+  ).join(' ');
+}
+
+export function generateWordDrill(count = 3, random: () => number = Math.random): string {
+  return Array.from({ length: count }, () => pick(MORSE_WORDS, random)).join(' ');
+}
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * A US-style amateur callsign: a one- or two-letter prefix starting with
+ * K, N, W or A (AA–AL), a call district digit and a one- to three-letter
+ * suffix.
+ */
+export function generateCallsign(random: () => number = Math.random): string {
+  const first = pick(['K', 'N', 'W', 'A'], random);
+  let prefix = first;
+  if (first === 'A') {
+    prefix += pick([...'ABCDEFGHIJKL'], random);
+  } else if (random() < 0.5) {
+    prefix += pick([...LETTERS], random);
+  }
+
+  const digit = String(Math.floor(random() * 10));
+  const suffixLength = 1 + Math.floor(random() * 3);
+  const suffix = Array.from({ length: suffixLength }, () => pick([...LETTERS], random)).join('');
+
+  return `${prefix}${digit}${suffix}`;
+}
+
+export function generateDrill(settings: MorseSettings, random: () => number = Math.random): string {
+  switch (settings.mode) {
+    case 'characters':
+      return generateCharacterDrill(kochCharacters(settings.kochLevel), 3, random);
+    case 'words':
+      return generateWordDrill(3, random);
+    case 'callsigns':
+      return generateCallsign(random);
+  }
+}
+
+export interface CharacterResult {
+  char: string;
+  correct: boolean;
+}
+
+/**
+ * Grade a copied answer against the sent text, character by character.
+ * Words are matched in order and characters by position within each word,
+ * so a missed character only costs its own word. Every sent character
+ * gets one result.
+ */
+export function gradeAnswer(sent: string, answer: string): CharacterResult[] {
+  const sentWords = normalizeMorseText(sent).split(' ').filter(Boolean);
+  const answerWords = normalizeMorseText(answer).split(' ');
+
+  return sentWords.flatMap((word, wordIndex) => {
+    const copied = answerWords[wordIndex] ?? '';
+    return [...word].map((char, i) => ({ char, correct: copied[i] === char }));
+  });
+}
+
+/** Answers and correct answers per character */
+export type MorseCharacterStats = Record<string, { attempts: number; correct: number }>;
+
+export function recordResults(stats: MorseCharacterStats, results: CharacterResult[]): MorseCharacterStats {
+  const next = { ...stats };
+  for (const { char, correct } of results) {
+    const current = next[char] ?? { attempts: 0, correct: 0 };
+    next[char] = { attempts: current.attempts + 1, correct: current.correct + (correct ? 1 : 0) };
+  }
+  return next;
+}
+
+export function characterAccuracy(stats: MorseCharacterStats, char: string): number | null {
+  const entry = stats[char];
+  return entry && entry.attempts > 0 ? entry.correct / entry.attempts : null;
+}
+
+/**
+ * Whether every character at the current Koch level has enough answers at
+ * the advance accuracy to add the next character.
+ */
+export function kochReadyToAdvance(stats: MorseCharacterStats, level: number): boolean {
+  if (level >= KOCH_ORDER.length) return false;
+  return kochCharacters(level).every((char) => {
+    const entry = stats[char];
+    return (
+      !!entry &&
+      entry.attempts >= KOCH_MIN_ATTEMPTS &&
+      entry.correct / entry.attempts >= KOCH_ADVANCE_ACCURACY
+    );
+  });
+}
+
+const SETTINGS_KEY = 'morseTrainerSettings';
+const STATS_KEY = 'morseTrainerStats';
+
+function loadJson<T>(key: string): T | null {
+  try {
+    const parsed: unknown = JSON.parse(safeGetItem(key) ?? 'null');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? (parsed as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Settings saved on this device, checked and filled in from the defaults */
+export function loadMorseSettings(): MorseSettings {
+  const saved = loadJson<Partial<MorseSettings>>(SETTINGS_KEY) ?? {};
+  const mode = (['characters', 'words', 'callsigns'] as const).includes(saved.mode as MorseDrillMode)
+    ? (saved.mode as MorseDrillMode)
+    : DEFAULT_MORSE_SETTINGS.mode;
+  const wpm = clampWpm(Number(saved.wpm ?? DEFAULT_MORSE_SETTINGS.wpm));
+  const effectiveWpm = Math.min(wpm, clampWpm(Number(saved.effectiveWpm ?? DEFAULT_MORSE_SETTINGS.effectiveWpm)));
+  const level = Math.round(Number(saved.kochLevel ?? MIN_KOCH_LEVEL));
+  const frequency = Number(saved.frequency);
+
+  return {
+    mode,
+    wpm,
+    effectiveWpm,
+    kochLevel: Number.isFinite(level) ? Math.min(KOCH_ORDER.length, Math.max(MIN_KOCH_LEVEL, level)) : MIN_KOCH_LEVEL,
+    frequency: frequency >= 300 && frequency <= 1200 ? frequency : DEFAULT_MORSE_SETTINGS.frequency,
+  };
+}
+
+export function saveMorseSettings(settings: MorseSettings): void {
+  safeSetItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+export function loadMorseStats(): MorseCharacterStats {
+  return loadJson<MorseCharacterStats>(STATS_KEY) ?? {};
+}
+
+export function saveMorseStats(stats: MorseCharacterStats): void {
+  safeSetItem(STATS_KEY, JSON.stringify(stats));
+}
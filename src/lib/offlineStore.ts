@@ -0,0 +1,245 @@
+/**
+ * On-device storage for offline study, backed by IndexedDB.
+ *
+ * Holds three things:
+ * - packs: a downloaded question pool per exam type
+ * - glossary: the glossary terms
+ * - outbox: attempts made while offline, waiting to be synced
+ *
+ * Question figures go into Cache Storage instead, where the service worker
+ * can answer image requests from them.
+ *
+ * Every read resolves to an empty value when IndexedDB is unavailable
+ * (private browsing in some browsers, tests), so callers can treat
+ * "no storage" the same as "nothing downloaded".
+ */
+
+import type { Question } from '@/hooks/useQuestions';
+import type { GlossaryTerm } from '@/services/glossary/glossaryService';
+import type { TestType } from '@/types/navigation';
+import type { TestTiming } from './examPacing';
+
+const DB_NAME = 'openhamprep-offline';
+const DB_VERSION = 1;
+
+const PACKS_STORE = 'packs';
+const GLOSSARY_STORE = 'glossary';
+const OUTBOX_STORE = 'outbox';
+
+const GLOSSARY_KEY = 'terms';
+
+/**
+ * Cache Storage bucket for figures of downloaded pools.
+ * The service worker keeps this cache across updates (see public/sw.js).
+ */
+export const OFFLINE_FIGURE_CACHE = 'ham-prep-offline-figures';
+
+/** Dispatched on window whenever an outbox entry is added or removed */
+export const OUTBOX_CHANGED_EVENT = 'offline-outbox-changed';
+
+/** A question pool downloaded for offline study */
+export interface OfflinePack {
+  testType: TestType;
+  poolVersion: string;
+  questions: Question[];
+  figureUrls: string[];
+  downloadedAt: string;
+}
+
+export interface OfflineGlossary {
+  terms: GlossaryTerm[];
+  downloadedAt: string;
+}
+
+interface OutboxEntryBase {
+  /** Client-generated id; also the server-side receipt for the streak increment */
+  id: string;
+  userId: string;
+  /** ISO timestamp of when the learner answered */
+  createdAt: string;
+  /** UTC date (YYYY-MM-DD) the learner studied, so streaks count the right day */
+  activityDate: string;
+}
+
+/** A single answered question from random practice */
+export interface QuestionAttemptEntry extends OutboxEntryBase {
+  kind: 'question_attempt';
+  attemptType: string;
+  question: Question;
+  selectedAnswer: 'A' | 'B' | 'C' | 'D';
+  timeElapsedMs: number;
+  attemptId: string;
+  eventId: string;
+}
+
+/** A finished practice test */
+export interface PracticeTestEntry extends OutboxEntryBase {
+  kind: 'practice_test';
+  testType: TestType;
+  /** practice_test_results.test_type when it differs from the exam, e.g. custom tests */
+  resultTestType?: string;
+  questions: Question[];
+  answers: Record<string, 'A' | 'B' | 'C' | 'D'>;
+  timing: TestTiming | null;
+  testResultId: string;
+  /** Row ids keyed by question id, for question_attempts and their events */
+  attemptIds: Record<string, string>;
+  eventIds: Record<string, string>;
+  completedEventId: string;
+}
+
+export type OutboxEntry = QuestionAttemptEntry | PracticeTestEntry;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isOfflineStorageAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PACKS_STORE)) {
+          db.createObjectStore(PACKS_STORE, { keyPath: 'testType' });
+        }
+        if (!db.objectStoreNames.contains(GLOSSARY_STORE)) {
+          db.createObjectStore(GLOSSARY_STORE);
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Allow a later call to retry (e.g. after the user frees up storage)
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+/** Run one request in its own transaction and wait for the transaction to commit */
+async function run<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = makeRequest(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+function requireStorage(): void {
+  if (!isOfflineStorageAvailable()) {
+    throw new Error('Offline storage is not available in this browser');
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Question pools
+// ---------------------------------------------------------------------------
+
+export async function getOfflinePack(testType: TestType): Promise<OfflinePack | null> {
+  if (!isOfflineStorageAvailable()) return null;
+  const pack = await run<OfflinePack | undefined>(PACKS_STORE, 'readonly', (store) => store.get(testType));
+  return pack ?? null;
+}
+
+export async function listOfflinePacks(): Promise<OfflinePack[]> {
+  if (!isOfflineStorageAvailable()) return [];
+  return run<OfflinePack[]>(PACKS_STORE, 'readonly', (store) => store.getAll());
+}
+
+export async function saveOfflinePack(pack: OfflinePack): Promise<void> {
+  requireStorage();
+  await run(PACKS_STORE, 'readwrite', (store) => store.put(pack));
+}
+
+export async function deleteOfflinePack(testType: TestType): Promise<void> {
+  if (!isOfflineStorageAvailable()) return;
+  await run(PACKS_STORE, 'readwrite', (store) => store.delete(testType));
+}
+
+// ---------------------------------------------------------------------------
+// Figures
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch figures into the offline figure cache, one at a time so a large pool
+ * does not flood a slow connection. Returns how many were cached; a figure
+ * that fails to download is skipped rather than failing the whole pool.
+ */
+export async function cacheFigures(
+  urls: string[],
+  onProgress?: (done: number) => void
+): Promise<number> {
+  if (typeof caches === 'undefined') return 0;
+  const cache = await caches.open(OFFLINE_FIGURE_CACHE);
+  let cached = 0;
+  for (const [index, url] of urls.entries()) {
+    try {
+      await cache.add(url);
+      cached++;
+    } catch (error) {
+      console.warn('Failed to cache figure for offline use:', url, error);
+    }
+    onProgress?.(index + 1);
+  }
+  return cached;
+}
+
+export async function removeCachedFigures(urls: string[]): Promise<void> {
+  if (typeof caches === 'undefined') return;
+  const cache = await caches.open(OFFLINE_FIGURE_CACHE);
+  await Promise.all(urls.map((url) => cache.delete(url)));
+}
+
+// ---------------------------------------------------------------------------
+// Glossary
+// ---------------------------------------------------------------------------
+
+export async function getOfflineGlossary(): Promise<OfflineGlossary | null> {
+  if (!isOfflineStorageAvailable()) return null;
+  const glossary = await run<OfflineGlossary | undefined>(GLOSSARY_STORE, 'readonly', (store) =>
+    store.get(GLOSSARY_KEY)
+  );
+  return glossary ?? null;
+}
+
+export async function saveOfflineGlossary(glossary: OfflineGlossary): Promise<void> {
+  requireStorage();
+  await run(GLOSSARY_STORE, 'readwrite', (store) => store.put(glossary, GLOSSARY_KEY));
+}
+
+// ---------------------------------------------------------------------------
+// Outbox
+// ---------------------------------------------------------------------------
+
+export async function addOutboxEntry(entry: OutboxEntry): Promise<void> {
+  requireStorage();
+  await run(OUTBOX_STORE, 'readwrite', (store) => store.put(entry));
+  window.dispatchEvent(new Event(OUTBOX_CHANGED_EVENT));
+}
+
+/** Pending entries, oldest first so replay preserves the order days were studied */
+export async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  if (!isOfflineStorageAvailable()) return [];
+  const entries = await run<OutboxEntry[]>(OUTBOX_STORE, 'readonly', (store) => store.getAll());
+  return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function deleteOutboxEntry(id: string): Promise<void> {
+  if (!isOfflineStorageAvailable()) return;
+  await run(OUTBOX_STORE, 'readwrite', (store) => store.delete(id));
+  window.dispatchEvent(new Event(OUTBOX_CHANGED_EVENT));
+}
@@ -0,0 +1,330 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  createPracticeTestEntry,
+  createQuestionAttemptEntry,
+  isOffline,
+  replayOutbox,
+} from './offlineSync';
+import type { OutboxEntry } from './offlineStore';
+import type { Question } from '@/hooks/useQuestions';
+
+const mockGetOutboxEntries = vi.fn();
+const mockDeleteOutboxEntry = vi.fn();
+const mockCreateAttempts = vi.fn();
+const mockCreateTestResult = vi.fn();
+const mockIncrementActivityOnce = vi.fn();
+const mockRecordQuestionAttempt = vi.fn();
+const mockRecordPracticeTestCompleted = vi.fn();
+
+vi.mock('./offlineStore', () => ({
+  getOutboxEntries: () => mockGetOutboxEntries(),
+  deleteOutboxEntry: (id: string) => mockDeleteOutboxEntry(id),
+}));
+
+vi.mock('@/services/progress/progressService', () => ({
+  progressService: {
+    createAttempts: (...args: unknown[]) => mockCreateAttempts(...args),
+    createTestResult: (...args: unknown[]) => mockCreateTestResult(...args),
+  },
+}));
+
+vi.mock('@/services/streak/streakService', () => ({
+  streakService: {
+    incrementActivityOnce: (...args: unknown[]) => mockIncrementActivityOnce(...args),
+  },
+}));
+
+vi.mock('./events', () => ({
+  recordQuestionAttempt: (...args: unknown[]) => mockRecordQuestionAttempt(...args),
+  recordPracticeTestCompleted: (...args: unknown[]) => mockRecordPracticeTestCompleted(...args),
+}));
+
+function question(displayName: string, correctAnswer: 'A' | 'B' | 'C' | 'D' = 'A'): Question {
+  return {
+    id: `id-${displayName}`,
+    displayName,
+    question: `${displayName}?`,
+    options: { A: 'a', B: 'b', C: 'c', D: 'd' },
+    correctAnswer,
+    subelement: displayName.slice(0, 2),
+    group: displayName.slice(0, 3),
+    links: [],
+    explanation: null,
+    poolVersion: '2022-2026',
+  } as Question;
+}
+
+const duplicate = {
+  success: false,
+  error: { code: 'CONFLICT', message: 'duplicate key value', details: { postgrestCode: '23505' } },
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockDeleteOutboxEntry.mockResolvedValue(undefined);
+  mockCreateAttempts.mockResolvedValue({ success: true, data: undefined });
+  mockCreateTestResult.mockResolvedValue({ success: true, data: { id: 'tr' } });
+  mockIncrementActivityOnce.mockResolvedValue({ success: true, data: true });
+  mockRecordQuestionAttempt.mockResolvedValue({ success: true, data: undefined });
+  mockRecordPracticeTestCompleted.mockResolvedValue({ success: true, data: undefined });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('isOffline', () => {
+  it('follows navigator.onLine', () => {
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    expect(isOffline()).toBe(true);
+
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(true);
+    expect(isOffline()).toBe(false);
+  });
+});
+
+describe('createQuestionAttemptEntry', () => {
+  it('stamps the UTC study day and fresh row ids', () => {
+    const entry = createQuestionAttemptEntry(
+      {
+        userId: 'user-1',
+        question: question('T1A01'),
+        selectedAnswer: 'B',
+        attemptType: 'random_practice',
+        timeElapsedMs: 4000,
+      },
+      new Date('2026-10-16T23:30:00Z')
+    );
+
+    expect(entry.kind).toBe('question_attempt');
+    expect(entry.createdAt).toBe('2026-10-16T23:30:00.000Z');
+    expect(entry.activityDate).toBe('2026-10-16');
+    expect(new Set([entry.id, entry.attemptId, entry.eventId]).size).toBe(3);
+  });
+});
+
+describe('createPracticeTestEntry', () => {
+  it('assigns an attempt and event id to every question', () => {
+    const questions = [question('T1A01'), question('T1A02')];
+    const entry = createPracticeTestEntry({
+      userId: 'user-1',
+      questions,
+      answers: { 'id-T1A01': 'A' },
+      testType: 'technician',
+      timing: null,
+    });
+
+    expect(Object.keys(entry.attemptIds)).toEqual(['id-T1A01', 'id-T1A02']);
+    expect(Object.keys(entry.eventIds)).toEqual(['id-T1A01', 'id-T1A02']);
+    expect(entry.attemptIds['id-T1A01']).not.toBe(entry.eventIds['id-T1A01']);
+  });
+});
+
+describe('replayOutbox', () => {
+  const attemptEntry = (overrides: Partial<OutboxEntry> = {}): OutboxEntry => ({
+    ...createQuestionAttemptEntry(
+      {
+        userId: 'user-1',
+        question: question('G1A01'),
+        selectedAnswer: 'A',
+        attemptType: 'random_practice',
+        timeElapsedMs: 4000,
+      },
+      new Date('2026-10-16T08:00:00Z')
+    ),
+    ...overrides,
+  } as OutboxEntry);
+
+  it('replays an attempt with its original time and study day', async () => {
+    const entry = attemptEntry();
+    mockGetOutboxEntries.mockResolvedValue([entry]);
+
+    const result = await replayOutbox('user-1');
+
+    expect(mockCreateAttempts).toHaveBeenCalledWith([expect.objectContaining({
+      id: entry.kind === 'question_attempt' && entry.attemptId,
+      attempted_at: '2026-10-16T08:00:00.000Z',
+      question_id: 'id-G1A01',
+      is_correct: true,
+      attempt_type: 'random_practice',
+    })]);
+    expect(mockRecordQuestionAttempt).toHaveBeenCalledWith(expect.objectContaining({
+      eventId: entry.kind === 'question_attempt' && entry.eventId,
+      occurredAt: '2026-10-16T08:00:00.000Z',
+    }));
+    expect(mockIncrementActivityOnce).toHaveBeenCalledWith(entry.id, '2026-10-16', {
+      questions: 1,
+      correct: 1,
+    });
+    expect(mockDeleteOutboxEntry).toHaveBeenCalledWith(entry.id);
+    expect(result).toEqual({ synced: 1, dropped: 0, remaining: 0, testTypes: ['general'] });
+  });
+
+  it('treats rows saved by an earlier interrupted replay as synced', async () => {
+    const entry = attemptEntry();
+    mockGetOutboxEntries.mockResolvedValue([entry]);
+    mockCreateAttempts.mockResolvedValue(duplicate);
+    mockIncrementActivityOnce.mockResolvedValue({ success: true, data: false });
+
+    const result = await replayOutbox('user-1');
+
+    expect(result.synced).toBe(1);
+    expect(mockDeleteOutboxEntry).toHaveBeenCalledWith(entry.id);
+  });
+
+  it('keeps entries and stops when the connection drops again', async () => {
+    const first = attemptEntry({ id: 'first' });
+    const second = attemptEntry({ id: 'second', createdAt: '2026-10-17T08:00:00.000Z' });
+    mockGetOutboxEntries.mockResolvedValue([first, second]);
+    mockCreateAttempts.mockResolvedValue({
+      success: false,
+      error: { code: 'NETWORK_ERROR', message: 'Network error' },
+    });
+
+    const result = await replayOutbox('user-1');
+
+    expect(mockCreateAttempts).toHaveBeenCalledTimes(1);
+    expect(mockIncrementActivityOnce).not.toHaveBeenCalled();
+    expect(mockDeleteOutboxEntry).not.toHaveBeenCalled();
+    expect(result).toEqual({ synced: 0, dropped: 0, remaining: 2, testTypes: [] });
+  });
+
+  it('drops entries the server will never accept', async () => {
+    mockGetOutboxEntries.mockResolvedValue([attemptEntry({ id: 'orphan' })]);
+    mockCreateAttempts.mockResolvedValue({
+      success: false,
+      error: { code: 'CONFLICT', message: 'violates foreign key', details: { postgrestCode: '23503' } },
+    });
+
+    const result = await replayOutbox('user-1');
+
+    expect(mockDeleteOutboxEntry).toHaveBeenCalledWith('orphan');
+    expect(result).toEqual({ synced: 0, dropped: 1, remaining: 0, testTypes: [] });
+  });
+
+  it.each(['FORBIDDEN', 'AUTH_REQUIRED'])('drops entries rejected with %s', async (code) => {
+    mockGetOutboxEntries.mockResolvedValue([attemptEntry({ id: 'denied' })]);
+    mockCreateAttempts.mockResolvedValue({
+      success: false,
+      error: { code, message: 'Not allowed' },
+    });
+
+    const result = await replayOutbox('user-1');
+
+    expect(mockDeleteOutboxEntry).toHaveBeenCalledWith('denied');
+    expect(result).toEqual({ synced: 0, dropped: 1, remaining: 0, testTypes: [] });
+  });
+
+  it('keeps an attempt whose event write fails', async () => {
+    mockGetOutboxEntries.mockResolvedValue([attemptEntry({ id: 'unsent-event' })]);
+    mockRecordQuestionAttempt.mockResolvedValue({
+      success: false,
+      error: { code: 'NETWORK_ERROR', message: 'Failed to record event: fetch failed' },
+    });
+
+    const result = await replayOutbox('user-1');
+
+    expect(mockIncrementActivityOnce).not.toHaveBeenCalled();
+    expect(mockDeleteOutboxEntry).not.toHaveBeenCalled();
+    expect(result).toEqual({ synced: 0, dropped: 0, remaining: 1, testTypes: [] });
+  });
+
+  it('leaves entries from other accounts alone', async () => {
+    mockGetOutboxEntries.mockResolvedValue([attemptEntry({ userId: 'someone-else' })]);
+
+    const result = await replayOutbox('user-1');
+
+    expect(mockCreateAttempts).not.toHaveBeenCalled();
+    expect(result).toEqual({ synced: 0, dropped: 0, remaining: 0, testTypes: [] });
+  });
+
+  it('shares one run between concurrent calls', async () => {
+    mockGetOutboxEntries.mockResolvedValue([attemptEntry()]);
+
+    const [a, b] = await Promise.all([replayOutbox('user-1'), replayOutbox('user-1')]);
+
+    expect(a).toBe(b);
+    expect(mockCreateAttempts).toHaveBeenCalledTimes(1);
+  });
+
+  it('replays a practice test under its client result id', async () => {
+    const questions = [question('T1A01'), question('T1A02', 'B')];
+    const entry = createPracticeTestEntry(
+      {
+        userId: 'user-1',
+        questions,
+        answers: { 'id-T1A01': 'A', 'id-T1A02': 'C' },
+        testType: 'technician',
+        timing: null,
+      },
+      new Date('2026-10-15T18:00:00Z')
+    );
+    mockGetOutboxEntries.mockResolvedValue([entry]);
+
+    await replayOutbox('user-1');
+
+    expect(mockCreateTestResult).toHaveBeenCalledWith(expect.objectContaining({
+      id: entry.testResultId,
+      completedAt: '2026-10-15T18:00:00.000Z',
+      score: 1,
+      totalQuestions: 2,
+      passed: false,
+    }));
+    expect(mockCreateAttempts).toHaveBeenCalledWith([
+      expect.objectContaining({ id: entry.attemptIds['id-T1A01'], test_result_id: entry.testResultId }),
+      expect.objectContaining({ id: entry.attemptIds['id-T1A02'], test_result_id: entry.testResultId }),
+    ]);
+    expect(mockRecordPracticeTestCompleted).toHaveBeenCalledWith(expect.objectContaining({
+      practiceTestId: entry.testResultId,
+      eventId: entry.completedEventId,
+      subelementBreakdown: { T1: { correct: 1, total: 2 } },
+    }));
+    expect(mockIncrementActivityOnce).toHaveBeenCalledWith(entry.id, '2026-10-15', {
+      questions: 2,
+      correct: 1,
+      tests: 1,
+      testsPassed: 0,
+    });
+  });
+
+  it('saves a custom test under its result test type', async () => {
+    const entry = createPracticeTestEntry({
+      userId: 'user-1',
+      questions: [question('T1A01')],
+      answers: { 'id-T1A01': 'A' },
+      testType: 'technician',
+      resultTestType: 'custom_technician',
+      timing: null,
+    });
+    mockGetOutboxEntries.mockResolvedValue([entry]);
+
+    const result = await replayOutbox('user-1');
+
+    expect(mockCreateTestResult).toHaveBeenCalledWith(
+      expect.objectContaining({ testType: 'custom_technician', passed: true })
+    );
+    expect(result.testTypes).toEqual(['technician']);
+  });
+
+  it('keeps a practice test whose completion event fails', async () => {
+    const entry = createPracticeTestEntry({
+      userId: 'user-1',
+      questions: [question('T1A01')],
+      answers: { 'id-T1A01': 'A' },
+      testType: 'technician',
+      timing: null,
+    });
+    mockGetOutboxEntries.mockResolvedValue([entry]);
+    mockRecordPracticeTestCompleted.mockResolvedValue({
+      success: false,
+      error: { code: 'NETWORK_ERROR', message: 'Failed to record event: fetch failed' },
+    });
+
+    const result = await replayOutbox('user-1');
+
+    expect(mockIncrementActivityOnce).not.toHaveBeenCalled();
+    expect(mockDeleteOutboxEntry).not.toHaveBeenCalled();
+    expect(result).toEqual({ synced: 0, dropped: 0, remaining: 1, testTypes: [] });
+  });
+});
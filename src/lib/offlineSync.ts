@@ -0,0 +1,286 @@
+/**
+ * Queue attempts made offline and replay them when the connection returns.
+ *
+ * Each outbox entry carries ids generated on the device for every row it
+ * will create (question_attempts, practice_test_results, events), so a replay
+ * that is interrupted and run again cannot create duplicates: the repeated
+ * insert fails with a unique violation, which counts as already synced. The
+ * streak increment is guarded by a server-side receipt keyed by the entry id
+ * and uses the UTC date the learner actually studied.
+ */
+
+import type { Question } from '@/hooks/useQuestions';
+import { recordPracticeTestCompleted, recordQuestionAttempt } from './events';
+import { buildPacingPayload, type TestTiming } from './examPacing';
+import { buildSubelementBreakdown, scorePracticeTest } from './practiceTestScore';
+import { getUTCDateString } from './streakConstants';
+import {
+  deleteOutboxEntry,
+  getOutboxEntries,
+  type OutboxEntry,
+  type PracticeTestEntry,
+  type QuestionAttemptEntry,
+} from './offlineStore';
+import { progressService } from '@/services/progress/progressService';
+import { streakService } from '@/services/streak/streakService';
+import type { ServiceResult } from '@/services/types';
+import type { TestType } from '@/types/navigation';
+
+const answerToIndex: Record<string, number> = { A: 0, B: 1, C: 2, D: 3 };
+
+/**
+ * Errors worth retrying on the next reconnect; anything else will never
+ * succeed. A permission error means the session can't write these rows, and
+ * retrying it would hold up the outbox forever.
+ */
+const TRANSIENT_ERROR_CODES = new Set(['NETWORK_ERROR', 'RATE_LIMITED']);
+
+export interface ReplayResult {
+  /** Entries now saved on the server */
+  synced: number;
+  /** Entries the server rejected for good; they were removed from the outbox */
+  dropped: number;
+  /** Entries still waiting, e.g. because the connection dropped again */
+  remaining: number;
+  /** Exam types with synced activity, for readiness recalculation */
+  testTypes: TestType[];
+}
+
+/** True when the browser reports no network connection */
+export function isOffline(): boolean {
+  return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+export function createQuestionAttemptEntry(
+  params: {
+    userId: string;
+    question: Question;
+    selectedAnswer: 'A' | 'B' | 'C' | 'D';
+    attemptType: string;
+    timeElapsedMs: number;
+  },
+  now: Date = new Date()
+): QuestionAttemptEntry {
+  return {
+    kind: 'question_attempt',
+    id: crypto.randomUUID(),
+    createdAt: now.toISOString(),
+    activityDate: getUTCDateString(now),
+    attemptId: crypto.randomUUID(),
+    eventId: crypto.randomUUID(),
+    ...params,
+  };
+}
+
+export function createPracticeTestEntry(
+  params: {
+    userId: string;
+    questions: Question[];
+    answers: Record<string, 'A' | 'B' | 'C' | 'D'>;
+    testType: TestType;
+    resultTestType?: string;
+    timing: TestTiming | null;
+  },
+  now: Date = new Date()
+): PracticeTestEntry {
+  const attemptIds: Record<string, string> = {};
+  const eventIds: Record<string, string> = {};
+  for (const question of params.questions) {
+    attemptIds[question.id] = crypto.randomUUID();
+    eventIds[question.id] = crypto.randomUUID();
+  }
+
+  return {
+    kind: 'practice_test',
+    id: crypto.randomUUID(),
+    createdAt: now.toISOString(),
+    activityDate: getUTCDateString(now),
+    testResultId: crypto.randomUUID(),
+    attemptIds,
+    eventIds,
+    completedEventId: crypto.randomUUID(),
+    ...params,
+  };
+}
+
+/** The exam type a question belongs to, from its T/G/E display name prefix */
+function testTypeOf(question: Question): TestType {
+  const prefix = (question.displayName || question.id).charAt(0).toUpperCase();
+  return prefix === 'G' ? 'general' : prefix === 'E' ? 'extra' : 'technician';
+}
+
+type StepOutcome = 'ok' | 'retry' | 'drop';
+
+/** A unique violation on a client id means an earlier replay saved the row */
+function stepOutcome(result: ServiceResult<unknown>): StepOutcome {
+  if (result.success) return 'ok';
+  if (result.error.details?.postgrestCode === '23505') return 'ok';
+  console.error('Offline sync failed:', result.error.message);
+  return TRANSIENT_ERROR_CODES.has(result.error.code) ? 'retry' : 'drop';
+}
+
+async function replayQuestionAttempt(entry: QuestionAttemptEntry): Promise<StepOutcome> {
+  const { question, selectedAnswer } = entry;
+  const isCorrect = selectedAnswer === question.correctAnswer;
+
+  const saved = stepOutcome(
+    await progressService.createAttempts([{
+      id: entry.attemptId,
+      attempted_at: entry.createdAt,
+      user_id: entry.userId,
+      question_id: question.id,
+      selected_answer: answerToIndex[selectedAnswer],
+      is_correct: isCorrect,
+      attempt_type: entry.attemptType,
+    }])
+  );
+  if (saved !== 'ok') return saved;
+
+  // The event drives the review schedule, so a lost write is retried
+  const eventSaved = stepOutcome(
+    await recordQuestionAttempt({
+      question,
+      answerSelected: answerToIndex[selectedAnswer],
+      timeElapsedMs: entry.timeElapsedMs,
+      mode: entry.attemptType,
+      userId: entry.userId,
+      eventId: entry.eventId,
+      occurredAt: entry.createdAt,
+    })
+  );
+  if (eventSaved === 'retry') return eventSaved;
+
+  return stepOutcome(
+    await streakService.incrementActivityOnce(entry.id, entry.activityDate, {
+      questions: 1,
+      correct: isCorrect ? 1 : 0,
+    })
+  );
+}
+
+async function replayPracticeTest(entry: PracticeTestEntry): Promise<StepOutcome> {
+  const { questions, answers, testType, timing } = entry;
+  const { correctCount, totalQuestions, percentage, passed } = scorePracticeTest(
+    questions,
+    answers,
+    testType,
+    entry.resultTestType !== undefined
+  );
+
+  const resultSaved = stepOutcome(
+    await progressService.createTestResult({
+      id: entry.testResultId,
+      completedAt: entry.createdAt,
+      userId: entry.userId,
+      score: correctCount,
+      totalQuestions,
+      percentage,
+      passed,
+      testType: entry.resultTestType ?? testType,
+    })
+  );
+  if (resultSaved !== 'ok') return resultSaved;
+
+  const attemptsSaved = stepOutcome(
+    await progressService.createAttempts(
+      questions.map((q) => ({
+        id: entry.attemptIds[q.id],
+        attempted_at: entry.createdAt,
+        user_id: entry.userId,
+        question_id: q.id,
+        selected_answer: answerToIndex[answers[q.id]] ?? 0,
+        is_correct: answers[q.id] === q.correctAnswer,
+        test_result_id: entry.testResultId,
+        attempt_type: 'practice_test',
+      }))
+    )
+  );
+  if (attemptsSaved !== 'ok') return attemptsSaved;
+
+  const eventsSaved = await Promise.all([
+    ...questions.map((question) =>
+      recordQuestionAttempt({
+        question,
+        answerSelected: answerToIndex[answers[question.id]] ?? 0,
+        timeElapsedMs: Math.round(timing?.questionTimes[question.id] ?? 0),
+        mode: 'practice_test',
+        practiceTestId: entry.testResultId,
+        userId: entry.userId,
+        eventId: entry.eventIds[question.id],
+        occurredAt: entry.createdAt,
+      })
+    ),
+    recordPracticeTestCompleted({
+      practiceTestId: entry.testResultId,
+      testResultId: entry.testResultId,
+      examType: testType,
+      totalQuestions,
+      score: correctCount,
+      percentage,
+      durationSeconds: timing
+        ? Math.round(Object.values(timing.questionTimes).reduce((sum, ms) => sum + ms, 0) / 1000)
+        : 0,
+      subelementBreakdown: buildSubelementBreakdown(questions, answers),
+      poolVersion: questions[0]?.poolVersion,
+      pacing: timing ? buildPacingPayload(questions, timing) : null,
+      userId: entry.userId,
+      eventId: entry.completedEventId,
+      occurredAt: entry.createdAt,
+    }),
+  ]);
+  if (eventsSaved.map(stepOutcome).includes('retry')) return 'retry';
+
+  return stepOutcome(
+    await streakService.incrementActivityOnce(entry.id, entry.activityDate, {
+      questions: totalQuestions,
+      correct: correctCount,
+      tests: 1,
+      testsPassed: passed ? 1 : 0,
+    })
+  );
+}
+
+function replayEntry(entry: OutboxEntry): Promise<StepOutcome> {
+  return entry.kind === 'practice_test' ? replayPracticeTest(entry) : replayQuestionAttempt(entry);
+}
+
+async function replay(userId: string): Promise<ReplayResult> {
+  // Entries from another account on this device wait until that learner signs in
+  const entries = (await getOutboxEntries()).filter((entry) => entry.userId === userId);
+  const result: ReplayResult = { synced: 0, dropped: 0, remaining: entries.length, testTypes: [] };
+
+  for (const entry of entries) {
+    const outcome = await replayEntry(entry);
+    // Stop at the first transient failure: later entries would fail the same way
+    if (outcome === 'retry') break;
+
+    await deleteOutboxEntry(entry.id);
+    result.remaining--;
+    if (outcome === 'drop') {
+      result.dropped++;
+      continue;
+    }
+
+    result.synced++;
+    const testType = entry.kind === 'practice_test' ? entry.testType : testTypeOf(entry.question);
+    if (!result.testTypes.includes(testType)) result.testTypes.push(testType);
+  }
+
+  return result;
+}
+
+let inFlight: Promise<ReplayResult> | null = null;
+
+/**
+ * Replay the signed-in learner's outbox, oldest entry first.
+ * Concurrent calls share one run, so a reconnect event and a mount in the
+ * same tab cannot replay the same entry side by side.
+ */
+export function replayOutbox(userId: string): Promise<ReplayResult> {
+  if (!inFlight) {
+    inFlight = replay(userId).finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
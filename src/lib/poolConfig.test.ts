@@ -4,6 +4,11 @@ import {
   getPoolVersionForExamType,
   getPoolConfig,
   isCurrentPool,
+  getPoolVersions,
+  getPoolForDate,
+  getSelectablePools,
+  findPoolVersion,
+  toDateKey,
   type ExamType
 } from './poolConfig';
 
@@ -103,4 +108,68 @@ describe('poolConfig', () => {
       expect(isCurrentPool('general', '2022-2026')).toBe(false);
     });
   });
+
+  describe('getPoolVersions', () => {
+    it('lists both Technician pools during the 2026 transition', () => {
+      expect(getPoolVersions('technician').map(p => p.version)).toEqual(['2022-2026', '2026-2030']);
+    });
+
+    it('lists a single pool for exams without a pending switch', () => {
+      expect(getPoolVersions('general')).toHaveLength(1);
+      expect(getPoolVersions('extra')).toHaveLength(1);
+    });
+  });
+
+  describe('getPoolForDate', () => {
+    it('picks the outgoing pool for exams on or before its expiration', () => {
+      expect(getPoolForDate('technician', '2026-06-30').version).toBe('2022-2026');
+    });
+
+    it('picks the incoming pool from its effective date', () => {
+      expect(getPoolForDate('technician', '2026-07-01').version).toBe('2026-2030');
+    });
+
+    it('accepts Date objects', () => {
+      expect(getPoolForDate('technician', new Date(2026, 4, 15)).version).toBe('2022-2026');
+    });
+
+    it('clamps dates outside every pool to the nearest pool', () => {
+      expect(getPoolForDate('technician', '2020-01-01').version).toBe('2022-2026');
+      expect(getPoolForDate('technician', '2035-01-01').version).toBe('2026-2030');
+    });
+  });
+
+  describe('getSelectablePools', () => {
+    it('offers both pools before the outgoing pool expires', () => {
+      expect(getSelectablePools('technician', '2026-03-01').map(p => p.version)).toEqual(['2022-2026', '2026-2030']);
+    });
+
+    it('drops the outgoing pool once it has expired', () => {
+      expect(getSelectablePools('technician', '2026-07-01').map(p => p.version)).toEqual(['2026-2030']);
+    });
+
+    it('always returns at least one pool', () => {
+      expect(getSelectablePools('general', '2040-01-01').map(p => p.version)).toEqual(['2023-2027']);
+    });
+  });
+
+  describe('toDateKey', () => {
+    it('formats the local calendar date with zero padding', () => {
+      expect(toDateKey(new Date(2026, 0, 5, 23, 59))).toBe('2026-01-05');
+    });
+
+    it('keeps the date part of a date string', () => {
+      expect(toDateKey('2026-07-01T12:00:00Z')).toBe('2026-07-01');
+    });
+  });
+
+  describe('findPoolVersion', () => {
+    it('finds a known pool', () => {
+      expect(findPoolVersion('technician', '2026-2030')?.effectiveDate).toBe('2026-07-01');
+    });
+
+    it('returns undefined for a pool from another exam', () => {
+      expect(findPoolVersion('technician', '2023-2027')).toBeUndefined();
+    });
+  });
 });
@@ -78,3 +78,108 @@ export function getPoolConfig(examType: ExamType): PoolConfig {
 export function isCurrentPool(examType: ExamType, poolVersion: string): boolean {
   return POOL_CONFIG[examType].currentVersion === poolVersion;
 }
+
+/**
+ * A single question pool release for an exam type.
+ */
+export interface PoolVersionInfo {
+  version: string;
+  effectiveDate: string;
+  expirationDate: string;
+  questionCount: number;
+}
+
+/**
+ * Every pool release we hold questions for, oldest first.
+ *
+ * During a transition window two pools exist for the same exam: the outgoing
+ * pool is still tested until its expiration date, and the incoming pool is
+ * published months ahead so people testing after the switch can start early.
+ */
+export const POOL_VERSIONS: Record<ExamType, PoolVersionInfo[]> = {
+  technician: [
+    {
+      version: POOL_CONFIG.technician.currentVersion,
+      effectiveDate: POOL_CONFIG.technician.effectiveDate,
+      expirationDate: POOL_CONFIG.technician.expirationDate,
+      questionCount: POOL_CONFIG.technician.questionCount,
+    },
+    {
+      version: '2026-2030',
+      effectiveDate: '2026-07-01',
+      expirationDate: '2030-06-30',
+      questionCount: 411, // Update once the final NCVEC pool is imported
+    },
+  ],
+  general: [
+    {
+      version: POOL_CONFIG.general.currentVersion,
+      effectiveDate: POOL_CONFIG.general.effectiveDate,
+      expirationDate: POOL_CONFIG.general.expirationDate,
+      questionCount: POOL_CONFIG.general.questionCount,
+    },
+  ],
+  extra: [
+    {
+      version: POOL_CONFIG.extra.currentVersion,
+      effectiveDate: POOL_CONFIG.extra.effectiveDate,
+      expirationDate: POOL_CONFIG.extra.expirationDate,
+      questionCount: POOL_CONFIG.extra.questionCount,
+    },
+  ],
+};
+
+/** Format a Date as YYYY-MM-DD in local time (pool and exam dates are calendar days). */
+export function toDateKey(date: Date | string): string {
+  if (typeof date === 'string') return date.slice(0, 10);
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * Get all known pool releases for an exam type, oldest first.
+ */
+export function getPoolVersions(examType: ExamType): PoolVersionInfo[] {
+  return POOL_VERSIONS[examType];
+}
+
+/**
+ * Get the pool that will be used on a given exam date.
+ *
+ * Dates before the first pool map to the oldest pool and dates after the last
+ * pool's expiration map to the newest, so callers always get a pool back.
+ *
+ * @param examType - The exam type
+ * @param examDate - The exam date (Date or YYYY-MM-DD string)
+ */
+export function getPoolForDate(examType: ExamType, examDate: Date | string): PoolVersionInfo {
+  const pools = POOL_VERSIONS[examType];
+  const day = toDateKey(examDate);
+
+  const match = pools.find(p => p.effectiveDate <= day && day <= p.expirationDate);
+  if (match) return match;
+
+  return day < pools[0].effectiveDate ? pools[0] : pools[pools.length - 1];
+}
+
+/**
+ * Get the pools a learner could still be tested on as of a date.
+ * More than one entry means the exam is in a pool transition window.
+ *
+ * @param examType - The exam type
+ * @param today - Reference date (defaults to now)
+ */
+export function getSelectablePools(examType: ExamType, today: Date | string = new Date()): PoolVersionInfo[] {
+  const day = toDateKey(today);
+  const selectable = POOL_VERSIONS[examType].filter(p => p.expirationDate >= day);
+  return selectable.length > 0 ? selectable : [getPoolForDate(examType, day)];
+}
+
+/**
+ * Find a pool release by version string.
+ */
+export function findPoolVersion(examType: ExamType, version: string): PoolVersionInfo | undefined {
+  return POOL_VERSIONS[examType].find(p => p.version === version);
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { buildSubelementBreakdown, requiredToPass, scorePracticeTest } from './practiceTestScore';
+import type { Question } from '@/hooks/useQuestions';
+
+function question(displayName: string, correctAnswer: 'A' | 'B' | 'C' | 'D' = 'A'): Question {
+  return {
+    id: `id-${displayName}`,
+    displayName,
+    question: `${displayName}?`,
+    options: { A: 'a', B: 'b', C: 'c', D: 'd' },
+    correctAnswer,
+    subelement: displayName.slice(0, 2),
+    group: displayName.slice(0, 3),
+    links: [],
+    explanation: null,
+  } as Question;
+}
+
+const questions = [question('T1A01'), question('T1B02', 'B'), question('T2A03', 'C')];
+
+describe('scorePracticeTest', () => {
+  it('counts correct answers and treats unanswered as wrong', () => {
+    const score = scorePracticeTest(questions, { 'id-T1A01': 'A', 'id-T1B02': 'C' }, 'technician');
+
+    expect(score).toEqual({ correctCount: 1, totalQuestions: 3, percentage: 33, passed: false });
+  });
+
+  it('passes at the exam passing score', () => {
+    const exam = Array.from({ length: 35 }, (_, i) => question(`T1A${String(i).padStart(2, '0')}`));
+    const answers = Object.fromEntries(exam.slice(0, 26).map((q) => [q.id, 'A' as const]));
+
+    expect(scorePracticeTest(exam, answers, 'technician').passed).toBe(true);
+    expect(scorePracticeTest(exam, { ...answers, [exam[0].id]: 'B' }, 'technician').passed).toBe(false);
+  });
+
+  it('scales the passing score for shorter custom tests', () => {
+    const short = Array.from({ length: 20 }, (_, i) => question(`T1A${String(i).padStart(2, '0')}`));
+    const answers = Object.fromEntries(short.slice(0, 15).map((q) => [q.id, 'A' as const]));
+
+    expect(scorePracticeTest(short, answers, 'technician', true).passed).toBe(true);
+    expect(scorePracticeTest(short, { ...answers, [short[0].id]: 'B' }, 'technician', true).passed).toBe(false);
+    expect(scorePracticeTest(short, answers, 'technician').passed).toBe(false);
+  });
+});
+
+describe('requiredToPass', () => {
+  it('uses the official passing score for practice tests', () => {
+    expect(requiredToPass(35, 'technician')).toBe(26);
+    expect(requiredToPass(1, 'technician')).toBe(26);
+    expect(requiredToPass(50, 'extra')).toBe(37);
+  });
+
+  it('rounds the scaled score up for custom tests', () => {
+    expect(requiredToPass(35, 'technician', true)).toBe(26);
+    expect(requiredToPass(10, 'general', true)).toBe(8);
+    expect(requiredToPass(100, 'extra', true)).toBe(74);
+  });
+});
+
+describe('buildSubelementBreakdown', () => {
+  it('groups results by the first two characters of the display name', () => {
+    const breakdown = buildSubelementBreakdown(questions, { 'id-T1A01': 'A', 'id-T2A03': 'C' });
+
+    expect(breakdown).toEqual({
+      T1: { correct: 1, total: 2 },
+      T2: { correct: 1, total: 1 },
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import type { Question } from '@/hooks/useQuestions';
+import { testConfig, type TestType } from '@/types/navigation';
+
+export interface PracticeTestScore {
+  correctCount: number;
+  totalQuestions: number;
+  percentage: number;
+  passed: boolean;
+}
+
+/**
+ * Correct answers needed to pass. Practice tests use the official passing
+ * score; custom tests can be any length, so theirs is scaled to the same 74%.
+ */
+export function requiredToPass(totalQuestions: number, testType: TestType, custom = false): number {
+  const { questionCount, passingScore } = testConfig[testType];
+  if (!custom) return passingScore;
+  return Math.ceil((totalQuestions * passingScore) / questionCount);
+}
+
+/**
+ * Score a finished practice test against the passing score for its exam.
+ * Unanswered questions count as wrong.
+ */
+export function scorePracticeTest(
+  questions: Question[],
+  answers: Record<string, 'A' | 'B' | 'C' | 'D'>,
+  testType: TestType,
+  custom = false
+): PracticeTestScore {
+  const correctCount = questions.filter((q) => answers[q.id] === q.correctAnswer).length;
+  const totalQuestions = questions.length;
+
+  return {
+    correctCount,
+    totalQuestions,
+    percentage: Math.round((correctCount / totalQuestions) * 100),
+    passed: correctCount >= requiredToPass(totalQuestions, testType, custom),
+  };
+}
+
+/**
+ * Correct and total counts per subelement for the practice_test_completed event.
+ */
+export function buildSubelementBreakdown(
+  questions: Question[],
+  answers: Record<string, 'A' | 'B' | 'C' | 'D'>
+): Record<string, { correct: number; total: number }> {
+  const breakdown: Record<string, { correct: number; total: number }> = {};
+  for (const question of questions) {
+    // Extract subelement from question display name (e.g., 'T1' from 'T1A01')
+    // Fall back to question.id if displayName is not available
+    const displayName = question.displayName || question.id || '';
+    const subelement = displayName.slice(0, 2);
+    if (!subelement) continue;
+
+    breakdown[subelement] ??= { correct: 0, total: 0 };
+    breakdown[subelement].total++;
+    if (answers[question.id] === question.correctAnswer) {
+      breakdown[subelement].correct++;
+    }
+  }
+  return breakdown;
+}
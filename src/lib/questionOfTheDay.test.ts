@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getEmbedTheme,
+  isEmbedPath,
+  parseEmbedTestType,
+  parseEmbedTheme,
+  pickQuestionOfTheDay,
+  utcDayKey,
+} from './questionOfTheDay';
+
+const pool = Array.from({ length: 40 }, (_, i) => ({
+  id: `q${i}`,
+  displayName: `T${Math.floor(i / 10) + 1}A${String((i % 10) + 1).padStart(2, '0')}`,
+}));
+
+describe('utcDayKey', () => {
+  it('uses the UTC calendar day', () => {
+    expect(utcDayKey(new Date('2026-10-18T23:30:00-05:00'))).toBe('2026-10-19');
+  });
+});
+
+describe('pickQuestionOfTheDay', () => {
+  const day = new Date('2026-10-18T08:00:00Z');
+
+  it('picks the same question all day regardless of pool order', () => {
+    const morning = pickQuestionOfTheDay(pool, 'technician', day);
+    const evening = pickQuestionOfTheDay([...pool].reverse(), 'technician', new Date('2026-10-18T23:59:00Z'));
+
+    expect(morning).not.toBeNull();
+    expect(evening).toBe(morning);
+  });
+
+  it('moves to another question over the following days', () => {
+    const picks = new Set(
+      Array.from({ length: 7 }, (_, i) =>
+        pickQuestionOfTheDay(pool, 'technician', new Date(Date.UTC(2026, 9, 18 + i)))?.id
+      )
+    );
+
+    expect(picks.size).toBeGreaterThan(3);
+  });
+
+  it('picks independently per exam type', () => {
+    const picks = new Set(
+      ['technician', 'general', 'extra'].map((t) =>
+        pickQuestionOfTheDay(pool, t as 'technician', day)?.id
+      )
+    );
+
+    expect(picks.size).toBeGreaterThan(1);
+  });
+
+  it('returns null for an empty pool', () => {
+    expect(pickQuestionOfTheDay([], 'general', day)).toBeNull();
+  });
+});
+
+describe('embed parameters', () => {
+  it('defaults unknown exam types to technician', () => {
+    expect(parseEmbedTestType('extra')).toBe('extra');
+    expect(parseEmbedTestType('novice')).toBe('technician');
+    expect(parseEmbedTestType(null)).toBe('technician');
+  });
+
+  it('accepts only light and dark themes', () => {
+    expect(parseEmbedTheme('dark')).toBe('dark');
+    expect(parseEmbedTheme('light')).toBe('light');
+    expect(parseEmbedTheme('system')).toBeUndefined();
+  });
+
+  it('forces a theme only on embed routes', () => {
+    expect(isEmbedPath('/embed/question-of-the-day')).toBe(true);
+    expect(getEmbedTheme({ pathname: '/embed/question-of-the-day', search: '?theme=dark' })).toBe('dark');
+    expect(getEmbedTheme({ pathname: '/embed/question-of-the-day', search: '' })).toBeUndefined();
+    expect(getEmbedTheme({ pathname: '/dashboard', search: '?theme=dark' })).toBeUndefined();
+  });
+});
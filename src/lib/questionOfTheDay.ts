@@ -0,0 +1,63 @@
+/**
+ * Question of the day for the embeddable widget.
+ *
+ * Every visitor sees the same question on the same UTC day for an exam type:
+ * the pick is a hash of the day and exam over the pool sorted by display
+ * name, so it needs no stored state and changes at 00:00 UTC.
+ */
+
+import type { TestType } from '@/types/navigation';
+
+export const EMBED_PATH_PREFIX = '/embed/';
+export const QUESTION_OF_THE_DAY_PATH = '/embed/question-of-the-day';
+
+export type EmbedTheme = 'light' | 'dark';
+
+const TEST_TYPES: TestType[] = ['technician', 'general', 'extra'];
+
+/** UTC calendar day, e.g. "2026-10-18" */
+export function utcDayKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** 32-bit FNV-1a; small, stable and well spread for short keys */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/** Pick the day's question from a pool; null for an empty pool */
+export function pickQuestionOfTheDay<T extends { displayName: string }>(
+  questions: T[],
+  testType: TestType,
+  date: Date = new Date()
+): T | null {
+  if (questions.length === 0) return null;
+  const sorted = [...questions].sort((a, b) => a.displayName.localeCompare(b.displayName));
+  return sorted[fnv1a(`${utcDayKey(date)}:${testType}`) % sorted.length];
+}
+
+export function parseEmbedTestType(value: string | null): TestType {
+  return TEST_TYPES.includes(value as TestType) ? (value as TestType) : 'technician';
+}
+
+export function parseEmbedTheme(value: string | null): EmbedTheme | undefined {
+  return value === 'light' || value === 'dark' ? value : undefined;
+}
+
+export function isEmbedPath(pathname: string): boolean {
+  return pathname.startsWith(EMBED_PATH_PREFIX);
+}
+
+/**
+ * Theme forced by an embed's `?theme=` parameter, so the widget matches the
+ * host page without touching the visitor's saved theme. Undefined elsewhere.
+ */
+export function getEmbedTheme(location: Pick<Location, 'pathname' | 'search'>): EmbedTheme | undefined {
+  if (!isEmbedPath(location.pathname)) return undefined;
+  return parseEmbedTheme(new URLSearchParams(location.search).get('theme'));
+}
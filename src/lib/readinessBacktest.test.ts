@@ -0,0 +1,234 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareConfigs,
+  configFromRows,
+  replayAnswers,
+  replayReadiness,
+  replayRowsFromAnswers,
+  replaySamples,
+  shownSamples,
+  validateBacktestConfig,
+  type BacktestAnswer,
+  type BacktestConfig,
+  type BacktestRow,
+} from './readinessBacktest';
+import { DEFAULT_CONFIG, calculatePassProbability } from './readinessScoring';
+
+const current: BacktestConfig = {
+  formula_weights: DEFAULT_CONFIG.formula_weights,
+  pass_probability: DEFAULT_CONFIG.pass_probability,
+  recency_penalty: DEFAULT_CONFIG.recency_penalty,
+};
+
+function row(overrides: Partial<BacktestRow> = {}): BacktestRow {
+  return {
+    attempt_id: 'attempt-1',
+    exam_date: '2026-10-10',
+    outcome: 'passed',
+    snapshot_date: '2026-10-08',
+    readiness_score: 70,
+    pass_probability: 0.68,
+    recent_accuracy: 0.8,
+    overall_accuracy: 0.7,
+    coverage: 0.9,
+    mastery: 0.6,
+    tests_passed: 3,
+    tests_taken: 4,
+    days_since_study: 2,
+    pool_size: 10,
+    ...overrides,
+  };
+}
+
+describe('replayReadiness', () => {
+  it('rebuilds the score from the snapshot metrics', () => {
+    // 35·0.8 + 20·0.7 + 15·0.9 + 15·0.6 + 15·0.75 = 75.75, minus 0.5·2 days without study
+    const { readinessScore, passProbability } = replayReadiness(row(), current);
+
+    expect(readinessScore).toBeCloseTo(74.75);
+    expect(passProbability).toBeCloseTo(calculatePassProbability(74.75, current.pass_probability));
+  });
+
+  it('counts missing accuracies and no practice tests as 0', () => {
+    const { readinessScore } = replayReadiness(
+      row({ recent_accuracy: null, overall_accuracy: null, tests_passed: 0, tests_taken: 0, days_since_study: 0 }),
+      current
+    );
+
+    expect(readinessScore).toBeCloseTo(15 * 0.9 + 15 * 0.6);
+  });
+
+  it('accepts numeric strings from the database', () => {
+    const fromNumbers = replayReadiness(row(), current);
+    const fromStrings = replayReadiness(row({ recent_accuracy: '0.8', coverage: '0.9' }), current);
+
+    expect(fromStrings.readinessScore).toBeCloseTo(fromNumbers.readinessScore);
+  });
+
+  it('never goes below 0', () => {
+    const { readinessScore } = replayReadiness(
+      row({ recent_accuracy: 0, overall_accuracy: 0, coverage: 0.05, mastery: 0, tests_passed: 0, days_since_study: 40 }),
+      current
+    );
+
+    expect(readinessScore).toBe(0);
+  });
+
+  it('reproduces the stored probability with the config that produced it', () => {
+    // Snapshots are taken as the learner studies, with no recency penalty
+    const metrics = row({ days_since_study: 0, snapshot_date: '2026-09-20' });
+    const shown = calculatePassProbability(75.75, current.pass_probability);
+
+    expect(replayReadiness(metrics, current).passProbability).toBeCloseTo(shown);
+  });
+
+  it('penalises a learner with no answers as calculate-readiness does', () => {
+    const { readinessScore } = replayReadiness(row({ days_since_study: null }), current);
+
+    // 30 days at 0.5 a day, capped at the maximum penalty
+    expect(readinessScore).toBeCloseTo(75.75 - Math.min(current.recency_penalty.max_penalty, 15));
+  });
+
+  it('applies the candidate weights and curve', () => {
+    const candidate: BacktestConfig = {
+      ...current,
+      formula_weights: { recent_accuracy: 100, overall_accuracy: 0, coverage: 0, mastery: 0, test_rate: 0 },
+      pass_probability: { k: 0.2, r0: 80 },
+    };
+
+    const { readinessScore, passProbability } = replayReadiness(row(), candidate);
+
+    expect(readinessScore).toBeCloseTo(79);
+    expect(passProbability).toBeCloseTo(calculatePassProbability(79, { k: 0.2, r0: 80 }));
+  });
+});
+
+describe('samples', () => {
+  const rows = [row(), row({ outcome: 'failed', pass_probability: '0.4' }), row({ outcome: 'skipped' })];
+
+  it('uses the stored probability for shown samples', () => {
+    expect(shownSamples(rows).map((s) => [s.predictedProbability, s.passed])).toEqual([
+      [0.68, true],
+      [0.4, false],
+    ]);
+  });
+
+  it('skips exams the learner did not take', () => {
+    expect(replaySamples(rows, current)).toHaveLength(2);
+  });
+});
+
+describe('compareConfigs', () => {
+  it('scores each config on the same outcomes', () => {
+    const rows = [
+      row({ outcome: 'passed' }),
+      row({ outcome: 'failed', recent_accuracy: 0.5, overall_accuracy: 0.5, coverage: 0.5, mastery: 0.2, tests_passed: 0 }),
+    ];
+    // A steeper curve around the same midpoint separates these two learners better
+    const candidate: BacktestConfig = { ...current, pass_probability: { k: 0.4, r0: 60 } };
+
+    const comparison = compareConfigs(rows, current, candidate);
+
+    expect(comparison.shown.sampleCount).toBe(2);
+    expect(comparison.current.sampleCount).toBe(2);
+    expect(comparison.candidate.brierScore).toBeLessThan(comparison.current.brierScore!);
+    expect(comparison.candidate.logLoss).toBeLessThan(comparison.current.logLoss!);
+  });
+});
+
+function answer(questionId: string, isCorrect: boolean, answeredAt: string, attemptId = 'attempt-1'): BacktestAnswer {
+  return { attempt_id: attemptId, question_id: questionId, is_correct: isCorrect, answered_at: answeredAt };
+}
+
+describe('replayAnswers', () => {
+  const answers = [
+    answer('q1', false, '2026-10-01T12:00:00Z'),
+    answer('q2', true, '2026-10-05T12:00:00Z'),
+    answer('q1', true, '2026-10-09T12:00:00Z'),
+    answer('q3', true, '2026-10-08T12:00:00Z'),
+  ];
+
+  it('rebuilds accuracy, coverage and days since study as of the exam', () => {
+    const replayed = replayAnswers(row(), answers);
+
+    expect(replayed.overall_accuracy).toBe(0.75);
+    expect(replayed.recent_accuracy).toBe(0.75);
+    expect(replayed.coverage).toBeCloseTo(0.3);
+    expect(replayed.days_since_study).toBeCloseTo(0.5);
+  });
+
+  it('takes recent accuracy from the latest answers only', () => {
+    expect(replayAnswers(row(), answers, 2).recent_accuracy).toBe(1);
+  });
+
+  it('keeps mastery, practice tests and what the learner was shown', () => {
+    const replayed = replayAnswers(row(), answers);
+
+    expect(replayed).toMatchObject({ mastery: 0.6, tests_passed: 3, tests_taken: 4, pass_probability: 0.68 });
+  });
+
+  it('keeps the snapshot metrics without answers or a pool size', () => {
+    expect(replayAnswers(row(), [])).toEqual(row());
+    expect(replayAnswers(row({ pool_size: null }), answers).coverage).toBe(0.9);
+  });
+
+  it('matches each row with its own answers', () => {
+    const rows = [row(), row({ attempt_id: 'attempt-2' })];
+    const replayed = replayRowsFromAnswers(rows, [...answers, answer('q9', false, '2026-10-09T00:00:00Z', 'attempt-2')]);
+
+    expect(replayed[0].overall_accuracy).toBe(0.75);
+    expect(replayed[1].overall_accuracy).toBe(0);
+  });
+});
+
+describe('configFromRows', () => {
+  it('reads the live config and version', () => {
+    const { config, version } = configFromRows([
+      { key: 'pass_probability', value: { k: 0.12, r0: 68 } },
+      { key: 'version', value: 'v1.1.0' },
+      { key: 'thresholds', value: {} },
+    ]);
+
+    expect(config.pass_probability).toEqual({ k: 0.12, r0: 68 });
+    expect(config.formula_weights).toEqual(DEFAULT_CONFIG.formula_weights);
+    expect(version).toBe('v1.1.0');
+  });
+
+  it('reads the recent window from the thresholds', () => {
+    expect(configFromRows([{ key: 'thresholds', value: { recent_window: 30 } }]).recentWindow).toBe(30);
+  });
+
+  it('falls back to the defaults without rows', () => {
+    expect(configFromRows([])).toEqual({ config: current, version: null, recentWindow: 50 });
+  });
+});
+
+describe('validateBacktestConfig', () => {
+  it('accepts the default config', () => {
+    expect(validateBacktestConfig(current)).toEqual([]);
+  });
+
+  it('requires weights that add up to 100', () => {
+    const errors = validateBacktestConfig({
+      ...current,
+      formula_weights: { ...current.formula_weights, recent_accuracy: 40 },
+    });
+
+    expect(errors).toEqual(['Weights must add up to 100 (currently 105)']);
+  });
+
+  it('rejects negative weights and a flat or inverted curve', () => {
+    const errors = validateBacktestConfig({
+      formula_weights: { recent_accuracy: 50, overall_accuracy: -5, coverage: 25, mastery: 15, test_rate: 15 },
+      pass_probability: { k: 0, r0: 120 },
+      recency_penalty: { max_penalty: -1, decay_rate: 0.5 },
+    });
+
+    expect(errors).toEqual([
+      'Weights must be zero or more',
+      'k must be greater than 0',
+      'r0 must be between 0 and 100',
+      'Recency penalty values must be zero or more',
+    ]);
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Readiness Backtesting
+ * =====================
+ *
+ * Replays stored readiness snapshots with a candidate config and scores the
+ * resulting pass probabilities against reported exam outcomes, so weight
+ * changes can be compared before they go live.
+ *
+ * Each row is a reported exam paired with the learner's last snapshot before
+ * the exam (`get_readiness_calibration_data`). The replay feeds the metrics
+ * the snapshot stored through `calculateReadinessScore`, with D the days the
+ * learner had gone without studying when the snapshot was taken, as in
+ * `calculate-readiness`. Replaying the live config therefore reproduces the
+ * probability the learner was shown.
+ *
+ * Rows can instead be rebuilt from the question_attempt events the learner
+ * logged before the exam (`get_readiness_backtest_answers`), which scores the
+ * learner as they stood on exam day rather than at the last snapshot.
+ * Mastery and practice tests still come from the snapshot.
+ */
+
+import {
+  DEFAULT_CONFIG,
+  calculatePassProbability,
+  calculateReadinessScore,
+  type FormulaWeights,
+  type PassProbabilityConfig,
+  type ReadinessConfig,
+  type RecencyPenaltyConfig,
+} from './readinessScoring';
+import { buildCalibrationReport, type CalibrationReport, type CalibrationSample } from './readinessCalibration';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** The parts of the config that change a learner's pass probability */
+export type BacktestConfig = Pick<ReadinessConfig, 'formula_weights' | 'pass_probability' | 'recency_penalty'>;
+
+/** A reported exam with the snapshot taken before it */
+export interface BacktestRow {
+  attempt_id: string;
+  exam_date: string;
+  outcome: 'passed' | 'failed' | 'skipped';
+  snapshot_date: string;
+  readiness_score: number | string;
+  pass_probability: number | string;
+  recent_accuracy: number | string | null;
+  overall_accuracy: number | string | null;
+  coverage: number | string | null;
+  mastery: number | string | null;
+  tests_passed: number;
+  tests_taken: number;
+  /** Days from the learner's last answer to the snapshot; null when they had none */
+  days_since_study: number | null;
+  /** Questions in the pool the exam was sat on */
+  pool_size: number | null;
+}
+
+/** An answer logged before a reported exam, on the pool the exam was sat on */
+export interface BacktestAnswer {
+  attempt_id: string;
+  question_id: string;
+  is_correct: boolean;
+  answered_at: string;
+}
+
+/** A row of the readiness_config table */
+export interface ReadinessConfigRow {
+  key: string;
+  value: unknown;
+}
+
+export interface BacktestComparison {
+  /** Probabilities learners actually saw */
+  shown: CalibrationReport;
+  /** Live config replayed on the same rows */
+  current: CalibrationReport;
+  /** Candidate config replayed on the same rows */
+  candidate: CalibrationReport;
+}
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/** calculate-readiness's default number of latest answers behind recent accuracy */
+export const DEFAULT_RECENT_WINDOW = 50;
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Read the live config from readiness_config rows, falling back to the
+ * defaults for missing keys the same way calculate-readiness does.
+ */
+export function configFromRows(rows: ReadinessConfigRow[]): {
+  config: BacktestConfig;
+  version: string | null;
+  recentWindow: number;
+} {
+  const values = new Map(rows.map((row) => [row.key, row.value]));
+  const thresholds = values.get('thresholds') as { recent_window?: number } | undefined;
+  return {
+    config: {
+      formula_weights: (values.get('formula_weights') as FormulaWeights) || DEFAULT_CONFIG.formula_weights,
+      pass_probability: (values.get('pass_probability') as PassProbabilityConfig) || DEFAULT_CONFIG.pass_probability,
+      recency_penalty: (values.get('recency_penalty') as RecencyPenaltyConfig) || DEFAULT_CONFIG.recency_penalty,
+    },
+    version: (values.get('version') as string) || null,
+    recentWindow: thresholds?.recent_window || DEFAULT_RECENT_WINDOW,
+  };
+}
+
+/** calculate-readiness's days since study for a learner with no answers */
+const NO_STUDY_DAYS = 30;
+
+/**
+ * Recompute a snapshot's readiness score and pass probability with a config.
+ * Missing accuracies count as 0, as in calculate-readiness.
+ */
+export function replayReadiness(
+  row: BacktestRow,
+  config: BacktestConfig
+): { readinessScore: number; passProbability: number } {
+  const raw = calculateReadinessScore(
+    Number(row.recent_accuracy ?? 0),
+    Number(row.overall_accuracy ?? 0),
+    Number(row.coverage ?? 0),
+    Number(row.mastery ?? 0),
+    row.tests_passed,
+    row.tests_taken,
+    row.days_since_study ?? NO_STUDY_DAYS,
+    { ...DEFAULT_CONFIG, ...config }
+  );
+
+  const readinessScore = Math.max(0, Math.min(100, raw));
+  return { readinessScore, passProbability: calculatePassProbability(readinessScore, config.pass_probability) };
+}
+
+/**
+ * Rebuild a row's answer-based metrics from the answers logged before the
+ * exam, the way calculate-readiness builds them: recent accuracy over the
+ * latest `recentWindow` answers, overall accuracy, coverage of the exam's
+ * pool, and D as the days from the last answer to the exam. Rows without
+ * answers are returned unchanged.
+ */
+export function replayAnswers(
+  row: BacktestRow,
+  answers: BacktestAnswer[],
+  recentWindow: number = DEFAULT_RECENT_WINDOW
+): BacktestRow {
+  if (answers.length === 0) {
+    return row;
+  }
+
+  const latestFirst = [...answers].sort((a, b) => Date.parse(b.answered_at) - Date.parse(a.answered_at));
+  const accuracy = (list: BacktestAnswer[]) => list.filter((a) => a.is_correct).length / list.length;
+  const poolSize = Number(row.pool_size ?? 0);
+  const uniqueSeen = new Set(answers.map((a) => a.question_id)).size;
+
+  return {
+    ...row,
+    recent_accuracy: accuracy(latestFirst.slice(0, recentWindow)),
+    overall_accuracy: accuracy(answers),
+    coverage: poolSize > 0 ? Math.min(1, uniqueSeen / poolSize) : row.coverage,
+    days_since_study: Math.max(0, (Date.parse(row.exam_date) - Date.parse(latestFirst[0].answered_at)) / MS_PER_DAY),
+  };
+}
+
+/** Rebuild every row from its own answers */
+export function replayRowsFromAnswers(
+  rows: BacktestRow[],
+  answers: BacktestAnswer[],
+  recentWindow: number = DEFAULT_RECENT_WINDOW
+): BacktestRow[] {
+  const byAttempt = new Map<string, BacktestAnswer[]>();
+  for (const answer of answers) {
+    const list = byAttempt.get(answer.attempt_id) ?? [];
+    list.push(answer);
+    byAttempt.set(answer.attempt_id, list);
+  }
+  return rows.map((row) => replayAnswers(row, byAttempt.get(row.attempt_id) ?? [], recentWindow));
+}
+
+/** Samples using the pass probability stored on each snapshot */
+export function shownSamples(rows: BacktestRow[]): CalibrationSample[] {
+  return rows
+    .filter((row) => row.outcome !== 'skipped')
+    .map((row) => ({
+      readinessScore: Number(row.readiness_score),
+      predictedProbability: Number(row.pass_probability),
+      passed: row.outcome === 'passed',
+    }));
+}
+
+/** Samples using the pass probability a config would have given */
+export function replaySamples(rows: BacktestRow[], config: BacktestConfig): CalibrationSample[] {
+  return rows
+    .filter((row) => row.outcome !== 'skipped')
+    .map((row) => {
+      const { readinessScore, passProbability } = replayReadiness(row, config);
+      return { readinessScore, predictedProbability: passProbability, passed: row.outcome === 'passed' };
+    });
+}
+
+/**
+ * Score the shown probabilities, the live config and a candidate on the same outcomes.
+ */
+export function compareConfigs(
+  rows: BacktestRow[],
+  current: BacktestConfig,
+  candidate: BacktestConfig
+): BacktestComparison {
+  return {
+    shown: buildCalibrationReport(shownSamples(rows)),
+    current: buildCalibrationReport(replaySamples(rows, current)),
+    candidate: buildCalibrationReport(replaySamples(rows, candidate)),
+  };
+}
+
+/**
+ * Check a candidate before it can be promoted. Returns one message per problem.
+ */
+export function validateBacktestConfig(config: BacktestConfig): string[] {
+  const errors: string[] = [];
+  const weights = Object.values(config.formula_weights);
+
+  if (weights.some((w) => !Number.isFinite(w) || w < 0)) {
+    errors.push('Weights must be zero or more');
+  }
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (Math.abs(total - 100) > 1e-9) {
+    errors.push(`Weights must add up to 100 (currently ${Math.round(total * 100) / 100})`);
+  }
+
+  const { k, r0 } = config.pass_probability;
+  if (!Number.isFinite(k) || k <= 0) {
+    errors.push('k must be greater than 0');
+  }
+  if (!Number.isFinite(r0) || r0 < 0 || r0 > 100) {
+    errors.push('r0 must be between 0 and 100');
+  }
+
+  const { max_penalty, decay_rate } = config.recency_penalty;
+  if (!Number.isFinite(max_penalty) || max_penalty < 0 || !Number.isFinite(decay_rate) || decay_rate < 0) {
+    errors.push('Recency penalty values must be zero or more');
+  }
+
+  return errors;
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  brierScore,
+  logLoss,
+  buildCalibrationBuckets,
+  buildCalibrationReport,
+  fitPassProbability,
+  MIN_FIT_SAMPLES,
+  type CalibrationSample,
+} from './readinessCalibration';
+import { calculatePassProbability } from './readinessScoring';
+
+function sample(readinessScore: number, passed: boolean, predictedProbability = 0.5): CalibrationSample {
+  return { readinessScore, predictedProbability, passed };
+}
+
+/**
+ * Outcomes that follow a known curve exactly: at each score, the share of
+ * passes equals the curve's probability (rounded to whole learners).
+ */
+function samplesFromCurve(k: number, r0: number, perScore = 40): CalibrationSample[] {
+  const samples: CalibrationSample[] = [];
+  for (let score = 30; score <= 100; score += 5) {
+    const p = calculatePassProbability(score, { k, r0 });
+    const passes = Math.round(p * perScore);
+    for (let i = 0; i < perScore; i++) {
+      samples.push(sample(score, i < passes, p));
+    }
+  }
+  return samples;
+}
+
+describe('brierScore', () => {
+  it('averages the squared error of each prediction', () => {
+    // (0.8 - 1)^2 = 0.04, (0.3 - 0)^2 = 0.09
+    expect(brierScore([sample(80, true, 0.8), sample(50, false, 0.3)])).toBeCloseTo(0.065);
+  });
+
+  it('is 0.25 for coin-flip predictions', () => {
+    expect(brierScore([sample(60, true, 0.5), sample(60, false, 0.5)])).toBeCloseTo(0.25);
+  });
+
+  it('returns null without samples', () => {
+    expect(brierScore([])).toBeNull();
+  });
+});
+
+describe('logLoss', () => {
+  it('averages the negative log probability of each outcome', () => {
+    const expected = -(Math.log(0.8) + Math.log(0.7)) / 2;
+    expect(logLoss([sample(80, true, 0.8), sample(50, false, 0.3)])).toBeCloseTo(expected);
+  });
+
+  it('stays finite for a confident miss', () => {
+    const loss = logLoss([sample(95, false, 1)]);
+    expect(Number.isFinite(loss)).toBe(true);
+    expect(loss).toBeGreaterThan(10);
+  });
+
+  it('returns null without samples', () => {
+    expect(logLoss([])).toBeNull();
+  });
+});
+
+describe('buildCalibrationBuckets', () => {
+  it('groups samples by predicted probability and compares with outcomes', () => {
+    const buckets = buildCalibrationBuckets([
+      sample(40, false, 0.1),
+      sample(45, true, 0.15),
+      sample(80, true, 0.9),
+      sample(85, true, 1),
+    ]);
+
+    expect(buckets).toHaveLength(2);
+    expect(buckets[0]).toMatchObject({ lower: 0, upper: 0.2, count: 2, observedPassRate: 0.5 });
+    expect(buckets[0].meanPredicted).toBeCloseTo(0.125);
+    // A probability of exactly 1 falls in the last bucket
+    expect(buckets[1]).toMatchObject({ lower: 0.8, upper: 1, count: 2, observedPassRate: 1 });
+  });
+
+  it('returns no buckets without samples', () => {
+    expect(buildCalibrationBuckets([])).toEqual([]);
+  });
+});
+
+describe('fitPassProbability', () => {
+  it('recovers the curve the outcomes were drawn from', () => {
+    const fitted = fitPassProbability(samplesFromCurve(0.1, 70));
+
+    expect(fitted).not.toBeNull();
+    expect(fitted!.k).toBeCloseTo(0.1, 2);
+    expect(fitted!.r0).toBeCloseTo(70, 0);
+  });
+
+  it('needs a minimum number of outcomes', () => {
+    const samples = samplesFromCurve(0.15, 65).slice(0, MIN_FIT_SAMPLES - 1);
+    expect(fitPassProbability(samples)).toBeNull();
+  });
+
+  it('returns null when every learner passed', () => {
+    const samples = Array.from({ length: 40 }, (_, i) => sample(50 + i, true));
+    expect(fitPassProbability(samples)).toBeNull();
+  });
+
+  it('returns null when scores perfectly separate passes from failures', () => {
+    const samples = Array.from({ length: 40 }, (_, i) => sample(40 + i, i >= 20));
+    expect(fitPassProbability(samples)).toBeNull();
+  });
+
+  it('returns null when higher readiness means lower pass rates', () => {
+    const samples = samplesFromCurve(0.1, 70).map((s) => ({ ...s, readinessScore: 130 - s.readinessScore }));
+    expect(fitPassProbability(samples)).toBeNull();
+  });
+});
+
+describe('buildCalibrationReport', () => {
+  it('summarizes predictions against outcomes', () => {
+    const report = buildCalibrationReport([
+      sample(40, false, 0.2),
+      sample(70, true, 0.6),
+      sample(90, true, 0.95),
+      sample(60, false, 0.45),
+    ]);
+
+    expect(report.sampleCount).toBe(4);
+    expect(report.passCount).toBe(2);
+    expect(report.observedPassRate).toBe(0.5);
+    expect(report.meanPredicted).toBeCloseTo(0.55);
+    expect(report.buckets.map((b) => b.count)).toEqual([1, 1, 1, 1]);
+    expect(report.fitted).toBeNull();
+  });
+
+  it('handles no reported outcomes', () => {
+    expect(buildCalibrationReport([])).toEqual({
+      sampleCount: 0,
+      passCount: 0,
+      observedPassRate: null,
+      meanPredicted: null,
+      brierScore: null,
+      logLoss: null,
+      buckets: [],
+      fitted: null,
+    });
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Readiness Calibration
+ * =====================
+ *
+ * Compares the pass probability the readiness model showed learners shortly
+ * before their real exam with the outcomes they reported afterwards, and
+ * refits the logistic curve P(pass) = 1 / (1 + e^(-k(R - R_0))) to that data.
+ *
+ * The samples come from the `get_readiness_calibration_data` RPC, which pairs
+ * each reported exam attempt with the learner's last readiness snapshot before
+ * the exam day.
+ *
+ * @see docs/Readiness_Scoring_Model.md for the pass probability model
+ */
+
+import type { PassProbabilityConfig } from './readinessScoring';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Outcomes needed before a refit of k and r0 is worth suggesting */
+export const MIN_FIT_SAMPLES = 30;
+
+/** Equal-width pass probability buckets in the calibration table */
+export const DEFAULT_BUCKET_COUNT = 5;
+
+const MAX_NEWTON_ITERATIONS = 50;
+const NEWTON_TOLERANCE = 1e-8;
+
+/** A fitted slope above this means the outcomes are (almost) perfectly separated by score */
+const MAX_FITTED_K = 5;
+
+/** Probabilities are clamped this far from 0 and 1 so one confident miss can't make log loss infinite */
+const LOG_LOSS_EPSILON = 1e-6;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** One real exam outcome with the prediction made before it */
+export interface CalibrationSample {
+  readinessScore: number;
+  /** Predicted pass probability (0-1), as shown to the learner or replayed with another config */
+  predictedProbability: number;
+  passed: boolean;
+}
+
+export interface CalibrationBucket {
+  /** Inclusive lower bound of the predicted probability range */
+  lower: number;
+  /** Exclusive upper bound (inclusive for the last bucket) */
+  upper: number;
+  count: number;
+  meanPredicted: number;
+  observedPassRate: number;
+}
+
+export interface FittedPassProbability extends PassProbabilityConfig {
+  iterations: number;
+}
+
+export interface CalibrationReport {
+  sampleCount: number;
+  passCount: number;
+  observedPassRate: number | null;
+  meanPredicted: number | null;
+  /** Mean squared error of the predicted probabilities (lower is better, 0.25 = coin flip) */
+  brierScore: number | null;
+  /** Mean negative log likelihood of the outcomes (lower is better, 0.693 = coin flip) */
+  logLoss: number | null;
+  /** Non-empty buckets, lowest probability first */
+  buckets: CalibrationBucket[];
+  /** Suggested k and r0, or null when there isn't enough usable data */
+  fitted: FittedPassProbability | null;
+}
+
+// =============================================================================
+// Functions
+// =============================================================================
+
+/**
+ * Brier score: mean of (predicted - outcome)^2. Null without samples.
+ */
+export function brierScore(samples: CalibrationSample[]): number | null {
+  if (samples.length === 0) return null;
+  return samples.reduce((sum, s) => sum + (s.predictedProbability - (s.passed ? 1 : 0)) ** 2, 0) / samples.length;
+}
+
+/**
+ * Log loss: mean of -log(probability given to what actually happened). Null without samples.
+ */
+export function logLoss(samples: CalibrationSample[]): number | null {
+  if (samples.length === 0) return null;
+  return samples.reduce((sum, s) => {
+    const p = Math.min(Math.max(s.predictedProbability, LOG_LOSS_EPSILON), 1 - LOG_LOSS_EPSILON);
+    return sum - Math.log(s.passed ? p : 1 - p);
+  }, 0) / samples.length;
+}
+
+/**
+ * Group samples by predicted pass probability and compare each group's mean
+ * prediction with the share of learners who actually passed.
+ */
+export function buildCalibrationBuckets(
+  samples: CalibrationSample[],
+  bucketCount: number = DEFAULT_BUCKET_COUNT
+): CalibrationBucket[] {
+  const groups: CalibrationSample[][] = Array.from({ length: bucketCount }, () => []);
+
+  for (const sample of samples) {
+    const p = Math.min(Math.max(sample.predictedProbability, 0), 1);
+    const index = Math.min(Math.floor(p * bucketCount), bucketCount - 1);
+    groups[index].push(sample);
+  }
+
+  return groups.flatMap((group, index) => {
+    if (group.length === 0) return [];
+    return [{
+      lower: index / bucketCount,
+      upper: (index + 1) / bucketCount,
+      count: group.length,
+      meanPredicted: group.reduce((sum, s) => sum + s.predictedProbability, 0) / group.length,
+      observedPassRate: group.filter((s) => s.passed).length / group.length,
+    }];
+  });
+}
+
+/**
+ * Fit k and r0 to the outcomes by maximum likelihood (logistic regression on
+ * the readiness score, solved with Newton's method).
+ *
+ * Returns null when there are fewer than `minSamples` outcomes, when every
+ * learner passed or every learner failed, when the fit doesn't converge, or
+ * when the fitted curve doesn't rise with readiness.
+ */
+export function fitPassProbability(
+  samples: CalibrationSample[],
+  minSamples: number = MIN_FIT_SAMPLES
+): FittedPassProbability | null {
+  if (samples.length < minSamples) return null;
+
+  const passCount = samples.filter((s) => s.passed).length;
+  if (passCount === 0 || passCount === samples.length) return null;
+
+  // Centre the scores so the intercept and slope are on similar scales
+  const mean = samples.reduce((sum, s) => sum + s.readinessScore, 0) / samples.length;
+  const xs = samples.map((s) => s.readinessScore - mean);
+  const ys = samples.map((s) => (s.passed ? 1 : 0));
+
+  // logit(P) = a + b * x, starting from the observed pass rate
+  let a = Math.log(passCount / (samples.length - passCount));
+  let b = 0;
+
+  for (let iteration = 1; iteration <= MAX_NEWTON_ITERATIONS; iteration++) {
+    let gA = 0, gB = 0, hAA = 0, hAB = 0, hBB = 0;
+
+    for (let i = 0; i < xs.length; i++) {
+      const p = 1 / (1 + Math.exp(-(a + b * xs[i])));
+      const w = p * (1 - p);
+      gA += ys[i] - p;
+      gB += (ys[i] - p) * xs[i];
+      hAA += w;
+      hAB += w * xs[i];
+      hBB += w * xs[i] * xs[i];
+    }
+
+    const det = hAA * hBB - hAB * hAB;
+    if (!Number.isFinite(det) || det <= 0) return null;
+
+    const stepA = (hBB * gA - hAB * gB) / det;
+    const stepB = (hAA * gB - hAB * gA) / det;
+    a += stepA;
+    b += stepB;
+
+    if (!Number.isFinite(a) || !Number.isFinite(b) || Math.abs(b) > MAX_FITTED_K) return null;
+
+    if (Math.abs(stepA) < NEWTON_TOLERANCE && Math.abs(stepB) < NEWTON_TOLERANCE) {
+      if (b <= 0) return null;
+      return { k: b, r0: mean - a / b, iterations: iteration };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Summarize how well predicted pass probabilities matched real outcomes.
+ */
+export function buildCalibrationReport(
+  samples: CalibrationSample[],
+  bucketCount: number = DEFAULT_BUCKET_COUNT
+): CalibrationReport {
+  const passCount = samples.filter((s) => s.passed).length;
+
+  return {
+    sampleCount: samples.length,
+    passCount,
+    observedPassRate: samples.length > 0 ? passCount / samples.length : null,
+    meanPredicted: samples.length > 0
+      ? samples.reduce((sum, s) => sum + s.predictedProbability, 0) / samples.length
+      : null,
+    brierScore: brierScore(samples),
+    logLoss: logLoss(samples),
+    buckets: buildCalibrationBuckets(samples, bucketCount),
+    fitted: fitPassProbability(samples),
+  };
+}
@@ -3,8 +3,8 @@
  * =====================================================
  *
  * This module contains all the mathematical formulas for the readiness scoring model.
- * These functions are used by both the edge function (server-side) and can be imported
- * for client-side calculations or testing.
+ * The calculate-readiness edge function keeps its own copy in logic.ts; both are run
+ * on the same inputs in supabase/functions/calculate-readiness/parity.test.ts.
  *
  * The formulas are centralized here to ensure consistency and make it easy to modify
  * the algorithm without breaking multiple locations.
@@ -0,0 +1,200 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createInitialReviewState,
+  gradeAttempt,
+  updateEaseFactor,
+  scheduleReview,
+  isDue,
+  getOverdueRatio,
+  getDueQuestions,
+  previewNextInterval,
+  DEFAULT_EASE_FACTOR,
+  MIN_EASE_FACTOR,
+  MAX_INTERVAL_DAYS,
+  ReviewState,
+  ScheduledQuestion,
+} from './spacedRepetition';
+
+const DAY = 24 * 60 * 60 * 1000;
+const start = new Date('2026-06-01T12:00:00Z');
+const daysAfter = (n: number) => new Date(start.getTime() + n * DAY);
+
+describe('gradeAttempt', () => {
+  it('grades wrong answers as a lapse', () => {
+    expect(gradeAttempt(false, 5000)).toBe(1);
+  });
+
+  it('grades fast correct answers as perfect recall', () => {
+    expect(gradeAttempt(true, 5000)).toBe(5);
+  });
+
+  it('grades normal-speed correct answers as 4', () => {
+    expect(gradeAttempt(true, 30000)).toBe(4);
+  });
+
+  it('grades slow correct answers as 3', () => {
+    expect(gradeAttempt(true, 90000)).toBe(3);
+  });
+
+  it('treats unmeasured time (0 or missing) as a normal answer', () => {
+    expect(gradeAttempt(true, 0)).toBe(4);
+    expect(gradeAttempt(true, null)).toBe(4);
+    expect(gradeAttempt(true)).toBe(4);
+  });
+});
+
+describe('updateEaseFactor', () => {
+  it('increases ease for perfect recall', () => {
+    expect(updateEaseFactor(2.5, 5)).toBe(2.6);
+  });
+
+  it('leaves ease unchanged for grade 4', () => {
+    expect(updateEaseFactor(2.5, 4)).toBe(2.5);
+  });
+
+  it('decreases ease for a hard recall', () => {
+    expect(updateEaseFactor(2.5, 3)).toBe(2.36);
+  });
+
+  it('never drops below the minimum ease', () => {
+    expect(updateEaseFactor(1.3, 1)).toBe(MIN_EASE_FACTOR);
+  });
+});
+
+describe('scheduleReview', () => {
+  it('schedules a first correct review for the next day', () => {
+    const next = scheduleReview(createInitialReviewState(), 4, start);
+
+    expect(next.repetitions).toBe(1);
+    expect(next.intervalDays).toBe(1);
+    expect(next.dueAt).toBe(daysAfter(1).toISOString());
+    expect(next.lastReviewedAt).toBe(start.toISOString());
+  });
+
+  it('uses 6 days for the second successful review, then multiplies by ease', () => {
+    let state = scheduleReview(createInitialReviewState(), 4, start);
+    state = scheduleReview(state, 4, daysAfter(1));
+    expect(state.intervalDays).toBe(6);
+
+    state = scheduleReview(state, 4, daysAfter(7));
+    expect(state.intervalDays).toBe(Math.round(6 * DEFAULT_EASE_FACTOR));
+    expect(state.repetitions).toBe(3);
+  });
+
+  it('resets repetitions and counts a lapse on a wrong answer', () => {
+    let state = scheduleReview(createInitialReviewState(), 4, start);
+    state = scheduleReview(state, 4, daysAfter(1));
+    state = scheduleReview(state, 1, daysAfter(7));
+
+    expect(state.repetitions).toBe(0);
+    expect(state.lapses).toBe(1);
+    expect(state.intervalDays).toBe(1);
+    expect(state.easeFactor).toBeLessThan(DEFAULT_EASE_FACTOR);
+    expect(state.dueAt).toBe(daysAfter(8).toISOString());
+  });
+
+  it('does not advance the schedule for correct answers before the due date', () => {
+    const first = scheduleReview(createInitialReviewState(), 4, start);
+    const early = scheduleReview(first, 5, new Date(start.getTime() + 60 * 60 * 1000));
+
+    expect(early.repetitions).toBe(first.repetitions);
+    expect(early.intervalDays).toBe(first.intervalDays);
+    expect(early.dueAt).toBe(first.dueAt);
+    expect(early.lastReviewedAt).not.toBe(first.lastReviewedAt);
+  });
+
+  it('still resets on a wrong answer before the due date', () => {
+    const first = scheduleReview(createInitialReviewState(), 4, start);
+    const early = scheduleReview(first, 1, new Date(start.getTime() + 60 * 60 * 1000));
+
+    expect(early.lapses).toBe(1);
+    expect(early.repetitions).toBe(0);
+  });
+
+  it('caps the interval at MAX_INTERVAL_DAYS', () => {
+    const state: ReviewState = {
+      easeFactor: 2.5,
+      intervalDays: 300,
+      repetitions: 8,
+      lapses: 0,
+      dueAt: start.toISOString(),
+      lastReviewedAt: null,
+    };
+
+    expect(scheduleReview(state, 5, start).intervalDays).toBe(MAX_INTERVAL_DAYS);
+  });
+});
+
+describe('isDue / getOverdueRatio', () => {
+  const state: ReviewState = {
+    easeFactor: 2.5,
+    intervalDays: 2,
+    repetitions: 2,
+    lapses: 0,
+    dueAt: start.toISOString(),
+    lastReviewedAt: null,
+  };
+
+  it('is not due before the due date', () => {
+    expect(isDue(state, daysAfter(-1))).toBe(false);
+  });
+
+  it('is due at and after the due date', () => {
+    expect(isDue(state, start)).toBe(true);
+    expect(isDue(state, daysAfter(3))).toBe(true);
+  });
+
+  it('is never due when it has not been reviewed', () => {
+    expect(isDue(createInitialReviewState(), start)).toBe(false);
+  });
+
+  it('measures lateness relative to the interval', () => {
+    expect(getOverdueRatio(state, daysAfter(1))).toBeCloseTo(0.5);
+    expect(getOverdueRatio(createInitialReviewState(), start)).toBe(0);
+  });
+});
+
+describe('getDueQuestions', () => {
+  const entry = (questionId: string, dueOffsetDays: number, intervalDays: number, easeFactor = 2.5): ScheduledQuestion => ({
+    questionId,
+    easeFactor,
+    intervalDays,
+    repetitions: 1,
+    lapses: 0,
+    dueAt: daysAfter(dueOffsetDays).toISOString(),
+    lastReviewedAt: null,
+  });
+
+  it('excludes questions that are not due yet', () => {
+    const due = getDueQuestions([entry('future', 2, 6), entry('now', 0, 1)], start);
+    expect(due.map(d => d.questionId)).toEqual(['now']);
+  });
+
+  it('orders by how overdue each question is relative to its interval', () => {
+    const due = getDueQuestions(
+      [entry('long-interval', -2, 30), entry('short-interval', -1, 1)],
+      start
+    );
+    expect(due.map(d => d.questionId)).toEqual(['short-interval', 'long-interval']);
+  });
+
+  it('breaks ties with the lower ease factor first', () => {
+    const due = getDueQuestions(
+      [entry('easy', 0, 1, 2.8), entry('hard', 0, 1, 1.5)],
+      start
+    );
+    expect(due.map(d => d.questionId)).toEqual(['hard', 'easy']);
+  });
+});
+
+describe('previewNextInterval', () => {
+  it('previews a lapse interval for a wrong answer', () => {
+    const state = scheduleReview(createInitialReviewState(), 4, start);
+    expect(previewNextInterval(state, false, 10000, daysAfter(1))).toBe(1);
+  });
+
+  it('previews a longer interval for a correct answer on a due question', () => {
+    const state = scheduleReview(createInitialReviewState(), 4, start);
+    expect(previewNextInterval(state, true, 10000, daysAfter(1))).toBe(6);
+  });
+});
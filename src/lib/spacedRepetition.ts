@@ -0,0 +1,213 @@
+/**
+ * Spaced Repetition Scheduler (SM-2)
+ * ==================================
+ *
+ * Per-question review scheduling based on the SuperMemo SM-2 algorithm.
+ * Each (user, question) pair keeps an ease factor, an interval and a due date
+ * in `question_mastery`. Every `question_attempt` event is treated as a review
+ * and moves the schedule forward (correct) or back to the start (incorrect).
+ *
+ * The database trigger `schedule_question_review` applies the same formulas
+ * server-side when events are inserted. Keep both implementations in sync -
+ * the constants below must match the migration
+ * `20260610000000_add_spaced_repetition_schedule.sql`.
+ */
+
+// =============================================================================
+// Constants (must match the SQL implementation)
+// =============================================================================
+
+/** Ease factor assigned to a question the first time it is reviewed */
+export const DEFAULT_EASE_FACTOR = 2.5;
+
+/** SM-2 lower bound - below this, intervals stop growing usefully */
+export const MIN_EASE_FACTOR = 1.3;
+
+/** Longest gap we will ever schedule between reviews */
+export const MAX_INTERVAL_DAYS = 365;
+
+/** Interval after a lapse (wrong answer) - review again tomorrow */
+export const LAPSE_INTERVAL_DAYS = 1;
+
+/** Fixed intervals for the first two successful reviews (SM-2 I(1) and I(2)) */
+export const FIRST_INTERVAL_DAYS = 1;
+export const SECOND_INTERVAL_DAYS = 6;
+
+/** Answer-time thresholds used to grade correct answers */
+export const FAST_ANSWER_MS = 15000;
+export const SLOW_ANSWER_MS = 60000;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** SM-2 quality grade (0-5). Grades below 3 count as a lapse. */
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+/** Scheduling state for one question, mirrors the question_mastery columns */
+export interface ReviewState {
+  easeFactor: number;
+  intervalDays: number;
+  repetitions: number;
+  lapses: number;
+  dueAt: string | null;
+  lastReviewedAt: string | null;
+}
+
+/** A scheduled question, as returned by the review schedule service */
+export interface ScheduledQuestion extends ReviewState {
+  questionId: string;
+}
+
+// =============================================================================
+// Core Functions
+// =============================================================================
+
+/** Fresh state for a question that has never been reviewed */
+export function createInitialReviewState(): ReviewState {
+  return {
+    easeFactor: DEFAULT_EASE_FACTOR,
+    intervalDays: 0,
+    repetitions: 0,
+    lapses: 0,
+    dueAt: null,
+    lastReviewedAt: null,
+  };
+}
+
+/**
+ * Grade an attempt on the SM-2 0-5 scale.
+ *
+ * We only know right/wrong and how long the learner took, so:
+ * - wrong            → 1 (lapse)
+ * - right, slow      → 3 (correct with difficulty)
+ * - right, normal    → 4
+ * - right, fast      → 5 (perfect recall)
+ *
+ * A time of 0 means "not measured" (e.g. practice tests) and grades as 4.
+ */
+export function gradeAttempt(isCorrect: boolean, timeSpentMs?: number | null): ReviewQuality {
+  if (!isCorrect) return 1;
+  if (!timeSpentMs || timeSpentMs <= 0) return 4;
+  if (timeSpentMs < FAST_ANSWER_MS) return 5;
+  if (timeSpentMs < SLOW_ANSWER_MS) return 4;
+  return 3;
+}
+
+/**
+ * Update the ease factor after a review.
+ * EF' = EF + (0.1 - (5 - q) * (0.08 + (5 - q) * 0.02)), floored at 1.3
+ */
+export function updateEaseFactor(easeFactor: number, quality: ReviewQuality): number {
+  const q = 5 - quality;
+  const next = easeFactor + (0.1 - q * (0.08 + q * 0.02));
+  return Math.max(MIN_EASE_FACTOR, Math.round(next * 100) / 100);
+}
+
+/**
+ * Apply one review to a question's schedule.
+ *
+ * Correct answers given before the question is due do not advance the
+ * schedule (answering the same question five times in one sitting should not
+ * push it a year out). Wrong answers always reset it.
+ *
+ * @param state - Current scheduling state
+ * @param quality - SM-2 grade for this review
+ * @param reviewedAt - When the review happened
+ * @returns The new scheduling state
+ */
+export function scheduleReview(
+  state: ReviewState,
+  quality: ReviewQuality,
+  reviewedAt: Date
+): ReviewState {
+  const reviewedAtIso = reviewedAt.toISOString();
+
+  if (quality < 3) {
+    return {
+      easeFactor: updateEaseFactor(state.easeFactor, quality),
+      intervalDays: LAPSE_INTERVAL_DAYS,
+      repetitions: 0,
+      lapses: state.lapses + 1,
+      dueAt: addDays(reviewedAt, LAPSE_INTERVAL_DAYS).toISOString(),
+      lastReviewedAt: reviewedAtIso,
+    };
+  }
+
+  const isEarlyReview = state.dueAt !== null && reviewedAt.getTime() < new Date(state.dueAt).getTime();
+  if (isEarlyReview) {
+    return { ...state, lastReviewedAt: reviewedAtIso };
+  }
+
+  const repetitions = state.repetitions + 1;
+  let intervalDays: number;
+  if (repetitions === 1) {
+    intervalDays = FIRST_INTERVAL_DAYS;
+  } else if (repetitions === 2) {
+    intervalDays = SECOND_INTERVAL_DAYS;
+  } else {
+    intervalDays = Math.round(state.intervalDays * state.easeFactor);
+  }
+  intervalDays = Math.min(MAX_INTERVAL_DAYS, Math.max(1, intervalDays));
+
+  return {
+    easeFactor: updateEaseFactor(state.easeFactor, quality),
+    intervalDays,
+    repetitions,
+    lapses: state.lapses,
+    dueAt: addDays(reviewedAt, intervalDays).toISOString(),
+    lastReviewedAt: reviewedAtIso,
+  };
+}
+
+/** Whether a question is due for review at the given time */
+export function isDue(state: Pick<ReviewState, 'dueAt'>, now: Date = new Date()): boolean {
+  return state.dueAt !== null && new Date(state.dueAt).getTime() <= now.getTime();
+}
+
+/**
+ * How overdue a question is, relative to its interval.
+ * 1 day late on a 1-day interval (ratio 1.0) is more urgent than
+ * 1 day late on a 30-day interval (ratio ~0.03).
+ */
+export function getOverdueRatio(state: ReviewState, now: Date = new Date()): number {
+  if (state.dueAt === null) return 0;
+  const overdueDays = (now.getTime() - new Date(state.dueAt).getTime()) / MS_PER_DAY;
+  return overdueDays / Math.max(1, state.intervalDays);
+}
+
+/**
+ * Pick the questions that are due, most urgent first.
+ * Ties (same overdue ratio) go to the question with the lower ease factor.
+ */
+export function getDueQuestions<T extends ScheduledQuestion>(
+  scheduled: T[],
+  now: Date = new Date()
+): T[] {
+  return scheduled
+    .filter(item => isDue(item, now))
+    .sort((a, b) => {
+      const ratioDiff = getOverdueRatio(b, now) - getOverdueRatio(a, now);
+      if (ratioDiff !== 0) return ratioDiff;
+      return a.easeFactor - b.easeFactor;
+    });
+}
+
+/**
+ * Preview the interval a question would get for a given answer,
+ * without persisting anything. Used to tell the learner when they'll see it next.
+ */
+export function previewNextInterval(
+  state: ReviewState,
+  isCorrect: boolean,
+  timeSpentMs: number,
+  now: Date = new Date()
+): number {
+  return scheduleReview(state, gradeAttempt(isCorrect, timeSpentMs), now).intervalDays;
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
@@ -57,6 +57,10 @@ describe('streakConstants', () => {
       expect(result).toBe('2026-01-16');
     });
 
+    it('formats a given date instead of today', () => {
+      expect(getUTCDateString(new Date('2026-10-16T23:59:00Z'))).toBe('2026-10-16');
+    });
+
     it('pads single-digit months with zero', () => {
       vi.useFakeTimers();
       vi.setSystemTime(new Date('2026-03-05T12:00:00Z'));
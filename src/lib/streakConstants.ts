@@ -12,13 +12,15 @@ export const STREAK_TESTS_THRESHOLD = 1;
 /** Minimum glossary terms to study in a day to qualify for streak */
 export const STREAK_GLOSSARY_THRESHOLD = 10;
 
+/** Minimum Morse characters to copy in a day to qualify for streak */
+export const STREAK_MORSE_THRESHOLD = 50;
+
 /**
- * Get the current UTC date as a YYYY-MM-DD string.
+ * Get the UTC date as a YYYY-MM-DD string (today unless a date is given).
  * Uses UTC to ensure consistent storage in the database.
  * Frontend handles conversion to local timezone for display.
  */
-export function getUTCDateString(): string {
-  const now = new Date();
+export function getUTCDateString(now: Date = new Date()): string {
   const year = now.getUTCFullYear();
   const month = String(now.getUTCMonth() + 1).padStart(2, '0');
   const day = String(now.getUTCDate()).padStart(2, '0');
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  DEFAULT_STUDY_PACK_OPTIONS,
+  buildPracticeExam,
+  buildStudyPack,
+  loadStudyPackOptions,
+  saveStudyPackOptions,
+  sortByDisplayName,
+} from './studyPack';
+import { examDistribution } from '@/types/navigation';
+import type { Question } from '@/hooks/useQuestions';
+
+function makeQuestion(displayName: string, overrides: Partial<Question> = {}): Question {
+  return {
+    id: `id-${displayName}`,
+    displayName,
+    question: `Question ${displayName}?`,
+    options: { A: 'Alpha', B: 'Bravo', C: 'Charlie', D: 'Delta' },
+    correctAnswer: 'B',
+    subelement: displayName.slice(0, 2),
+    group: displayName.slice(0, 3),
+    explanation: `Because of ${displayName}.`,
+    ...overrides,
+  } as Question;
+}
+
+describe('buildStudyPack', () => {
+  const questions = [
+    makeQuestion('T1A01'),
+    makeQuestion('T6A02', { correctAnswer: 'D', figureUrl: 'https://example.com/T-1.png' }),
+    makeQuestion('T2B03', { explanation: '   ' }),
+  ];
+
+  it('numbers questions in order and builds the answer key', () => {
+    const pack = buildStudyPack(questions, DEFAULT_STUDY_PACK_OPTIONS);
+
+    expect(pack.questions.map((q) => [q.number, q.question.displayName])).toEqual([
+      [1, 'T1A01'],
+      [2, 'T6A02'],
+      [3, 'T2B03'],
+    ]);
+    expect(pack.answerKey).toEqual([
+      { number: 1, displayName: 'T1A01', correctAnswer: 'B', explanation: 'Because of T1A01.' },
+      { number: 2, displayName: 'T6A02', correctAnswer: 'D', explanation: 'Because of T6A02.' },
+      { number: 3, displayName: 'T2B03', correctAnswer: 'B', explanation: null },
+    ]);
+    expect(pack.figureCount).toBe(1);
+  });
+
+  it('leaves explanations and figures out when turned off', () => {
+    const pack = buildStudyPack(questions, {
+      ...DEFAULT_STUDY_PACK_OPTIONS,
+      includeExplanations: false,
+      includeFigures: false,
+    });
+
+    expect(pack.answerKey.every((entry) => entry.explanation === null)).toBe(true);
+    expect(pack.figureCount).toBe(0);
+  });
+});
+
+describe('sortByDisplayName', () => {
+  it('orders questions by pool number without mutating the input', () => {
+    const questions = [makeQuestion('T1A03'), makeQuestion('T1A01'), makeQuestion('T1A02')];
+
+    expect(sortByDisplayName(questions).map((q) => q.displayName)).toEqual(['T1A01', 'T1A02', 'T1A03']);
+    expect(questions[0].displayName).toBe('T1A03');
+  });
+});
+
+describe('buildPracticeExam', () => {
+  it('draws a full exam following the official distribution', () => {
+    const pool: Question[] = [];
+    for (const [subelement, count] of Object.entries(examDistribution.technician)) {
+      for (let i = 0; i < count * 2; i++) {
+        pool.push(makeQuestion(`${subelement}A${String(i + 1).padStart(2, '0')}`));
+      }
+    }
+
+    const exam = buildPracticeExam(pool, 'technician');
+
+    expect(exam).toHaveLength(35);
+    expect(new Set(exam.map((q) => q.id)).size).toBe(35);
+    for (const [subelement, count] of Object.entries(examDistribution.technician)) {
+      expect(exam.filter((q) => q.subelement === subelement)).toHaveLength(count);
+    }
+  });
+});
+
+describe('study pack options persistence', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('defaults to an answer key at the end with explanations and figures', () => {
+    expect(loadStudyPackOptions()).toEqual({ answerKey: 'end', includeExplanations: true, includeFigures: true });
+  });
+
+  it('round-trips options', () => {
+    const options = { answerKey: 'inline' as const, includeExplanations: false, includeFigures: true };
+    saveStudyPackOptions(options);
+
+    expect(loadStudyPackOptions()).toEqual(options);
+  });
+
+  it('repairs invalid or corrupt options', () => {
+    localStorage.setItem('studyPackOptions', JSON.stringify({ answerKey: 'top', includeFigures: 'yes' }));
+    expect(loadStudyPackOptions()).toEqual(DEFAULT_STUDY_PACK_OPTIONS);
+
+    localStorage.setItem('studyPackOptions', '{oops');
+    expect(loadStudyPackOptions()).toEqual(DEFAULT_STUDY_PACK_OPTIONS);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Printable study packs: question sets laid out for paper, with an answer
+ * key either under each question or at the end. The same layout prints full
+ * practice exams with a bubble answer sheet for classroom use.
+ */
+
+import { selectExamQuestions } from './examQuestions';
+import { safeGetItem, safeSetItem } from './localStorage';
+import { examDistribution, testConfig, type TestType } from '@/types/navigation';
+import type { Question } from '@/hooks/useQuestions';
+
+export type AnswerKeyPlacement = 'inline' | 'end';
+
+export interface StudyPackOptions {
+  answerKey: AnswerKeyPlacement;
+  includeExplanations: boolean;
+  includeFigures: boolean;
+}
+
+export const DEFAULT_STUDY_PACK_OPTIONS: StudyPackOptions = {
+  answerKey: 'end',
+  includeExplanations: true,
+  includeFigures: true,
+};
+
+export type StudyPackQuestion = Pick<
+  Question,
+  'id' | 'displayName' | 'question' | 'options' | 'correctAnswer' | 'explanation' | 'figureUrl'
+>;
+
+export interface NumberedQuestion<T extends StudyPackQuestion = StudyPackQuestion> {
+  number: number;
+  question: T;
+}
+
+export interface AnswerKeyEntry {
+  number: number;
+  displayName: string;
+  correctAnswer: StudyPackQuestion['correctAnswer'];
+  /** Only set when explanations are included */
+  explanation: string | null;
+}
+
+export interface StudyPack<T extends StudyPackQuestion = StudyPackQuestion> {
+  questions: NumberedQuestion<T>[];
+  answerKey: AnswerKeyEntry[];
+  /** Number of questions that have a figure (and will print one) */
+  figureCount: number;
+}
+
+export const ANSWER_LETTERS = ['A', 'B', 'C', 'D'] as const;
+
+/** Number questions in the given order and build the matching answer key */
+export function buildStudyPack<T extends StudyPackQuestion>(questions: T[], options: StudyPackOptions): StudyPack<T> {
+  const numbered = questions.map((question, index) => ({ number: index + 1, question }));
+  return {
+    questions: numbered,
+    answerKey: numbered.map(({ number, question }) => ({
+      number,
+      displayName: question.displayName,
+      correctAnswer: question.correctAnswer,
+      explanation: options.includeExplanations ? question.explanation?.trim() || null : null,
+    })),
+    figureCount: options.includeFigures ? questions.filter((q) => q.figureUrl).length : 0,
+  };
+}
+
+/** Sort by display name (T1A01, T1A02, ...) for study packs of a topic or group */
+export function sortByDisplayName<T extends Pick<Question, 'displayName'>>(questions: T[]): T[] {
+  return [...questions].sort((a, b) => a.displayName.localeCompare(b.displayName));
+}
+
+/**
+ * A full practice exam drawn like the real one: the exam's question count,
+ * spread across subelements by the official distribution.
+ */
+export function buildPracticeExam<T extends Question>(
+  questions: T[],
+  testType: TestType,
+  poolVersion?: string
+): T[] {
+  return selectExamQuestions(questions, testConfig[testType].questionCount, examDistribution[testType], poolVersion);
+}
+
+const OPTIONS_KEY = 'studyPackOptions';
+
+export function loadStudyPackOptions(): StudyPackOptions {
+  try {
+    const saved = JSON.parse(safeGetItem(OPTIONS_KEY) ?? 'null') as Partial<StudyPackOptions> | null;
+    if (!saved || typeof saved !== 'object') return DEFAULT_STUDY_PACK_OPTIONS;
+    return {
+      answerKey: saved.answerKey === 'inline' ? 'inline' : 'end',
+      includeExplanations:
+        typeof saved.includeExplanations === 'boolean'
+          ? saved.includeExplanations
+          : DEFAULT_STUDY_PACK_OPTIONS.includeExplanations,
+      includeFigures:
+        typeof saved.includeFigures === 'boolean' ? saved.includeFigures : DEFAULT_STUDY_PACK_OPTIONS.includeFigures,
+    };
+  } catch {
+    return DEFAULT_STUDY_PACK_OPTIONS;
+  }
+}
+
+export function saveStudyPackOptions(options: StudyPackOptions): void {
+  safeSetItem(OPTIONS_KEY, JSON.stringify(options));
+}
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest';
+import { buildStudyPlan, getPlanDay, type StudyPlanInput } from './studyPlan';
+import type { SubelementMetric } from '@/services/readiness/readinessService';
+
+const metric = (overrides: Partial<SubelementMetric>): SubelementMetric => ({
+  accuracy: 0.7,
+  recent_accuracy: 0.75,
+  coverage: 0.5,
+  mastery: 0.2,
+  risk_score: 0.3,
+  expected_score: 2.5,
+  weight: 5,
+  pool_size: 40,
+  attempts_count: 25,
+  recent_attempts_count: 10,
+  ...overrides,
+});
+
+// Monday
+const today = new Date(2026, 9, 19, 15, 30);
+
+const input = (overrides: Partial<StudyPlanInput>): StudyPlanInput => ({
+  examDate: '2026-10-24',
+  studyDays: [],
+  subelementMetrics: {
+    T1: metric({ risk_score: 0.6, pool_size: 40, coverage: 0.5 }),
+    T2: metric({ risk_score: 0.2, pool_size: 20, coverage: 0 }),
+  },
+  dueReviews: 0,
+  today,
+  ...overrides,
+});
+
+describe('buildStudyPlan', () => {
+  it('spreads unseen questions over the days before the exam, riskiest first', () => {
+    const plan = buildStudyPlan(input({}))!;
+
+    expect(plan.daysUntilExam).toBe(5);
+    expect(plan.unseenQuestions).toBe(40);
+    expect(plan.behind).toBe(false);
+    expect(plan.days.map((d) => d.date)).toEqual([
+      '2026-10-19', '2026-10-20', '2026-10-21', '2026-10-22', '2026-10-23',
+    ]);
+    expect(plan.days.map((d) => d.newQuestions)).toEqual([10, 10, 10, 10, 0]);
+    expect(plan.days.map((d) => d.subelements)).toEqual([['T1'], ['T1'], ['T2'], ['T2'], ['T1', 'T2']]);
+  });
+
+  it('keeps the last study day for review and a practice test', () => {
+    const last = buildStudyPlan(input({}))!.days.at(-1)!;
+
+    expect(last.newQuestions).toBe(0);
+    expect(last.reviewQuestions).toBeGreaterThan(0);
+    expect(last.practiceTest).toBe(true);
+  });
+
+  it('only plans the weekdays the learner can study', () => {
+    const plan = buildStudyPlan(input({ examDate: '2026-11-06', studyDays: [1, 3] }))!;
+
+    expect(plan.days.map((d) => d.date)).toEqual(['2026-10-19', '2026-10-21', '2026-10-26', '2026-10-28', '2026-11-02', '2026-11-04']);
+  });
+
+  it('caps new questions by intensity and flags a plan that cannot cover the pool', () => {
+    const plan = buildStudyPlan(input({
+      intensity: 'light',
+      subelementMetrics: { T1: metric({ pool_size: 400, coverage: 0 }) },
+    }))!;
+
+    expect(plan.days[0].newQuestions).toBe(20);
+    expect(plan.behind).toBe(true);
+  });
+
+  it('adds reviews that are already due to the first day', () => {
+    const plan = buildStudyPlan(input({ dueReviews: 25 }))!;
+
+    expect(plan.days[0].reviewQuestions).toBe(35);
+    expect(plan.days[1].reviewQuestions).toBe(10);
+    expect(buildStudyPlan(input({ dueReviews: 500 }))!.days[0].reviewQuestions).toBe(60);
+  });
+
+  it('plans no reviews before anything has been studied', () => {
+    const plan = buildStudyPlan(input({
+      subelementMetrics: { T1: metric({ pool_size: 40, coverage: 0 }) },
+    }))!;
+
+    expect(plan.days[0].reviewQuestions).toBe(0);
+    expect(plan.days[1].reviewQuestions).toBe(10);
+  });
+
+  it('rotates through the least-mastered subelements once everything is seen', () => {
+    const plan = buildStudyPlan(input({
+      subelementMetrics: {
+        T1: metric({ coverage: 1, mastery: 0.5, risk_score: 0.4 }),
+        T2: metric({ coverage: 1, mastery: 0.9, risk_score: 0.1 }),
+        T3: metric({ coverage: 1, mastery: 1, risk_score: 0.2 }),
+      },
+    }))!;
+
+    expect(plan.unseenQuestions).toBe(0);
+    expect(plan.days.every((d) => d.newQuestions === 0)).toBe(true);
+    expect(plan.days[0].subelements).toEqual(['T1', 'T2']);
+    expect(plan.days[0].reviewQuestions).toBe(40);
+  });
+
+  it('plans weekly practice tests before the final stretch once half the pool is seen', () => {
+    const plan = buildStudyPlan(input({
+      examDate: '2027-01-30',
+      subelementMetrics: { T1: metric({ pool_size: 400, coverage: 0.6 }) },
+    }))!;
+    const early = plan.days.filter((d) => d.date < '2027-01-16');
+
+    expect(early.filter((d) => d.practiceTest).map((d) => d.date).slice(0, 3)).toEqual([
+      '2026-10-24', '2026-10-31', '2026-11-07',
+    ]);
+  });
+
+  it('holds weekly practice tests until half the pool is seen', () => {
+    const plan = buildStudyPlan(input({
+      examDate: '2027-01-30',
+      subelementMetrics: { T1: metric({ pool_size: 400, coverage: 0 }) },
+    }))!;
+
+    expect(plan.days.find((d) => d.practiceTest)!.date).not.toBe('2026-10-24');
+  });
+
+  it('practices every other study day in the last two weeks', () => {
+    const plan = buildStudyPlan(input({ examDate: '2026-10-31' }))!;
+
+    expect(plan.days.filter((d) => d.practiceTest).map((d) => d.date)).toEqual([
+      '2026-10-20', '2026-10-22', '2026-10-24', '2026-10-26', '2026-10-28', '2026-10-30',
+    ]);
+  });
+
+  it("totals this week's targets through Saturday", () => {
+    const plan = buildStudyPlan(input({ examDate: '2026-11-06' }))!;
+    const thisWeek = plan.days.filter((d) => d.date <= '2026-10-24');
+
+    expect(plan.thisWeek).toEqual({
+      questions: thisWeek.reduce((sum, d) => sum + d.newQuestions + d.reviewQuestions, 0),
+      tests: thisWeek.filter((d) => d.practiceTest).length,
+    });
+    expect(thisWeek).toHaveLength(6);
+  });
+
+  it('returns null when the exam is today or past', () => {
+    expect(buildStudyPlan(input({ examDate: '2026-10-19' }))).toBeNull();
+    expect(buildStudyPlan(input({ examDate: '2026-10-01' }))).toBeNull();
+  });
+
+  it('returns null when no study day is left before the exam', () => {
+    expect(buildStudyPlan(input({ studyDays: [0] }))).toBeNull();
+  });
+});
+
+describe('getPlanDay', () => {
+  it("returns the day's plan, or null on a rest day", () => {
+    const plan = buildStudyPlan(input({ studyDays: [2] }));
+
+    expect(getPlanDay(plan, new Date(2026, 9, 20))?.date).toBe('2026-10-20');
+    expect(getPlanDay(plan, today)).toBeNull();
+    expect(getPlanDay(null, today)).toBeNull();
+  });
+});
@@ -0,0 +1,211 @@
+import { addDays, format, getDay, startOfDay } from 'date-fns';
+import { daysUntilExam } from '@/lib/examSessionSearch';
+import type { SubelementMetric } from '@/services/readiness/readinessService';
+
+/**
+ * Study Plan
+ *
+ * Works backward from the learner's exam date to a day-by-day plan: which
+ * subelements to study, how many new and review questions to answer, and
+ * when to take full practice tests. Unseen questions are spread over the
+ * study days left, riskiest subelements first; once everything has been
+ * seen, days turn to the least-mastered subelements.
+ *
+ * The plan is rebuilt from the current readiness metrics rather than stored,
+ * so it adjusts to progress: a week that falls short leaves more unseen
+ * questions for the weeks after it, and a week that gets ahead leaves fewer.
+ */
+
+/** Weekday numbers as returned by Date.getDay(): 0 is Sunday */
+export const ALL_STUDY_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+export type StudyIntensity = 'light' | 'moderate' | 'intensive';
+
+/** Most new questions planned for one day, by the learner's chosen intensity */
+export const MAX_NEW_PER_DAY: Record<StudyIntensity, number> = {
+  light: 20,
+  moderate: 40,
+  intensive: 60,
+};
+
+/** Reviews planned alongside new questions, as a share of the new ones */
+const REVIEW_RATIO = 0.5;
+const MIN_REVIEWS_PER_DAY = 10;
+const MAX_REVIEWS_PER_DAY = 60;
+
+/** Subelements studied on a day with nothing new left to see */
+const SUBELEMENTS_PER_MASTERY_DAY = 2;
+
+/** A weekly practice test is planned once this much of the pool has been seen */
+const WEEKLY_TEST_COVERAGE = 0.5;
+
+/** In the last two weeks, every other study day ends with a practice test */
+const FINAL_STRETCH_DAYS = 14;
+
+export interface StudyPlanDay {
+  /** yyyy-MM-dd */
+  date: string;
+  /** Subelement codes to study, in order */
+  subelements: string[];
+  newQuestions: number;
+  reviewQuestions: number;
+  practiceTest: boolean;
+}
+
+export interface StudyPlan {
+  examDate: string;
+  daysUntilExam: number;
+  days: StudyPlanDay[];
+  /** Questions in the pool the learner hasn't seen yet */
+  unseenQuestions: number;
+  /** The unseen questions don't fit into the study days left at this intensity */
+  behind: boolean;
+  /** Targets for the rest of this week (through Saturday) */
+  thisWeek: { questions: number; tests: number };
+}
+
+export interface StudyPlanInput {
+  /** yyyy-MM-dd */
+  examDate: string;
+  /** Weekdays the learner can study; all of them when empty */
+  studyDays: number[];
+  subelementMetrics: Record<string, SubelementMetric>;
+  /** Spaced-repetition reviews already due */
+  dueReviews: number;
+  intensity?: string;
+  today?: Date;
+}
+
+function toDate(day: string): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+}
+
+function toIntensity(intensity: string | undefined): StudyIntensity {
+  return intensity === 'light' || intensity === 'intensive' ? intensity : 'moderate';
+}
+
+/**
+ * Build the plan from today until the day before the exam. Returns null
+ * when the exam is today or past, or no study day is left before it.
+ */
+export function buildStudyPlan({
+  examDate,
+  studyDays,
+  subelementMetrics,
+  dueReviews,
+  intensity,
+  today = new Date(),
+}: StudyPlanInput): StudyPlan | null {
+  const start = startOfDay(today);
+  const daysLeft = daysUntilExam(examDate, start);
+  if (daysLeft <= 0) return null;
+
+  const weekdays = studyDays.length > 0 ? studyDays : ALL_STUDY_DAYS;
+  const dates: Date[] = [];
+  for (let offset = 0; offset < daysLeft; offset++) {
+    const date = addDays(start, offset);
+    if (weekdays.includes(getDay(date))) dates.push(date);
+  }
+  if (dates.length === 0) return null;
+
+  // Riskiest first, so the subelements that cost the most points come early
+  const subelements = Object.entries(subelementMetrics)
+    .map(([code, metric]) => ({
+      code,
+      risk: metric.risk_score,
+      unseen: Math.round(metric.pool_size * (1 - metric.coverage)),
+      unmastered: Math.round(metric.pool_size * (1 - metric.mastery)),
+    }))
+    .sort((a, b) => b.risk - a.risk || a.code.localeCompare(b.code));
+
+  const poolSize = Object.values(subelementMetrics).reduce((sum, m) => sum + m.pool_size, 0);
+  const unseenQuestions = subelements.reduce((sum, s) => sum + s.unseen, 0);
+
+  // The last study day is kept for review and a final practice test
+  const newDays = dates.length > 1 ? dates.length - 1 : 1;
+  const maxNewPerDay = MAX_NEW_PER_DAY[toIntensity(intensity)];
+  const newPerDay = Math.min(maxNewPerDay, Math.ceil(unseenQuestions / newDays));
+  const behind = unseenQuestions > newPerDay * newDays;
+
+  const queue = subelements.filter((s) => s.unseen > 0).map((s) => ({ code: s.code, left: s.unseen }));
+  const masteryFocus = subelements.filter((s) => s.unmastered > 0).map((s) => s.code);
+  const examDay = toDate(examDate);
+
+  let seen = poolSize - unseenQuestions;
+  let masteryDay = 0;
+  const days: StudyPlanDay[] = dates.map((date, index) => {
+    const isLast = index === dates.length - 1;
+    const studiedBefore = seen > 0;
+
+    const subelementCodes: string[] = [];
+    let newQuestions = 0;
+    if (!isLast || dates.length === 1) {
+      while (newQuestions < newPerDay && queue.length > 0) {
+        const next = queue[0];
+        const take = Math.min(next.left, newPerDay - newQuestions);
+        newQuestions += take;
+        next.left -= take;
+        subelementCodes.push(next.code);
+        if (next.left === 0) queue.shift();
+      }
+    }
+    seen += newQuestions;
+
+    // Nothing new today: work through the least-mastered subelements in turn
+    if (newQuestions === 0 && masteryFocus.length > 0) {
+      for (let i = 0; i < Math.min(SUBELEMENTS_PER_MASTERY_DAY, masteryFocus.length); i++) {
+        subelementCodes.push(masteryFocus[(masteryDay * SUBELEMENTS_PER_MASTERY_DAY + i) % masteryFocus.length]);
+      }
+      masteryDay++;
+    }
+
+    let reviewQuestions = 0;
+    if (studiedBefore) {
+      const base = newQuestions > 0 ? Math.ceil(newQuestions * REVIEW_RATIO) : maxNewPerDay;
+      reviewQuestions = Math.max(MIN_REVIEWS_PER_DAY, base);
+    }
+    if (index === 0) reviewQuestions += dueReviews;
+    reviewQuestions = Math.min(MAX_REVIEWS_PER_DAY, reviewQuestions);
+
+    const nextDate = dates[index + 1];
+    const lastOfWeek = !nextDate || getDay(nextDate) <= getDay(date);
+    const daysBeforeExam = Math.round((examDay.getTime() - date.getTime()) / 86_400_000);
+    const fromEnd = dates.length - 1 - index;
+    const practiceTest =
+      isLast ||
+      (daysBeforeExam <= FINAL_STRETCH_DAYS && fromEnd % 2 === 0) ||
+      (lastOfWeek && poolSize > 0 && seen / poolSize >= WEEKLY_TEST_COVERAGE);
+
+    return {
+      date: format(date, 'yyyy-MM-dd'),
+      subelements: subelementCodes,
+      newQuestions,
+      reviewQuestions,
+      practiceTest,
+    };
+  });
+
+  // The week runs Sunday to Saturday, like the weekly goals
+  const weekEnd = format(addDays(start, 6 - getDay(start)), 'yyyy-MM-dd');
+  const thisWeekDays = days.filter((day) => day.date <= weekEnd);
+
+  return {
+    examDate,
+    daysUntilExam: daysLeft,
+    days,
+    unseenQuestions,
+    behind,
+    thisWeek: {
+      questions: thisWeekDays.reduce((sum, day) => sum + day.newQuestions + day.reviewQuestions, 0),
+      tests: thisWeekDays.filter((day) => day.practiceTest).length,
+    },
+  };
+}
+
+/** The plan for one date (default today), or null on a rest day */
+export function getPlanDay(plan: StudyPlan | null, today: Date = new Date()): StudyPlanDay | null {
+  if (!plan) return null;
+  const date = format(today, 'yyyy-MM-dd');
+  return plan.days.find((day) => day.date === date) ?? null;
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { diffWords, hasChanges } from './textDiff';
+
+const join = (segments: { text: string }[]) => segments.map((s) => s.text).join('');
+
+describe('diffWords', () => {
+  it('returns a single equal segment for identical text', () => {
+    expect(diffWords('Ohms law', 'Ohms law')).toEqual([{ type: 'equal', text: 'Ohms law' }]);
+  });
+
+  it('marks replaced words as removed then added', () => {
+    expect(diffWords('The current is 2 amps', 'The current is 3 amps')).toEqual([
+      { type: 'equal', text: 'The current is ' },
+      { type: 'removed', text: '2' },
+      { type: 'added', text: '3' },
+      { type: 'equal', text: ' amps' },
+    ]);
+  });
+
+  it('merges runs of inserted words', () => {
+    const segments = diffWords('Power equals voltage', 'Power equals voltage times current');
+
+    expect(segments).toEqual([
+      { type: 'equal', text: 'Power equals voltage' },
+      { type: 'added', text: ' times current' },
+    ]);
+  });
+
+  it('reconstructs both texts from the segments', () => {
+    const before = 'A dipole is\nhalf a wavelength long.';
+    const after = 'A half-wave dipole is about\nhalf a wavelength long overall.';
+    const segments = diffWords(before, after);
+
+    expect(join(segments.filter((s) => s.type !== 'added'))).toBe(before);
+    expect(join(segments.filter((s) => s.type !== 'removed'))).toBe(after);
+  });
+
+  it('handles empty text on either side', () => {
+    expect(diffWords('', 'New explanation')).toEqual([{ type: 'added', text: 'New explanation' }]);
+    expect(diffWords('Old explanation', '')).toEqual([{ type: 'removed', text: 'Old explanation' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+});
+
+describe('hasChanges', () => {
+  it('is false only when every segment is equal', () => {
+    expect(hasChanges(diffWords('same', 'same'))).toBe(false);
+    expect(hasChanges(diffWords('same', 'different'))).toBe(true);
+    expect(hasChanges([])).toBe(false);
+  });
+});
@@ -41,6 +41,20 @@ vi.mock('@/components/admin/AdminQuestions', () => ({
   ),
 }));
 
+vi.mock('@/components/admin/AdminAnswerAnalytics', () => ({
+  AdminAnswerAnalytics: ({ testType }: { testType: string }) => (
+    <div data-testid="admin-answer-analytics">Answer Analytics - {testType}</div>
+  ),
+}));
+
+vi.mock('@/components/admin/BulkImportExamSessions', () => ({
+  BulkImportExamSessions: () => <div data-testid="admin-exam-sessions">Exam Session Import</div>,
+}));
+
+vi.mock('@/components/admin/AdminReadinessCalibration', () => ({
+  AdminReadinessCalibration: () => <div data-testid="admin-readiness-calibration">Readiness Calibration</div>,
+}));
+
 vi.mock('@/components/admin/AdminTopics', () => ({
   AdminTopics: () => <div data-testid="admin-topics">Admin Topics</div>,
 }));
@@ -229,6 +243,17 @@ describe('Admin', () => {
 
       expect(screen.getByTestId('admin-questions')).toHaveTextContent('general');
     });
+
+    it('shows answer analytics for the selected exam', async () => {
+      const user = userEvent.setup();
+      renderAdmin();
+
+      await user.click(screen.getByText('Extra'));
+      await user.click(screen.getByRole('tab', { name: /answer analytics/i }));
+
+      expect(screen.getByTestId('admin-answer-analytics')).toHaveTextContent('extra');
+      expect(screen.queryByTestId('admin-questions')).not.toBeInTheDocument();
+    });
   });
 
   describe('Learning Section', () => {
@@ -314,6 +339,32 @@ describe('Admin', () => {
   });
 
   describe('Additional Sections', () => {
+    it('displays Exam Sessions section button', () => {
+      renderAdmin();
+
+      expect(screen.getByRole('button', { name: /exam sessions/i })).toBeInTheDocument();
+    });
+
+    it('switches to Exam Sessions section when clicked', async () => {
+      const user = userEvent.setup();
+      renderAdmin();
+
+      await user.click(screen.getByRole('button', { name: /exam sessions/i }));
+
+      expect(screen.getByTestId('admin-exam-sessions')).toBeInTheDocument();
+      expect(screen.queryByTestId('admin-questions')).not.toBeInTheDocument();
+    });
+
+    it('switches to Readiness section when clicked', async () => {
+      const user = userEvent.setup();
+      renderAdmin();
+
+      await user.click(screen.getByRole('button', { name: /readiness/i }));
+
+      expect(screen.getByTestId('admin-readiness-calibration')).toBeInTheDocument();
+      expect(screen.queryByTestId('admin-questions')).not.toBeInTheDocument();
+    });
+
     it('displays Chapters section button', () => {
       renderAdmin();
 
@@ -5,6 +5,8 @@ import { useAuth } from "@/hooks/useAuth";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AdminGlossary } from "@/components/admin/AdminGlossary";
 import { AdminQuestions } from "@/components/admin/AdminQuestions";
+import { AdminAnswerAnalytics } from "@/components/admin/AdminAnswerAnalytics";
+import { BulkImportExamSessions } from "@/components/admin/BulkImportExamSessions";
 import { AdminTopics } from "@/components/admin/AdminTopics";
 import { AdminLessons } from "@/components/admin/AdminLessons";
 import { AdminChapters } from "@/components/admin/AdminChapters";
@@ -12,8 +14,9 @@ import { AdminHamRadioTools } from "@/components/admin/AdminHamRadioTools";
 import { DiscourseSyncDashboard } from "@/components/admin/DiscourseSyncDashboard";
 import { AdminAlerts } from "@/components/admin/AdminAlerts";
 import { AdminAlertRules } from "@/components/admin/AdminAlertRules";
+import { AdminReadinessCalibration } from "@/components/admin/AdminReadinessCalibration";
 import { useUnacknowledgedAlertCount } from "@/hooks/useAlerts";
-import { Loader2, ShieldAlert, BookText, MessageSquare, FileQuestion, Book, Wrench, Bell, GraduationCap } from "lucide-react";
+import { Loader2, ShieldAlert, BookText, MessageSquare, FileQuestion, Book, Wrench, Bell, GraduationCap, MapPin, Gauge } from "lucide-react";
 import { AppLayout } from "@/components/AppLayout";
 import { TestType } from "@/types/navigation";
 import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
@@ -29,7 +32,7 @@ export default function Admin() {
   const navigate = useNavigate();
   const [sidebarTest, setSidebarTest] = useState<TestType>('technician');
   const [adminExamType, setAdminExamType] = useState<TestType>('technician');
-  const [activeSection, setActiveSection] = useState<"exam" | "glossary" | "learning" | "chapters" | "tools" | "discourse" | "alerts">("exam");
+  const [activeSection, setActiveSection] = useState<"exam" | "sessions" | "glossary" | "learning" | "chapters" | "tools" | "discourse" | "readiness" | "alerts">("exam");
   const { data: unacknowledgedCount = 0 } = useUnacknowledgedAlertCount();
   useEffect(() => {
     if (!authLoading && !user) {
@@ -55,7 +58,7 @@ export default function Admin() {
   };
 
   // Questions/Glossary need fixed viewport with internal scroll
-  const needsFixedHeight = activeSection === "glossary" || activeSection === "learning" || activeSection === "chapters" || activeSection === "tools" || activeSection === "discourse" || activeSection === "alerts" || activeSection === "exam";
+  const needsFixedHeight = activeSection === "glossary" || activeSection === "learning" || activeSection === "chapters" || activeSection === "tools" || activeSection === "discourse" || activeSection === "alerts" || activeSection === "exam" || activeSection === "sessions" || activeSection === "readiness";
 
   return <AppLayout currentView="dashboard" onViewChange={handleViewChange} selectedTest={sidebarTest} onTestChange={setSidebarTest}>
       <div className={`flex-1 p-6 md:p-8 flex flex-col ${needsFixedHeight ? 'h-full overflow-hidden' : 'overflow-y-auto'}`}>
@@ -77,6 +80,17 @@ export default function Admin() {
                 <FileQuestion className="w-4 h-4" />
                 <span className="hidden sm:inline">Questions</span>
               </button>
+              <button
+                onClick={() => setActiveSection("sessions")}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                  activeSection === "sessions"
+                    ? "bg-background text-foreground shadow-sm"
+                    : "text-muted-foreground hover:text-foreground hover:bg-background/50"
+                }`}
+              >
+                <MapPin className="w-4 h-4" />
+                <span className="hidden sm:inline">Exam Sessions</span>
+              </button>
               <button
                 onClick={() => setActiveSection("glossary")}
                 className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
@@ -132,6 +146,17 @@ export default function Admin() {
                 <MessageSquare className="w-4 h-4" />
                 <span className="hidden sm:inline">Discourse</span>
               </button>
+              <button
+                onClick={() => setActiveSection("readiness")}
+                className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-all ${
+                  activeSection === "readiness"
+                    ? "bg-background text-foreground shadow-sm"
+                    : "text-muted-foreground hover:text-foreground hover:bg-background/50"
+                }`}
+              >
+                <Gauge className="w-4 h-4" />
+                <span className="hidden sm:inline">Readiness</span>
+              </button>
               <button
                 onClick={() => setActiveSection("alerts")}
                 className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md text-sm font-medium transition-all relative ${
@@ -152,24 +177,39 @@ export default function Admin() {
           </div>
 
           {activeSection === "exam" ? (
-            <div className="w-full flex-1 flex flex-col min-h-0">
-              <div className="flex items-center justify-end gap-2 mb-6">
-                <span className="text-sm text-muted-foreground">Exam:</span>
-                <ToggleGroup type="single" value={adminExamType} onValueChange={value => value && setAdminExamType(value as TestType)} className="bg-muted rounded-lg p-1">
-                  <ToggleGroupItem value="technician" className="text-xs px-3 data-[state=on]:bg-primary data-[state=on]:text-primary-foreground">
-                    Tech
-                  </ToggleGroupItem>
-                  <ToggleGroupItem value="general" className="text-xs px-3 data-[state=on]:bg-primary data-[state=on]:text-primary-foreground">
-                    General
-                  </ToggleGroupItem>
-                  <ToggleGroupItem value="extra" className="text-xs px-3 data-[state=on]:bg-primary data-[state=on]:text-primary-foreground">
-                    Extra
-                  </ToggleGroupItem>
-                </ToggleGroup>
+            <Tabs key="exam-tabs" defaultValue="questions" className="w-full flex-1 flex flex-col min-h-0">
+              <div className="flex items-center justify-between gap-2 mb-6 flex-wrap">
+                <TabsList>
+                  <TabsTrigger value="questions">Questions</TabsTrigger>
+                  <TabsTrigger value="analytics">Answer Analytics</TabsTrigger>
+                </TabsList>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">Exam:</span>
+                  <ToggleGroup type="single" value={adminExamType} onValueChange={value => value && setAdminExamType(value as TestType)} className="bg-muted rounded-lg p-1">
+                    <ToggleGroupItem value="technician" className="text-xs px-3 data-[state=on]:bg-primary data-[state=on]:text-primary-foreground">
+                      Tech
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="general" className="text-xs px-3 data-[state=on]:bg-primary data-[state=on]:text-primary-foreground">
+                      General
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="extra" className="text-xs px-3 data-[state=on]:bg-primary data-[state=on]:text-primary-foreground">
+                      Extra
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                </div>
               </div>
-              <AdminQuestions testType={adminExamType} />
-            </div>
-          ) : activeSection === "glossary" ? (
+              <TabsContent value="questions" className="mt-0 flex-1 flex flex-col min-h-0 data-[state=inactive]:hidden">
+                <AdminQuestions testType={adminExamType} />
+              </TabsContent>
+              <TabsContent value="analytics" className="mt-0 flex-1 min-h-0 overflow-y-auto">
+                <AdminAnswerAnalytics testType={adminExamType} />
+              </TabsContent>
+            </Tabs>
+          ) : activeSection === "sessions" ? (
+              <div className="flex-1 flex flex-col min-h-0">
+                <BulkImportExamSessions />
+              </div>
+            ) : activeSection === "glossary" ? (
               <div className="flex-1 flex flex-col min-h-0">
                 <AdminGlossary />
               </div>
@@ -196,6 +236,10 @@ export default function Admin() {
               <div className="flex-1 flex flex-col min-h-0">
                 <AdminHamRadioTools />
               </div>
+            ) : activeSection === "readiness" ? (
+              <div className="flex-1 flex flex-col min-h-0 overflow-y-auto">
+                <AdminReadinessCalibration />
+              </div>
             ) : activeSection === "alerts" ? (
               <div className="flex-1 flex flex-col min-h-0 overflow-y-auto">
                 <Tabs key="alerts-tabs" defaultValue="alerts" className="w-full">
@@ -10,12 +10,14 @@ import '@/test/mocks/supabase';
 
 // Mock react-router-dom hooks
 const mockNavigate = vi.fn();
+const mockSetSearchParams = vi.fn();
+let mockSearchParams = new URLSearchParams();
 vi.mock('react-router-dom', async () => {
   const actual = await vi.importActual('react-router-dom');
   return {
     ...actual,
     useNavigate: () => mockNavigate,
-    useSearchParams: () => [new URLSearchParams(), vi.fn()],
+    useSearchParams: () => [mockSearchParams, mockSetSearchParams],
   };
 });
 
@@ -46,11 +48,13 @@ vi.mock('@/hooks/useBookmarks', () => ({
 // Mock useAppNavigation
 const mockSetCurrentView = vi.fn();
 const mockSetReviewingTestId = vi.fn();
-const mockAppNavigation = vi.fn(() => ({
+const mockNavigateToSubelementPractice = vi.fn();
+const mockAppNavigation = vi.fn((): Record<string, unknown> => ({
   currentView: 'dashboard',
   setCurrentView: mockSetCurrentView,
   reviewingTestId: null,
   setReviewingTestId: mockSetReviewingTestId,
+  navigateToSubelementPractice: mockNavigateToSubelementPractice,
 }));
 
 vi.mock('@/hooks/useAppNavigation', () => ({
@@ -79,6 +83,15 @@ vi.mock('@/components/PracticeTest', () => ({
   ),
 }));
 
+vi.mock('@/components/CustomTest', () => ({
+  CustomTest: ({ onBack }: { onBack: () => void }) => (
+    <div data-testid="custom-test">
+      Custom Test View
+      <button onClick={onBack}>Back</button>
+    </div>
+  ),
+}));
+
 vi.mock('@/components/RandomPractice', () => ({
   RandomPractice: ({ onBack }: { onBack: () => void }) => (
     <div data-testid="random-practice">
@@ -133,6 +146,16 @@ vi.mock('@/components/GlossaryFlashcards', () => ({
   ),
 }));
 
+vi.mock('@/components/MorseTrainer', () => ({
+  MorseTrainer: () => <div data-testid="morse-trainer">Morse Trainer View</div>,
+}));
+
+vi.mock('@/components/BandPlanExplorer', () => ({
+  BandPlanExplorer: ({ testType }: { testType: string }) => (
+    <div data-testid="band-plan">Band Plan View ({testType})</div>
+  ),
+}));
+
 vi.mock('@/components/TestResultReview', () => ({
   TestResultReview: ({ onBack }: { onBack: () => void }) => (
     <div data-testid="test-result-review">
@@ -142,6 +165,14 @@ vi.mock('@/components/TestResultReview', () => ({
   ),
 }));
 
+vi.mock('@/components/classroom', () => ({
+  Classrooms: () => <div data-testid="classrooms">Classes View</div>,
+}));
+
+vi.mock('@/components/moderation', () => ({
+  ModerationQueue: () => <div data-testid="moderation-queue">Moderation View</div>,
+}));
+
 vi.mock('@/components/AppLayout', () => ({
   AppLayout: ({ children, currentView }: { children?: React.ReactNode; currentView: string }) => (
     <div data-testid="app-layout" data-current-view={currentView}>
@@ -154,13 +185,27 @@ vi.mock('@/components/WeeklyGoalsModal', () => ({
   WeeklyGoalsModal: () => null,
 }));
 
+// Mock useStudyPlan - no plan unless a test sets one
+const mockStudyPlan = vi.fn(() => ({ plan: null, today: null, studyDays: [0, 1, 2, 3, 4, 5, 6] }));
+vi.mock('@/hooks/useStudyPlan', () => ({
+  useStudyPlan: () => mockStudyPlan(),
+}));
+
 // Mock dashboard subcomponents that have their own data dependencies
 vi.mock('@/components/dashboard', () => ({
+  DashboardGroupHeatmap: () => <div data-testid="dashboard-group-heatmap" />,
   DashboardHero: () => <div data-testid="dashboard-hero" />,
-  DashboardNextSteps: () => <div data-testid="dashboard-next-steps" />,
+  DashboardNextSteps: ({ steps }: { steps: { id: string; title: string; onClick: () => void }[] }) => (
+    <div data-testid="dashboard-next-steps">
+      {steps.map((step) => (
+        <button key={step.id} onClick={step.onClick}>{step.title}</button>
+      ))}
+    </div>
+  ),
   DashboardNotifications: () => <div data-testid="dashboard-notifications" />,
   DashboardProgress: () => <div data-testid="dashboard-progress" />,
   DashboardSectionInsights: () => <div data-testid="dashboard-section-insights" />,
+  DashboardStudyPlan: () => <div data-testid="dashboard-study-plan" />,
   StreakDisplay: () => <div data-testid="streak-display" />,
 }));
 
@@ -212,6 +257,61 @@ describe('Dashboard', () => {
     });
   });
 
+  describe('Subelement deep link', () => {
+    afterEach(() => {
+      mockSearchParams = new URLSearchParams();
+    });
+
+    it('opens practice for the linked subelement', async () => {
+      mockSearchParams = new URLSearchParams('view=subelement-practice&subelement=G5');
+
+      renderDashboard();
+
+      await waitFor(() => {
+        expect(mockNavigateToSubelementPractice).toHaveBeenCalledWith('G5');
+      });
+      expect(mockSetSearchParams).toHaveBeenCalledWith({ view: 'subelement-practice' }, { replace: true });
+    });
+  });
+
+  describe('Study plan', () => {
+    const today = {
+      date: '2026-10-19',
+      subelements: ['T5', 'T1'],
+      newQuestions: 20,
+      reviewQuestions: 10,
+      practiceTest: true,
+    };
+
+    afterEach(() => {
+      mockStudyPlan.mockReturnValue({ plan: null, today: null, studyDays: [0, 1, 2, 3, 4, 5, 6] });
+    });
+
+    it("turns today's plan into next steps", async () => {
+      mockStudyPlan.mockReturnValue({
+        plan: { days: [today], thisWeek: { questions: 30, tests: 1 } },
+        today,
+        studyDays: [1],
+      });
+
+      renderDashboard();
+
+      const study = await screen.findByRole('button', { name: 'Study Electrical Principles' });
+      expect(screen.getByRole('button', { name: 'Take a Practice Test' })).toBeInTheDocument();
+      // The plan replaces the weekly goal step
+      expect(screen.queryByRole('button', { name: 'Practice Questions' })).not.toBeInTheDocument();
+
+      fireEvent.click(study);
+      expect(mockNavigateToSubelementPractice).toHaveBeenCalledWith('T5');
+    });
+
+    it('falls back to the weekly goals without a plan', async () => {
+      renderDashboard();
+
+      expect(await screen.findByRole('button', { name: 'Practice Questions' })).toBeInTheDocument();
+    });
+  });
+
   describe('Guest mode', () => {
     const asGuest = () => {
       // Set up the guest mock for every useAuth call this render makes,
@@ -282,6 +382,51 @@ describe('Dashboard Views', () => {
     });
   });
 
+  it('renders custom-test view when currentView is custom-test', async () => {
+    mockAppNavigation.mockReturnValueOnce({
+      currentView: 'custom-test',
+      setCurrentView: mockSetCurrentView,
+      reviewingTestId: null,
+      setReviewingTestId: mockSetReviewingTestId,
+    });
+
+    renderDashboard();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('custom-test')).toBeInTheDocument();
+    });
+  });
+
+  it('renders morse-trainer view when currentView is morse-trainer', async () => {
+    mockAppNavigation.mockReturnValueOnce({
+      currentView: 'morse-trainer',
+      setCurrentView: mockSetCurrentView,
+      reviewingTestId: null,
+      setReviewingTestId: mockSetReviewingTestId,
+    });
+
+    renderDashboard();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('morse-trainer')).toBeInTheDocument();
+    });
+  });
+
+  it('renders band-plan view when currentView is band-plan', async () => {
+    mockAppNavigation.mockReturnValueOnce({
+      currentView: 'band-plan',
+      setCurrentView: mockSetCurrentView,
+      reviewingTestId: null,
+      setReviewingTestId: mockSetReviewingTestId,
+    });
+
+    renderDashboard();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('band-plan')).toBeInTheDocument();
+    });
+  });
+
   it('renders random-practice view when currentView is random-practice', async () => {
     mockAppNavigation.mockReturnValueOnce({
       currentView: 'random-practice',
@@ -356,6 +501,36 @@ describe('Dashboard Views', () => {
       expect(screen.getByTestId('weak-questions')).toBeInTheDocument();
     });
   });
+
+  it('renders classrooms view when currentView is classrooms', async () => {
+    mockAppNavigation.mockReturnValueOnce({
+      currentView: 'classrooms',
+      setCurrentView: mockSetCurrentView,
+      reviewingTestId: null,
+      setReviewingTestId: mockSetReviewingTestId,
+    });
+
+    renderDashboard();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('classrooms')).toBeInTheDocument();
+    });
+  });
+
+  it('renders moderation view when currentView is moderation', async () => {
+    mockAppNavigation.mockReturnValueOnce({
+      currentView: 'moderation',
+      setCurrentView: mockSetCurrentView,
+      reviewingTestId: null,
+      setReviewingTestId: mockSetReviewingTestId,
+    });
+
+    renderDashboard();
+
+    await waitFor(() => {
+      expect(screen.getByTestId('moderation-queue')).toBeInTheDocument();
+    });
+  });
 });
 
 describe('Dashboard Loading State', () => {
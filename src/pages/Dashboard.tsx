@@ -6,40 +6,55 @@ import { useBookmarks } from '@/hooks/useBookmarks';
 import { useAppNavigation } from '@/hooks/useAppNavigation';
 import { useTestReadiness } from '@/hooks/useTestReadiness';
 import { useReadinessScore, recalculateReadiness } from '@/hooks/useReadinessScore';
+import { useReviewSchedule } from '@/hooks/useReviewSchedule';
+import { useTargetExam } from '@/hooks/useExamSessions';
+import { useStudentAssignments } from '@/hooks/useClassrooms';
+import { useStudyPlan } from '@/hooks/useStudyPlan';
 import { useTestResults, useQuestionAttemptsWithNames, useProfileStats, useWeeklyGoals } from '@/hooks/useDashboardData';
 import { queryKeys } from '@/services/queryKeys';
 import { calculateWeakQuestionIds } from '@/lib/weakQuestions';
+import { describeDueDate } from '@/lib/classrooms';
 import { filterByTestType } from '@/lib/testTypeUtils';
+import { getSubelementName } from '@/lib/subelementNames';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
-import { Loader2, AlertTriangle, Zap, Brain, Target, X } from 'lucide-react';
+import { Loader2, AlertTriangle, Zap, Brain, Target, X, CalendarClock, ClipboardList, CalendarCheck } from 'lucide-react';
 import { GlobalSearch } from '@/components/GlobalSearch';
 import { PageContainer } from '@/components/ui/page-container';
 import {
+  DashboardGroupHeatmap,
   DashboardHero,
   DashboardNextSteps,
   DashboardNotifications,
   DashboardProgress,
   DashboardSectionInsights,
+  DashboardStudyPlan,
   StreakDisplay,
 } from '@/components/dashboard';
 import type { NextStep } from '@/components/dashboard/DashboardNextSteps';
 import { PracticeTest } from '@/components/PracticeTest';
 import { RandomPractice } from '@/components/RandomPractice';
 import { WeakQuestionsReview } from '@/components/WeakQuestionsReview';
+import { DueForReview } from '@/components/DueForReview';
+import { FindExamSession } from '@/components/FindExamSession';
 import { BookmarkedQuestions } from '@/components/BookmarkedQuestions';
 import { SubelementPractice } from '@/components/SubelementPractice';
 import { ChapterPractice } from '@/components/ChapterPractice';
+import { CustomTest } from '@/components/CustomTest';
 import { TestResultReview } from '@/components/TestResultReview';
 import { AppLayout } from '@/components/AppLayout';
 import { Glossary } from '@/components/Glossary';
 import { GlossaryFlashcards } from '@/components/GlossaryFlashcards';
+import { MorseTrainer } from '@/components/MorseTrainer';
+import { BandPlanExplorer } from '@/components/BandPlanExplorer';
 import { WeeklyGoalsModal } from '@/components/WeeklyGoalsModal';
 import { TopicGallery } from '@/components/TopicGallery';
 import { TopicDetailPage } from '@/components/TopicDetailPage';
 import { LessonGallery } from '@/components/LessonGallery';
 import { LessonDetailPage } from '@/components/LessonDetailPage';
 import { HamRadioToolsGallery } from '@/components/HamRadioToolsGallery';
-import { TestType, testTypes, View } from '@/types/navigation';
+import { Classrooms } from '@/components/classroom';
+import { ModerationQueue } from '@/components/moderation';
+import { TestType, testConfig, testTypes, View } from '@/types/navigation';
 import { trackLicenseTypeChanged, trackStudyModeSelected } from '@/lib/amplitude';
 export default function Dashboard() {
   const {
@@ -62,6 +77,8 @@ export default function Dashboard() {
     navigateToLessons,
     navigateBackFromTopic,
     navigateToSubelementPractice,
+    navigateToLesson,
+    navigateToTopic,
   } = useAppNavigation();
   const [searchParams, setSearchParams] = useSearchParams();
   // Persist selectedTest in localStorage
@@ -110,6 +127,16 @@ export default function Dashboard() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Only run on mount
 
+  // Deep link into one subelement's questions (e.g. from the calculator's
+  // formula modes), which can arrive while the dashboard is already mounted
+  const subelementParam = searchParams.get('subelement');
+  useEffect(() => {
+    if (!subelementParam) return;
+    navigateToSubelementPractice(subelementParam);
+    setSearchParams({ view: 'subelement-practice' }, { replace: true });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [subelementParam]);
+
   // Helper to change view and update URL
   const changeView = (view: View) => {
     setCurrentView(view);
@@ -167,6 +194,18 @@ export default function Dashboard() {
 
   // Calculate weak questions (questions where incorrect answers > correct answers) - filtered by test type
   const weakQuestionIds = filteredAttempts.length > 0 ? calculateWeakQuestionIds(filteredAttempts) : [];
+
+  // Questions whose spaced-repetition review is due now
+  const { dueQuestions } = useReviewSchedule(selectedTest);
+
+  // Lessons and topics assigned by the learner's instructors
+  const { assignments } = useStudentAssignments();
+
+  // Countdown to the learner's exam (linked session or custom date)
+  const { daysUntil: daysUntilExam } = useTargetExam();
+
+  // Day-by-day plan worked backward from that exam date
+  const { plan: studyPlan, today: todaysPlan } = useStudyPlan(selectedTest);
   const currentTest = testTypes.find(t => t.id === selectedTest);
   const isTestAvailable = currentTest?.available ?? false;
 
@@ -206,14 +245,14 @@ export default function Dashboard() {
 
   // Study views that represent user-initiated navigation worth tracking
   const studyViews: View[] = [
-    'practice-test', 'random-practice', 'weak-questions', 'bookmarks',
-    'subelement-practice', 'chapter-practice', 'glossary', 'glossary-flashcards',
-    'topics', 'lessons', 'tools',
+    'practice-test', 'random-practice', 'weak-questions', 'due-review', 'bookmarks',
+    'subelement-practice', 'chapter-practice', 'custom-test', 'glossary', 'glossary-flashcards',
+    'morse-trainer', 'band-plan', 'topics', 'lessons', 'tools', 'find-exam', 'classrooms',
   ];
 
   // Handle view changes with test-in-progress check (user-initiated from sidebar/buttons)
   const handleViewChange = (view: typeof currentView) => {
-    if (testInProgress && view !== 'practice-test') {
+    if (testInProgress && view !== currentView) {
       setPendingView(view);
       setShowNavigationWarning(true);
     } else {
@@ -256,6 +295,9 @@ export default function Dashboard() {
     if (currentView === 'weak-questions') {
       return <WeakQuestionsReview weakQuestionIds={weakQuestionIds} onBack={() => changeView('dashboard')} testType={selectedTest} />;
     }
+    if (currentView === 'due-review') {
+      return <DueForReview onBack={() => changeView('dashboard')} testType={selectedTest} />;
+    }
     if (currentView === 'bookmarks') {
       return <BookmarkedQuestions onBack={() => changeView('dashboard')} onStartPractice={() => changeView('random-practice')} testType={selectedTest} />;
     }
@@ -265,6 +307,18 @@ export default function Dashboard() {
     if (currentView === 'chapter-practice') {
       return <ChapterPractice onBack={() => changeView('dashboard')} testType={selectedTest} />;
     }
+    if (currentView === 'custom-test') {
+      return <CustomTest
+        onBack={() => changeView('dashboard')}
+        onTestStateChange={setTestInProgress}
+        testType={selectedTest}
+        onTestTypeChange={handleTestChange}
+        onReviewTest={(testId) => {
+          setReviewingTestId(testId);
+          changeView('review-test');
+        }}
+      />;
+    }
     if (currentView === 'review-test' && reviewingTestId) {
       return <TestResultReview testResultId={reviewingTestId} onBack={() => {
         setReviewingTestId(null);
@@ -277,9 +331,24 @@ export default function Dashboard() {
     if (currentView === 'glossary-flashcards') {
       return <GlossaryFlashcards onBack={() => changeView('dashboard')} />;
     }
+    if (currentView === 'morse-trainer') {
+      return <MorseTrainer />;
+    }
+    if (currentView === 'band-plan') {
+      return <BandPlanExplorer testType={selectedTest} onPracticeGroup={navigateToSubelementPractice} />;
+    }
     if (currentView === 'tools') {
       return <HamRadioToolsGallery />;
     }
+    if (currentView === 'find-exam') {
+      return <FindExamSession testType={selectedTest} />;
+    }
+    if (currentView === 'classrooms') {
+      return <Classrooms />;
+    }
+    if (currentView === 'moderation') {
+      return <ModerationQueue />;
+    }
     if (currentView === 'topics') {
       return <TopicGallery testType={selectedTest} />;
     }
@@ -322,6 +391,51 @@ export default function Dashboard() {
     const getNextSteps = (): NextStep[] => {
       const steps: NextStep[] = [];
 
+      // Instructor assignments come first, soonest due (at most 2 so the
+      // learner's own study steps still show)
+      for (const assignment of assignments.slice(0, 2)) {
+        const content = assignment.lesson ?? assignment.topic!;
+        const due = describeDueDate(assignment.due_date);
+        steps.push({
+          id: `assignment-${assignment.id}`,
+          title: content.title,
+          description: assignment.classroom ? `${due.label} · ${assignment.classroom.name}` : due.label,
+          icon: ClipboardList,
+          onClick: () =>
+            assignment.lesson ? navigateToLesson(content.slug) : navigateToTopic(content.slug),
+          badge: due.status === 'overdue' ? 'Overdue' : 'Assigned',
+          variant: due.status === 'upcoming' ? 'primary' : 'warning',
+        });
+      }
+
+      // Today's study plan, which replaces the weekly goal steps below
+      if (todaysPlan && todaysPlan.subelements.length > 0) {
+        const [subelement] = todaysPlan.subelements;
+        const counts = [
+          todaysPlan.newQuestions > 0 && `${todaysPlan.newQuestions} new`,
+          todaysPlan.reviewQuestions > 0 && `${todaysPlan.reviewQuestions} review`,
+        ].filter(Boolean).join(' and ');
+        steps.push({
+          id: 'plan-study',
+          title: `Study ${getSubelementName(selectedTest, subelement)}`,
+          description: counts ? `${counts} questions in today's plan` : "Today's plan",
+          icon: CalendarCheck,
+          onClick: () => navigateToSubelementPractice(subelement),
+          badge: subelement,
+          variant: 'primary',
+        });
+      }
+      if (todaysPlan?.practiceTest) {
+        steps.push({
+          id: 'plan-test',
+          title: 'Take a Practice Test',
+          description: `Today's plan ends with a full ${testConfig[selectedTest].questionCount}-question exam`,
+          icon: Target,
+          onClick: () => changeView('practice-test'),
+          variant: 'primary',
+        });
+      }
+
       // If weak questions > 5, show review weak questions
       if (weakQuestionIds.length > 5) {
         steps.push({
@@ -335,8 +449,21 @@ export default function Dashboard() {
         });
       }
 
+      // Spaced-repetition reviews that are due now
+      if (dueQuestions.length > 0) {
+        steps.push({
+          id: 'due-review',
+          title: 'Review Due Questions',
+          description: `${dueQuestions.length} question${dueQuestions.length !== 1 ? 's are' : ' is'} due before you forget ${dueQuestions.length !== 1 ? 'them' : 'it'}`,
+          icon: CalendarClock,
+          onClick: () => changeView('due-review'),
+          badge: String(dueQuestions.length),
+          variant: 'secondary',
+        });
+      }
+
       // If haven't hit question goal, show random practice
-      if (thisWeekQuestions < questionsGoal) {
+      if (!studyPlan && thisWeekQuestions < questionsGoal) {
         const remaining = questionsGoal - thisWeekQuestions;
         steps.push({
           id: 'practice',
@@ -349,7 +476,7 @@ export default function Dashboard() {
       }
 
       // If haven't hit test goal, show practice test
-      if (thisWeekTests < testsGoal) {
+      if (!studyPlan && thisWeekTests < testsGoal) {
         steps.push({
           id: 'test',
           title: 'Take a Practice Test',
@@ -395,6 +522,7 @@ export default function Dashboard() {
           recentAvgScore={recentAvgScore}
           nextAction={nextAction}
           onAction={handlePrimaryAction}
+          daysUntilExam={daysUntilExam}
         />
 
         <DashboardNotifications
@@ -412,12 +540,23 @@ export default function Dashboard() {
 
         <DashboardNextSteps steps={getNextSteps()} />
 
+        <DashboardStudyPlan
+          plan={studyPlan}
+          onPracticeSubelement={navigateToSubelementPractice}
+          onOpenSettings={() => setShowGoalsModal(true)}
+        />
+
         <DashboardSectionInsights
           subelementMetrics={readinessData?.subelement_metrics}
           testType={selectedTest}
           onPracticeSection={navigateToSubelementPractice}
         />
 
+        <DashboardGroupHeatmap
+          testType={selectedTest}
+          onDrillGroup={navigateToSubelementPractice}
+        />
+
         <DashboardProgress
           thisWeekQuestions={thisWeekQuestions}
           questionsGoal={questionsGoal}
@@ -460,7 +599,7 @@ export default function Dashboard() {
       </AlertDialog>
 
       {/* Weekly Goals Modal */}
-      {user && <WeeklyGoalsModal open={showGoalsModal} onOpenChange={setShowGoalsModal} userId={user.id} currentGoals={weeklyGoals || null} onGoalsUpdated={() => queryClient.invalidateQueries({
+      {user && <WeeklyGoalsModal open={showGoalsModal} onOpenChange={setShowGoalsModal} userId={user.id} currentGoals={weeklyGoals || null} suggestedGoals={studyPlan?.thisWeek ?? null} onGoalsUpdated={() => queryClient.invalidateQueries({
       queryKey: queryKeys.progress.weeklyGoals(user.id)
     })} />}
 
@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import EmbedQuestionOfTheDay from './EmbedQuestionOfTheDay';
+
+const mockQuestion = {
+  id: 'q1',
+  displayName: 'G1A01',
+  question: 'On which HF bands does a General class license have privileges?',
+  options: { A: '60 m only', B: 'All except 30 m', C: 'All amateur HF bands', D: '160 m only' },
+  correctAnswer: 'C' as const,
+  subelement: 'G1',
+  group: 'G1A',
+  explanation: 'General licensees may use **all** amateur HF bands.',
+  figureUrl: null,
+  links: [],
+};
+
+const mockUseQuestionOfTheDay = vi.fn();
+vi.mock('@/hooks/useQuestions', () => ({
+  useQuestionOfTheDay: (testType: string) => mockUseQuestionOfTheDay(testType),
+}));
+
+const renderEmbed = (search = '?exam=general') =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <MemoryRouter initialEntries={[`/embed/question-of-the-day${search}`]}>
+        <EmbedQuestionOfTheDay />
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+
+describe('EmbedQuestionOfTheDay', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseQuestionOfTheDay.mockReturnValue({ data: mockQuestion, isLoading: false, error: null });
+  });
+
+  it("shows today's question for the requested exam", () => {
+    renderEmbed();
+
+    expect(mockUseQuestionOfTheDay).toHaveBeenCalledWith('general');
+    expect(screen.getByText('General Question of the Day')).toBeInTheDocument();
+    expect(screen.getByRole('heading', { name: mockQuestion.question })).toBeInTheDocument();
+    expect(screen.queryByText(/all amateur HF bands\./)).not.toBeInTheDocument();
+  });
+
+  it('falls back to technician for an unknown exam', () => {
+    renderEmbed('?exam=novice');
+
+    expect(mockUseQuestionOfTheDay).toHaveBeenCalledWith('technician');
+  });
+
+  it('reveals the answer and explanation after answering', () => {
+    renderEmbed();
+
+    fireEvent.click(screen.getByRole('button', { name: /all except 30 m/i }));
+
+    expect(screen.getByText('Not quite. The answer is C.')).toBeInTheDocument();
+    expect(screen.getByText('all')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: /all amateur HF bands/i })).toBeDisabled();
+  });
+
+  it('congratulates a correct answer', () => {
+    renderEmbed();
+
+    fireEvent.click(screen.getByRole('button', { name: /all amateur HF bands/i }));
+
+    expect(screen.getByText('Correct!')).toBeInTheDocument();
+  });
+
+  it('links back to the question page in a new tab', () => {
+    renderEmbed();
+
+    const link = screen.getByRole('link', { name: /study free at open ham prep/i });
+    expect(link).toHaveAttribute('href', `${window.location.origin}/questions/G1A01`);
+    expect(link).toHaveAttribute('target', '_blank');
+  });
+
+  it('shows a fallback when the question cannot load', () => {
+    mockUseQuestionOfTheDay.mockReturnValue({ data: undefined, isLoading: false, error: new Error('offline') });
+
+    renderEmbed();
+
+    expect(screen.getByText(/couldn't be loaded/i)).toBeInTheDocument();
+  });
+});
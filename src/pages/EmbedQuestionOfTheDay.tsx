@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { useQuestionOfTheDay } from '@/hooks/useQuestions';
+import { FigureImage } from '@/components/FigureImage';
+import { MarkdownText } from '@/components/MarkdownText';
+import { parseEmbedTestType } from '@/lib/questionOfTheDay';
+import { cn } from '@/lib/utils';
+import { testTypes } from '@/types/navigation';
+import { CheckCircle, ExternalLink, Loader2, Radio, XCircle } from 'lucide-react';
+
+type AnswerLetter = 'A' | 'B' | 'C' | 'D';
+
+/**
+ * Iframe-friendly question of the day for club websites:
+ *
+ *   <iframe src="https://app.openhamprep.com/embed/question-of-the-day?exam=general&theme=dark"></iframe>
+ *
+ * The question is the same for every visitor on a UTC day. Visitors answer
+ * it here, then see the explanation and a link to the full question page.
+ */
+export default function EmbedQuestionOfTheDay() {
+  const [searchParams] = useSearchParams();
+  const testType = parseEmbedTestType(searchParams.get('exam'));
+  const testName = testTypes.find((t) => t.id === testType)?.name ?? testType;
+  const { data: question, isLoading, error } = useQuestionOfTheDay(testType);
+  const [selectedAnswer, setSelectedAnswer] = useState<AnswerLetter | null>(null);
+
+  useEffect(() => {
+    const prevTitle = document.title;
+    document.title = `${testName} Question of the Day | Open Ham Prep`;
+    return () => {
+      document.title = prevTitle;
+    };
+  }, [testName]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" aria-label="Loading question" />
+      </div>
+    );
+  }
+
+  if (error || !question) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4 text-center">
+        <p className="text-sm text-muted-foreground">
+          Today's question couldn't be loaded.{' '}
+          <a href="/" target="_blank" rel="noopener noreferrer" className="text-primary underline">
+            Study at Open Ham Prep
+          </a>
+        </p>
+      </div>
+    );
+  }
+
+  const answered = selectedAnswer !== null;
+  const isCorrect = selectedAnswer === question.correctAnswer;
+  const questionUrl = `${window.location.origin}/questions/${question.displayName}`;
+
+  return (
+    <div className="min-h-screen bg-background p-3 text-foreground">
+      <article className="mx-auto max-w-xl rounded-xl border border-border bg-card p-4 shadow-sm">
+        <header className="mb-3 flex items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1.5 font-medium text-primary">
+            <Radio className="w-4 h-4" aria-hidden="true" />
+            {testName} Question of the Day
+          </span>
+          <a
+            href={questionUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-mono hover:text-foreground"
+          >
+            {question.displayName}
+          </a>
+        </header>
+
+        <h1 className="mb-3 text-base font-medium leading-relaxed">{question.question}</h1>
+
+        <FigureImage figureUrl={question.figureUrl} questionId={question.displayName} />
+
+        <div className="space-y-2" role="group" aria-label="Answer choices">
+          {(['A', 'B', 'C', 'D'] as const).map((letter) => {
+            const isAnswer = letter === question.correctAnswer;
+            const isSelected = letter === selectedAnswer;
+            return (
+              <button
+                key={letter}
+                type="button"
+                disabled={answered}
+                onClick={() => setSelectedAnswer(letter)}
+                aria-pressed={isSelected}
+                className={cn(
+                  'flex w-full items-start gap-3 rounded-lg border p-3 text-left text-sm transition-colors',
+                  !answered && 'border-border hover:border-primary/50 hover:bg-secondary/50',
+                  answered && isAnswer && 'border-success bg-success/10',
+                  answered && isSelected && !isAnswer && 'border-destructive bg-destructive/10',
+                  answered && !isAnswer && !isSelected && 'border-border opacity-60'
+                )}
+              >
+                <span className="font-mono font-bold">{letter}</span>
+                <span>{question.options[letter]}</span>
+              </button>
+            );
+          })}
+        </div>
+
+        {answered && (
+          <div className="mt-4 space-y-2" aria-live="polite">
+            <p className={cn('flex items-center gap-2 text-sm font-semibold', isCorrect ? 'text-success' : 'text-destructive')}>
+              {isCorrect ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+              {isCorrect ? 'Correct!' : `Not quite. The answer is ${question.correctAnswer}.`}
+            </p>
+            {question.explanation && (
+              <MarkdownText text={question.explanation} className="rounded-lg bg-secondary/40 p-3" />
+            )}
+          </div>
+        )}
+
+        <footer className="mt-4 flex items-center justify-between border-t border-border pt-3 text-xs text-muted-foreground">
+          <span>A new question every day</span>
+          <a
+            href={questionUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 font-medium text-primary hover:underline"
+          >
+            Study free at Open Ham Prep
+            <ExternalLink className="w-3 h-3" aria-hidden="true" />
+          </a>
+        </footer>
+      </article>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { classroomService } from './classroomService';
+
+// Chainable Supabase mock. Each awaited query takes the next queued result.
+let mockResults: { data?: unknown; error: unknown }[];
+
+const chain: Record<string, ReturnType<typeof vi.fn>> & {
+  then?: (resolve: (v: unknown) => void) => void;
+} = {} as never;
+
+const mockFrom = vi.fn<(table: string) => typeof chain>(() => chain);
+const mockRpc = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: (table: string) => mockFrom(table),
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  },
+}));
+
+function buildChain() {
+  const methods = ['select', 'insert', 'delete', 'eq', 'in', 'order', 'single'];
+
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+
+  chain.then = (resolve: (v: unknown) => void) =>
+    resolve(mockResults.shift() ?? { data: null, error: null });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockResults = [];
+  buildChain();
+});
+
+const userId = 'user-123';
+const dbError = { message: 'permission denied', code: '42501', details: '', hint: '' };
+
+describe('ClassroomService', () => {
+  describe('isInstructor', () => {
+    it('is true when the user has the instructor or admin role', async () => {
+      mockResults = [{ data: [{ role: 'instructor' }], error: null }];
+
+      const result = await classroomService.isInstructor(userId);
+
+      expect(result).toEqual({ success: true, data: true });
+      expect(mockFrom).toHaveBeenCalledWith('user_roles');
+      expect(chain.in).toHaveBeenCalledWith('role', ['instructor', 'admin']);
+    });
+
+    it('is false without either role', async () => {
+      mockResults = [{ data: [], error: null }];
+
+      const result = await classroomService.isInstructor(userId);
+
+      expect(result).toEqual({ success: true, data: false });
+    });
+  });
+
+  describe('getInstructorClassrooms', () => {
+    it('flattens the member count into student_count', async () => {
+      mockResults = [
+        {
+          data: [
+            { id: 'c1', name: 'Fall Tech', classroom_members: [{ count: 12 }] },
+            { id: 'c2', name: 'General', classroom_members: [] },
+          ],
+          error: null,
+        },
+      ];
+
+      const result = await classroomService.getInstructorClassrooms(userId);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual([
+          { id: 'c1', name: 'Fall Tech', student_count: 12 },
+          { id: 'c2', name: 'General', student_count: 0 },
+        ]);
+      }
+      expect(chain.eq).toHaveBeenCalledWith('instructor_id', userId);
+    });
+
+    it('requires a user id', async () => {
+      const result = await classroomService.getInstructorClassrooms('');
+
+      expect(result.success).toBe(false);
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createClassroom', () => {
+    it('inserts a trimmed name for the instructor', async () => {
+      const created = { id: 'c1', name: 'Fall Tech', join_code: 'ABC234' };
+      mockResults = [{ data: created, error: null }];
+
+      const result = await classroomService.createClassroom(userId, '  Fall Tech  ', 'technician');
+
+      expect(result).toEqual({ success: true, data: created });
+      expect(chain.insert).toHaveBeenCalledWith({
+        instructor_id: userId,
+        name: 'Fall Tech',
+        exam_type: 'technician',
+      });
+    });
+
+    it('rejects a blank name', async () => {
+      const result = await classroomService.createClassroom(userId, '   ', 'technician');
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.code).toBe('VALIDATION_ERROR');
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it('maps permission errors for non-instructors', async () => {
+      mockResults = [{ data: null, error: dbError }];
+
+      const result = await classroomService.createClassroom(userId, 'Fall Tech', 'technician');
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.code).toBe('FORBIDDEN');
+    });
+  });
+
+  describe('getRoster', () => {
+    it('calls the roster RPC', async () => {
+      const roster = [{ user_id: 's1', display_name: 'Sam', readiness_score: 72 }];
+      mockRpc.mockResolvedValue({ data: roster, error: null });
+
+      const result = await classroomService.getRoster('c1');
+
+      expect(result).toEqual({ success: true, data: roster });
+      expect(mockRpc).toHaveBeenCalledWith('get_classroom_roster', { p_classroom_id: 'c1' });
+    });
+
+    it('returns an empty roster when there are no students', async () => {
+      mockRpc.mockResolvedValue({ data: null, error: null });
+
+      const result = await classroomService.getRoster('c1');
+
+      expect(result).toEqual({ success: true, data: [] });
+    });
+  });
+
+  describe('getStudentTests', () => {
+    it('passes the classroom and student to the RPC', async () => {
+      mockRpc.mockResolvedValue({ data: [], error: null });
+
+      await classroomService.getStudentTests('c1', 's1');
+
+      expect(mockRpc).toHaveBeenCalledWith('get_classroom_student_tests', {
+        p_classroom_id: 'c1',
+        p_user_id: 's1',
+      });
+    });
+  });
+
+  describe('createAssignment', () => {
+    it('stores a lesson assignment', async () => {
+      mockResults = [{ error: null }];
+
+      const result = await classroomService.createAssignment('c1', { lessonId: 'l1' }, '2026-10-25');
+
+      expect(result.success).toBe(true);
+      expect(mockFrom).toHaveBeenCalledWith('classroom_assignments');
+      expect(chain.insert).toHaveBeenCalledWith({
+        classroom_id: 'c1',
+        lesson_id: 'l1',
+        topic_id: null,
+        due_date: '2026-10-25',
+      });
+    });
+
+    it('stores a topic assignment', async () => {
+      mockResults = [{ error: null }];
+
+      await classroomService.createAssignment('c1', { topicId: 't1' }, '2026-10-25');
+
+      expect(chain.insert).toHaveBeenCalledWith(
+        expect.objectContaining({ lesson_id: null, topic_id: 't1' })
+      );
+    });
+  });
+
+  describe('getStudentClassrooms', () => {
+    it('flattens memberships and skips classrooms that are gone', async () => {
+      mockResults = [
+        {
+          data: [
+            { joined_at: '2026-10-01T00:00:00Z', classroom: { id: 'c1', name: 'Fall Tech', exam_type: 'technician' } },
+            { joined_at: '2026-10-02T00:00:00Z', classroom: null },
+          ],
+          error: null,
+        },
+      ];
+
+      const result = await classroomService.getStudentClassrooms(userId);
+
+      expect(result).toEqual({
+        success: true,
+        data: [{ id: 'c1', name: 'Fall Tech', exam_type: 'technician', joined_at: '2026-10-01T00:00:00Z' }],
+      });
+    });
+  });
+
+  describe('joinClassroom', () => {
+    it('returns the joined classroom id', async () => {
+      mockRpc.mockResolvedValue({ data: 'c1', error: null });
+
+      const result = await classroomService.joinClassroom('ABC234');
+
+      expect(result).toEqual({ success: true, data: 'c1' });
+      expect(mockRpc).toHaveBeenCalledWith('join_classroom', { p_join_code: 'ABC234' });
+    });
+
+    it('reports an unknown code as not found', async () => {
+      mockRpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Classroom not found', code: 'P0002', details: '', hint: '' },
+      });
+
+      const result = await classroomService.joinClassroom('ZZZZZZ');
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.code).toBe('NOT_FOUND');
+    });
+  });
+
+  describe('leaveClassroom', () => {
+    it('deletes the membership for the current user', async () => {
+      mockResults = [{ error: null }];
+
+      const result = await classroomService.leaveClassroom(userId, 'c1');
+
+      expect(result.success).toBe(true);
+      expect(mockFrom).toHaveBeenCalledWith('classroom_members');
+      expect(chain.eq).toHaveBeenCalledWith('classroom_id', 'c1');
+      expect(chain.eq).toHaveBeenCalledWith('user_id', userId);
+    });
+  });
+
+  describe('getStudentAssignments', () => {
+    it('skips the query when the user is in no classrooms', async () => {
+      const result = await classroomService.getStudentAssignments([]);
+
+      expect(result).toEqual({ success: true, data: [] });
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it('fetches assignments across classrooms', async () => {
+      const assignments = [{ id: 'a1', classroom_id: 'c1', due_date: '2026-10-25' }];
+      mockResults = [{ data: assignments, error: null }];
+
+      const result = await classroomService.getStudentAssignments(['c1', 'c2']);
+
+      expect(result).toEqual({ success: true, data: assignments });
+      expect(chain.in).toHaveBeenCalledWith('classroom_id', ['c1', 'c2']);
+    });
+  });
+});
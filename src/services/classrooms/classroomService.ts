@@ -0,0 +1,346 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ServiceBase } from '../shared/serviceBase';
+import { ServiceResult, failure, success } from '../types';
+import type { SubelementMetric } from '../readiness/readinessService';
+import type { LicenseType } from '../examSessions/examSessionService';
+
+// ---------------------------------------------------------------------------
+// Domain types (exported for consumers)
+// ---------------------------------------------------------------------------
+
+export interface Classroom {
+  id: string;
+  name: string;
+  exam_type: LicenseType;
+  join_code: string;
+  created_at: string;
+}
+
+/** A classroom the instructor runs, with its enrollment count */
+export interface InstructorClassroom extends Classroom {
+  student_count: number;
+}
+
+/** A classroom the student has joined (join code isn't needed once in) */
+export interface StudentClassroom {
+  id: string;
+  name: string;
+  exam_type: LicenseType;
+  joined_at: string;
+}
+
+export interface AssignmentContent {
+  id: string;
+  slug: string;
+  title: string;
+}
+
+export interface ClassroomAssignment {
+  id: string;
+  classroom_id: string;
+  due_date: string;
+  /** Null when the lesson/topic isn't visible to the reader (e.g. unpublished) */
+  lesson: AssignmentContent | null;
+  topic: AssignmentContent | null;
+}
+
+/** An assignment as the student sees it, labelled with its classroom */
+export interface StudentAssignment extends ClassroomAssignment {
+  classroom: { name: string } | null;
+}
+
+export type AssignmentTargetInput = { lessonId: string } | { topicId: string };
+
+/** One student on an instructor's roster (get_classroom_roster) */
+export interface RosterStudent {
+  user_id: string;
+  display_name: string | null;
+  joined_at: string;
+  readiness_score: number | null;
+  pass_probability: number | null;
+  coverage: number | null;
+  recent_accuracy: number | null;
+  subelement_metrics: Record<string, SubelementMetric> | null;
+  last_study_at: string | null;
+  tests_taken: number;
+  tests_passed: number;
+  last_test_at: string | null;
+}
+
+export interface StudentTestResult {
+  id: string;
+  score: number;
+  total_questions: number;
+  percentage: number;
+  passed: boolean;
+  completed_at: string;
+}
+
+const CLASSROOM_SELECT = 'id, name, exam_type, join_code, created_at';
+
+const ASSIGNMENT_SELECT =
+  'id, classroom_id, due_date, lesson:lessons(id, slug, title), topic:topics(id, slug, title)';
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+class ClassroomService extends ServiceBase {
+  /**
+   * Whether the user may create classrooms (instructors and admins).
+   */
+  async isInstructor(userId: string): Promise<ServiceResult<boolean>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    const roles = await this.handleQueryAllowEmpty(
+      () =>
+        supabase
+          .from('user_roles')
+          .select('role')
+          .eq('user_id', userId)
+          .in('role', ['instructor', 'admin']),
+      [],
+      'Failed to check instructor role'
+    );
+    if (!roles.success) return roles;
+
+    return success(roles.data.length > 0);
+  }
+
+  // -------------------------------------------------------------------------
+  // Instructor
+  // -------------------------------------------------------------------------
+
+  async getInstructorClassrooms(userId: string): Promise<ServiceResult<InstructorClassroom[]>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    const classrooms = await this.handleQueryAllowEmpty(
+      async () => {
+        const { data, error } = await supabase
+          .from('classrooms')
+          .select(`${CLASSROOM_SELECT}, classroom_members(count)`)
+          .eq('instructor_id', userId)
+          .order('created_at', { ascending: false });
+
+        return {
+          data: data as (Classroom & { classroom_members: { count: number }[] })[] | null,
+          error,
+        };
+      },
+      [],
+      'Failed to fetch classrooms'
+    );
+    if (!classrooms.success) return classrooms;
+
+    return success(
+      classrooms.data.map(({ classroom_members, ...classroom }) => ({
+        ...classroom,
+        student_count: classroom_members[0]?.count ?? 0,
+      }))
+    );
+  }
+
+  async createClassroom(
+    userId: string,
+    name: string,
+    examType: LicenseType
+  ): Promise<ServiceResult<Classroom>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return failure('VALIDATION_ERROR', 'Classroom name is required');
+    }
+
+    return this.handleMutation(
+      async () => {
+        const { data, error } = await supabase
+          .from('classrooms')
+          .insert({ instructor_id: userId, name: trimmed, exam_type: examType })
+          .select(CLASSROOM_SELECT)
+          .single();
+
+        return { data: data as Classroom | null, error };
+      },
+      'Failed to create classroom'
+    );
+  }
+
+  async deleteClassroom(classroomId: string): Promise<ServiceResult<void>> {
+    return this.handleVoidMutation(
+      () => supabase.from('classrooms').delete().eq('id', classroomId),
+      'Failed to delete classroom'
+    );
+  }
+
+  /**
+   * Students with their readiness for the classroom's exam.
+   * Only the classroom's instructor can read it.
+   */
+  async getRoster(classroomId: string): Promise<ServiceResult<RosterStudent[]>> {
+    return this.handleQueryAllowEmpty(
+      async () => {
+        const { data, error } = await supabase.rpc('get_classroom_roster', {
+          p_classroom_id: classroomId,
+        });
+
+        // subelement_metrics comes back as untyped JSON
+        return { data: data as unknown as RosterStudent[] | null, error };
+      },
+      [],
+      'Failed to fetch classroom roster'
+    );
+  }
+
+  /**
+   * A student's recent practice tests for the classroom's exam, newest first.
+   */
+  async getStudentTests(
+    classroomId: string,
+    studentId: string
+  ): Promise<ServiceResult<StudentTestResult[]>> {
+    return this.handleQueryAllowEmpty(
+      async () => {
+        const { data, error } = await supabase.rpc('get_classroom_student_tests', {
+          p_classroom_id: classroomId,
+          p_user_id: studentId,
+        });
+
+        return { data, error };
+      },
+      [],
+      'Failed to fetch practice tests'
+    );
+  }
+
+  async removeStudent(classroomId: string, studentId: string): Promise<ServiceResult<void>> {
+    return this.handleVoidMutation(
+      () =>
+        supabase
+          .from('classroom_members')
+          .delete()
+          .eq('classroom_id', classroomId)
+          .eq('user_id', studentId),
+      'Failed to remove student'
+    );
+  }
+
+  async getAssignments(classroomId: string): Promise<ServiceResult<ClassroomAssignment[]>> {
+    return this.handleQueryAllowEmpty(
+      async () => {
+        const { data, error } = await supabase
+          .from('classroom_assignments')
+          .select(ASSIGNMENT_SELECT)
+          .eq('classroom_id', classroomId)
+          .order('due_date', { ascending: true });
+
+        return { data: data as ClassroomAssignment[] | null, error };
+      },
+      [],
+      'Failed to fetch assignments'
+    );
+  }
+
+  async createAssignment(
+    classroomId: string,
+    target: AssignmentTargetInput,
+    dueDate: string
+  ): Promise<ServiceResult<void>> {
+    return this.handleVoidMutation(
+      () =>
+        supabase.from('classroom_assignments').insert({
+          classroom_id: classroomId,
+          lesson_id: 'lessonId' in target ? target.lessonId : null,
+          topic_id: 'topicId' in target ? target.topicId : null,
+          due_date: dueDate,
+        }),
+      'Failed to create assignment'
+    );
+  }
+
+  async deleteAssignment(assignmentId: string): Promise<ServiceResult<void>> {
+    return this.handleVoidMutation(
+      () => supabase.from('classroom_assignments').delete().eq('id', assignmentId),
+      'Failed to delete assignment'
+    );
+  }
+
+  // -------------------------------------------------------------------------
+  // Student
+  // -------------------------------------------------------------------------
+
+  async getStudentClassrooms(userId: string): Promise<ServiceResult<StudentClassroom[]>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    const memberships = await this.handleQueryAllowEmpty(
+      async () => {
+        const { data, error } = await supabase
+          .from('classroom_members')
+          .select('joined_at, classroom:classrooms(id, name, exam_type)')
+          .eq('user_id', userId)
+          .order('joined_at', { ascending: true });
+
+        return {
+          data: data as { joined_at: string; classroom: Omit<StudentClassroom, 'joined_at'> | null }[] | null,
+          error,
+        };
+      },
+      [],
+      'Failed to fetch your classrooms'
+    );
+    if (!memberships.success) return memberships;
+
+    return success(
+      memberships.data
+        .filter((m) => m.classroom !== null)
+        .map((m) => ({ ...m.classroom!, joined_at: m.joined_at }))
+    );
+  }
+
+  /**
+   * Join the classroom with this code. Returns the classroom id.
+   */
+  async joinClassroom(joinCode: string): Promise<ServiceResult<string>> {
+    return this.handleMutation(
+      async () => {
+        const { data, error } = await supabase.rpc('join_classroom', { p_join_code: joinCode });
+        return { data, error };
+      },
+      'Failed to join classroom'
+    );
+  }
+
+  async leaveClassroom(userId: string, classroomId: string): Promise<ServiceResult<void>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    return this.removeStudent(classroomId, userId);
+  }
+
+  /**
+   * Assignments across the given classrooms, soonest due first.
+   */
+  async getStudentAssignments(classroomIds: string[]): Promise<ServiceResult<StudentAssignment[]>> {
+    if (classroomIds.length === 0) return success([]);
+
+    return this.handleQueryAllowEmpty(
+      async () => {
+        const { data, error } = await supabase
+          .from('classroom_assignments')
+          .select(`${ASSIGNMENT_SELECT}, classroom:classrooms(name)`)
+          .in('classroom_id', classroomIds)
+          .order('due_date', { ascending: true });
+
+        return { data: data as StudentAssignment[] | null, error };
+      },
+      [],
+      'Failed to fetch assignments'
+    );
+  }
+}
+
+export const classroomService = new ClassroomService();
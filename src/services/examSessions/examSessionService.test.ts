@@ -0,0 +1,349 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { examSessionService } from './examSessionService';
+
+// Chainable Supabase mock. Each awaited query takes the next queued result.
+let mockResults: { data?: unknown; error: unknown }[];
+
+const chain: Record<string, ReturnType<typeof vi.fn>> & {
+  then?: (resolve: (v: unknown) => void) => void;
+} = {} as never;
+
+const mockFrom = vi.fn<(table: string) => typeof chain>(() => chain);
+const mockRpc = vi.fn<(fn: string, args: unknown) => typeof chain>(() => chain);
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: (table: string) => mockFrom(table),
+    rpc: (fn: string, args: unknown) => mockRpc(fn, args),
+  },
+}));
+
+const mockGeocodeZip = vi.hoisted(() => vi.fn());
+
+vi.mock('@/lib/mapboxGeocoding', () => ({
+  geocodeZip: (zip: string) => mockGeocodeZip(zip),
+}));
+
+function buildChain() {
+  const methods = [
+    'select', 'insert', 'update', 'upsert', 'delete',
+    'eq', 'in', 'is', 'not', 'like', 'gt', 'gte', 'lt', 'lte', 'order', 'limit', 'maybeSingle',
+  ];
+
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+
+  chain.then = (resolve: (v: unknown) => void) =>
+    resolve(mockResults.shift() ?? { data: null, error: null });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockResults = [];
+  mockGeocodeZip.mockResolvedValue(null);
+  buildChain();
+});
+
+const userId = 'user-123';
+const dbError = { message: 'permission denied', code: '42501', details: '', hint: '' };
+
+describe('ExamSessionService', () => {
+  describe('searchSessions', () => {
+    const params = {
+      origin: { latitude: 35.78, longitude: -78.64 },
+      radiusMiles: 25,
+      fromDate: '2026-10-18',
+      toDate: '2027-01-18',
+    };
+
+    it('queries by date range and bounding box', async () => {
+      const sessions = [{ id: 's1', exam_date: '2026-11-07' }];
+      mockResults = [{ data: sessions, error: null }];
+
+      const result = await examSessionService.searchSessions(params);
+
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.data).toEqual(sessions);
+      expect(mockFrom).toHaveBeenCalledWith('exam_sessions');
+      expect(chain.gte).toHaveBeenCalledWith('exam_date', '2026-10-18');
+      expect(chain.lte).toHaveBeenCalledWith('exam_date', '2027-01-18');
+
+      const [, minLat] = chain.gte.mock.calls.find(([col]) => col === 'latitude')!;
+      const [, maxLat] = chain.lte.mock.calls.find(([col]) => col === 'latitude')!;
+      expect(minLat).toBeLessThan(35.78);
+      expect(maxLat).toBeGreaterThan(35.78);
+    });
+
+    it('returns an empty list when nothing matches', async () => {
+      mockResults = [{ data: null, error: null }];
+
+      const result = await examSessionService.searchSessions(params);
+
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.data).toEqual([]);
+    });
+  });
+
+  describe('resolveZipCoordinates', () => {
+    it('uses the Mapbox ZIP centroid when there is one', async () => {
+      mockGeocodeZip.mockResolvedValue({ latitude: 35.77, longitude: -78.64 });
+
+      const result = await examSessionService.resolveZipCoordinates('27601-1234');
+
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.data).toEqual({ latitude: 35.77, longitude: -78.64 });
+      expect(mockGeocodeZip).toHaveBeenCalledWith('27601');
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it('averages sessions in the same ZIP code without a centroid', async () => {
+      mockResults = [{
+        data: [
+          { latitude: 35.0, longitude: -78.0 },
+          { latitude: 36.0, longitude: -79.0 },
+        ],
+        error: null,
+      }];
+
+      const result = await examSessionService.resolveZipCoordinates('27601');
+
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.data).toEqual({ latitude: 35.5, longitude: -78.5 });
+      expect(chain.like).toHaveBeenCalledWith('zip', '27601%');
+    });
+
+    it('falls back to the 3-digit ZIP prefix', async () => {
+      mockResults = [
+        { data: [], error: null },
+        { data: [{ latitude: 35.9, longitude: -78.9 }], error: null },
+      ];
+
+      const result = await examSessionService.resolveZipCoordinates('27699-1234');
+
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.data).toEqual({ latitude: 35.9, longitude: -78.9 });
+      expect(chain.like).toHaveBeenLastCalledWith('zip', '276%');
+    });
+
+    it('returns NOT_FOUND when no sessions are nearby', async () => {
+      mockResults = [{ data: [], error: null }, { data: [], error: null }];
+
+      const result = await examSessionService.resolveZipCoordinates('99950');
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.code).toBe('NOT_FOUND');
+    });
+
+    it('returns failure on database error', async () => {
+      mockResults = [{ data: null, error: dbError }];
+
+      const result = await examSessionService.resolveZipCoordinates('27601');
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.code).toBe('FORBIDDEN');
+    });
+  });
+
+  describe('getTargetExam', () => {
+    it('returns the target exam with its session', async () => {
+      const target = {
+        id: 't1',
+        user_id: userId,
+        exam_session_id: 's1',
+        custom_exam_date: null,
+        exam_session: { id: 's1', exam_date: '2026-11-07' },
+      };
+      mockResults = [{ data: target, error: null }];
+
+      const result = await examSessionService.getTargetExam(userId);
+
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.data).toEqual(target);
+      expect(mockFrom).toHaveBeenCalledWith('user_target_exam');
+    });
+
+    it('returns null when the learner has no target exam', async () => {
+      const result = await examSessionService.getTargetExam(userId);
+
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.data).toBeNull();
+    });
+
+    it('returns AUTH_REQUIRED when userId is empty', async () => {
+      const result = await examSessionService.getTargetExam('');
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.code).toBe('AUTH_REQUIRED');
+    });
+  });
+
+  describe('linkSession', () => {
+    const session = { id: 'session-1' };
+
+    it('links the session in one RPC call', async () => {
+      const result = await examSessionService.linkSession(userId, session, 'technician');
+
+      expect(result.success).toBe(true);
+      expect(mockRpc).toHaveBeenCalledWith('link_exam_session', {
+        p_session_id: 'session-1',
+        p_target_license: 'technician',
+      });
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it('returns the error when the RPC fails', async () => {
+      mockResults = [{ error: dbError }];
+
+      const result = await examSessionService.linkSession(userId, session, 'general');
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.code).toBe('FORBIDDEN');
+    });
+
+    it('returns AUTH_REQUIRED when userId is empty', async () => {
+      const result = await examSessionService.linkSession('', session, 'technician');
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.code).toBe('AUTH_REQUIRED');
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getPendingOutcomes', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date(2026, 9, 18, 12, 0));
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const customTarget = {
+      id: 'target-1',
+      user_id: userId,
+      exam_session_id: null,
+      custom_exam_date: '2026-10-10',
+      study_intensity: 'moderate',
+      target_license: 'general',
+      exam_session: null,
+    };
+
+    it('returns past attempts without an outcome', async () => {
+      mockResults = [
+        {
+          data: [
+            { exam_date: '2026-09-12', target_license: 'technician', exam_session_id: 's0', outcome: 'passed' },
+            { exam_date: '2026-10-03', target_license: 'general', exam_session_id: 's1', outcome: null },
+          ],
+          error: null,
+        },
+        { data: null, error: null },
+      ];
+
+      const result = await examSessionService.getPendingOutcomes(userId);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual([
+          { exam_date: '2026-10-03', target_license: 'general', exam_session_id: 's1' },
+        ]);
+      }
+      expect(chain.lt).toHaveBeenCalledWith('exam_date', '2026-10-18');
+    });
+
+    it('includes a past custom exam date that has no attempt yet', async () => {
+      mockResults = [
+        { data: [{ exam_date: '2026-10-03', target_license: 'technician', exam_session_id: 's1', outcome: null }], error: null },
+        { data: customTarget, error: null },
+      ];
+
+      const result = await examSessionService.getPendingOutcomes(userId);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual([
+          { exam_date: '2026-10-03', target_license: 'technician', exam_session_id: 's1' },
+          { exam_date: '2026-10-10', target_license: 'general', exam_session_id: null },
+        ]);
+      }
+    });
+
+    it('skips a custom exam date that was already reported', async () => {
+      mockResults = [
+        { data: [{ exam_date: '2026-10-10', target_license: 'general', exam_session_id: null, outcome: 'failed' }], error: null },
+        { data: customTarget, error: null },
+      ];
+
+      const result = await examSessionService.getPendingOutcomes(userId);
+
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.data).toEqual([]);
+    });
+
+    it('skips a custom exam date without a target license', async () => {
+      mockResults = [
+        { data: [], error: null },
+        { data: { ...customTarget, target_license: null }, error: null },
+      ];
+
+      const result = await examSessionService.getPendingOutcomes(userId);
+
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.data).toEqual([]);
+    });
+
+    it('returns failure when attempts cannot be read', async () => {
+      mockResults = [{ data: null, error: dbError }];
+
+      const result = await examSessionService.getPendingOutcomes(userId);
+
+      expect(result.success).toBe(false);
+      expect(mockFrom).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('recordOutcome', () => {
+    const report = {
+      exam_date: '2026-10-03',
+      target_license: 'general' as const,
+      exam_session_id: 's1',
+      outcome: 'passed' as const,
+      score: 30,
+      total_questions: 35,
+    };
+
+    it('saves the outcome and counts earlier exams for the element', async () => {
+      mockResults = [{ error: null }, { data: [{ id: 'a0' }], error: null }];
+
+      const result = await examSessionService.recordOutcome(userId, report);
+
+      expect(result.success).toBe(true);
+      if (result.success) expect(result.data).toEqual({ attemptNumber: 2 });
+      expect(chain.upsert).toHaveBeenCalledWith(
+        { user_id: userId, ...report },
+        { onConflict: 'user_id,exam_date,target_license' }
+      );
+      expect(chain.in).toHaveBeenCalledWith('outcome', ['passed', 'failed']);
+      expect(chain.lt).toHaveBeenCalledWith('exam_date', '2026-10-03');
+    });
+
+    it('returns failure without counting when the save fails', async () => {
+      mockResults = [{ error: dbError }];
+
+      const result = await examSessionService.recordOutcome(userId, report);
+
+      expect(result.success).toBe(false);
+      expect(mockFrom).toHaveBeenCalledTimes(1);
+    });
+
+    it('returns AUTH_REQUIRED when userId is empty', async () => {
+      const result = await examSessionService.recordOutcome('', report);
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.code).toBe('AUTH_REQUIRED');
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ServiceBase } from '../shared/serviceBase';
+import { ServiceResult, failure, success } from '../types';
+import { getBoundingBox, Coordinates } from '@/lib/examSessionSearch';
+import { geocodeZip } from '@/lib/mapboxGeocoding';
+import { toDateKey } from '@/lib/poolConfig';
+
+// ---------------------------------------------------------------------------
+// Domain types (exported for consumers)
+// ---------------------------------------------------------------------------
+
+export type LicenseType = 'technician' | 'general' | 'extra';
+
+export interface ExamSession {
+  id: string;
+  title: string | null;
+  exam_date: string;
+  exam_time: string | null;
+  location_name: string | null;
+  address: string | null;
+  address_2: string | null;
+  address_3: string | null;
+  city: string;
+  state: string;
+  zip: string;
+  latitude: number | null;
+  longitude: number | null;
+  sponsor: string | null;
+  vec: string | null;
+  walk_ins_allowed: boolean | null;
+  public_contact: string | null;
+  phone: string | null;
+  email: string | null;
+}
+
+export interface TargetExam {
+  id: string;
+  user_id: string;
+  exam_session_id: string | null;
+  custom_exam_date: string | null;
+  study_intensity: string;
+  target_license: LicenseType | null;
+  exam_session: ExamSession | null;
+}
+
+/** A past exam the learner hasn't told us the result of yet */
+export interface PendingExamOutcome {
+  exam_date: string;
+  target_license: LicenseType;
+  exam_session_id: string | null;
+}
+
+export type ExamOutcome = 'passed' | 'failed' | 'skipped';
+
+export interface ExamOutcomeReport extends PendingExamOutcome {
+  outcome: ExamOutcome;
+  /** Questions answered correctly, if the learner knows it */
+  score: number | null;
+  total_questions: number | null;
+}
+
+export interface SessionSearchParams {
+  origin: Coordinates;
+  radiusMiles: number;
+  /** Inclusive YYYY-MM-DD bounds */
+  fromDate: string;
+  toDate: string;
+}
+
+/** Upper bound on rows per search; a 250-mile radius over a few months stays well below it */
+const MAX_SEARCH_RESULTS = 1000;
+
+const SESSION_SELECT =
+  'id, title, exam_date, exam_time, location_name, address, address_2, address_3, city, state, zip, latitude, longitude, sponsor, vec, walk_ins_allowed, public_contact, phone, email';
+
+// ---------------------------------------------------------------------------
+// Service
+// ---------------------------------------------------------------------------
+
+class ExamSessionService extends ServiceBase {
+  /**
+   * Fetch sessions in a date range whose coordinates fall inside the
+   * bounding box of the search radius. Exact distance filtering happens in
+   * filterExamSessions.
+   */
+  async searchSessions(params: SessionSearchParams): Promise<ServiceResult<ExamSession[]>> {
+    const box = getBoundingBox(params.origin, params.radiusMiles);
+
+    return this.handleQueryAllowEmpty(
+      () =>
+        supabase
+          .from('exam_sessions')
+          .select(SESSION_SELECT)
+          .gte('exam_date', params.fromDate)
+          .lte('exam_date', params.toDate)
+          .gte('latitude', box.minLatitude)
+          .lte('latitude', box.maxLatitude)
+          .gte('longitude', box.minLongitude)
+          .lte('longitude', box.maxLongitude)
+          .order('exam_date', { ascending: true })
+          .limit(MAX_SEARCH_RESULTS),
+      [],
+      'Failed to search exam sessions'
+    );
+  }
+
+  /**
+   * Coordinates for a ZIP code.
+   *
+   * Geocodes the ZIP centroid with Mapbox. When Mapbox is not configured, the
+   * learner lookup quota is used up, or the ZIP isn't found, averages geocoded
+   * sessions in the same ZIP, then the same 3-digit ZIP prefix (sectional
+   * center).
+   */
+  async resolveZipCoordinates(zip: string): Promise<ServiceResult<Coordinates>> {
+    const zip5 = zip.trim().slice(0, 5);
+
+    const centroid = await geocodeZip(zip5);
+    if (centroid) return success(centroid);
+
+    for (const pattern of [`${zip5}%`, `${zip5.slice(0, 3)}%`]) {
+      try {
+        const { data, error } = await supabase
+          .from('exam_sessions')
+          .select('latitude, longitude')
+          .like('zip', pattern)
+          .not('latitude', 'is', null)
+          .not('longitude', 'is', null)
+          .limit(200);
+
+        if (error) {
+          return { success: false, error: this.normalizePostgrestError(error, 'Failed to look up ZIP code') };
+        }
+
+        const points = (data ?? []) as Coordinates[];
+        if (points.length > 0) {
+          return success({
+            latitude: points.reduce((sum, p) => sum + p.latitude, 0) / points.length,
+            longitude: points.reduce((sum, p) => sum + p.longitude, 0) / points.length,
+          });
+        }
+      } catch (error) {
+        return { success: false, error: this.normalizeError(error, 'Failed to look up ZIP code') };
+      }
+    }
+
+    return failure('NOT_FOUND', `No exam sessions found near ZIP code ${zip5}`);
+  }
+
+  /**
+   * Fetch the learner's target exam with its linked session, if any.
+   */
+  async getTargetExam(userId: string): Promise<ServiceResult<TargetExam | null>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    return this.handleQueryAllowEmpty(
+      async () => {
+        const { data, error } = await supabase
+          .from('user_target_exam')
+          .select(`id, user_id, exam_session_id, custom_exam_date, study_intensity, target_license, exam_session:exam_sessions(${SESSION_SELECT})`)
+          .eq('user_id', userId)
+          .maybeSingle();
+
+        return { data: data as TargetExam | null, error };
+      },
+      null,
+      'Failed to fetch target exam'
+    );
+  }
+
+  /**
+   * Make a session the learner's exam.
+   *
+   * The link_exam_session RPC replaces any upcoming exam_attempts row for the
+   * license that has no outcome yet, records the session's attempt, and points
+   * user_target_exam at the session so the readiness countdown uses its date.
+   * It runs in one transaction, so the two tables never disagree.
+   */
+  async linkSession(
+    userId: string,
+    session: Pick<ExamSession, 'id'>,
+    targetLicense: LicenseType
+  ): Promise<ServiceResult<void>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    return this.handleVoidMutation(
+      () =>
+        supabase.rpc('link_exam_session', {
+          p_session_id: session.id,
+          p_target_license: targetLicense,
+        }),
+      'Failed to link exam session'
+    );
+  }
+
+  /**
+   * Past exams still waiting for an outcome.
+   *
+   * Includes exam_attempts rows with no outcome and a past custom exam date
+   * on the target exam, which never gets an exam_attempts row until the
+   * learner reports it. Custom dates without a target license are skipped
+   * because we can't tell which element was taken.
+   */
+  async getPendingOutcomes(userId: string): Promise<ServiceResult<PendingExamOutcome[]>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    const today = toDateKey(new Date());
+
+    const attempts = await this.handleQueryAllowEmpty(
+      async () => {
+        const { data, error } = await supabase
+          .from('exam_attempts')
+          .select('exam_date, target_license, exam_session_id, outcome')
+          .eq('user_id', userId)
+          .lt('exam_date', today)
+          .order('exam_date', { ascending: true });
+
+        return { data: data as (PendingExamOutcome & { outcome: ExamOutcome | null })[] | null, error };
+      },
+      [],
+      'Failed to fetch exam attempts'
+    );
+    if (!attempts.success) return attempts;
+
+    const target = await this.getTargetExam(userId);
+    if (!target.success) return target;
+
+    const pending: PendingExamOutcome[] = attempts.data
+      .filter((attempt) => attempt.outcome === null)
+      .map(({ exam_date, target_license, exam_session_id }) => ({ exam_date, target_license, exam_session_id }));
+
+    const custom = target.data;
+    if (
+      custom?.custom_exam_date &&
+      !custom.exam_session_id &&
+      custom.target_license &&
+      custom.custom_exam_date < today &&
+      !attempts.data.some(
+        (attempt) =>
+          attempt.exam_date === custom.custom_exam_date && attempt.target_license === custom.target_license
+      )
+    ) {
+      pending.push({
+        exam_date: custom.custom_exam_date,
+        target_license: custom.target_license,
+        exam_session_id: null,
+      });
+      pending.sort((a, b) => a.exam_date.localeCompare(b.exam_date));
+    }
+
+    return success(pending);
+  }
+
+  /**
+   * Save the learner's reported result for one exam element.
+   *
+   * Returns which attempt at this element the exam was, counting earlier
+   * exams the learner actually sat (passed or failed).
+   */
+  async recordOutcome(
+    userId: string,
+    report: ExamOutcomeReport
+  ): Promise<ServiceResult<{ attemptNumber: number }>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    const saved = await this.handleVoidMutation(
+      () =>
+        supabase
+          .from('exam_attempts')
+          .upsert(
+            {
+              user_id: userId,
+              exam_date: report.exam_date,
+              target_license: report.target_license,
+              exam_session_id: report.exam_session_id,
+              outcome: report.outcome,
+              score: report.score,
+              total_questions: report.total_questions,
+            },
+            { onConflict: 'user_id,exam_date,target_license' }
+          ),
+      'Failed to save exam result'
+    );
+    if (!saved.success) return saved;
+
+    const earlier = await this.handleQueryAllowEmpty(
+      () =>
+        supabase
+          .from('exam_attempts')
+          .select('id')
+          .eq('user_id', userId)
+          .eq('target_license', report.target_license)
+          .in('outcome', ['passed', 'failed'])
+          .lt('exam_date', report.exam_date),
+      [],
+      'Failed to count earlier exam attempts'
+    );
+    if (!earlier.success) return earlier;
+
+    return success({ attemptNumber: earlier.data.length + 1 });
+  }
+}
+
+export const examSessionService = new ExamSessionService();
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { figureHotspotService } from './figureHotspotService';
+
+const mockFrom = vi.fn();
+const mockRpc = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...args),
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  },
+}));
+
+const dbRow = (label: string, overrides: Record<string, unknown> = {}) => ({
+  id: `hotspot-${label}`,
+  figure_reference: 'T-1',
+  pool_version: '2022-2026',
+  label,
+  name: `Component ${label}`,
+  description: null,
+  x: '12.50',
+  y: 40,
+  glossary_term: null,
+  ...overrides,
+});
+
+const draft = (label: string, overrides: Record<string, unknown> = {}) => ({
+  label,
+  name: `Component ${label}`,
+  description: '',
+  x: 10,
+  y: 20,
+  glossaryTermId: null,
+  ...overrides,
+});
+
+describe('FigureHotspotService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getByFigure', () => {
+    it('returns a figure\'s hotspots in display order', async () => {
+      const mockOrder = vi.fn().mockResolvedValue({
+        data: [dbRow('1', { glossary_term: { id: 'term-r', term: 'Resistor', definition: 'Opposes current' } })],
+        error: null,
+      });
+      const mockPoolEq = vi.fn().mockReturnValue({ order: mockOrder });
+      const mockEq = vi.fn().mockReturnValue({ eq: mockPoolEq });
+      const mockSelect = vi.fn().mockReturnValue({ eq: mockEq });
+      mockFrom.mockReturnValue({ select: mockSelect });
+
+      const result = await figureHotspotService.getByFigure(' T-1 ', '2022-2026');
+
+      expect(mockFrom).toHaveBeenCalledWith('figure_hotspots');
+      expect(mockEq).toHaveBeenCalledWith('figure_reference', 'T-1');
+      expect(mockPoolEq).toHaveBeenCalledWith('pool_version', '2022-2026');
+      expect(mockOrder).toHaveBeenCalledWith('display_order', { ascending: true });
+      expect(result).toEqual({
+        success: true,
+        data: [
+          {
+            id: 'hotspot-1',
+            figureReference: 'T-1',
+            poolVersion: '2022-2026',
+            label: '1',
+            name: 'Component 1',
+            description: null,
+            x: 12.5,
+            y: 40,
+            glossaryTerm: { id: 'term-r', term: 'Resistor', definition: 'Opposes current' },
+          },
+        ],
+      });
+    });
+
+    it('returns an empty list for figures without hotspots', async () => {
+      mockFrom.mockReturnValue({
+        select: () => ({ eq: () => ({ eq: () => ({ order: () => Promise.resolve({ data: null, error: null }) }) }) }),
+      });
+
+      const result = await figureHotspotService.getByFigure('G7-1', '2023-2027');
+
+      expect(result).toEqual({ success: true, data: [] });
+    });
+  });
+
+  describe('replaceForFigure', () => {
+    beforeEach(() => {
+      mockRpc.mockResolvedValue({ data: [dbRow('1'), dbRow('2')], error: null });
+    });
+
+    it('replaces the figure\'s hotspots in label order in one call', async () => {
+      const result = await figureHotspotService.replaceForFigure(' T-1 ', '2022-2026', [
+        draft('2', { description: '  ', glossaryTermId: 'term-c' }),
+        draft('1', { name: ' Resistor ', description: 'Limits current' }),
+      ]);
+
+      expect(mockRpc).toHaveBeenCalledWith('replace_figure_hotspots', {
+        p_figure_reference: 'T-1',
+        p_pool_version: '2022-2026',
+        p_hotspots: [
+          {
+            label: '1',
+            name: 'Resistor',
+            description: 'Limits current',
+            x: 10,
+            y: 20,
+            glossary_term_id: null,
+            display_order: 0,
+          },
+          {
+            label: '2',
+            name: 'Component 2',
+            description: null,
+            x: 10,
+            y: 20,
+            glossary_term_id: 'term-c',
+            display_order: 1,
+          },
+        ],
+      });
+      expect(mockFrom).not.toHaveBeenCalled();
+      expect(result.success && result.data.map((h) => h.label)).toEqual(['1', '2']);
+    });
+
+    it('clears the figure when there are no hotspots left', async () => {
+      mockRpc.mockResolvedValue({ data: [], error: null });
+
+      const result = await figureHotspotService.replaceForFigure('T-1', '2022-2026', []);
+
+      expect(mockRpc).toHaveBeenCalledWith('replace_figure_hotspots', expect.objectContaining({ p_hotspots: [] }));
+      expect(result).toEqual({ success: true, data: [] });
+    });
+
+    it('reports a failed replace', async () => {
+      mockRpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Only admins can edit figure hotspots', code: '42501', details: '', hint: '' },
+      });
+
+      const result = await figureHotspotService.replaceForFigure('T-1', '2022-2026', [draft('1')]);
+
+      expect(result).toMatchObject({ success: false, error: { code: 'FORBIDDEN' } });
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ServiceBase } from '../shared/serviceBase';
+import { ServiceResult } from '../types';
+import { sortHotspots, type HotspotDraft } from '@/lib/figureHotspots';
+
+export interface FigureHotspot {
+  id: string;
+  figureReference: string;
+  poolVersion: string;
+  label: string;
+  name: string;
+  description: string | null;
+  /** Percent of the image width */
+  x: number;
+  /** Percent of the image height */
+  y: number;
+  glossaryTerm: { id: string; term: string; definition: string } | null;
+}
+
+interface DbHotspot {
+  id: string;
+  figure_reference: string;
+  pool_version: string;
+  label: string;
+  name: string;
+  description: string | null;
+  x: number | string;
+  y: number | string;
+  glossary_term: { id: string; term: string; definition: string } | null;
+}
+
+const HOTSPOT_SELECT =
+  'id, figure_reference, pool_version, label, name, description, x, y, glossary_term:glossary_terms(id, term, definition)';
+
+function toHotspot(row: DbHotspot): FigureHotspot {
+  return {
+    id: row.id,
+    figureReference: row.figure_reference,
+    poolVersion: row.pool_version,
+    label: row.label,
+    name: row.name,
+    description: row.description,
+    // NUMERIC columns can arrive as strings
+    x: Number(row.x),
+    y: Number(row.y),
+    glossaryTerm: row.glossary_term,
+  };
+}
+
+class FigureHotspotService extends ServiceBase {
+  /** Hotspots for a figure such as "T-1" in a pool, shared by every question that uses it */
+  async getByFigure(figureReference: string, poolVersion: string): Promise<ServiceResult<FigureHotspot[]>> {
+    return this.handleQueryAllowEmpty(
+      async () => {
+        const { data, error } = await supabase
+          .from('figure_hotspots')
+          .select(HOTSPOT_SELECT)
+          .eq('figure_reference', figureReference.trim())
+          .eq('pool_version', poolVersion)
+          .order('display_order', { ascending: true });
+
+        return { data: (data as DbHotspot[] | null)?.map(toHotspot) ?? null, error };
+      },
+      [],
+      'Failed to fetch figure hotspots'
+    );
+  }
+
+  /**
+   * Replace a figure's hotspots with the given set, numbered in label order.
+   * The replace runs in one transaction. Returns the saved hotspots.
+   */
+  async replaceForFigure(
+    figureReference: string,
+    poolVersion: string,
+    hotspots: HotspotDraft[]
+  ): Promise<ServiceResult<FigureHotspot[]>> {
+    const rows = sortHotspots(hotspots).map((h, index) => ({
+      label: h.label.trim(),
+      name: h.name.trim(),
+      description: h.description.trim() || null,
+      x: h.x,
+      y: h.y,
+      glossary_term_id: h.glossaryTermId,
+      display_order: index,
+    }));
+
+    return this.handleMutation(
+      async () => {
+        const { data, error } = await supabase.rpc('replace_figure_hotspots', {
+          p_figure_reference: figureReference.trim(),
+          p_pool_version: poolVersion,
+          p_hotspots: rows,
+        });
+
+        return { data: (data as DbHotspot[] | null)?.map(toHotspot) ?? null, error };
+      },
+      'Failed to save figure hotspots'
+    );
+  }
+}
+
+export const figureHotspotService = new FigureHotspotService();
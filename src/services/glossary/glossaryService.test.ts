@@ -22,8 +22,8 @@ describe('GlossaryService', () => {
   describe('getAll', () => {
     it('returns glossary terms on success', async () => {
       const mockTerms = [
-        { id: '1', term: 'Antenna', definition: 'A device for transmitting or receiving radio waves' },
-        { id: '2', term: 'Bandwidth', definition: 'The range of frequencies within a band' },
+        { id: '1', term: 'Antenna', definition: 'A device for transmitting or receiving radio waves', deck_id: null },
+        { id: '2', term: 'QTH', definition: 'What is your location?', deck_id: 'deck-q' },
       ];
 
       mockOrder.mockResolvedValue({ data: mockTerms, error: null });
@@ -35,7 +35,7 @@ describe('GlossaryService', () => {
         expect(result.data).toEqual(mockTerms);
       }
       expect(mockFrom).toHaveBeenCalledWith('glossary_terms');
-      expect(mockSelect).toHaveBeenCalledWith('id, term, definition');
+      expect(mockSelect).toHaveBeenCalledWith('id, term, definition, deck_id');
       expect(mockOrder).toHaveBeenCalledWith('term', { ascending: true });
     });
 
@@ -79,4 +79,102 @@ describe('GlossaryService', () => {
       }
     });
   });
+
+  describe('getDecks', () => {
+    it('returns decks in display order', async () => {
+      const decks = [{ id: 'deck-q', slug: 'q-codes', name: 'Q-Codes', description: null, display_order: 1 }];
+      const mockSecondOrder = vi.fn().mockResolvedValue({ data: decks, error: null });
+      mockOrder.mockReturnValue({ order: mockSecondOrder });
+
+      const result = await glossaryService.getDecks();
+
+      expect(result).toEqual({ success: true, data: decks });
+      expect(mockFrom).toHaveBeenCalledWith('glossary_decks');
+      expect(mockOrder).toHaveBeenCalledWith('display_order', { ascending: true });
+      expect(mockSecondOrder).toHaveBeenCalledWith('name', { ascending: true });
+    });
+  });
+
+  describe('getProgress', () => {
+    it('requires a user', async () => {
+      const result = await glossaryService.getProgress('');
+
+      expect(result.success).toBe(false);
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it('maps progress rows for the user', async () => {
+      const mockEq = vi.fn().mockResolvedValue({
+        data: [{ term_id: 't1', times_seen: 4, times_correct: 3, mastered: true, last_seen_at: '2026-07-01T00:00:00Z' }],
+        error: null,
+      });
+      mockSelect.mockReturnValue({ eq: mockEq });
+
+      const result = await glossaryService.getProgress('user-1');
+
+      expect(mockFrom).toHaveBeenCalledWith('glossary_progress');
+      expect(mockEq).toHaveBeenCalledWith('user_id', 'user-1');
+      expect(result).toEqual({
+        success: true,
+        data: [{ termId: 't1', timesSeen: 4, timesCorrect: 3, mastered: true, lastSeenAt: '2026-07-01T00:00:00Z' }],
+      });
+    });
+  });
+
+  describe('recordAnswers', () => {
+    const mockIn = vi.fn();
+    const mockUpsert = vi.fn();
+
+    beforeEach(() => {
+      mockSelect.mockReturnValue({ eq: () => ({ in: mockIn }) });
+      mockFrom.mockReturnValue({ select: mockSelect, upsert: mockUpsert });
+      mockUpsert.mockReturnValue({
+        select: vi.fn().mockResolvedValue({
+          data: [{ term_id: 't1', times_seen: 3, times_correct: 3, mastered: true, last_seen_at: '2026-07-05T00:00:00Z' }],
+          error: null,
+        }),
+      });
+    });
+
+    it('adds answers to existing rows and creates new ones', async () => {
+      mockIn.mockResolvedValue({
+        data: [{ term_id: 't1', times_seen: 2, times_correct: 2, mastered: false, last_seen_at: null }],
+        error: null,
+      });
+
+      const result = await glossaryService.recordAnswers('user-1', [
+        { termId: 't1', correct: true },
+        { termId: 't2', correct: false },
+      ]);
+
+      expect(result).toEqual({
+        success: true,
+        data: [{ termId: 't1', timesSeen: 3, timesCorrect: 3, mastered: true, lastSeenAt: '2026-07-05T00:00:00Z' }],
+      });
+      expect(mockIn).toHaveBeenCalledWith('term_id', ['t1', 't2']);
+      expect(mockUpsert).toHaveBeenCalledWith(
+        [
+          expect.objectContaining({ user_id: 'user-1', term_id: 't1', times_seen: 3, times_correct: 3, mastered: true }),
+          expect.objectContaining({ user_id: 'user-1', term_id: 't2', times_seen: 1, times_correct: 0, mastered: false }),
+        ],
+        { onConflict: 'user_id,term_id' }
+      );
+    });
+
+    it('does nothing without answers', async () => {
+      const result = await glossaryService.recordAnswers('user-1', []);
+
+      expect(result).toEqual({ success: true, data: [] });
+      expect(mockFrom).not.toHaveBeenCalled();
+    });
+
+    it('does not write when the existing progress cannot be read', async () => {
+      mockIn.mockResolvedValue({ data: null, error: { message: 'boom', code: '500', details: '', hint: '' } });
+
+      const result = await glossaryService.recordAnswers('user-1', [{ termId: 't1', correct: true }]);
+
+      expect(result.success).toBe(false);
+      expect(mockUpsert).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,11 +1,45 @@
 import { supabase } from '@/integrations/supabase/client';
 import { ServiceBase } from '../shared/serviceBase';
 import { ServiceResult } from '../types';
+import { nextTermProgress, type GlossaryTermProgress } from '@/lib/glossaryDrill';
 
 export interface GlossaryTerm {
   id: string;
   term: string;
   definition: string;
+  /** Missing on glossaries downloaded for offline study before decks existed */
+  deck_id?: string | null;
+}
+
+export interface GlossaryDeck {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  display_order: number;
+}
+
+export interface GlossaryAnswer {
+  termId: string;
+  correct: boolean;
+}
+
+interface DbProgressRow {
+  term_id: string;
+  times_seen: number;
+  times_correct: number;
+  mastered: boolean;
+  last_seen_at: string | null;
+}
+
+function toTermProgress(row: DbProgressRow): GlossaryTermProgress {
+  return {
+    termId: row.term_id,
+    timesSeen: row.times_seen,
+    timesCorrect: row.times_correct,
+    mastered: row.mastered,
+    lastSeenAt: row.last_seen_at,
+  };
 }
 
 class GlossaryService extends ServiceBase {
@@ -14,12 +48,102 @@ class GlossaryService extends ServiceBase {
       () =>
         supabase
           .from('glossary_terms')
-          .select('id, term, definition')
+          .select('id, term, definition, deck_id')
           .order('term', { ascending: true }),
       [],
       'Failed to fetch glossary terms'
     );
   }
+
+  async getDecks(): Promise<ServiceResult<GlossaryDeck[]>> {
+    return this.handleQueryAllowEmpty(
+      () =>
+        supabase
+          .from('glossary_decks')
+          .select('id, slug, name, description, display_order')
+          .order('display_order', { ascending: true })
+          .order('name', { ascending: true }),
+      [],
+      'Failed to fetch glossary decks'
+    );
+  }
+
+  /**
+   * Every glossary_progress row for a user. Per-deck progress is summarized
+   * from these on the client, since each term belongs to at most one deck.
+   */
+  async getProgress(userId: string): Promise<ServiceResult<GlossaryTermProgress[]>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    return this.handleQueryAllowEmpty(
+      async () => {
+        const { data, error } = await supabase
+          .from('glossary_progress')
+          .select('term_id, times_seen, times_correct, mastered, last_seen_at')
+          .eq('user_id', userId);
+
+        return { data: (data as DbProgressRow[] | null)?.map(toTermProgress) ?? null, error };
+      },
+      [],
+      'Failed to fetch glossary progress'
+    );
+  }
+
+  /**
+   * Add answers to a user's glossary_progress, creating rows for terms seen
+   * for the first time. Counts are read first so mastery can be recalculated
+   * with the same rule the drills use. Returns the saved rows.
+   */
+  async recordAnswers(userId: string, answers: GlossaryAnswer[]): Promise<ServiceResult<GlossaryTermProgress[]>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+    if (answers.length === 0) return { success: true, data: [] };
+
+    const termIds = [...new Set(answers.map((a) => a.termId))];
+    const existing = await this.handleQueryAllowEmpty(
+      () =>
+        supabase
+          .from('glossary_progress')
+          .select('term_id, times_seen, times_correct, mastered, last_seen_at')
+          .eq('user_id', userId)
+          .in('term_id', termIds),
+      [] as DbProgressRow[],
+      'Failed to fetch glossary progress'
+    );
+    if (!existing.success) return existing;
+
+    const progress = new Map(existing.data.map((row) => [row.term_id, toTermProgress(row)]));
+    for (const { termId, correct } of answers) {
+      const next = nextTermProgress(progress.get(termId), correct);
+      progress.set(termId, { ...next, termId, lastSeenAt: null });
+    }
+
+    const now = new Date().toISOString();
+    const rows = termIds.map((termId) => {
+      const entry = progress.get(termId)!;
+      return {
+        user_id: userId,
+        term_id: termId,
+        times_seen: entry.timesSeen,
+        times_correct: entry.timesCorrect,
+        mastered: entry.mastered,
+        last_seen_at: now,
+      };
+    });
+
+    return this.handleMutation(
+      async () => {
+        const { data, error } = await supabase
+          .from('glossary_progress')
+          .upsert(rows, { onConflict: 'user_id,term_id' })
+          .select('term_id, times_seen, times_correct, mastered, last_seen_at');
+
+        return { data: (data as DbProgressRow[] | null)?.map(toTermProgress) ?? null, error };
+      },
+      'Failed to save glossary progress'
+    );
+  }
 }
 
 export const glossaryService = new GlossaryService();
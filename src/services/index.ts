@@ -35,7 +35,10 @@ export { ServiceBase } from './shared/serviceBase';
 
 // Domain services
 export { glossaryService } from './glossary/glossaryService';
-export type { GlossaryTerm } from './glossary/glossaryService';
+export type { GlossaryTerm, GlossaryDeck, GlossaryAnswer } from './glossary/glossaryService';
+
+export { figureHotspotService } from './figures/figureHotspotService';
+export type { FigureHotspot } from './figures/figureHotspotService';
 
 export { bookmarkService } from './bookmarks/bookmarkService';
 export type { BookmarkRow } from './bookmarks/bookmarkService';
@@ -43,11 +46,13 @@ export type { BookmarkRow } from './bookmarks/bookmarkService';
 export { questionService } from './questions/questionService';
 export type { Question, LinkData, QuestionTopic } from './questions/questionService';
 
+export { poolChoiceService } from './poolChoices/poolChoiceService';
+
 export { readinessService } from './readiness/readinessService';
-export type { ReadinessData, SubelementMetric, ReadinessSnapshot } from './readiness/readinessService';
+export type { ReadinessData, SubelementMetric, GroupMetric, ReadinessSnapshot } from './readiness/readinessService';
 
 export { progressService } from './progress/progressService';
-export type { TestResultRow, AttemptRecord } from './progress/progressService';
+export type { TestResultRow, AttemptRecord, QuestionMasteryFlags } from './progress/progressService';
 
 export { streakService } from './streak/streakService';
 export type { RawStreakInfo, IncrementActivityOptions } from './streak/streakService';
@@ -61,5 +66,40 @@ export type { SearchContentResponse, SearchContentParams } from './search/search
 export { weeklyGoalsService } from './weeklyGoals/weeklyGoalsService';
 export type { WeeklyGoals } from './weeklyGoals/weeklyGoalsService';
 
+export { learnerDataService } from './learnerData/learnerDataService';
+export type { ImportedRowCounts } from './learnerData/learnerDataService';
+
+export { reviewScheduleService } from './reviewSchedule/reviewScheduleService';
+export type { ReviewScheduleEntry } from './reviewSchedule/reviewScheduleService';
+
+export { examSessionService } from './examSessions/examSessionService';
+export type {
+  ExamSession,
+  TargetExam,
+  SessionSearchParams,
+  PendingExamOutcome,
+  ExamOutcome,
+  ExamOutcomeReport,
+} from './examSessions/examSessionService';
+
 export { dashboardDataService } from './dashboard/dashboardDataService';
 export type { AttemptWithDisplayName, ProfileStats, FullProfile } from './dashboard/dashboardDataService';
+
+export { classroomService } from './classrooms/classroomService';
+export type {
+  Classroom,
+  InstructorClassroom,
+  StudentClassroom,
+  ClassroomAssignment,
+  StudentAssignment,
+  RosterStudent,
+  StudentTestResult,
+} from './classrooms/classroomService';
+
+export { moderationService } from './moderation/moderationService';
+export type {
+  RevisionSource,
+  ExplanationRevision,
+  ReviewedExplanation,
+  ReviewDecision,
+} from './moderation/moderationService';
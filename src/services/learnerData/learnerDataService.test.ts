@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { learnerDataService } from './learnerDataService';
+import { buildLearnerArchive } from '@/lib/learnerArchive';
+
+// Chainable Supabase mock with results per table; a table with several
+// results returns them in turn, one per page
+let tableResults: Record<string, { data: unknown; error: unknown }[]>;
+const ranges: Record<string, [number, number][]> = {};
+const mockRpc = vi.fn();
+
+function chainFor(table: string) {
+  const chain: Record<string, unknown> = {};
+  for (const m of ['select', 'eq', 'order', 'maybeSingle']) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+  chain.range = vi.fn((from: number, to: number) => {
+    (ranges[table] ??= []).push([from, to]);
+    return chain;
+  });
+  chain.then = (resolve: (v: unknown) => void) => {
+    const results = tableResults[table] ?? [];
+    resolve(results.length > 1 ? results.shift() : results[0] ?? { data: null, error: null });
+  };
+  return chain;
+}
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: (table: string) => chainFor(table),
+    rpc: (...args: unknown[]) => mockRpc(...args),
+  },
+}));
+
+const userId = 'user-123';
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  tableResults = {};
+  for (const key of Object.keys(ranges)) delete ranges[key];
+});
+
+describe('LearnerDataService', () => {
+  describe('getArchiveData', () => {
+    it('collects every section of the archive', async () => {
+      tableResults = {
+        profiles: [{ data: { display_name: 'Ada', best_streak: 4 }, error: null }],
+        bookmarked_questions: [{ data: [{ question_id: 'q1', note: 'Ohm', created_at: 'x' }], error: null }],
+        weekly_study_goals: [{ data: { questions_goal: 50, tests_goal: 3, study_days: [1, 3, 5] }, error: null }],
+      };
+
+      const result = await learnerDataService.getArchiveData(userId);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.profile).toEqual({ display_name: 'Ada', best_streak: 4 });
+        expect(result.data.bookmarks).toEqual([{ question_id: 'q1', note: 'Ohm', created_at: 'x' }]);
+        expect(result.data.weekly_goals).toEqual({ questions_goal: 50, tests_goal: 3, study_days: [1, 3, 5] });
+        expect(result.data.question_attempts).toEqual([]);
+        expect(result.data.streak).toBeNull();
+      }
+    });
+
+    it('pages through long histories', async () => {
+      const fullPage = Array.from({ length: 1000 }, (_, i) => ({ question_id: `q${i}` }));
+      tableResults = {
+        question_attempts: [
+          { data: fullPage, error: null },
+          { data: [{ question_id: 'last' }], error: null },
+        ],
+      };
+
+      const result = await learnerDataService.getArchiveData(userId);
+
+      expect(ranges.question_attempts).toEqual([[0, 999], [1000, 1999]]);
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.question_attempts).toHaveLength(1001);
+      }
+    });
+
+    it('fails when any section fails', async () => {
+      tableResults = {
+        events: [{ data: null, error: { message: 'permission denied', code: '42501', details: '', hint: '' } }],
+      };
+
+      const result = await learnerDataService.getArchiveData(userId);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('FORBIDDEN');
+        expect(result.error.message).toContain('Failed to export events');
+      }
+    });
+
+    it('returns AUTH_REQUIRED without a user', async () => {
+      const result = await learnerDataService.getArchiveData('');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('AUTH_REQUIRED');
+      }
+    });
+  });
+
+  describe('importArchive', () => {
+    const archive = buildLearnerArchive({
+      profile: null,
+      question_attempts: [],
+      events: [],
+      bookmarks: [],
+      practice_test_results: [],
+      daily_activity: [],
+      streak: null,
+      weekly_goals: null,
+      topic_progress: [],
+      lesson_progress: [],
+      exam_attempts: [],
+    });
+
+    it('passes the archive to the import RPC', async () => {
+      mockRpc.mockResolvedValue({ data: { bookmarks: 2 }, error: null });
+
+      const result = await learnerDataService.importArchive(archive);
+
+      expect(mockRpc).toHaveBeenCalledWith('import_learner_archive', { p_archive: archive });
+      expect(result).toEqual({ success: true, data: { bookmarks: 2 } });
+    });
+
+    it('reports CONFLICT when the account already has history', async () => {
+      mockRpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Study history can only be imported into an account with no study history', code: '55000', details: '', hint: '' },
+      });
+
+      const result = await learnerDataService.importArchive(archive);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('CONFLICT');
+      }
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type {
+  LearnerArchive,
+  LearnerArchiveData,
+  ArchivedBookmark,
+  ArchivedDailyActivity,
+  ArchivedEvent,
+  ArchivedExamAttempt,
+  ArchivedLessonProgress,
+  ArchivedPracticeTestResult,
+  ArchivedQuestionAttempt,
+  ArchivedTopicProgress,
+} from '@/lib/learnerArchive';
+import { ServiceBase } from '../shared/serviceBase';
+import { ServiceResult, success } from '../types';
+
+/** Rows restored per table, as returned by import_learner_archive */
+export type ImportedRowCounts = Record<string, number>;
+
+// PostgREST caps responses at 1000 rows; history tables are read in pages
+const PAGE_SIZE = 1000;
+
+type PageQuery<T> = (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>;
+
+class LearnerDataService extends ServiceBase {
+  /**
+   * Read every row of a user-scoped table. The query must be ordered so pages
+   * don't overlap.
+   */
+  private async fetchAll<T>(query: PageQuery<T>, errorContext: string): Promise<ServiceResult<T[]>> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const page = await this.handleQueryAllowEmpty(async () => query(from, from + PAGE_SIZE - 1), [], errorContext);
+      if (!page.success) return page;
+      rows.push(...page.data);
+      if (page.data.length < PAGE_SIZE) return success(rows);
+    }
+  }
+
+  /**
+   * Everything the learner's archive holds, read with their own session so
+   * RLS scopes it to them.
+   */
+  async getArchiveData(userId: string): Promise<ServiceResult<LearnerArchiveData>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    const [
+      profile,
+      questionAttempts,
+      events,
+      bookmarks,
+      practiceTests,
+      dailyActivity,
+      streak,
+      weeklyGoals,
+      topicProgress,
+      lessonProgress,
+      examAttempts,
+    ] = await Promise.all([
+      this.handleQueryAllowEmpty(
+        () =>
+          supabase
+            .from('profiles')
+            .select('display_name, best_streak, glossary_current_streak, glossary_best_streak, glossary_last_study_date, created_at')
+            .eq('id', userId)
+            .maybeSingle(),
+        null,
+        'Failed to export profile'
+      ),
+      this.fetchAll<ArchivedQuestionAttempt>(
+        (from, to) =>
+          supabase
+            .from('question_attempts')
+            .select('question_id, selected_answer, is_correct, attempt_type, attempted_at, test_result_id')
+            .eq('user_id', userId)
+            .order('attempted_at')
+            .order('id')
+            .range(from, to),
+        'Failed to export question attempts'
+      ),
+      this.fetchAll<ArchivedEvent>(
+        (from, to) =>
+          supabase
+            .from('events')
+            .select('event_type, timestamp, payload')
+            .eq('user_id', userId)
+            .order('timestamp')
+            .order('id')
+            .range(from, to),
+        'Failed to export events'
+      ),
+      this.fetchAll<ArchivedBookmark>(
+        (from, to) =>
+          supabase
+            .from('bookmarked_questions')
+            .select('question_id, note, created_at')
+            .eq('user_id', userId)
+            .order('created_at')
+            .order('id')
+            .range(from, to),
+        'Failed to export bookmarks'
+      ),
+      this.fetchAll<ArchivedPracticeTestResult>(
+        (from, to) =>
+          supabase
+            .from('practice_test_results')
+            .select('id, test_type, score, total_questions, percentage, passed, completed_at')
+            .eq('user_id', userId)
+            .order('completed_at')
+            .order('id')
+            .range(from, to),
+        'Failed to export practice test results'
+      ),
+      this.fetchAll<ArchivedDailyActivity>(
+        (from, to) =>
+          supabase
+            .from('daily_activity')
+            .select('activity_date, questions_answered, questions_correct, tests_taken, tests_passed, glossary_terms_studied, morse_characters')
+            .eq('user_id', userId)
+            .order('activity_date')
+            .range(from, to),
+        'Failed to export daily activity'
+      ),
+      this.handleQueryAllowEmpty(
+        () =>
+          supabase
+            .from('daily_streaks')
+            .select('current_streak, longest_streak, last_activity_date, streak_freezes_available')
+            .eq('user_id', userId)
+            .maybeSingle(),
+        null,
+        'Failed to export streak'
+      ),
+      this.handleQueryAllowEmpty(
+        () =>
+          supabase
+            .from('weekly_study_goals')
+            .select('questions_goal, tests_goal, study_days')
+            .eq('user_id', userId)
+            .maybeSingle(),
+        null,
+        'Failed to export weekly goals'
+      ),
+      this.fetchAll<ArchivedTopicProgress>(
+        (from, to) =>
+          supabase
+            .from('topic_progress')
+            .select('topic_id, is_completed, completed_at')
+            .eq('user_id', userId)
+            .order('id')
+            .range(from, to),
+        'Failed to export topic progress'
+      ),
+      this.fetchAll<ArchivedLessonProgress>(
+        (from, to) =>
+          supabase
+            .from('lesson_progress')
+            .select('lesson_id, is_completed, completed_at')
+            .eq('user_id', userId)
+            .order('id')
+            .range(from, to),
+        'Failed to export lesson progress'
+      ),
+      this.fetchAll<ArchivedExamAttempt>(
+        (from, to) =>
+          supabase
+            .from('exam_attempts')
+            .select('exam_date, target_license, outcome, score, total_questions, notes, exam_session_id')
+            .eq('user_id', userId)
+            .order('exam_date')
+            .order('id')
+            .range(from, to),
+        'Failed to export exam attempts'
+      ),
+    ]);
+
+    if (!profile.success) return profile;
+    if (!questionAttempts.success) return questionAttempts;
+    if (!events.success) return events;
+    if (!bookmarks.success) return bookmarks;
+    if (!practiceTests.success) return practiceTests;
+    if (!dailyActivity.success) return dailyActivity;
+    if (!streak.success) return streak;
+    if (!weeklyGoals.success) return weeklyGoals;
+    if (!topicProgress.success) return topicProgress;
+    if (!lessonProgress.success) return lessonProgress;
+    if (!examAttempts.success) return examAttempts;
+
+    return success({
+      profile: profile.data,
+      question_attempts: questionAttempts.data,
+      events: events.data,
+      bookmarks: bookmarks.data,
+      practice_test_results: practiceTests.data,
+      daily_activity: dailyActivity.data,
+      streak: streak.data,
+      weekly_goals: weeklyGoals.data,
+      topic_progress: topicProgress.data,
+      lesson_progress: lessonProgress.data,
+      exam_attempts: examAttempts.data,
+    });
+  }
+
+  /**
+   * Restore an archive (already upgraded to the current schema version) into
+   * the signed-in account. Fails with CONFLICT when the account already has
+   * study history.
+   */
+  async importArchive(archive: LearnerArchive): Promise<ServiceResult<ImportedRowCounts>> {
+    return this.handleMutation(
+      async () => {
+        const { data, error } = await supabase.rpc('import_learner_archive', {
+          p_archive: archive as unknown as Json,
+        });
+        return { data: data as ImportedRowCounts | null, error };
+      },
+      'Failed to import your data'
+    );
+  }
+}
+
+export const learnerDataService = new LearnerDataService();
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { moderationService } from './moderationService';
+
+// Chainable Supabase mock. Each awaited query takes the next queued result.
+let mockResults: { data?: unknown; error: unknown }[];
+
+const chain: Record<string, ReturnType<typeof vi.fn>> & {
+  then?: (resolve: (v: unknown) => void) => void;
+} = {} as never;
+
+const mockFrom = vi.fn<(table: string) => typeof chain>(() => chain);
+const mockRpc = vi.fn();
+const mockInvoke = vi.fn();
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: (table: string) => mockFrom(table),
+    rpc: (...args: unknown[]) => mockRpc(...args),
+    functions: { invoke: (...args: unknown[]) => mockInvoke(...args) },
+  },
+}));
+
+function buildChain() {
+  for (const m of ['select', 'eq', 'in', 'order']) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+
+  chain.then = (resolve: (v: unknown) => void) =>
+    resolve(mockResults.shift() ?? { data: null, error: null });
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockResults = [];
+  buildChain();
+});
+
+describe('ModerationService', () => {
+  describe('isModerator', () => {
+    it('is true for moderators and admins', async () => {
+      mockResults = [{ data: [{ role: 'moderator' }], error: null }];
+
+      const result = await moderationService.isModerator('user-1');
+
+      expect(result).toEqual({ success: true, data: true });
+      expect(chain.in).toHaveBeenCalledWith('role', ['moderator', 'admin']);
+    });
+
+    it('is false without either role', async () => {
+      mockResults = [{ data: [], error: null }];
+
+      expect(await moderationService.isModerator('user-1')).toEqual({ success: true, data: false });
+    });
+  });
+
+  describe('getPendingRevisions', () => {
+    it('fetches pending revisions oldest first', async () => {
+      const revisions = [{ id: 'r1', source: 'forum' }];
+      mockResults = [{ data: revisions, error: null }];
+
+      const result = await moderationService.getPendingRevisions();
+
+      expect(result).toEqual({ success: true, data: revisions });
+      expect(mockFrom).toHaveBeenCalledWith('explanation_revisions');
+      expect(chain.eq).toHaveBeenCalledWith('status', 'pending');
+      expect(chain.order).toHaveBeenCalledWith('created_at', { ascending: true });
+    });
+  });
+
+  describe('reviewRevision', () => {
+    const reviewed = { question_id: 'q1', explanation: 'Edited text', forum_url: null };
+
+    it('publishes edited text with a trimmed note', async () => {
+      mockRpc.mockResolvedValue({ data: [reviewed], error: null });
+
+      const result = await moderationService.reviewRevision('r1', {
+        approve: true,
+        explanation: '  Edited text  ',
+        note: '  tightened wording ',
+      });
+
+      expect(result).toEqual({ success: true, data: reviewed });
+      expect(mockRpc).toHaveBeenCalledWith('review_explanation_revision', {
+        p_revision_id: 'r1',
+        p_approve: true,
+        p_explanation: 'Edited text',
+        p_note: 'tightened wording',
+      });
+    });
+
+    it('ignores edited text when rejecting', async () => {
+      mockRpc.mockResolvedValue({ data: [reviewed], error: null });
+
+      await moderationService.reviewRevision('r1', { approve: false, explanation: 'ignored' });
+
+      expect(mockRpc).toHaveBeenCalledWith('review_explanation_revision', {
+        p_revision_id: 'r1',
+        p_approve: false,
+        p_explanation: undefined,
+        p_note: undefined,
+      });
+    });
+
+    it('rejects publishing an empty explanation', async () => {
+      const result = await moderationService.reviewRevision('r1', { approve: true, explanation: '   ' });
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.code).toBe('VALIDATION_ERROR');
+      expect(mockRpc).not.toHaveBeenCalled();
+    });
+
+    it('reports a revision someone else already reviewed as a conflict', async () => {
+      mockRpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Revision has already been reviewed', code: '55000', details: '', hint: '' },
+      });
+
+      const result = await moderationService.reviewRevision('r1', { approve: true });
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.code).toBe('CONFLICT');
+    });
+
+    it('reports non-moderators as forbidden', async () => {
+      mockRpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Only moderators can review explanation changes', code: '42501', details: '', hint: '' },
+      });
+
+      const result = await moderationService.reviewRevision('r1', { approve: false });
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.code).toBe('FORBIDDEN');
+    });
+  });
+
+  describe('syncForumPost', () => {
+    it('invokes update-discourse-post', async () => {
+      mockInvoke.mockResolvedValue({ data: { success: true }, error: null });
+
+      const result = await moderationService.syncForumPost('q1', 'New text');
+
+      expect(result.success).toBe(true);
+      expect(mockInvoke).toHaveBeenCalledWith('update-discourse-post', {
+        body: { questionId: 'q1', explanation: 'New text' },
+      });
+    });
+
+    it('surfaces edge function errors', async () => {
+      mockInvoke.mockResolvedValue({ data: null, error: new Error('Discourse unavailable') });
+
+      const result = await moderationService.syncForumPost('q1', 'New text');
+
+      expect(result.success).toBe(false);
+      if (!result.success) expect(result.error.code).toBe('EDGE_FUNCTION_ERROR');
+    });
+  });
+
+  describe('extractLinks', () => {
+    it('asks manage-question-links to re-extract links', async () => {
+      mockInvoke.mockResolvedValue({ data: { links: [] }, error: null });
+
+      await moderationService.extractLinks('q1');
+
+      expect(mockInvoke).toHaveBeenCalledWith('manage-question-links', {
+        body: { action: 'extract-from-explanation', questionId: 'q1' },
+      });
+    });
+  });
+});
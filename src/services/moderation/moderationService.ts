@@ -0,0 +1,157 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ServiceBase } from '../shared/serviceBase';
+import { ServiceResult, failure, success } from '../types';
+
+// ---------------------------------------------------------------------------
+// Domain types (exported for consumers)
+// ---------------------------------------------------------------------------
+
+/** Where a proposed explanation came from */
+export type RevisionSource = 'forum' | 'feedback';
+
+/** A pending explanation change with the question it applies to */
+export interface ExplanationRevision {
+  id: string;
+  question_id: string;
+  source: RevisionSource;
+  proposed_explanation: string;
+  forum_username: string | null;
+  helpful_count: number | null;
+  not_helpful_count: number | null;
+  created_at: string;
+  updated_at: string;
+  question: {
+    display_name: string;
+    question: string;
+    explanation: string | null;
+    forum_url: string | null;
+  } | null;
+}
+
+/** The question's explanation after a review */
+export interface ReviewedExplanation {
+  question_id: string;
+  explanation: string | null;
+  forum_url: string | null;
+}
+
+export interface ReviewDecision {
+  approve: boolean;
+  /** Edited text to publish instead of the proposal (approvals only) */
+  explanation?: string;
+  note?: string;
+}
+
+const REVISION_SELECT = `
+  id, question_id, source, proposed_explanation, forum_username,
+  helpful_count, not_helpful_count, created_at, updated_at,
+  question:questions(display_name, question, explanation, forum_url)
+`;
+
+class ModerationService extends ServiceBase {
+  /**
+   * Whether the user can review explanation changes (moderator or admin role).
+   */
+  async isModerator(userId: string): Promise<ServiceResult<boolean>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    const roles = await this.handleQueryAllowEmpty(
+      () =>
+        supabase
+          .from('user_roles')
+          .select('role')
+          .eq('user_id', userId)
+          .in('role', ['moderator', 'admin']),
+      [],
+      'Failed to check moderator role'
+    );
+    if (!roles.success) return roles;
+
+    return success(roles.data.length > 0);
+  }
+
+  /**
+   * Explanation revisions waiting for review, oldest first.
+   * Only moderators and admins can read them (RLS).
+   */
+  async getPendingRevisions(): Promise<ServiceResult<ExplanationRevision[]>> {
+    return this.handleQueryAllowEmpty(
+      async () => {
+        const { data, error } = await supabase
+          .from('explanation_revisions')
+          .select(REVISION_SELECT)
+          .eq('status', 'pending')
+          .order('created_at', { ascending: true });
+
+        return { data: data as ExplanationRevision[] | null, error };
+      },
+      [],
+      'Failed to fetch pending explanation changes'
+    );
+  }
+
+  /**
+   * Approve (optionally with edited text) or reject a pending revision.
+   * Approving publishes the explanation and records it in edit_history.
+   */
+  async reviewRevision(
+    revisionId: string,
+    decision: ReviewDecision
+  ): Promise<ServiceResult<ReviewedExplanation>> {
+    if (decision.approve && decision.explanation !== undefined && !decision.explanation.trim()) {
+      return failure('VALIDATION_ERROR', 'Explanation cannot be empty');
+    }
+
+    const result = await this.handleMutation(
+      async () => {
+        const { data, error } = await supabase.rpc('review_explanation_revision', {
+          p_revision_id: revisionId,
+          p_approve: decision.approve,
+          p_explanation: decision.approve ? decision.explanation?.trim() : undefined,
+          p_note: decision.note?.trim() || undefined,
+        });
+
+        return { data: data?.[0] ?? null, error };
+      },
+      'Failed to review explanation change'
+    );
+    if (!result.success) return result;
+
+    return success(result.data as ReviewedExplanation);
+  }
+
+  /**
+   * Rewrite the explanation section of the question's forum post.
+   */
+  async syncForumPost(questionId: string, explanation: string): Promise<ServiceResult<void>> {
+    const result = await this.handleEdgeFunction(
+      () =>
+        supabase.functions.invoke('update-discourse-post', {
+          body: { questionId, explanation },
+        }),
+      'Failed to update forum post'
+    );
+    if (!result.success) return result;
+
+    return success(undefined);
+  }
+
+  /**
+   * Re-extract and unfurl links from the question's published explanation.
+   */
+  async extractLinks(questionId: string): Promise<ServiceResult<void>> {
+    const result = await this.handleEdgeFunction(
+      () =>
+        supabase.functions.invoke('manage-question-links', {
+          body: { action: 'extract-from-explanation', questionId },
+        }),
+      'Failed to extract explanation links'
+    );
+    if (!result.success) return result;
+
+    return success(undefined);
+  }
+}
+
+export const moderationService = new ModerationService();
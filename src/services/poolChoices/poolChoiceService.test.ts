@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { poolChoiceService } from './poolChoiceService';
+
+// Chainable Supabase mock
+let mockResult: { data?: unknown; error: unknown };
+
+const chain: Record<string, ReturnType<typeof vi.fn>> & {
+  then?: (resolve: (v: unknown) => void) => void;
+} = {} as never;
+
+const mockFrom = vi.fn(() => chain);
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: (...args: unknown[]) => mockFrom(...(args as [])),
+  },
+}));
+
+function buildChain() {
+  const methods = ['select', 'upsert', 'delete', 'eq', 'maybeSingle'];
+
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+
+  chain.then = (resolve: (v: unknown) => void) => resolve(mockResult);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockResult = { data: null, error: null };
+  buildChain();
+});
+
+const userId = 'user-123';
+
+describe('PoolChoiceService', () => {
+  describe('getChoice', () => {
+    it('returns the stored pool for the exam', async () => {
+      mockResult = { data: { pool_version: '2026-2030' }, error: null };
+
+      const result = await poolChoiceService.getChoice(userId, 'technician');
+
+      expect(result).toEqual({ success: true, data: '2026-2030' });
+      expect(mockFrom).toHaveBeenCalledWith('user_pool_choices');
+      expect(chain.eq).toHaveBeenCalledWith('user_id', userId);
+      expect(chain.eq).toHaveBeenCalledWith('exam_type', 'technician');
+    });
+
+    it('returns null when the learner has not picked a pool', async () => {
+      const result = await poolChoiceService.getChoice(userId, 'technician');
+
+      expect(result).toEqual({ success: true, data: null });
+    });
+
+    it('returns AUTH_REQUIRED when userId is empty', async () => {
+      const result = await poolChoiceService.getChoice('', 'technician');
+
+      expect(result).toMatchObject({ success: false, error: { code: 'AUTH_REQUIRED' } });
+    });
+  });
+
+  describe('saveChoice', () => {
+    it('upserts one choice per exam', async () => {
+      const result = await poolChoiceService.saveChoice(userId, 'technician', '2026-2030');
+
+      expect(result.success).toBe(true);
+      expect(chain.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({ user_id: userId, exam_type: 'technician', pool_version: '2026-2030' }),
+        { onConflict: 'user_id,exam_type' }
+      );
+    });
+
+    it('returns failure when the pool is unknown', async () => {
+      mockResult = { error: { message: 'violates foreign key', code: '23503', details: '', hint: '' } };
+
+      const result = await poolChoiceService.saveChoice(userId, 'technician', '1999-2003');
+
+      expect(result).toMatchObject({ success: false, error: { code: 'CONFLICT' } });
+    });
+  });
+
+  describe('clearChoice', () => {
+    it('deletes the choice for the exam', async () => {
+      const result = await poolChoiceService.clearChoice(userId, 'general');
+
+      expect(result.success).toBe(true);
+      expect(chain.delete).toHaveBeenCalled();
+      expect(chain.eq).toHaveBeenCalledWith('exam_type', 'general');
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { TestType } from '@/types/navigation';
+import { ServiceBase } from '../shared/serviceBase';
+import { ServiceResult, success } from '../types';
+
+/**
+ * A learner's pick of question pool during a pool transition.
+ *
+ * Without a stored choice learners study the pool in effect on their target
+ * exam date. The choice lives on the server so the readiness edge function
+ * (via get_learner_pool_version) scores the same pool the app shows.
+ */
+class PoolChoiceService extends ServiceBase {
+  async getChoice(userId: string, testType: TestType): Promise<ServiceResult<string | null>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    const result = await this.handleQueryAllowEmpty(
+      () =>
+        supabase
+          .from('user_pool_choices')
+          .select('pool_version')
+          .eq('user_id', userId)
+          .eq('exam_type', testType)
+          .maybeSingle(),
+      null,
+      'Failed to fetch pool choice'
+    );
+    if (!result.success) return result;
+
+    return success(result.data?.pool_version ?? null);
+  }
+
+  async saveChoice(userId: string, testType: TestType, poolVersion: string): Promise<ServiceResult<void>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    return this.handleVoidMutation(
+      () =>
+        supabase
+          .from('user_pool_choices')
+          .upsert(
+            {
+              user_id: userId,
+              exam_type: testType,
+              pool_version: poolVersion,
+              updated_at: new Date().toISOString(),
+            },
+            { onConflict: 'user_id,exam_type' }
+          ),
+      'Failed to save pool choice'
+    );
+  }
+
+  /** Go back to the pool matching the exam date */
+  async clearChoice(userId: string, testType: TestType): Promise<ServiceResult<void>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    return this.handleVoidMutation(
+      () =>
+        supabase
+          .from('user_pool_choices')
+          .delete()
+          .eq('user_id', userId)
+          .eq('exam_type', testType),
+      'Failed to clear pool choice'
+    );
+  }
+}
+
+export const poolChoiceService = new PoolChoiceService();
@@ -77,6 +77,26 @@ describe('ProgressService', () => {
       expect(chain.single).toHaveBeenCalled();
     });
 
+    it('keeps the client id and completion time of a replayed offline test', async () => {
+      mockResult = { data: { id: 'client-tr-1' }, error: null };
+
+      await progressService.createTestResult({
+        id: 'client-tr-1',
+        completedAt: '2024-01-01T09:30:00.000Z',
+        userId,
+        score: 30,
+        totalQuestions: 35,
+        percentage: 86,
+        passed: true,
+        testType: 'technician',
+      });
+
+      expect(chain.insert).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'client-tr-1',
+        completed_at: '2024-01-01T09:30:00.000Z',
+      }));
+    });
+
     it('returns AUTH_REQUIRED when userId is empty', async () => {
       const result = await progressService.createTestResult({
         userId: '',
@@ -172,4 +192,42 @@ describe('ProgressService', () => {
       }
     });
   });
+
+  describe('getQuestionMastery', () => {
+    it('maps mastery rows for one exam', async () => {
+      mockResult = {
+        data: [
+          { question_id: 'q1', total_attempts: 3, correct_attempts: 1, is_weak: true, is_mastered: false, questions: { display_name: 'T1A01' } },
+          { question_id: 'q2', total_attempts: 5, correct_attempts: 5, is_weak: null, is_mastered: true, questions: { display_name: 'T1A02' } },
+        ],
+        error: null,
+      };
+
+      const result = await progressService.getQuestionMastery(userId, 'technician');
+
+      expect(chain.eq).toHaveBeenCalledWith('user_id', userId);
+      expect(chain.like).toHaveBeenCalledWith('questions.display_name', 'T%');
+      expect(result).toEqual({
+        success: true,
+        data: [
+          { questionId: 'q1', totalAttempts: 3, correctAttempts: 1, isWeak: true, isMastered: false },
+          { questionId: 'q2', totalAttempts: 5, correctAttempts: 5, isWeak: false, isMastered: true },
+        ],
+      });
+    });
+
+    it('returns an empty list when nothing has been attempted', async () => {
+      mockResult = { data: null, error: null };
+
+      const result = await progressService.getQuestionMastery(userId, 'general');
+
+      expect(result).toEqual({ success: true, data: [] });
+    });
+
+    it('requires a user id', async () => {
+      const result = await progressService.getQuestionMastery('', 'technician');
+
+      expect(result.success).toBe(false);
+    });
+  });
 });
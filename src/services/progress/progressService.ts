@@ -1,6 +1,8 @@
 import { supabase } from '@/integrations/supabase/client';
 import { ServiceBase } from '../shared/serviceBase';
 import { ServiceResult, success } from '../types';
+import { getTestTypePrefix } from '@/lib/testTypeUtils';
+import type { TestType } from '@/types/navigation';
 
 /** Row returned from practice_test_results after insert */
 export interface TestResultRow {
@@ -22,14 +24,37 @@ export interface AttemptRecord {
   is_correct: boolean;
   attempt_type: string;
   test_result_id?: string;
+  /** Set by the offline outbox so a replayed insert is rejected as a duplicate */
+  id?: string;
+  attempted_at?: string;
+}
+
+/** Per-question mastery flags from question_mastery */
+export interface QuestionMasteryFlags {
+  questionId: string;
+  totalAttempts: number;
+  correctAttempts: number;
+  isWeak: boolean;
+  isMastered: boolean;
+}
+
+interface DbMasteryRow {
+  question_id: string;
+  total_attempts: number;
+  correct_attempts: number;
+  is_weak: boolean | null;
+  is_mastered: boolean | null;
 }
 
 class ProgressService extends ServiceBase {
   /**
    * Insert a practice test result and return the created row.
    * The returned row includes the generated `id` needed to link question_attempts.
+   * Pass `id` and `completedAt` when replaying a test taken offline.
    */
   async createTestResult(params: {
+    id?: string;
+    completedAt?: string;
     userId: string;
     score: number;
     totalQuestions: number;
@@ -45,6 +70,8 @@ class ProgressService extends ServiceBase {
         supabase
           .from('practice_test_results')
           .insert({
+            ...(params.id && { id: params.id }),
+            ...(params.completedAt && { completed_at: params.completedAt }),
             user_id: params.userId,
             score: params.score,
             total_questions: params.totalQuestions,
@@ -77,6 +104,40 @@ class ProgressService extends ServiceBase {
       'Failed to save question attempts'
     );
   }
+
+  /**
+   * Fetch the user's mastery flags for every question of one exam they
+   * have attempted. Questions never attempted have no row.
+   */
+  async getQuestionMastery(
+    userId: string,
+    testType: TestType
+  ): Promise<ServiceResult<QuestionMasteryFlags[]>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    return this.handleQueryAllowEmpty(
+      async () => {
+        const { data, error } = await supabase
+          .from('question_mastery')
+          .select('question_id, total_attempts, correct_attempts, is_weak, is_mastered, questions!inner(display_name)')
+          .eq('user_id', userId)
+          .like('questions.display_name', `${getTestTypePrefix(testType)}%`);
+
+        const flags = (data as DbMasteryRow[] | null)?.map(row => ({
+          questionId: row.question_id,
+          totalAttempts: row.total_attempts,
+          correctAttempts: row.correct_attempts,
+          isWeak: row.is_weak ?? false,
+          isMastered: row.is_mastered ?? false,
+        })) ?? null;
+
+        return { data: flags, error };
+      },
+      [],
+      'Failed to fetch question mastery'
+    );
+  }
 }
 
 export const progressService = new ProgressService();
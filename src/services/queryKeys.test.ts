@@ -17,12 +17,18 @@ describe('queryKeys', () => {
           'topics',
           'lessons',
           'glossary',
+          'figures',
           'arrlChapters',
           'auth',
           'alerts',
           'feedback',
           'hamRadioTools',
           'discourse',
+          'examSessions',
+          'classrooms',
+          'moderation',
+          'contentRevisions',
+          'offline',
           'geocoding',
           'adminStats',
         ])
@@ -48,10 +54,24 @@ describe('queryKeys', () => {
       expect(queryKeys.questions.all('extra')).toEqual(['questions', 'extra']);
     });
 
+    it('.inPool(testType, poolVersion) nests under .all(testType)', () => {
+      const key = queryKeys.questions.inPool('technician', '2026-2030');
+      expect(key).toEqual(['questions', 'technician', '2026-2030']);
+      expect(key.slice(0, 2)).toEqual(queryKeys.questions.all('technician'));
+    });
+
     it('.detail(id) uses singular "question" prefix', () => {
       expect(queryKeys.questions.detail('q-123')).toEqual(['question', 'q-123']);
     });
 
+    it('.ofTheDay(testType, day) keys the pick by exam and UTC day', () => {
+      expect(queryKeys.questions.ofTheDay('general', '2026-10-18')).toEqual([
+        'question-of-the-day',
+        'general',
+        '2026-10-18',
+      ]);
+    });
+
     it('.byIds sorts IDs for cache consistency', () => {
       const key1 = queryKeys.questions.byIds(['c', 'a', 'b']);
       const key2 = queryKeys.questions.byIds(['b', 'a', 'c']);
@@ -91,6 +111,8 @@ describe('queryKeys', () => {
       expect(queryKeys.progress.testResults(uid)).toContain(uid);
       expect(queryKeys.progress.profileStats(uid)).toContain(uid);
       expect(queryKeys.progress.weeklyGoals(uid)).toContain(uid);
+      expect(queryKeys.progress.reviewSchedule(uid)).toContain(uid);
+      expect(queryKeys.progress.mastery(uid, 'technician')).toContain(uid);
     });
 
     it('progress keys use distinct prefixes to avoid collisions', () => {
@@ -101,6 +123,8 @@ describe('queryKeys', () => {
         queryKeys.progress.testResults(uid)[0],
         queryKeys.progress.profileStats(uid)[0],
         queryKeys.progress.weeklyGoals(uid)[0],
+        queryKeys.progress.reviewSchedule(uid)[0],
+        queryKeys.progress.mastery(uid, 'technician')[0],
       ];
       // All prefixes should be unique
       expect(new Set(prefixes).size).toBe(prefixes.length);
@@ -150,6 +174,71 @@ describe('queryKeys', () => {
     });
   });
 
+  // ===========================================================================
+  // Exam Sessions Domain
+  // ===========================================================================
+  describe('examSessions', () => {
+    it('.search() includes every search parameter', () => {
+      expect(queryKeys.examSessions.search(35.5, -78.5, 50, '2026-10-18', '2027-01-18')).toEqual([
+        'exam-sessions', 35.5, -78.5, 50, '2026-10-18', '2027-01-18',
+      ]);
+    });
+
+    it('.targetExam(userId) includes user scope', () => {
+      expect(queryKeys.examSessions.targetExam('user-1')).toEqual(['target-exam', 'user-1']);
+    });
+
+    it('.pendingOutcomes(userId) includes user scope', () => {
+      expect(queryKeys.examSessions.pendingOutcomes('user-1')).toEqual(['pending-exam-outcomes', 'user-1']);
+    });
+  });
+
+  describe('classrooms', () => {
+    it('nests every classroom key under .root', () => {
+      const keys = [
+        queryKeys.classrooms.instructor('user-1'),
+        queryKeys.classrooms.student('user-1'),
+        queryKeys.classrooms.studentAssignments('user-1'),
+        queryKeys.classrooms.roster('class-1'),
+        queryKeys.classrooms.studentTests('class-1', 'user-2'),
+        queryKeys.classrooms.assignments('class-1'),
+      ];
+
+      for (const key of keys) {
+        expect(key.slice(0, 1)).toEqual(queryKeys.classrooms.root);
+      }
+      expect(queryKeys.classrooms.studentTests('class-1', 'user-2')).toEqual([
+        'classrooms', 'student-tests', 'class-1', 'user-2',
+      ]);
+    });
+  });
+
+  describe('moderation', () => {
+    it('.pendingRevisions() nests under .root', () => {
+      expect(queryKeys.moderation.pendingRevisions()).toEqual(['moderation', 'pending-revisions']);
+      expect(queryKeys.moderation.pendingRevisions().slice(0, 1)).toEqual(queryKeys.moderation.root);
+    });
+  });
+
+  describe('contentRevisions', () => {
+    it('.list(entityType, entityId) nests under .root', () => {
+      expect(queryKeys.contentRevisions.list('question', 'q1')).toEqual(['content-revisions', 'question', 'q1']);
+      expect(queryKeys.contentRevisions.list('question', 'q1').slice(0, 1)).toEqual(queryKeys.contentRevisions.root);
+    });
+  });
+
+  describe('offline', () => {
+    it('.pack(testType) nests under .root', () => {
+      expect(queryKeys.offline.pack('general')).toEqual(['offline', 'pack', 'general']);
+      expect(queryKeys.offline.pack('general').slice(0, 1)).toEqual(queryKeys.offline.root);
+    });
+
+    it('.outbox() and .glossary() nest under .root', () => {
+      expect(queryKeys.offline.outbox()).toEqual(['offline', 'outbox']);
+      expect(queryKeys.offline.glossary()).toEqual(['offline', 'glossary']);
+    });
+  });
+
   // ===========================================================================
   // Cross-domain key uniqueness
   // ===========================================================================
@@ -164,11 +253,18 @@ describe('queryKeys', () => {
         queryKeys.topics.all()[0],
         queryKeys.lessons.all()[0],
         queryKeys.glossary.terms()[0],
+        queryKeys.figures.hotspots('T-1', '2022-2026')[0],
         queryKeys.arrlChapters.all()[0],
         queryKeys.alerts.all()[0],
         queryKeys.feedback.forQuestion('q', 'u')[0],
         queryKeys.hamRadioTools.categories()[0],
         queryKeys.discourse.overview()[0],
+        queryKeys.examSessions.search(0, 0, 25, 'a', 'b')[0],
+        queryKeys.examSessions.targetExam('x')[0],
+        queryKeys.examSessions.pendingOutcomes('x')[0],
+        queryKeys.classrooms.root[0],
+        queryKeys.moderation.root[0],
+        queryKeys.contentRevisions.root[0],
         queryKeys.geocoding.usage()[0],
         queryKeys.adminStats.questions()[0],
       ];
@@ -62,9 +62,20 @@ export const queryKeys = {
     all: (testType?: TestType) =>
       testType ? ['questions', testType] as const : ['questions'] as const,
 
+    /** Questions for one pool release of a test type (nested under .all) */
+    inPool: (testType: TestType, poolVersion: string) =>
+      ['questions', testType, poolVersion] as const,
+
+    /** Pool the learner picked over the one matching their exam date */
+    poolChoice: (userId: string, testType: TestType) =>
+      ['pool-choice', userId, testType] as const,
+
     /** Single question by ID or display name */
     detail: (questionId: string) => ['question', questionId] as const,
 
+    /** Question of the day for an exam type on a UTC day (embed widget) */
+    ofTheDay: (testType: TestType, day: string) => ['question-of-the-day', testType, day] as const,
+
     /** Multiple questions by their UUIDs */
     byIds: (ids: string[]) => ['questions-by-ids', [...ids].sort()] as const,
 
@@ -114,6 +125,15 @@ export const queryKeys = {
 
     /** Weekly study goals */
     weeklyGoals: (userId: string) => ['weekly-goals', userId] as const,
+
+    /** Spaced-repetition review schedule (question_mastery SM-2 state) */
+    reviewSchedule: (userId: string) => ['review-schedule', userId] as const,
+
+    /** Per-question weak/mastered flags for one exam */
+    mastery: (userId: string, testType: TestType) => ['question-mastery', userId, testType] as const,
+
+    /** Mastery flags - for invalidation by user only */
+    masteryByUser: (userId: string) => ['question-mastery', userId] as const,
   },
 
   // ---------------------------------------------------------------------------
@@ -184,6 +204,19 @@ export const queryKeys = {
   glossary: {
     /** All glossary terms */
     terms: () => ['glossary-terms'] as const,
+    /** Named decks of glossary terms */
+    decks: () => ['glossary-decks'] as const,
+    /** A user's per-term glossary progress */
+    progress: (userId: string) => ['glossary-progress', userId] as const,
+  },
+
+  // ---------------------------------------------------------------------------
+  // Figures Domain
+  // ---------------------------------------------------------------------------
+  figures: {
+    /** Hotspots on a figure in a pool, e.g. "T-1" in 2022-2026 */
+    hotspots: (figureReference: string, poolVersion: string) =>
+      ['figure-hotspots', figureReference, poolVersion] as const,
   },
 
   // ---------------------------------------------------------------------------
@@ -215,6 +248,12 @@ export const queryKeys = {
   auth: {
     /** User's role (admin check) */
     role: (userId: string) => ['user-role', userId] as const,
+
+    /** Whether the user can run classrooms (instructor or admin) */
+    instructor: (userId: string) => ['user-role', userId, 'instructor'] as const,
+
+    /** Whether the user can review explanation changes (moderator or admin) */
+    moderator: (userId: string) => ['user-role', userId, 'moderator'] as const,
   },
 
   // ---------------------------------------------------------------------------
@@ -283,6 +322,98 @@ export const queryKeys = {
     overview: () => ['discourse-sync-overview'] as const,
   },
 
+  // ---------------------------------------------------------------------------
+  // Exam Sessions Domain
+  // ---------------------------------------------------------------------------
+  examSessions: {
+    /** Sessions near a point within a date range */
+    search: (
+      latitude: number,
+      longitude: number,
+      radiusMiles: number,
+      fromDate: string,
+      toDate: string
+    ) => ['exam-sessions', latitude, longitude, radiusMiles, fromDate, toDate] as const,
+
+    /** Approximate coordinates for a ZIP code */
+    zipCoordinates: (zip: string) => ['zip-coordinates', zip] as const,
+
+    /** Learner's target exam (linked session or custom date) */
+    targetExam: (userId: string) => ['target-exam', userId] as const,
+
+    /** Learner's past exams still waiting for a reported outcome */
+    pendingOutcomes: (userId: string) => ['pending-exam-outcomes', userId] as const,
+  },
+
+  // ---------------------------------------------------------------------------
+  // Classrooms Domain
+  // ---------------------------------------------------------------------------
+  classrooms: {
+    /** All classroom queries - use for broad invalidation */
+    root: ['classrooms'] as const,
+
+    /** Classrooms an instructor runs */
+    instructor: (userId: string) => ['classrooms', 'instructor', userId] as const,
+
+    /** Classrooms a student has joined */
+    student: (userId: string) => ['classrooms', 'student', userId] as const,
+
+    /** Assignments across a student's classrooms */
+    studentAssignments: (userId: string) =>
+      ['classrooms', 'student-assignments', userId] as const,
+
+    /** Students with readiness for one classroom (instructor only) */
+    roster: (classroomId: string) => ['classrooms', 'roster', classroomId] as const,
+
+    /** One student's practice tests (instructor only) */
+    studentTests: (classroomId: string, studentId: string) =>
+      ['classrooms', 'student-tests', classroomId, studentId] as const,
+
+    /** Assignments for one classroom */
+    assignments: (classroomId: string) =>
+      ['classrooms', 'assignments', classroomId] as const,
+  },
+
+  // ---------------------------------------------------------------------------
+  // Moderation Domain
+  // ---------------------------------------------------------------------------
+  moderation: {
+    /** All moderation queries - use for broad invalidation */
+    root: ['moderation'] as const,
+
+    /** Explanation revisions waiting for review */
+    pendingRevisions: () => ['moderation', 'pending-revisions'] as const,
+  },
+
+  // ---------------------------------------------------------------------------
+  // Content Revisions Domain
+  // ---------------------------------------------------------------------------
+  contentRevisions: {
+    /** All content revision queries - use for broad invalidation */
+    root: ['content-revisions'] as const,
+
+    /** Revisions of one question, glossary term or tool, newest first */
+    list: (entityType: string, entityId: string) =>
+      ['content-revisions', entityType, entityId] as const,
+  },
+
+  // ---------------------------------------------------------------------------
+  // Offline Study Domain (on-device IndexedDB, not Supabase)
+  // ---------------------------------------------------------------------------
+  offline: {
+    /** All offline storage queries */
+    root: ['offline'] as const,
+
+    /** Downloaded question pool for a test type */
+    pack: (testType: TestType) => ['offline', 'pack', testType] as const,
+
+    /** Downloaded glossary terms */
+    glossary: () => ['offline', 'glossary'] as const,
+
+    /** Attempts waiting to sync */
+    outbox: () => ['offline', 'outbox'] as const,
+  },
+
   // ---------------------------------------------------------------------------
   // Geocoding/Mapbox Domain
   // ---------------------------------------------------------------------------
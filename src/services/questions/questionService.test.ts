@@ -9,6 +9,8 @@ const mockIlike = vi.fn();
 const mockLike = vi.fn();
 const mockIn = vi.fn();
 const mockSingle = vi.fn();
+const mockOrder = vi.fn();
+const mockLimit = vi.fn();
 const mockFrom = vi.fn();
 
 vi.mock('@/integrations/supabase/client', () => ({
@@ -62,7 +64,9 @@ beforeEach(() => {
   });
   mockLike.mockReturnValue({ data: [], error: null });
   mockEq.mockReturnValue({ single: mockSingle });
-  mockIlike.mockReturnValue({ single: mockSingle });
+  mockIlike.mockReturnValue({ order: mockOrder });
+  mockOrder.mockReturnValue({ limit: mockLimit });
+  mockLimit.mockReturnValue({ single: mockSingle });
 });
 
 describe('QuestionService', () => {
@@ -94,6 +98,19 @@ describe('QuestionService', () => {
       expect(mockLike).toHaveBeenCalledWith('display_name', 'T%');
     });
 
+    it('filters by pool version when provided', async () => {
+      mockLike.mockReturnValue({ eq: mockEq });
+      mockEq.mockResolvedValue({ data: [makeDbQuestion({ pool_version: '2026-2030' })], error: null });
+
+      const result = await questionService.getAll('technician', '2026-2030');
+
+      expect(result.success).toBe(true);
+      expect(mockEq).toHaveBeenCalledWith('pool_version', '2026-2030');
+      if (result.success) {
+        expect(result.data[0].poolVersion).toBe('2026-2030');
+      }
+    });
+
     it('returns empty array when no questions exist', async () => {
       mockSelect.mockResolvedValue({ data: null, error: null });
 
@@ -141,6 +158,23 @@ describe('QuestionService', () => {
     });
   });
 
+  describe('getPoolIndex', () => {
+    it('returns ids and display names for one pool of a test type', async () => {
+      const mockPoolEq = vi.fn().mockResolvedValue({
+        data: [{ id: 'q1', display_name: 'G1A01' }],
+        error: null,
+      });
+      mockLike.mockReturnValue({ eq: mockPoolEq });
+
+      const result = await questionService.getPoolIndex('general', '2023-2027');
+
+      expect(mockSelect).toHaveBeenCalledWith('id, display_name');
+      expect(mockLike).toHaveBeenCalledWith('display_name', 'G%');
+      expect(mockPoolEq).toHaveBeenCalledWith('pool_version', '2023-2027');
+      expect(result).toEqual({ success: true, data: [{ id: 'q1', displayName: 'G1A01' }] });
+    });
+  });
+
   describe('getById', () => {
     it('fetches question by UUID', async () => {
       const uuid = '550e8400-e29b-41d4-a716-446655440000';
@@ -164,6 +198,8 @@ describe('QuestionService', () => {
 
       expect(result.success).toBe(true);
       expect(mockIlike).toHaveBeenCalledWith('display_name', 'T1A01');
+      expect(mockOrder).toHaveBeenCalledWith('pool_version', { ascending: false });
+      expect(mockLimit).toHaveBeenCalledWith(1);
     });
 
     it('returns NOT_FOUND when question does not exist', async () => {
@@ -41,6 +41,8 @@ export interface Question {
   explanation?: string | null;
   forumUrl?: string | null;
   figureUrl?: string | null;
+  /** Figure name such as "T-1", shared by every question that uses it */
+  figureReference?: string | null;
   topics?: QuestionTopic[];
   arrlChapterId?: string | null;
   arrlPageReference?: string | null;
@@ -73,6 +75,7 @@ interface DbQuestion {
   explanation: string | null;
   forum_url: string | null;
   figure_url: string | null;
+  figure_reference: string | null;
   topic_questions?: DbTopicQuestion[];
   arrl_chapter_id: string | null;
   arrl_page_reference: string | null;
@@ -120,6 +123,7 @@ function transformQuestion(dbQuestion: DbQuestion): Question {
     explanation: dbQuestion.explanation,
     forumUrl: dbQuestion.forum_url,
     figureUrl: dbQuestion.figure_url,
+    figureReference: dbQuestion.figure_reference,
     topics: topics.length > 0 ? topics : undefined,
     arrlChapterId: dbQuestion.arrl_chapter_id,
     arrlPageReference: dbQuestion.arrl_page_reference,
@@ -146,7 +150,7 @@ const QUESTION_SELECT = `
 // ---------------------------------------------------------------------------
 
 class QuestionService extends ServiceBase {
-  async getAll(testType?: TestType): Promise<ServiceResult<Question[]>> {
+  async getAll(testType?: TestType, poolVersion?: string): Promise<ServiceResult<Question[]>> {
     return this.handleQueryAllowEmpty(
       async () => {
         let query = supabase
@@ -158,6 +162,11 @@ class QuestionService extends ServiceBase {
           query = query.like('display_name', `${prefix}%`);
         }
 
+        // During a pool transition the same display_name exists in two pools
+        if (poolVersion) {
+          query = query.eq('pool_version', poolVersion);
+        }
+
         const { data, error } = await query;
         return {
           data: data ? (data as DbQuestion[]).map(transformQuestion) : null,
@@ -169,6 +178,29 @@ class QuestionService extends ServiceBase {
     );
   }
 
+  /** IDs and display names only, for picking from a pool without loading it */
+  async getPoolIndex(
+    testType: TestType,
+    poolVersion: string
+  ): Promise<ServiceResult<Pick<Question, 'id' | 'displayName'>[]>> {
+    return this.handleQueryAllowEmpty(
+      async () => {
+        const { data, error } = await supabase
+          .from('questions')
+          .select('id, display_name')
+          .like('display_name', `${getTestTypePrefix(testType)}%`)
+          .eq('pool_version', poolVersion);
+
+        return {
+          data: data ? data.map(row => ({ id: row.id, displayName: row.display_name })) : null,
+          error,
+        };
+      },
+      [],
+      'Failed to fetch question pool'
+    );
+  }
+
   async getById(questionId: string): Promise<ServiceResult<Question>> {
     return this.handleQuery(
       async () => {
@@ -176,11 +208,16 @@ class QuestionService extends ServiceBase {
         const column = lookupByUUID ? 'id' : 'display_name';
 
         // display_name lookup uses ilike for case-insensitive matching,
-        // allowing URLs like /questions/t1a01 to resolve to T1A01
+        // allowing URLs like /questions/t1a01 to resolve to T1A01.
+        // When a display_name exists in two pools, the newest pool wins.
         const query = supabase.from('questions').select(QUESTION_SELECT);
         const { data, error } = lookupByUUID
           ? await query.eq(column, questionId).single()
-          : await query.ilike(column, questionId).single();
+          : await query
+              .ilike(column, questionId)
+              .order('pool_version', { ascending: false })
+              .limit(1)
+              .single();
 
         return {
           data: data ? transformQuestion(data as DbQuestion) : null,
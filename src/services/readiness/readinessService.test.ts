@@ -5,6 +5,8 @@ import { readinessService } from './readinessService';
 const mockSelect = vi.fn();
 const mockEq = vi.fn();
 const mockGte = vi.fn();
+const mockLt = vi.fn();
+const mockLimit = vi.fn();
 const mockOrder = vi.fn();
 const mockMaybeSingle = vi.fn();
 const mockFrom = vi.fn();
@@ -26,8 +28,10 @@ beforeEach(() => {
   vi.clearAllMocks();
   mockFrom.mockReturnValue({ select: mockSelect });
   mockSelect.mockReturnValue({ eq: mockEq });
-  mockEq.mockReturnValue({ eq: mockEq, maybeSingle: mockMaybeSingle, gte: mockGte });
+  mockEq.mockReturnValue({ eq: mockEq, maybeSingle: mockMaybeSingle, gte: mockGte, lt: mockLt });
   mockGte.mockReturnValue({ order: mockOrder });
+  mockLt.mockReturnValue({ order: mockOrder });
+  mockLimit.mockReturnValue({ maybeSingle: mockMaybeSingle });
 });
 
 const makeReadinessData = (overrides = {}) => ({
@@ -45,6 +49,7 @@ const makeReadinessData = (overrides = {}) => ({
   pass_probability: 0.78,
   expected_exam_score: 28,
   subelement_metrics: {},
+  group_metrics: {},
   total_attempts: 100,
   unique_questions_seen: 50,
   config_version: 'v1',
@@ -246,4 +251,44 @@ describe('ReadinessService', () => {
       }
     });
   });
+
+  describe('getSnapshotBefore', () => {
+    it('returns the latest snapshot before the date', async () => {
+      const snapshot = { id: 'snap-1', snapshot_date: '2026-10-10', readiness_score: 74, pass_probability: 0.8 };
+      mockOrder.mockReturnValue({ limit: mockLimit });
+      mockMaybeSingle.mockResolvedValue({ data: snapshot, error: null });
+
+      const result = await readinessService.getSnapshotBefore(userId, examType, '2026-10-11');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual(snapshot);
+      }
+      expect(mockFrom).toHaveBeenCalledWith('user_readiness_snapshots');
+      expect(mockLt).toHaveBeenCalledWith('snapshot_date', '2026-10-11');
+      expect(mockOrder).toHaveBeenCalledWith('snapshot_date', { ascending: false });
+      expect(mockLimit).toHaveBeenCalledWith(1);
+    });
+
+    it('returns null when there is no earlier snapshot', async () => {
+      mockOrder.mockReturnValue({ limit: mockLimit });
+      mockMaybeSingle.mockResolvedValue({ data: null, error: null });
+
+      const result = await readinessService.getSnapshotBefore(userId, examType, '2026-10-11');
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toBeNull();
+      }
+    });
+
+    it('returns AUTH_REQUIRED when userId is empty', async () => {
+      const result = await readinessService.getSnapshotBefore('', examType, '2026-10-11');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('AUTH_REQUIRED');
+      }
+    });
+  });
 });
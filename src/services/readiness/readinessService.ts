@@ -34,6 +34,19 @@ export interface SubelementMetric {
   recent_attempts_count: number;
 }
 
+/** Readiness metrics for one question group (T5A), one exam slot */
+export interface GroupMetric {
+  subelement: string;
+  accuracy: number | null;
+  recent_accuracy: number | null;
+  coverage: number;
+  mastery: number;
+  /** 0 when the group has never been attempted */
+  estimated_accuracy: number;
+  pool_size: number;
+  attempts_count: number;
+}
+
 export interface ReadinessData {
   id: string;
   user_id: string;
@@ -49,6 +62,7 @@ export interface ReadinessData {
   pass_probability: number | null;
   expected_exam_score: number | null;
   subelement_metrics: Record<string, SubelementMetric>;
+  group_metrics: Record<string, GroupMetric>;
   total_attempts: number;
   unique_questions_seen: number;
   config_version: string | null;
@@ -137,6 +151,34 @@ class ReadinessService extends ServiceBase {
       'Failed to fetch readiness snapshots'
     );
   }
+
+  /**
+   * Fetch the most recent snapshot taken before a date (YYYY-MM-DD).
+   * Used to capture what the model predicted ahead of a real exam.
+   */
+  async getSnapshotBefore(
+    userId: string,
+    examType: TestType,
+    date: string
+  ): Promise<ServiceResult<ReadinessSnapshot | null>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    return this.handleQueryAllowEmpty(
+      () =>
+        supabase
+          .from('user_readiness_snapshots')
+          .select('*')
+          .eq('user_id', userId)
+          .eq('exam_type', examType)
+          .lt('snapshot_date', date)
+          .order('snapshot_date', { ascending: false })
+          .limit(1)
+          .maybeSingle(),
+      null,
+      'Failed to fetch readiness snapshot'
+    );
+  }
 }
 
 export const readinessService = new ReadinessService();
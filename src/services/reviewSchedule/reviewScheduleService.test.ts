@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { reviewScheduleService } from './reviewScheduleService';
+
+// Chainable Supabase mock
+let mockResult: { data?: unknown; error: unknown };
+
+const chain: Record<string, ReturnType<typeof vi.fn>> & {
+  then?: (resolve: (v: unknown) => void) => void;
+} = {} as never;
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: {
+    from: () => chain,
+  },
+}));
+
+function buildChain() {
+  const methods = ['select', 'eq', 'not', 'order'];
+
+  for (const m of methods) {
+    chain[m] = vi.fn().mockReturnValue(chain);
+  }
+
+  chain.then = (resolve: (v: unknown) => void) => resolve(mockResult);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  mockResult = { data: null, error: null };
+  buildChain();
+});
+
+const userId = 'user-123';
+
+describe('ReviewScheduleService', () => {
+  describe('getSchedule', () => {
+    it('maps question_mastery rows to schedule entries', async () => {
+      mockResult = {
+        data: [
+          {
+            question_id: 'q-1',
+            ease_factor: '2.36',
+            interval_days: 6,
+            repetitions: 2,
+            lapses: 1,
+            due_at: '2026-06-10T12:00:00Z',
+            last_reviewed_at: '2026-06-04T12:00:00Z',
+            questions: { display_name: 'T1A01' },
+          },
+        ],
+        error: null,
+      };
+
+      const result = await reviewScheduleService.getSchedule(userId);
+
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data).toEqual([
+          {
+            questionId: 'q-1',
+            displayName: 'T1A01',
+            easeFactor: 2.36,
+            intervalDays: 6,
+            repetitions: 2,
+            lapses: 1,
+            dueAt: '2026-06-10T12:00:00Z',
+            lastReviewedAt: '2026-06-04T12:00:00Z',
+          },
+        ]);
+      }
+      expect(chain.eq).toHaveBeenCalledWith('user_id', userId);
+      expect(chain.not).toHaveBeenCalledWith('due_at', 'is', null);
+    });
+
+    it('returns an empty array when nothing is scheduled', async () => {
+      mockResult = { data: null, error: null };
+
+      const result = await reviewScheduleService.getSchedule(userId);
+
+      expect(result).toEqual({ success: true, data: [] });
+    });
+
+    it('returns AUTH_REQUIRED when userId is empty', async () => {
+      const result = await reviewScheduleService.getSchedule('');
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('AUTH_REQUIRED');
+      }
+    });
+
+    it('returns a DATABASE_ERROR on query failure', async () => {
+      mockResult = {
+        data: null,
+        error: { code: '42P01', message: 'relation does not exist', details: '', hint: '' },
+      };
+
+      const result = await reviewScheduleService.getSchedule(userId);
+
+      expect(result.success).toBe(false);
+      if (!result.success) {
+        expect(result.error.code).toBe('DATABASE_ERROR');
+        expect(result.error.message).toContain('Failed to fetch review schedule');
+      }
+    });
+  });
+});
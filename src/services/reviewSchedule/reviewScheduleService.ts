@@ -0,0 +1,59 @@
+import { supabase } from '@/integrations/supabase/client';
+import { ServiceBase } from '../shared/serviceBase';
+import { ServiceResult } from '../types';
+import type { ScheduledQuestion } from '@/lib/spacedRepetition';
+
+/** A question's review schedule with the display name needed for test-type filtering */
+export interface ReviewScheduleEntry extends ScheduledQuestion {
+  displayName: string;
+}
+
+interface DbScheduleRow {
+  question_id: string;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  due_at: string | null;
+  last_reviewed_at: string | null;
+  questions: { display_name: string } | null;
+}
+
+class ReviewScheduleService extends ServiceBase {
+  /**
+   * Fetch every scheduled question for a user.
+   * Questions that have never been reviewed (due_at is null) are excluded.
+   */
+  async getSchedule(userId: string): Promise<ServiceResult<ReviewScheduleEntry[]>> {
+    const userCheck = this.requireUserId(userId);
+    if (!userCheck.success) return userCheck;
+
+    return this.handleQueryAllowEmpty(
+      async () => {
+        const { data, error } = await supabase
+          .from('question_mastery')
+          .select('question_id, ease_factor, interval_days, repetitions, lapses, due_at, last_reviewed_at, questions!inner(display_name)')
+          .eq('user_id', userId)
+          .not('due_at', 'is', null)
+          .order('due_at', { ascending: true });
+
+        const entries = (data as DbScheduleRow[] | null)?.map(row => ({
+          questionId: row.question_id,
+          displayName: row.questions?.display_name ?? '',
+          easeFactor: Number(row.ease_factor),
+          intervalDays: row.interval_days,
+          repetitions: row.repetitions,
+          lapses: row.lapses,
+          dueAt: row.due_at,
+          lastReviewedAt: row.last_reviewed_at,
+        })) ?? null;
+
+        return { data: entries, error };
+      },
+      [],
+      'Failed to fetch review schedule'
+    );
+  }
+}
+
+export const reviewScheduleService = new ReviewScheduleService();
@@ -71,8 +71,10 @@ describe('ServiceBase', () => {
       { code: '42501', expected: 'FORBIDDEN', label: 'insufficient_privilege' },
       { code: 'PGRST301', expected: 'FORBIDDEN', label: 'JWT expired' },
       { code: 'PGRST116', expected: 'NOT_FOUND', label: 'no rows returned' },
+      { code: 'P0002', expected: 'NOT_FOUND', label: 'no_data_found' },
       { code: '23505', expected: 'CONFLICT', label: 'unique_violation' },
       { code: '23503', expected: 'CONFLICT', label: 'foreign_key_violation' },
+      { code: '55000', expected: 'CONFLICT', label: 'object_not_in_prerequisite_state' },
       { code: '23502', expected: 'VALIDATION_ERROR', label: 'not_null_violation' },
       { code: '23514', expected: 'VALIDATION_ERROR', label: 'check_violation' },
       { code: '22P02', expected: 'VALIDATION_ERROR', label: 'invalid_text_representation' },
@@ -56,11 +56,13 @@ export abstract class ServiceBase {
 
       // Not found
       case 'PGRST116': // No rows returned
+      case 'P0002': // no_data_found (raised by RPCs for unknown lookups)
         return 'NOT_FOUND';
 
       // Constraint violations
       case '23505': // unique_violation
       case '23503': // foreign_key_violation
+      case '55000': // object_not_in_prerequisite_state (e.g. already reviewed)
         return 'CONFLICT';
 
       // Validation
@@ -97,6 +97,7 @@ describe('StreakService', () => {
         p_tests: 1,
         p_tests_passed: 1,
         p_glossary: 0,
+        p_morse: 0,
       });
     });
 
@@ -116,6 +117,7 @@ describe('StreakService', () => {
         p_tests: 0,
         p_tests_passed: 0,
         p_glossary: 0,
+        p_morse: 0,
       });
     });
 
@@ -144,4 +146,49 @@ describe('StreakService', () => {
       }
     });
   });
+
+  describe('incrementActivityOnce', () => {
+    it('calls increment_daily_activity_once with the outbox entry id', async () => {
+      mockRpc.mockResolvedValue({ data: true, error: null });
+
+      const result = await streakService.incrementActivityOnce('entry-1', '2024-06-14', {
+        questions: 1,
+        correct: 1,
+      });
+
+      expect(result).toEqual({ success: true, data: true });
+      expect(mockRpc).toHaveBeenCalledWith('increment_daily_activity_once', {
+        p_client_id: 'entry-1',
+        p_date: '2024-06-14',
+        p_questions: 1,
+        p_correct: 1,
+        p_tests: 0,
+        p_tests_passed: 0,
+        p_glossary: 0,
+      });
+    });
+
+    it('returns false when the entry was already counted', async () => {
+      mockRpc.mockResolvedValue({ data: false, error: null });
+
+      const result = await streakService.incrementActivityOnce('entry-1', '2024-06-14', {
+        questions: 1,
+      });
+
+      expect(result).toEqual({ success: true, data: false });
+    });
+
+    it('returns failure on RPC error', async () => {
+      mockRpc.mockResolvedValue({
+        data: null,
+        error: { message: 'Must be signed in', code: 'P0001', details: '', hint: '' },
+      });
+
+      const result = await streakService.incrementActivityOnce('entry-1', '2024-06-14', {
+        questions: 1,
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
 });
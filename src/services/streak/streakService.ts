@@ -28,6 +28,8 @@ export interface IncrementActivityOptions {
   testsPassed?: number;
   /** Number of glossary terms studied */
   glossary?: number;
+  /** Number of Morse characters copied in the CW trainer */
+  morse?: number;
 }
 
 class StreakService extends ServiceBase {
@@ -70,10 +72,36 @@ class StreakService extends ServiceBase {
           p_tests: options.tests ?? 0,
           p_tests_passed: options.testsPassed ?? 0,
           p_glossary: options.glossary ?? 0,
+          p_morse: options.morse ?? 0,
         }),
       'Failed to increment daily activity'
     );
   }
+
+  /**
+   * Increment daily activity for one offline outbox entry.
+   * The server keeps a receipt per client id, so replaying the same entry
+   * again returns false instead of counting the activity twice.
+   */
+  async incrementActivityOnce(
+    clientId: string,
+    date: string,
+    options: IncrementActivityOptions
+  ): Promise<ServiceResult<boolean>> {
+    return this.handleQuery(
+      () =>
+        supabase.rpc('increment_daily_activity_once', {
+          p_client_id: clientId,
+          p_date: date,
+          p_questions: options.questions ?? 0,
+          p_correct: options.correct ?? 0,
+          p_tests: options.tests ?? 0,
+          p_tests_passed: options.testsPassed ?? 0,
+          p_glossary: options.glossary ?? 0,
+        }),
+      'Failed to sync offline activity'
+    );
+  }
 }
 
 export const streakService = new StreakService();
@@ -92,7 +92,7 @@ describe('WeeklyGoalsService', () => {
     it('upserts goals successfully', async () => {
       mockResult = { error: null };
 
-      const result = await weeklyGoalsService.upsertGoals(userId, 150, 4);
+      const result = await weeklyGoalsService.upsertGoals(userId, 150, 4, [1, 3, 5]);
 
       expect(result.success).toBe(true);
       expect(chain.upsert).toHaveBeenCalledWith(
@@ -100,13 +100,14 @@ describe('WeeklyGoalsService', () => {
           user_id: userId,
           questions_goal: 150,
           tests_goal: 4,
+          study_days: [1, 3, 5],
         },
         { onConflict: 'user_id' }
       );
     });
 
     it('returns AUTH_REQUIRED when userId is empty', async () => {
-      const result = await weeklyGoalsService.upsertGoals('', 50, 2);
+      const result = await weeklyGoalsService.upsertGoals('', 50, 2, [1]);
 
       expect(result.success).toBe(false);
       if (!result.success) {
@@ -119,7 +120,7 @@ describe('WeeklyGoalsService', () => {
         error: { message: 'check violation', code: '23514', details: '', hint: '' },
       };
 
-      const result = await weeklyGoalsService.upsertGoals(userId, 50, 2);
+      const result = await weeklyGoalsService.upsertGoals(userId, 50, 2, [1]);
 
       expect(result.success).toBe(false);
       if (!result.success) {
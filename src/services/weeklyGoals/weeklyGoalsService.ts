@@ -6,6 +6,8 @@ export interface WeeklyGoals {
   user_id: string;
   questions_goal: number;
   tests_goal: number;
+  /** Weekdays the learner can study, 0 = Sunday */
+  study_days: number[];
 }
 
 class WeeklyGoalsService extends ServiceBase {
@@ -28,7 +30,8 @@ class WeeklyGoalsService extends ServiceBase {
   async upsertGoals(
     userId: string,
     questionsGoal: number,
-    testsGoal: number
+    testsGoal: number,
+    studyDays: number[]
   ): Promise<ServiceResult<void>> {
     const userCheck = this.requireUserId(userId);
     if (!userCheck.success) return userCheck;
@@ -42,6 +45,7 @@ class WeeklyGoalsService extends ServiceBase {
               user_id: userId,
               questions_goal: questionsGoal,
               tests_goal: testsGoal,
+              study_days: studyDays,
             },
             { onConflict: 'user_id' }
           ),
@@ -0,0 +1,46 @@
+/**
+ * Content Hash Sync Tests
+ *
+ * question_content_hash in Postgres mirrors generateContentHash in
+ * src/lib/contentHash.ts. Rollbacks and pool carry-over compare hashes from
+ * both sides, so a normalization mismatch silently breaks them. Both sides
+ * are held to the same known-answer vectors: the client here, and the SQL by
+ * the assertions the migration runs.
+ */
+
+import { describe, it, expect, beforeAll } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { generateContentHash } from '@/lib/contentHash';
+import { contentHashVectors } from '@/test/fixtures';
+
+const MIGRATION_FILE = path.join(
+  __dirname,
+  '../../supabase/migrations/20260612000000_add_pool_version_transition.sql'
+);
+
+describe('content hash vectors', () => {
+  let migration: string;
+
+  beforeAll(() => {
+    migration = fs.readFileSync(MIGRATION_FILE, 'utf-8');
+  });
+
+  it.each(contentHashVectors.map((vector) => [vector.label, vector]))(
+    'generateContentHash matches the %s vector',
+    async (_label, vector) => {
+      expect(await generateContentHash(vector.question, vector.options, vector.correctAnswer)).toBe(
+        vector.hash
+      );
+    }
+  );
+
+  it.each(contentHashVectors.map((vector) => [vector.label, vector]))(
+    'the migration asserts the %s vector',
+    (_label, vector) => {
+      expect(migration).toMatch(
+        new RegExp(`= '${vector.hash}',\\s*'question_content_hash: ${vector.label}'`)
+      );
+    }
+  );
+});
@@ -0,0 +1,52 @@
+/**
+ * Known-answer vectors for question content hashes.
+ * generateContentHash (src/lib/contentHash.ts) and question_content_hash
+ * (20260612000000_add_pool_version_transition.sql) must both produce these
+ * hashes; the migration asserts the same vectors when it runs.
+ */
+
+export interface ContentHashVector {
+  label: string;
+  question: string;
+  options: string[];
+  correctAnswer: number;
+  hash: string;
+}
+
+export const contentHashVectors: ContentHashVector[] = [
+  {
+    label: 'plain text',
+    question: 'What is 2 + 2?',
+    options: ['3', '4', '5', '6'],
+    correctAnswer: 1,
+    hash: '9b0cd66c956d80b4ea00801f01b336f2f937c54d50fd19c221dcc70091dc4bcc',
+  },
+  {
+    label: 'surrounding spaces',
+    question: '  What is 2 + 2?  ',
+    options: [' 3', '4 ', '5', '6'],
+    correctAnswer: 1,
+    hash: '9b0cd66c956d80b4ea00801f01b336f2f937c54d50fd19c221dcc70091dc4bcc',
+  },
+  {
+    label: 'tabs and newlines at the ends',
+    question: "\tWhat is Ohm's law?\n",
+    options: ['E = IR\r\n', '\tP = IE', 'R = E/I', 'I = E/R '],
+    correctAnswer: 0,
+    hash: 'c1bf632c9de762d42250a1d5bc1ac6cee40eca713abc688cf23bc31aa5a1046c',
+  },
+  {
+    label: 'inner runs of whitespace',
+    question: 'Which   band\tis\n\nclosest?',
+    options: ['2  meters', '70\tcm', '6 meters', '10 meters'],
+    correctAnswer: 3,
+    hash: '95424bbc4959e7fb51f14ce368f8f9a44076bed64f78eedf77a70f831fac26b1',
+  },
+  {
+    label: 'mixed case',
+    question: 'WHAT is the Unit of Capacitance?',
+    options: ['Farad', 'HENRY', 'ohm', 'Watt'],
+    correctAnswer: 0,
+    hash: 'ecc4bda168645f08075f816623973c539ecc0103824d8495467248e3c11cff11',
+  },
+];
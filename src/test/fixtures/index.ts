@@ -8,3 +8,4 @@
 
 export * from './questions';
 export * from './users';
+export * from './contentHashVectors';
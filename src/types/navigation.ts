@@ -3,13 +3,20 @@ export type View =
   | 'practice-test'
   | 'random-practice'
   | 'weak-questions'
+  | 'due-review'
   | 'bookmarks'
   | 'subelement-practice'
   | 'chapter-practice'
+  | 'custom-test'
   | 'review-test'
   | 'glossary'
   | 'glossary-flashcards'
+  | 'morse-trainer'
+  | 'band-plan'
   | 'tools'
+  | 'find-exam'
+  | 'classrooms'
+  | 'moderation'
   | 'topics'
   | 'topic-detail'
   | 'lessons'
@@ -3,7 +3,17 @@
 // ============================================================
 
 import { assertEquals } from "jsr:@std/assert@1";
-import { checkThrottle, evaluateThrottle, recordRun, throttledResponse } from "./throttle.ts";
+import {
+  checkRateLimit,
+  checkThrottle,
+  evaluateRateLimit,
+  evaluateThrottle,
+  getClientAddress,
+  rateLimitBucketKey,
+  rateLimitHeaders,
+  recordRun,
+  throttledResponse,
+} from "./throttle.ts";
 
 const NOW = Date.parse("2026-05-29T12:00:00.000Z");
 
@@ -187,3 +197,102 @@ Deno.test("throttledResponse - returns 429 with Retry-After and JSON body", asyn
   assertEquals(body.retryAfterSeconds, 42);
   assertEquals(typeof body.message, "string");
 });
+
+// ============================================================
+// evaluateRateLimit Tests
+// ============================================================
+
+Deno.test("evaluateRateLimit - allows requests up to the limit", () => {
+  const windowStart = new Date(NOW - 10_000).toISOString();
+  assertEquals(evaluateRateLimit(1, windowStart, 60, 60, NOW), {
+    allowed: true, retryAfterSeconds: 0, limit: 60, remaining: 59,
+  });
+  assertEquals(evaluateRateLimit(60, windowStart, 60, 60, NOW), {
+    allowed: true, retryAfterSeconds: 0, limit: 60, remaining: 0,
+  });
+});
+
+Deno.test("evaluateRateLimit - blocks until the window resets", () => {
+  const windowStart = new Date(NOW - 45_000).toISOString(); // 45s into a 60s window
+  assertEquals(evaluateRateLimit(61, windowStart, 60, 60, NOW), {
+    allowed: false, retryAfterSeconds: 15, limit: 60, remaining: 0,
+  });
+});
+
+Deno.test("evaluateRateLimit - waits a full window when the start is unknown", () => {
+  assertEquals(evaluateRateLimit(61, "garbage", 60, 60, NOW).retryAfterSeconds, 60);
+  assertEquals(evaluateRateLimit(61, null, 60, 60, NOW).retryAfterSeconds, 60);
+});
+
+// ============================================================
+// Caller identification Tests
+// ============================================================
+
+Deno.test("getClientAddress - uses the forwarded hop the gateway appended", () => {
+  assertEquals(
+    getClientAddress(new Request("https://x", { headers: { "x-forwarded-for": "2.2.2.2" } })),
+    "2.2.2.2",
+  );
+  assertEquals(
+    getClientAddress(new Request("https://x", { headers: { "x-forwarded-for": "6.6.6.6, 203.0.113.7" } })),
+    "203.0.113.7",
+  );
+  assertEquals(getClientAddress(new Request("https://x")), "unknown");
+});
+
+Deno.test("getClientAddress - ignores addresses the client can set", () => {
+  const spoofed = (fake: string) =>
+    getClientAddress(
+      new Request("https://x", {
+        headers: { "cf-connecting-ip": fake, "x-real-ip": fake, "x-forwarded-for": `${fake}, 203.0.113.7` },
+      }),
+    );
+
+  assertEquals(spoofed("1.1.1.1"), "203.0.113.7");
+  assertEquals(spoofed("9.9.9.9"), "203.0.113.7");
+});
+
+Deno.test("rateLimitBucketKey - hashes the address under the function name", async () => {
+  const key = await rateLimitBucketKey("question-api", "203.0.113.7");
+  assertEquals(key.startsWith("question-api:"), true);
+  assertEquals(key.includes("203.0.113.7"), false);
+  assertEquals(key.length, "question-api:".length + 32);
+  assertEquals(await rateLimitBucketKey("question-api", "203.0.113.7"), key);
+});
+
+// ============================================================
+// checkRateLimit Tests
+// ============================================================
+
+Deno.test("checkRateLimit - counts the request through the RPC", async () => {
+  let captured: Record<string, unknown> = {};
+  const supabase = {
+    rpc(name: string, args: Record<string, unknown>) {
+      captured = { name, ...args };
+      return Promise.resolve({
+        data: [{ request_count: 3, window_start: new Date().toISOString() }],
+        error: null,
+      });
+    },
+  };
+
+  const decision = await checkRateLimit(supabase, "question-api:abc", 60, 60);
+
+  assertEquals(captured, { name: "hit_edge_function_rate_limit", p_bucket_key: "question-api:abc", p_window_seconds: 60 });
+  assertEquals(decision, { allowed: true, retryAfterSeconds: 0, limit: 60, remaining: 57 });
+});
+
+Deno.test("checkRateLimit - fails open on RPC errors and rejections", async () => {
+  const failing = { rpc: () => Promise.resolve({ data: null, error: { message: "boom" } }) };
+  const rejecting = { rpc: () => Promise.reject(new Error("network down")) };
+
+  assertEquals((await checkRateLimit(failing, "k", 60, 60)).allowed, true);
+  assertEquals((await checkRateLimit(rejecting, "k", 60, 60)).allowed, true);
+});
+
+Deno.test("rateLimitHeaders - reports the limit and remaining requests", () => {
+  assertEquals(rateLimitHeaders({ allowed: true, retryAfterSeconds: 0, limit: 60, remaining: 12 }), {
+    "X-RateLimit-Limit": "60",
+    "X-RateLimit-Remaining": "12",
+  });
+});
@@ -26,6 +26,9 @@
  * admin-gated and have no automated callers, so a concurrent double-run is
  * low-risk and not worth an atomic conditional-upsert (which would also break
  * the batched-completion semantics above).
+ *
+ * Public endpoints use the per-caller limiter at the bottom of this file
+ * (`checkRateLimit()`) instead.
  */
 
 export interface ThrottleDecision {
@@ -163,3 +166,120 @@ export function throttledResponse(
     },
   );
 }
+
+// ============================================================
+// PER-CALLER RATE LIMITING
+// ============================================================
+//
+// Public, unauthenticated endpoints (question-api) can't use the global
+// cooldown above: every caller would share one slot. Instead each caller gets
+// a fixed window of `limit` requests, counted atomically by the
+// `hit_edge_function_rate_limit` RPC (edge_function_rate_limits table).
+// Callers are identified by a hash of their address, never the raw IP.
+
+export interface RateLimitDecision extends ThrottleDecision {
+  /** Requests allowed per window. */
+  limit: number;
+  /** Requests left in the current window. */
+  remaining: number;
+}
+
+/**
+ * Pure decision helper: given the request count so far in the caller's
+ * window (including this request), decide whether it may proceed.
+ *
+ * @param requestCount - Requests counted in the current window
+ * @param windowStartIso - ISO timestamp the current window opened
+ * @param limit - Requests allowed per window
+ * @param windowSeconds - Window length
+ * @param nowMs - Current time in ms (injectable for testing)
+ */
+export function evaluateRateLimit(
+  requestCount: number,
+  windowStartIso: string | null | undefined,
+  limit: number,
+  windowSeconds: number,
+  nowMs: number = Date.now(),
+): RateLimitDecision {
+  if (requestCount <= limit) {
+    return { allowed: true, retryAfterSeconds: 0, limit, remaining: limit - requestCount };
+  }
+
+  const windowStartMs = windowStartIso ? new Date(windowStartIso).getTime() : NaN;
+  const retryAfterSeconds = Number.isNaN(windowStartMs)
+    ? windowSeconds
+    : Math.max(1, Math.ceil(windowSeconds - (nowMs - windowStartMs) / 1000));
+
+  return { allowed: false, retryAfterSeconds, limit, remaining: 0 };
+}
+
+/**
+ * Caller address as seen by Supabase's gateway: the last X-Forwarded-For hop,
+ * which the gateway appends. Earlier hops (and headers like cf-connecting-ip)
+ * come from the client and can be changed on every request to dodge a limit.
+ * Falls back to "unknown", which puts such callers in one shared bucket.
+ */
+export function getClientAddress(req: Request): string {
+  const hops = req.headers.get("x-forwarded-for")?.split(",") ?? [];
+  return hops.at(-1)?.trim() || "unknown";
+}
+
+/** Bucket key for a caller of `functionName`, hashed so no raw IP is stored. */
+export async function rateLimitBucketKey(functionName: string, clientAddress: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(clientAddress));
+  const hex = Array.from(new Uint8Array(digest))
+    .slice(0, 16)
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `${functionName}:${hex}`;
+}
+
+/**
+ * Count this request against the caller's window and decide whether it may
+ * proceed. Unlike `checkThrottle()`, this records as it checks: every request
+ * counts, successful or not.
+ *
+ * Fails open, like `checkThrottle()`: if the counter can't be updated the
+ * request is allowed, since availability of read-only public data matters
+ * more than exact accounting.
+ *
+ * @param supabase - A service_role Supabase client
+ * @param bucketKey - From `rateLimitBucketKey()`
+ * @param limit - Requests allowed per window
+ * @param windowSeconds - Window length
+ */
+export async function checkRateLimit(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  supabase: any,
+  bucketKey: string,
+  limit: number,
+  windowSeconds: number,
+): Promise<RateLimitDecision> {
+  const failOpen = { allowed: true, retryAfterSeconds: 0, limit, remaining: limit };
+  try {
+    const { data, error } = await supabase.rpc("hit_edge_function_rate_limit", {
+      p_bucket_key: bucketKey,
+      p_window_seconds: windowSeconds,
+    });
+
+    if (error) {
+      console.error(`[throttle] rate limit error for ${bucketKey}:`, error);
+      return failOpen;
+    }
+
+    const row = Array.isArray(data) ? data[0] : data;
+    if (!row) return failOpen;
+    return evaluateRateLimit(row.request_count, row.window_start, limit, windowSeconds);
+  } catch (err) {
+    console.error(`[throttle] rate limit threw for ${bucketKey}:`, err);
+    return failOpen;
+  }
+}
+
+/** Standard rate limit headers to attach to every response. */
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  return {
+    "X-RateLimit-Limit": String(decision.limit),
+    "X-RateLimit-Remaining": String(decision.remaining),
+  };
+}
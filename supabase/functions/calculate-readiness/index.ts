@@ -8,6 +8,7 @@ import {
   type Config,
   type Metrics,
   type SubelementMetric,
+  type GroupMetric,
   type ReadinessResult,
   type FormulaWeights,
   type PassProbabilityConfig,
@@ -16,6 +17,7 @@ import {
   type BlendConfig,
   type ThresholdsConfig,
 } from "./logic.ts";
+import { calculateSubelementMetrics, gatherMetrics, resolvePoolVersion } from "./metrics.ts";
 
 // ============================================================
 // REQUEST TYPE
@@ -136,6 +138,7 @@ Deno.serve(async (req: Request) => {
           readiness_score: existingCache.readiness_score,
           pass_probability: existingCache.pass_probability,
           expected_exam_score: existingCache.expected_exam_score,
+          group_metrics: existingCache.group_metrics,
           config_version: existingCache.config_version,
         }),
         {
@@ -148,11 +151,16 @@ Deno.serve(async (req: Request) => {
     const config = await loadConfig(supabase);
     console.log(`[${requestId}] Loaded config version: ${config.version}`);
 
+    // Score the pool the learner studies, the same one the app shows them
+    const poolVersion = await resolvePoolVersion(supabase, exam_type);
+    console.log(`[${requestId}] Pool version: ${poolVersion}`);
+
     // Gather raw metrics with graceful degradation
     const metrics = await gatherMetrics(
       supabase,
       user.id,
       prefix,
+      poolVersion,
       config.thresholds,
       requestId
     );
@@ -166,11 +174,12 @@ Deno.serve(async (req: Request) => {
       `[${requestId}] Result: score=${result.readinessScore.toFixed(1)}, passProbability=${(result.passProbability * 100).toFixed(1)}%`
     );
 
-    // Calculate subelement metrics (optimized - single batch of queries)
-    const subelementMetrics = await calculateSubelementMetrics(
+    // Calculate subelement and question group metrics (optimized - single batch of queries)
+    const { subelementMetrics, groupMetrics } = await calculateSubelementMetrics(
       supabase,
       user.id,
       prefix,
+      poolVersion,
       config,
       requestId
     );
@@ -213,6 +222,7 @@ Deno.serve(async (req: Request) => {
         exam_type,
         { ...result, expectedExamScore },
         subelementMetrics,
+        groupMetrics,
         metrics,
         config.version
       );
@@ -234,6 +244,7 @@ Deno.serve(async (req: Request) => {
         readiness_score: result.readinessScore,
         pass_probability: result.passProbability,
         expected_exam_score: expectedExamScore,
+        group_metrics: groupMetrics,
         metrics: {
           recent_accuracy: metrics.recentAccuracy,
           overall_accuracy: metrics.overallAccuracy,
@@ -270,6 +281,7 @@ interface CacheFreshnessResult {
   readiness_score: number;
   pass_probability: number;
   expected_exam_score: number;
+  group_metrics: Record<string, GroupMetric>;
   config_version: string | null;
   age_seconds: number;
 }
@@ -287,7 +299,7 @@ async function checkCacheFreshness(
   try {
     const { data, error } = await supabase
       .from("user_readiness_cache")
-      .select("readiness_score, pass_probability, expected_exam_score, config_version, calculated_at")
+      .select("readiness_score, pass_probability, expected_exam_score, group_metrics, config_version, calculated_at")
       .eq("user_id", userId)
       .eq("exam_type", examType)
       .maybeSingle();
@@ -304,6 +316,7 @@ async function checkCacheFreshness(
         readiness_score: data.readiness_score,
         pass_probability: data.pass_probability,
         expected_exam_score: data.expected_exam_score,
+        group_metrics: data.group_metrics ?? {},
         config_version: data.config_version,
         age_seconds: Math.round(ageSeconds),
       };
@@ -353,382 +366,6 @@ async function loadConfig(supabase: SupabaseClient): Promise<Config> {
   }
 }
 
-// ============================================================
-// METRICS GATHERING (with graceful degradation)
-// ============================================================
-
-async function gatherMetrics(
-  supabase: SupabaseClient,
-  userId: string,
-  prefix: string,
-  thresholds: ThresholdsConfig,
-  requestId: string
-): Promise<Metrics> {
-  // Default fallback metrics
-  const fallbackMetrics: Metrics = {
-    recentAccuracy: null,
-    overallAccuracy: null,
-    coverage: 0,
-    mastery: 0,
-    testsPassed: 0,
-    testsTaken: 0,
-    testPassRate: 0,
-    daysSinceStudy: 30,
-    lastStudyAt: null,
-    totalAttempts: 0,
-    uniqueQuestionsSeen: 0,
-    totalPoolSize: 0,
-  };
-
-  // Get total pool size for this exam type
-  let totalPoolSize = 0;
-  try {
-    const { count } = await supabase
-      .from("questions")
-      .select("id", { count: "exact", head: true })
-      .like("display_name", `${prefix}%`);
-    totalPoolSize = count || 0;
-  } catch (err) {
-    console.warn(`[${requestId}] Failed to get pool size:`, err);
-  }
-
-  if (totalPoolSize === 0) {
-    console.warn(`[${requestId}] No questions found for prefix ${prefix}`);
-    return fallbackMetrics;
-  }
-
-  // Get all attempts for this exam type (we'll process in JS for flexibility)
-  let attempts: Array<{
-    is_correct: boolean;
-    attempted_at: string;
-    question_id: string;
-  }> = [];
-
-  try {
-    const { data: allAttempts, error } = await supabase
-      .from("question_attempts")
-      .select("is_correct, attempted_at, question_id, questions!inner(display_name)")
-      .eq("user_id", userId)
-      .like("questions.display_name", `${prefix}%`)
-      .order("attempted_at", { ascending: false });
-
-    if (error) {
-      console.warn(`[${requestId}] Failed to get attempts:`, error);
-    } else {
-      attempts = allAttempts || [];
-    }
-  } catch (err) {
-    console.warn(`[${requestId}] Exception getting attempts:`, err);
-  }
-
-  const totalAttempts = attempts.length;
-
-  // Recent accuracy (last N questions)
-  const recentAttempts = attempts.slice(0, thresholds.recent_window);
-  const recentCorrect = recentAttempts.filter((a) => a.is_correct).length;
-  const recentAccuracy =
-    recentAttempts.length > 0 ? recentCorrect / recentAttempts.length : null;
-
-  // Overall accuracy
-  const overallCorrect = attempts.filter((a) => a.is_correct).length;
-  const overallAccuracy =
-    totalAttempts > 0 ? overallCorrect / totalAttempts : null;
-
-  // Unique questions seen (coverage)
-  const uniqueQuestionIds = new Set(attempts.map((a) => a.question_id));
-  const uniqueQuestionsSeen = uniqueQuestionIds.size;
-  const coverage = totalPoolSize ? uniqueQuestionsSeen / totalPoolSize : 0;
-
-  // Mastery (questions correct 2+ times)
-  // Use a join instead of .in() with many IDs to avoid URL length limits
-  let masteredCount = 0;
-  try {
-    const { count } = await supabase
-      .from("question_mastery")
-      .select("question_id, questions!inner(display_name)", { count: "exact", head: true })
-      .eq("user_id", userId)
-      .eq("is_mastered", true)
-      .like("questions.display_name", `${prefix}%`);
-    masteredCount = count || 0;
-  } catch (err) {
-    console.warn(`[${requestId}] Failed to get mastery:`, err);
-  }
-
-  const mastery = totalPoolSize ? masteredCount / totalPoolSize : 0;
-
-  // Practice test stats
-  let testsTaken = 0;
-  let testsPassed = 0;
-  try {
-    const { data: testResults, error } = await supabase
-      .from("practice_test_results")
-      .select("passed")
-      .eq("user_id", userId)
-      .eq("test_type", prefixToExamType(prefix));
-
-    if (!error && testResults) {
-      testsTaken = testResults.length;
-      testsPassed = testResults.filter((t) => t.passed).length;
-    }
-  } catch (err) {
-    console.warn(`[${requestId}] Failed to get test results:`, err);
-  }
-
-  const testPassRate = testsTaken > 0 ? testsPassed / testsTaken : 0;
-
-  // Days since last study
-  const lastStudyAt = attempts.length > 0 ? attempts[0].attempted_at : null;
-  const daysSinceStudy = lastStudyAt
-    ? (Date.now() - new Date(lastStudyAt).getTime()) / (1000 * 60 * 60 * 24)
-    : 30; // Default to 30 days if never studied
-
-  return {
-    recentAccuracy,
-    overallAccuracy,
-    coverage,
-    mastery,
-    testsPassed,
-    testsTaken,
-    testPassRate,
-    daysSinceStudy,
-    lastStudyAt,
-    totalAttempts,
-    uniqueQuestionsSeen,
-    totalPoolSize,
-  };
-}
-
-function prefixToExamType(prefix: string): string {
-  return prefix === "T" ? "technician" : prefix === "G" ? "general" : "extra";
-}
-
-// ============================================================
-// SUBELEMENT METRICS CALCULATION (OPTIMIZED - SINGLE BATCH)
-// ============================================================
-
-interface SubelementData {
-  code: string;
-  weight: number;
-}
-
-interface QuestionData {
-  id: string;
-  subelement: string;
-}
-
-interface AttemptData {
-  question_id: string;
-  is_correct: boolean;
-  attempted_at: string;
-}
-
-interface MasteryData {
-  question_id: string;
-}
-
-interface SyllabusRow {
-  code: string;
-  exam_questions: number | null;
-}
-
-async function calculateSubelementMetrics(
-  supabase: SupabaseClient,
-  userId: string,
-  prefix: string,
-  config: Config,
-  requestId: string
-): Promise<Record<string, SubelementMetric>> {
-  // ===== BATCH 1: Get all subelements for this exam type =====
-  const { data: syllabusData, error: syllabusError } = await supabase
-    .from("syllabus")
-    .select("code, exam_questions")
-    .eq("license_type", prefix)
-    .eq("type", "subelement");
-
-  if (syllabusError) {
-    console.warn(`[${requestId}] Failed to get syllabus:`, syllabusError);
-    return {};
-  }
-
-  const subelements: SubelementData[] = (syllabusData || []).map((s: SyllabusRow) => ({
-    code: s.code,
-    weight: s.exam_questions || 0,
-  }));
-
-  if (subelements.length === 0) {
-    console.warn(`[${requestId}] No subelements found in syllabus for prefix ${prefix}`);
-    return {};
-  }
-
-  const subelementCodes = subelements.map((s) => s.code);
-
-  // ===== BATCH 2: Get all questions for these subelements =====
-  const { data: questionsData, error: questionsError } = await supabase
-    .from("questions")
-    .select("id, subelement")
-    .in("subelement", subelementCodes);
-
-  if (questionsError) {
-    console.warn(`[${requestId}] Failed to get questions:`, questionsError);
-    return {};
-  }
-
-  const questions: QuestionData[] = questionsData || [];
-
-  // Group questions by subelement for pool size
-  const poolSizeBySubelement = new Map<string, number>();
-  const questionIdsBySubelement = new Map<string, Set<string>>();
-
-  for (const q of questions) {
-    poolSizeBySubelement.set(
-      q.subelement,
-      (poolSizeBySubelement.get(q.subelement) || 0) + 1
-    );
-
-    if (!questionIdsBySubelement.has(q.subelement)) {
-      questionIdsBySubelement.set(q.subelement, new Set());
-    }
-    questionIdsBySubelement.get(q.subelement)!.add(q.id);
-  }
-
-  // ===== BATCH 3: Get all attempts for these questions =====
-  // Use a join instead of .in() with many IDs to avoid URL length limits
-  let attempts: AttemptData[] = [];
-  if (subelementCodes.length > 0) {
-    const { data: attemptsData, error: attemptsError } = await supabase
-      .from("question_attempts")
-      .select("question_id, is_correct, attempted_at, questions!inner(subelement)")
-      .eq("user_id", userId)
-      .in("questions.subelement", subelementCodes)
-      .order("attempted_at", { ascending: false });
-
-    if (attemptsError) {
-      console.warn(`[${requestId}] Failed to get attempts:`, attemptsError);
-    } else {
-      attempts = attemptsData || [];
-    }
-  }
-
-  // Group attempts by subelement (using question -> subelement mapping)
-  const questionToSubelement = new Map(questions.map((q) => [q.id, q.subelement]));
-  const attemptsBySubelement = new Map<string, AttemptData[]>();
-
-  for (const attempt of attempts) {
-    const subelement = questionToSubelement.get(attempt.question_id);
-    if (subelement) {
-      if (!attemptsBySubelement.has(subelement)) {
-        attemptsBySubelement.set(subelement, []);
-      }
-      attemptsBySubelement.get(subelement)!.push(attempt);
-    }
-  }
-
-  // ===== BATCH 4: Get all mastery data for these questions =====
-  // Use a join instead of .in() with many IDs to avoid URL length limits
-  let masteryData: MasteryData[] = [];
-  if (subelementCodes.length > 0) {
-    const { data: masteryResult, error: masteryError } = await supabase
-      .from("question_mastery")
-      .select("question_id, questions!inner(subelement)")
-      .eq("user_id", userId)
-      .eq("is_mastered", true)
-      .in("questions.subelement", subelementCodes);
-
-    if (masteryError) {
-      console.warn(`[${requestId}] Failed to get mastery:`, masteryError);
-    } else {
-      masteryData = masteryResult || [];
-    }
-  }
-
-  // Group mastery by subelement
-  const masteredBySubelement = new Map<string, Set<string>>();
-  for (const m of masteryData) {
-    const subelement = questionToSubelement.get(m.question_id);
-    if (subelement) {
-      if (!masteredBySubelement.has(subelement)) {
-        masteredBySubelement.set(subelement, new Set());
-      }
-      masteredBySubelement.get(subelement)!.add(m.question_id);
-    }
-  }
-
-  // ===== CALCULATE METRICS FOR EACH SUBELEMENT IN-MEMORY =====
-  const result: Record<string, SubelementMetric> = {};
-  const { blend, coverage_beta: beta, thresholds } = config;
-
-  for (const sub of subelements) {
-    const code = sub.code;
-    const weight = sub.weight;
-    const poolSize = poolSizeBySubelement.get(code) || 0;
-
-    const subAttempts = attemptsBySubelement.get(code) || [];
-    const attemptsCount = subAttempts.length;
-    const correctCount = subAttempts.filter((a) => a.is_correct).length;
-    const accuracy = attemptsCount > 0 ? correctCount / attemptsCount : null;
-
-    // Recent accuracy (last N per subelement) - attempts already sorted by date desc
-    const recentWindow = thresholds.subelement_recent_window;
-    const recentAttempts = subAttempts.slice(0, recentWindow);
-    const recentCorrect = recentAttempts.filter((a) => a.is_correct).length;
-    const recentAccuracy =
-      recentAttempts.length > 0 ? recentCorrect / recentAttempts.length : null;
-    const recentAttemptsCount = recentAttempts.length;
-
-    // Coverage - unique questions seen
-    const uniqueQuestionsSeen = new Set(subAttempts.map((a) => a.question_id)).size;
-    const coverage = poolSize > 0 ? uniqueQuestionsSeen / poolSize : 0;
-
-    // Mastery
-    const masteredQuestions = masteredBySubelement.get(code) || new Set();
-    const mastery = poolSize > 0 ? masteredQuestions.size / poolSize : 0;
-
-    // Calculate estimated accuracy (A_hat) using configurable blend formula
-    let estimatedAccuracy: number;
-    if (recentAttemptsCount >= blend.recent_window) {
-      // Sufficient recent data: use recent accuracy
-      estimatedAccuracy = recentAccuracy ?? 0;
-    } else if (recentAttemptsCount >= blend.min_recent_for_blend) {
-      // Some recent data: blend recent and overall
-      const alpha = recentAttemptsCount / blend.recent_window;
-      estimatedAccuracy =
-        alpha * (recentAccuracy ?? 0) + (1 - alpha) * (accuracy ?? 0);
-    } else {
-      // Insufficient recent data: use overall
-      estimatedAccuracy = accuracy ?? 0;
-    }
-
-    // Calculate beta (coverage modifier)
-    const coverageModifier =
-      coverage < beta.low_threshold
-        ? beta.low
-        : coverage >= beta.high_threshold
-          ? beta.high
-          : beta.mid;
-
-    // Risk score: Risk_s = w_s * (1 - A_hat) * beta
-    const riskScore = weight * (1 - estimatedAccuracy) * coverageModifier;
-
-    // Expected score: E_s = w_s * A_hat
-    const expectedScore = weight * estimatedAccuracy;
-
-    result[code] = {
-      accuracy,
-      recent_accuracy: recentAccuracy,
-      coverage,
-      mastery,
-      risk_score: riskScore,
-      expected_score: expectedScore,
-      weight,
-      pool_size: poolSize,
-      attempts_count: attemptsCount,
-      recent_attempts_count: recentAttemptsCount,
-    };
-  }
-
-  return result;
-}
-
 // ============================================================
 // DATABASE UPDATES
 // ============================================================
@@ -739,6 +376,7 @@ async function upsertCache(
   examType: string,
   result: ReadinessResult,
   subelementMetrics: Record<string, SubelementMetric>,
+  groupMetrics: Record<string, GroupMetric>,
   metrics: Metrics,
   configVersion: string
 ): Promise<void> {
@@ -757,6 +395,7 @@ async function upsertCache(
       pass_probability: result.passProbability,
       expected_exam_score: result.expectedExamScore,
       subelement_metrics: subelementMetrics,
+      group_metrics: groupMetrics,
       total_attempts: metrics.totalAttempts,
       unique_questions_seen: metrics.uniqueQuestionsSeen,
       config_version: configVersion,
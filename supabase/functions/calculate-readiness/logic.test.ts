@@ -27,6 +27,8 @@ import {
   calculateRiskScore,
   calculateExpectedScore,
   calculateSingleSubelementMetric,
+  calculateGroupMetrics,
+  estimateFromGroups,
   calculateMetricsFromRaw,
   DEFAULT_CONFIG,
   type Config,
@@ -462,6 +464,97 @@ Deno.test("calculateSingleSubelementMetric - with attempts and mastery", () => {
   assertEquals(result.weight, 6);
 });
 
+Deno.test("calculateSingleSubelementMetric - uses group estimates when given", () => {
+  const attempts = [
+    { question_id: "q1", is_correct: true, attempted_at: "2024-01-10T00:00:00Z" },
+  ];
+  const groups = calculateGroupMetrics(
+    [
+      { id: "q1", subelement: "T5", question_group: "T5A" },
+      { id: "q2", subelement: "T5", question_group: "T5B" },
+    ],
+    attempts,
+    new Set(),
+    DEFAULT_CONFIG
+  );
+
+  const result = calculateSingleSubelementMetric(
+    {
+      code: "T5",
+      weight: 2,
+      poolSize: 2,
+      attempts,
+      masteredQuestionIds: new Set(),
+      groups: Object.values(groups),
+    },
+    DEFAULT_CONFIG
+  );
+
+  // 100% on T5A but T5B never attempted: one of two slots expected
+  assertEquals(result.accuracy, 1);
+  assertEquals(result.expected_score, 1);
+});
+
+// =============================================================================
+// Question Group Metric Tests
+// =============================================================================
+
+const groupQuestions = [
+  { id: "a1", subelement: "T5", question_group: "T5A" },
+  { id: "a2", subelement: "T5", question_group: "T5A" },
+  { id: "b1", subelement: "T5", question_group: "T5B" },
+  { id: "c1", subelement: "T5", question_group: "T5C" },
+];
+
+Deno.test("calculateGroupMetrics - one entry per group", () => {
+  const result = calculateGroupMetrics(groupQuestions, [], new Set(), DEFAULT_CONFIG);
+
+  assertEquals(Object.keys(result).sort(), ["T5A", "T5B", "T5C"]);
+  assertEquals(result.T5A.pool_size, 2);
+  assertEquals(result.T5A.subelement, "T5");
+});
+
+Deno.test("calculateGroupMetrics - untouched group is a certain miss", () => {
+  const attempts = [
+    { question_id: "a1", is_correct: true, attempted_at: "2024-01-10T00:00:00Z" },
+    { question_id: "b1", is_correct: true, attempted_at: "2024-01-09T00:00:00Z" },
+  ];
+
+  const result = calculateGroupMetrics(groupQuestions, attempts, new Set(), DEFAULT_CONFIG);
+
+  assertEquals(result.T5C.accuracy, null);
+  assertEquals(result.T5C.coverage, 0);
+  assertEquals(result.T5C.attempts_count, 0);
+  assertEquals(result.T5C.estimated_accuracy, 0);
+  assertEquals(result.T5B.estimated_accuracy, 1);
+});
+
+Deno.test("calculateGroupMetrics - accuracy, coverage and mastery per group", () => {
+  const attempts = [
+    { question_id: "a1", is_correct: true, attempted_at: "2024-01-10T00:00:00Z" },
+    { question_id: "a1", is_correct: false, attempted_at: "2024-01-09T00:00:00Z" },
+    { question_id: "unknown", is_correct: true, attempted_at: "2024-01-08T00:00:00Z" },
+  ];
+
+  const result = calculateGroupMetrics(groupQuestions, attempts, new Set(["a1"]), DEFAULT_CONFIG);
+
+  assertEquals(result.T5A.accuracy, 0.5);
+  assertEquals(result.T5A.coverage, 0.5); // 1 of 2 questions seen
+  assertEquals(result.T5A.mastery, 0.5);
+  assertEquals(result.T5A.attempts_count, 2);
+});
+
+Deno.test("estimateFromGroups - mean of group estimates", () => {
+  const attempts = [
+    { question_id: "a1", is_correct: true, attempted_at: "2024-01-10T00:00:00Z" },
+    { question_id: "b1", is_correct: true, attempted_at: "2024-01-09T00:00:00Z" },
+  ];
+  const groups = calculateGroupMetrics(groupQuestions, attempts, new Set(), DEFAULT_CONFIG);
+
+  assertAlmostEquals(estimateFromGroups(Object.values(groups)), 2 / 3, 0.0001);
+  assertEquals(estimateFromGroups([]), 0);
+});
+
 // =============================================================================
 // Metrics From Raw Data Tests
 // =============================================================================
@@ -81,6 +81,22 @@ export interface SubelementMetric {
   recent_attempts_count: number;
 }
 
+/**
+ * Metrics for one question group (T5A). A real exam draws one question
+ * from every group, so each group is one exam slot.
+ */
+export interface GroupMetric {
+  subelement: string;
+  accuracy: number | null;
+  recent_accuracy: number | null;
+  coverage: number;
+  mastery: number;
+  /** Chance of answering this group's exam slot correctly; 0 if never attempted */
+  estimated_accuracy: number;
+  pool_size: number;
+  attempts_count: number;
+}
+
 export interface ReadinessResult {
   readinessScore: number;
   passProbability: number;
@@ -271,6 +287,8 @@ export interface SubelementInput {
   poolSize: number;
   attempts: AttemptData[];
   masteredQuestionIds: Set<string>;
+  /** When given, the estimate is the mean over the subelement's groups */
+  groups?: GroupMetric[];
 }
 
 export function calculateSingleSubelementMetric(
@@ -297,13 +315,10 @@ export function calculateSingleSubelementMetric(
   // Mastery
   const mastery = poolSize > 0 ? masteredQuestionIds.size / poolSize : 0;
 
-  // Estimated accuracy using blend formula
-  const estimatedAccuracy = calculateEstimatedAccuracy(
-    recentAccuracy,
-    accuracy,
-    recentAttemptsCount,
-    config.blend
-  );
+  // Estimated accuracy: per exam slot when groups are known, otherwise the blend formula
+  const estimatedAccuracy = input.groups?.length
+    ? estimateFromGroups(input.groups)
+    : calculateEstimatedAccuracy(recentAccuracy, accuracy, recentAttemptsCount, config.blend);
 
   // Risk and expected scores
   const riskScore = calculateRiskScore(weight, estimatedAccuracy, coverage, config.coverage_beta);
@@ -323,6 +338,80 @@ export function calculateSingleSubelementMetric(
   };
 }
 
+// ============================================================
+// QUESTION GROUP METRICS
+// ============================================================
+
+export interface GroupQuestion {
+  id: string;
+  subelement: string;
+  question_group: string;
+}
+
+/**
+ * Metrics for every question group, keyed by group code. Attempts must be
+ * sorted by date desc. A group with no attempts gets an estimated accuracy
+ * of 0: the learner will miss that exam slot.
+ */
+export function calculateGroupMetrics(
+  questions: GroupQuestion[],
+  attempts: AttemptData[],
+  masteredQuestionIds: Set<string>,
+  config: Config
+): Record<string, GroupMetric> {
+  const questionToGroup = new Map(questions.map((q) => [q.id, q.question_group]));
+  const byGroup = new Map<string, { subelement: string; poolSize: number; mastered: number; attempts: AttemptData[] }>();
+
+  for (const q of questions) {
+    if (!byGroup.has(q.question_group)) {
+      byGroup.set(q.question_group, { subelement: q.subelement, poolSize: 0, mastered: 0, attempts: [] });
+    }
+    const group = byGroup.get(q.question_group)!;
+    group.poolSize++;
+    if (masteredQuestionIds.has(q.id)) group.mastered++;
+  }
+
+  for (const attempt of attempts) {
+    const code = questionToGroup.get(attempt.question_id);
+    if (code) byGroup.get(code)!.attempts.push(attempt);
+  }
+
+  const result: Record<string, GroupMetric> = {};
+  for (const [code, group] of byGroup) {
+    const accuracy = calculateAccuracyFromAttempts(group.attempts);
+    const recentAttempts = group.attempts.slice(0, config.thresholds.subelement_recent_window);
+    const recentAccuracy = calculateAccuracyFromAttempts(recentAttempts);
+    const uniqueQuestionsSeen = new Set(group.attempts.map((a) => a.question_id)).size;
+
+    result[code] = {
+      subelement: group.subelement,
+      accuracy,
+      recent_accuracy: recentAccuracy,
+      coverage: calculateCoverage(uniqueQuestionsSeen, group.poolSize),
+      mastery: calculateMastery(group.mastered, group.poolSize),
+      estimated_accuracy: calculateEstimatedAccuracy(
+        recentAccuracy,
+        accuracy,
+        recentAttempts.length,
+        config.blend
+      ),
+      pool_size: group.poolSize,
+      attempts_count: group.attempts.length,
+    };
+  }
+
+  return result;
+}
+
+/**
+ * Estimated accuracy for a subelement from its groups: the exam asks one
+ * question per group, so it is the mean of the groups' estimates.
+ */
+export function estimateFromGroups(groups: GroupMetric[]): number {
+  if (groups.length === 0) return 0;
+  return groups.reduce((sum, g) => sum + g.estimated_accuracy, 0) / groups.length;
+}
+
 // ============================================================
 // AGGREGATE METRICS FROM RAW DATA
 // ============================================================
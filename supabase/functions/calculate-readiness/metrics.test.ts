@@ -0,0 +1,184 @@
+/**
+ * Unit Tests for calculate-readiness Metrics Queries
+ * ==================================================
+ *
+ * Runs the metrics queries against an in-memory database holding two pools
+ * for the same exam, the way the questions table looks during a pool
+ * transition, to check each query only counts the learner's pool.
+ */
+
+import { assertEquals, assertRejects } from "jsr:@std/assert@1";
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import { calculateSubelementMetrics, gatherMetrics, resolvePoolVersion } from "./metrics.ts";
+import { DEFAULT_CONFIG } from "./logic.ts";
+
+// =============================================================================
+// In-memory client: applies eq/like/in filters, including on joined
+// "questions.<column>" paths, and reports exact counts for head requests
+// =============================================================================
+
+type Row = Record<string, unknown>;
+
+function valueAt(row: Row, column: string): unknown {
+  return column.split(".").reduce<unknown>((value, key) => (value as Row | undefined)?.[key], row);
+}
+
+function fakeDatabase(tables: Record<string, Row[]>) {
+  function query(table: string) {
+    let rows = tables[table] ?? [];
+    let head = false;
+
+    const builder = {
+      select(_columns: string, options?: { count?: string; head?: boolean }) {
+        head = options?.head ?? false;
+        return builder;
+      },
+      eq(column: string, value: unknown) {
+        rows = rows.filter((row) => valueAt(row, column) === value);
+        return builder;
+      },
+      like(column: string, pattern: string) {
+        const prefix = pattern.replace(/%$/, "");
+        rows = rows.filter((row) => String(valueAt(row, column)).startsWith(prefix));
+        return builder;
+      },
+      in(column: string, values: unknown[]) {
+        rows = rows.filter((row) => values.includes(valueAt(row, column)));
+        return builder;
+      },
+      order(column: string, options?: { ascending?: boolean }) {
+        const direction = options?.ascending === false ? -1 : 1;
+        rows = [...rows].sort((a, b) => String(valueAt(a, column)).localeCompare(String(valueAt(b, column))) * direction);
+        return builder;
+      },
+      then(resolve: (result: { data: Row[] | null; error: null; count: number }) => void) {
+        resolve({ data: head ? null : rows, error: null, count: rows.length });
+      },
+    };
+    return builder;
+  }
+
+  return { from: query } as unknown as SupabaseClient;
+}
+
+// =============================================================================
+// Two Technician pools with the same display names
+// =============================================================================
+
+const OLD_POOL = "2022-2026";
+const NEW_POOL = "2026-2030";
+
+function question(id: string, displayName: string, poolVersion: string): Row {
+  return {
+    id,
+    display_name: displayName,
+    pool_version: poolVersion,
+    subelement: displayName.slice(0, 2),
+    question_group: displayName.slice(0, 3),
+  };
+}
+
+const questions = [
+  question("old-t1a01", "T1A01", OLD_POOL),
+  question("old-t1a02", "T1A02", OLD_POOL),
+  question("new-t1a01", "T1A01", NEW_POOL),
+  question("new-t1a02", "T1A02", NEW_POOL),
+  question("new-t1a03", "T1A03", NEW_POOL),
+];
+
+const byId = new Map(questions.map((q) => [q.id as string, q]));
+
+function attempt(questionId: string, isCorrect: boolean, attemptedAt: string): Row {
+  return {
+    user_id: "user-1",
+    question_id: questionId,
+    is_correct: isCorrect,
+    attempted_at: attemptedAt,
+    questions: byId.get(questionId),
+  };
+}
+
+function mastered(questionId: string): Row {
+  return { user_id: "user-1", question_id: questionId, is_mastered: true, questions: byId.get(questionId) };
+}
+
+const db = fakeDatabase({
+  questions,
+  question_attempts: [
+    attempt("old-t1a01", true, "2026-06-01T10:00:00Z"),
+    attempt("old-t1a02", true, "2026-06-01T10:01:00Z"),
+    attempt("old-t1a01", true, "2026-06-02T10:00:00Z"),
+    attempt("new-t1a01", false, "2026-06-03T10:00:00Z"),
+  ],
+  question_mastery: [mastered("old-t1a01"), mastered("old-t1a02")],
+  syllabus: [{ code: "T1", exam_questions: 6, license_type: "T", type: "subelement" }],
+  practice_test_results: [],
+});
+
+// =============================================================================
+// gatherMetrics
+// =============================================================================
+
+Deno.test("gatherMetrics - counts only the learner's pool", async () => {
+  const metrics = await gatherMetrics(db, "user-1", "T", NEW_POOL, DEFAULT_CONFIG.thresholds, "test");
+
+  assertEquals(metrics.totalPoolSize, 3);
+  assertEquals(metrics.totalAttempts, 1);
+  assertEquals(metrics.uniqueQuestionsSeen, 1);
+  assertEquals(metrics.overallAccuracy, 0);
+  assertEquals(metrics.mastery, 0);
+});
+
+Deno.test("gatherMetrics - keeps the outgoing pool's history to itself", async () => {
+  const metrics = await gatherMetrics(db, "user-1", "T", OLD_POOL, DEFAULT_CONFIG.thresholds, "test");
+
+  assertEquals(metrics.totalPoolSize, 2);
+  assertEquals(metrics.totalAttempts, 3);
+  assertEquals(metrics.coverage, 1);
+  assertEquals(metrics.mastery, 1);
+});
+
+// =============================================================================
+// calculateSubelementMetrics
+// =============================================================================
+
+Deno.test("calculateSubelementMetrics - sizes subelements and groups from one pool", async () => {
+  const { subelementMetrics, groupMetrics } = await calculateSubelementMetrics(
+    db,
+    "user-1",
+    "T",
+    NEW_POOL,
+    DEFAULT_CONFIG,
+    "test",
+  );
+
+  assertEquals(subelementMetrics.T1.pool_size, 3);
+  assertEquals(subelementMetrics.T1.attempts_count, 1);
+  assertEquals(subelementMetrics.T1.mastery, 0);
+  assertEquals(Object.keys(groupMetrics), ["T1A"]);
+});
+
+// =============================================================================
+// resolvePoolVersion
+// =============================================================================
+
+Deno.test("resolvePoolVersion - asks the database for the learner's pool", async () => {
+  let captured: unknown[] = [];
+  const supabase = {
+    rpc: (...args: unknown[]) => {
+      captured = args;
+      return Promise.resolve({ data: NEW_POOL, error: null });
+    },
+  } as unknown as SupabaseClient;
+
+  assertEquals(await resolvePoolVersion(supabase, "technician"), NEW_POOL);
+  assertEquals(captured, ["get_learner_pool_version", { p_exam_type: "technician" }]);
+});
+
+Deno.test("resolvePoolVersion - fails rather than scoring an unknown pool", async () => {
+  const supabase = {
+    rpc: () => Promise.resolve({ data: null, error: { message: "boom" } }),
+  } as unknown as SupabaseClient;
+
+  await assertRejects(() => resolvePoolVersion(supabase, "technician"), Error, "boom");
+});
@@ -0,0 +1,448 @@
+// ============================================================
+// READINESS METRICS FROM THE DATABASE
+// ============================================================
+//
+// Queries behind the readiness score, kept apart from the handler so they can
+// be tested against a fake client. Every query is limited to the pool the
+// learner studies: during a pool transition two pools share display names
+// (T1A01 exists in both), so a prefix alone would count both.
+
+import type { SupabaseClient } from "jsr:@supabase/supabase-js@2";
+import {
+  calculateGroupMetrics,
+  estimateFromGroups,
+  prefixToExamType,
+  type Config,
+  type GroupMetric,
+  type Metrics,
+  type SubelementMetric,
+  type ThresholdsConfig,
+} from "./logic.ts";
+
+// ============================================================
+// LEARNER'S POOL
+// ============================================================
+
+/**
+ * The pool the learner studies for an exam type, as the app resolves it:
+ * their pick during a transition, else the pool on their target exam date.
+ * The client must carry the learner's JWT; the RPC reads their own rows.
+ */
+export async function resolvePoolVersion(
+  supabase: SupabaseClient,
+  examType: string
+): Promise<string> {
+  const { data, error } = await supabase.rpc("get_learner_pool_version", {
+    p_exam_type: examType,
+  });
+
+  if (error || !data) {
+    throw new Error(`Failed to resolve question pool: ${error?.message ?? "no pool found"}`);
+  }
+
+  return data as string;
+}
+
+// ============================================================
+// METRICS GATHERING (with graceful degradation)
+// ============================================================
+
+export async function gatherMetrics(
+  supabase: SupabaseClient,
+  userId: string,
+  prefix: string,
+  poolVersion: string,
+  thresholds: ThresholdsConfig,
+  requestId: string
+): Promise<Metrics> {
+  // Default fallback metrics
+  const fallbackMetrics: Metrics = {
+    recentAccuracy: null,
+    overallAccuracy: null,
+    coverage: 0,
+    mastery: 0,
+    testsPassed: 0,
+    testsTaken: 0,
+    testPassRate: 0,
+    daysSinceStudy: 30,
+    lastStudyAt: null,
+    totalAttempts: 0,
+    uniqueQuestionsSeen: 0,
+    totalPoolSize: 0,
+  };
+
+  // Get total pool size for this exam type
+  let totalPoolSize = 0;
+  try {
+    const { count } = await supabase
+      .from("questions")
+      .select("id", { count: "exact", head: true })
+      .like("display_name", `${prefix}%`)
+      .eq("pool_version", poolVersion);
+    totalPoolSize = count || 0;
+  } catch (err) {
+    console.warn(`[${requestId}] Failed to get pool size:`, err);
+  }
+
+  if (totalPoolSize === 0) {
+    console.warn(`[${requestId}] No questions found for prefix ${prefix} in pool ${poolVersion}`);
+    return fallbackMetrics;
+  }
+
+  // Get all attempts for this exam type (we'll process in JS for flexibility)
+  let attempts: Array<{
+    is_correct: boolean;
+    attempted_at: string;
+    question_id: string;
+  }> = [];
+
+  try {
+    const { data: allAttempts, error } = await supabase
+      .from("question_attempts")
+      .select("is_correct, attempted_at, question_id, questions!inner(display_name, pool_version)")
+      .eq("user_id", userId)
+      .like("questions.display_name", `${prefix}%`)
+      .eq("questions.pool_version", poolVersion)
+      .order("attempted_at", { ascending: false });
+
+    if (error) {
+      console.warn(`[${requestId}] Failed to get attempts:`, error);
+    } else {
+      attempts = allAttempts || [];
+    }
+  } catch (err) {
+    console.warn(`[${requestId}] Exception getting attempts:`, err);
+  }
+
+  const totalAttempts = attempts.length;
+
+  // Recent accuracy (last N questions)
+  const recentAttempts = attempts.slice(0, thresholds.recent_window);
+  const recentCorrect = recentAttempts.filter((a) => a.is_correct).length;
+  const recentAccuracy =
+    recentAttempts.length > 0 ? recentCorrect / recentAttempts.length : null;
+
+  // Overall accuracy
+  const overallCorrect = attempts.filter((a) => a.is_correct).length;
+  const overallAccuracy =
+    totalAttempts > 0 ? overallCorrect / totalAttempts : null;
+
+  // Unique questions seen (coverage)
+  const uniqueQuestionIds = new Set(attempts.map((a) => a.question_id));
+  const uniqueQuestionsSeen = uniqueQuestionIds.size;
+  const coverage = totalPoolSize ? uniqueQuestionsSeen / totalPoolSize : 0;
+
+  // Mastery (questions correct 2+ times)
+  // Use a join instead of .in() with many IDs to avoid URL length limits
+  let masteredCount = 0;
+  try {
+    const { count } = await supabase
+      .from("question_mastery")
+      .select("question_id, questions!inner(display_name, pool_version)", { count: "exact", head: true })
+      .eq("user_id", userId)
+      .eq("is_mastered", true)
+      .like("questions.display_name", `${prefix}%`)
+      .eq("questions.pool_version", poolVersion);
+    masteredCount = count || 0;
+  } catch (err) {
+    console.warn(`[${requestId}] Failed to get mastery:`, err);
+  }
+
+  const mastery = totalPoolSize ? masteredCount / totalPoolSize : 0;
+
+  // Practice test stats
+  let testsTaken = 0;
+  let testsPassed = 0;
+  try {
+    const { data: testResults, error } = await supabase
+      .from("practice_test_results")
+      .select("passed")
+      .eq("user_id", userId)
+      .eq("test_type", prefixToExamType(prefix));
+
+    if (!error && testResults) {
+      testsTaken = testResults.length;
+      testsPassed = testResults.filter((t) => t.passed).length;
+    }
+  } catch (err) {
+    console.warn(`[${requestId}] Failed to get test results:`, err);
+  }
+
+  const testPassRate = testsTaken > 0 ? testsPassed / testsTaken : 0;
+
+  // Days since last study
+  const lastStudyAt = attempts.length > 0 ? attempts[0].attempted_at : null;
+  const daysSinceStudy = lastStudyAt
+    ? (Date.now() - new Date(lastStudyAt).getTime()) / (1000 * 60 * 60 * 24)
+    : 30; // Default to 30 days if never studied
+
+  return {
+    recentAccuracy,
+    overallAccuracy,
+    coverage,
+    mastery,
+    testsPassed,
+    testsTaken,
+    testPassRate,
+    daysSinceStudy,
+    lastStudyAt,
+    totalAttempts,
+    uniqueQuestionsSeen,
+    totalPoolSize,
+  };
+}
+
+// ============================================================
+// SUBELEMENT METRICS CALCULATION (OPTIMIZED - SINGLE BATCH)
+// ============================================================
+
+interface SubelementData {
+  code: string;
+  weight: number;
+}
+
+interface QuestionData {
+  id: string;
+  subelement: string;
+  question_group: string;
+}
+
+interface AttemptData {
+  question_id: string;
+  is_correct: boolean;
+  attempted_at: string;
+}
+
+interface MasteryData {
+  question_id: string;
+}
+
+interface SyllabusRow {
+  code: string;
+  exam_questions: number | null;
+}
+
+interface SubelementMetricsResult {
+  subelementMetrics: Record<string, SubelementMetric>;
+  groupMetrics: Record<string, GroupMetric>;
+}
+
+export async function calculateSubelementMetrics(
+  supabase: SupabaseClient,
+  userId: string,
+  prefix: string,
+  poolVersion: string,
+  config: Config,
+  requestId: string
+): Promise<SubelementMetricsResult> {
+  // ===== BATCH 1: Get all subelements for this exam type =====
+  const { data: syllabusData, error: syllabusError } = await supabase
+    .from("syllabus")
+    .select("code, exam_questions")
+    .eq("license_type", prefix)
+    .eq("type", "subelement");
+
+  if (syllabusError) {
+    console.warn(`[${requestId}] Failed to get syllabus:`, syllabusError);
+    return { subelementMetrics: {}, groupMetrics: {} };
+  }
+
+  const subelements: SubelementData[] = (syllabusData || []).map((s: SyllabusRow) => ({
+    code: s.code,
+    weight: s.exam_questions || 0,
+  }));
+
+  if (subelements.length === 0) {
+    console.warn(`[${requestId}] No subelements found in syllabus for prefix ${prefix}`);
+    return { subelementMetrics: {}, groupMetrics: {} };
+  }
+
+  const subelementCodes = subelements.map((s) => s.code);
+
+  // ===== BATCH 2: Get all questions for these subelements =====
+  const { data: questionsData, error: questionsError } = await supabase
+    .from("questions")
+    .select("id, subelement, question_group")
+    .in("subelement", subelementCodes)
+    .eq("pool_version", poolVersion);
+
+  if (questionsError) {
+    console.warn(`[${requestId}] Failed to get questions:`, questionsError);
+    return { subelementMetrics: {}, groupMetrics: {} };
+  }
+
+  const questions: QuestionData[] = questionsData || [];
+
+  // Group questions by subelement for pool size
+  const poolSizeBySubelement = new Map<string, number>();
+  const questionIdsBySubelement = new Map<string, Set<string>>();
+
+  for (const q of questions) {
+    poolSizeBySubelement.set(
+      q.subelement,
+      (poolSizeBySubelement.get(q.subelement) || 0) + 1
+    );
+
+    if (!questionIdsBySubelement.has(q.subelement)) {
+      questionIdsBySubelement.set(q.subelement, new Set());
+    }
+    questionIdsBySubelement.get(q.subelement)!.add(q.id);
+  }
+
+  // ===== BATCH 3: Get all attempts for these questions =====
+  // Use a join instead of .in() with many IDs to avoid URL length limits
+  let attempts: AttemptData[] = [];
+  if (subelementCodes.length > 0) {
+    const { data: attemptsData, error: attemptsError } = await supabase
+      .from("question_attempts")
+      .select("question_id, is_correct, attempted_at, questions!inner(subelement, pool_version)")
+      .eq("user_id", userId)
+      .in("questions.subelement", subelementCodes)
+      .eq("questions.pool_version", poolVersion)
+      .order("attempted_at", { ascending: false });
+
+    if (attemptsError) {
+      console.warn(`[${requestId}] Failed to get attempts:`, attemptsError);
+    } else {
+      attempts = attemptsData || [];
+    }
+  }
+
+  // Group attempts by subelement (using question -> subelement mapping)
+  const questionToSubelement = new Map(questions.map((q) => [q.id, q.subelement]));
+  const attemptsBySubelement = new Map<string, AttemptData[]>();
+
+  for (const attempt of attempts) {
+    const subelement = questionToSubelement.get(attempt.question_id);
+    if (subelement) {
+      if (!attemptsBySubelement.has(subelement)) {
+        attemptsBySubelement.set(subelement, []);
+      }
+      attemptsBySubelement.get(subelement)!.push(attempt);
+    }
+  }
+
+  // ===== BATCH 4: Get all mastery data for these questions =====
+  // Use a join instead of .in() with many IDs to avoid URL length limits
+  let masteryData: MasteryData[] = [];
+  if (subelementCodes.length > 0) {
+    const { data: masteryResult, error: masteryError } = await supabase
+      .from("question_mastery")
+      .select("question_id, questions!inner(subelement, pool_version)")
+      .eq("user_id", userId)
+      .eq("is_mastered", true)
+      .in("questions.subelement", subelementCodes)
+      .eq("questions.pool_version", poolVersion);
+
+    if (masteryError) {
+      console.warn(`[${requestId}] Failed to get mastery:`, masteryError);
+    } else {
+      masteryData = masteryResult || [];
+    }
+  }
+
+  // Group mastery by subelement
+  const masteredBySubelement = new Map<string, Set<string>>();
+  for (const m of masteryData) {
+    const subelement = questionToSubelement.get(m.question_id);
+    if (subelement) {
+      if (!masteredBySubelement.has(subelement)) {
+        masteredBySubelement.set(subelement, new Set());
+      }
+      masteredBySubelement.get(subelement)!.add(m.question_id);
+    }
+  }
+
+  // ===== CALCULATE METRICS FOR EACH QUESTION GROUP IN-MEMORY =====
+  // One exam question is drawn per group, so an untouched group is a slot
+  // the learner will almost certainly miss
+  const allMastered = new Set(masteryData.map((m) => m.question_id));
+  const groupMetrics = calculateGroupMetrics(questions, attempts, allMastered, config);
+  const groupsBySubelement = new Map<string, GroupMetric[]>();
+  for (const group of Object.values(groupMetrics)) {
+    if (!groupsBySubelement.has(group.subelement)) {
+      groupsBySubelement.set(group.subelement, []);
+    }
+    groupsBySubelement.get(group.subelement)!.push(group);
+  }
+
+  // ===== CALCULATE METRICS FOR EACH SUBELEMENT IN-MEMORY =====
+  const result: Record<string, SubelementMetric> = {};
+  const { blend, coverage_beta: beta, thresholds } = config;
+
+  for (const sub of subelements) {
+    const code = sub.code;
+    const weight = sub.weight;
+    const poolSize = poolSizeBySubelement.get(code) || 0;
+
+    const subAttempts = attemptsBySubelement.get(code) || [];
+    const attemptsCount = subAttempts.length;
+    const correctCount = subAttempts.filter((a) => a.is_correct).length;
+    const accuracy = attemptsCount > 0 ? correctCount / attemptsCount : null;
+
+    // Recent accuracy (last N per subelement) - attempts already sorted by date desc
+    const recentWindow = thresholds.subelement_recent_window;
+    const recentAttempts = subAttempts.slice(0, recentWindow);
+    const recentCorrect = recentAttempts.filter((a) => a.is_correct).length;
+    const recentAccuracy =
+      recentAttempts.length > 0 ? recentCorrect / recentAttempts.length : null;
+    const recentAttemptsCount = recentAttempts.length;
+
+    // Coverage - unique questions seen
+    const uniqueQuestionsSeen = new Set(subAttempts.map((a) => a.question_id)).size;
+    const coverage = poolSize > 0 ? uniqueQuestionsSeen / poolSize : 0;
+
+    // Mastery
+    const masteredQuestions = masteredBySubelement.get(code) || new Set();
+    const mastery = poolSize > 0 ? masteredQuestions.size / poolSize : 0;
+
+    // Calculate estimated accuracy (A_hat): the mean over the subelement's
+    // question groups when known, otherwise the configurable blend formula
+    const subGroups = groupsBySubelement.get(code) || [];
+    let estimatedAccuracy: number;
+    if (subGroups.length > 0) {
+      estimatedAccuracy = estimateFromGroups(subGroups);
+    } else if (recentAttemptsCount >= blend.recent_window) {
+      // Sufficient recent data: use recent accuracy
+      estimatedAccuracy = recentAccuracy ?? 0;
+    } else if (recentAttemptsCount >= blend.min_recent_for_blend) {
+      // Some recent data: blend recent and overall
+      const alpha = recentAttemptsCount / blend.recent_window;
+      estimatedAccuracy =
+        alpha * (recentAccuracy ?? 0) + (1 - alpha) * (accuracy ?? 0);
+    } else {
+      // Insufficient recent data: use overall
+      estimatedAccuracy = accuracy ?? 0;
+    }
+
+    // Calculate beta (coverage modifier)
+    const coverageModifier =
+      coverage < beta.low_threshold
+        ? beta.low
+        : coverage >= beta.high_threshold
+          ? beta.high
+          : beta.mid;
+
+    // Risk score: Risk_s = w_s * (1 - A_hat) * beta
+    const riskScore = weight * (1 - estimatedAccuracy) * coverageModifier;
+
+    // Expected score: E_s = w_s * A_hat
+    const expectedScore = weight * estimatedAccuracy;
+
+    result[code] = {
+      accuracy,
+      recent_accuracy: recentAccuracy,
+      coverage,
+      mastery,
+      risk_score: riskScore,
+      expected_score: expectedScore,
+      weight,
+      pool_size: poolSize,
+      attempts_count: attemptsCount,
+      recent_attempts_count: recentAttemptsCount,
+    };
+  }
+
+  return { subelementMetrics: result, groupMetrics };
+}
+
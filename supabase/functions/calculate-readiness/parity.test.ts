@@ -0,0 +1,158 @@
+/**
+ * Parity Tests: calculate-readiness vs src/lib/readinessScoring.ts
+ * ================================================================
+ *
+ * The edge function scores learners with logic.ts; the app (dashboard
+ * estimates and the admin backtest) uses src/lib/readinessScoring.ts. Both
+ * copies are run on the same inputs here, so a formula change that lands on
+ * one side only fails this file.
+ */
+
+import { assertAlmostEquals, assertEquals } from "jsr:@std/assert@1";
+import {
+  DEFAULT_CONFIG,
+  calculateBetaModifier,
+  calculateEstimatedAccuracy,
+  calculateExpectedScore,
+  calculateReadiness,
+  calculateRiskScore,
+  type Metrics,
+} from "./logic.ts";
+import * as client from "../../../src/lib/readinessScoring.ts";
+
+const TOLERANCE = 1e-9;
+
+function metrics(overrides: Partial<Metrics> = {}): Metrics {
+  return {
+    recentAccuracy: 0.8,
+    overallAccuracy: 0.7,
+    coverage: 0.6,
+    mastery: 0.4,
+    testsPassed: 3,
+    testsTaken: 4,
+    testPassRate: 0.75,
+    daysSinceStudy: 2,
+    lastStudyAt: null,
+    totalAttempts: 300,
+    uniqueQuestionsSeen: 250,
+    totalPoolSize: 411,
+    ...overrides,
+  };
+}
+
+const CASES: Metrics[] = [
+  metrics(),
+  metrics({ recentAccuracy: null, overallAccuracy: null, daysSinceStudy: 30 }),
+  metrics({ testsPassed: 0, testsTaken: 0, testPassRate: 0 }),
+  metrics({ recentAccuracy: 1, overallAccuracy: 1, coverage: 1, mastery: 1, daysSinceStudy: 0 }),
+  metrics({ recentAccuracy: 0.1, overallAccuracy: 0.2, coverage: 0.05, mastery: 0, daysSinceStudy: 45 }),
+  metrics({ daysSinceStudy: 0.37 }),
+];
+
+// =============================================================================
+// Shared configuration
+// =============================================================================
+
+Deno.test("parity - default configs agree", () => {
+  assertEquals(DEFAULT_CONFIG.formula_weights, client.DEFAULT_CONFIG.formula_weights);
+  assertEquals(DEFAULT_CONFIG.pass_probability, client.DEFAULT_CONFIG.pass_probability);
+  assertEquals(DEFAULT_CONFIG.recency_penalty, client.DEFAULT_CONFIG.recency_penalty);
+  assertEquals(DEFAULT_CONFIG.coverage_beta, client.DEFAULT_CONFIG.coverage_beta);
+});
+
+// =============================================================================
+// Readiness score and pass probability
+// =============================================================================
+
+Deno.test("parity - readiness score and pass probability", () => {
+  for (const m of CASES) {
+    const server = calculateReadiness(m, DEFAULT_CONFIG);
+
+    const raw = client.calculateReadinessScore(
+      m.recentAccuracy ?? 0,
+      m.overallAccuracy ?? 0,
+      m.coverage,
+      m.mastery,
+      m.testsPassed,
+      m.testsTaken,
+      m.daysSinceStudy,
+      client.DEFAULT_CONFIG,
+    );
+    const readinessScore = Math.max(0, Math.min(100, raw));
+
+    assertAlmostEquals(server.readinessScore, readinessScore, TOLERANCE);
+    assertAlmostEquals(
+      server.passProbability,
+      client.calculatePassProbability(readinessScore, client.DEFAULT_CONFIG.pass_probability),
+      TOLERANCE,
+    );
+    assertAlmostEquals(
+      server.recencyPenalty,
+      client.calculateRecencyPenalty(m.daysSinceStudy, client.DEFAULT_CONFIG.recency_penalty),
+      TOLERANCE,
+    );
+  }
+});
+
+Deno.test("parity - readiness score with a non-default config", () => {
+  const config = {
+    ...DEFAULT_CONFIG,
+    formula_weights: { recent_accuracy: 50, overall_accuracy: 10, coverage: 20, mastery: 10, test_rate: 10 },
+    pass_probability: { k: 0.2, r0: 70 },
+    recency_penalty: { max_penalty: 5, decay_rate: 1 },
+  };
+
+  for (const m of CASES) {
+    const server = calculateReadiness(m, config);
+    const raw = client.calculateReadinessScore(
+      m.recentAccuracy ?? 0,
+      m.overallAccuracy ?? 0,
+      m.coverage,
+      m.mastery,
+      m.testsPassed,
+      m.testsTaken,
+      m.daysSinceStudy,
+      config,
+    );
+
+    assertAlmostEquals(server.readinessScore, Math.max(0, Math.min(100, raw)), TOLERANCE);
+  }
+});
+
+// =============================================================================
+// Subelement formulas
+// =============================================================================
+
+Deno.test("parity - coverage beta at and around the thresholds", () => {
+  for (const coverage of [0, 0.29, 0.3, 0.5, 0.69, 0.7, 1]) {
+    assertEquals(
+      calculateBetaModifier(coverage, DEFAULT_CONFIG.coverage_beta),
+      client.calculateBetaModifier(coverage, client.DEFAULT_CONFIG.coverage_beta),
+    );
+  }
+});
+
+Deno.test("parity - estimated accuracy blend", () => {
+  for (const recentCount of [0, 4, 5, 12, 19, 20, 40]) {
+    assertAlmostEquals(
+      calculateEstimatedAccuracy(0.9, 0.6, recentCount, DEFAULT_CONFIG.blend),
+      client.calculateEstimatedAccuracy(0.9, 0.6, recentCount),
+      TOLERANCE,
+    );
+  }
+});
+
+Deno.test("parity - risk and expected score", () => {
+  for (const [weight, accuracy, coverage] of [[6, 0.5, 0.1], [3, 0.9, 0.5], [4, 0.2, 0.8]]) {
+    assertAlmostEquals(
+      calculateRiskScore(weight, accuracy, coverage, DEFAULT_CONFIG.coverage_beta),
+      client.calculateRiskScore(weight, accuracy, coverage, client.DEFAULT_CONFIG.coverage_beta),
+      TOLERANCE,
+    );
+    assertAlmostEquals(
+      calculateExpectedScore(weight, accuracy),
+      client.calculateExpectedScore(weight, accuracy),
+      TOLERANCE,
+    );
+  }
+});
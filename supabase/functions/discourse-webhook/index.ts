@@ -4,6 +4,7 @@ import { isValidUuid, getCorsHeaders, errorResponse } from "../_shared/constants
 import {
   parseExplanationFromPost,
   extractQuestionIdFromTitle,
+  pickQuestionForTitle,
   isValidSignatureFormat,
   toHexString,
   constantTimeEquals,
@@ -14,7 +15,9 @@ import {
  *
  * Receives webhook events from Discourse when posts are edited.
  * If the first post of a question topic is edited and the explanation
- * section changed, updates the explanation in the questions table.
+ * section changed, queues the new explanation as a pending revision for
+ * moderators (explanation_revisions). The published explanation only
+ * changes once a moderator approves it.
  *
  * Security: Uses HMAC-SHA256 signature verification with shared secret.
  */
@@ -269,13 +272,13 @@ Deno.serve(async (req: Request) => {
           // Fall back to title parsing for topics created before external_id was added
           displayName = extractQuestionIdFromTitle(topicData.title);
           if (displayName) {
-            const { data: questionByDisplayName } = await supabase
+            // Each pool has its own T1A01, so let the title's question text choose
+            const { data: candidates } = await supabase
               .from("questions")
-              .select("id")
-              .eq("display_name", displayName)
-              .single();
-            if (questionByDisplayName) {
-              questionId = questionByDisplayName.id;
+              .select("id, question")
+              .eq("display_name", displayName);
+            questionId = pickQuestionForTitle(topicData.title, candidates ?? []);
+            if (questionId) {
               console.log(`[${requestId}] Found question ${displayName} (${questionId}) via title parsing`);
             }
           }
@@ -289,7 +292,9 @@ Deno.serve(async (req: Request) => {
         .from("questions")
         .select("id, display_name")
         .like("forum_url", `%/${post.topic_id}`)
-        .single();
+        .order("pool_version", { ascending: false })
+        .limit(1)
+        .maybeSingle();
 
       if (questionByUrl) {
         questionId = questionByUrl.id;
@@ -388,81 +393,37 @@ Deno.serve(async (req: Request) => {
     );
 
     // =========================================================================
-    // 7. UPDATE THE QUESTION
+    // 7. QUEUE THE CHANGE FOR MODERATION
     // =========================================================================
 
-    const { error: updateError } = await supabase
-      .from("questions")
-      .update({
-        explanation: newExplanation,
-        discourse_sync_status: "synced",
-        discourse_sync_at: new Date().toISOString(),
-        discourse_sync_error: null,
-      })
-      .eq("id", questionId);
-
-    if (updateError) {
-      console.error(`[${requestId}] Failed to update question ${displayName}:`, updateError);
-      // Try to record the error in sync status
-      await supabase
-        .from("questions")
-        .update({
-          discourse_sync_status: "error",
-          discourse_sync_at: new Date().toISOString(),
-          discourse_sync_error: updateError.message,
-        })
-        .eq("id", questionId);
-      throw updateError;
-    }
-
-    console.log(`[${requestId}] Successfully updated explanation for ${displayName}`);
-
-    // =========================================================================
-    // 7b. EXTRACT LINKS FROM NEW EXPLANATION
-    // =========================================================================
-
-    // Extract and unfurl links from the updated explanation
-    try {
-      const linkResponse = await fetch(
-        `${supabaseUrl}/functions/v1/manage-question-links`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            Authorization: `Bearer ${supabaseKey}`,
-          },
-          body: JSON.stringify({
-            action: "extract-from-explanation",
-            questionId,
-          }),
-        }
-      );
-
-      if (linkResponse.ok) {
-        const linkResult = await linkResponse.json();
-        console.log(
-          `[${requestId}] Extracted ${linkResult.links?.length || 0} links from explanation ` +
-            `(${linkResult.newCount} new, ${linkResult.keptCount} kept)`
-        );
-      } else {
-        console.warn(
-          `[${requestId}] Failed to extract links: ${linkResponse.status} ${linkResponse.statusText}`
-        );
+    // Forum edits no longer go live directly. A moderator reviews the pending
+    // revision; approving it publishes the explanation and extracts its links.
+    const { data: revisionId, error: proposeError } = await supabase.rpc(
+      "propose_forum_explanation",
+      {
+        p_question_id: questionId,
+        p_explanation: newExplanation,
+        p_forum_username: post.username,
       }
-    } catch (linkError) {
-      // Non-fatal - log warning but don't fail the webhook
-      console.warn(`[${requestId}] Failed to extract links from explanation:`, linkError);
+    );
+
+    if (proposeError) {
+      console.error(`[${requestId}] Failed to queue explanation for ${displayName}:`, proposeError);
+      throw proposeError;
     }
 
+    console.log(`[${requestId}] Queued explanation revision ${revisionId} for ${displayName}`);
+
     // =========================================================================
     // 8. RETURN SUCCESS
     // =========================================================================
 
     return new Response(
       JSON.stringify({
-        status: "updated",
+        status: "queued",
         questionId,
         displayName,
+        revisionId,
         topicId: post.topic_id,
         explanationLength: newExplanation.length,
         previousLength: previousExplanation?.length || 0,
@@ -6,6 +6,7 @@ import { assertEquals } from "jsr:@std/assert@1";
 import {
   parseExplanationFromPost,
   extractQuestionIdFromTitle,
+  pickQuestionForTitle,
   extractTopicIdFromUrl,
   isValidSignatureFormat,
   extractSignatureDigest,
@@ -175,6 +176,36 @@ Deno.test("extractQuestionIdFromTitle - handles extra spaces", () => {
   );
 });
 
+// ============================================================
+// pickQuestionForTitle Tests
+// ============================================================
+
+const OLD_T1A01 = { id: "old-uuid", question: "What is the ITU?" };
+const NEW_T1A01 = { id: "new-uuid", question: "Which agency regulates amateur radio?" };
+
+Deno.test("pickQuestionForTitle - takes the only candidate", () => {
+  assertEquals(pickQuestionForTitle("T1A01 - Anything", [OLD_T1A01]), "old-uuid");
+});
+
+Deno.test("pickQuestionForTitle - matches the question text across pools", () => {
+  assertEquals(pickQuestionForTitle("T1A01 - What is the ITU?", [OLD_T1A01, NEW_T1A01]), "old-uuid");
+  assertEquals(
+    pickQuestionForTitle("T1A01 - Which agency regulates amateur radio?", [OLD_T1A01, NEW_T1A01]),
+    "new-uuid"
+  );
+});
+
+Deno.test("pickQuestionForTitle - matches a truncated title", () => {
+  assertEquals(pickQuestionForTitle("T1A01 - Which agency reg...", [OLD_T1A01, NEW_T1A01]), "new-uuid");
+});
+
+Deno.test("pickQuestionForTitle - returns null when the title is ambiguous", () => {
+  const same = { id: "same-uuid", question: OLD_T1A01.question };
+  assertEquals(pickQuestionForTitle("T1A01 - What is the ITU?", [OLD_T1A01, same]), null);
+  assertEquals(pickQuestionForTitle("T1A01 - Something else", [OLD_T1A01, NEW_T1A01]), null);
+  assertEquals(pickQuestionForTitle("T1A01 - Anything", []), null);
+});
+
 // ============================================================
 // extractTopicIdFromUrl Tests
 // ============================================================
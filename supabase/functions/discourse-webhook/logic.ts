@@ -80,6 +80,30 @@ export function extractQuestionIdFromTitle(
   return match ? match[1] : null;
 }
 
+/**
+ * Pick the question a title-only topic was created for.
+ * Every pool reuses display names, so with several candidates the question
+ * text in the title decides. Returns null when the title matches none or
+ * more than one of them.
+ */
+export function pickQuestionForTitle(
+  title: string,
+  candidates: { id: string; question: string }[]
+): string | null {
+  if (candidates.length === 1) {
+    return candidates[0].id;
+  }
+
+  // Titles are "T1A01 - Question text", truncated with "..." when long
+  const text = title.replace(QUESTION_ID_PATTERN, "").replace(/\.\.\.$/, "").trim();
+  if (!text) {
+    return null;
+  }
+
+  const matches = candidates.filter((c) => c.question.trim().startsWith(text));
+  return matches.length === 1 ? matches[0].id : null;
+}
+
 /**
  * Extract topic ID from a Discourse forum URL.
  * Handles URLs like:
@@ -122,7 +122,8 @@ Deno.serve(async (req) => {
     const supabase = createClient(supabaseUrl, supabaseKey);
 
     // ==========================================================================
-    // AUTHENTICATE REQUEST — require admin user or service_role bearer
+    // AUTHENTICATE REQUEST — require admin user or service_role bearer.
+    // Moderators may only re-extract links after publishing an explanation.
     // ==========================================================================
     const authHeader = req.headers.get('Authorization');
     if (!authHeader) {
@@ -133,6 +134,8 @@ Deno.serve(async (req) => {
     }
 
     const token = authHeader.replace('Bearer ', '');
+    // service_role callers get full access
+    let callerRole: 'admin' | 'moderator' | null = 'admin';
 
     if (!isServiceRoleToken(token)) {
       const { data: { user }, error: authError } = await supabase.auth.getUser(token);
@@ -146,9 +149,11 @@ Deno.serve(async (req) => {
         .from('user_roles')
         .select('role')
         .eq('user_id', user.id)
-        .eq('role', 'admin')
-        .maybeSingle();
-      if (!roleData) {
+        .in('role', ['admin', 'moderator']);
+      callerRole = roleData?.some((r) => r.role === 'admin')
+        ? 'admin'
+        : roleData?.length ? 'moderator' : null;
+      if (!callerRole) {
         return new Response(JSON.stringify({ error: 'Admin role required' }), {
           status: 403,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -158,13 +163,24 @@ Deno.serve(async (req) => {
 
     const { action, questionId, url } = await req.json();
 
+    if (callerRole === 'moderator' && action !== 'extract-from-explanation') {
+      return new Response(JSON.stringify({ error: 'Admin role required' }), {
+        status: 403,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Helper to get question by ID (supports both UUID and display_name)
     const getQuestionById = async (qId: string, selectColumns: string = 'id, links') => {
       const lookupColumn = isLooseUUID(qId) ? 'id' : 'display_name';
+      // A display_name can exist in two pools during a pool transition;
+      // the newest pool wins
       const { data, error } = await supabase
         .from('questions')
         .select(selectColumns)
         .eq(lookupColumn, lookupColumn === 'display_name' ? qId.toUpperCase() : qId)
+        .order('pool_version', { ascending: false })
+        .limit(1)
         .single();
       return { data, error };
     };
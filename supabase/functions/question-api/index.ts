@@ -0,0 +1,131 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { errorResponse } from "../_shared/constants.ts";
+import {
+  checkRateLimit,
+  getClientAddress,
+  rateLimitBucketKey,
+  rateLimitHeaders,
+  throttledResponse,
+} from "../_shared/throttle.ts";
+import {
+  PUBLIC_CORS_HEADERS,
+  buildEtag,
+  buildPagination,
+  buildPoolFilter,
+  ifNoneMatchHits,
+  parseQuestionApiQuery,
+  toApiQuestion,
+  type QuestionRow,
+} from "./logic.ts";
+
+/**
+ * Public, read-only JSON API over the current question pools, for club sites
+ * and third-party study tools.
+ *
+ *   GET /functions/v1/question-api?exam=technician&subelement=T1&group=T1A&page=1&page_size=50
+ *
+ * All filters are optional. Responses carry a weak ETag and honour
+ * If-None-Match with 304, and each caller is limited to RATE_LIMIT requests
+ * per RATE_LIMIT_WINDOW_SECONDS.
+ */
+
+const FUNCTION_NAME = "question-api";
+const RATE_LIMIT = 120;
+const RATE_LIMIT_WINDOW_SECONDS = 60;
+const CACHE_CONTROL = "public, max-age=300, s-maxage=3600";
+const SITE_URL = "https://app.openhamprep.com";
+
+const QUESTION_COLUMNS =
+  "id, display_name, question, options, correct_answer, subelement, question_group, explanation, figure_url, figure_reference, pool_version, content_hash";
+
+Deno.serve(async (req: Request) => {
+  const requestId = crypto.randomUUID().slice(0, 8);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: PUBLIC_CORS_HEADERS });
+  }
+
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    return errorResponse("Method not allowed", 405, undefined, { ...PUBLIC_CORS_HEADERS, Allow: "GET, HEAD, OPTIONS" });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    // service_role only for the rate limit counter; question data is read
+    // with the anon key so RLS still decides what is public
+    const serviceClient = createClient(supabaseUrl, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const supabase = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!);
+
+    const bucketKey = await rateLimitBucketKey(FUNCTION_NAME, getClientAddress(req));
+    const rateLimit = await checkRateLimit(serviceClient, bucketKey, RATE_LIMIT, RATE_LIMIT_WINDOW_SECONDS);
+    if (!rateLimit.allowed) {
+      console.warn(`[${requestId}] Rate limited ${bucketKey}`);
+      return throttledResponse(FUNCTION_NAME, rateLimit, { ...PUBLIC_CORS_HEADERS, ...rateLimitHeaders(rateLimit) });
+    }
+    const headers = { ...PUBLIC_CORS_HEADERS, ...rateLimitHeaders(rateLimit) };
+
+    const url = new URL(req.url);
+    const parsed = parseQuestionApiQuery(url.searchParams);
+    if (!parsed.ok) {
+      return errorResponse(parsed.error, 400, undefined, headers);
+    }
+    const { exams, subelement, group, page, pageSize } = parsed.query;
+
+    const { data: pools, error: poolsError } = await supabase
+      .from("question_pools")
+      .select("exam_type, pool_version")
+      .eq("is_current", true)
+      .in("exam_type", exams);
+
+    if (poolsError) {
+      return errorResponse("Failed to load question pools", 500, poolsError, headers);
+    }
+
+    const poolFilter = buildPoolFilter(pools ?? []);
+    let rows: QuestionRow[] = [];
+    let total = 0;
+
+    if (poolFilter) {
+      const from = (page - 1) * pageSize;
+      let query = supabase
+        .from("questions")
+        .select(QUESTION_COLUMNS, { count: "exact" })
+        .or(poolFilter)
+        .order("display_name", { ascending: true })
+        .range(from, from + pageSize - 1);
+      if (subelement) query = query.eq("subelement", subelement);
+      if (group) query = query.eq("question_group", group);
+
+      const { data, error, count } = await query;
+      // PostgREST rejects a range past the end; that is just an empty page
+      if (error && error.code !== "PGRST103") {
+        return errorResponse("Failed to load questions", 500, error, headers);
+      }
+      rows = (data ?? []) as QuestionRow[];
+      total = count ?? 0;
+    }
+
+    const body = JSON.stringify({
+      data: rows.map(toApiQuestion),
+      pagination: buildPagination(url, page, pageSize, total),
+      pools: (pools ?? []).map((p) => ({ exam: p.exam_type, pool_version: p.pool_version })),
+      source: SITE_URL,
+    });
+
+    const etag = await buildEtag(body);
+    const cacheHeaders = { ...headers, ETag: etag, "Cache-Control": CACHE_CONTROL };
+
+    if (ifNoneMatchHits(req.headers.get("if-none-match"), etag)) {
+      return new Response(null, { status: 304, headers: cacheHeaders });
+    }
+
+    console.log(`[${requestId}] Served ${rows.length}/${total} questions (page ${page})`);
+    return new Response(req.method === "HEAD" ? null : body, {
+      headers: { ...cacheHeaders, "Content-Type": "application/json; charset=utf-8" },
+    });
+  } catch (error) {
+    return errorResponse("Internal server error", 500, error, PUBLIC_CORS_HEADERS);
+  }
+});
@@ -0,0 +1,162 @@
+// ============================================================
+// UNIT TESTS FOR QUESTION-API LOGIC
+// ============================================================
+
+import { assertEquals } from "jsr:@std/assert@1";
+import {
+  DEFAULT_PAGE_SIZE,
+  buildEtag,
+  buildPagination,
+  buildPoolFilter,
+  ifNoneMatchHits,
+  parseQuestionApiQuery,
+  toApiQuestion,
+  type QuestionRow,
+} from "./logic.ts";
+
+const parse = (query: string) => parseQuestionApiQuery(new URLSearchParams(query));
+
+// ============================================================
+// parseQuestionApiQuery Tests
+// ============================================================
+
+Deno.test("parseQuestionApiQuery - defaults to every exam, first page", () => {
+  assertEquals(parse(""), {
+    ok: true,
+    query: { exams: ["technician", "general", "extra"], subelement: null, group: null, page: 1, pageSize: DEFAULT_PAGE_SIZE },
+  });
+});
+
+Deno.test("parseQuestionApiQuery - filters by exam, subelement and group", () => {
+  assertEquals(parse("exam=General&page=3&page_size=10"), {
+    ok: true,
+    query: { exams: ["general"], subelement: null, group: null, page: 3, pageSize: 10 },
+  });
+  assertEquals(parse("group=t1a"), {
+    ok: true,
+    query: { exams: ["technician"], subelement: "T1", group: "T1A", page: 1, pageSize: DEFAULT_PAGE_SIZE },
+  });
+  assertEquals(parse("exam=extra&subelement=E3"), {
+    ok: true,
+    query: { exams: ["extra"], subelement: "E3", group: null, page: 1, pageSize: DEFAULT_PAGE_SIZE },
+  });
+});
+
+Deno.test("parseQuestionApiQuery - rejects malformed filters", () => {
+  assertEquals(parse("exam=novice").ok, false);
+  assertEquals(parse("subelement=T10").ok, false);
+  assertEquals(parse("group=T1").ok, false);
+  assertEquals(parse("subelement=T1&group=T2A").ok, false);
+  assertEquals(parse("exam=general&subelement=T1").ok, false);
+});
+
+Deno.test("parseQuestionApiQuery - rejects out-of-range paging", () => {
+  assertEquals(parse("page=0").ok, false);
+  assertEquals(parse("page=-1").ok, false);
+  assertEquals(parse("page=two").ok, false);
+  assertEquals(parse("page_size=0").ok, false);
+  assertEquals(parse("page_size=101").ok, false);
+});
+
+// ============================================================
+// buildPoolFilter Tests
+// ============================================================
+
+Deno.test("buildPoolFilter - restricts each exam to its current pool", () => {
+  assertEquals(
+    buildPoolFilter([
+      { exam_type: "technician", pool_version: "2026-2030" },
+      { exam_type: "general", pool_version: "2023-2027" },
+    ]),
+    'and(subelement.like.T*,pool_version.eq."2026-2030"),and(subelement.like.G*,pool_version.eq."2023-2027")',
+  );
+});
+
+Deno.test("buildPoolFilter - returns null without current pools", () => {
+  assertEquals(buildPoolFilter([]), null);
+  assertEquals(buildPoolFilter([{ exam_type: "novice", pool_version: "1970" }]), null);
+});
+
+// ============================================================
+// toApiQuestion Tests
+// ============================================================
+
+const row: QuestionRow = {
+  id: "uuid-1",
+  display_name: "T6A01",
+  question: "What is component 1 in figure T-1?",
+  options: ["Resistor", "Transistor", "Battery", "Connector"],
+  correct_answer: 0,
+  subelement: "T6",
+  question_group: "T6A",
+  explanation: "Zig-zag lines are a resistor.",
+  figure_url: "https://example.com/T-1.png",
+  figure_reference: "T-1",
+  pool_version: "2026-2030",
+  content_hash: "abc123",
+};
+
+Deno.test("toApiQuestion - maps a question row to the public shape", () => {
+  assertEquals(toApiQuestion(row), {
+    id: "uuid-1",
+    display_name: "T6A01",
+    exam: "technician",
+    subelement: "T6",
+    group: "T6A",
+    question: "What is component 1 in figure T-1?",
+    options: { A: "Resistor", B: "Transistor", C: "Battery", D: "Connector" },
+    correct_answer: "A",
+    explanation: "Zig-zag lines are a resistor.",
+    figure: { url: "https://example.com/T-1.png", reference: "T-1" },
+    pool_version: "2026-2030",
+    content_hash: "abc123",
+  });
+});
+
+Deno.test("toApiQuestion - leaves out missing figures", () => {
+  assertEquals(toApiQuestion({ ...row, figure_url: null, figure_reference: null }).figure, null);
+});
+
+// ============================================================
+// buildPagination Tests
+// ============================================================
+
+Deno.test("buildPagination - links neighbouring pages", () => {
+  const url = new URL("https://x.supabase.co/functions/v1/question-api?exam=technician&page=2");
+  assertEquals(buildPagination(url, 2, 50, 120), {
+    page: 2,
+    page_size: 50,
+    total: 120,
+    total_pages: 3,
+    next: "https://x.supabase.co/functions/v1/question-api?exam=technician&page=3",
+    prev: "https://x.supabase.co/functions/v1/question-api?exam=technician&page=1",
+  });
+});
+
+Deno.test("buildPagination - has no next link on the last page", () => {
+  const url = new URL("https://x.supabase.co/functions/v1/question-api");
+  const pagination = buildPagination(url, 1, 50, 30);
+  assertEquals(pagination.next, null);
+  assertEquals(pagination.prev, null);
+  assertEquals(pagination.total_pages, 1);
+});
+
+// ============================================================
+// ETag Tests
+// ============================================================
+
+Deno.test("buildEtag - is stable for the same body and changes with it", async () => {
+  const etag = await buildEtag('{"data":[]}');
+  assertEquals(etag.startsWith('W/"'), true);
+  assertEquals(await buildEtag('{"data":[]}'), etag);
+  assertEquals((await buildEtag('{"data":[1]}')) === etag, false);
+});
+
+Deno.test("ifNoneMatchHits - compares weakly against a list of tags", () => {
+  assertEquals(ifNoneMatchHits('W/"abc"', 'W/"abc"'), true);
+  assertEquals(ifNoneMatchHits('"abc"', 'W/"abc"'), true);
+  assertEquals(ifNoneMatchHits('W/"old", W/"abc"', 'W/"abc"'), true);
+  assertEquals(ifNoneMatchHits("*", 'W/"abc"'), true);
+  assertEquals(ifNoneMatchHits('W/"old"', 'W/"abc"'), false);
+  assertEquals(ifNoneMatchHits(null, 'W/"abc"'), false);
+});
@@ -0,0 +1,221 @@
+/// <reference lib="deno.ns" />
+
+// ============================================================
+// PURE LOGIC FOR QUESTION-API
+// Extracted for testability
+// ============================================================
+
+export const EXAM_TYPES = ["technician", "general", "extra"] as const;
+export type ExamType = typeof EXAM_TYPES[number];
+
+export const EXAM_PREFIXES: Record<ExamType, string> = {
+  technician: "T",
+  general: "G",
+  extra: "E",
+};
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 100;
+const ANSWER_LETTERS = ["A", "B", "C", "D"] as const;
+
+/**
+ * Public, read-only data for any origin. Unlike getCorsHeaders() this is not
+ * restricted to APP_DOMAIN: third-party sites are the intended callers.
+ */
+export const PUBLIC_CORS_HEADERS: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "if-none-match, content-type",
+  "Access-Control-Expose-Headers": "ETag, Retry-After, X-RateLimit-Limit, X-RateLimit-Remaining",
+};
+
+export interface QuestionApiQuery {
+  exams: ExamType[];
+  subelement: string | null;
+  group: string | null;
+  page: number;
+  pageSize: number;
+}
+
+export type ParseResult =
+  | { ok: true; query: QuestionApiQuery }
+  | { ok: false; error: string };
+
+function examForPrefix(prefix: string): ExamType | null {
+  const upper = prefix.toUpperCase();
+  return EXAM_TYPES.find((exam) => EXAM_PREFIXES[exam] === upper) ?? null;
+}
+
+function parsePositiveInt(value: string | null): number | null {
+  if (value === null) return null;
+  if (!/^\d+$/.test(value)) return NaN;
+  return parseInt(value, 10);
+}
+
+/**
+ * Validate the query string: `exam`, `subelement` (T1), `group` (T1A),
+ * `page` (1-based) and `page_size` (1-100). Subelement and group imply the
+ * exam, and must agree with it when both are given.
+ */
+export function parseQuestionApiQuery(params: URLSearchParams): ParseResult {
+  const examParam = params.get("exam")?.toLowerCase() ?? null;
+  const subelement = params.get("subelement")?.toUpperCase() ?? null;
+  const group = params.get("group")?.toUpperCase() ?? null;
+
+  if (examParam && !EXAM_TYPES.includes(examParam as ExamType)) {
+    return { ok: false, error: `Invalid exam. Expected one of: ${EXAM_TYPES.join(", ")}` };
+  }
+  if (subelement && !/^[TGE]\d$/.test(subelement)) {
+    return { ok: false, error: "Invalid subelement. Expected format: T1, G2, E3" };
+  }
+  if (group && !/^[TGE]\d[A-Z]$/.test(group)) {
+    return { ok: false, error: "Invalid group. Expected format: T1A, G2B, E3C" };
+  }
+  if (subelement && group && !group.startsWith(subelement)) {
+    return { ok: false, error: `Group ${group} is not in subelement ${subelement}` };
+  }
+
+  const prefixExam = examForPrefix((group ?? subelement ?? "")[0] ?? "");
+  if (examParam && prefixExam && prefixExam !== examParam) {
+    return { ok: false, error: `${group ?? subelement} is not part of the ${examParam} pool` };
+  }
+
+  const page = parsePositiveInt(params.get("page")) ?? 1;
+  if (Number.isNaN(page) || page < 1) {
+    return { ok: false, error: "Invalid page. Expected a positive integer" };
+  }
+  const pageSize = parsePositiveInt(params.get("page_size")) ?? DEFAULT_PAGE_SIZE;
+  if (Number.isNaN(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return { ok: false, error: `Invalid page_size. Expected 1-${MAX_PAGE_SIZE}` };
+  }
+
+  const exam = (examParam as ExamType | null) ?? prefixExam;
+  return {
+    ok: true,
+    query: {
+      exams: exam ? [exam] : [...EXAM_TYPES],
+      subelement: group ? group.slice(0, 2) : subelement,
+      group,
+      page,
+      pageSize,
+    },
+  };
+}
+
+export interface CurrentPool {
+  exam_type: string;
+  pool_version: string;
+}
+
+/**
+ * PostgREST `or` filter restricting questions to each exam's current pool,
+ * e.g. `and(subelement.like.T*,pool_version.eq.2026-2030)`. Returns null when
+ * no requested exam has a current pool.
+ */
+export function buildPoolFilter(pools: CurrentPool[]): string | null {
+  const clauses = pools
+    .filter((pool) => EXAM_TYPES.includes(pool.exam_type as ExamType))
+    .map((pool) => `and(subelement.like.${EXAM_PREFIXES[pool.exam_type as ExamType]}*,pool_version.eq."${pool.pool_version}")`);
+  return clauses.length > 0 ? clauses.join(",") : null;
+}
+
+export interface QuestionRow {
+  id: string;
+  display_name: string;
+  question: string;
+  options: unknown;
+  correct_answer: number;
+  subelement: string;
+  question_group: string;
+  explanation: string | null;
+  figure_url: string | null;
+  figure_reference: string | null;
+  pool_version: string | null;
+  content_hash: string | null;
+}
+
+export interface ApiQuestion {
+  id: string;
+  display_name: string;
+  exam: ExamType | null;
+  subelement: string;
+  group: string;
+  question: string;
+  options: Record<"A" | "B" | "C" | "D", string>;
+  correct_answer: "A" | "B" | "C" | "D";
+  explanation: string | null;
+  figure: { url: string; reference: string | null } | null;
+  pool_version: string | null;
+  content_hash: string | null;
+}
+
+export function toApiQuestion(row: QuestionRow): ApiQuestion {
+  const options = Array.isArray(row.options) ? row.options : [];
+  return {
+    id: row.id,
+    display_name: row.display_name,
+    exam: examForPrefix(row.display_name[0] ?? ""),
+    subelement: row.subelement,
+    group: row.question_group,
+    question: row.question,
+    options: {
+      A: String(options[0] ?? ""),
+      B: String(options[1] ?? ""),
+      C: String(options[2] ?? ""),
+      D: String(options[3] ?? ""),
+    },
+    correct_answer: ANSWER_LETTERS[row.correct_answer] ?? "A",
+    explanation: row.explanation,
+    figure: row.figure_url ? { url: row.figure_url, reference: row.figure_reference } : null,
+    pool_version: row.pool_version,
+    content_hash: row.content_hash,
+  };
+}
+
+export interface Pagination {
+  page: number;
+  page_size: number;
+  total: number;
+  total_pages: number;
+  next: string | null;
+  prev: string | null;
+}
+
+function pageUrl(url: URL, page: number): string {
+  const next = new URL(url);
+  next.searchParams.set("page", String(page));
+  return next.toString();
+}
+
+export function buildPagination(url: URL, page: number, pageSize: number, total: number): Pagination {
+  const totalPages = Math.ceil(total / pageSize);
+  return {
+    page,
+    page_size: pageSize,
+    total,
+    total_pages: totalPages,
+    next: page < totalPages ? pageUrl(url, page + 1) : null,
+    prev: page > 1 ? pageUrl(url, Math.min(page - 1, Math.max(totalPages, 1))) : null,
+  };
+}
+
+/**
+ * Weak ETag over the serialized response body. The body carries every
+ * question's content_hash and pool_version, so any edit or pool switch
+ * changes it.
+ */
+export async function buildEtag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-1", new TextEncoder().encode(body));
+  const hex = Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+  return `W/"${hex}"`;
+}
+
+/** If-None-Match uses weak comparison: W/ prefixes are ignored, "*" matches anything */
+export function ifNoneMatchHits(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  const strip = (tag: string) => tag.trim().replace(/^W\//, "");
+  const target = strip(etag);
+  return header.split(",").some((tag) => tag.trim() === "*" || strip(tag) === target);
+}
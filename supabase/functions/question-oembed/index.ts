@@ -0,0 +1,95 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { errorResponse } from "../_shared/constants.ts";
+import { buildQuestionTitle, isUUID } from "../question-opengraph/logic.ts";
+import {
+  PUBLIC_CORS_HEADERS,
+  SITE_URL,
+  SITE_NAME,
+  buildQuestionLinkOembed,
+  buildQuestionOfTheDayOembed,
+  getEmbedSize,
+  parseOembedTarget,
+} from "./logic.ts";
+
+/**
+ * oEmbed provider (https://oembed.com) so forum posts unfurl Open Ham Prep
+ * links:
+ *
+ *   GET /functions/v1/question-oembed?url=https://app.openhamprep.com/embed/question-of-the-day?exam=general
+ *
+ * The question of the day widget comes back as a rich iframe embed; question
+ * pages come back as a titled link. Consumers find this endpoint through the
+ * discovery tag question-opengraph serves to crawlers.
+ */
+
+const DEFAULT_IMAGE = `${SITE_URL}/icons/icon-512.png`;
+const CACHE_CONTROL = "public, max-age=3600, s-maxage=3600";
+
+function jsonResponse(body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    headers: {
+      ...PUBLIC_CORS_HEADERS,
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": CACHE_CONTROL,
+    },
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  const requestId = crypto.randomUUID().slice(0, 8);
+
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: PUBLIC_CORS_HEADERS });
+  }
+
+  if (req.method !== "GET") {
+    return errorResponse("Method not allowed", 405, undefined, { ...PUBLIC_CORS_HEADERS, Allow: "GET, OPTIONS" });
+  }
+
+  try {
+    const params = new URL(req.url).searchParams;
+
+    // oEmbed spec: 501 for formats the provider doesn't support
+    const format = params.get("format");
+    if (format && format !== "json") {
+      return errorResponse("Only format=json is supported", 501, undefined, PUBLIC_CORS_HEADERS);
+    }
+
+    const target = parseOembedTarget(params.get("url"));
+    if (!target) {
+      console.warn(`[${requestId}] question-oembed: No embed for url ${params.get("url")?.slice(0, 100) || "missing"}`);
+      return errorResponse("No embed available for this URL", 404, undefined, PUBLIC_CORS_HEADERS);
+    }
+
+    if (target.kind === "question-of-the-day") {
+      const size = getEmbedSize(params.get("maxwidth"), params.get("maxheight"));
+      return jsonResponse(buildQuestionOfTheDayOembed(target, size));
+    }
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!);
+
+    // Same lookup as question-opengraph: newest pool wins for a display_name
+    const lookupColumn = isUUID(target.questionId) ? "id" : "display_name";
+    const { data: question, error } = await supabase
+      .from("questions")
+      .select("display_name")
+      .ilike(lookupColumn, target.questionId)
+      .order("pool_version", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      return errorResponse("Failed to load question", 500, error, PUBLIC_CORS_HEADERS);
+    }
+    if (!question) {
+      return errorResponse("Question not found", 404, undefined, PUBLIC_CORS_HEADERS);
+    }
+
+    return jsonResponse(buildQuestionLinkOembed(buildQuestionTitle(question.display_name, SITE_NAME), DEFAULT_IMAGE));
+  } catch (error) {
+    console.error(`[${requestId}] Unhandled error:`, error);
+    return errorResponse("Internal server error", 500, undefined, PUBLIC_CORS_HEADERS);
+  }
+});
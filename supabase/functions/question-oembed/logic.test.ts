@@ -0,0 +1,109 @@
+// ============================================================
+// UNIT TESTS FOR QUESTION-OEMBED LOGIC
+// ============================================================
+
+import { assertEquals } from "jsr:@std/assert@1";
+import {
+  DEFAULT_EMBED_HEIGHT,
+  DEFAULT_EMBED_WIDTH,
+  buildQuestionLinkOembed,
+  buildQuestionOfTheDayOembed,
+  getEmbedSize,
+  parseOembedTarget,
+} from "./logic.ts";
+
+// ============================================================
+// parseOembedTarget Tests
+// ============================================================
+
+Deno.test("parseOembedTarget - matches the question of the day widget", () => {
+  assertEquals(
+    parseOembedTarget("https://app.openhamprep.com/embed/question-of-the-day?exam=general&theme=dark"),
+    {
+      kind: "question-of-the-day",
+      exam: "general",
+      theme: "dark",
+      embedUrl: "https://app.openhamprep.com/embed/question-of-the-day?exam=general&theme=dark",
+    }
+  );
+});
+
+Deno.test("parseOembedTarget - normalises unknown widget parameters", () => {
+  assertEquals(
+    parseOembedTarget("https://app.openhamprep.com/embed/question-of-the-day/?exam=novice&theme=pink&x=%22"),
+    {
+      kind: "question-of-the-day",
+      exam: "technician",
+      theme: null,
+      embedUrl: "https://app.openhamprep.com/embed/question-of-the-day?exam=technician",
+    }
+  );
+});
+
+Deno.test("parseOembedTarget - matches question pages and short links", () => {
+  assertEquals(parseOembedTarget("https://app.openhamprep.com/questions/t1a01"), {
+    kind: "question",
+    questionId: "t1a01",
+  });
+  assertEquals(parseOembedTarget("https://app.openhamprep.com/q/G2B03"), {
+    kind: "question",
+    questionId: "G2B03",
+  });
+});
+
+Deno.test("parseOembedTarget - rejects other hosts, paths and malformed URLs", () => {
+  assertEquals(parseOembedTarget("https://evil.example.com/embed/question-of-the-day"), null);
+  assertEquals(parseOembedTarget("https://app.openhamprep.com/dashboard"), null);
+  assertEquals(parseOembedTarget("https://app.openhamprep.com/questions/not-a-question"), null);
+  assertEquals(parseOembedTarget("not a url"), null);
+  assertEquals(parseOembedTarget(null), null);
+});
+
+// ============================================================
+// getEmbedSize Tests
+// ============================================================
+
+Deno.test("getEmbedSize - uses the default size without limits", () => {
+  assertEquals(getEmbedSize(null, null), { width: DEFAULT_EMBED_WIDTH, height: DEFAULT_EMBED_HEIGHT });
+});
+
+Deno.test("getEmbedSize - never exceeds maxwidth/maxheight", () => {
+  assertEquals(getEmbedSize("400", "300"), { width: 400, height: 300 });
+  assertEquals(getEmbedSize("2000", "2000"), { width: DEFAULT_EMBED_WIDTH, height: DEFAULT_EMBED_HEIGHT });
+});
+
+Deno.test("getEmbedSize - ignores invalid limits", () => {
+  assertEquals(getEmbedSize("-5", "abc"), { width: DEFAULT_EMBED_WIDTH, height: DEFAULT_EMBED_HEIGHT });
+  assertEquals(getEmbedSize("0", ""), { width: DEFAULT_EMBED_WIDTH, height: DEFAULT_EMBED_HEIGHT });
+});
+
+// ============================================================
+// Response builder Tests
+// ============================================================
+
+Deno.test("buildQuestionOfTheDayOembed - returns a rich iframe embed", () => {
+  const target = parseOembedTarget("https://app.openhamprep.com/embed/question-of-the-day?exam=extra&theme=light");
+  if (target?.kind !== "question-of-the-day") throw new Error("expected widget target");
+
+  const oembed = buildQuestionOfTheDayOembed(target, { width: 500, height: 400 });
+
+  assertEquals(oembed.version, "1.0");
+  assertEquals(oembed.type, "rich");
+  assertEquals(oembed.provider_name, "Open Ham Prep");
+  assertEquals(oembed.title, "Extra Question of the Day | Open Ham Prep");
+  assertEquals(oembed.width, 500);
+  assertEquals(oembed.height, 400);
+  assertEquals(
+    oembed.html,
+    '<iframe src="https://app.openhamprep.com/embed/question-of-the-day?exam=extra&amp;theme=light" title="Extra Question of the Day | Open Ham Prep" width="500" height="400" style="border:0;max-width:100%" loading="lazy"></iframe>'
+  );
+});
+
+Deno.test("buildQuestionLinkOembed - returns a titled link with thumbnail", () => {
+  const oembed = buildQuestionLinkOembed("Question T1A01 | Open Ham Prep", "https://app.openhamprep.com/icons/icon-512.png");
+
+  assertEquals(oembed.type, "link");
+  assertEquals(oembed.title, "Question T1A01 | Open Ham Prep");
+  assertEquals(oembed.thumbnail_url, "https://app.openhamprep.com/icons/icon-512.png");
+  assertEquals(oembed.html, undefined);
+});
@@ -0,0 +1,158 @@
+/**
+ * Pure logic functions for question-oembed edge function.
+ * Extracted for testability.
+ */
+
+import {
+  buildQuestionOfTheDayTitle,
+  escapeHtml,
+  isValidQuestionId,
+  parseEmbedExam,
+  type EmbedExam,
+} from "../question-opengraph/logic.ts";
+
+export const SITE_URL = "https://app.openhamprep.com";
+export const SITE_NAME = "Open Ham Prep";
+export const QUESTION_OF_THE_DAY_PATH = "/embed/question-of-the-day";
+
+export const DEFAULT_EMBED_WIDTH = 600;
+export const DEFAULT_EMBED_HEIGHT = 560;
+// Widget content doesn't change within a UTC day
+export const OEMBED_CACHE_AGE = 3600;
+
+export const PUBLIC_CORS_HEADERS: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Headers": "content-type",
+};
+
+// ============================================================
+// URL MATCHING
+// ============================================================
+
+export type OembedTarget =
+  | { kind: "question-of-the-day"; exam: EmbedExam; theme: "light" | "dark" | null; embedUrl: string }
+  | { kind: "question"; questionId: string };
+
+/**
+ * Match an oEmbed `url` parameter against the URL schemes we provide embeds
+ * for. Returns null for anything else, including other hosts.
+ */
+export function parseOembedTarget(value: string | null): OembedTarget | null {
+  if (!value) return null;
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  if (url.origin !== SITE_URL) return null;
+
+  const path = url.pathname.replace(/\/+$/, "");
+
+  if (path === QUESTION_OF_THE_DAY_PATH) {
+    const exam = parseEmbedExam(url.searchParams.get("exam"));
+    const themeParam = url.searchParams.get("theme");
+    const theme = themeParam === "light" || themeParam === "dark" ? themeParam : null;
+
+    // Rebuild rather than echo the input so only known parameters reach the iframe
+    const embedUrl = new URL(QUESTION_OF_THE_DAY_PATH, SITE_URL);
+    embedUrl.searchParams.set("exam", exam);
+    if (theme) embedUrl.searchParams.set("theme", theme);
+
+    return { kind: "question-of-the-day", exam, theme, embedUrl: embedUrl.toString() };
+  }
+
+  const questionMatch = path.match(/^\/(?:questions|q)\/([^/]+)$/);
+  if (questionMatch && isValidQuestionId(questionMatch[1])) {
+    return { kind: "question", questionId: questionMatch[1] };
+  }
+
+  return null;
+}
+
+// ============================================================
+// SIZING
+// ============================================================
+
+function parseDimension(value: string | null): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  return parseInt(value, 10);
+}
+
+/**
+ * Iframe size within the consumer's maxwidth/maxheight; the oEmbed spec
+ * forbids exceeding them, and the widget scrolls when squeezed.
+ */
+export function getEmbedSize(
+  maxWidth: string | null,
+  maxHeight: string | null
+): { width: number; height: number } {
+  const widthLimit = parseDimension(maxWidth);
+  const heightLimit = parseDimension(maxHeight);
+  return {
+    width: Math.min(DEFAULT_EMBED_WIDTH, widthLimit || DEFAULT_EMBED_WIDTH),
+    height: Math.min(DEFAULT_EMBED_HEIGHT, heightLimit || DEFAULT_EMBED_HEIGHT),
+  };
+}
+
+// ============================================================
+// RESPONSES
+// ============================================================
+
+export interface OembedResponse {
+  version: "1.0";
+  type: "rich" | "link";
+  provider_name: string;
+  provider_url: string;
+  title: string;
+  cache_age: number;
+  html?: string;
+  width?: number;
+  height?: number;
+  thumbnail_url?: string;
+  thumbnail_width?: number;
+  thumbnail_height?: number;
+}
+
+export function buildIframeHtml(embedUrl: string, title: string, width: number, height: number): string {
+  return `<iframe src="${escapeHtml(embedUrl)}" title="${escapeHtml(title)}" width="${width}" height="${height}" style="border:0;max-width:100%" loading="lazy"></iframe>`;
+}
+
+/** Rich (iframe) oEmbed response for the question of the day widget */
+export function buildQuestionOfTheDayOembed(
+  target: Extract<OembedTarget, { kind: "question-of-the-day" }>,
+  size: { width: number; height: number }
+): OembedResponse {
+  const title = buildQuestionOfTheDayTitle(target.exam, SITE_NAME);
+  return {
+    version: "1.0",
+    type: "rich",
+    provider_name: SITE_NAME,
+    provider_url: SITE_URL,
+    title,
+    cache_age: OEMBED_CACHE_AGE,
+    html: buildIframeHtml(target.embedUrl, title, size.width, size.height),
+    width: size.width,
+    height: size.height,
+  };
+}
+
+/**
+ * Link oEmbed response for a single question page. Questions are unfurled as
+ * a titled link; answering in place is what the daily widget is for.
+ */
+export function buildQuestionLinkOembed(title: string, thumbnailUrl: string): OembedResponse {
+  return {
+    version: "1.0",
+    type: "link",
+    provider_name: SITE_NAME,
+    provider_url: SITE_URL,
+    title,
+    cache_age: OEMBED_CACHE_AGE,
+    thumbnail_url: thumbnailUrl,
+    thumbnail_width: 512,
+    thumbnail_height: 512,
+  };
+}
@@ -9,6 +9,9 @@ import {
   isUUID,
   isValidQuestionId,
   getLicenseName,
+  parseEmbedExam,
+  buildQuestionOfTheDayTitle,
+  buildOembedDiscoveryTag,
 } from "./logic.ts";
 
 const SITE_URL = 'https://app.openhamprep.com';
@@ -30,6 +33,13 @@ Deno.serve(async (req: Request) => {
 
   try {
     const url = new URL(req.url);
+
+    // Question of the day widget: vercel.json only rewrites crawlers here, so
+    // forums unfurling the embed URL find its oEmbed endpoint
+    if (url.searchParams.get('embed') === 'question-of-the-day') {
+      return questionOfTheDayResponse(url, isCrawler(userAgent), corsHeaders, requestId);
+    }
+
     const questionId = url.searchParams.get('id');
 
     console.log(`[${requestId}] Question ID: ${questionId || 'missing'}`);
@@ -82,12 +92,15 @@ Deno.serve(async (req: Request) => {
     const supabaseKey = Deno.env.get('SUPABASE_ANON_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    // Support both UUID and display_name lookups
+    // Support both UUID and display_name lookups (newest pool wins when a
+    // display_name exists in two pools)
     const lookupColumn = isUUID(questionId) ? 'id' : 'display_name';
     const { data: question, error } = await supabase
       .from('questions')
       .select('id, display_name, question')
       .ilike(lookupColumn, questionId)
+      .order('pool_version', { ascending: false })
+      .limit(1)
       .single();
 
     if (error || !question) {
@@ -161,6 +174,7 @@ Deno.serve(async (req: Request) => {
   <meta name="twitter:image" content="${DEFAULT_IMAGE}">
 
   <link rel="canonical" href="${canonicalUrl}">
+  ${buildOembedDiscoveryTag(canonicalUrl, title)}
 </head>
 <body>
   <h1>${escapeHtml(title)}</h1>
@@ -183,3 +197,62 @@ Deno.serve(async (req: Request) => {
     return errorResponse('Internal server error', 500, undefined, corsHeaders);
   }
 });
+
+function questionOfTheDayResponse(
+  url: URL,
+  isCrawlerRequest: boolean,
+  corsHeaders: Record<string, string>,
+  requestId: string
+): Response {
+  const exam = parseEmbedExam(url.searchParams.get('exam'));
+  const embedUrl = new URL('/embed/question-of-the-day', SITE_URL);
+  embedUrl.searchParams.set('exam', exam);
+  const theme = url.searchParams.get('theme');
+  if (theme === 'light' || theme === 'dark') {
+    embedUrl.searchParams.set('theme', theme);
+  }
+  const pageUrl = embedUrl.toString();
+
+  if (!isCrawlerRequest) {
+    console.log(`[${requestId}] Browser request for embed, redirecting to ${pageUrl}`);
+    return new Response(null, {
+      status: 302,
+      headers: { ...corsHeaders, 'Location': pageUrl },
+    });
+  }
+
+  const title = buildQuestionOfTheDayTitle(exam, SITE_NAME);
+  const description = `A new ${getLicenseName(exam)} license exam question every day. Answer it and see the explanation.`;
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)}</title>
+  <meta name="description" content="${escapeHtml(description)}">
+  <meta property="og:type" content="website">
+  <meta property="og:title" content="${escapeHtml(title)}">
+  <meta property="og:description" content="${escapeHtml(description)}">
+  <meta property="og:url" content="${escapeHtml(pageUrl)}">
+  <meta property="og:site_name" content="${SITE_NAME}">
+  <meta property="og:image" content="${DEFAULT_IMAGE}">
+  <meta name="twitter:card" content="summary">
+  <link rel="canonical" href="${escapeHtml(pageUrl)}">
+  ${buildOembedDiscoveryTag(pageUrl, title)}
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p>${escapeHtml(description)}</p>
+  <p><a href="${escapeHtml(pageUrl)}">Answer today's question on ${SITE_NAME}</a></p>
+</body>
+</html>`;
+
+  return new Response(html, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/html; charset=utf-8',
+      // The question changes at 00:00 UTC; the page itself doesn't
+      'Cache-Control': 'public, max-age=3600, s-maxage=3600',
+    },
+  });
+}
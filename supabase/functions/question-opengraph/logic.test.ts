@@ -13,6 +13,9 @@ import {
   getLicenseName,
   buildQuestionTitle,
   CRAWLER_PATTERNS,
+  parseEmbedExam,
+  buildQuestionOfTheDayTitle,
+  buildOembedDiscoveryTag,
 } from "./logic.ts";
 
 // ============================================================
@@ -283,6 +286,30 @@ Deno.test("buildQuestionTitle - uppercases display name", () => {
   );
 });
 
+// ============================================================
+// Question of the day / oEmbed Tests
+// ============================================================
+
+Deno.test("parseEmbedExam - falls back to technician", () => {
+  assertEquals(parseEmbedExam("general"), "general");
+  assertEquals(parseEmbedExam("novice"), "technician");
+  assertEquals(parseEmbedExam(null), "technician");
+});
+
+Deno.test("buildQuestionOfTheDayTitle - names the license class", () => {
+  assertEquals(
+    buildQuestionOfTheDayTitle("extra", "Open Ham Prep"),
+    "Extra Question of the Day | Open Ham Prep"
+  );
+});
+
+Deno.test("buildOembedDiscoveryTag - links the oEmbed endpoint for the page", () => {
+  assertEquals(
+    buildOembedDiscoveryTag("https://app.openhamprep.com/questions/T1A01", "Question T1A01 | Open Ham Prep"),
+    '<link rel="alternate" type="application/json+oembed" href="https://api.openhamprep.com/functions/v1/question-oembed?url=https%3A%2F%2Fapp.openhamprep.com%2Fquestions%2FT1A01&amp;format=json" title="Question T1A01 | Open Ham Prep">'
+  );
+});
+
 // ============================================================
 // CRAWLER_PATTERNS Tests
 // ============================================================
@@ -129,3 +129,36 @@ export function buildQuestionTitle(
 ): string {
   return `Question ${displayName.toUpperCase()} | ${siteName}`;
 }
+
+// ============================================================
+// QUESTION OF THE DAY / OEMBED METADATA
+// ============================================================
+
+export const OEMBED_ENDPOINT = "https://api.openhamprep.com/functions/v1/question-oembed";
+
+export const EMBED_EXAMS = ["technician", "general", "extra"] as const;
+export type EmbedExam = typeof EMBED_EXAMS[number];
+
+/**
+ * Exam for the question of the day widget; unknown values fall back to
+ * technician, matching parseEmbedTestType in src/lib/questionOfTheDay.ts.
+ */
+export function parseEmbedExam(value: string | null): EmbedExam {
+  return EMBED_EXAMS.find((exam) => exam === value) ?? "technician";
+}
+
+/**
+ * Build page title for the question of the day widget
+ */
+export function buildQuestionOfTheDayTitle(exam: EmbedExam, siteName: string): string {
+  return `${getLicenseName(exam)} Question of the Day | ${siteName}`;
+}
+
+/**
+ * oEmbed discovery tag so forums (Discourse, WordPress, etc.) can find the
+ * embed for a page
+ */
+export function buildOembedDiscoveryTag(pageUrl: string, title: string): string {
+  const href = `${OEMBED_ENDPOINT}?url=${encodeURIComponent(pageUrl)}&format=json`;
+  return `<link rel="alternate" type="application/json+oembed" href="${escapeHtml(href)}" title="${escapeHtml(title)}">`;
+}
@@ -15,6 +15,8 @@ import {
 import {
   formatTopicBody,
   formatTopicTitle,
+  extractQuestionIdFromTitle,
+  needsTopic,
   type Question as LogicQuestion,
 } from "./logic.ts";
 import { checkThrottle, recordRun, throttledResponse } from "../_shared/throttle.ts";
@@ -40,6 +42,7 @@ interface Question {
   options: string[];
   correct_answer: number;
   explanation: string | null;
+  forum_url: string | null;
 }
 
 interface DiscourseCategory {
@@ -158,7 +161,7 @@ async function fetchExistingTopicsInCategory(
   categorySlug: string,
   requestId: string
 ): Promise<Set<string>> {
-  const existingQuestionIds = new Set<string>();
+  const existingTitles = new Set<string>();
   let page = 0;
   let hasMore = true;
 
@@ -188,10 +191,9 @@ async function fetchExistingTopicsInCategory(
     }
 
     for (const topic of topics) {
-      // Extract question ID from topic title (e.g., "T1A01 - Question text")
-      const match = topic.title.match(/^([TGE]\d[A-Z]\d{2})\s*-/);
-      if (match) {
-        existingQuestionIds.add(match[1]);
+      // Keep whole titles (e.g., "T1A01 - Question text"): every pool has a T1A01
+      if (extractQuestionIdFromTitle(topic.title)) {
+        existingTitles.add(topic.title);
       }
     }
 
@@ -204,7 +206,7 @@ async function fetchExistingTopicsInCategory(
     // No fixed delay - fetchWithBackoff handles rate limiting automatically
   }
 
-  return existingQuestionIds;
+  return existingTitles;
 }
 
 async function createDiscourseTopic(
@@ -430,7 +432,7 @@ Deno.serve(async (req: Request) => {
     console.log(`[${requestId}] Fetching questions from database...`);
     let query = supabase
       .from('questions')
-      .select('id, display_name, question, options, correct_answer, explanation');
+      .select('id, display_name, question, options, correct_answer, explanation, forum_url');
 
     // Filter by license if specified (use display_name for prefix filtering)
     if (licenseFilter.length === 1) {
@@ -472,9 +474,9 @@ Deno.serve(async (req: Request) => {
 
     console.log(`[${requestId}] Found ${questions.length} questions in database`);
 
-    // Filter to only questions that need to be created (check by display_name)
-    const questionsToCreate = questions.filter(q => !existingTopics.has(q.display_name));
-    const skippedQuestions = questions.filter(q => existingTopics.has(q.display_name));
+    // Filter to only questions that need to be created (linked or same-titled topics count)
+    const questionsToCreate = questions.filter(q => needsTopic(q, existingTopics));
+    const skippedQuestions = questions.filter(q => !needsTopic(q, existingTopics));
 
     console.log(`[${requestId}] ${questionsToCreate.length} topics to create, ${skippedQuestions.length} already exist`);
 
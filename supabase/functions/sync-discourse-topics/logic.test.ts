@@ -7,6 +7,7 @@ import {
   formatTopicBody,
   formatTopicTitle,
   extractQuestionIdFromTitle,
+  needsTopic,
   licenseToPrefix,
   prefixToLicense,
   getCategoryForPrefix,
@@ -154,6 +155,33 @@ Deno.test("extractQuestionIdFromTitle - handles extra spaces", () => {
   );
 });
 
+// ============================================================
+// needsTopic Tests
+// ============================================================
+
+const oldPoolQuestion: Question = {
+  id: "old-uuid",
+  display_name: "T1A01",
+  question: "What is the ITU?",
+  options: ["A", "B", "C", "D"],
+  correct_answer: 0,
+  explanation: null,
+};
+
+Deno.test("needsTopic - skips a question already linked to a topic", () => {
+  const linked = { ...oldPoolQuestion, forum_url: "https://forum.openhamprep.com/t/t1a01/42" };
+  assertEquals(needsTopic(linked, new Set()), false);
+});
+
+Deno.test("needsTopic - skips a question whose exact title exists", () => {
+  assertEquals(needsTopic(oldPoolQuestion, new Set(["T1A01 - What is the ITU?"])), false);
+});
+
+Deno.test("needsTopic - creates a topic for the same display name in another pool", () => {
+  const newPoolQuestion = { ...oldPoolQuestion, id: "new-uuid", question: "Which agency regulates amateur radio?" };
+  assertEquals(needsTopic(newPoolQuestion, new Set(["T1A01 - What is the ITU?"])), true);
+});
+
 // ============================================================
 // licenseToPrefix Tests
 // ============================================================
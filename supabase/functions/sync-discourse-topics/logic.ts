@@ -14,6 +14,7 @@ export interface Question {
   options: string[];
   correct_answer: number;
   explanation: string | null;
+  forum_url?: string | null;
 }
 
 /**
@@ -70,6 +71,18 @@ export function extractQuestionIdFromTitle(title: string): string | null {
   return match ? match[1] : null;
 }
 
+/**
+ * Whether a question still needs a topic. Display names repeat across pools,
+ * so an existing topic only counts when it is linked to this question or
+ * carries this question's exact title.
+ */
+export function needsTopic(question: Question, existingTitles: Set<string>): boolean {
+  if (question.forum_url) {
+    return false;
+  }
+  return !existingTitles.has(formatTopicTitle(question.display_name, question.question));
+}
+
 /**
  * Map license name to prefix.
  */
@@ -18,10 +18,13 @@ import {
  * Update Discourse Post Edge Function
  *
  * Updates the explanation section of a Discourse topic when an admin
- * edits a question's explanation in the app. This enables bidirectional
- * sync between the app database and Discourse forum.
+ * edits a question's explanation in the app, or a moderator reviews a
+ * proposed explanation. This enables bidirectional sync between the app
+ * database and Discourse forum.
  *
- * Security: Requires admin role or service_role token.
+ * Security: Requires admin or moderator role, or service_role token.
+ * Moderators can only republish the question's stored explanation; the
+ * explanation in the request body is ignored for them.
  */
 
 interface Question {
@@ -112,6 +115,7 @@ Deno.serve(async (req: Request) => {
 
     // Check for service role token first
     const isServiceRole = isServiceRoleToken(token);
+    let isModerator = false;
 
     if (!isServiceRole) {
       // Validate the user token using Supabase Auth
@@ -127,29 +131,31 @@ Deno.serve(async (req: Request) => {
         });
       }
 
-      // Verify user has admin role by querying the user_roles table
-      const { data: roleData, error: roleError } = await supabase
+      // Verify user has admin or moderator role by querying the user_roles table.
+      // Moderators push reviewed explanations back to the forum post.
+      const { data: roleRows, error: roleError } = await supabase
         .from("user_roles")
         .select("role")
         .eq("user_id", user.id)
-        .eq("role", "admin")
-        .maybeSingle();
+        .in("role", ["admin", "moderator"]);
 
-      console.log(`[${requestId}] Role check - data:`, roleData, "error:", roleError?.message);
+      console.log(`[${requestId}] Role check - data:`, roleRows, "error:", roleError?.message);
 
       if (roleError) {
         return errorResponse('Failed to verify access', 500, roleError, corsHeaders);
       }
 
-      if (!roleData) {
-        console.error(`[${requestId}] User is not admin:`, user.id);
-        return new Response(JSON.stringify({ error: "Admin role required" }), {
+      const roles = (roleRows ?? []).map((row: { role: string }) => row.role);
+      if (roles.length === 0) {
+        console.error(`[${requestId}] User is not admin or moderator:`, user.id);
+        return new Response(JSON.stringify({ error: "Admin or moderator role required" }), {
           status: 403,
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
 
-      console.log(`[${requestId}] User ${user.id} authenticated as admin`);
+      isModerator = !roles.includes("admin");
+      console.log(`[${requestId}] User ${user.id} authenticated as ${isModerator ? "moderator" : "admin"}`);
     } else {
       console.log(`[${requestId}] Service role token detected`);
     }
@@ -340,12 +346,16 @@ Deno.serve(async (req: Request) => {
     // 5. UPDATE THE POST IN DISCOURSE
     // ==========================================================================
 
+    // Moderators can only publish what review_explanation_revision has already
+    // written to the question, never text of their own
+    const postExplanation = isModerator ? question.explanation : explanation;
+
     // Use formatTopicBody from logic.ts
     const newBody = formatTopicBody(
       question.question,
       question.options,
       question.correct_answer,
-      explanation
+      postExplanation
     );
 
     const updateResponse = await fetch(`${DISCOURSE_URL}/posts/${postId}.json`, {
@@ -0,0 +1,230 @@
+-- Migration: Spaced-repetition scheduling on question_mastery
+-- Adds SM-2 state (ease factor, interval, due date) per user per question.
+-- The schedule is driven by question_attempt events: every event is treated as
+-- a review and moves the question's due date forward (correct) or resets it (incorrect).
+--
+-- The formulas mirror src/lib/spacedRepetition.ts - keep both in sync.
+
+-- ============================================================
+-- 1. SCHEDULING COLUMNS
+-- ============================================================
+
+ALTER TABLE public.question_mastery
+  ADD COLUMN IF NOT EXISTS ease_factor NUMERIC(4,2) NOT NULL DEFAULT 2.5,
+  ADD COLUMN IF NOT EXISTS interval_days INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS repetitions INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS lapses INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS due_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS last_reviewed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN public.question_mastery.ease_factor IS 'SM-2 ease factor (>= 1.3). Lower means the learner finds this question harder.';
+COMMENT ON COLUMN public.question_mastery.interval_days IS 'Days between the last review and the next scheduled review';
+COMMENT ON COLUMN public.question_mastery.repetitions IS 'Consecutive successful reviews since the last lapse';
+COMMENT ON COLUMN public.question_mastery.lapses IS 'Number of times the question was answered wrong after being scheduled';
+COMMENT ON COLUMN public.question_mastery.due_at IS 'When the question is next due for review (null = never reviewed)';
+COMMENT ON COLUMN public.question_mastery.last_reviewed_at IS 'Timestamp of the last question_attempt event applied to the schedule';
+
+-- "Due for review" lookups: WHERE user_id = ? AND due_at <= now()
+CREATE INDEX IF NOT EXISTS idx_question_mastery_user_due
+  ON public.question_mastery (user_id, due_at)
+  WHERE due_at IS NOT NULL;
+
+-- ============================================================
+-- 2. SCHEDULING FUNCTION
+-- Applies one review (SM-2) to a user's question schedule.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.schedule_question_review(
+  p_user_id UUID,
+  p_question_id UUID,
+  p_is_correct BOOLEAN,
+  p_time_spent_ms INTEGER,
+  p_reviewed_at TIMESTAMPTZ
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_quality INTEGER;
+  v_ease NUMERIC := 2.5;
+  v_interval INTEGER := 0;
+  v_reps INTEGER := 0;
+  v_lapses INTEGER := 0;
+  v_due TIMESTAMPTZ;
+  v_q INTEGER;
+BEGIN
+  -- Grade the attempt (see gradeAttempt in spacedRepetition.ts)
+  IF NOT p_is_correct THEN
+    v_quality := 1;
+  ELSIF p_time_spent_ms IS NULL OR p_time_spent_ms <= 0 THEN
+    v_quality := 4;
+  ELSIF p_time_spent_ms < 15000 THEN
+    v_quality := 5;
+  ELSIF p_time_spent_ms < 60000 THEN
+    v_quality := 4;
+  ELSE
+    v_quality := 3;
+  END IF;
+
+  SELECT ease_factor, interval_days, repetitions, lapses, due_at
+  INTO v_ease, v_interval, v_reps, v_lapses, v_due
+  FROM public.question_mastery
+  WHERE user_id = p_user_id AND question_id = p_question_id;
+
+  IF NOT FOUND THEN
+    v_ease := 2.5;
+    v_interval := 0;
+    v_reps := 0;
+    v_lapses := 0;
+    v_due := NULL;
+  END IF;
+
+  -- Correct answers before the due date don't advance the schedule
+  IF v_quality >= 3 AND v_due IS NOT NULL AND p_reviewed_at < v_due THEN
+    UPDATE public.question_mastery
+    SET last_reviewed_at = p_reviewed_at, updated_at = now()
+    WHERE user_id = p_user_id AND question_id = p_question_id;
+    RETURN;
+  END IF;
+
+  v_q := 5 - v_quality;
+
+  IF v_quality < 3 THEN
+    v_reps := 0;
+    v_lapses := v_lapses + 1;
+    v_interval := 1;
+  ELSE
+    v_reps := v_reps + 1;
+    IF v_reps = 1 THEN
+      v_interval := 1;
+    ELSIF v_reps = 2 THEN
+      v_interval := 6;
+    ELSE
+      v_interval := ROUND(v_interval * v_ease);
+    END IF;
+    v_interval := LEAST(365, GREATEST(1, v_interval));
+  END IF;
+
+  v_ease := GREATEST(1.3, ROUND(v_ease + (0.1 - v_q * (0.08 + v_q * 0.02)), 2));
+  v_due := p_reviewed_at + make_interval(days => v_interval);
+
+  INSERT INTO public.question_mastery (
+    user_id, question_id, ease_factor, interval_days, repetitions, lapses, due_at, last_reviewed_at, updated_at
+  )
+  VALUES (
+    p_user_id, p_question_id, v_ease, v_interval, v_reps, v_lapses, v_due, p_reviewed_at, now()
+  )
+  ON CONFLICT (user_id, question_id) DO UPDATE SET
+    ease_factor = EXCLUDED.ease_factor,
+    interval_days = EXCLUDED.interval_days,
+    repetitions = EXCLUDED.repetitions,
+    lapses = EXCLUDED.lapses,
+    due_at = EXCLUDED.due_at,
+    last_reviewed_at = EXCLUDED.last_reviewed_at,
+    updated_at = now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.schedule_question_review(UUID, UUID, BOOLEAN, INTEGER, TIMESTAMPTZ) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.schedule_question_review(UUID, UUID, BOOLEAN, INTEGER, TIMESTAMPTZ) IS 'Applies one SM-2 review to question_mastery. Called by the question_attempt event trigger.';
+
+-- ============================================================
+-- 3. EVENT TRIGGER
+-- Every question_attempt event updates the schedule.
+-- ============================================================
+
+-- Event payloads are client-written JSON, so the question id is only cast
+-- once it looks like a UUID; anything else reads as "no such question".
+CREATE OR REPLACE FUNCTION public.event_question_id(p_payload JSONB)
+RETURNS UUID
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = ''
+AS $$
+DECLARE
+  v_raw TEXT := p_payload->>'question_id';
+BEGIN
+  IF v_raw ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+    RETURN v_raw::UUID;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.event_question_id(JSONB) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.event_question_id(JSONB) IS 'The question_id of an event payload as a UUID, or NULL when it is missing or malformed.';
+
+CREATE OR REPLACE FUNCTION public.apply_question_attempt_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_question_id UUID;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> NEW.user_id THEN
+    RAISE EXCEPTION 'apply_question_attempt_review: user_id mismatch (session=%, row=%)', auth.uid(), NEW.user_id;
+  END IF;
+
+  -- Ignore events that reference a question we no longer have
+  SELECT id INTO v_question_id
+  FROM public.questions
+  WHERE id = public.event_question_id(NEW.payload);
+
+  IF v_question_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.schedule_question_review(
+    NEW.user_id,
+    v_question_id,
+    COALESCE((NEW.payload->>'is_correct')::BOOLEAN, false),
+    COALESCE((NEW.payload->>'time_spent_ms')::INTEGER, 0),
+    NEW.timestamp
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trg_apply_question_attempt_review ON public.events;
+CREATE TRIGGER trg_apply_question_attempt_review
+  AFTER INSERT ON public.events
+  FOR EACH ROW
+  WHEN (NEW.event_type = 'question_attempt')
+  EXECUTE FUNCTION public.apply_question_attempt_review();
+
+COMMENT ON FUNCTION public.apply_question_attempt_review() IS 'Feeds question_attempt events into the spaced-repetition schedule on question_mastery.';
+
+-- ============================================================
+-- 4. BACKFILL FROM EXISTING EVENTS
+-- Replay each user's history in chronological order.
+-- ============================================================
+
+DO $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT e.user_id, q.id AS question_id, e.payload, e.timestamp
+    FROM public.events e
+    JOIN public.questions q ON q.id = public.event_question_id(e.payload)
+    JOIN public.profiles p ON p.id = e.user_id
+    WHERE e.event_type = 'question_attempt'
+    ORDER BY e.user_id, e.timestamp
+  LOOP
+    PERFORM public.schedule_question_review(
+      r.user_id,
+      r.question_id,
+      COALESCE((r.payload->>'is_correct')::BOOLEAN, false),
+      COALESCE((r.payload->>'time_spent_ms')::INTEGER, 0),
+      r.timestamp
+    );
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,267 @@
+-- Migration: Hold two question pools per exam during a pool transition
+-- The 2026-2030 Technician pool is published before the 2022-2026 pool expires
+-- on 2026-06-30, so both must live in the questions table at the same time.
+-- Learners study the pool in effect on their exam date and can pick the other
+-- one during a transition (see section 5 and src/hooks/usePoolVersion.ts).
+--
+-- Mastery for questions whose content is unchanged in the new pool (same
+-- content_hash) is carried over so learners don't start from zero.
+
+-- ============================================================
+-- 1. DISPLAY NAMES ARE UNIQUE PER POOL
+-- T1A01 exists in both the 2022-2026 and 2026-2030 pools.
+-- ============================================================
+
+ALTER TABLE public.questions DROP CONSTRAINT IF EXISTS questions_display_name_unique;
+
+ALTER TABLE public.questions
+  ADD CONSTRAINT questions_display_name_pool_version_unique UNIQUE (display_name, pool_version);
+
+-- ============================================================
+-- 2. INCOMING TECHNICIAN POOL
+-- Not current until 2026-07-01; is_current is flipped when the switch happens.
+-- ============================================================
+
+INSERT INTO public.question_pools (pool_version, exam_type, effective_date, expiration_date, question_count, passing_threshold, is_current)
+VALUES ('2026-2030', 'technician', '2026-07-01', '2030-06-30', 411, 0.74, false)
+ON CONFLICT (pool_version, exam_type) DO NOTHING;
+
+-- ============================================================
+-- 3. CONTENT HASHES
+-- Mirrors generateContentHash in src/lib/contentHash.ts - keep both in sync.
+-- Ends are trimmed with a regex because btrim only strips spaces, while JS
+-- trim() strips tabs and newlines too.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.question_content_hash(
+  p_question TEXT,
+  p_options JSONB,
+  p_correct_answer INTEGER
+)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT encode(
+    sha256(convert_to(
+      concat_ws(
+        '|',
+        regexp_replace(regexp_replace(lower(p_question), '^\s+|\s+$', '', 'g'), '\s+', ' ', 'g'),
+        (
+          SELECT string_agg(
+            regexp_replace(regexp_replace(lower(opt), '^\s+|\s+$', '', 'g'), '\s+', ' ', 'g'),
+            '|' ORDER BY ord
+          )
+          FROM jsonb_array_elements_text(p_options) WITH ORDINALITY AS o(opt, ord)
+        ),
+        p_correct_answer::TEXT
+      ),
+      'UTF8'
+    )),
+    'hex'
+  );
+$$;
+
+COMMENT ON FUNCTION public.question_content_hash(TEXT, JSONB, INTEGER) IS
+  'SHA-256 of normalized question text, options and answer index. Mirrors src/lib/contentHash.ts.';
+
+-- Known-answer vectors shared with src/test/fixtures/contentHashVectors.ts.
+-- The client test checks generateContentHash against the same hashes, so a
+-- normalization change on either side fails its own check.
+DO $$
+BEGIN
+  ASSERT public.question_content_hash('What is 2 + 2?', '["3", "4", "5", "6"]', 1)
+    = '9b0cd66c956d80b4ea00801f01b336f2f937c54d50fd19c221dcc70091dc4bcc',
+    'question_content_hash: plain text';
+  ASSERT public.question_content_hash('  What is 2 + 2?  ', '[" 3", "4 ", "5", "6"]', 1)
+    = '9b0cd66c956d80b4ea00801f01b336f2f937c54d50fd19c221dcc70091dc4bcc',
+    'question_content_hash: surrounding spaces';
+  ASSERT public.question_content_hash(E'\tWhat is Ohm''s law?\n', '["E = IR\r\n", "\tP = IE", "R = E/I", "I = E/R "]', 0)
+    = 'c1bf632c9de762d42250a1d5bc1ac6cee40eca713abc688cf23bc31aa5a1046c',
+    'question_content_hash: tabs and newlines at the ends';
+  ASSERT public.question_content_hash(E'Which   band\tis\n\nclosest?', '["2  meters", "70\tcm", "6 meters", "10 meters"]', 3)
+    = '95424bbc4959e7fb51f14ce368f8f9a44076bed64f78eedf77a70f831fac26b1',
+    'question_content_hash: inner runs of whitespace';
+  ASSERT public.question_content_hash('WHAT is the Unit of Capacitance?', '["Farad", "HENRY", "ohm", "Watt"]', 0)
+    = 'ecc4bda168645f08075f816623973c539ecc0103824d8495467248e3c11cff11',
+    'question_content_hash: mixed case';
+END $$;
+
+-- Existing questions were imported before content hashes were recorded
+UPDATE public.questions
+SET content_hash = public.question_content_hash(question, options, correct_answer)
+WHERE content_hash IS NULL;
+
+-- ============================================================
+-- 4. MASTERY CARRY-OVER
+-- Copies each learner's mastery from a question in the outgoing pool to the
+-- question with the same content_hash in the incoming pool. Existing mastery
+-- in the incoming pool is never overwritten, so this is safe to re-run after
+-- every import.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.carry_over_question_mastery(
+  p_from_pool TEXT,
+  p_to_pool TEXT,
+  p_prefix TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_copied INTEGER := 0;
+BEGIN
+  -- Security check: Only admins can carry over mastery (runs after a pool import)
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = (SELECT auth.uid()) AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can carry over question mastery';
+  END IF;
+
+  INSERT INTO public.question_mastery (
+    user_id,
+    question_id,
+    total_attempts,
+    correct_attempts,
+    incorrect_attempts,
+    first_attempt_at,
+    last_attempt_at,
+    ease_factor,
+    interval_days,
+    repetitions,
+    lapses,
+    due_at,
+    last_reviewed_at
+  )
+  SELECT
+    qm.user_id,
+    new_q.id,
+    qm.total_attempts,
+    qm.correct_attempts,
+    qm.incorrect_attempts,
+    qm.first_attempt_at,
+    qm.last_attempt_at,
+    qm.ease_factor,
+    qm.interval_days,
+    qm.repetitions,
+    qm.lapses,
+    qm.due_at,
+    qm.last_reviewed_at
+  FROM public.question_mastery qm
+  JOIN public.questions old_q
+    ON old_q.id = qm.question_id
+   AND old_q.pool_version = p_from_pool
+   AND old_q.display_name LIKE p_prefix || '%'
+  JOIN public.questions new_q
+    ON new_q.content_hash = old_q.content_hash
+   AND new_q.pool_version = p_to_pool
+   AND new_q.display_name LIKE p_prefix || '%'
+  WHERE old_q.content_hash IS NOT NULL
+  ON CONFLICT (user_id, question_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_copied = ROW_COUNT;
+  RETURN v_copied;
+END;
+$$;
+
+COMMENT ON FUNCTION public.carry_over_question_mastery(TEXT, TEXT, TEXT) IS
+  'Copies learner mastery to unchanged questions (same content_hash) in a newer pool. Admin only, idempotent.';
+
+REVOKE EXECUTE ON FUNCTION public.carry_over_question_mastery(TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.carry_over_question_mastery(TEXT, TEXT, TEXT) TO authenticated;
+
+-- ============================================================
+-- 5. THE POOL EACH LEARNER STUDIES
+-- Learners study the pool in effect on their target exam date. During a
+-- transition they can pick the other pool instead; the choice is stored here
+-- so the app and the edge functions resolve the same pool.
+-- ============================================================
+
+CREATE TABLE IF NOT EXISTS public.user_pool_choices (
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  exam_type TEXT NOT NULL,
+  pool_version TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, exam_type),
+  FOREIGN KEY (pool_version, exam_type)
+    REFERENCES public.question_pools (pool_version, exam_type) ON DELETE CASCADE
+);
+
+COMMENT ON TABLE public.user_pool_choices IS 'Pool a learner picked over the one matching their exam date. Ignored once the pool expires.';
+
+ALTER TABLE public.user_pool_choices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own pool choices"
+  ON public.user_pool_choices FOR SELECT
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can insert their own pool choices"
+  ON public.user_pool_choices FOR INSERT
+  WITH CHECK (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can update their own pool choices"
+  ON public.user_pool_choices FOR UPDATE
+  USING (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can delete their own pool choices"
+  ON public.user_pool_choices FOR DELETE
+  USING (user_id = (select auth.uid()));
+
+-- Mirrors resolvePoolVersion in src/hooks/usePoolVersion.ts - keep both in sync.
+-- A stored choice wins while its pool is still tested. Otherwise the pool in
+-- effect on the target exam date (for this exam, and not already past), or
+-- today. Runs as the caller, so it only sees the caller's own rows.
+CREATE OR REPLACE FUNCTION public.get_learner_pool_version(p_exam_type TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := (SELECT auth.uid());
+  v_pool TEXT;
+  v_date DATE;
+BEGIN
+  SELECT c.pool_version INTO v_pool
+  FROM public.user_pool_choices c
+  JOIN public.question_pools p ON p.pool_version = c.pool_version AND p.exam_type = c.exam_type
+  WHERE c.user_id = v_user_id
+    AND c.exam_type = p_exam_type
+    AND (p.expiration_date IS NULL OR p.expiration_date >= CURRENT_DATE);
+
+  IF v_pool IS NOT NULL THEN
+    RETURN v_pool;
+  END IF;
+
+  SELECT COALESCE(s.exam_date, t.custom_exam_date) INTO v_date
+  FROM public.user_target_exam t
+  LEFT JOIN public.exam_sessions s ON s.id = t.exam_session_id
+  WHERE t.user_id = v_user_id
+    AND (t.target_license IS NULL OR t.target_license::TEXT = p_exam_type);
+
+  v_date := GREATEST(COALESCE(v_date, CURRENT_DATE), CURRENT_DATE);
+
+  -- Same fallbacks as getPoolForDate: the newest pool already in effect,
+  -- or the oldest pool for a date before every pool
+  SELECT p.pool_version INTO v_pool
+  FROM public.question_pools p
+  WHERE p.exam_type = p_exam_type
+  ORDER BY
+    p.effective_date <= v_date DESC,
+    CASE WHEN p.effective_date <= v_date THEN p.effective_date END DESC NULLS LAST,
+    p.effective_date
+  LIMIT 1;
+
+  RETURN v_pool;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_learner_pool_version(TEXT) IS
+  'Pool version the calling learner studies for an exam type: their stored choice, else the pool on their target exam date, else today''s pool.';
+
+REVOKE EXECUTE ON FUNCTION public.get_learner_pool_version(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_learner_pool_version(TEXT) TO authenticated;
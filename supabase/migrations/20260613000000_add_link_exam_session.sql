@@ -0,0 +1,58 @@
+-- Migration: Link a learner to an exam session in one transaction
+-- Picking a session from the finder replaces the learner's upcoming attempt
+-- for that license, records the new one and points the target exam at the
+-- session. Run from the client as three requests, a failure part-way left the
+-- attempt and the target exam disagreeing about which session the learner
+-- booked. Called by examSessionService.linkSession.
+
+CREATE OR REPLACE FUNCTION public.link_exam_session(
+  p_session_id UUID,
+  p_target_license public.license_type
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := (SELECT auth.uid());
+  v_exam_date DATE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT s.exam_date INTO v_exam_date
+  FROM public.exam_sessions s
+  WHERE s.id = p_session_id;
+
+  IF v_exam_date IS NULL THEN
+    RAISE EXCEPTION 'Exam session % not found', p_session_id;
+  END IF;
+
+  -- Only one upcoming exam per license; reported attempts are history
+  DELETE FROM public.exam_attempts
+  WHERE user_id = v_user_id
+    AND target_license = p_target_license
+    AND outcome IS NULL
+    AND exam_date >= CURRENT_DATE;
+
+  INSERT INTO public.exam_attempts (user_id, exam_date, target_license, exam_session_id)
+  VALUES (v_user_id, v_exam_date, p_target_license, p_session_id)
+  ON CONFLICT (user_id, exam_date, target_license)
+  DO UPDATE SET exam_session_id = EXCLUDED.exam_session_id;
+
+  INSERT INTO public.user_target_exam (user_id, exam_session_id, custom_exam_date, target_license)
+  VALUES (v_user_id, p_session_id, NULL, p_target_license)
+  ON CONFLICT (user_id)
+  DO UPDATE SET
+    exam_session_id = EXCLUDED.exam_session_id,
+    custom_exam_date = NULL,
+    target_license = EXCLUDED.target_license;
+END;
+$$;
+
+COMMENT ON FUNCTION public.link_exam_session(UUID, public.license_type) IS
+  'Replaces the calling learner''s upcoming attempt for a license with the given session and makes it their target exam. Runs as the caller, so RLS applies.';
+
+REVOKE EXECUTE ON FUNCTION public.link_exam_session(UUID, public.license_type) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.link_exam_session(UUID, public.license_type) TO authenticated;
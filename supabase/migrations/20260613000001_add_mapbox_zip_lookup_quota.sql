@@ -0,0 +1,26 @@
+-- Migration: Let learners check the Mapbox quota before a ZIP lookup
+-- The exam session finder geocodes a learner's ZIP code with Mapbox (see
+-- geocodeZip in src/lib/mapboxGeocoding.ts). mapbox_usage is admin-only
+-- since 20260526000002, so this answers yes or no without disclosing the
+-- count. Learner lookups stop 10k requests before the import limit (95k) so
+-- session imports always have quota left.
+
+-- Mirrors MAPBOX_ZIP_LOOKUP_LIMIT in src/lib/mapboxGeocoding.ts - keep both in sync.
+CREATE OR REPLACE FUNCTION public.has_mapbox_zip_lookup_quota(p_year_month TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT COALESCE(
+    (SELECT u.request_count < 85000 FROM public.mapbox_usage u WHERE u.year_month = p_year_month),
+    true
+  );
+$$;
+
+COMMENT ON FUNCTION public.has_mapbox_zip_lookup_quota(TEXT) IS
+  'Whether a learner ZIP lookup fits in the month''s Mapbox quota. Does not return the usage count.';
+
+REVOKE EXECUTE ON FUNCTION public.has_mapbox_zip_lookup_quota(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.has_mapbox_zip_lookup_quota(TEXT) TO authenticated;
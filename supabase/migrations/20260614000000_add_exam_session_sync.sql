@@ -0,0 +1,139 @@
+-- Migration: Incremental exam session import
+-- bulk_import_exam_sessions_safe replaces every session, which detaches every
+-- learner's target exam and forces all addresses to be geocoded again. The
+-- admin importer now diffs the published feed against stored sessions (see
+-- src/lib/examSessionImportParser.ts) and applies only the changes, so
+-- unchanged sessions keep their IDs and coordinates.
+
+CREATE OR REPLACE FUNCTION public.sync_exam_sessions(
+  p_sessions JSONB,
+  p_delete_ids UUID[] DEFAULT '{}'
+)
+RETURNS TABLE (
+  inserted_sessions_count INTEGER,
+  updated_sessions_count INTEGER,
+  deleted_sessions_count INTEGER,
+  converted_targets_count INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_inserted_count INTEGER := 0;
+  v_updated_count INTEGER := 0;
+  v_deleted_count INTEGER := 0;
+  v_converted_count INTEGER := 0;
+BEGIN
+  -- Security check: Only admins can import exam sessions
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = (SELECT auth.uid()) AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can import exam sessions';
+  END IF;
+
+  -- Step 1: Learners targeting a session that is about to be removed keep
+  -- its date as a custom exam date.
+  WITH updated AS (
+    UPDATE public.user_target_exam ute
+    SET
+      custom_exam_date = es.exam_date,
+      exam_session_id = NULL,
+      updated_at = now()
+    FROM public.exam_sessions es
+    WHERE ute.exam_session_id = es.id
+      AND es.id = ANY(p_delete_ids)
+    RETURNING ute.id
+  )
+  SELECT count(*) INTO v_converted_count FROM updated;
+
+  -- Step 2: Remove past and cancelled sessions
+  DELETE FROM public.exam_sessions WHERE id = ANY(p_delete_ids);
+  GET DIAGNOSTICS v_deleted_count = ROW_COUNT;
+
+  -- Step 3: Update changed sessions (elements with an id)
+  UPDATE public.exam_sessions es
+  SET
+    title = elem->>'title',
+    exam_date = (elem->>'exam_date')::DATE,
+    sponsor = elem->>'sponsor',
+    exam_time = elem->>'exam_time',
+    walk_ins_allowed = COALESCE((elem->>'walk_ins_allowed')::BOOLEAN, false),
+    public_contact = elem->>'public_contact',
+    phone = elem->>'phone',
+    email = elem->>'email',
+    vec = elem->>'vec',
+    location_name = elem->>'location_name',
+    address = elem->>'address',
+    address_2 = elem->>'address_2',
+    address_3 = elem->>'address_3',
+    city = elem->>'city',
+    state = elem->>'state',
+    zip = elem->>'zip',
+    latitude = (elem->>'latitude')::DOUBLE PRECISION,
+    longitude = (elem->>'longitude')::DOUBLE PRECISION,
+    updated_at = now()
+  FROM jsonb_array_elements(p_sessions) AS elem
+  WHERE elem->>'id' IS NOT NULL
+    AND es.id = (elem->>'id')::UUID;
+  GET DIAGNOSTICS v_updated_count = ROW_COUNT;
+
+  -- Step 4: Insert new sessions (elements without an id)
+  WITH inserted AS (
+    INSERT INTO public.exam_sessions (
+      title,
+      exam_date,
+      sponsor,
+      exam_time,
+      walk_ins_allowed,
+      public_contact,
+      phone,
+      email,
+      vec,
+      location_name,
+      address,
+      address_2,
+      address_3,
+      city,
+      state,
+      zip,
+      latitude,
+      longitude
+    )
+    SELECT
+      elem->>'title',
+      (elem->>'exam_date')::DATE,
+      elem->>'sponsor',
+      elem->>'exam_time',
+      COALESCE((elem->>'walk_ins_allowed')::BOOLEAN, false),
+      elem->>'public_contact',
+      elem->>'phone',
+      elem->>'email',
+      elem->>'vec',
+      elem->>'location_name',
+      elem->>'address',
+      elem->>'address_2',
+      elem->>'address_3',
+      elem->>'city',
+      elem->>'state',
+      elem->>'zip',
+      (elem->>'latitude')::DOUBLE PRECISION,
+      (elem->>'longitude')::DOUBLE PRECISION
+    FROM jsonb_array_elements(p_sessions) AS elem
+    WHERE elem->>'id' IS NULL
+    RETURNING id
+  )
+  SELECT count(*) INTO v_inserted_count FROM inserted;
+
+  RETURN QUERY SELECT v_inserted_count, v_updated_count, v_deleted_count, v_converted_count;
+END;
+$$;
+
+COMMENT ON FUNCTION public.sync_exam_sessions(JSONB, UUID[]) IS
+  'Atomically applies an exam session import diff: updates sessions with an id, inserts the rest, and deletes p_delete_ids after moving learner targets to custom dates. Admin only.';
+
+-- The admin browser UI calls this via supabase.rpc(); the function performs
+-- its own admin role check.
+REVOKE EXECUTE ON FUNCTION public.sync_exam_sessions(JSONB, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.sync_exam_sessions(JSONB, UUID[]) TO authenticated;
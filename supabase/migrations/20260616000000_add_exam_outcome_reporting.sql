@@ -0,0 +1,85 @@
+-- Migration: Exam outcome reporting and readiness calibration data
+-- Learners report how their real exam went from a dashboard prompt. The
+-- score columns are optional: most VEs only tell candidates pass or fail.
+-- Admins compare reported outcomes with the pass probability the readiness
+-- model showed before the exam to tune PassProbabilityConfig (k, r0).
+
+ALTER TABLE public.exam_attempts
+  ADD COLUMN score INTEGER CHECK (score IS NULL OR score >= 0),
+  ADD COLUMN total_questions INTEGER CHECK (total_questions IS NULL OR total_questions > 0),
+  ADD CONSTRAINT exam_attempts_score_within_total
+    CHECK (score IS NULL OR total_questions IS NULL OR score <= total_questions);
+
+COMMENT ON COLUMN public.exam_attempts.score IS 'Questions answered correctly on the real exam, if the learner reported it';
+COMMENT ON COLUMN public.exam_attempts.total_questions IS 'Number of questions on the real exam (35 or 50), if a score was reported';
+
+-- Reported outcomes paired with the learner's last readiness snapshot taken
+-- before the exam day. Snapshots from the exam day itself are skipped because
+-- they may include studying done after the exam. Attempts with no snapshot in
+-- the window are left out: the model never made a prediction for them.
+CREATE OR REPLACE FUNCTION public.get_readiness_calibration_data(
+  p_exam_type TEXT DEFAULT NULL,
+  p_max_snapshot_age_days INTEGER DEFAULT 14
+)
+RETURNS TABLE (
+  attempt_id UUID,
+  exam_type TEXT,
+  exam_date DATE,
+  outcome public.exam_outcome,
+  score INTEGER,
+  total_questions INTEGER,
+  readiness_score NUMERIC,
+  pass_probability NUMERIC,
+  snapshot_date DATE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- Security check: Only admins can read calibration data across learners
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = (SELECT auth.uid()) AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can view readiness calibration data';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    ea.id,
+    ea.target_license::TEXT,
+    ea.exam_date,
+    ea.outcome,
+    ea.score,
+    ea.total_questions,
+    snap.readiness_score::NUMERIC,
+    snap.pass_probability::NUMERIC,
+    snap.snapshot_date
+  FROM public.exam_attempts ea
+  CROSS JOIN LATERAL (
+    SELECT s.readiness_score, s.pass_probability, s.snapshot_date
+    FROM public.user_readiness_snapshots s
+    WHERE s.user_id = ea.user_id
+      AND s.exam_type = ea.target_license::TEXT
+      AND s.snapshot_date < ea.exam_date
+      AND s.snapshot_date >= ea.exam_date - p_max_snapshot_age_days
+      AND s.readiness_score IS NOT NULL
+      AND s.pass_probability IS NOT NULL
+    ORDER BY s.snapshot_date DESC
+    LIMIT 1
+  ) snap
+  WHERE ea.outcome IN ('passed', 'failed')
+    AND (p_exam_type IS NULL OR ea.target_license::TEXT = p_exam_type)
+  ORDER BY ea.exam_date;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_readiness_calibration_data(TEXT, INTEGER) IS
+  'Reported exam outcomes with the readiness score and pass probability from the last snapshot before the exam. Admin only.';
+
+-- The admin browser UI calls this via supabase.rpc(); the function performs
+-- its own admin role check.
+REVOKE EXECUTE ON FUNCTION public.get_readiness_calibration_data(TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_readiness_calibration_data(TEXT, INTEGER) TO authenticated;
@@ -0,0 +1,293 @@
+-- Migration: Readiness config backtesting and version history
+-- Admins replay stored readiness snapshots, or the answers learners logged
+-- before their exams, against reported exam outcomes with a candidate config
+-- (src/lib/readinessBacktest.ts), then promote the candidate. Every
+-- promotion is kept in readiness_config_versions so weight changes have a
+-- record of what changed, who changed it and how it scored.
+
+-- ============================================================
+-- 1. CALIBRATION DATA WITH SNAPSHOT INPUTS
+-- The replay needs the metrics the score was built from, not just the score,
+-- and how long the learner had gone without studying when it was built
+-- (the recency penalty). Snapshots don't store that, so it is the days from
+-- the learner's last answer for the exam on or before the snapshot day.
+-- pool_size is the question count of the pool the exam was sat on, for
+-- rebuilding coverage from answers (section 2).
+-- ============================================================
+
+DROP FUNCTION IF EXISTS public.get_readiness_calibration_data(TEXT, INTEGER);
+
+CREATE FUNCTION public.get_readiness_calibration_data(
+  p_exam_type TEXT DEFAULT NULL,
+  p_max_snapshot_age_days INTEGER DEFAULT 14
+)
+RETURNS TABLE (
+  attempt_id UUID,
+  exam_type TEXT,
+  exam_date DATE,
+  outcome public.exam_outcome,
+  score INTEGER,
+  total_questions INTEGER,
+  readiness_score NUMERIC,
+  pass_probability NUMERIC,
+  snapshot_date DATE,
+  recent_accuracy NUMERIC,
+  overall_accuracy NUMERIC,
+  coverage NUMERIC,
+  mastery NUMERIC,
+  tests_passed INTEGER,
+  tests_taken INTEGER,
+  days_since_study INTEGER,
+  pool_size INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- Security check: Only admins can read calibration data across learners
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = (SELECT auth.uid()) AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can view readiness calibration data';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    ea.id,
+    ea.target_license::TEXT,
+    ea.exam_date,
+    ea.outcome,
+    ea.score,
+    ea.total_questions,
+    snap.readiness_score::NUMERIC,
+    snap.pass_probability::NUMERIC,
+    snap.snapshot_date,
+    snap.recent_accuracy::NUMERIC,
+    snap.overall_accuracy::NUMERIC,
+    snap.coverage::NUMERIC,
+    snap.mastery::NUMERIC,
+    snap.tests_passed,
+    snap.tests_taken,
+    (
+      SELECT snap.snapshot_date - MAX(qa.attempted_at)::DATE
+      FROM public.question_attempts qa
+      JOIN public.questions q ON q.id = qa.question_id
+      WHERE qa.user_id = ea.user_id
+        AND qa.attempted_at < snap.snapshot_date + 1
+        AND left(q.display_name, 1) = upper(left(ea.target_license::TEXT, 1))
+    ),
+    (
+      SELECT COUNT(*)::INTEGER
+      FROM public.questions q
+      JOIN public.question_pools qp
+        ON qp.pool_version = q.pool_version AND qp.exam_type = ea.target_license::TEXT
+      WHERE qp.effective_date <= ea.exam_date
+        AND (qp.expiration_date IS NULL OR qp.expiration_date >= ea.exam_date)
+        AND left(q.display_name, 1) = upper(left(ea.target_license::TEXT, 1))
+    )
+  FROM public.exam_attempts ea
+  CROSS JOIN LATERAL (
+    SELECT
+      s.readiness_score, s.pass_probability, s.snapshot_date,
+      s.recent_accuracy, s.overall_accuracy, s.coverage, s.mastery,
+      s.tests_passed, s.tests_taken
+    FROM public.user_readiness_snapshots s
+    WHERE s.user_id = ea.user_id
+      AND s.exam_type = ea.target_license::TEXT
+      AND s.snapshot_date < ea.exam_date
+      AND s.snapshot_date >= ea.exam_date - p_max_snapshot_age_days
+      AND s.readiness_score IS NOT NULL
+      AND s.pass_probability IS NOT NULL
+    ORDER BY s.snapshot_date DESC
+    LIMIT 1
+  ) snap
+  WHERE ea.outcome IN ('passed', 'failed')
+    AND (p_exam_type IS NULL OR ea.target_license::TEXT = p_exam_type)
+  ORDER BY ea.exam_date;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_readiness_calibration_data(TEXT, INTEGER) IS
+  'Reported exam outcomes with the last readiness snapshot before the exam, including the metrics it was built from, the days since the learner last studied and the size of the pool the exam was sat on. Admin only.';
+
+REVOKE EXECUTE ON FUNCTION public.get_readiness_calibration_data(TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_readiness_calibration_data(TEXT, INTEGER) TO authenticated;
+
+-- ============================================================
+-- 2. ANSWERS BEFORE EACH REPORTED EXAM
+-- The question_attempt events each learner logged before a reported exam,
+-- limited to the pool the exam was sat on. The backtest rebuilds accuracy,
+-- coverage and days since study from them as of the exam day, instead of
+-- taking them from the last snapshot.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.get_readiness_backtest_answers(
+  p_exam_type TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  attempt_id UUID,
+  question_id UUID,
+  is_correct BOOLEAN,
+  answered_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- Security check: Only admins can read answers across learners
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = (SELECT auth.uid()) AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can view readiness backtest answers';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    ea.id,
+    q.id,
+    COALESCE((e.payload->>'is_correct')::BOOLEAN, false),
+    e.timestamp
+  FROM public.exam_attempts ea
+  JOIN public.question_pools qp
+    ON qp.exam_type = ea.target_license::TEXT
+   AND qp.effective_date <= ea.exam_date
+   AND (qp.expiration_date IS NULL OR qp.expiration_date >= ea.exam_date)
+  JOIN public.events e
+    ON e.user_id = ea.user_id
+   AND e.event_type = 'question_attempt'
+   AND e.timestamp < ea.exam_date
+  JOIN public.questions q
+    ON q.id = public.event_question_id(e.payload)
+   AND q.pool_version = qp.pool_version
+   AND left(q.display_name, 1) = upper(left(ea.target_license::TEXT, 1))
+  WHERE ea.outcome IN ('passed', 'failed')
+    AND (p_exam_type IS NULL OR ea.target_license::TEXT = p_exam_type)
+  ORDER BY ea.id, e.timestamp;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_readiness_backtest_answers(TEXT) IS
+  'question_attempt events logged before each reported exam on the pool it was sat on, for replaying readiness as of the exam. Admin only.';
+
+REVOKE EXECUTE ON FUNCTION public.get_readiness_backtest_answers(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_readiness_backtest_answers(TEXT) TO authenticated;
+
+-- ============================================================
+-- 3. CONFIG VERSION HISTORY
+-- ============================================================
+
+CREATE TABLE public.readiness_config_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  version TEXT NOT NULL UNIQUE,
+  -- Every readiness_config key/value after the promotion
+  config JSONB NOT NULL,
+  notes TEXT,
+  -- Backtest results shown when the version was promoted (sample count, Brier score, log loss)
+  backtest JSONB,
+  promoted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  promoted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_readiness_config_versions_promoted_at
+  ON public.readiness_config_versions(promoted_at DESC);
+
+ALTER TABLE public.readiness_config_versions ENABLE ROW LEVEL SECURITY;
+
+-- Admins read the history; rows are only written by promote_readiness_config
+CREATE POLICY "Admins can view readiness config versions"
+  ON public.readiness_config_versions
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_roles
+      WHERE user_id = (SELECT auth.uid()) AND role = 'admin'
+    )
+  );
+
+COMMENT ON TABLE public.readiness_config_versions IS 'Audit trail of promoted readiness_config versions with their backtest results';
+
+-- Record the config that is live today as the first version
+INSERT INTO public.readiness_config_versions (version, config, notes)
+SELECT
+  COALESCE((SELECT value #>> '{}' FROM public.readiness_config WHERE key = 'version'), 'v1.0.0'),
+  COALESCE((SELECT jsonb_object_agg(key, value) FROM public.readiness_config), '{}'::JSONB),
+  'Configuration in use before version history was recorded'
+ON CONFLICT (version) DO NOTHING;
+
+-- ============================================================
+-- 4. PROMOTION
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.promote_readiness_config(
+  p_version TEXT,
+  p_config JSONB,
+  p_notes TEXT DEFAULT NULL,
+  p_backtest JSONB DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_key TEXT;
+  v_value JSONB;
+  v_version_id UUID;
+BEGIN
+  -- Security check: Only admins can change the readiness model
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = (SELECT auth.uid()) AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can promote readiness configs';
+  END IF;
+
+  IF p_version IS NULL OR btrim(p_version) = '' THEN
+    RAISE EXCEPTION 'A version label is required';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.readiness_config_versions WHERE version = p_version) THEN
+    RAISE EXCEPTION 'Version % already exists', p_version;
+  END IF;
+
+  -- Only keys the model already reads can be changed here
+  FOR v_key, v_value IN SELECT key, value FROM jsonb_each(p_config) LOOP
+    IF v_key = 'version' THEN
+      CONTINUE;
+    END IF;
+
+    UPDATE public.readiness_config
+    SET value = v_value, updated_at = now()
+    WHERE key = v_key;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown readiness config key: %', v_key;
+    END IF;
+  END LOOP;
+
+  UPDATE public.readiness_config
+  SET value = to_jsonb(p_version), updated_at = now()
+  WHERE key = 'version';
+
+  INSERT INTO public.readiness_config_versions (version, config, notes, backtest, promoted_by)
+  SELECT p_version, jsonb_object_agg(key, value), p_notes, p_backtest, (SELECT auth.uid())
+  FROM public.readiness_config
+  RETURNING id INTO v_version_id;
+
+  RETURN v_version_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.promote_readiness_config(TEXT, JSONB, TEXT, JSONB) IS
+  'Atomically writes candidate readiness_config values, sets the version key and records the promotion in readiness_config_versions. Admin only.';
+
+-- The admin browser UI calls this via supabase.rpc(); the function performs
+-- its own admin role check.
+REVOKE EXECUTE ON FUNCTION public.promote_readiness_config(TEXT, JSONB, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.promote_readiness_config(TEXT, JSONB, TEXT, JSONB) TO authenticated;
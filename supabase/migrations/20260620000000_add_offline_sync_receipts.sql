@@ -0,0 +1,206 @@
+-- Migration: Offline study sync
+-- Learners can study a downloaded question pool with no connection. Their
+-- attempts wait in an on-device outbox and are replayed on reconnect, possibly
+-- days later, possibly more than once (two tabs, a dropped response).
+--
+-- question_attempts, practice_test_results and events rows carry ids made on
+-- the device, so a repeated insert fails with a unique violation and the
+-- client treats it as already synced. Daily activity is a counter, so it gets
+-- a receipt table instead: each outbox entry may increment it once.
+
+CREATE TABLE public.offline_sync_receipts (
+  client_id UUID PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  activity_date DATE NOT NULL,
+  synced_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.offline_sync_receipts IS 'Outbox entries whose daily activity has been counted, so a replay never counts twice';
+COMMENT ON COLUMN public.offline_sync_receipts.client_id IS 'Outbox entry id generated on the device';
+COMMENT ON COLUMN public.offline_sync_receipts.activity_date IS 'UTC date the learner studied offline';
+
+CREATE INDEX idx_offline_sync_receipts_user ON public.offline_sync_receipts(user_id, synced_at DESC);
+
+ALTER TABLE public.offline_sync_receipts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own offline_sync_receipts"
+  ON public.offline_sync_receipts FOR SELECT
+  USING ((SELECT auth.uid()) = user_id);
+
+-- Increment daily activity for one outbox entry. Returns false when the entry
+-- was already counted by an earlier replay.
+CREATE OR REPLACE FUNCTION public.increment_daily_activity_once(
+  p_client_id UUID,
+  p_date DATE,
+  p_questions INTEGER DEFAULT 0,
+  p_correct INTEGER DEFAULT 0,
+  p_tests INTEGER DEFAULT 0,
+  p_tests_passed INTEGER DEFAULT 0,
+  p_glossary INTEGER DEFAULT 0
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := (SELECT auth.uid());
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Must be signed in to sync offline activity';
+  END IF;
+
+  -- Allow a day of clock skew; anything later is not a real study day
+  IF p_date > CURRENT_DATE + 1 THEN
+    RAISE EXCEPTION 'Activity date % is in the future', p_date;
+  END IF;
+
+  INSERT INTO public.offline_sync_receipts (client_id, user_id, activity_date)
+  VALUES (p_client_id, v_user_id, p_date)
+  ON CONFLICT (client_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  PERFORM public.increment_daily_activity(
+    v_user_id, p_date, p_questions, p_correct, p_tests, p_tests_passed, p_glossary
+  );
+
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.increment_daily_activity_once(UUID, DATE, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.increment_daily_activity_once(UUID, DATE, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER) TO authenticated;
+
+-- The streak trigger assumed days arrive in order. A replayed offline day can
+-- be older than the last recorded day, so in that case the streak is rebuilt
+-- from daily_activity: consecutive qualifying dates form one run, and the
+-- current streak is the run ending on the latest qualifying day.
+CREATE OR REPLACE FUNCTION public.update_daily_streak()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_yesterday DATE := NEW.activity_date - 1;
+  v_last_activity_date DATE;
+  v_current_streak INTEGER;
+  v_longest_streak INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> NEW.user_id THEN
+    RAISE EXCEPTION 'update_daily_streak: user_id mismatch (session=%, row=%)', auth.uid(), NEW.user_id;
+  END IF;
+
+  -- Only process when activity qualifies for streak
+  IF NOT NEW.qualifies_for_streak THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT last_activity_date INTO v_last_activity_date
+  FROM public.daily_streaks
+  WHERE user_id = NEW.user_id;
+
+  -- Backfilled day: rebuild the streak from the activity history
+  IF v_last_activity_date IS NOT NULL AND NEW.activity_date < v_last_activity_date THEN
+    WITH qualifying AS (
+      SELECT
+        activity_date,
+        activity_date - (ROW_NUMBER() OVER (ORDER BY activity_date))::INTEGER AS run_key
+      FROM public.daily_activity
+      WHERE user_id = NEW.user_id AND qualifies_for_streak
+    ),
+    runs AS (
+      SELECT COUNT(*)::INTEGER AS run_length, MAX(activity_date) AS run_end
+      FROM qualifying
+      GROUP BY run_key
+    )
+    SELECT
+      (SELECT run_length FROM runs ORDER BY run_end DESC LIMIT 1),
+      (SELECT MAX(run_length) FROM runs)
+    INTO v_current_streak, v_longest_streak;
+
+    UPDATE public.daily_streaks SET
+      current_streak = v_current_streak,
+      longest_streak = GREATEST(longest_streak, v_longest_streak),
+      updated_at = now()
+    WHERE user_id = NEW.user_id;
+
+    RETURN NEW;
+  END IF;
+
+  -- Upsert streak record
+  INSERT INTO public.daily_streaks (user_id, current_streak, longest_streak, last_activity_date)
+  VALUES (
+    NEW.user_id,
+    1,
+    1,
+    NEW.activity_date
+  )
+  ON CONFLICT (user_id) DO UPDATE SET
+    current_streak = CASE
+      WHEN daily_streaks.last_activity_date = NEW.activity_date THEN daily_streaks.current_streak
+      WHEN daily_streaks.last_activity_date = v_yesterday THEN daily_streaks.current_streak + 1
+      ELSE 1
+    END,
+    longest_streak = GREATEST(
+      daily_streaks.longest_streak,
+      CASE
+        WHEN daily_streaks.last_activity_date = NEW.activity_date THEN daily_streaks.current_streak
+        WHEN daily_streaks.last_activity_date = v_yesterday THEN daily_streaks.current_streak + 1
+        ELSE 1
+      END
+    ),
+    last_activity_date = NEW.activity_date,
+    updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+-- Replayed attempts keep their original attempted_at, which can be older than
+-- attempts already recorded online. Mastery keeps the true first/last times.
+CREATE OR REPLACE FUNCTION public.update_question_mastery()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND auth.uid() <> NEW.user_id THEN
+    RAISE EXCEPTION 'update_question_mastery: user_id mismatch (session=%, row=%)', auth.uid(), NEW.user_id;
+  END IF;
+
+  INSERT INTO public.question_mastery (
+    user_id,
+    question_id,
+    total_attempts,
+    correct_attempts,
+    incorrect_attempts,
+    first_attempt_at,
+    last_attempt_at,
+    updated_at
+  )
+  VALUES (
+    NEW.user_id,
+    NEW.question_id,
+    1,
+    CASE WHEN NEW.is_correct THEN 1 ELSE 0 END,
+    CASE WHEN NEW.is_correct THEN 0 ELSE 1 END,
+    NEW.attempted_at,
+    NEW.attempted_at,
+    now()
+  )
+  ON CONFLICT (user_id, question_id) DO UPDATE SET
+    total_attempts = question_mastery.total_attempts + 1,
+    correct_attempts = question_mastery.correct_attempts + CASE WHEN NEW.is_correct THEN 1 ELSE 0 END,
+    incorrect_attempts = question_mastery.incorrect_attempts + CASE WHEN NEW.is_correct THEN 0 ELSE 1 END,
+    first_attempt_at = LEAST(question_mastery.first_attempt_at, NEW.attempted_at),
+    last_attempt_at = GREATEST(question_mastery.last_attempt_at, NEW.attempted_at),
+    updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
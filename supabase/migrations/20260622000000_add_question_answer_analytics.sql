@@ -0,0 +1,133 @@
+-- Migration: Per-question answer-choice analytics for admins
+-- Explanation writers want to know which questions learners get wrong and
+-- why: which distractor they pick, whether strong learners do better than
+-- weak ones, and how long they spend. Both functions aggregate server-side
+-- so the admin UI never pulls raw attempts across learners.
+
+-- Counts of first-try answers per question, split by learner ability.
+--
+-- Only each learner's first attempt at a question counts: later attempts are
+-- skewed by having seen the explanation. Ability is the learner's first-try
+-- accuracy across the whole question pool, ranked against other learners with
+-- at least p_min_learner_attempts first tries. Pools are analysed one at a
+-- time: a new pool reuses display names, so mixing them would merge questions. The top 27% are 'upper', the
+-- bottom 27% 'lower' (the classic item-analysis split); learners with too few
+-- attempts to rank are 'unranked' but still count toward the distribution.
+CREATE OR REPLACE FUNCTION public.get_question_answer_stats(
+  p_exam_prefix TEXT,
+  p_pool_version TEXT,
+  p_min_learner_attempts INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  question_id UUID,
+  selected_answer INTEGER,
+  ability_group TEXT,
+  attempts BIGINT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  -- Security check: Only admins can read answer analytics across learners
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = (SELECT auth.uid()) AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can view answer analytics';
+  END IF;
+
+  RETURN QUERY
+  WITH first_tries AS (
+    SELECT DISTINCT ON (qa.user_id, qa.question_id)
+      qa.user_id AS learner_id,
+      qa.question_id AS attempted_question_id,
+      qa.selected_answer AS answer,
+      qa.is_correct
+    FROM public.question_attempts qa
+    JOIN public.questions q ON q.id = qa.question_id
+    WHERE q.display_name LIKE p_exam_prefix || '%'
+      AND q.pool_version = p_pool_version
+    ORDER BY qa.user_id, qa.question_id, qa.attempted_at
+  ),
+  ranked_learners AS (
+    SELECT
+      ft.learner_id,
+      PERCENT_RANK() OVER (ORDER BY AVG(ft.is_correct::INTEGER)) AS ability_rank
+    FROM first_tries ft
+    GROUP BY ft.learner_id
+    HAVING COUNT(*) >= p_min_learner_attempts
+  )
+  SELECT
+    ft.attempted_question_id,
+    ft.answer,
+    CASE
+      WHEN rl.learner_id IS NULL THEN 'unranked'
+      WHEN rl.ability_rank >= 0.73 THEN 'upper'
+      WHEN rl.ability_rank <= 0.27 THEN 'lower'
+      ELSE 'middle'
+    END,
+    COUNT(*)
+  FROM first_tries ft
+  LEFT JOIN ranked_learners rl ON rl.learner_id = ft.learner_id
+  GROUP BY 1, 2, 3;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_question_answer_stats(TEXT, TEXT, INTEGER) IS
+  'First-try answer counts per question and learner ability group (upper/middle/lower 27% split, or unranked). Admin only.';
+
+-- Median time spent per question from question_attempt events. The events
+-- payload caps time_spent_ms at 3 minutes, so walk-aways don't skew it, and
+-- records 0 when the time wasn't measured, so those attempts are skipped.
+CREATE OR REPLACE FUNCTION public.get_question_time_stats(
+  p_exam_prefix TEXT,
+  p_pool_version TEXT
+)
+RETURNS TABLE (
+  question_id UUID,
+  timed_attempts BIGINT,
+  median_time_ms NUMERIC
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = (SELECT auth.uid()) AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can view answer analytics';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    q.id,
+    COUNT(*),
+    percentile_cont(0.5) WITHIN GROUP (
+      ORDER BY (e.payload->>'time_spent_ms')::NUMERIC
+    )::NUMERIC
+  FROM public.events e
+  JOIN public.questions q ON q.id = public.event_question_id(e.payload)
+  WHERE e.event_type = 'question_attempt'
+    AND e.payload ? 'time_spent_ms'
+    AND (e.payload->>'time_spent_ms')::NUMERIC > 0
+    AND q.display_name LIKE p_exam_prefix || '%'
+    AND q.pool_version = p_pool_version
+  GROUP BY q.id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_question_time_stats(TEXT, TEXT) IS
+  'Median capped time_spent_ms per question from question_attempt events. Admin only.';
+
+-- The admin browser UI calls these via supabase.rpc(); each function
+-- performs its own admin role check.
+REVOKE EXECUTE ON FUNCTION public.get_question_answer_stats(TEXT, TEXT, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_question_answer_stats(TEXT, TEXT, INTEGER) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.get_question_time_stats(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_question_time_stats(TEXT, TEXT) TO authenticated;
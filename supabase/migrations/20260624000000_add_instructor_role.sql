@@ -0,0 +1,9 @@
+-- Migration: Instructor role
+-- Club instructors run classrooms (see 20260624000001_add_classrooms.sql).
+-- Adding an enum value can't share a transaction with statements that use
+-- it, so this lives in its own migration.
+--
+-- Admins grant the role directly:
+--   INSERT INTO public.user_roles (user_id, role) VALUES ('<user id>', 'instructor');
+
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'instructor';
@@ -0,0 +1,367 @@
+-- Migration: Study groups and instructor classrooms
+-- Instructors (app_role 'instructor') create classrooms for a license class,
+-- share a join code with students, follow each student's readiness and
+-- practice tests, and assign lessons or topics with due dates. Assignments
+-- show up in the student's dashboard next steps.
+--
+-- Students never read each other's data: the roster is only available to the
+-- classroom's instructor through get_classroom_roster / get_classroom_student_tests.
+
+-- ============================================================
+-- 1. TABLES
+-- ============================================================
+
+-- Six characters from an alphabet without look-alikes (0/O, 1/I/L), so codes
+-- survive being read out loud or written on a whiteboard
+CREATE OR REPLACE FUNCTION public.generate_classroom_join_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+VOLATILE
+SET search_path = ''
+AS $$
+DECLARE
+  v_alphabet CONSTANT TEXT := 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+  v_code TEXT;
+BEGIN
+  LOOP
+    v_code := '';
+    FOR i IN 1..6 LOOP
+      v_code := v_code || substr(v_alphabet, 1 + floor(random() * length(v_alphabet))::INTEGER, 1);
+    END LOOP;
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.classrooms WHERE join_code = v_code);
+  END LOOP;
+  RETURN v_code;
+END;
+$$;
+
+CREATE TABLE public.classrooms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  instructor_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  exam_type license_type NOT NULL DEFAULT 'technician',
+  join_code TEXT NOT NULL UNIQUE DEFAULT public.generate_classroom_join_code(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_classrooms_instructor_id ON public.classrooms(instructor_id);
+
+CREATE TABLE public.classroom_members (
+  classroom_id UUID NOT NULL REFERENCES public.classrooms(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (classroom_id, user_id)
+);
+
+CREATE INDEX idx_classroom_members_user_id ON public.classroom_members(user_id);
+
+CREATE TABLE public.classroom_assignments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  classroom_id UUID NOT NULL REFERENCES public.classrooms(id) ON DELETE CASCADE,
+  -- Exactly one of lesson_id / topic_id is set
+  lesson_id UUID REFERENCES public.lessons(id) ON DELETE CASCADE,
+  topic_id UUID REFERENCES public.topics(id) ON DELETE CASCADE,
+  due_date DATE NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT classroom_assignments_one_target CHECK (num_nonnulls(lesson_id, topic_id) = 1)
+);
+
+CREATE INDEX idx_classroom_assignments_classroom_due
+  ON public.classroom_assignments(classroom_id, due_date);
+
+CREATE TRIGGER update_classrooms_updated_at
+  BEFORE UPDATE ON public.classrooms
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE public.classrooms IS 'Instructor-led study groups; students join with join_code';
+COMMENT ON COLUMN public.classrooms.exam_type IS 'License the class is preparing for; the roster reports readiness for this exam';
+COMMENT ON TABLE public.classroom_members IS 'Students enrolled in a classroom (written by join_classroom)';
+COMMENT ON TABLE public.classroom_assignments IS 'Lessons or topics an instructor assigned to a classroom, with a due date';
+
+-- ============================================================
+-- 2. ACCESS HELPERS
+-- SECURITY DEFINER so policies on classrooms and classroom_members can
+-- reference each other without recursing through RLS.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.is_classroom_instructor(p_classroom_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.classrooms
+    WHERE id = p_classroom_id AND instructor_id = (SELECT auth.uid())
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_classroom_member(p_classroom_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.classroom_members
+    WHERE classroom_id = p_classroom_id AND user_id = (SELECT auth.uid())
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_classroom_instructor(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_classroom_instructor(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.is_classroom_member(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_classroom_member(UUID) TO authenticated;
+
+-- ============================================================
+-- 3. ROW LEVEL SECURITY
+-- ============================================================
+
+ALTER TABLE public.classrooms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.classroom_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.classroom_assignments ENABLE ROW LEVEL SECURITY;
+
+-- Classrooms: the instructor manages them, members can read the one they're in
+CREATE POLICY "Instructors and members can view classrooms"
+  ON public.classrooms
+  FOR SELECT
+  USING (
+    instructor_id = (SELECT auth.uid())
+    OR public.is_classroom_member(id)
+  );
+
+CREATE POLICY "Instructors can create classrooms"
+  ON public.classrooms
+  FOR INSERT
+  WITH CHECK (
+    instructor_id = (SELECT auth.uid())
+    AND (
+      public.has_role((SELECT auth.uid()), 'instructor')
+      OR public.has_role((SELECT auth.uid()), 'admin')
+    )
+  );
+
+CREATE POLICY "Instructors can update own classrooms"
+  ON public.classrooms
+  FOR UPDATE
+  USING (instructor_id = (SELECT auth.uid()))
+  WITH CHECK (instructor_id = (SELECT auth.uid()));
+
+CREATE POLICY "Instructors can delete own classrooms"
+  ON public.classrooms
+  FOR DELETE
+  USING (instructor_id = (SELECT auth.uid()));
+
+-- Members: students see their own enrollments, instructors see their roster.
+-- Rows are only inserted by join_classroom.
+CREATE POLICY "Students and instructors can view classroom members"
+  ON public.classroom_members
+  FOR SELECT
+  USING (
+    user_id = (SELECT auth.uid())
+    OR public.is_classroom_instructor(classroom_id)
+  );
+
+CREATE POLICY "Students can leave and instructors can remove members"
+  ON public.classroom_members
+  FOR DELETE
+  USING (
+    user_id = (SELECT auth.uid())
+    OR public.is_classroom_instructor(classroom_id)
+  );
+
+-- Assignments: written by the instructor, read by the class
+CREATE POLICY "Instructors and members can view assignments"
+  ON public.classroom_assignments
+  FOR SELECT
+  USING (
+    public.is_classroom_instructor(classroom_id)
+    OR public.is_classroom_member(classroom_id)
+  );
+
+CREATE POLICY "Instructors can create assignments"
+  ON public.classroom_assignments
+  FOR INSERT
+  WITH CHECK (public.is_classroom_instructor(classroom_id));
+
+CREATE POLICY "Instructors can update assignments"
+  ON public.classroom_assignments
+  FOR UPDATE
+  USING (public.is_classroom_instructor(classroom_id))
+  WITH CHECK (public.is_classroom_instructor(classroom_id));
+
+CREATE POLICY "Instructors can delete assignments"
+  ON public.classroom_assignments
+  FOR DELETE
+  USING (public.is_classroom_instructor(classroom_id));
+
+-- ============================================================
+-- 4. JOINING
+-- Students can't read a classroom before they're in it, so joining by
+-- code goes through a definer function.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.join_classroom(p_join_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := (SELECT auth.uid());
+  v_classroom_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id INTO v_classroom_id
+  FROM public.classrooms
+  WHERE join_code = upper(btrim(p_join_code));
+
+  IF v_classroom_id IS NULL THEN
+    RAISE EXCEPTION 'No classroom matches that join code' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.classroom_members (classroom_id, user_id)
+  VALUES (v_classroom_id, v_user_id)
+  ON CONFLICT (classroom_id, user_id) DO NOTHING;
+
+  RETURN v_classroom_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.join_classroom(TEXT) IS
+  'Enroll the caller in the classroom with this join code (case-insensitive). Returns the classroom id.';
+
+REVOKE EXECUTE ON FUNCTION public.join_classroom(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.join_classroom(TEXT) TO authenticated;
+
+-- ============================================================
+-- 5. INSTRUCTOR ROSTER
+-- ============================================================
+
+-- One row per student with their cached readiness for the classroom's exam
+-- (user_readiness_cache) and practice-test totals.
+CREATE OR REPLACE FUNCTION public.get_classroom_roster(p_classroom_id UUID)
+RETURNS TABLE (
+  user_id UUID,
+  display_name TEXT,
+  joined_at TIMESTAMPTZ,
+  readiness_score NUMERIC,
+  pass_probability NUMERIC,
+  coverage NUMERIC,
+  recent_accuracy NUMERIC,
+  subelement_metrics JSONB,
+  last_study_at TIMESTAMPTZ,
+  tests_taken BIGINT,
+  tests_passed BIGINT,
+  last_test_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_exam_type TEXT;
+BEGIN
+  SELECT c.exam_type::TEXT INTO v_exam_type
+  FROM public.classrooms c
+  WHERE c.id = p_classroom_id AND c.instructor_id = (SELECT auth.uid());
+
+  IF v_exam_type IS NULL THEN
+    RAISE EXCEPTION 'Only the classroom instructor can view its roster';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    m.user_id,
+    p.display_name,
+    m.joined_at,
+    rc.readiness_score::NUMERIC,
+    rc.pass_probability::NUMERIC,
+    rc.coverage::NUMERIC,
+    rc.recent_accuracy::NUMERIC,
+    rc.subelement_metrics,
+    rc.last_study_at,
+    COALESCE(t.tests_taken, 0),
+    COALESCE(t.tests_passed, 0),
+    t.last_test_at
+  FROM public.classroom_members m
+  JOIN public.profiles p ON p.id = m.user_id
+  LEFT JOIN public.user_readiness_cache rc
+    ON rc.user_id = m.user_id AND rc.exam_type = v_exam_type
+  LEFT JOIN LATERAL (
+    SELECT
+      COUNT(*) AS tests_taken,
+      COUNT(*) FILTER (WHERE r.passed) AS tests_passed,
+      MAX(r.completed_at) AS last_test_at
+    FROM public.practice_test_results r
+    WHERE r.user_id = m.user_id
+      -- Technician results from before per-exam test types were stored as 'practice'
+      AND (r.test_type = v_exam_type OR (v_exam_type = 'technician' AND r.test_type = 'practice'))
+  ) t ON TRUE
+  WHERE m.classroom_id = p_classroom_id
+  ORDER BY p.display_name NULLS LAST, m.joined_at;
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_classroom_roster(UUID) IS
+  'Students in a classroom with readiness for its exam and practice-test totals. Classroom instructor only.';
+
+-- Practice-test history for one student, newest first
+CREATE OR REPLACE FUNCTION public.get_classroom_student_tests(
+  p_classroom_id UUID,
+  p_user_id UUID,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (
+  id UUID,
+  score INTEGER,
+  total_questions INTEGER,
+  percentage NUMERIC,
+  passed BOOLEAN,
+  completed_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_exam_type TEXT;
+BEGIN
+  SELECT c.exam_type::TEXT INTO v_exam_type
+  FROM public.classrooms c
+  JOIN public.classroom_members m ON m.classroom_id = c.id
+  WHERE c.id = p_classroom_id
+    AND c.instructor_id = (SELECT auth.uid())
+    AND m.user_id = p_user_id;
+
+  IF v_exam_type IS NULL THEN
+    RAISE EXCEPTION 'Only the classroom instructor can view its students'' tests';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.id, r.score, r.total_questions, r.percentage::NUMERIC, r.passed, r.completed_at
+  FROM public.practice_test_results r
+  WHERE r.user_id = p_user_id
+    AND (r.test_type = v_exam_type OR (v_exam_type = 'technician' AND r.test_type = 'practice'))
+  ORDER BY r.completed_at DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 100);
+END;
+$$;
+
+COMMENT ON FUNCTION public.get_classroom_student_tests(UUID, UUID, INTEGER) IS
+  'Recent practice tests for one classroom student on the classroom''s exam. Classroom instructor only.';
+
+REVOKE EXECUTE ON FUNCTION public.get_classroom_roster(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_classroom_roster(UUID) TO authenticated;
+
+REVOKE EXECUTE ON FUNCTION public.get_classroom_student_tests(UUID, UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_classroom_student_tests(UUID, UUID, INTEGER) TO authenticated;
@@ -0,0 +1,287 @@
+-- Migration: Moderation queue for explanation changes
+-- Until now discourse-webhook wrote forum edits straight onto
+-- questions.explanation, so a published explanation changed the moment
+-- anyone edited the forum post. Forum edits, and explanations learners rate
+-- as unhelpful, now become pending revisions. A moderator (or admin) diffs
+-- each one against the published explanation and approves it (optionally
+-- edited) or rejects it. Approvals are recorded in questions.edit_history.
+
+-- ============================================================
+-- 1. TABLE
+-- ============================================================
+
+CREATE TABLE public.explanation_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_id UUID NOT NULL REFERENCES public.questions(id) ON DELETE CASCADE,
+  -- 'forum': the explanation section of the question's forum post changed
+  -- 'feedback': learners rate the published explanation as unhelpful
+  source TEXT NOT NULL CHECK (source IN ('forum', 'feedback')),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  proposed_explanation TEXT NOT NULL,
+  -- Forum user whose edit this is (forum revisions only)
+  forum_username TEXT,
+  -- Ratings when the explanation was flagged (feedback revisions only)
+  helpful_count INTEGER,
+  not_helpful_count INTEGER,
+  -- What the moderator published; differs from proposed_explanation when edited
+  published_explanation TEXT,
+  review_note TEXT CHECK (char_length(review_note) <= 500),
+  reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- At most one open revision per question and source: later forum edits
+-- replace the pending proposal rather than queueing behind it
+CREATE UNIQUE INDEX idx_explanation_revisions_one_pending
+  ON public.explanation_revisions(question_id, source)
+  WHERE status = 'pending';
+
+CREATE INDEX idx_explanation_revisions_status_created
+  ON public.explanation_revisions(status, created_at);
+
+CREATE TRIGGER update_explanation_revisions_updated_at
+  BEFORE UPDATE ON public.explanation_revisions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE public.explanation_revisions IS
+  'Proposed explanation changes awaiting moderator review (from forum edits or low ratings)';
+
+-- ============================================================
+-- 2. ACCESS
+-- Moderators and admins read the queue. All writes go through the
+-- SECURITY DEFINER functions below.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.is_moderator(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role IN ('moderator', 'admin')
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_moderator(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.is_moderator(UUID) TO authenticated;
+
+ALTER TABLE public.explanation_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Moderators can view explanation revisions"
+  ON public.explanation_revisions FOR SELECT
+  USING (public.is_moderator((SELECT auth.uid())));
+
+-- ============================================================
+-- 3. FORUM EDITS (called by discourse-webhook with the service role)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.propose_forum_explanation(
+  p_question_id UUID,
+  p_explanation TEXT,
+  p_forum_username TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_revision_id UUID;
+BEGIN
+  UPDATE public.explanation_revisions
+  SET proposed_explanation = p_explanation,
+      forum_username = p_forum_username
+  WHERE question_id = p_question_id
+    AND source = 'forum'
+    AND status = 'pending'
+  RETURNING id INTO v_revision_id;
+
+  IF v_revision_id IS NULL THEN
+    INSERT INTO public.explanation_revisions (question_id, source, proposed_explanation, forum_username)
+    VALUES (p_question_id, 'forum', p_explanation, p_forum_username)
+    RETURNING id INTO v_revision_id;
+  END IF;
+
+  RETURN v_revision_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.propose_forum_explanation(UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.propose_forum_explanation(UUID, TEXT, TEXT) TO service_role;
+
+-- ============================================================
+-- 4. LOW-RATED EXPLANATIONS
+-- Once an explanation has at least 5 ratings and fewer than half are
+-- helpful, queue it for a rewrite. The proposal starts as the published
+-- text; the moderator edits it before approving. Only ratings given since
+-- the last approved revision count, so a rewrite starts with a clean slate.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.flag_low_rated_explanation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_min_ratings CONSTANT INTEGER := 5;
+  v_max_helpful_ratio CONSTANT NUMERIC := 0.5;
+  v_question_id UUID := NEW.question_id;
+  v_explanation TEXT;
+  v_helpful INTEGER;
+  v_not_helpful INTEGER;
+  v_rewritten_at TIMESTAMPTZ;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.explanation_revisions
+    WHERE question_id = v_question_id AND source = 'feedback' AND status = 'pending'
+  ) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT q.explanation INTO v_explanation
+  FROM public.questions q
+  WHERE q.id = v_question_id;
+
+  -- Nothing published to rewrite
+  IF v_explanation IS NULL OR btrim(v_explanation) = '' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Ratings given before the last approved rewrite were about the old text
+  SELECT MAX(r.reviewed_at) INTO v_rewritten_at
+  FROM public.explanation_revisions r
+  WHERE r.question_id = v_question_id AND r.status = 'approved';
+
+  SELECT
+    COUNT(*) FILTER (WHERE ef.is_helpful),
+    COUNT(*) FILTER (WHERE NOT ef.is_helpful)
+  INTO v_helpful, v_not_helpful
+  FROM public.explanation_feedback ef
+  WHERE ef.question_id = NEW.question_id
+    AND (v_rewritten_at IS NULL OR ef.created_at > v_rewritten_at);
+
+  IF v_helpful + v_not_helpful >= v_min_ratings
+     AND v_helpful::NUMERIC / (v_helpful + v_not_helpful) < v_max_helpful_ratio THEN
+    INSERT INTO public.explanation_revisions (
+      question_id, source, proposed_explanation, helpful_count, not_helpful_count
+    )
+    VALUES (v_question_id, 'feedback', v_explanation, v_helpful, v_not_helpful)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER flag_low_rated_explanation
+  AFTER INSERT OR UPDATE OF is_helpful ON public.explanation_feedback
+  FOR EACH ROW
+  WHEN (NOT NEW.is_helpful)
+  EXECUTE FUNCTION public.flag_low_rated_explanation();
+
+-- ============================================================
+-- 5. REVIEW
+-- ============================================================
+
+-- Approve (optionally with edited text) or reject a pending revision.
+-- Approving publishes the explanation and appends an edit_history entry in
+-- the same shape the admin question editor writes. Returns the question's
+-- explanation after the review and its forum URL, so the caller can bring
+-- the forum post back in line.
+CREATE OR REPLACE FUNCTION public.review_explanation_revision(
+  p_revision_id UUID,
+  p_approve BOOLEAN,
+  p_explanation TEXT DEFAULT NULL,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  question_id UUID,
+  explanation TEXT,
+  forum_url TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := (SELECT auth.uid());
+  v_revision public.explanation_revisions%ROWTYPE;
+  v_previous TEXT;
+  v_published TEXT;
+  v_email TEXT;
+BEGIN
+  IF NOT public.is_moderator(v_user_id) THEN
+    RAISE EXCEPTION 'Only moderators can review explanation changes' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_revision
+  FROM public.explanation_revisions r
+  WHERE r.id = p_revision_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_revision.status <> 'pending' THEN
+    RAISE EXCEPTION 'Revision has already been reviewed' USING ERRCODE = '55000';
+  END IF;
+
+  SELECT q.explanation INTO v_previous
+  FROM public.questions q
+  WHERE q.id = v_revision.question_id
+  FOR UPDATE;
+
+  IF p_approve THEN
+    v_published := btrim(COALESCE(p_explanation, v_revision.proposed_explanation));
+    IF v_published = '' THEN
+      RAISE EXCEPTION 'Explanation cannot be empty' USING ERRCODE = '23514';
+    END IF;
+
+    IF v_published IS DISTINCT FROM v_previous THEN
+      SELECT u.email INTO v_email FROM auth.users u WHERE u.id = v_user_id;
+
+      UPDATE public.questions q
+      SET explanation = v_published,
+          edit_history = q.edit_history || jsonb_build_array(
+            jsonb_build_object(
+              'user_id', v_user_id,
+              'user_email', COALESCE(v_email, 'Unknown'),
+              'action', 'updated',
+              'changes', jsonb_build_object(
+                'explanation', jsonb_build_object('from', COALESCE(v_previous, ''), 'to', v_published)
+              ),
+              'timestamp', now()
+            )
+          )
+      WHERE q.id = v_revision.question_id;
+    END IF;
+  END IF;
+
+  UPDATE public.explanation_revisions r
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      published_explanation = v_published,
+      review_note = NULLIF(btrim(p_note), ''),
+      reviewed_by = v_user_id,
+      reviewed_at = now()
+  WHERE r.id = p_revision_id;
+
+  RETURN QUERY
+  SELECT q.id, q.explanation, q.forum_url
+  FROM public.questions q
+  WHERE q.id = v_revision.question_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_explanation_revision(UUID, BOOLEAN, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.review_explanation_revision(UUID, BOOLEAN, TEXT, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.review_explanation_revision(UUID, BOOLEAN, TEXT, TEXT) IS
+  'Approve (optionally edited) or reject a pending explanation revision. Moderators and admins only.';
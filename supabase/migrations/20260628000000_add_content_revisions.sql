@@ -0,0 +1,342 @@
+-- Migration: Versioned content with rollback
+-- edit_history on questions, glossary_terms and ham_radio_tools is a JSON
+-- blob the admin editors append to and EditHistoryViewer displays. It can't
+-- be queried across rows and only records the fields an editor remembered to
+-- diff. Every write to the versioned fields now snapshots the row into
+-- content_revisions, whoever made it (admin editor, bulk import, moderation
+-- review). Admins can compare any two revisions and restore an earlier one.
+
+-- ============================================================
+-- 1. TABLE
+-- ============================================================
+
+CREATE TABLE public.content_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('question', 'glossary_term', 'tool')),
+  -- questions.id, glossary_terms.id or ham_radio_tools.id
+  entity_id UUID NOT NULL,
+  -- 1 for the first snapshot of an entity, incrementing per change
+  revision_number INTEGER NOT NULL CHECK (revision_number > 0),
+  -- Versioned fields only (see content_revision_fields)
+  content JSONB NOT NULL,
+  -- Fields that differ from the previous revision; empty for revision 1
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  -- Set when this revision was written by restoring an earlier one
+  restored_from UUID REFERENCES public.content_revisions(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_by_email TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (entity_type, entity_id, revision_number)
+);
+
+CREATE INDEX idx_content_revisions_created_at
+  ON public.content_revisions(created_at DESC);
+
+COMMENT ON TABLE public.content_revisions IS
+  'Snapshot of the versioned fields of a question, glossary term or tool after every change';
+
+-- ============================================================
+-- 2. ACCESS
+-- Admins read revisions. Rows are written only by the trigger below.
+-- ============================================================
+
+ALTER TABLE public.content_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view content revisions"
+  ON public.content_revisions FOR SELECT
+  USING (public.has_role((SELECT auth.uid()), 'admin'));
+
+-- ============================================================
+-- 3. SNAPSHOTS
+-- Only editorial content is versioned. Sync status, unfurled links, display
+-- order and tool images (deleted from storage when replaced) are not, so
+-- writes that touch only those don't create revisions.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.content_revision_fields(p_entity_type TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT CASE p_entity_type
+    WHEN 'question' THEN ARRAY[
+      'question', 'options', 'correct_answer', 'explanation', 'figure_url',
+      'forum_url', 'arrl_chapter_id', 'arrl_page_reference'
+    ]
+    WHEN 'glossary_term' THEN ARRAY['term', 'definition']
+    WHEN 'tool' THEN ARRAY['title', 'description', 'url', 'category_id']
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.content_revision_snapshot(p_entity_type TEXT, p_row JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT COALESCE(jsonb_object_agg(f, COALESCE(p_row -> f, 'null'::JSONB)), '{}'::JSONB)
+  FROM unnest(public.content_revision_fields(p_entity_type)) AS f;
+$$;
+
+-- Fields whose value differs between two snapshots, in field order
+CREATE OR REPLACE FUNCTION public.content_revision_changed_fields(
+  p_entity_type TEXT,
+  p_from JSONB,
+  p_to JSONB
+)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT COALESCE(array_agg(f ORDER BY ord), '{}')
+  FROM unnest(public.content_revision_fields(p_entity_type)) WITH ORDINALITY AS t(f, ord)
+  WHERE p_from -> f IS DISTINCT FROM p_to -> f;
+$$;
+
+-- AFTER INSERT OR UPDATE trigger; TG_ARGV[0] is the entity type.
+-- restore_content_revision sets app.restored_from_revision for the duration
+-- of its update so the new revision records where it came from.
+CREATE OR REPLACE FUNCTION public.record_content_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_entity_type TEXT := TG_ARGV[0];
+  v_content JSONB := public.content_revision_snapshot(TG_ARGV[0], to_jsonb(NEW));
+  v_previous public.content_revisions%ROWTYPE;
+  v_user_id UUID := (SELECT auth.uid());
+  v_email TEXT;
+BEGIN
+  SELECT * INTO v_previous
+  FROM public.content_revisions r
+  WHERE r.entity_type = v_entity_type AND r.entity_id = NEW.id
+  ORDER BY r.revision_number DESC
+  LIMIT 1;
+
+  IF FOUND AND v_previous.content = v_content THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_user_id IS NOT NULL THEN
+    SELECT u.email INTO v_email FROM auth.users u WHERE u.id = v_user_id;
+  END IF;
+
+  INSERT INTO public.content_revisions (
+    entity_type, entity_id, revision_number, content, changed_fields,
+    restored_from, created_by, created_by_email
+  )
+  VALUES (
+    v_entity_type,
+    NEW.id,
+    COALESCE(v_previous.revision_number, 0) + 1,
+    v_content,
+    CASE
+      WHEN v_previous.id IS NULL THEN '{}'
+      ELSE public.content_revision_changed_fields(v_entity_type, v_previous.content, v_content)
+    END,
+    NULLIF(current_setting('app.restored_from_revision', true), '')::UUID,
+    v_user_id,
+    v_email
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+-- Revisions have no foreign key to their entity, so clean up on delete
+CREATE OR REPLACE FUNCTION public.delete_content_revisions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  DELETE FROM public.content_revisions r
+  WHERE r.entity_type = TG_ARGV[0] AND r.entity_id = OLD.id;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER record_question_revision
+  AFTER INSERT OR UPDATE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.record_content_revision('question');
+
+CREATE TRIGGER record_glossary_term_revision
+  AFTER INSERT OR UPDATE ON public.glossary_terms
+  FOR EACH ROW EXECUTE FUNCTION public.record_content_revision('glossary_term');
+
+CREATE TRIGGER record_tool_revision
+  AFTER INSERT OR UPDATE ON public.ham_radio_tools
+  FOR EACH ROW EXECUTE FUNCTION public.record_content_revision('tool');
+
+CREATE TRIGGER delete_question_revisions
+  AFTER DELETE ON public.questions
+  FOR EACH ROW EXECUTE FUNCTION public.delete_content_revisions('question');
+
+CREATE TRIGGER delete_glossary_term_revisions
+  AFTER DELETE ON public.glossary_terms
+  FOR EACH ROW EXECUTE FUNCTION public.delete_content_revisions('glossary_term');
+
+CREATE TRIGGER delete_tool_revisions
+  AFTER DELETE ON public.ham_radio_tools
+  FOR EACH ROW EXECUTE FUNCTION public.delete_content_revisions('tool');
+
+-- ============================================================
+-- 4. BACKFILL
+-- Existing content becomes revision 1. Earlier edits stay in edit_history.
+-- ============================================================
+
+INSERT INTO public.content_revisions (entity_type, entity_id, revision_number, content)
+SELECT 'question', q.id, 1, public.content_revision_snapshot('question', to_jsonb(q))
+FROM public.questions q;
+
+INSERT INTO public.content_revisions (entity_type, entity_id, revision_number, content)
+SELECT 'glossary_term', g.id, 1, public.content_revision_snapshot('glossary_term', to_jsonb(g))
+FROM public.glossary_terms g;
+
+INSERT INTO public.content_revisions (entity_type, entity_id, revision_number, content)
+SELECT 'tool', t.id, 1, public.content_revision_snapshot('tool', to_jsonb(t))
+FROM public.ham_radio_tools t;
+
+-- ============================================================
+-- 5. RESTORE
+-- ============================================================
+
+-- Write an earlier revision's content back onto its entity. The change is
+-- recorded as a new revision (never by deleting later ones) and appended to
+-- edit_history with action 'restored'. Restoring a question regenerates its
+-- content_hash. A chapter or tool category that has since been deleted is
+-- restored as NULL. Returns the new revision so the caller can push a
+-- restored explanation to the forum.
+CREATE OR REPLACE FUNCTION public.restore_content_revision(p_revision_id UUID)
+RETURNS TABLE (
+  id UUID,
+  entity_type TEXT,
+  entity_id UUID,
+  revision_number INTEGER,
+  content JSONB,
+  changed_fields TEXT[]
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := (SELECT auth.uid());
+  v_target public.content_revisions%ROWTYPE;
+  v_row JSONB;
+  v_current JSONB;
+  v_restored JSONB;
+  v_entry JSONB;
+  v_email TEXT;
+BEGIN
+  IF NOT public.has_role(v_user_id, 'admin') THEN
+    RAISE EXCEPTION 'Only admins can restore content revisions' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_target
+  FROM public.content_revisions r
+  WHERE r.id = p_revision_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Lock the entity so a concurrent edit can't slip between the comparison
+  -- and the update
+  CASE v_target.entity_type
+    WHEN 'question' THEN
+      SELECT to_jsonb(q) INTO v_row FROM public.questions q WHERE q.id = v_target.entity_id FOR UPDATE;
+    WHEN 'glossary_term' THEN
+      SELECT to_jsonb(g) INTO v_row FROM public.glossary_terms g WHERE g.id = v_target.entity_id FOR UPDATE;
+    WHEN 'tool' THEN
+      SELECT to_jsonb(t) INTO v_row FROM public.ham_radio_tools t WHERE t.id = v_target.entity_id FOR UPDATE;
+  END CASE;
+
+  IF v_row IS NULL THEN
+    RAISE EXCEPTION 'Content no longer exists' USING ERRCODE = 'P0002';
+  END IF;
+
+  v_restored := v_target.content;
+  v_current := public.content_revision_snapshot(v_target.entity_type, v_row);
+
+  IF v_current = v_restored THEN
+    RAISE EXCEPTION 'Revision matches the current content' USING ERRCODE = '55000';
+  END IF;
+
+  SELECT u.email INTO v_email FROM auth.users u WHERE u.id = v_user_id;
+
+  -- Same shape the admin editors write, so EditHistoryViewer shows it
+  v_entry := jsonb_build_object(
+    'user_id', v_user_id,
+    'user_email', COALESCE(v_email, 'Unknown'),
+    'action', 'restored',
+    'changes', (
+      SELECT COALESCE(jsonb_object_agg(f, jsonb_build_object('from', v_current -> f, 'to', v_restored -> f)), '{}'::JSONB)
+      FROM unnest(public.content_revision_changed_fields(v_target.entity_type, v_current, v_restored)) AS f
+    ),
+    'timestamp', now()
+  );
+
+  PERFORM set_config('app.restored_from_revision', p_revision_id::TEXT, true);
+
+  CASE v_target.entity_type
+    WHEN 'question' THEN
+      UPDATE public.questions q
+      SET question = v_restored ->> 'question',
+          options = v_restored -> 'options',
+          correct_answer = (v_restored ->> 'correct_answer')::INTEGER,
+          explanation = v_restored ->> 'explanation',
+          figure_url = v_restored ->> 'figure_url',
+          forum_url = v_restored ->> 'forum_url',
+          arrl_chapter_id = (
+            SELECT c.id FROM public.arrl_chapters c
+            WHERE c.id = (v_restored ->> 'arrl_chapter_id')::UUID
+          ),
+          arrl_page_reference = v_restored ->> 'arrl_page_reference',
+          content_hash = public.question_content_hash(
+            v_restored ->> 'question',
+            v_restored -> 'options',
+            (v_restored ->> 'correct_answer')::INTEGER
+          ),
+          edit_history = COALESCE(q.edit_history, '[]'::JSONB) || jsonb_build_array(v_entry)
+      WHERE q.id = v_target.entity_id;
+    WHEN 'glossary_term' THEN
+      UPDATE public.glossary_terms g
+      SET term = v_restored ->> 'term',
+          definition = v_restored ->> 'definition',
+          edit_history = COALESCE(g.edit_history, '[]'::JSONB) || jsonb_build_array(v_entry)
+      WHERE g.id = v_target.entity_id;
+    WHEN 'tool' THEN
+      UPDATE public.ham_radio_tools t
+      SET title = v_restored ->> 'title',
+          description = v_restored ->> 'description',
+          url = v_restored ->> 'url',
+          category_id = (
+            SELECT c.id FROM public.ham_radio_tool_categories c
+            WHERE c.id = (v_restored ->> 'category_id')::UUID
+          ),
+          edit_history = COALESCE(t.edit_history, '[]'::JSONB) || jsonb_build_array(v_entry)
+      WHERE t.id = v_target.entity_id;
+  END CASE;
+
+  PERFORM set_config('app.restored_from_revision', '', true);
+
+  RETURN QUERY
+  SELECT r.id, r.entity_type, r.entity_id, r.revision_number, r.content, r.changed_fields
+  FROM public.content_revisions r
+  WHERE r.entity_type = v_target.entity_type AND r.entity_id = v_target.entity_id
+  ORDER BY r.revision_number DESC
+  LIMIT 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.restore_content_revision(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.restore_content_revision(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.restore_content_revision(UUID) IS
+  'Restore an earlier revision of a question, glossary term or tool as a new revision. Admin only.';
@@ -0,0 +1,12 @@
+-- Migration: Per-question-group readiness metrics
+-- A real exam draws one question from every question group (T5A, T5B...),
+-- so subelement averages hide groups a learner has never touched. The
+-- calculate-readiness function now scores each group and caches the result
+-- next to subelement_metrics for the dashboard heatmap.
+
+ALTER TABLE public.user_readiness_cache
+  ADD COLUMN group_metrics JSONB NOT NULL DEFAULT '{}'::JSONB;
+
+-- Structure: { "T5A": { subelement, accuracy, recent_accuracy, coverage, mastery, estimated_accuracy, pool_size, attempts_count }, ... }
+COMMENT ON COLUMN public.user_readiness_cache.group_metrics IS
+  'Per-question-group metrics keyed by group code; estimated_accuracy is 0 for groups never attempted';
@@ -0,0 +1,89 @@
+-- Migration: Streak credit for the Morse code trainer
+-- Copying Morse characters in the CW trainer now counts toward the daily
+-- streak, the same way answering questions or studying flashcards does.
+-- increment_daily_activity gains a p_morse counter (default 0, so existing
+-- callers and increment_daily_activity_once are unchanged).
+
+-- ============================================================
+-- 1. COLUMN
+-- ============================================================
+
+ALTER TABLE public.daily_activity
+  ADD COLUMN morse_characters INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.daily_activity.morse_characters IS 'Number of Morse characters copied in the CW trainer';
+
+-- qualifies_for_streak is a generated column, so it is rebuilt with the new
+-- condition (the partial index on it goes with it and is recreated)
+ALTER TABLE public.daily_activity DROP COLUMN qualifies_for_streak;
+
+ALTER TABLE public.daily_activity
+  ADD COLUMN qualifies_for_streak BOOLEAN GENERATED ALWAYS AS (
+    questions_answered >= 5
+    OR tests_taken >= 1
+    OR glossary_terms_studied >= 10
+    OR morse_characters >= 50
+  ) STORED;
+
+COMMENT ON COLUMN public.daily_activity.qualifies_for_streak IS 'Whether this day counts toward the streak';
+
+CREATE INDEX idx_daily_activity_qualifies ON public.daily_activity(user_id, activity_date) WHERE qualifies_for_streak = true;
+
+-- ============================================================
+-- 2. INCREMENT RPC
+-- ============================================================
+
+-- Dropped rather than replaced: a new argument would otherwise leave an
+-- ambiguous overload behind
+DROP FUNCTION public.increment_daily_activity(UUID, DATE, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER);
+
+CREATE FUNCTION public.increment_daily_activity(
+  p_user_id UUID,
+  p_date DATE,
+  p_questions INTEGER DEFAULT 0,
+  p_correct INTEGER DEFAULT 0,
+  p_tests INTEGER DEFAULT 0,
+  p_tests_passed INTEGER DEFAULT 0,
+  p_glossary INTEGER DEFAULT 0,
+  p_morse INTEGER DEFAULT 0
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.daily_activity (
+    user_id,
+    activity_date,
+    questions_answered,
+    questions_correct,
+    tests_taken,
+    tests_passed,
+    glossary_terms_studied,
+    morse_characters
+  )
+  VALUES (
+    p_user_id,
+    p_date,
+    p_questions,
+    p_correct,
+    p_tests,
+    p_tests_passed,
+    p_glossary,
+    p_morse
+  )
+  ON CONFLICT (user_id, activity_date) DO UPDATE SET
+    questions_answered = daily_activity.questions_answered + EXCLUDED.questions_answered,
+    questions_correct = daily_activity.questions_correct + EXCLUDED.questions_correct,
+    tests_taken = daily_activity.tests_taken + EXCLUDED.tests_taken,
+    tests_passed = daily_activity.tests_passed + EXCLUDED.tests_passed,
+    glossary_terms_studied = daily_activity.glossary_terms_studied + EXCLUDED.glossary_terms_studied,
+    morse_characters = daily_activity.morse_characters + EXCLUDED.morse_characters,
+    updated_at = now();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.increment_daily_activity(UUID, DATE, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.increment_daily_activity(UUID, DATE, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER, INTEGER) IS 'Increments daily activity counters, including Morse characters copied. search_path fixed for security.';
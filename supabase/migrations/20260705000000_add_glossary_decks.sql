@@ -0,0 +1,72 @@
+-- Migration: Glossary decks
+-- Glossary terms were one flat list, so flashcards mixed Q-codes, phonetic
+-- words and electronics vocabulary together. Terms can now belong to a named
+-- deck (Q-codes, the NATO phonetic alphabet, prosigns, band-plan edges,
+-- common abbreviations) that learners drill on its own. Terms without a deck
+-- still show up in the "All terms" deck.
+--
+-- Per-deck progress needs no new table: glossary_progress already holds one
+-- row per user and term, and each term belongs to at most one deck.
+
+-- ============================================================
+-- 1. DECKS
+-- ============================================================
+
+CREATE TABLE public.glossary_decks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  slug TEXT NOT NULL UNIQUE CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name TEXT NOT NULL,
+  description TEXT,
+  display_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.glossary_decks IS
+  'Named groups of glossary terms that can be drilled on their own';
+
+ALTER TABLE public.glossary_decks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Glossary decks are publicly readable"
+  ON public.glossary_decks FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert glossary decks"
+  ON public.glossary_decks FOR INSERT
+  WITH CHECK (public.has_role((SELECT auth.uid()), 'admin'::public.app_role));
+
+CREATE POLICY "Admins can update glossary decks"
+  ON public.glossary_decks FOR UPDATE
+  USING (public.has_role((SELECT auth.uid()), 'admin'::public.app_role));
+
+CREATE POLICY "Admins can delete glossary decks"
+  ON public.glossary_decks FOR DELETE
+  USING (public.has_role((SELECT auth.uid()), 'admin'::public.app_role));
+
+-- ============================================================
+-- 2. TERM MEMBERSHIP
+-- Deleting a deck leaves its terms in the glossary, just without a deck.
+-- deck_id is not a versioned field (see content_revision_fields), so moving
+-- a term between decks doesn't create a content revision.
+-- ============================================================
+
+ALTER TABLE public.glossary_terms
+  ADD COLUMN deck_id UUID REFERENCES public.glossary_decks(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_glossary_terms_deck_id ON public.glossary_terms(deck_id);
+
+-- glossary_progress is read per user and deck by joining through the term
+CREATE INDEX IF NOT EXISTS idx_glossary_progress_user_id
+  ON public.glossary_progress(user_id);
+
+-- ============================================================
+-- 3. STARTER DECKS
+-- Terms are added by admins (or bulk import with a deck column).
+-- ============================================================
+
+INSERT INTO public.glossary_decks (slug, name, description, display_order) VALUES
+  ('q-codes', 'Q-Codes', 'Three-letter Q signals such as QTH, QSL and QRM', 1),
+  ('phonetic-alphabet', 'Phonetic Alphabet', 'The NATO/ITU phonetic alphabet, Alfa to Zulu', 2),
+  ('prosigns', 'Prosigns', 'CW procedural signals such as AR, SK and KN', 3),
+  ('band-plan', 'Band-Plan Edges', 'Band and sub-band edges for your license class', 4),
+  ('abbreviations', 'Common Abbreviations', 'On-air and CW abbreviations such as 73, TNX and FB', 5)
+ON CONFLICT (slug) DO NOTHING;
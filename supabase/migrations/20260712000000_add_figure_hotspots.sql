@@ -0,0 +1,117 @@
+-- Migration: Figure hotspots
+-- Figure questions (T-1, T-2, T-3, G7-1, E9-1, ...) ask learners to identify
+-- numbered components on a schematic. Admins can now place labeled hotspots
+-- on a figure; after answering, learners hover or tap a hotspot to see what
+-- the component is, with a link to its glossary entry.
+--
+-- Hotspots belong to a figure, not a question: every question in a pool
+-- whose figure_reference matches shares the same set. Figure names restart
+-- with each pool (the 2026 pool's T-1 is a different drawing), so they are
+-- keyed by pool_version too. Positions are stored as percentages of the
+-- image size so they survive re-uploads at a different resolution.
+
+CREATE TABLE public.figure_hotspots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  figure_reference TEXT NOT NULL,
+  pool_version TEXT NOT NULL,
+  label TEXT NOT NULL,
+  name TEXT NOT NULL,
+  description TEXT,
+  x NUMERIC(5, 2) NOT NULL CHECK (x >= 0 AND x <= 100),
+  y NUMERIC(5, 2) NOT NULL CHECK (y >= 0 AND y <= 100),
+  glossary_term_id UUID REFERENCES public.glossary_terms(id) ON DELETE SET NULL,
+  display_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (figure_reference, pool_version, label)
+);
+
+COMMENT ON TABLE public.figure_hotspots IS
+  'Labeled points on a question figure, shared by every question in the pool with the same figure_reference';
+COMMENT ON COLUMN public.figure_hotspots.label IS
+  'Marker text shown on the figure, usually the component number, e.g. "3"';
+COMMENT ON COLUMN public.figure_hotspots.x IS
+  'Horizontal position as a percentage of the image width';
+COMMENT ON COLUMN public.figure_hotspots.y IS
+  'Vertical position as a percentage of the image height';
+
+-- Figure lookups use the UNIQUE (figure_reference, pool_version, label) index
+CREATE INDEX idx_figure_hotspots_glossary_term_id
+  ON public.figure_hotspots(glossary_term_id);
+
+ALTER TABLE public.figure_hotspots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Figure hotspots are publicly readable"
+  ON public.figure_hotspots FOR SELECT
+  USING (true);
+
+CREATE POLICY "Admins can insert figure hotspots"
+  ON public.figure_hotspots FOR INSERT
+  WITH CHECK (public.has_role((SELECT auth.uid()), 'admin'::public.app_role));
+
+CREATE POLICY "Admins can update figure hotspots"
+  ON public.figure_hotspots FOR UPDATE
+  USING (public.has_role((SELECT auth.uid()), 'admin'::public.app_role));
+
+CREATE POLICY "Admins can delete figure hotspots"
+  ON public.figure_hotspots FOR DELETE
+  USING (public.has_role((SELECT auth.uid()), 'admin'::public.app_role));
+
+-- Replace a figure's hotspots in one transaction, so a failed insert can't
+-- leave the figure with none. Rows come in display order; the saved set is
+-- returned with each hotspot's glossary term.
+CREATE OR REPLACE FUNCTION public.replace_figure_hotspots(
+  p_figure_reference TEXT,
+  p_pool_version TEXT,
+  p_hotspots JSONB
+)
+RETURNS TABLE (
+  id UUID,
+  figure_reference TEXT,
+  pool_version TEXT,
+  label TEXT,
+  name TEXT,
+  description TEXT,
+  x NUMERIC,
+  y NUMERIC,
+  glossary_term JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NOT public.has_role((SELECT auth.uid()), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can edit figure hotspots' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.figure_hotspots h
+  WHERE h.figure_reference = p_figure_reference
+    AND h.pool_version = p_pool_version;
+
+  INSERT INTO public.figure_hotspots (
+    figure_reference, pool_version, label, name, description, x, y, glossary_term_id, display_order
+  )
+  SELECT p_figure_reference, p_pool_version, r.label, r.name, r.description, r.x, r.y, r.glossary_term_id, r.display_order
+  FROM jsonb_to_recordset(COALESCE(p_hotspots, '[]'::JSONB)) AS r(
+    label TEXT, name TEXT, description TEXT, x NUMERIC, y NUMERIC, glossary_term_id UUID, display_order INTEGER
+  );
+
+  RETURN QUERY
+  SELECT
+    h.id, h.figure_reference, h.pool_version, h.label, h.name, h.description, h.x, h.y,
+    CASE WHEN g.id IS NULL THEN NULL
+      ELSE jsonb_build_object('id', g.id, 'term', g.term, 'definition', g.definition)
+    END
+  FROM public.figure_hotspots h
+  LEFT JOIN public.glossary_terms g ON g.id = h.glossary_term_id
+  WHERE h.figure_reference = p_figure_reference
+    AND h.pool_version = p_pool_version
+  ORDER BY h.display_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.replace_figure_hotspots(TEXT, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.replace_figure_hotspots(TEXT, TEXT, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.replace_figure_hotspots(TEXT, TEXT, JSONB) IS
+  'Atomically replace the hotspots on a figure in a pool and return the saved set. Admin only.';
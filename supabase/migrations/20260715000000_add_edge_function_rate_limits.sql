@@ -0,0 +1,57 @@
+-- Per-caller rate limiting for public edge functions (question-api).
+--
+-- edge_function_throttle enforces a global cooldown between runs of
+-- admin-only maintenance functions. Public read endpoints need the opposite:
+-- many runs, but a bounded number per caller per window. Each row is one
+-- caller's fixed window; hit_edge_function_rate_limit() counts a request and
+-- returns the window's running total in a single atomic statement, so
+-- concurrent requests can't both slip under the limit.
+CREATE TABLE IF NOT EXISTS public.edge_function_rate_limits (
+  bucket_key text PRIMARY KEY,
+  window_start timestamptz NOT NULL DEFAULT now(),
+  request_count integer NOT NULL DEFAULT 0
+);
+
+CREATE INDEX IF NOT EXISTS idx_edge_function_rate_limits_window_start
+  ON public.edge_function_rate_limits (window_start);
+
+-- Same access model as edge_function_throttle: RLS with no policies, so only
+-- service_role can touch it. Bucket keys hold hashed caller identifiers.
+ALTER TABLE public.edge_function_rate_limits ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE public.edge_function_rate_limits IS
+  'Fixed-window request counters used by public edge functions to rate-limit each caller. Accessed only via service_role.';
+
+CREATE OR REPLACE FUNCTION public.hit_edge_function_rate_limit(
+  p_bucket_key text,
+  p_window_seconds integer
+)
+RETURNS TABLE (request_count integer, window_start timestamptz)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  -- Opportunistically clear windows nobody has touched for a day
+  IF random() < 0.01 THEN
+    DELETE FROM public.edge_function_rate_limits r
+    WHERE r.window_start < now() - interval '1 day';
+  END IF;
+
+  RETURN QUERY
+  INSERT INTO public.edge_function_rate_limits AS r (bucket_key, window_start, request_count)
+  VALUES (p_bucket_key, now(), 1)
+  ON CONFLICT (bucket_key) DO UPDATE SET
+    window_start = CASE
+      WHEN r.window_start <= now() - make_interval(secs => p_window_seconds) THEN now()
+      ELSE r.window_start
+    END,
+    request_count = CASE
+      WHEN r.window_start <= now() - make_interval(secs => p_window_seconds) THEN 1
+      ELSE r.request_count + 1
+    END
+  RETURNING r.request_count, r.window_start;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.hit_edge_function_rate_limit(text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hit_edge_function_rate_limit(text, integer) TO service_role;
@@ -0,0 +1,219 @@
+-- Migration: Study days for the weekly study planner
+-- The dashboard's study plan works backward from the learner's exam date
+-- over the weekdays they can study. Weekdays are numbered as in JavaScript's
+-- Date.getDay() and Postgres EXTRACT(DOW): 0 is Sunday. Existing learners
+-- keep studying every day until they choose otherwise.
+
+-- ============================================================
+-- 1. COLUMN
+-- ============================================================
+
+ALTER TABLE public.weekly_study_goals
+  ADD COLUMN study_days SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+  ADD CONSTRAINT weekly_study_goals_study_days_check CHECK (
+    cardinality(study_days) > 0
+    AND study_days <@ '{0,1,2,3,4,5,6}'::SMALLINT[]
+  );
+
+COMMENT ON COLUMN public.weekly_study_goals.study_days IS 'Weekdays the learner can study (0 = Sunday)';
+
+-- ============================================================
+-- 2. LEARNER DATA IMPORT
+-- ============================================================
+
+-- Same as 20260718000000_add_learner_data_import.sql, but weekly goals also
+-- restore study days
+CREATE OR REPLACE FUNCTION public.import_learner_archive(p_archive JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+VOLATILE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  v_user_id UUID := (SELECT auth.uid());
+  v_data JSONB := p_archive->'data';
+  v_test_ids JSONB := '{}'::JSONB;
+  v_row RECORD;
+  v_new_id UUID;
+  v_counts JSONB := '{}'::JSONB;
+  v_count INTEGER := 0;
+  v_study_days SMALLINT[];
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_archive->>'format' IS DISTINCT FROM 'openhamprep-learner-data'
+     OR (p_archive->>'schema_version')::INTEGER IS DISTINCT FROM 1
+     OR jsonb_typeof(v_data) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'Unsupported learner data archive' USING ERRCODE = '22023';
+  END IF;
+
+  -- Only a fresh account: merging into existing history would double-count
+  -- mastery and streaks
+  IF EXISTS (SELECT 1 FROM public.question_attempts WHERE user_id = v_user_id)
+     OR EXISTS (SELECT 1 FROM public.practice_test_results WHERE user_id = v_user_id)
+     OR EXISTS (SELECT 1 FROM public.events WHERE user_id = v_user_id)
+     OR EXISTS (SELECT 1 FROM public.bookmarked_questions WHERE user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Study history can only be imported into an account with no study history'
+      USING ERRCODE = '55000';
+  END IF;
+
+  -- Practice tests first, with new ids; attempts point at them
+  FOR v_row IN
+    SELECT *
+    FROM jsonb_to_recordset(COALESCE(v_data->'practice_test_results', '[]'::JSONB)) AS t(
+      id TEXT, test_type TEXT, score INTEGER, total_questions INTEGER,
+      percentage INTEGER, passed BOOLEAN, completed_at TIMESTAMPTZ
+    )
+    ORDER BY completed_at
+  LOOP
+    INSERT INTO public.practice_test_results (user_id, test_type, score, total_questions, percentage, passed, completed_at)
+    VALUES (v_user_id, v_row.test_type, v_row.score, v_row.total_questions, v_row.percentage, v_row.passed, v_row.completed_at)
+    RETURNING id INTO v_new_id;
+
+    IF v_row.id IS NOT NULL THEN
+      v_test_ids := v_test_ids || jsonb_build_object(v_row.id, v_new_id);
+    END IF;
+    v_count := v_count + 1;
+  END LOOP;
+  v_counts := v_counts || jsonb_build_object('practice_test_results', v_count);
+
+  -- Attempts on questions that no longer exist are skipped
+  INSERT INTO public.question_attempts (user_id, question_id, selected_answer, is_correct, attempt_type, attempted_at, test_result_id)
+  SELECT v_user_id, q.id, a.selected_answer, a.is_correct, a.attempt_type, a.attempted_at,
+         (v_test_ids->>a.test_result_id)::UUID
+  FROM jsonb_to_recordset(COALESCE(v_data->'question_attempts', '[]'::JSONB)) AS a(
+    question_id UUID, selected_answer INTEGER, is_correct BOOLEAN, attempt_type TEXT,
+    attempted_at TIMESTAMPTZ, test_result_id TEXT
+  )
+  JOIN public.questions q ON q.id = a.question_id
+  ORDER BY a.attempted_at;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('question_attempts', v_count);
+
+  -- Only the study events that rebuild derived state are restored, and only
+  -- attempts on questions that still exist; the payload is client-supplied
+  INSERT INTO public.events (user_id, event_type, "timestamp", payload)
+  SELECT v_user_id, e.event_type, e."timestamp", e.payload
+  FROM jsonb_to_recordset(COALESCE(v_data->'events', '[]'::JSONB)) AS e(
+    event_type TEXT, "timestamp" TIMESTAMPTZ, payload JSONB
+  )
+  WHERE e.event_type IN ('question_attempt', 'practice_test_completed')
+    AND (
+      e.event_type <> 'question_attempt'
+      OR EXISTS (SELECT 1 FROM public.questions q WHERE q.id = public.event_question_id(e.payload))
+    )
+  ORDER BY e."timestamp";
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('events', v_count);
+
+  INSERT INTO public.daily_activity (
+    user_id, activity_date, questions_answered, questions_correct, tests_taken,
+    tests_passed, glossary_terms_studied, morse_characters
+  )
+  SELECT v_user_id, d.activity_date, d.questions_answered, d.questions_correct, d.tests_taken,
+         d.tests_passed, d.glossary_terms_studied, COALESCE(d.morse_characters, 0)
+  FROM jsonb_to_recordset(COALESCE(v_data->'daily_activity', '[]'::JSONB)) AS d(
+    activity_date DATE, questions_answered INTEGER, questions_correct INTEGER, tests_taken INTEGER,
+    tests_passed INTEGER, glossary_terms_studied INTEGER, morse_characters INTEGER
+  )
+  ORDER BY d.activity_date
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('daily_activity', v_count);
+
+  -- The trigger rebuilt the running streak; keep the old best and freezes
+  IF jsonb_typeof(v_data->'streak') = 'object' THEN
+    UPDATE public.daily_streaks
+    SET longest_streak = GREATEST(longest_streak, COALESCE((v_data->'streak'->>'longest_streak')::INTEGER, 0)),
+        streak_freezes_available = GREATEST(streak_freezes_available, COALESCE((v_data->'streak'->>'streak_freezes_available')::INTEGER, 0)),
+        updated_at = now()
+    WHERE user_id = v_user_id;
+  END IF;
+
+  IF jsonb_typeof(v_data->'profile') = 'object' THEN
+    UPDATE public.profiles
+    SET display_name = COALESCE(NULLIF(btrim(v_data->'profile'->>'display_name'), ''), display_name),
+        best_streak = GREATEST(best_streak, COALESCE((v_data->'profile'->>'best_streak')::INTEGER, 0)),
+        glossary_best_streak = GREATEST(glossary_best_streak, COALESCE((v_data->'profile'->>'glossary_best_streak')::INTEGER, 0)),
+        glossary_current_streak = COALESCE((v_data->'profile'->>'glossary_current_streak')::INTEGER, glossary_current_streak),
+        glossary_last_study_date = COALESCE((v_data->'profile'->>'glossary_last_study_date')::DATE, glossary_last_study_date)
+    WHERE id = v_user_id;
+  END IF;
+
+  INSERT INTO public.bookmarked_questions (user_id, question_id, note, created_at)
+  SELECT v_user_id, q.id, b.note, COALESCE(b.created_at, now())
+  FROM jsonb_to_recordset(COALESCE(v_data->'bookmarks', '[]'::JSONB)) AS b(
+    question_id UUID, note TEXT, created_at TIMESTAMPTZ
+  )
+  JOIN public.questions q ON q.id = b.question_id
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('bookmarks', v_count);
+
+  IF jsonb_typeof(v_data->'weekly_goals') = 'object' THEN
+    -- Archives from before study days, or with none valid, study every day
+    IF jsonb_typeof(v_data->'weekly_goals'->'study_days') = 'array' THEN
+      SELECT array_agg(DISTINCT d.day::SMALLINT ORDER BY d.day::SMALLINT)
+      INTO v_study_days
+      FROM jsonb_array_elements_text(v_data->'weekly_goals'->'study_days') AS d(day)
+      WHERE d.day ~ '^[0-6]$';
+    END IF;
+
+    INSERT INTO public.weekly_study_goals (user_id, questions_goal, tests_goal, study_days)
+    VALUES (
+      v_user_id,
+      COALESCE((v_data->'weekly_goals'->>'questions_goal')::INTEGER, 50),
+      COALESCE((v_data->'weekly_goals'->>'tests_goal')::INTEGER, 3),
+      COALESCE(v_study_days, '{0,1,2,3,4,5,6}')
+    )
+    ON CONFLICT (user_id) DO UPDATE SET
+      questions_goal = EXCLUDED.questions_goal,
+      tests_goal = EXCLUDED.tests_goal,
+      study_days = EXCLUDED.study_days;
+  END IF;
+
+  INSERT INTO public.topic_progress (user_id, topic_id, is_completed, completed_at)
+  SELECT v_user_id, t.id, p.is_completed, p.completed_at
+  FROM jsonb_to_recordset(COALESCE(v_data->'topic_progress', '[]'::JSONB)) AS p(
+    topic_id UUID, is_completed BOOLEAN, completed_at TIMESTAMPTZ
+  )
+  JOIN public.topics t ON t.id = p.topic_id
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('topic_progress', v_count);
+
+  INSERT INTO public.lesson_progress (user_id, lesson_id, is_completed, completed_at)
+  SELECT v_user_id, l.id, p.is_completed, p.completed_at
+  FROM jsonb_to_recordset(COALESCE(v_data->'lesson_progress', '[]'::JSONB)) AS p(
+    lesson_id UUID, is_completed BOOLEAN, completed_at TIMESTAMPTZ
+  )
+  JOIN public.lessons l ON l.id = p.lesson_id
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('lesson_progress', v_count);
+
+  -- Exam sessions are public reference data; drop links to ones since removed
+  INSERT INTO public.exam_attempts (user_id, exam_date, target_license, outcome, score, total_questions, notes, exam_session_id)
+  SELECT v_user_id, x.exam_date, x.target_license::public.license_type, x.outcome::public.exam_outcome,
+         x.score, x.total_questions, x.notes, s.id
+  FROM jsonb_to_recordset(COALESCE(v_data->'exam_attempts', '[]'::JSONB)) AS x(
+    exam_date DATE, target_license TEXT, outcome TEXT, score INTEGER,
+    total_questions INTEGER, notes TEXT, exam_session_id UUID
+  )
+  LEFT JOIN public.exam_sessions s ON s.id = x.exam_session_id
+  ON CONFLICT DO NOTHING;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_counts := v_counts || jsonb_build_object('exam_attempts', v_count);
+
+  RETURN v_counts;
+END;
+$$;
+
+COMMENT ON FUNCTION public.import_learner_archive(JSONB) IS
+  'Restore a learner data archive (schema version 1) into the caller''s account, which must have no study history. Returns imported row counts per table.';
+
+REVOKE EXECUTE ON FUNCTION public.import_learner_archive(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.import_learner_archive(JSONB) TO authenticated;